@@ -30,7 +30,7 @@ const BLEProviderWrapper = ({ children }: { children: React.ReactNode }) => {
     return <>{children}</>;
   }
   
-  const orgCode = BLESessionService.getOrgCode(activeOrganization.slug as 'nhs' | 'nhsa');
+  const orgCode = activeOrganization.beacon_major ?? BLESessionService.getOrgCode(activeOrganization.slug);
   
   // Log when organization context changes
   console.log('[BLEProviderWrapper] ✅ Rendering BLE with organization:', {
@@ -1,12 +1,6 @@
 // Attendance-specific BLE helper functions
 
-/**
- * Organization code mapping for BLE beacon Major field
- */
-export const ORG_CODES = {
-  nhs: 1,
-  nhsa: 2,
-} as const;
+import OrgBeaconCodeResolver from '../../src/services/OrgBeaconCodeResolver';
 
 /**
  * Organization UUID mapping for BLE beacons
@@ -17,10 +11,10 @@ export const ORG_UUIDS = {
 } as const;
 
 /**
- * Gets organization code for BLE beacon Major field
+ * Gets organization code for BLE beacon Major field (registered in organizations.beacon_major)
  */
 export function getOrgCode(orgSlug: string): number {
-  return ORG_CODES[orgSlug as keyof typeof ORG_CODES] || 0;
+  return OrgBeaconCodeResolver.getCode(orgSlug);
 }
 
 /**
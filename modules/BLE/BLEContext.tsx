@@ -1,8 +1,8 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode, useRef } from 'react';
 const BLEHelper = require('./BLEHelper').default;
-import { BLESessionService } from '../../src/services/BLESessionService';
-import { getOrgCode, validateBeaconPayload } from './AttendanceHelper';
-import { Beacon, BLEContextProps, AttendanceSession, AttendanceBLEContextProps, BLEPermissionState, BLEError, BLEErrorType } from '../../src/types/ble';
+import { BLESessionService, BeaconRotationCode } from '../../src/services/BLESessionService';
+import OrgBeaconCodeResolver from '../../src/services/OrgBeaconCodeResolver';
+import { Beacon, BLEContextProps, AttendanceSession, AttendanceBLEContextProps, BLEPermissionState, BLEError, BLEErrorType, BLESessionOptions, BeaconEvidence, CheckOutResult } from '../../src/types/ble';
 import { bluetoothStateManager, BluetoothState } from './BluetoothStateManager';
 import { handlePermissionFlow, checkBLEPermissions, createBLEError } from './permissionHelper';
 import { bleLoggingService, logBLEInfo, logBLEError, logBLEDebug } from '../../src/services/BLELoggingService';
@@ -46,6 +46,7 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
   // Attendance-specific state
   const [currentSession, setCurrentSession] = useState<AttendanceSession | null>(null);
   const [detectedSessions, setDetectedSessions] = useState<AttendanceSession[]>([]);
+  const [activeCheckIns, setActiveCheckIns] = useState<AttendanceSession[]>([]);
   
   // Enhanced state management
   const [bluetoothHardwareState, setBluetoothHardwareState] = useState<BluetoothState>({
@@ -65,6 +66,24 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
   // Session cleanup timer
   const sessionCleanupTimer = useRef<NodeJS.Timeout | null>(null);
 
+  // Rotating beacon state (officer broadcasting a rotating session)
+  const beaconRotationTimer = useRef<NodeJS.Timeout | null>(null);
+  const beaconRotationCodes = useRef<BeaconRotationCode[]>([]);
+  const rotatingSessionToken = useRef<string | null>(null);
+  const BEACON_ROTATION_RETRY_MS = 5000; // Retry fetching codes after a network failure
+
+  // Proximity evidence for check-ins (member scanning)
+  // Key: "major-minor"; rotating sessions link several keys to one session token
+  const beaconEvidence = useRef<Map<string, BeaconEvidence>>(new Map());
+  const sessionBeaconKeys = useRef<Map<string, Set<string>>>(new Map());
+  const MAX_EVIDENCE_SAMPLES = 50; // Most recent RSSI readings kept per beacon
+  const EVIDENCE_STALE_MS = 10 * 60 * 1000; // Dwell restarts after 10 minutes out of range
+
+  // Check-out: members are checked out automatically once the beacon is lost
+  const checkoutMonitorTimer = useRef<NodeJS.Timeout | null>(null);
+  const CHECKOUT_MONITOR_INTERVAL_MS = 30000;
+  const BEACON_LOST_CHECKOUT_MS = 3 * 60 * 1000; // Beacon unheard for 3 minutes
+
   const bluetoothStateSubscription = useRef<EventSubscription | null>(null);
   const beaconDetectedSubscription = useRef<EventSubscription | null>(null);
   
@@ -91,8 +110,8 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
     
     const context = {
       orgId: organizationId,
-      orgSlug: organizationSlug || 'nhs', // Default to NHS
-      orgCode: organizationCode || 1 // Default to NHS code
+      orgSlug: organizationSlug || '',
+      orgCode: organizationCode || BLESessionService.getOrgCode(organizationSlug || '')
     };
     
     if (__DEV__) {
@@ -223,6 +242,7 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
       if (sessionCleanupTimer.current) {
         clearInterval(sessionCleanupTimer.current);
       }
+      clearBeaconRotation();
       
       // NOTE: We intentionally do NOT stop broadcasting or the session here
       // because BLE sessions should persist across screen navigation
@@ -367,8 +387,13 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
       }
     });
 
-    // Determine if this is an attendance beacon by checking organization codes
-    const isAttendanceBeacon = beacon.major === 1 || beacon.major === 2; // NHS or NHSA org codes
+    // Determine if this is an attendance beacon by checking registered organization codes
+    const beaconOrg = await OrgBeaconCodeResolver.resolveOrganization(beacon.major);
+    const isAttendanceBeacon = beaconOrg !== null;
+
+    if (isAttendanceBeacon) {
+      recordBeaconEvidence(beacon);
+    }
     
     console.log(`${DEBUG_PREFIX} Is attendance beacon? ${isAttendanceBeacon} (major=${beacon.major})`);
     
@@ -410,10 +435,10 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
         );
       }
     } else {
-      console.log(`${DEBUG_PREFIX} ⚠️ NOT an attendance beacon (major=${beacon.major} not 1 or 2)`);
+      console.log(`${DEBUG_PREFIX} ⚠️ NOT an attendance beacon (major=${beacon.major} is not a registered organization code)`);
       showMessage(
         'Non-Attendance Beacon',
-        `Detected beacon with major=${beacon.major} (not NHS/NHSA)`,
+        `Detected beacon with major=${beacon.major} (no registered organization)`,
         'info'
       );
     }
@@ -779,7 +804,7 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
   };
 
   // Attendance-specific methods
-  const createAttendanceSession = async (title: string, ttlSeconds: number, orgId?: string): Promise<string> => {
+  const createAttendanceSession = async (title: string, ttlSeconds: number, orgId?: string, options?: BLESessionOptions): Promise<string> => {
     try {
       // CRITICAL: orgId MUST be provided by the calling screen
       if (!orgId) {
@@ -804,8 +829,8 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
         throw new Error('Session duration must be between 1 second and 24 hours');
       }
       
-      logMessage(`Creating attendance session: "${title}" for org ${orgId}, TTL: ${ttlSeconds}s`);
-      const sessionToken = await BLESessionService.createSession(orgId, title, ttlSeconds);
+      logMessage(`Creating attendance session: "${title}" for org ${orgId}, TTL: ${ttlSeconds}s${options?.rotatingBeacon ? ', rotating beacon' : ''}`);
+      const sessionToken = await BLESessionService.createSession(orgId, title, ttlSeconds, options);
       logMessage(`✅ Created attendance session successfully: ${sessionToken}`);
       return sessionToken;
     } catch (error: any) {
@@ -815,6 +840,83 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
     }
   };
 
+  const findCurrentRotationCode = (codes: BeaconRotationCode[]): BeaconRotationCode | null => {
+    const now = Date.now();
+    return codes.find(code => code.startsAt.getTime() <= now && code.endsAt.getTime() > now) || null;
+  };
+
+  const clearBeaconRotation = () => {
+    if (beaconRotationTimer.current) {
+      clearTimeout(beaconRotationTimer.current);
+      beaconRotationTimer.current = null;
+    }
+    beaconRotationCodes.current = [];
+    rotatingSessionToken.current = null;
+  };
+
+  const scheduleBeaconRotation = (sessionToken: string, orgCode: number, advertisedMinor: number, delayMs: number) => {
+    beaconRotationTimer.current = setTimeout(() => {
+      rotateBeaconCode(sessionToken, orgCode, advertisedMinor).catch(error => {
+        console.error(`${DEBUG_PREFIX} ❌ Error rotating beacon code:`, error);
+        if (rotatingSessionToken.current === sessionToken) {
+          scheduleBeaconRotation(sessionToken, orgCode, advertisedMinor, BEACON_ROTATION_RETRY_MS);
+        }
+      });
+    }, Math.max(delayMs, 0));
+  };
+
+  // Advance a rotating session to the current window's code. Codes are fetched
+  // in batches so a short network drop doesn't interrupt the broadcast.
+  const rotateBeaconCode = async (sessionToken: string, orgCode: number, advertisedMinor: number): Promise<void> => {
+    if (rotatingSessionToken.current !== sessionToken) {
+      return;
+    }
+
+    const now = Date.now();
+    let codes = beaconRotationCodes.current.filter(code => code.endsAt.getTime() > now);
+
+    if (codes.length < 2) {
+      // Keep broadcasting the codes already fetched if the refresh fails
+      const schedule = await BLESessionService.getBeaconRotationSchedule(sessionToken).catch(error => {
+        console.warn(`${DEBUG_PREFIX} ⚠️ Failed to refresh rotating beacon codes:`, error);
+        return null;
+      });
+      if (rotatingSessionToken.current !== sessionToken) {
+        return;
+      }
+      if (schedule && schedule.codes.length === 0) {
+        // Session has ended; the cleanup timer stops the broadcast
+        logMessage(`Rotating beacon schedule finished for ${sessionToken}`);
+        return;
+      }
+      if (schedule) {
+        codes = schedule.codes;
+      }
+    }
+    beaconRotationCodes.current = codes;
+
+    const current = findCurrentRotationCode(codes);
+    if (!current) {
+      console.warn(`${DEBUG_PREFIX} ⚠️ No rotating beacon code for the current window, retrying`);
+      scheduleBeaconRotation(sessionToken, orgCode, advertisedMinor, BEACON_ROTATION_RETRY_MS);
+      return;
+    }
+
+    if (current.minor !== advertisedMinor) {
+      await BLEHelper.stopBroadcasting();
+      if (rotatingSessionToken.current !== sessionToken) {
+        return;
+      }
+      await BLEHelper.startBroadcasting(APP_UUID, orgCode, current.minor, 2, 3);
+      setCurrentSession(prev => prev && prev.sessionToken === sessionToken ? { ...prev, beaconMinor: current.minor } : prev);
+      if (__DEV__) {
+        console.log(`${DEBUG_PREFIX} 🔁 Rotated beacon code for ${sessionToken}: ${advertisedMinor} → ${current.minor}`);
+      }
+    }
+
+    scheduleBeaconRotation(sessionToken, orgCode, current.minor, current.endsAt.getTime() - Date.now());
+  };
+
   const startAttendanceSession = async (sessionToken: string, orgCode: number): Promise<void> => {
     console.log(`${DEBUG_PREFIX} 🎬 startAttendanceSession CALLED`, { sessionToken, orgCode, bluetoothState });
     
@@ -825,17 +927,34 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
     }
 
     try {
+      // Rotating sessions advertise the code for the current time window;
+      // static sessions advertise the slot the server reserved, which is
+      // unique among the organization's active sessions. If a rotating
+      // session's codes can't be loaded this throws rather than falling back
+      // to the slot, which scanners would never resolve to the session.
+      const rotation = await BLESessionService.getBeaconRotationSchedule(sessionToken);
+      const currentCode = rotation ? findCurrentRotationCode(rotation.codes) : null;
+      if (rotation && !currentCode) {
+        throw new Error('No rotating beacon code available for this session');
+      }
+
+      const beaconMinor = currentCode ? currentCode.minor : await BLESessionService.getBeaconMinor(sessionToken);
+      if (beaconMinor === null) {
+        throw new Error('No beacon slot allocated for this session');
+      }
+
       console.log(`${DEBUG_PREFIX} 🔵 Starting BLE broadcast with:`, {
         sessionToken,
         orgCode,
         APP_UUID,
         major: orgCode,
-        minor: BLESessionService.encodeSessionToken(sessionToken)
+        minor: beaconMinor,
+        rotating: !!rotation
       });
       
-      console.log(`${DEBUG_PREFIX} 📞 Calling BLEHelper.broadcastAttendanceSession...`);
-      const result = await BLEHelper.broadcastAttendanceSession(orgCode, sessionToken);
-      console.log(`${DEBUG_PREFIX} ✅ BLEHelper.broadcastAttendanceSession returned:`, result);
+      console.log(`${DEBUG_PREFIX} 📞 Calling BLEHelper.startBroadcasting...`);
+      await BLEHelper.startBroadcasting(APP_UUID, orgCode, beaconMinor, 2, 3);
+      console.log(`${DEBUG_PREFIX} ✅ BLEHelper.startBroadcasting returned`);
       
       // Resolve session to get event details for notification
       const sessionDetails = await BLESessionService.resolveSession(sessionToken);
@@ -844,6 +963,8 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
       const session: AttendanceSession = {
         sessionToken,
         orgCode,
+        beaconMinor,
+        rotating: !!rotation,
         title: eventName,
         expiresAt: sessionDetails?.endsAt || new Date(Date.now() + 3600000), // Use session expiry or 1 hour default
         isActive: true
@@ -851,6 +972,13 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
       
       setCurrentSession(session);
       setIsBroadcasting(true);
+
+      if (rotation && currentCode) {
+        clearBeaconRotation();
+        rotatingSessionToken.current = sessionToken;
+        beaconRotationCodes.current = rotation.codes;
+        scheduleBeaconRotation(sessionToken, orgCode, currentCode.minor, currentCode.endsAt.getTime() - Date.now());
+      }
       
       logMessage(`✅ Started attendance session: ${sessionToken} for org ${orgCode}`);
       if (__DEV__) {
@@ -889,7 +1017,8 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
     }
 
     try {
-      await BLEHelper.stopAttendanceSession(currentSession.orgCode);
+      clearBeaconRotation();
+      await BLEHelper.stopBroadcasting();
       setCurrentSession(null);
       setIsBroadcasting(false);
       
@@ -903,6 +1032,49 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
 
   // Auto-attendance feature removed - all check-ins are now manual
 
+  const recordBeaconEvidence = (beacon: Beacon) => {
+    const key = `${beacon.major}-${beacon.minor}`;
+    const seenAt = new Date();
+
+    beaconEvidence.current.forEach((entry, entryKey) => {
+      if (seenAt.getTime() - entry.lastSeenAt.getTime() > EVIDENCE_STALE_MS) {
+        beaconEvidence.current.delete(entryKey);
+      }
+    });
+
+    const evidence = beaconEvidence.current.get(key) ?? { rssiSamples: [], firstSeenAt: seenAt, lastSeenAt: seenAt };
+
+    if (typeof beacon.rssi === 'number' && Number.isFinite(beacon.rssi)) {
+      evidence.rssiSamples = [...evidence.rssiSamples, beacon.rssi].slice(-MAX_EVIDENCE_SAMPLES);
+    }
+    evidence.lastSeenAt = seenAt;
+    beaconEvidence.current.set(key, evidence);
+  };
+
+  const linkBeaconEvidence = (sessionToken: string, beacon: Beacon) => {
+    const keys = sessionBeaconKeys.current.get(sessionToken) ?? new Set<string>();
+    keys.add(`${beacon.major}-${beacon.minor}`);
+    sessionBeaconKeys.current.set(sessionToken, keys);
+  };
+
+  // Combines the evidence of every beacon code heard for a session
+  const getAttendanceEvidence = (sessionToken: string): BeaconEvidence | null => {
+    const entries = Array.from(sessionBeaconKeys.current.get(sessionToken) ?? [])
+      .map(key => beaconEvidence.current.get(key))
+      .filter((entry): entry is BeaconEvidence => !!entry)
+      .sort((a, b) => a.firstSeenAt.getTime() - b.firstSeenAt.getTime());
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    return {
+      rssiSamples: entries.flatMap(entry => entry.rssiSamples).slice(-MAX_EVIDENCE_SAMPLES),
+      firstSeenAt: entries[0].firstSeenAt,
+      lastSeenAt: new Date(Math.max(...entries.map(entry => entry.lastSeenAt.getTime()))),
+    };
+  };
+
   const handleAttendanceBeaconDetected = async (beacon: Beacon & { orgCode?: number }): Promise<void> => {
     try {
       // RATE LIMITING: Check if we recently processed this beacon
@@ -956,7 +1128,7 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
 
       // Check for duplicate detection (prevent multiple submissions)
       const existingSession = detectedSessions.find(s => 
-        BLESessionService.encodeSessionToken(s.sessionToken) === beacon.minor
+        s.orgCode === beacon.major && s.beaconMinor === beacon.minor
       );
       
       if (existingSession) {
@@ -989,6 +1161,8 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
         return;
       }
 
+      linkBeaconEvidence(session.sessionToken, beacon);
+
       console.log(`${DEBUG_PREFIX} ✅ Found session:`, {
         sessionToken: session.sessionToken,
         title: session.eventTitle,
@@ -1034,6 +1208,8 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
       const attendanceSession: AttendanceSession = {
         sessionToken: session.sessionToken,
         orgCode: session.orgCode,
+        beaconMinor: session.beaconMinor,
+        rotating: session.rotating,
         title: session.eventTitle,
         expiresAt: session.endsAt,
         isActive: isSessionActive && session.isValid, // Only fully active if not expired
@@ -1067,6 +1243,7 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
           const updated = [...prev];
           updated[existingIndex] = {
             ...updated[existingIndex],
+            beaconMinor: attendanceSession.beaconMinor, // Latest code for rotating sessions
             lastSeen: detectionTime
           };
           if (__DEV__) {
@@ -1120,6 +1297,66 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
     }
   };
 
+  // Remember a check-in to a session that expects the member to check out
+  const trackCheckIn = (session: AttendanceSession) => {
+    setActiveCheckIns(prev => [...prev.filter(s => s.sessionToken !== session.sessionToken), session]);
+  };
+
+  const checkOutOfSession = async (sessionToken: string, lastSeenAt?: Date): Promise<CheckOutResult> => {
+    const automatic = !!lastSeenAt;
+    const result = await BLESessionService.checkOut(sessionToken, { lastSeenAt, automatic });
+
+    // Either way the member is no longer checked in
+    if (result.success || result.error === 'already_checked_out' || result.error === 'not_checked_in') {
+      setActiveCheckIns(prev => prev.filter(s => s.sessionToken !== sessionToken));
+    }
+
+    if (automatic && result.success) {
+      const minutes = Math.round((result.durationSeconds ?? 0) / 60);
+      showMessage('Checked Out', `You left the session area and were checked out after ${minutes} min`, 'info');
+    }
+
+    return result;
+  };
+
+  // While scanning, check out of sessions whose beacon has not been heard for a while
+  useEffect(() => {
+    if (checkoutMonitorTimer.current) {
+      clearInterval(checkoutMonitorTimer.current);
+      checkoutMonitorTimer.current = null;
+    }
+
+    if (!isListening || activeCheckIns.length === 0) {
+      return;
+    }
+
+    checkoutMonitorTimer.current = setInterval(() => {
+      const now = Date.now();
+      activeCheckIns.forEach(session => {
+        const evidence = getAttendanceEvidence(session.sessionToken);
+        const lastSeenAt = evidence?.lastSeenAt;
+        const sessionEnded = session.expiresAt.getTime() <= now;
+
+        if (sessionEnded) {
+          // The session end closes open check-outs on the server
+          setActiveCheckIns(prev => prev.filter(s => s.sessionToken !== session.sessionToken));
+        } else if (lastSeenAt && now - lastSeenAt.getTime() > BEACON_LOST_CHECKOUT_MS) {
+          console.log(`${DEBUG_PREFIX} 🚪 Beacon lost, checking out of session:`, session.title);
+          checkOutOfSession(session.sessionToken, lastSeenAt).catch(error => {
+            console.error(`${DEBUG_PREFIX} ❌ Automatic check-out failed:`, error);
+          });
+        }
+      });
+    }, CHECKOUT_MONITOR_INTERVAL_MS);
+
+    return () => {
+      if (checkoutMonitorTimer.current) {
+        clearInterval(checkoutMonitorTimer.current);
+        checkoutMonitorTimer.current = null;
+      }
+    };
+  }, [isListening, activeCheckIns]);
+
   // Remove a session from detected sessions (e.g., after successful check-in)
   const removeDetectedSession = (sessionToken: string) => {
     console.log(`${DEBUG_PREFIX} 🗑️ Removing session from detected list:`, sessionToken);
@@ -1153,8 +1390,12 @@ export const BLEProvider: React.FC<BLEProviderProps> = ({
     createAttendanceSession,
     startAttendanceSession,
     stopAttendanceSession,
+    getAttendanceEvidence,
+    trackCheckIn,
+    checkOutOfSession: (sessionToken: string) => checkOutOfSession(sessionToken),
     currentSession,
     detectedSessions,
+    activeCheckIns,
     
     // Enhanced state management
     bluetoothHardwareState,
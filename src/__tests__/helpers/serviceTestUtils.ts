@@ -0,0 +1,63 @@
+/**
+ * Shared helpers for service unit tests
+ * A chainable Supabase query builder, the permission context mock every
+ * BaseDataService test installs, and stubs for the current user lookups
+ */
+
+export interface QueryResult<T = unknown> {
+  data: T | null;
+  error: { message: string; code?: string } | null;
+  count?: number | null;
+}
+
+const QUERY_BUILDER_METHODS = [
+  'select', 'insert', 'update', 'upsert', 'delete',
+  'eq', 'neq', 'in', 'is', 'not', 'or',
+  'order', 'limit', 'range', 'single', 'maybeSingle',
+] as const;
+
+export type QueryBuilderMethod = typeof QUERY_BUILDER_METHODS[number];
+
+export type MockQueryBuilder<T = unknown> = Record<QueryBuilderMethod, jest.Mock> & PromiseLike<QueryResult<T>>;
+
+/**
+ * Query builder whose methods record their calls and return the builder;
+ * awaiting it resolves to the given result
+ */
+export function createQueryBuilder<T>(result: QueryResult<T>): MockQueryBuilder<T> {
+  const then: PromiseLike<QueryResult<T>>['then'] = (onfulfilled, onrejected) =>
+    Promise.resolve(result).then(onfulfilled, onrejected);
+
+  const builder = { then } as MockQueryBuilder<T>;
+  QUERY_BUILDER_METHODS.forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+
+  return builder;
+}
+
+/**
+ * Module factory for '../PermissionErrorHandler'; the context is passed
+ * through so tests can assert on it
+ */
+export const mockPermissionErrorHandlerModule = () => ({
+  permissionErrorHandler: {
+    createPermissionContext: jest.fn((operation: string, options: object) => ({ operation, ...options })),
+  },
+});
+
+interface CurrentUserLookups {
+  getCurrentUserId(): Promise<string>;
+  getCurrentOrganizationId(): Promise<string>;
+}
+
+/**
+ * Stubs a service's current user (and optionally organization) lookups
+ */
+export function mockCurrentUser(service: object, userId: string, orgId?: string): void {
+  const lookups = service as CurrentUserLookups;
+  jest.spyOn(lookups, 'getCurrentUserId').mockResolvedValue(userId);
+  if (orgId) {
+    jest.spyOn(lookups, 'getCurrentOrganizationId').mockResolvedValue(orgId);
+  }
+}
@@ -10,6 +10,7 @@
 import { Platform } from 'react-native';
 import BLEHelper from '../../../modules/BLE/BLEHelper';
 import BLESessionService from '../../services/BLESessionService';
+import OrgBeaconCodeResolver from '../../services/OrgBeaconCodeResolver';
 import { Beacon } from '../../types/ble';
 
 // Mock Sentry first
@@ -81,6 +82,9 @@ describe('BLE Cross-Platform Communication', () => {
   const NHSA_UUID = '6BA7B811-9DAD-11D1-80B4-00C04FD430C8';
 
   beforeEach(() => {
+    OrgBeaconCodeResolver.clear();
+    OrgBeaconCodeResolver.register({ id: 'nhs-org-id', slug: 'nhs', beacon_major: 1 });
+    OrgBeaconCodeResolver.register({ id: 'nhsa-org-id', slug: 'nhsa', beacon_major: 2 });
     jest.clearAllMocks();
   });
 
@@ -129,7 +133,7 @@ describe('BLE Cross-Platform Communication', () => {
     });
 
     it('should generate compatible beacon payload for iOS detection', () => {
-      const payload = BLESessionService.generateBeaconPayload(TEST_SESSION_TOKEN, 'nhs');
+      const payload = BLESessionService.generateBeaconPayload(TEST_SESSION_TOKEN, 'nhs', 1);
       
       expect(payload.major).toBe(NHS_ORG_CODE);
       expect(payload.minor).toBeGreaterThanOrEqual(0);
@@ -140,7 +144,7 @@ describe('BLE Cross-Platform Communication', () => {
 
     it('should validate beacon payload compatibility across platforms', () => {
       const sessionToken = 'XYZ789abc012';
-      const payload = BLESessionService.generateBeaconPayload(sessionToken, 'nhsa');
+      const payload = BLESessionService.generateBeaconPayload(sessionToken, 'nhsa', 1);
       
       // Validate that the payload would be compatible with iOS detection
       const isValid = BLESessionService.validateBeaconPayload(
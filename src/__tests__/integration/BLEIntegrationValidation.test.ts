@@ -8,6 +8,7 @@
  */
 
 import BLESessionService from '../../services/BLESessionService';
+import OrgBeaconCodeResolver from '../../services/OrgBeaconCodeResolver';
 
 // Mock BLE Security Service
 jest.mock('../../services/BLESecurityService', () => {
@@ -37,6 +38,9 @@ describe('BLE Integration Validation', () => {
   const NHSA_UUID = '6BA7B811-9DAD-11D1-80B4-00C04FD430C8';
 
   beforeEach(() => {
+    OrgBeaconCodeResolver.clear();
+    OrgBeaconCodeResolver.register({ id: 'nhs-org-id', slug: 'nhs', beacon_major: 1 });
+    OrgBeaconCodeResolver.register({ id: 'nhsa-org-id', slug: 'nhsa', beacon_major: 2 });
     jest.clearAllMocks();
   });
 
@@ -45,7 +49,7 @@ describe('BLE Integration Validation', () => {
       const sessionToken = 'ABC123def456';
       
       // Test NHS payload
-      const nhsPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs');
+      const nhsPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs', 1);
       expect(nhsPayload.major).toBe(NHS_ORG_CODE);
       expect(nhsPayload.minor).toBeGreaterThanOrEqual(0);
       expect(nhsPayload.minor).toBeLessThanOrEqual(0xFFFF);
@@ -53,7 +57,7 @@ describe('BLE Integration Validation', () => {
       expect(nhsPayload.orgSlug).toBe('nhs');
 
       // Test NHSA payload
-      const nhsaPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhsa');
+      const nhsaPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhsa', 1);
       expect(nhsaPayload.major).toBe(NHSA_ORG_CODE);
       expect(nhsaPayload.minor).toBeGreaterThanOrEqual(0);
       expect(nhsaPayload.minor).toBeLessThanOrEqual(0xFFFF);
@@ -94,8 +98,8 @@ describe('BLE Integration Validation', () => {
     it('should generate different payloads for different organizations', () => {
       const sessionToken = 'ABC123def456';
       
-      const nhsPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs');
-      const nhsaPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhsa');
+      const nhsPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs', 1);
+      const nhsaPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhsa', 1);
 
       // Different organization codes
       expect(nhsPayload.major).toBe(NHS_ORG_CODE);
@@ -144,8 +148,8 @@ describe('BLE Integration Validation', () => {
       const nhsToken = 'ABC123def456';
       const nhsaToken = 'XYZ789ghi012';
 
-      const nhsPayload = BLESessionService.generateBeaconPayload(nhsToken, 'nhs');
-      const nhsaPayload = BLESessionService.generateBeaconPayload(nhsaToken, 'nhsa');
+      const nhsPayload = BLESessionService.generateBeaconPayload(nhsToken, 'nhs', 1);
+      const nhsaPayload = BLESessionService.generateBeaconPayload(nhsaToken, 'nhsa', 2);
 
       // NHS payload should not be valid for NHSA context
       const nhsValidForNHSA = BLESessionService.validateBeaconPayload(
@@ -313,7 +317,9 @@ describe('BLE Integration Validation', () => {
       expect(result.success).toBe(true);
       expect(result.orgSlug).toBe('nhs');
       expect(mockRpc).toHaveBeenCalledWith('add_attendance_secure', {
-        p_session_token: 'ABC123def456'
+        p_session_token: 'ABC123def456',
+        p_beacon_minor: null,
+        p_evidence: null
       });
     });
   });
@@ -326,7 +332,7 @@ describe('BLE Integration Validation', () => {
     });
 
     it('should handle unknown organizations gracefully', () => {
-      expect(() => BLESessionService.generateBeaconPayload('ABC123def456', 'unknown')).toThrow();
+      expect(() => BLESessionService.generateBeaconPayload('ABC123def456', 'unknown', 1)).toThrow();
       expect(BLESessionService.getOrgCode('unknown')).toBe(0);
     });
 
@@ -9,6 +9,7 @@
  */
 
 import BLESessionService from '../../services/BLESessionService';
+import OrgBeaconCodeResolver from '../../services/OrgBeaconCodeResolver';
 import { Beacon } from '../../types/ble';
 
 // Mock BLEOrganizationSecurityService with required methods
@@ -73,6 +74,9 @@ describe('BLE Multi-Organization Session Isolation', () => {
   const NHSA_ORG_CODE = 2;
 
   beforeEach(() => {
+    OrgBeaconCodeResolver.clear();
+    OrgBeaconCodeResolver.register({ id: 'nhs-org-id', slug: 'nhs', beacon_major: 1 });
+    OrgBeaconCodeResolver.register({ id: 'nhsa-org-id', slug: 'nhsa', beacon_major: 2 });
     jest.clearAllMocks();
   });
 
@@ -144,8 +148,8 @@ describe('BLE Multi-Organization Session Isolation', () => {
       const nhsToken = 'ABC123def456'; // Valid 12-char token
       const nhsaToken = 'XYZ789ghi012'; // Valid 12-char token
 
-      const nhsPayload = BLESessionService.generateBeaconPayload(nhsToken, 'nhs');
-      const nhsaPayload = BLESessionService.generateBeaconPayload(nhsaToken, 'nhsa');
+      const nhsPayload = BLESessionService.generateBeaconPayload(nhsToken, 'nhs', 1);
+      const nhsaPayload = BLESessionService.generateBeaconPayload(nhsaToken, 'nhsa', 2);
 
       // Different organization codes
       expect(nhsPayload.major).toBe(NHS_ORG_CODE);
@@ -338,7 +342,9 @@ describe('BLE Multi-Organization Session Isolation', () => {
       const result = await BLESessionService.addAttendance('ABC123def456');
       
       expect(mockRpc).toHaveBeenCalledWith('add_attendance_secure', {
-        p_session_token: 'ABC123def456'
+        p_session_token: 'ABC123def456',
+        p_beacon_minor: null,
+        p_evidence: null
       });
       expect(result.success).toBe(true);
     });
@@ -416,8 +422,8 @@ describe('BLE Multi-Organization Session Isolation', () => {
       const nhsaToken = 'XYZ789ghi012';
 
       // Generate payloads
-      const nhsPayload = BLESessionService.generateBeaconPayload(nhsToken, 'nhs');
-      const nhsaPayload = BLESessionService.generateBeaconPayload(nhsaToken, 'nhsa');
+      const nhsPayload = BLESessionService.generateBeaconPayload(nhsToken, 'nhs', 1);
+      const nhsaPayload = BLESessionService.generateBeaconPayload(nhsaToken, 'nhsa', 2);
 
       // Validate that NHS payload is not valid for NHSA context
       const nhsValidForNHSA = BLESessionService.validateBeaconPayload(
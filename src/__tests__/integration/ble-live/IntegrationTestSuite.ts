@@ -16,6 +16,7 @@ import {
 } from './types';
 import { TestLogger } from './TestLogger';
 import BLESessionService from '../../../services/BLESessionService';
+import OrgBeaconCodeResolver from '../../../services/OrgBeaconCodeResolver';
 import BLESecurityService from '../../../services/BLESecurityService';
 
 /**
@@ -42,6 +43,9 @@ export class IntegrationTestSuite {
     this.logger.logSubsection('BLE Service Integration Tests');
     const results: TestResult[] = [];
 
+    // Beacon payloads resolve organization codes from the organizations table
+    await OrgBeaconCodeResolver.load();
+
     // Test BLESecurityService integration
     results.push(...await this.testBLESecurityServiceIntegration());
 
@@ -472,7 +476,7 @@ export class IntegrationTestSuite {
       const sessionToken = 'ABC123DEF456';
       const orgSlug = this.context.organization.slug || 'nhs';
 
-      const payload = BLESessionService.generateBeaconPayload(sessionToken, orgSlug);
+      const payload = BLESessionService.generateBeaconPayload(sessionToken, orgSlug, 1);
 
       if (!payload || typeof payload !== 'object') {
         return this.createFailure(category, test, 'Invalid payload returned', { payload });
@@ -527,8 +531,12 @@ export class IntegrationTestSuite {
         return this.createFailure(category, test, 'Session resolution failed in flow', { sessionToken });
       }
 
-      // Step 5: Generate beacon payload
-      const payload = BLESessionService.generateBeaconPayload(sessionToken, session.orgSlug || 'nhs');
+      // Step 5: Generate beacon payload from the session's allocated slot
+      const beaconMinor = await BLESessionService.getBeaconMinor(sessionToken);
+      if (beaconMinor === null) {
+        return this.createFailure(category, test, 'No beacon slot allocated in flow', { sessionToken });
+      }
+      const payload = BLESessionService.generateBeaconPayload(sessionToken, session.orgSlug || 'nhs', beaconMinor);
 
       // Step 6: Get session status
       const status = await BLESessionService.getSessionStatus(sessionToken);
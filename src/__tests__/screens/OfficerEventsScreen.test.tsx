@@ -98,6 +98,12 @@ jest.mock('../../hooks/useEventSubscriptions', () => ({
   useEventSubscriptions: mockUseEventSubscriptions,
 }));
 
+jest.mock('../../hooks/useEventRSVPData', () => ({
+  useEventRSVPSummaries: () => ({ data: {} }),
+}));
+
+jest.mock('../../components/ui/EventRSVPSummaryPanel', () => 'EventRSVPSummaryPanel');
+
 // Mock navigation
 const mockNavigation = {
   navigate: jest.fn(),
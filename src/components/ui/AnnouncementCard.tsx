@@ -25,6 +25,7 @@ interface AnnouncementCardProps {
     link?: string;
     image_url?: string;
     created_at: string;
+    publish_at?: string;
     creator_name?: string;
   };
   showDeleteButton?: boolean;
@@ -145,7 +146,7 @@ const AnnouncementCard: React.FC<AnnouncementCardProps> = ({
       {/* Footer with Date and Creator */}
       <View style={styles.footer}>
         <Text style={styles.dateText}>
-          {formatDate(announcement.created_at)}
+          {formatDate(announcement.publish_at || announcement.created_at)}
         </Text>
         {announcement.creator_name ? (
           <Text style={styles.creatorText}>
@@ -0,0 +1,324 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, TextInput } from 'react-native';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useToast } from './ToastProvider';
+import { useEventRoster, useBulkAttendanceOverride } from '../../hooks/useAttendanceData';
+import { AttendanceRosterEntry, AttendanceRosterStatus } from '../../types/dataService';
+import LoadingSkeleton from './LoadingSkeleton';
+import EmptyState from './EmptyState';
+
+const Colors = {
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  cardBackground: '#FFFFFF',
+  dividerColor: '#D1D5DB',
+  lightBlue: '#EBF8FF',
+  successGreen: '#38A169',
+  errorRed: '#E53E3E',
+  warningOrange: '#DD6B20',
+  inputBorder: '#D1D5DB',
+  inputBackground: '#F9FAFB',
+};
+
+const STATUS_COLORS: Record<AttendanceRosterStatus, string> = {
+  present: Colors.successGreen,
+  absent: Colors.errorRed,
+  excused: Colors.warningOrange,
+};
+
+const STATUS_ACTIONS: { status: AttendanceRosterStatus; label: string; icon: string }[] = [
+  { status: 'present', label: 'Present', icon: 'check-circle' },
+  { status: 'excused', label: 'Excused', icon: 'event-busy' },
+  { status: 'absent', label: 'Absent', icon: 'cancel' },
+];
+
+interface AttendanceRosterPanelProps {
+  eventId: string;
+}
+
+/**
+ * Officer roster for a session: every active member with their attendance status.
+ * Officers select members and override their status with a required note.
+ */
+const AttendanceRosterPanel: React.FC<AttendanceRosterPanelProps> = ({ eventId }) => {
+  const { showSuccess, showError } = useToast();
+  const { data: roster = [], isLoading, refetch, isRefetching } = useEventRoster(eventId);
+  const overrideMutation = useBulkAttendanceOverride();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [note, setNote] = useState('');
+
+  const counts = useMemo(() => roster.reduce(
+    (acc, entry) => ({ ...acc, [entry.status]: acc[entry.status] + 1 }),
+    { present: 0, absent: 0, excused: 0 } as Record<AttendanceRosterStatus, number>
+  ), [roster]);
+
+  const toggleMember = (memberId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(memberId)) {
+        next.delete(memberId);
+      } else {
+        next.add(memberId);
+      }
+      return next;
+    });
+  };
+
+  const selectAbsent = () => {
+    setSelectedIds(new Set(roster.filter(entry => entry.status === 'absent').map(entry => entry.member_id)));
+  };
+
+  const handleOverride = async (status: AttendanceRosterStatus) => {
+    if (selectedIds.size === 0) {
+      showError('No Members Selected', 'Select at least one member to update');
+      return;
+    }
+
+    if (!note.trim()) {
+      showError('Note Required', 'Add a note explaining why attendance is being changed');
+      return;
+    }
+
+    try {
+      const result = await overrideMutation.mutateAsync({
+        event_id: eventId,
+        member_ids: Array.from(selectedIds),
+        status,
+        note: note.trim(),
+      });
+
+      showSuccess(
+        'Attendance Updated',
+        `Marked ${result.updated_count} member${result.updated_count === 1 ? '' : 's'} ${status}`
+      );
+      setSelectedIds(new Set());
+      setNote('');
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to update attendance');
+    }
+  };
+
+  const renderRosterItem = (entry: AttendanceRosterEntry) => {
+    const isSelected = selectedIds.has(entry.member_id);
+
+    return (
+      <TouchableOpacity
+        key={entry.member_id}
+        style={styles.rosterItem}
+        onPress={() => toggleMember(entry.member_id)}
+        disabled={overrideMutation.isPending}
+      >
+        <Icon
+          name={isSelected ? 'check-box' : 'check-box-outline-blank'}
+          size={moderateScale(22)}
+          color={isSelected ? Colors.solidBlue : Colors.textLight}
+        />
+        <View style={styles.rosterInfo}>
+          <Text style={styles.memberName}>{entry.member_name}</Text>
+          {entry.method && (
+            <Text style={styles.memberDetail}>
+              {entry.method.toUpperCase()}{entry.note ? ` · ${entry.note}` : ''}
+            </Text>
+          )}
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[entry.status] }]}>
+          <Text style={styles.statusText}>{entry.status.toUpperCase()}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.container}>
+        <LoadingSkeleton height={verticalScale(200)} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summaryRow}>
+        {STATUS_ACTIONS.map(({ status, label }) => (
+          <View key={status} style={styles.summaryItem}>
+            <Text style={[styles.summaryNumber, { color: STATUS_COLORS[status] }]}>{counts[status]}</Text>
+            <Text style={styles.summaryLabel}>{label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.toolbar}>
+        <TouchableOpacity style={styles.toolbarButton} onPress={selectAbsent}>
+          <Text style={styles.toolbarButtonText}>Select Absent</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.toolbarButton} onPress={() => setSelectedIds(new Set())}>
+          <Text style={styles.toolbarButtonText}>Clear ({selectedIds.size})</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.toolbarButton} onPress={() => refetch()} disabled={isRefetching}>
+          <Icon name="refresh" size={moderateScale(16)} color={Colors.solidBlue} />
+        </TouchableOpacity>
+      </View>
+
+      {roster.length > 0 ? (
+        <View style={styles.rosterList}>{roster.map(renderRosterItem)}</View>
+      ) : (
+        <EmptyState
+          icon="people-outline"
+          title="No Members"
+          description="Active members of your organization will appear here."
+        />
+      )}
+
+      <TextInput
+        style={styles.noteInput}
+        placeholder="Reason for change (required)"
+        placeholderTextColor={Colors.textLight}
+        value={note}
+        onChangeText={setNote}
+        maxLength={500}
+        multiline
+        editable={!overrideMutation.isPending}
+      />
+
+      <View style={styles.actionRow}>
+        {STATUS_ACTIONS.map(({ status, label, icon }) => (
+          <TouchableOpacity
+            key={status}
+            style={[
+              styles.actionButton,
+              { backgroundColor: STATUS_COLORS[status] },
+              (selectedIds.size === 0 || !note.trim() || overrideMutation.isPending) && styles.actionButtonDisabled,
+            ]}
+            onPress={() => handleOverride(status)}
+            disabled={selectedIds.size === 0 || !note.trim() || overrideMutation.isPending}
+          >
+            <Icon name={icon} size={moderateScale(16)} color={Colors.white} />
+            <Text style={styles.actionButtonText}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: moderateScale(12),
+    padding: scale(16),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(2) },
+    shadowOpacity: 0.1,
+    shadowRadius: moderateScale(8),
+    elevation: 4,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: verticalScale(12),
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryNumber: {
+    fontSize: moderateScale(20),
+    fontWeight: 'bold',
+    marginBottom: verticalScale(4),
+  },
+  summaryLabel: {
+    fontSize: moderateScale(12),
+    color: Colors.textMedium,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    gap: scale(8),
+    marginBottom: verticalScale(8),
+  },
+  toolbarButton: {
+    backgroundColor: Colors.lightBlue,
+    borderRadius: moderateScale(8),
+    paddingVertical: verticalScale(8),
+    paddingHorizontal: scale(12),
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  toolbarButtonText: {
+    color: Colors.solidBlue,
+    fontSize: moderateScale(13),
+    fontWeight: '600',
+  },
+  rosterList: {
+    marginBottom: verticalScale(12),
+  },
+  rosterItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: verticalScale(10),
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.dividerColor,
+  },
+  rosterInfo: {
+    flex: 1,
+    marginLeft: scale(10),
+  },
+  memberName: {
+    fontSize: moderateScale(15),
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  memberDetail: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+    marginTop: verticalScale(2),
+  },
+  statusBadge: {
+    paddingHorizontal: scale(8),
+    paddingVertical: verticalScale(4),
+    borderRadius: moderateScale(12),
+  },
+  statusText: {
+    fontSize: moderateScale(10),
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: moderateScale(8),
+    backgroundColor: Colors.inputBackground,
+    paddingHorizontal: scale(12),
+    paddingVertical: verticalScale(10),
+    fontSize: moderateScale(14),
+    color: Colors.textDark,
+    minHeight: verticalScale(60),
+    textAlignVertical: 'top',
+    marginBottom: verticalScale(12),
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: scale(8),
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: moderateScale(8),
+    paddingVertical: verticalScale(12),
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionButtonText: {
+    color: Colors.white,
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    marginLeft: scale(6),
+  },
+});
+
+export default AttendanceRosterPanel;
@@ -30,8 +30,9 @@ interface AttendeeRecord {
   memberName: string;
   checkinTime: Date;
   method: 'ble' | 'manual' | 'qr';
-  rssi?: number;
-  distance?: number;
+  rssi?: number; // Average RSSI submitted with the check-in
+  sampleCount?: number;
+  dwellSeconds?: number;
 }
 
 interface BLEAttendanceMonitorProps {
@@ -98,13 +99,19 @@ const BLEAttendanceMonitor: React.FC<BLEAttendanceMonitorProps> = ({
           checkinTime: new Date(record.created_at),
           method: record.method || 'manual',
           rssi: record.ble_data?.rssi,
-          distance: record.ble_data?.distance,
         }));
       } else {
-        // Simulate real-time data for BLE sessions
-        // In a real implementation, this would fetch from a real-time endpoint
-        const mockAttendees = generateMockAttendees();
-        attendeeRecords = mockAttendees;
+        // Live BLE session: attendees with the proximity evidence they checked in with
+        const evidence = await BLESessionService.getAttendanceEvidence(sessionToken);
+        attendeeRecords = evidence.map(record => ({
+          id: record.attendanceId,
+          memberName: record.memberName,
+          checkinTime: record.recordedAt,
+          method: (record.method || 'ble') as AttendeeRecord['method'],
+          rssi: record.rssiAvg,
+          sampleCount: record.sampleCount,
+          dwellSeconds: record.dwellSeconds,
+        }));
       }
 
       setAttendees(attendeeRecords);
@@ -118,27 +125,6 @@ const BLEAttendanceMonitor: React.FC<BLEAttendanceMonitorProps> = ({
     }
   };
 
-  const generateMockAttendees = (): AttendeeRecord[] => {
-    // This simulates real-time BLE check-ins
-    // In production, this would be replaced with actual real-time data
-    const mockNames = [
-      'Alice Johnson', 'Bob Smith', 'Carol Davis', 'David Wilson',
-      'Emma Brown', 'Frank Miller', 'Grace Lee', 'Henry Taylor'
-    ];
-    
-    const now = new Date();
-    const attendeeCount = Math.floor(Math.random() * 8) + 2; // 2-10 attendees
-    
-    return Array.from({ length: attendeeCount }, (_, index) => ({
-      id: `mock-${index}`,
-      memberName: mockNames[index % mockNames.length],
-      checkinTime: new Date(now.getTime() - Math.random() * 1800000), // Within last 30 minutes
-      method: Math.random() > 0.3 ? 'ble' : 'manual' as 'ble' | 'manual',
-      rssi: Math.floor(Math.random() * 40) - 80, // -80 to -40 dBm
-      distance: Math.random() * 10 + 1, // 1-11 meters
-    }));
-  };
-
   const updateSessionStats = (attendeeRecords: AttendeeRecord[]) => {
     const bleCheckins = attendeeRecords.filter(a => a.method === 'ble').length;
     const manualCheckins = attendeeRecords.filter(a => a.method === 'manual').length;
@@ -179,18 +165,24 @@ const BLEAttendanceMonitor: React.FC<BLEAttendanceMonitorProps> = ({
   };
 
   const generateCSVData = (): string => {
-    const headers = ['Name', 'Check-in Time', 'Method', 'RSSI (dBm)', 'Distance (m)'];
+    const headers = ['Name', 'Check-in Time', 'Method', 'Avg RSSI (dBm)', 'Samples', 'Time Nearby (s)'];
     const rows = attendees.map(attendee => [
       attendee.memberName,
       attendee.checkinTime.toLocaleString(),
       attendee.method.toUpperCase(),
-      attendee.rssi?.toString() || 'N/A',
-      attendee.distance?.toFixed(1) || 'N/A',
+      attendee.rssi?.toFixed(1) || 'N/A',
+      attendee.sampleCount?.toString() || 'N/A',
+      attendee.dwellSeconds?.toString() || 'N/A',
     ]);
     
     return [headers, ...rows].map(row => row.join(',')).join('\n');
   };
 
+  const formatDwell = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+  };
+
   const renderAttendeeItem = ({ item }: { item: AttendeeRecord }) => (
     <View style={styles.attendeeItem}>
       <View style={styles.attendeeInfo}>
@@ -217,16 +209,16 @@ const BLEAttendanceMonitor: React.FC<BLEAttendanceMonitorProps> = ({
           })}
         </Text>
         
-        {item.method === 'ble' && (item.rssi || item.distance) && (
+        {item.method === 'ble' && (item.rssi !== undefined || item.dwellSeconds !== undefined) && (
           <View style={styles.bleDetails}>
-            {item.rssi && (
+            {item.rssi !== undefined && (
               <Text style={styles.bleDetailText}>
-                Signal: {item.rssi} dBm
+                Signal: {item.rssi.toFixed(0)} dBm ({item.sampleCount} samples)
               </Text>
             )}
-            {item.distance && (
+            {item.dwellSeconds !== undefined && (
               <Text style={styles.bleDetailText}>
-                Distance: {item.distance.toFixed(1)}m
+                Nearby: {formatDwell(item.dwellSeconds)}
               </Text>
             )}
           </View>
@@ -5,6 +5,8 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import Tag from './Tag';
 import ImageViewerModal from './ImageViewerModal';
 import ForceLoadImage from './ForceLoadImage';
+import { RecurrenceRule } from '../../services/EventService';
+import { describeRecurrence } from '../../utils/recurrenceUtils';
 
 const Colors = {
   white: '#FFFFFF',
@@ -30,10 +32,12 @@ interface EventCardProps {
     image_url?: string;
     created_at: string;
     creator_name?: string;
+    recurrence?: RecurrenceRule;
   };
   showDeleteButton?: boolean;
   onDelete?: (id: string) => void;
   deleteLoading?: boolean;
+  children?: React.ReactNode; // Extra content such as RSVP controls, shown above the footer
 }
 
 type EventCategory = 'fundraiser' | 'volunteering' | 'education' | 'custom';
@@ -43,6 +47,7 @@ const EventCard: React.FC<EventCardProps> = ({
   showDeleteButton = false,
   onDelete,
   deleteLoading = false,
+  children,
 }) => {
   const [showImageViewer, setShowImageViewer] = useState(false);
   // Category to tag variant mapping - each category gets a unique color
@@ -173,6 +178,14 @@ const EventCard: React.FC<EventCardProps> = ({
         </View>
       )}
 
+      {/* Recurrence */}
+      {event.recurrence && (
+        <View style={styles.locationContainer}>
+          <Icon name="repeat" size={moderateScale(16)} color={Colors.textMedium} />
+          <Text style={styles.locationText}>{describeRecurrence(event.recurrence)}</Text>
+        </View>
+      )}
+
       {/* Location */}
       {event.location && (
         <View style={styles.locationContainer}>
@@ -191,6 +204,8 @@ const EventCard: React.FC<EventCardProps> = ({
         </View>
       )}
 
+      {children}
+
       {/* Separator Line */}
       <View style={styles.separator} />
 
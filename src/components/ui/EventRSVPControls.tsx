@@ -0,0 +1,174 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useToast } from './ToastProvider';
+import { useSetEventRSVP } from '../../hooks/useEventRSVPData';
+import { EventRSVPStatus, EventRSVPSummary } from '../../types/dataService';
+
+const Colors = {
+  solidBlue: '#2B5CE6',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  lightBlue: '#EBF8FF',
+  dividerColor: '#D1D5DB',
+  warningOrange: '#DD6B20',
+};
+
+type RSVPAnswer = Exclude<EventRSVPStatus, 'waitlisted'>;
+
+const RSVP_OPTIONS: { status: RSVPAnswer; label: string; icon: string }[] = [
+  { status: 'going', label: 'Going', icon: 'check-circle' },
+  { status: 'maybe', label: 'Maybe', icon: 'help' },
+  { status: 'not_going', label: "Can't Go", icon: 'cancel' },
+];
+
+interface EventRSVPControlsProps {
+  eventId: string;
+  capacity?: number;
+  summary?: EventRSVPSummary;
+  closed?: boolean; // RSVPs close once the event starts
+}
+
+/**
+ * Going / Maybe / Can't Go buttons for a member, with spots left and waitlist position.
+ */
+const EventRSVPControls: React.FC<EventRSVPControlsProps> = ({
+  eventId,
+  capacity,
+  summary,
+  closed = false,
+}) => {
+  const { showSuccess, showInfo, showError } = useToast();
+  const rsvpMutation = useSetEventRSVP();
+  const myStatus = summary?.my_status;
+  const goingCount = summary?.going_count ?? 0;
+  const isFull = !!capacity && goingCount >= capacity;
+
+  const handleRsvp = async (status: RSVPAnswer) => {
+    if (status === myStatus || (status === 'going' && myStatus === 'waitlisted')) {
+      return;
+    }
+
+    try {
+      const result = await rsvpMutation.mutateAsync({ eventId, status });
+
+      if (result.status === 'waitlisted') {
+        showInfo(
+          'Added to Waitlist',
+          `This event is full. You are #${result.waitlist_position ?? 1} on the waitlist.`
+        );
+      } else if (result.status === 'going') {
+        showSuccess('RSVP Saved', "You're going to this event");
+      }
+    } catch (error: any) {
+      showError('Error', error.message || 'Failed to update RSVP');
+    }
+  };
+
+  const getCapacityText = () => {
+    if (!capacity) {
+      return `${goingCount} going`;
+    }
+
+    if (isFull) {
+      const waitlisted = summary?.waitlisted_count ?? 0;
+      return `Full · ${waitlisted} on waitlist`;
+    }
+
+    const spotsLeft = capacity - goingCount;
+    return `${spotsLeft} of ${capacity} spot${capacity === 1 ? '' : 's'} left`;
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.statusRow}>
+        <Icon name="people" size={moderateScale(16)} color={Colors.textMedium} />
+        <Text style={styles.statusText}>{getCapacityText()}</Text>
+      </View>
+
+      {myStatus === 'waitlisted' && (
+        <View style={styles.statusRow}>
+          <Icon name="hourglass-empty" size={moderateScale(16)} color={Colors.warningOrange} />
+          <Text style={[styles.statusText, { color: Colors.warningOrange }]}>
+            You're #{summary?.my_waitlist_position ?? 1} on the waitlist
+          </Text>
+        </View>
+      )}
+
+      {!closed && (
+        <View style={styles.buttonRow}>
+          {RSVP_OPTIONS.map(({ status, label, icon }) => {
+            const isSelected = status === myStatus || (status === 'going' && myStatus === 'waitlisted');
+            const buttonLabel = status === 'going' && isFull && !isSelected ? 'Join Waitlist' : label;
+
+            return (
+              <TouchableOpacity
+                key={status}
+                style={[styles.rsvpButton, isSelected && styles.rsvpButtonSelected]}
+                onPress={() => handleRsvp(status)}
+                disabled={rsvpMutation.isPending}
+              >
+                <Icon
+                  name={icon}
+                  size={moderateScale(16)}
+                  color={isSelected ? Colors.white : Colors.solidBlue}
+                />
+                <Text style={[styles.rsvpButtonText, isSelected && styles.rsvpButtonTextSelected]}>
+                  {buttonLabel}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: verticalScale(4),
+    marginBottom: verticalScale(8),
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: verticalScale(8),
+  },
+  statusText: {
+    fontSize: moderateScale(14),
+    color: Colors.textMedium,
+    marginLeft: scale(8),
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: scale(8),
+  },
+  rsvpButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: verticalScale(8),
+    borderRadius: moderateScale(8),
+    borderWidth: 1,
+    borderColor: Colors.solidBlue,
+    backgroundColor: Colors.lightBlue,
+  },
+  rsvpButtonSelected: {
+    backgroundColor: Colors.solidBlue,
+  },
+  rsvpButtonText: {
+    fontSize: moderateScale(13),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+    marginLeft: scale(4),
+  },
+  rsvpButtonTextSelected: {
+    color: Colors.white,
+  },
+});
+
+export default EventRSVPControls;
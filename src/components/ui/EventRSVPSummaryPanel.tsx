@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useEventRSVPReport } from '../../hooks/useEventRSVPData';
+import { EventRSVPReportEntry, EventRSVPStatus, EventRSVPSummary } from '../../types/dataService';
+
+const Colors = {
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  dividerColor: '#D1D5DB',
+  lightBlue: '#EBF8FF',
+  successGreen: '#38A169',
+  errorRed: '#E53E3E',
+  warningOrange: '#DD6B20',
+};
+
+const STATUS_LABELS: Record<EventRSVPStatus, string> = {
+  going: 'Going',
+  maybe: 'Maybe',
+  not_going: "Can't Go",
+  waitlisted: 'Waitlist',
+};
+
+interface EventRSVPSummaryPanelProps {
+  eventId: string;
+  capacity?: number;
+  actualAttendance: number;
+  summary?: EventRSVPSummary;
+}
+
+/**
+ * Officer view of RSVP counts next to actual attendance, with an expandable
+ * RSVP list that flags no-shows once the event is over.
+ */
+const EventRSVPSummaryPanel: React.FC<EventRSVPSummaryPanelProps> = ({
+  eventId,
+  capacity,
+  actualAttendance,
+  summary,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const { data: report = [], isLoading } = useEventRSVPReport(eventId, expanded);
+  const noShowCount = report.filter(entry => entry.no_show).length;
+
+  const counts = [
+    {
+      label: 'Going',
+      value: capacity ? `${summary?.going_count ?? 0}/${capacity}` : `${summary?.going_count ?? 0}`,
+      color: Colors.solidBlue,
+    },
+    { label: 'Maybe', value: `${summary?.maybe_count ?? 0}`, color: Colors.textMedium },
+    { label: 'Waitlist', value: `${summary?.waitlisted_count ?? 0}`, color: Colors.warningOrange },
+    { label: 'Attended', value: `${actualAttendance}`, color: Colors.successGreen },
+  ];
+
+  const renderReportEntry = (entry: EventRSVPReportEntry) => (
+    <View key={entry.member_id} style={styles.reportItem}>
+      <Text style={styles.memberName}>{entry.member_name}</Text>
+      <Text style={styles.memberStatus}>{STATUS_LABELS[entry.status]}</Text>
+      {entry.no_show ? (
+        <View style={[styles.badge, { backgroundColor: Colors.errorRed }]}>
+          <Text style={styles.badgeText}>NO-SHOW</Text>
+        </View>
+      ) : entry.attended ? (
+        <View style={[styles.badge, { backgroundColor: Colors.successGreen }]}>
+          <Text style={styles.badgeText}>ATTENDED</Text>
+        </View>
+      ) : null}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.countsRow}>
+        {counts.map(({ label, value, color }) => (
+          <View key={label} style={styles.countItem}>
+            <Text style={[styles.countValue, { color }]}>{value}</Text>
+            <Text style={styles.countLabel}>{label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <TouchableOpacity style={styles.toggleButton} onPress={() => setExpanded(prev => !prev)}>
+        <Text style={styles.toggleButtonText}>{expanded ? 'Hide RSVPs' : 'View RSVPs'}</Text>
+        <Icon
+          name={expanded ? 'expand-less' : 'expand-more'}
+          size={moderateScale(18)}
+          color={Colors.solidBlue}
+        />
+      </TouchableOpacity>
+
+      {expanded && (
+        isLoading ? (
+          <Text style={styles.emptyText}>Loading RSVPs...</Text>
+        ) : report.length > 0 ? (
+          <View>
+            {noShowCount > 0 && (
+              <Text style={styles.noShowSummary}>
+                {noShowCount} member{noShowCount === 1 ? '' : 's'} RSVP'd but did not attend
+              </Text>
+            )}
+            {report.map(renderReportEntry)}
+          </View>
+        ) : (
+          <Text style={styles.emptyText}>No RSVPs yet</Text>
+        )
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: verticalScale(4),
+    marginBottom: verticalScale(8),
+  },
+  countsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: verticalScale(8),
+  },
+  countItem: {
+    alignItems: 'center',
+  },
+  countValue: {
+    fontSize: moderateScale(16),
+    fontWeight: 'bold',
+    marginBottom: verticalScale(2),
+  },
+  countLabel: {
+    fontSize: moderateScale(12),
+    color: Colors.textMedium,
+  },
+  toggleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.lightBlue,
+    borderRadius: moderateScale(8),
+    paddingVertical: verticalScale(6),
+  },
+  toggleButtonText: {
+    color: Colors.solidBlue,
+    fontSize: moderateScale(13),
+    fontWeight: '600',
+    marginRight: scale(4),
+  },
+  noShowSummary: {
+    fontSize: moderateScale(13),
+    color: Colors.errorRed,
+    marginTop: verticalScale(8),
+  },
+  reportItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: verticalScale(8),
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.dividerColor,
+  },
+  memberName: {
+    flex: 1,
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  memberStatus: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+    marginRight: scale(8),
+  },
+  badge: {
+    paddingHorizontal: scale(8),
+    paddingVertical: verticalScale(3),
+    borderRadius: moderateScale(12),
+  },
+  badgeText: {
+    fontSize: moderateScale(10),
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  emptyText: {
+    fontSize: moderateScale(13),
+    color: Colors.textLight,
+    textAlign: 'center',
+    marginTop: verticalScale(8),
+  },
+});
+
+export default EventRSVPSummaryPanel;
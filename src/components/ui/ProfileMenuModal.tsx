@@ -9,19 +9,41 @@ import {
   TouchableWithoutFeedback,
   ActivityIndicator,
   ScrollView,
+  Alert,
+  Platform,
+  Share,
 } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
 import { MaterialIcons } from '@expo/vector-icons';
 import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
 import { useAuth } from '../../contexts/AuthContext';
 import { useOrganization } from '../../contexts/OrganizationContext';
 import { useOrganizationSwitcher } from '../../hooks/useOrganizationSwitcher';
 import { useToast } from './ToastProvider';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, NavigationProp } from '@react-navigation/native';
 import ProfileErrorBoundary from '../ErrorBoundary/ProfileErrorBoundary';
 import { resetToLanding } from '../../utils/navigationUtils';
+import {
+  useAccountDeletionRequest,
+  useRequestAccountDeletion,
+  useCancelAccountDeletion,
+  useExportAccountData,
+} from '../../hooks/useAccountData';
+import { useNotificationInbox } from '../../hooks/useNotificationInbox';
+import { MemberStackParamList, OfficerStackParamList } from '../../types/navigation';
+import {
+  AccountExportFormat,
+  formatAccountExport,
+  getAccountExportFileName,
+} from '../../utils/accountExportUtils';
 
 const { width } = Dimensions.get('window');
 
+// The menu is shown in both stacks, which register the same inbox route
+type ProfileMenuNavigationProp = NavigationProp<
+  Pick<MemberStackParamList & OfficerStackParamList, 'NotificationInbox'>
+>;
+
 const Colors = {
   primaryBlue: '#4A90E2',
   solidBlue: '#2B5CE6',
@@ -59,7 +81,12 @@ export const ProfileMenuModal: React.FC<ProfileMenuModalProps> = ({
     isLoading: isSwitching 
   } = useOrganizationSwitcher();
   const { showSuccess, showError, showInfo } = useToast();
-  const navigation = useNavigation();
+  const navigation = useNavigation<ProfileMenuNavigationProp>();
+  const { data: deletionRequest } = useAccountDeletionRequest(profile?.id);
+  const requestDeletion = useRequestAccountDeletion(profile?.id);
+  const cancelDeletion = useCancelAccountDeletion(profile?.id);
+  const exportData = useExportAccountData();
+  const { data: inbox } = useNotificationInbox(profile?.id);
   
   // Local state for modal operations
   const [isLoggingOut, setIsLoggingOut] = useState(false);
@@ -178,6 +205,76 @@ export const ProfileMenuModal: React.FC<ProfileMenuModalProps> = ({
     }
   };
 
+  const shareExport = async (format: AccountExportFormat) => {
+    try {
+      const data = await exportData.mutateAsync();
+      const content = formatAccountExport(data, format);
+      const fileUri = `${FileSystem.cacheDirectory}${getAccountExportFileName(data, format)}`;
+      await FileSystem.writeAsStringAsync(fileUri, content);
+
+      // iOS can save or send the file itself; Android shares the text
+      await Share.share(
+        Platform.OS === 'ios'
+          ? { url: fileUri, title: 'My NHS Data' }
+          : { message: content, title: 'My NHS Data' }
+      );
+    } catch (error) {
+      console.error('Data export error:', error);
+      showError('Export failed', error instanceof Error ? error.message : 'Unable to export your data');
+    }
+  };
+
+  const handleExportData = () => {
+    Alert.alert(
+      'Export My Data',
+      'Get a copy of your profile, memberships, attendance, volunteer hours and links to your uploaded images. Image links expire after 24 hours.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'CSV', onPress: () => shareExport('csv') },
+        { text: 'JSON', onPress: () => shareExport('json') },
+      ]
+    );
+  };
+
+  const handleDeleteAccount = () => {
+    Alert.alert(
+      'Delete Account',
+      'Your account, hours, attendance and uploaded images will be permanently deleted in 14 days. You can cancel from this menu until then. You may want to export your data first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const request = await requestDeletion.mutateAsync();
+              showSuccess(
+                'Deletion scheduled',
+                `Your account will be deleted on ${new Date(request.scheduled_for).toLocaleDateString()}`
+              );
+            } catch (error) {
+              showError('Request failed', error instanceof Error ? error.message : 'Unable to schedule deletion');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCancelDeletion = async () => {
+    try {
+      await cancelDeletion.mutateAsync();
+      showSuccess('Deletion cancelled', 'Your account will not be deleted');
+    } catch (error) {
+      showError('Cancel failed', error instanceof Error ? error.message : 'Unable to cancel deletion');
+    }
+  };
+
+  const handleOpenInbox = () => {
+    onClose();
+    navigation.navigate('NotificationInbox');
+  };
+
   const handleSwitchOrganization = useCallback(async (orgId: string) => {
     try {
       const success = await switchToOrganization(orgId);
@@ -219,7 +316,9 @@ export const ProfileMenuModal: React.FC<ProfileMenuModalProps> = ({
                      activeMembership?.role === 'admin' ? 'Officer' : 'Member';
   const currentError = localError || error;
   const isOperationInProgress = isLoggingOut || isRefreshing || isLoading || isSwitching;
+  const isAccountActionInProgress = exportData.isPending || requestDeletion.isPending || cancelDeletion.isPending;
   const availableOrganizations = getAvailableOrganizations();
+  const unreadCount = inbox?.filter(item => !item.read_at).length ?? 0;
 
   return (
     <Modal
@@ -386,8 +485,74 @@ export const ProfileMenuModal: React.FC<ProfileMenuModalProps> = ({
                   </View>
                 )}
 
+                {/* Scheduled Deletion */}
+                {deletionRequest && (
+                  <View style={styles.deletionNotice}>
+                    <MaterialIcons
+                      name="schedule"
+                      size={moderateScale(18)}
+                      color={Colors.warning}
+                    />
+                    <Text style={styles.deletionNoticeText}>
+                      Account deletion scheduled for {new Date(deletionRequest.scheduled_for).toLocaleDateString()}
+                    </Text>
+                  </View>
+                )}
+
                 {/* Action Buttons */}
                 <View style={styles.buttonSection}>
+                  <TouchableOpacity
+                    style={styles.viewProfileButton}
+                    onPress={handleOpenInbox}
+                  >
+                    <MaterialIcons
+                      name="notifications"
+                      size={moderateScale(20)}
+                      color={Colors.solidBlue}
+                    />
+                    <Text style={styles.viewProfileText}>Notifications</Text>
+                    {unreadCount > 0 && (
+                      <View style={styles.unreadBadge}>
+                        <Text style={styles.unreadBadgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+                      </View>
+                    )}
+                  </TouchableOpacity>
+
+                  <TouchableOpacity
+                    style={[
+                      styles.viewProfileButton,
+                      isAccountActionInProgress && styles.disabledButton
+                    ]}
+                    onPress={handleExportData}
+                    disabled={isAccountActionInProgress}
+                  >
+                    {exportData.isPending ? (
+                      <ActivityIndicator size="small" color={Colors.solidBlue} />
+                    ) : (
+                      <MaterialIcons
+                        name="file-download"
+                        size={moderateScale(20)}
+                        color={Colors.solidBlue}
+                      />
+                    )}
+                    <Text style={styles.viewProfileText}>
+                      {exportData.isPending ? 'Preparing export...' : 'Export My Data'}
+                    </Text>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity
+                    style={[
+                      styles.deleteAccountButton,
+                      isAccountActionInProgress && styles.disabledButton
+                    ]}
+                    onPress={deletionRequest ? handleCancelDeletion : handleDeleteAccount}
+                    disabled={isAccountActionInProgress}
+                  >
+                    <Text style={styles.deleteAccountText}>
+                      {deletionRequest ? 'Cancel Account Deletion' : 'Delete Account'}
+                    </Text>
+                  </TouchableOpacity>
+
                   <TouchableOpacity 
                     style={[
                       styles.logoutButton,
@@ -545,6 +710,20 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.solidBlue,
   },
+  unreadBadge: {
+    minWidth: moderateScale(20),
+    height: moderateScale(20),
+    borderRadius: moderateScale(10),
+    backgroundColor: Colors.errorRed,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: scale(6),
+  },
+  unreadBadgeText: {
+    fontSize: moderateScale(11),
+    fontWeight: '700',
+    color: Colors.white,
+  },
   logoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -560,6 +739,32 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.white,
   },
+  deleteAccountButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: verticalScale(8),
+  },
+  deleteAccountText: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.errorRed,
+  },
+  deletionNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.warning,
+    borderRadius: moderateScale(8),
+    padding: scale(10),
+    marginBottom: verticalScale(12),
+    gap: scale(8),
+  },
+  deletionNoticeText: {
+    flex: 1,
+    fontSize: moderateScale(12),
+    color: Colors.textDark,
+  },
   disabledButton: {
     opacity: 0.6,
   },
@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { RequirementProgress } from '../../types/dataService';
+import {
+  REQUIREMENT_PERIOD_LABELS,
+  formatRequirementAmount,
+  formatRequirementDate,
+} from '../../utils/requirementUtils';
+
+const Colors = {
+  solidBlue: '#2B5CE6',
+  lightBlue: '#EBF8FF',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  successGreen: '#38A169',
+  warningOrange: '#DD6B20',
+};
+
+interface RequirementProgressListProps {
+  progress: RequirementProgress[];
+}
+
+/**
+ * Member progress toward each graduation requirement. A rule is flagged
+ * "Behind" when progress is below an even pace for the period.
+ */
+const RequirementProgressList: React.FC<RequirementProgressListProps> = ({ progress }) => (
+  <View>
+    {progress.map(item => {
+      const percentage = Math.round(Math.min(item.current_value / item.target_value, 1) * 100);
+      const isBehind = !item.is_met && item.current_value < item.expected_value;
+      const barColor = item.is_met ? Colors.successGreen : isBehind ? Colors.warningOrange : Colors.solidBlue;
+
+      return (
+        <View key={item.requirement_id} style={styles.card}>
+          <View style={styles.header}>
+            <Text style={styles.name} numberOfLines={1}>{item.name}</Text>
+            {item.is_met ? (
+              <Icon name="check-circle" size={moderateScale(18)} color={Colors.successGreen} />
+            ) : isBehind ? (
+              <View style={styles.behindBadge}>
+                <Text style={styles.behindText}>Behind</Text>
+              </View>
+            ) : null}
+          </View>
+
+          <Text style={styles.amount}>
+            {formatRequirementAmount(item.current_value, item.requirement_type)} of{' '}
+            {formatRequirementAmount(item.target_value, item.requirement_type)}
+          </Text>
+
+          <View style={styles.barBackground}>
+            <View style={[styles.barFill, { width: `${percentage}%`, backgroundColor: barColor }]} />
+          </View>
+
+          <Text style={styles.deadline}>
+            {REQUIREMENT_PERIOD_LABELS[item.period]} • Due {formatRequirementDate(item.ends_on)}
+            {!item.is_met && item.days_remaining > 0 ? ` • ${item.days_remaining} days left` : ''}
+          </Text>
+        </View>
+      );
+    })}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    padding: scale(16),
+    marginBottom: verticalScale(12),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(1) },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: verticalScale(4),
+  },
+  name: {
+    flex: 1,
+    fontSize: moderateScale(16),
+    fontWeight: '600',
+    color: Colors.textDark,
+    marginRight: scale(8),
+  },
+  behindBadge: {
+    backgroundColor: Colors.warningOrange,
+    paddingHorizontal: scale(8),
+    paddingVertical: verticalScale(2),
+    borderRadius: moderateScale(10),
+  },
+  behindText: {
+    fontSize: moderateScale(11),
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  amount: {
+    fontSize: moderateScale(14),
+    color: Colors.textMedium,
+    marginBottom: verticalScale(8),
+  },
+  barBackground: {
+    height: verticalScale(8),
+    backgroundColor: Colors.lightBlue,
+    borderRadius: moderateScale(4),
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: moderateScale(4),
+  },
+  deadline: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+    marginTop: verticalScale(8),
+  },
+});
+
+export default RequirementProgressList;
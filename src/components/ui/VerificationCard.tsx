@@ -3,6 +3,7 @@ import { View, Text, TouchableOpacity, StyleSheet, Image } from 'react-native';
 import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { VolunteerHourData } from '../../types/dataService';
+import { getResubmissionChanges } from '../../utils/resubmissionUtils';
 import ImageViewerModal from './ImageViewerModal';
 
 const Colors = {
@@ -16,6 +17,7 @@ const Colors = {
   successGreen: '#38A169',
   errorRed: '#E53E3E',
   pendingYellow: '#D69E2E',
+  secondReviewOrange: '#DD6B20',
   verifiedGreen: '#48BB78',
   rejectedRed: '#E53E3E',
   avatarBackground: '#4A5568',
@@ -70,6 +72,8 @@ const VerificationCard: React.FC<VerificationCardProps> = ({
     switch (status) {
       case 'pending':
         return Colors.pendingYellow;
+      case 'officer_approved':
+        return Colors.secondReviewOrange;
       case 'verified':
         return Colors.verifiedGreen;
       case 'rejected':
@@ -83,6 +87,8 @@ const VerificationCard: React.FC<VerificationCardProps> = ({
     switch (status) {
       case 'pending':
         return 'Pending';
+      case 'officer_approved':
+        return 'Awaiting 2nd Approval';
       case 'verified':
         return 'Verified';
       case 'rejected':
@@ -92,10 +98,25 @@ const VerificationCard: React.FC<VerificationCardProps> = ({
     }
   };
 
+  const isAwaitingReview = request.status === 'pending' || request.status === 'officer_approved';
+  const resubmissionChanges = getResubmissionChanges(request);
+
+  const getSupervisorStatus = () => {
+    switch (request.supervisor_status) {
+      case 'confirmed':
+        return { label: 'Supervisor Confirmed', icon: 'verified-user', color: Colors.verifiedGreen };
+      case 'denied':
+        return { label: 'Supervisor Denied', icon: 'gpp-bad', color: Colors.rejectedRed };
+      default:
+        return { label: 'Awaiting Supervisor', icon: 'schedule', color: Colors.pendingYellow };
+    }
+  };
+  const supervisorStatus = getSupervisorStatus();
+
   return (
     <View style={styles.requestCard}>
       {/* Selection Checkbox for Bulk Actions */}
-      {showBulkActions && request.status === 'pending' && (
+      {showBulkActions && isAwaitingReview && (
         <TouchableOpacity 
           style={styles.selectionCheckbox}
           onPress={onSelect}
@@ -213,8 +234,60 @@ const VerificationCard: React.FC<VerificationCardProps> = ({
         </View>
       )}
 
-      {/* Action Buttons - Only show for pending requests */}
-      {request.status === 'pending' && (onVerify || onReject) && (
+      {/* Resubmission of previously rejected hours */}
+      {request.previous_version && (
+        <View style={styles.resubmissionSection}>
+          <Text style={styles.resubmissionLabel}>Resubmitted after rejection</Text>
+          {request.previous_version.rejection_reason && (
+            <Text style={styles.resubmissionReason}>
+              Original reason: {request.previous_version.rejection_reason}
+            </Text>
+          )}
+          {resubmissionChanges.length > 0 ? (
+            resubmissionChanges.map(change => (
+              <View key={change.label} style={styles.resubmissionChange}>
+                <Text style={styles.resubmissionChangeLabel}>{change.label}</Text>
+                <Text style={styles.resubmissionBefore}>{change.before}</Text>
+                <Text style={styles.resubmissionAfter}>{change.after}</Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.resubmissionReason}>No changes since the rejection</Text>
+          )}
+        </View>
+      )}
+
+      {/* External supervisor sign-off */}
+      {request.supervisor_status && (
+        <View style={[styles.supervisorSection, { borderLeftColor: supervisorStatus.color }]}>
+          <View style={styles.supervisorHeader}>
+            <Icon name={supervisorStatus.icon} size={moderateScale(16)} color={supervisorStatus.color} />
+            <Text style={[styles.supervisorStatusText, { color: supervisorStatus.color }]}>
+              {supervisorStatus.label}
+            </Text>
+          </View>
+          <Text style={styles.verifierName}>{request.supervisor_name}</Text>
+          <Text style={styles.supervisorEmail}>{request.supervisor_email}</Text>
+          {request.supervisor_comment && (
+            <Text style={styles.supervisorComment}>"{request.supervisor_comment}"</Text>
+          )}
+          {request.supervisor_responded_at && (
+            <Text style={styles.supervisorEmail}>Responded {formatSubmittedTime(request.supervisor_responded_at)}</Text>
+          )}
+        </View>
+      )}
+
+      {/* First of two approvals */}
+      {request.status === 'officer_approved' && (
+        <View style={styles.firstApprovalSection}>
+          <Text style={styles.firstApprovalLabel}>First approval by</Text>
+          <Text style={styles.verifierName}>{request.first_approver_name || 'An officer'}</Text>
+          <Text style={styles.firstApprovalHint}>A different officer must give the second approval</Text>
+        </View>
+      )}
+
+      {/* Action Buttons - Only show for requests awaiting review */}
+      {isAwaitingReview && (onVerify || onReject) && (
         <View style={styles.actionButtons}>
           {onVerify && (
             <TouchableOpacity 
@@ -455,6 +528,89 @@ const styles = StyleSheet.create({
     color: Colors.textDark,
     fontWeight: '500',
   },
+  firstApprovalSection: {
+    backgroundColor: '#FFFAF0',
+    borderRadius: moderateScale(8),
+    padding: scale(12),
+    marginBottom: verticalScale(16),
+    borderLeftWidth: 4,
+    borderLeftColor: Colors.secondReviewOrange,
+  },
+  firstApprovalLabel: {
+    fontSize: moderateScale(12),
+    fontWeight: '600',
+    color: Colors.secondReviewOrange,
+    marginBottom: verticalScale(2),
+  },
+  resubmissionSection: {
+    backgroundColor: Colors.lightBlue,
+    borderRadius: moderateScale(8),
+    padding: scale(12),
+    marginBottom: verticalScale(16),
+    borderLeftWidth: 4,
+    borderLeftColor: Colors.solidBlue,
+  },
+  resubmissionLabel: {
+    fontSize: moderateScale(12),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+    marginBottom: verticalScale(4),
+  },
+  resubmissionReason: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+    marginBottom: verticalScale(4),
+  },
+  resubmissionChange: {
+    marginTop: verticalScale(6),
+  },
+  resubmissionChangeLabel: {
+    fontSize: moderateScale(12),
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  resubmissionBefore: {
+    fontSize: moderateScale(13),
+    color: Colors.textLight,
+    textDecorationLine: 'line-through',
+  },
+  resubmissionAfter: {
+    fontSize: moderateScale(13),
+    color: Colors.textDark,
+  },
+  supervisorSection: {
+    backgroundColor: Colors.inputBackground,
+    borderRadius: moderateScale(8),
+    padding: scale(12),
+    marginBottom: verticalScale(16),
+    borderLeftWidth: 4,
+  },
+  supervisorHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: verticalScale(4),
+  },
+  supervisorStatusText: {
+    fontSize: moderateScale(12),
+    fontWeight: '600',
+    marginLeft: scale(4),
+  },
+  supervisorEmail: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+    marginTop: verticalScale(2),
+  },
+  supervisorComment: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+    fontStyle: 'italic',
+    marginTop: verticalScale(6),
+  },
+  firstApprovalHint: {
+    fontSize: moderateScale(12),
+    color: Colors.textMedium,
+    marginTop: verticalScale(4),
+  },
   actionButtons: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -7,6 +7,7 @@ import Tag from './Tag';
 import ImageViewerModal from './ImageViewerModal';
 import SecureImageViewer from './SecureImageViewer';
 import ForceLoadImage from './ForceLoadImage';
+import VolunteerHourHistory from './VolunteerHourHistory';
 
 const Colors = {
   white: '#FFFFFF',
@@ -85,6 +86,7 @@ const VolunteerHourCard: React.FC<VolunteerHourCardProps> = ({
   showEditButton = false,
 }) => {
   const [showImageViewer, setShowImageViewer] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'No date';
     const date = new Date(dateString);
@@ -101,6 +103,8 @@ const VolunteerHourCard: React.FC<VolunteerHourCardProps> = ({
         return { variant: 'green' as const, text: 'Verified', active: true };
       case 'rejected':
         return { variant: 'red' as const, text: 'Rejected', active: true };
+      case 'officer_approved':
+        return { variant: 'yellow' as const, text: 'In 2nd Review', active: true };
       case 'pending':
       default:
         return { variant: 'yellow' as const, text: 'Pending', active: true };
@@ -236,13 +240,51 @@ const VolunteerHourCard: React.FC<VolunteerHourCardProps> = ({
           <Text style={styles.rejectionReason}>
             {volunteerHour.rejection_reason}
           </Text>
+          {showEditButton && onEdit && (
+            <TouchableOpacity
+              style={styles.resubmitButton}
+              onPress={() => onEdit(volunteerHour.id)}
+            >
+              <Icon name="replay" size={moderateScale(16)} color={Colors.white} />
+              <Text style={styles.resubmitButtonText}>Revise & Resubmit</Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
 
-      {/* Submission Date */}
-      <Text style={styles.submissionDate}>
-        Submitted {formatDate(volunteerHour.submitted_at)}
-      </Text>
+      {/* Revision of a rejected entry */}
+      {volunteerHour.previous_version_id && volunteerHour.status !== 'rejected' && (
+        <Text style={styles.resubmittedNote}>Resubmitted after a rejection</Text>
+      )}
+
+      {/* External supervisor sign-off */}
+      {volunteerHour.supervisor_status && (
+        <Text style={styles.supervisorNote}>
+          {volunteerHour.supervisor_status === 'confirmed'
+            ? `✓ Confirmed by ${volunteerHour.supervisor_name || 'your supervisor'}`
+            : volunteerHour.supervisor_status === 'denied'
+              ? `${volunteerHour.supervisor_name || 'Your supervisor'} did not confirm these hours`
+              : `Waiting for ${volunteerHour.supervisor_name || 'your supervisor'} to confirm`}
+        </Text>
+      )}
+
+      {/* Submission Date and History Toggle */}
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={styles.historyToggle}
+          onPress={() => setShowHistory(!showHistory)}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Icon name="history" size={moderateScale(16)} color={Colors.primaryBlue} />
+          <Text style={styles.historyToggleText}>{showHistory ? 'Hide History' : 'View History'}</Text>
+        </TouchableOpacity>
+        <Text style={styles.submissionDate}>
+          Submitted {formatDate(volunteerHour.submitted_at)}
+        </Text>
+      </View>
+
+      {/* Status history, loaded when expanded */}
+      {showHistory && <VolunteerHourHistory hourId={volunteerHour.id} />}
     </View>
   );
 };
@@ -378,11 +420,53 @@ const styles = StyleSheet.create({
     color: Colors.textMedium,
     fontStyle: 'italic',
   },
+  resubmitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: Colors.solidBlue,
+    borderRadius: moderateScale(6),
+    paddingHorizontal: scale(10),
+    paddingVertical: verticalScale(6),
+    marginTop: verticalScale(8),
+  },
+  resubmitButtonText: {
+    fontSize: moderateScale(12),
+    color: Colors.white,
+    fontWeight: '600',
+    marginLeft: scale(4),
+  },
+  resubmittedNote: {
+    fontSize: moderateScale(12),
+    color: Colors.solidBlue,
+    fontWeight: '500',
+    marginBottom: verticalScale(8),
+  },
+  supervisorNote: {
+    fontSize: moderateScale(12),
+    color: Colors.textMedium,
+    marginBottom: verticalScale(8),
+  },
   submissionDate: {
     fontSize: moderateScale(11),
     color: Colors.textLight,
     textAlign: 'right',
   },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  historyToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  historyToggleText: {
+    fontSize: moderateScale(12),
+    color: Colors.primaryBlue,
+    fontWeight: '500',
+    marginLeft: scale(4),
+  },
   bulletproofImageContainer: {
     marginTop: verticalScale(8),
     alignSelf: 'stretch',
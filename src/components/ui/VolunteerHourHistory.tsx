@@ -0,0 +1,142 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useVolunteerHourAuditTrail } from '../../hooks/useVolunteerHoursData';
+import { VerificationAuditAction } from '../../services/VerificationRequestService';
+import {
+  AUDIT_ACTION_ICONS,
+  AUDIT_ACTION_LABELS,
+  describeAuditChanges,
+  formatAuditTimestamp,
+} from '../../utils/auditUtils';
+
+const Colors = {
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  errorRed: '#E53E3E',
+  successGreen: '#38A169',
+  warningOrange: '#DD6B20',
+  dividerColor: '#E2E8F0',
+};
+
+const ACTION_COLORS: Record<VerificationAuditAction, string> = {
+  created: Colors.solidBlue,
+  resubmitted: Colors.solidBlue,
+  edited: Colors.textMedium,
+  officer_approved: Colors.warningOrange,
+  approved: Colors.successGreen,
+  rejected: Colors.errorRed,
+  deleted: Colors.errorRed,
+};
+
+interface VolunteerHourHistoryProps {
+  hourId: string;
+}
+
+/**
+ * Timeline of every change to a volunteer hours entry, oldest first
+ */
+const VolunteerHourHistory: React.FC<VolunteerHourHistoryProps> = ({ hourId }) => {
+  const { data: entries = [], isLoading, error } = useVolunteerHourAuditTrail(hourId);
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={Colors.solidBlue} style={styles.loading} />;
+  }
+
+  if (error) {
+    return <Text style={styles.message}>Could not load history.</Text>;
+  }
+
+  if (entries.length === 0) {
+    return <Text style={styles.message}>No history recorded yet.</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {entries.map((entry, index) => {
+        const isLast = index === entries.length - 1;
+        const changes = describeAuditChanges(entry);
+
+        return (
+          <View key={entry.id} style={styles.row}>
+            <View style={styles.markerColumn}>
+              <Icon
+                name={AUDIT_ACTION_ICONS[entry.action]}
+                size={moderateScale(18)}
+                color={ACTION_COLORS[entry.action]}
+              />
+              {!isLast && <View style={styles.line} />}
+            </View>
+            <View style={[styles.content, !isLast && styles.contentSpaced]}>
+              <Text style={styles.action}>
+                {AUDIT_ACTION_LABELS[entry.action]}
+                {entry.performed_by_name ? ` by ${entry.performed_by_name}` : ''}
+              </Text>
+              <Text style={styles.timestamp}>{formatAuditTimestamp(entry.performed_at)}</Text>
+              {changes.map(change => (
+                <Text key={change} style={styles.detail}>{change}</Text>
+              ))}
+              {entry.rejection_reason && (
+                <Text style={styles.detail}>Reason: {entry.rejection_reason}</Text>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: verticalScale(8),
+  },
+  loading: {
+    marginVertical: verticalScale(8),
+  },
+  message: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+    marginVertical: verticalScale(8),
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  markerColumn: {
+    alignItems: 'center',
+    width: scale(24),
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: Colors.dividerColor,
+    marginVertical: verticalScale(2),
+  },
+  content: {
+    flex: 1,
+    marginLeft: scale(8),
+  },
+  contentSpaced: {
+    paddingBottom: verticalScale(12),
+  },
+  action: {
+    fontSize: moderateScale(13),
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  timestamp: {
+    fontSize: moderateScale(11),
+    color: Colors.textLight,
+    marginTop: verticalScale(2),
+  },
+  detail: {
+    fontSize: moderateScale(12),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+  },
+});
+
+export default VolunteerHourHistory;
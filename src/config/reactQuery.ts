@@ -40,6 +40,9 @@ export const queryKeys = {
     details: () => [...queryKeys.events.all, 'detail'] as const,
     detail: (eventId: string) => [...queryKeys.events.details(), eventId] as const,
     attendance: (eventId: string) => [...queryKeys.events.all, 'attendance', eventId] as const,
+    rsvps: () => [...queryKeys.events.all, 'rsvps'] as const,
+    rsvpSummaries: (eventIds: string[]) => [...queryKeys.events.rsvps(), 'summaries', eventIds] as const,
+    rsvpReport: (eventId: string) => [...queryKeys.events.rsvps(), 'report', eventId] as const,
   },
 
   // Volunteer hours related queries
@@ -55,6 +58,11 @@ export const queryKeys = {
       [...queryKeys.volunteerHours.all, 'status', status, orgId, memberId] as const,
     verificationStats: (orgId: string) => [...queryKeys.volunteerHours.all, 'verification-stats', orgId] as const,
     stats: (userId: string) => [...queryKeys.volunteerHours.all, 'stats', userId] as const,
+    rejectionTemplates: (orgId: string) => [...queryKeys.volunteerHours.all, 'rejection-templates', orgId] as const,
+    approvalPolicy: (orgId: string) => [...queryKeys.volunteerHours.all, 'approval-policy', orgId] as const,
+    auditTrail: (hourId: string) => [...queryKeys.volunteerHours.all, 'audit-trail', hourId] as const,
+    auditLog: (orgId: string, filters?: Record<string, any>) => 
+      [...queryKeys.volunteerHours.all, 'audit-log', orgId, filters] as const,
   },
 
   // Attendance related queries
@@ -67,6 +75,7 @@ export const queryKeys = {
     userEvent: (userId?: string, eventId?: string) => 
       [...queryKeys.attendance.all, 'user-event', userId, eventId] as const,
     detail: (attendanceId: string) => [...queryKeys.attendance.all, 'detail', attendanceId] as const,
+    roster: (eventId: string) => [...queryKeys.attendance.all, 'roster', eventId] as const,
     // Legacy support
     list: (userId: string, filters?: Record<string, any>) => 
       [...queryKeys.attendance.lists(), userId, filters] as const,
@@ -79,6 +88,54 @@ export const queryKeys = {
     member: (userId: string) => [...queryKeys.dashboard.all, 'member', userId] as const,
     officer: (orgId: string) => [...queryKeys.dashboard.all, 'officer', orgId] as const,
   },
+
+  // Graduation requirement queries
+  requirements: {
+    all: ['requirements'] as const,
+    list: (orgId: string) => [...queryKeys.requirements.all, 'list', orgId] as const,
+    progress: (orgId: string, memberId?: string) => [...queryKeys.requirements.all, 'progress', orgId, memberId] as const,
+    atRisk: (orgId: string) => [...queryKeys.requirements.all, 'at-risk', orgId] as const,
+  },
+
+  // Verification code queries
+  verificationCodes: {
+    all: ['verificationCodes'] as const,
+    list: (orgId: string) => [...queryKeys.verificationCodes.all, 'list', orgId] as const,
+  },
+
+  // Sign-in lockout queries
+  accountLockouts: {
+    all: ['accountLockouts'] as const,
+    list: (orgId: string) => [...queryKeys.accountLockouts.all, 'list', orgId] as const,
+  },
+
+  // Officer member roster queries
+  memberRoster: {
+    all: ['memberRoster'] as const,
+    list: (orgId: string) => [...queryKeys.memberRoster.all, 'list', orgId] as const,
+    activity: (orgId: string, memberId: string) => [...queryKeys.memberRoster.all, 'activity', orgId, memberId] as const,
+    stats: (orgId: string) => [...queryKeys.memberRoster.all, 'stats', orgId] as const,
+  },
+
+  // Account deletion queries
+  accountDeletion: {
+    all: ['accountDeletion'] as const,
+    request: (userId: string) => [...queryKeys.accountDeletion.all, 'request', userId] as const,
+  },
+
+  // Notification inbox queries
+  notificationInbox: {
+    all: ['notificationInbox'] as const,
+    list: (userId: string) => [...queryKeys.notificationInbox.all, 'list', userId] as const,
+  },
+
+  // Officer-composed custom notification queries
+  customNotifications: {
+    all: ['customNotifications'] as const,
+    preview: (orgId: string, audience: Record<string, unknown>) =>
+      [...queryKeys.customNotifications.all, 'preview', orgId, audience] as const,
+    log: (orgId: string) => [...queryKeys.customNotifications.all, 'log', orgId] as const,
+  },
 } as const;
 
 // =============================================================================
@@ -462,6 +519,7 @@ export const cacheInvalidation = {
     if (eventId) {
       queryClient.invalidateQueries({ queryKey: queryKeys.attendance.eventList(eventId) });
       queryClient.invalidateQueries({ queryKey: queryKeys.attendance.event(eventId) }); // Legacy support
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendance.roster(eventId) });
       
       if (invalidateEventDetails) {
         queryClient.invalidateQueries({ queryKey: queryKeys.events.attendance(eventId) });
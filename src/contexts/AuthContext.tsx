@@ -205,6 +205,38 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setUserMemberships(memberships);
   };
 
+  // Officers can promote, demote or deactivate this user from the roster.
+  // Reload the profile when one of their memberships changes so role checks
+  // pick up the new role without signing in again.
+  const refreshProfileRef = useRef(refreshProfile);
+  refreshProfileRef.current = refreshProfile;
+
+  useEffect(() => {
+    const userId = session?.user?.id;
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`memberships_user_${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'memberships',
+          filter: `user_id=eq.${userId}`,
+        },
+        () => {
+          console.log('🔄 Membership changed, refreshing profile');
+          refreshProfileRef.current();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [session?.user?.id]);
+
   const refreshSession = async (): Promise<boolean> => {
     try {
       const { data, error } = await supabase.auth.refreshSession();
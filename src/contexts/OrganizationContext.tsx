@@ -3,6 +3,7 @@ import { useAuth } from './AuthContext';
 import { Organization, OrganizationType, UserMembership } from '../types/database';
 import { OrganizationService } from '../services/OrganizationService';
 import { ProfileValidationService } from '../services/ProfileValidationService';
+import OrgBeaconCodeResolver from '../services/OrgBeaconCodeResolver';
 
 interface OrganizationContextType {
   // Active organization state
@@ -161,6 +162,9 @@ export const OrganizationProvider: React.FC<OrganizationProviderProps> = ({ chil
 
   const setActiveOrganizationFromMembership = async (membership: UserMembership) => {
     try {
+      // Load registered beacon codes before BLE starts broadcasting or scanning
+      await OrgBeaconCodeResolver.load();
+
       // Fetch full organization data
       const { data: orgData, error } = await OrganizationService.getOrganizationById(membership.org_id);
       
@@ -187,6 +191,7 @@ export const OrganizationProvider: React.FC<OrganizationProviderProps> = ({ chil
         setActiveOrganization(fallbackOrg);
         console.log(`✅ Set active organization (fallback): ${fallbackOrg.name}`);
       } else {
+        OrgBeaconCodeResolver.register(orgData);
         setActiveOrganization(orgData);
         console.log(`✅ Set active organization: ${orgData.name}`);
       }
@@ -0,0 +1,93 @@
+/**
+ * useNotificationSystem Hook Tests
+ * Tests that startup initializes the listeners and registers the review
+ * notification category
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import { useNotificationSystem } from '../useNotificationSystem';
+import { useAuth } from '../../contexts/AuthContext';
+import { notificationListenerService } from '../../services/NotificationListenerService';
+import { notificationPriorityManager } from '../../services/NotificationPriorityManager';
+
+jest.mock('../../contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+jest.mock('../../services/NotificationListenerService', () => ({
+  notificationListenerService: {
+    initialize: jest.fn(),
+    cleanup: jest.fn(),
+    isServiceInitialized: jest.fn(() => false),
+  },
+}));
+
+jest.mock('../../services/NotificationNavigationHandler', () => ({
+  notificationNavigationHandler: {
+    setNavigationRef: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/NotificationPriorityManager', () => ({
+  notificationPriorityManager: {
+    setupReviewCategories: jest.fn(),
+  },
+}));
+
+const mockUseAuth = useAuth as jest.Mock;
+const mockListenerInitialize = notificationListenerService.initialize as jest.Mock;
+const mockSetupReviewCategories = notificationPriorityManager.setupReviewCategories as jest.Mock;
+
+describe('useNotificationSystem', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockUseAuth.mockReturnValue({ session: { user: { id: 'user-1' } }, isInitialized: true });
+    mockListenerInitialize.mockResolvedValue(undefined);
+    mockSetupReviewCategories.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should register the review category when the signed-in app starts', async () => {
+    renderHook(() => useNotificationSystem());
+
+    await act(async () => {
+      jest.advanceTimersByTime(1000);
+    });
+
+    expect(mockListenerInitialize).toHaveBeenCalled();
+    expect(mockSetupReviewCategories).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start before anyone signs in', async () => {
+    mockUseAuth.mockReturnValue({ session: null, isInitialized: true });
+
+    renderHook(() => useNotificationSystem());
+
+    await act(async () => {
+      jest.advanceTimersByTime(1000);
+    });
+
+    expect(mockSetupReviewCategories).not.toHaveBeenCalled();
+  });
+
+  it('should still initialize when the category cannot be registered', async () => {
+    mockSetupReviewCategories.mockRejectedValue(new Error('Not supported'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { result } = renderHook(() => useNotificationSystem({ autoInitialize: false }));
+
+    let initialized = false;
+    await act(async () => {
+      initialized = await result.current.initialize();
+    });
+
+    expect(initialized).toBe(true);
+    expect(mockListenerInitialize).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Account Data React Query Hooks
+ * Provides hooks for members to export their data and schedule or cancel account deletion
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { accountDataService } from '../services/AccountDataService';
+import { AccountDataExport, AccountDeletionRequest } from '../types/dataService';
+import { UUID } from '../types/database';
+import { queryKeys } from '../config/reactQuery';
+
+/**
+ * Hook for the current user's scheduled account deletion, if any
+ */
+export function useAccountDeletionRequest(userId: UUID | undefined) {
+  return useQuery({
+    queryKey: queryKeys.accountDeletion.request(userId || ''),
+    queryFn: async (): Promise<AccountDeletionRequest | null> => {
+      const response = await accountDataService.getDeletionRequest();
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch account deletion status');
+      }
+      return response.data;
+    },
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+/**
+ * Mutation hook for scheduling the current user's account deletion
+ */
+export function useRequestAccountDeletion(userId: UUID | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<AccountDeletionRequest> => {
+      const response = await accountDataService.requestDeletion();
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to schedule account deletion');
+      }
+      return response.data;
+    },
+    onSuccess: (request) => {
+      queryClient.setQueryData(queryKeys.accountDeletion.request(userId || ''), request);
+    },
+  });
+}
+
+/**
+ * Mutation hook for cancelling the current user's scheduled deletion
+ */
+export function useCancelAccountDeletion(userId: UUID | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<boolean> => {
+      const response = await accountDataService.cancelDeletion();
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to cancel account deletion');
+      }
+      return true;
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(queryKeys.accountDeletion.request(userId || ''), null);
+    },
+  });
+}
+
+/**
+ * Mutation hook for exporting the current user's data
+ */
+export function useExportAccountData() {
+  return useMutation({
+    mutationFn: async (): Promise<AccountDataExport> => {
+      const response = await accountDataService.exportMyData();
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to export your data');
+      }
+      return response.data;
+    },
+  });
+}
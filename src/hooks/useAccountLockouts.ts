@@ -0,0 +1,49 @@
+/**
+ * Account Lockout React Query Hooks
+ * Provides hooks for officers to see and lift members' sign-in lockouts
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { accountLockoutService } from '../services/AccountLockoutService';
+import { LockedAccount } from '../types/dataService';
+import { UUID } from '../types/database';
+import { queryKeys } from '../config/reactQuery';
+
+/**
+ * Hook for members who are currently locked out of sign-in (officers only)
+ */
+export function useLockedAccounts(orgId: UUID) {
+  return useQuery({
+    queryKey: queryKeys.accountLockouts.list(orgId),
+    queryFn: async (): Promise<LockedAccount[]> => {
+      const response = await accountLockoutService.getLockedAccounts(orgId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch locked accounts');
+      }
+      return response.data;
+    },
+    enabled: !!orgId,
+    staleTime: 60 * 1000, // 1 minute - lockouts expire on their own
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * Mutation hook for officers unlocking a member's email
+ */
+export function useUnlockAccount(orgId: UUID) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (email: string): Promise<boolean> => {
+      const response = await accountLockoutService.unlockAccount(orgId, email);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to unlock account');
+      }
+      return true;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.accountLockouts.list(orgId) });
+    },
+  });
+}
@@ -24,11 +24,13 @@ interface UseAnnouncementDataOptions {
   limit?: number;
   offset?: number;
   enableRealtime?: boolean;
+  includeScheduled?: boolean; // Officers only
 }
 
 interface UseAnnouncementDataReturn {
   // Data state
   announcements: Announcement[];
+  scheduledAnnouncements: Announcement[];
   loading: LoadingState;
   
   // CRUD operations
@@ -54,11 +56,13 @@ export function useAnnouncementData(
     filters,
     limit,
     offset,
-    enableRealtime = true
+    enableRealtime = true,
+    includeScheduled = false
   } = options;
 
   // State management
   const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [scheduledAnnouncements, setScheduledAnnouncements] = useState<Announcement[]>([]);
   const [loading, setLoading] = useState<LoadingState>({
     isLoading: true,
     isError: false,
@@ -136,6 +140,18 @@ export function useAnnouncementData(
     }
   }, [filters, limit, offset]);
 
+  const fetchScheduledAnnouncements = useCallback(async () => {
+    if (!includeScheduled || !mountedRef.current) return;
+
+    const result = await announcementService.fetchScheduledAnnouncements();
+
+    if (!mountedRef.current) return;
+
+    if (result.success && result.data) {
+      setScheduledAnnouncements(result.data);
+    }
+  }, [includeScheduled]);
+
   // =============================================================================
   // REALTIME SUBSCRIPTION
   // =============================================================================
@@ -148,7 +164,10 @@ export function useAnnouncementData(
         (payload) => {
           if (!mountedRef.current) return;
           
-
+          // A scheduled announcement going live leaves the scheduled queue
+          if (payload.eventType === 'INSERT' && payload.new) {
+            setScheduledAnnouncements(prev => prev.filter(announcement => announcement.id !== payload.new!.id));
+          }
 
           setAnnouncements(prev => {
             let updated = prev;
@@ -236,9 +255,16 @@ export function useAnnouncementData(
           data: result.data,
         });
 
-        // Don't do optimistic updates for creation when realtime is enabled
-        // The realtime subscription will handle the UI update to prevent duplicates
-        if (!enableRealtime) {
+        if (result.data.status === 'scheduled') {
+          // Scheduled announcements only appear in the officer's queue until published
+          setScheduledAnnouncements(prev =>
+            [...prev, result.data!].sort((a, b) =>
+              new Date(a.publish_at || a.created_at).getTime() - new Date(b.publish_at || b.created_at).getTime()
+            )
+          );
+        } else if (!enableRealtime) {
+          // Don't do optimistic updates for creation when realtime is enabled
+          // The realtime subscription will handle the UI update to prevent duplicates
           setAnnouncements(prev => [result.data!, ...prev]);
         }
       } else {
@@ -350,7 +376,9 @@ export function useAnnouncementData(
 
     // Optimistically remove from UI immediately for better UX
     const originalAnnouncements = announcements;
+    const originalScheduled = scheduledAnnouncements;
     setAnnouncements(prev => prev.filter(announcement => announcement.id !== id));
+    setScheduledAnnouncements(prev => prev.filter(announcement => announcement.id !== id));
 
     try {
       const result = await announcementService.softDeleteAnnouncement(id);
@@ -366,6 +394,7 @@ export function useAnnouncementData(
       } else {
         // Revert optimistic update on failure
         setAnnouncements(originalAnnouncements);
+        setScheduledAnnouncements(originalScheduled);
         setDeleteState({
           isLoading: false,
           isError: true,
@@ -382,6 +411,7 @@ export function useAnnouncementData(
     } catch (error) {
       // Revert optimistic update on error
       setAnnouncements(originalAnnouncements);
+      setScheduledAnnouncements(originalScheduled);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       setDeleteState({
         isLoading: false,
@@ -400,11 +430,11 @@ export function useAnnouncementData(
         success: false,
       };
     }
-  }, [announcements]);
+  }, [announcements, scheduledAnnouncements]);
 
   const refreshAnnouncements = useCallback(async () => {
-    await fetchAnnouncements();
-  }, [fetchAnnouncements]);
+    await Promise.all([fetchAnnouncements(), fetchScheduledAnnouncements()]);
+  }, [fetchAnnouncements, fetchScheduledAnnouncements]);
 
   // =============================================================================
   // EFFECTS
@@ -415,6 +445,10 @@ export function useAnnouncementData(
     fetchAnnouncements();
   }, [fetchAnnouncements]);
 
+  useEffect(() => {
+    fetchScheduledAnnouncements();
+  }, [fetchScheduledAnnouncements]);
+
   // Setup realtime subscription after initial data is loaded
   useEffect(() => {
     // Only set up subscription after we have loaded initial data
@@ -447,6 +481,7 @@ export function useAnnouncementData(
 
   return {
     announcements,
+    scheduledAnnouncements,
     loading,
     createAnnouncement,
     updateAnnouncement,
@@ -8,6 +8,9 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { attendanceService } from '../services/AttendanceService';
 import { 
   AttendanceRecord, 
+  AttendanceRosterEntry,
+  BulkAttendanceOverrideRequest,
+  BulkAttendanceOverrideResult,
   CreateAttendanceRequest,
   AttendanceFilters,
   ApiResponse 
@@ -66,6 +69,25 @@ export function useEventAttendance(eventId: UUID) {
   });
 }
 
+/**
+ * Hook for the officer roster: every active member with present/absent/excused status
+ */
+export function useEventRoster(eventId: UUID) {
+  return useQuery({
+    queryKey: queryKeys.attendance.roster(eventId),
+    queryFn: async (): Promise<AttendanceRosterEntry[]> => {
+      const response = await attendanceService.getEventRoster(eventId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch event roster');
+      }
+      return response.data;
+    },
+    enabled: !!eventId,
+    staleTime: 30 * 1000, // 30 seconds - attendance changes frequently during events
+    gcTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
 /**
  * Hook to get recent attendance for current user (dashboard widget)
  * Requirements: 2.2
@@ -464,6 +486,36 @@ export function useDeleteAttendance() {
   });
 }
 
+/**
+ * Mutation hook for officer overrides (bulk mark present/absent/excused with a note)
+ */
+export function useBulkAttendanceOverride() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: BulkAttendanceOverrideRequest): Promise<BulkAttendanceOverrideResult> => {
+      const response = await attendanceService.bulkOverrideAttendance(request);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to update attendance');
+      }
+      return response.data;
+    },
+    onSuccess: (_result, request) => {
+      cacheInvalidation.invalidateAttendanceQueries(queryClient, undefined, request.event_id);
+      request.member_ids.forEach(memberId => {
+        cacheInvalidation.invalidateAttendanceQueries(queryClient, memberId, request.event_id, {
+          invalidateEventDetails: false,
+        });
+      });
+
+      // Also invalidate event details to update attendance count
+      queryClient.invalidateQueries({ 
+        queryKey: queryKeys.events.detail(request.event_id) 
+      });
+    },
+  });
+}
+
 // =============================================================================
 // UTILITY HOOKS
 // =============================================================================
@@ -0,0 +1,79 @@
+/**
+ * Custom Notification React Query Hooks
+ * Provides hooks for officers to preview an audience, send a custom
+ * notification and see what the organization has sent recently
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { customNotificationService } from '../services/CustomNotificationService';
+import {
+  CustomNotificationAudience,
+  CustomNotificationAudiencePreview,
+  CustomNotificationDraft,
+  CustomNotificationLogEntry,
+  CustomNotificationSendResult,
+} from '../types/notifications';
+import { UUID } from '../types/database';
+import { queryKeys } from '../config/reactQuery';
+
+const isAudienceComplete = (audience: CustomNotificationAudience): boolean =>
+  (audience.type !== 'grade' || !!audience.grade) &&
+  (audience.type !== 'event_attendees' || !!audience.eventId);
+
+/**
+ * Hook for how many members an audience reaches (officers only)
+ */
+export function useCustomNotificationAudiencePreview(orgId: UUID, audience: CustomNotificationAudience) {
+  return useQuery({
+    queryKey: queryKeys.customNotifications.preview(orgId, { ...audience }),
+    queryFn: async (): Promise<CustomNotificationAudiencePreview> => {
+      const response = await customNotificationService.previewAudience(orgId, audience);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to count recipients');
+      }
+      return response.data;
+    },
+    enabled: !!orgId && isAudienceComplete(audience),
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * Hook for the organization's recent custom notifications (officers only)
+ */
+export function useCustomNotificationLog(orgId: UUID) {
+  return useQuery({
+    queryKey: queryKeys.customNotifications.log(orgId),
+    queryFn: async (): Promise<CustomNotificationLogEntry[]> => {
+      const response = await customNotificationService.getRecentCustomNotifications(orgId);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch sent notifications');
+      }
+      return response.data || [];
+    },
+    enabled: !!orgId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * Mutation hook for sending a custom notification
+ */
+export function useSendCustomNotification(orgId: UUID) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (draft: CustomNotificationDraft): Promise<CustomNotificationSendResult> => {
+      const response = await customNotificationService.sendCustomNotification(orgId, draft);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to send notification');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customNotifications.log(orgId) });
+    },
+  });
+}
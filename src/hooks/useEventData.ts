@@ -10,7 +10,8 @@ import {
   Event, 
   CreateEventRequest, 
   UpdateEventRequest,
-  EventFilters 
+  EventFilters,
+  EventEditScope
 } from '../services/EventService';
 import { ApiResponse, LoadingState, MutationState } from '../types/dataService';
 
@@ -32,8 +33,8 @@ interface UseEventDataReturn {
   
   // CRUD operations
   createEvent: (data: CreateEventRequest) => Promise<ApiResponse<Event>>;
-  updateEvent: (id: string, data: UpdateEventRequest) => Promise<ApiResponse<Event>>;
-  deleteEvent: (id: string) => Promise<ApiResponse<boolean>>;
+  updateEvent: (id: string, data: UpdateEventRequest, scope?: EventEditScope) => Promise<ApiResponse<Event>>;
+  deleteEvent: (id: string, scope?: EventEditScope) => Promise<ApiResponse<boolean>>;
   refreshEvents: () => Promise<void>;
   
   // Mutation states
@@ -42,6 +43,20 @@ interface UseEventDataReturn {
   deleteState: MutationState<boolean>;
 }
 
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Realtime payloads don't embed the series, so reuse the recurrence rule
+ * already loaded for another occurrence of the same series
+ */
+function withSeriesRecurrence(event: Event, events: Event[]): Event {
+  if (event.recurrence || !event.series_id) return event;
+  const sibling = events.find(e => e.series_id === event.series_id && e.recurrence);
+  return sibling ? { ...event, recurrence: sibling.recurrence } : event;
+}
+
 // =============================================================================
 // MAIN HOOK
 // =============================================================================
@@ -153,15 +168,16 @@ export function useEventData(
             switch (payload.eventType) {
               case 'INSERT':
                 if (payload.new) {
+                  const inserted = withSeriesRecurrence(payload.new, prev);
                   // Check for duplicates before adding
                   const existingIndex = prev.findIndex(event => event.id === payload.new!.id);
                   if (existingIndex !== -1) {
                     // Update existing event with server data
                     updated = [...prev];
-                    updated[existingIndex] = payload.new;
+                    updated[existingIndex] = inserted;
                   } else {
                     // Add new event in chronological order
-                    updated = [...prev, payload.new];
+                    updated = [...prev, inserted];
                   }
                   // Sort by date
                   updated = updated.sort((a, b) => 
@@ -174,8 +190,9 @@ export function useEventData(
               case 'UPDATE':
                 if (payload.new) {
                   // Update existing event
+                  const changed = withSeriesRecurrence(payload.new, prev);
                   updated = prev.map(event => 
-                    event.id === payload.new!.id ? payload.new! : event
+                    event.id === payload.new!.id ? changed : event
                   );
                 }
                 break;
@@ -238,8 +255,11 @@ export function useEventData(
           data: result.data,
         });
 
-        // Optimistically add to local state if realtime is disabled
-        if (!enableRealtime) {
+        // A series creates many occurrences at once; reload them all
+        if (data.recurrence) {
+          await fetchEvents();
+        } else if (!enableRealtime) {
+          // Optimistically add to local state if realtime is disabled
           setEvents(prev => {
             const newEvents = [...prev, result.data!];
             return newEvents.sort((a, b) => 
@@ -281,11 +301,12 @@ export function useEventData(
         success: false,
       };
     }
-  }, [enableRealtime]);
+  }, [enableRealtime, fetchEvents]);
 
   const updateEvent = useCallback(async (
     id: string,
-    data: UpdateEventRequest
+    data: UpdateEventRequest,
+    scope: EventEditScope = 'occurrence'
   ): Promise<ApiResponse<Event>> => {
     setUpdateState({
       isLoading: true,
@@ -294,7 +315,7 @@ export function useEventData(
     });
 
     try {
-      const result = await eventService.updateEvent(id, data);
+      const result = await eventService.updateEvent(id, data, scope);
 
       if (result.success && result.data) {
         setUpdateState({
@@ -304,8 +325,11 @@ export function useEventData(
           data: result.data,
         });
 
-        // Optimistically update local state if realtime is disabled
-        if (!enableRealtime) {
+        // Editing future occurrences can split the series; reload every occurrence
+        if (scope === 'future' && result.data.series_id) {
+          await fetchEvents();
+        } else if (!enableRealtime) {
+          // Optimistically update local state if realtime is disabled
           setEvents(prev => 
             prev.map(event => 
               event.id === id ? result.data! : event
@@ -345,10 +369,11 @@ export function useEventData(
         success: false,
       };
     }
-  }, [enableRealtime]);
+  }, [enableRealtime, fetchEvents]);
 
   const deleteEvent = useCallback(async (
-    id: string
+    id: string,
+    scope: EventEditScope = 'occurrence'
   ): Promise<ApiResponse<boolean>> => {
     setDeleteState({
       isLoading: true,
@@ -358,10 +383,18 @@ export function useEventData(
 
     // Optimistically remove from UI immediately for better UX (like announcements)
     const originalEvents = events;
-    setEvents(prev => prev.filter(event => event.id !== id));
+    const target = events.find(event => event.id === id);
+    const removesFuture = scope === 'future' && !!target?.series_id;
+    setEvents(prev => prev.filter(event => {
+      if (event.id === id) return false;
+      if (removesFuture && event.series_id === target!.series_id) {
+        return (event.occurrence_date || '') < (target!.occurrence_date || '');
+      }
+      return true;
+    }));
 
     try {
-      const result = await eventService.softDeleteEvent(id);
+      const result = await eventService.softDeleteEvent(id, scope);
 
       if (result.success) {
         setDeleteState({
@@ -651,8 +684,11 @@ export function useOfficerEvents() {
     enableRealtime: true,
   });
 
-  const deleteEventWrapper = async (eventId: string): Promise<ApiResponse<boolean>> => {
-    const result = await eventData.deleteEvent(eventId);
+  const deleteEventWrapper = async (
+    eventId: string,
+    scope: EventEditScope = 'occurrence'
+  ): Promise<ApiResponse<boolean>> => {
+    const result = await eventData.deleteEvent(eventId, scope);
     return result;
   };
 
@@ -0,0 +1,98 @@
+/**
+ * Event RSVP React Query Hooks
+ * Provides hooks for RSVP counts, the member's own RSVP and the officer no-show report,
+ * kept current by the RSVP realtime subscription
+ */
+
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { eventRSVPService } from '../services/EventRSVPService';
+import {
+  EventRSVPReportEntry,
+  EventRSVPStatus,
+  EventRSVPSummary,
+  SetEventRSVPResult,
+} from '../types/dataService';
+import { UUID } from '../types/database';
+import { queryKeys } from '../config/reactQuery';
+import { useEventRSVPSubscription } from './useEventSubscriptions';
+
+// =============================================================================
+// RSVP QUERY HOOKS
+// =============================================================================
+
+/**
+ * Hook for RSVP counts and the current member's RSVP across a list of events
+ */
+export function useEventRSVPSummaries(eventIds: UUID[]) {
+  const queryClient = useQueryClient();
+  const sortedIds = [...eventIds].sort();
+
+  const query = useQuery({
+    queryKey: queryKeys.events.rsvpSummaries(sortedIds),
+    queryFn: async (): Promise<Record<UUID, EventRSVPSummary>> => {
+      const response = await eventRSVPService.getRsvpSummaries(sortedIds);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch RSVPs');
+      }
+      return response.data;
+    },
+    enabled: sortedIds.length > 0,
+    staleTime: 30 * 1000, // 30 seconds - realtime keeps counts current
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const handleRsvpChange = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.events.rsvps() });
+  }, [queryClient]);
+
+  useEventRSVPSubscription(handleRsvpChange, { enabled: sortedIds.length > 0 });
+
+  return query;
+}
+
+/**
+ * Hook for the officer RSVP report with no-show flags
+ */
+export function useEventRSVPReport(eventId: UUID, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.events.rsvpReport(eventId),
+    queryFn: async (): Promise<EventRSVPReportEntry[]> => {
+      const response = await eventRSVPService.getRsvpReport(eventId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch RSVP report');
+      }
+      return response.data;
+    },
+    enabled: enabled && !!eventId,
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+// =============================================================================
+// RSVP MUTATION HOOKS
+// =============================================================================
+
+/**
+ * Mutation hook for a member answering going, maybe or not going
+ */
+export function useSetEventRSVP() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ eventId, status }: {
+      eventId: UUID;
+      status: Exclude<EventRSVPStatus, 'waitlisted'>;
+    }): Promise<SetEventRSVPResult> => {
+      const response = await eventRSVPService.setRsvp(eventId, status);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to update RSVP');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.events.rsvps() });
+    },
+  });
+}
@@ -7,6 +7,7 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useOrganization } from '../contexts/OrganizationContext';
 import { eventService, Event, EventFilters } from '../services/EventService';
+import { eventRSVPService, EventRSVPChange } from '../services/EventRSVPService';
 
 // =============================================================================
 // SUBSCRIPTION INTERFACES
@@ -319,6 +320,70 @@ export function useUpcomingEventsSubscription(
   });
 }
 
+/**
+ * Hook for RSVP subscriptions (going/maybe/waitlist changes across the organization)
+ */
+export function useEventRSVPSubscription(
+  onChange: (change: EventRSVPChange) => void,
+  options: Pick<UseEventSubscriptionsOptions, 'enabled' | 'onError'> = {}
+) {
+  const { enabled = true, onError } = options;
+  const { activeOrganization } = useOrganization();
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const mountedRef = useRef(true);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const setupSubscription = useCallback(async () => {
+    if (!enabled || !activeOrganization || !mountedRef.current) {
+      return;
+    }
+
+    try {
+      const unsubscribe = await eventRSVPService.subscribeToRsvps((change) => {
+        if (mountedRef.current) {
+          onChangeRef.current(change);
+        }
+      });
+
+      if (mountedRef.current) {
+        unsubscribeRef.current = unsubscribe;
+      } else {
+        // Component unmounted while setting up subscription
+        unsubscribe();
+      }
+    } catch (error) {
+      console.error('Failed to setup RSVP subscription:', error);
+      if (onError && error instanceof Error) {
+        onError(error);
+      }
+    }
+  }, [enabled, activeOrganization, onError]);
+
+  const cleanupSubscription = useCallback(() => {
+    if (unsubscribeRef.current) {
+      unsubscribeRef.current();
+      unsubscribeRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    setupSubscription();
+
+    return () => {
+      mountedRef.current = false;
+      cleanupSubscription();
+    };
+  }, [setupSubscription, cleanupSubscription]);
+
+  return {
+    isSubscribed: !!unsubscribeRef.current,
+    resubscribe: setupSubscription,
+    unsubscribe: cleanupSubscription,
+  };
+}
+
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
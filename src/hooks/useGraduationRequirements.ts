@@ -0,0 +1,120 @@
+/**
+ * Graduation Requirement React Query Hooks
+ * Provides hooks for requirement rules, a member's progress and the officer at-risk list
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { graduationRequirementService } from '../services/GraduationRequirementService';
+import {
+  AtRiskMember,
+  CreateGraduationRequirementRequest,
+  GraduationRequirement,
+  RequirementProgress,
+} from '../types/dataService';
+import { UUID } from '../types/database';
+import { queryKeys } from '../config/reactQuery';
+
+// =============================================================================
+// REQUIREMENT QUERY HOOKS
+// =============================================================================
+
+/**
+ * Hook for the organization's active requirement rules
+ */
+export function useGraduationRequirements(orgId: UUID) {
+  return useQuery({
+    queryKey: queryKeys.requirements.list(orgId),
+    queryFn: async (): Promise<GraduationRequirement[]> => {
+      const response = await graduationRequirementService.getRequirements(orgId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch requirements');
+      }
+      return response.data;
+    },
+    enabled: !!orgId,
+    staleTime: 10 * 60 * 1000, // 10 minutes - rules rarely change
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+/**
+ * Hook for progress toward each requirement (current member unless memberId is given)
+ */
+export function useRequirementProgress(orgId: UUID, memberId?: UUID) {
+  return useQuery({
+    queryKey: queryKeys.requirements.progress(orgId, memberId),
+    queryFn: async (): Promise<RequirementProgress[]> => {
+      const response = await graduationRequirementService.getMemberProgress(orgId, memberId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch requirement progress');
+      }
+      return response.data;
+    },
+    enabled: !!orgId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+/**
+ * Hook for members at risk of missing a requirement (officers only)
+ */
+export function useAtRiskMembers(orgId: UUID, warningDays: number = 30) {
+  return useQuery({
+    queryKey: queryKeys.requirements.atRisk(orgId),
+    queryFn: async (): Promise<AtRiskMember[]> => {
+      const response = await graduationRequirementService.getAtRiskMembers(orgId, warningDays);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch at-risk members');
+      }
+      return response.data;
+    },
+    enabled: !!orgId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 15 * 60 * 1000, // 15 minutes
+  });
+}
+
+// =============================================================================
+// REQUIREMENT MUTATION HOOKS
+// =============================================================================
+
+/**
+ * Mutation hook for officers adding a requirement rule
+ */
+export function useCreateGraduationRequirement(orgId: UUID) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (requirement: CreateGraduationRequirementRequest): Promise<GraduationRequirement> => {
+      const response = await graduationRequirementService.createRequirement(orgId, requirement);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to create requirement');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.requirements.all });
+    },
+  });
+}
+
+/**
+ * Mutation hook for officers retiring a requirement rule
+ */
+export function useArchiveGraduationRequirement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (requirementId: UUID): Promise<boolean> => {
+      const response = await graduationRequirementService.archiveRequirement(requirementId);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to remove requirement');
+      }
+      return true;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.requirements.all });
+    },
+  });
+}
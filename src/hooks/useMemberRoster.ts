@@ -0,0 +1,108 @@
+/**
+ * Member Roster React Query Hooks
+ * Provides hooks for officers to browse members, change roles and deactivate memberships
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { OrganizationService } from '../services/OrganizationService';
+import { UUID, MembershipRole, RosterMember, MemberActivitySummary } from '../types/database';
+import { queryKeys } from '../config/reactQuery';
+
+/**
+ * Hook for every membership in the organization (officers only)
+ */
+export function useMemberRoster(orgId: UUID) {
+  return useQuery({
+    queryKey: queryKeys.memberRoster.list(orgId),
+    queryFn: async (): Promise<RosterMember[]> => {
+      const result = await OrganizationService.getMemberRoster(orgId);
+      if (result.error) {
+        throw new Error(result.error.message || 'Failed to fetch member roster');
+      }
+      return result.data || [];
+    },
+    enabled: !!orgId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+/**
+ * Hook for a member's hours, attendance and recent activity (officers only)
+ */
+export function useMemberActivitySummary(orgId: UUID, memberId: UUID) {
+  return useQuery({
+    queryKey: queryKeys.memberRoster.activity(orgId, memberId),
+    queryFn: async (): Promise<MemberActivitySummary> => {
+      const result = await OrganizationService.getMemberActivitySummary(orgId, memberId);
+      if (result.error || !result.data) {
+        throw new Error(result.error?.message || 'Failed to fetch member activity');
+      }
+      return result.data;
+    },
+    enabled: !!orgId && !!memberId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+/**
+ * Hook for the organization's member and officer counts
+ */
+export function useOrganizationStats(orgId: UUID) {
+  return useQuery({
+    queryKey: queryKeys.memberRoster.stats(orgId),
+    queryFn: async () => {
+      const stats = await OrganizationService.getOrganizationStats(orgId);
+      if (stats.error) {
+        throw new Error(stats.error);
+      }
+      return stats;
+    },
+    enabled: !!orgId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+/**
+ * Mutation hook for promoting or demoting a member
+ */
+export function useUpdateMemberRole(orgId: UUID) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: UUID; role: MembershipRole }): Promise<boolean> => {
+      const result = await OrganizationService.updateMembershipRole(memberId, orgId, role);
+      if (result.error) {
+        throw new Error(result.error.message || 'Failed to update role');
+      }
+      return true;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.memberRoster.list(orgId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.memberRoster.stats(orgId) });
+    },
+  });
+}
+
+/**
+ * Mutation hook for deactivating a member
+ */
+export function useDeactivateMember(orgId: UUID) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (memberId: UUID): Promise<boolean> => {
+      const result = await OrganizationService.deactivateMembership(memberId, orgId);
+      if (result.error) {
+        throw new Error(result.error.message || 'Failed to deactivate member');
+      }
+      return true;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.memberRoster.list(orgId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.memberRoster.stats(orgId) });
+    },
+  });
+}
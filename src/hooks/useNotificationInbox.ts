@@ -0,0 +1,111 @@
+/**
+ * Notification Inbox React Query Hooks
+ * Provides hooks for the current user's notification inbox, its live updates
+ * and marking entries read. Badge counts are refreshed from the inbox after
+ * every change.
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabaseClient';
+import { notificationInboxService } from '../services/NotificationInboxService';
+import { notificationBadgeManager } from '../services/NotificationBadgeManager';
+import { NotificationInboxItem } from '../types/notifications';
+import { DATABASE_TABLES, UUID } from '../types/database';
+import { queryKeys } from '../config/reactQuery';
+
+/**
+ * Hook for the current user's inbox, kept current over realtime
+ */
+export function useNotificationInbox(userId: UUID | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notification_inbox_${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: DATABASE_TABLES.NOTIFICATION_INBOX,
+          filter: `user_id=eq.${userId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: queryKeys.notificationInbox.list(userId) });
+          notificationBadgeManager.refreshFromInbox();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  return useQuery({
+    queryKey: queryKeys.notificationInbox.list(userId || ''),
+    queryFn: async (): Promise<NotificationInboxItem[]> => {
+      const response = await notificationInboxService.getInbox();
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch notifications');
+      }
+      return response.data || [];
+    },
+    enabled: !!userId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+/**
+ * Mutation hook for marking specific entries read
+ */
+export function useMarkInboxRead(userId: UUID | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids: UUID[]): Promise<number> => {
+      const response = await notificationInboxService.markAsRead(ids);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to mark notifications read');
+      }
+      return response.data || 0;
+    },
+    onSuccess: (_count, ids) => {
+      const readAt = new Date().toISOString();
+      queryClient.setQueryData<NotificationInboxItem[]>(
+        queryKeys.notificationInbox.list(userId || ''),
+        items => items?.map(item => (ids.includes(item.id) && !item.read_at ? { ...item, read_at: readAt } : item))
+      );
+      notificationBadgeManager.refreshFromInbox();
+    },
+  });
+}
+
+/**
+ * Mutation hook for marking every entry read
+ */
+export function useMarkAllInboxRead(userId: UUID | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<number> => {
+      const response = await notificationInboxService.markAllAsRead();
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to mark notifications read');
+      }
+      return response.data || 0;
+    },
+    onSuccess: () => {
+      const readAt = new Date().toISOString();
+      queryClient.setQueryData<NotificationInboxItem[]>(
+        queryKeys.notificationInbox.list(userId || ''),
+        items => items?.map(item => (item.read_at ? item : { ...item, read_at: readAt }))
+      );
+      notificationBadgeManager.refreshFromInbox();
+    },
+  });
+}
@@ -8,6 +8,7 @@ import { useEffect, useRef } from 'react';
 import { NavigationContainerRef } from '@react-navigation/native';
 import { notificationListenerService } from '../services/NotificationListenerService';
 import { notificationNavigationHandler } from '../services/NotificationNavigationHandler';
+import { notificationPriorityManager } from '../services/NotificationPriorityManager';
 import { useAuth } from '../contexts/AuthContext';
 
 // =============================================================================
@@ -46,6 +47,14 @@ export function useNotificationSystem(options: UseNotificationSystemOptions = {}
       // Initialize notification listeners
       await notificationListenerService.initialize();
       
+      // Register the Approve and Reject actions on review pushes; without
+      // them the pushes still arrive, so a failure here isn't fatal
+      try {
+        await notificationPriorityManager.setupReviewCategories();
+      } catch (error) {
+        console.warn('🔔 Failed to register notification categories:', error);
+      }
+
       console.log('🔔 Notification system initialized successfully');
       return true;
     } catch (error) {
@@ -0,0 +1,77 @@
+/**
+ * Verification Code React Query Hooks
+ * Provides hooks for officers to list, create and revoke signup codes
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { verificationCodeService } from '../services/VerificationCodeService';
+import { CreateVerificationCodeRequest, ManagedVerificationCode } from '../types/dataService';
+import { UUID } from '../types/database';
+import { queryKeys } from '../config/reactQuery';
+
+// =============================================================================
+// VERIFICATION CODE QUERY HOOKS
+// =============================================================================
+
+/**
+ * Hook for the organization's codes and their redemptions (officers only)
+ */
+export function useVerificationCodes(orgId: UUID) {
+  return useQuery({
+    queryKey: queryKeys.verificationCodes.list(orgId),
+    queryFn: async (): Promise<ManagedVerificationCode[]> => {
+      const response = await verificationCodeService.getCodes(orgId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch verification codes');
+      }
+      return response.data;
+    },
+    enabled: !!orgId,
+    staleTime: 60 * 1000, // 1 minute - redemptions come in as members sign up
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+// =============================================================================
+// VERIFICATION CODE MUTATION HOOKS
+// =============================================================================
+
+/**
+ * Mutation hook for officers minting a code
+ */
+export function useCreateVerificationCode(orgId: UUID) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: CreateVerificationCodeRequest): Promise<{ code_id: UUID; code: string }> => {
+      const response = await verificationCodeService.createCode(orgId, request);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to create verification code');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.verificationCodes.list(orgId) });
+    },
+  });
+}
+
+/**
+ * Mutation hook for officers revoking a code
+ */
+export function useRevokeVerificationCode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (codeId: UUID): Promise<boolean> => {
+      const response = await verificationCodeService.revokeCode(codeId);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to revoke verification code');
+      }
+      return true;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.verificationCodes.all });
+    },
+  });
+}
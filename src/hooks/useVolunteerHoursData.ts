@@ -7,11 +7,21 @@
 import React from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { volunteerHoursService } from '../services/VolunteerHoursService';
+import {
+  verificationRequestService,
+  ApprovalPolicy,
+  UpdateApprovalPolicyRequest,
+  VerificationAuditEntry,
+  VerificationAuditFilters,
+} from '../services/VerificationRequestService';
 import { 
   VolunteerHourData, 
   CreateVolunteerHourRequest, 
   UpdateVolunteerHourRequest,
   VolunteerHourFilters,
+  BulkReviewResult,
+  RejectionReasonTemplate,
+  SupervisorSignOffRequest,
   ApiResponse 
 } from '../types/dataService';
 import { UUID } from '../types/database';
@@ -391,6 +401,58 @@ export function useUpdateVolunteerHours() {
   });
 }
 
+/**
+ * Mutation hook for resubmitting a revised copy of rejected volunteer hours
+ */
+export function useResubmitVolunteerHours() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      previousVersionId: UUID;
+      hourData: CreateVolunteerHourRequest;
+    }): Promise<VolunteerHourData> => {
+      const response = await volunteerHoursService.resubmitVolunteerHours(params.previousVersionId, params.hourData);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to resubmit volunteer hours');
+      }
+      return response.data;
+    },
+    onSuccess: (newHour) => {
+      // The rejected original is replaced by the revision in the member's list
+      queryClient.invalidateQueries({ queryKey: queryKeys.volunteerHours.list('current') });
+      cacheInvalidation.invalidateVolunteerHoursQueries(queryClient, newHour.member_id, newHour.org_id);
+      cacheInvalidation.invalidateDashboardQueries(queryClient, newHour.member_id, newHour.org_id);
+    },
+    onError: (error) => {
+      console.error('Failed to resubmit volunteer hours:', error);
+    },
+  });
+}
+
+/**
+ * Mutation hook for emailing an external supervisor a sign-off link
+ */
+export function useRequestSupervisorSignOff() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      hourId: UUID;
+      request: SupervisorSignOffRequest;
+    }): Promise<{ expires_at: string }> => {
+      const response = await volunteerHoursService.requestSupervisorSignOff(params.hourId, params.request);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to email the supervisor');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.volunteerHours.list('current') });
+    },
+  });
+}
+
 /**
  * Mutation hook for approving volunteer hours (officer only)
  * Requirements: 3.2, 5.4
@@ -433,6 +495,19 @@ export function useApproveVolunteerHours() {
       }
     },
     onSuccess: (approvedHour) => {
+      // A first approval keeps the entry pending until a second officer verifies it
+      if (approvedHour.status === 'officer_approved') {
+        queryClient.setQueryData(
+          queryKeys.volunteerHours.pending(approvedHour.org_id),
+          (oldData: VolunteerHourData[] | undefined) => {
+            if (!oldData) return oldData;
+            return oldData.map(hour => hour.id === approvedHour.id ? approvedHour : hour);
+          }
+        );
+        cacheInvalidation.invalidateVolunteerHoursQueries(queryClient, approvedHour.member_id, approvedHour.org_id);
+        return;
+      }
+
       // Remove from pending approvals cache
       queryClient.setQueryData(
         queryKeys.volunteerHours.pending(approvedHour.org_id),
@@ -641,118 +716,218 @@ export function useDeleteVolunteerHours() {
 }
 
 /**
- * Mutation hook for bulk approval of volunteer hours (officer only)
+ * Removes reviewed entries from every cached pending list and returns a snapshot for rollback
+ */
+async function removeFromPendingCaches(queryClient: ReturnType<typeof useQueryClient>, hourIds: UUID[]) {
+  const pendingKey = [...queryKeys.volunteerHours.all, 'pending'];
+  await queryClient.cancelQueries({ queryKey: pendingKey });
+
+  const previousPending = queryClient.getQueriesData<VolunteerHourData[]>({ queryKey: pendingKey });
+  const reviewedIds = new Set(hourIds);
+
+  queryClient.setQueriesData<VolunteerHourData[]>(
+    { queryKey: pendingKey },
+    (oldData) => oldData?.filter(hour => !reviewedIds.has(hour.id))
+  );
+
+  return { previousPending };
+}
+
+/**
+ * Mutation hook for bulk approval of volunteer hours (officer only).
+ * The whole selection is approved in one transaction or not at all.
  * Requirements: 3.2, 5.4
  */
 export function useBulkApproveVolunteerHours() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (hourIds: UUID[]): Promise<VolunteerHourData[]> => {
-      const approvalPromises = hourIds.map(hourId => 
-        volunteerHoursService.approveVolunteerHours(hourId)
-      );
-      
-      const responses = await Promise.allSettled(approvalPromises);
-      const approvedHours: VolunteerHourData[] = [];
-      const errors: string[] = [];
-
-      responses.forEach((response, index) => {
-        if (response.status === 'fulfilled' && response.value.success && response.value.data) {
-          approvedHours.push(response.value.data);
-        } else {
-          const error = response.status === 'rejected' 
-            ? response.reason.message 
-            : response.value.error;
-          errors.push(`Failed to approve hour ${hourIds[index]}: ${error}`);
-        }
+    mutationFn: async (hourIds: UUID[]): Promise<BulkReviewResult> => {
+      const response = await volunteerHoursService.bulkApproveVolunteerHours(hourIds);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to approve volunteer hours');
+      }
+      return response.data;
+    },
+    onMutate: (hourIds) => removeFromPendingCaches(queryClient, hourIds),
+    onError: (error, hourIds, context) => {
+      // Nothing was approved, so restore every pending list
+      context?.previousPending.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
       });
+      console.error('Failed to bulk approve volunteer hours:', error);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.volunteerHours.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all });
+    },
+  });
+}
 
-      if (errors.length > 0 && approvedHours.length === 0) {
-        throw new Error(`Bulk approval failed: ${errors.join(', ')}`);
+/**
+ * Mutation hook for bulk rejection of volunteer hours with one shared reason (officer only)
+ */
+export function useBulkRejectVolunteerHours() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { hourIds: UUID[]; reason: string }): Promise<BulkReviewResult> => {
+      const response = await volunteerHoursService.bulkRejectVolunteerHours(params.hourIds, params.reason);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to reject volunteer hours');
       }
+      return response.data;
+    },
+    onMutate: ({ hourIds }) => removeFromPendingCaches(queryClient, hourIds),
+    onError: (error, params, context) => {
+      context?.previousPending.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      console.error('Failed to bulk reject volunteer hours:', error);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.volunteerHours.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all });
+    },
+  });
+}
 
-      return approvedHours;
+/**
+ * Hook for the organization's saved rejection reasons (officer only)
+ */
+export function useRejectionReasonTemplates(orgId?: UUID) {
+  return useQuery({
+    queryKey: queryKeys.volunteerHours.rejectionTemplates(orgId || 'current'),
+    queryFn: async (): Promise<RejectionReasonTemplate[]> => {
+      const response = await volunteerHoursService.getRejectionReasonTemplates(orgId!);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch rejection reason templates');
+      }
+      return response.data;
     },
-    onSuccess: (approvedHours) => {
-      // Remove approved hours from pending approvals cache
-      queryClient.setQueryData(
-        queryKeys.volunteerHours.pending('current'),
-        (oldData: VolunteerHourData[] | undefined) => {
-          if (!oldData) return oldData;
-          const approvedIds = new Set(approvedHours.map(hour => hour.id));
-          return oldData.filter(hour => !approvedIds.has(hour.id));
-        }
-      );
+    enabled: !!orgId,
+    staleTime: 30 * 60 * 1000, // 30 minutes - templates rarely change
+    gcTime: 60 * 60 * 1000, // 1 hour
+  });
+}
 
-      // Add to verified approvals cache for each organization
-      const orgGroups = new Map<string, VolunteerHourData[]>();
-      approvedHours.forEach(hour => {
-        const orgHours = orgGroups.get(hour.org_id) || [];
-        orgHours.push(hour);
-        orgGroups.set(hour.org_id, orgHours);
-      });
+/**
+ * Mutation hook for saving a rejection reason template (officer only)
+ */
+export function useCreateRejectionReasonTemplate(orgId: UUID) {
+  const queryClient = useQueryClient();
 
-      orgGroups.forEach((hours, orgId) => {
-        queryClient.setQueryData(
-          [...queryKeys.volunteerHours.all, 'verified', orgId],
-          (oldData: VolunteerHourData[] | undefined) => {
-            if (!oldData) return hours;
-            const combined = [...hours, ...oldData];
-            return combined.sort((a, b) => 
-              new Date(b.verified_at || b.approved_at || b.submitted_at).getTime() - 
-              new Date(a.verified_at || a.approved_at || a.submitted_at).getTime()
-            );
-          }
-        );
+  return useMutation({
+    mutationFn: async (params: { label: string; reason: string }): Promise<RejectionReasonTemplate> => {
+      const response = await volunteerHoursService.createRejectionReasonTemplate(orgId, params.label, params.reason);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to save rejection reason template');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.volunteerHours.rejectionTemplates(orgId) });
+    },
+  });
+}
 
-        // Update status-based cache
-        queryClient.setQueryData(
-          [...queryKeys.volunteerHours.all, 'status', 'verified', orgId, 'current'],
-          (oldData: VolunteerHourData[] | undefined) => {
-            if (!oldData) return hours;
-            const combined = [...hours, ...oldData];
-            return combined.sort((a, b) => 
-              new Date(b.verified_at || b.approved_at || b.submitted_at).getTime() - 
-              new Date(a.verified_at || a.approved_at || a.submitted_at).getTime()
-            );
-          }
-        );
-      });
+/**
+ * Mutation hook for removing a rejection reason template (officer only)
+ */
+export function useDeleteRejectionReasonTemplate(orgId: UUID) {
+  const queryClient = useQueryClient();
 
-      // Update individual member caches
-      approvedHours.forEach(approvedHour => {
-        queryClient.setQueryData(
-          queryKeys.volunteerHours.list(approvedHour.member_id),
-          (oldData: VolunteerHourData[] | undefined) => {
-            if (!oldData) return oldData;
-            return oldData.map(hour => 
-              hour.id === approvedHour.id ? approvedHour : hour
-            );
-          }
-        );
-      });
+  return useMutation({
+    mutationFn: async (templateId: UUID): Promise<boolean> => {
+      const response = await volunteerHoursService.deleteRejectionReasonTemplate(templateId);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to remove rejection reason template');
+      }
+      return true;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.volunteerHours.rejectionTemplates(orgId) });
+    },
+  });
+}
 
-      // Invalidate related queries
-      const orgIds = new Set(approvedHours.map(hour => hour.org_id));
-      const memberIds = new Set(approvedHours.map(hour => hour.member_id));
+/**
+ * Hook for the organization's two-step approval policy
+ */
+export function useApprovalPolicy(orgId?: UUID) {
+  return useQuery({
+    queryKey: queryKeys.volunteerHours.approvalPolicy(orgId || 'current'),
+    queryFn: async (): Promise<ApprovalPolicy> => {
+      const response = await verificationRequestService.getApprovalPolicy(orgId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch approval policy');
+      }
+      return response.data;
+    },
+    enabled: !!orgId,
+    staleTime: 30 * 60 * 1000, // 30 minutes - policies rarely change
+    gcTime: 60 * 60 * 1000, // 1 hour
+  });
+}
 
-      orgIds.forEach(orgId => {
-        cacheInvalidation.invalidateVolunteerHoursQueries(queryClient, undefined, orgId);
-        cacheInvalidation.invalidateDashboardQueries(queryClient, undefined, orgId);
-      });
+/**
+ * Mutation hook for saving the organization's approval policy (officer only)
+ */
+export function useUpdateApprovalPolicy(orgId: UUID) {
+  const queryClient = useQueryClient();
 
-      memberIds.forEach(memberId => {
-        cacheInvalidation.invalidateVolunteerHoursQueries(queryClient, memberId);
-        cacheInvalidation.invalidateDashboardQueries(queryClient, memberId);
-      });
+  return useMutation({
+    mutationFn: async (policy: UpdateApprovalPolicyRequest): Promise<ApprovalPolicy> => {
+      const response = await verificationRequestService.updateApprovalPolicy(policy, orgId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to save approval policy');
+      }
+      return response.data;
     },
-    onError: (error) => {
-      console.error('Failed to bulk approve volunteer hours:', error);
+    onSuccess: (policy) => {
+      queryClient.setQueryData(queryKeys.volunteerHours.approvalPolicy(orgId), policy);
     },
   });
 }
 
+/**
+ * Hook for the change history of one volunteer hours entry
+ */
+export function useVolunteerHourAuditTrail(hourId: UUID, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.volunteerHours.auditTrail(hourId),
+    queryFn: async (): Promise<VerificationAuditEntry[]> => {
+      const response = await verificationRequestService.getAuditTrail(hourId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch volunteer hours history');
+      }
+      return response.data;
+    },
+    enabled: !!hourId && enabled,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * Hook for the organization's volunteer hours audit log (officer only)
+ */
+export function useVolunteerHoursAuditLog(orgId: UUID, filters: VerificationAuditFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.volunteerHours.auditLog(orgId, filters),
+    queryFn: async (): Promise<VerificationAuditEntry[]> => {
+      const response = await verificationRequestService.getAuditLog(orgId, filters);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch audit log');
+      }
+      return response.data;
+    },
+    enabled: !!orgId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
 /**
  * Mutation hook for updating verification request status
  * Requirements: 5.4
@@ -789,6 +964,12 @@ export function useUpdateVerificationStatus() {
       const orgId = updatedRequest.org_id;
       const memberId = updatedRequest.member_id;
 
+      // A first approval leaves the entry awaiting a second officer
+      if (updatedRequest.status === 'officer_approved') {
+        cacheInvalidation.invalidateVolunteerHoursQueries(queryClient, memberId, orgId);
+        return;
+      }
+
       // Remove from pending if it was pending
       queryClient.setQueryData(
         queryKeys.volunteerHours.pending(orgId),
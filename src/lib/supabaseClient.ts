@@ -50,4 +50,4 @@ try {
   throw error;
 }
 
-export { supabase };
\ No newline at end of file
+export { supabase, supabaseUrl };
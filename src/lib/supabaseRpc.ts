@@ -0,0 +1,48 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import type { DatabaseTable } from '../types/database';
+
+/**
+ * Typed access to Postgres functions and table writes.
+ *
+ * The client is created without generated schema types, so supabase.rpc()
+ * rejects any arguments and types every result as `never`, and .update()
+ * and .upsert() accept no payload. These helpers go through the untyped
+ * client and let the caller state the argument, payload and result types
+ * instead.
+ */
+
+export type RpcArgs = Record<string, unknown>;
+
+export interface RpcResponse<T> {
+  data: T | null;
+  error: PostgrestError | null;
+}
+
+const untypedClient = (): SupabaseClient<any, 'public', any> =>
+  supabase as unknown as SupabaseClient<any, 'public', any>;
+
+/**
+ * Calls a Postgres function, e.g. `callRpc<RosterRow[]>('get_event_roster', { p_event_id })`
+ */
+export function callRpc<T>(functionName: string, args?: RpcArgs): PromiseLike<RpcResponse<T>> {
+  return untypedClient().rpc(functionName, args);
+}
+
+/**
+ * Starts an update on a table; chain filters as with supabase.from().update()
+ */
+export function updateTable<T extends object>(table: DatabaseTable, values: T) {
+  return untypedClient().from(table).update(values);
+}
+
+/**
+ * Starts an upsert on a table; chain .select() as with supabase.from().upsert()
+ */
+export function upsertTable<T extends object>(
+  table: DatabaseTable,
+  values: T,
+  options?: { onConflict?: string; ignoreDuplicates?: boolean }
+) {
+  return untypedClient().from(table).upsert(values, options);
+}
@@ -2,6 +2,7 @@ import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { MemberStackParamList } from '../types/navigation';
 import MemberBottomNavigator from './MemberBottomNavigator';
+import NotificationInboxScreen from '../screens/shared/NotificationInboxScreen';
 
 const Stack = createNativeStackNavigator<MemberStackParamList>();
 
@@ -16,6 +17,14 @@ export default function MemberStack() {
         name="MemberTabs" 
         component={MemberBottomNavigator} 
       />
+      <Stack.Screen 
+        name="NotificationInbox" 
+        component={NotificationInboxScreen}
+        options={{
+          headerShown: false,
+          animation: 'slide_from_right',
+        }}
+      />
     </Stack.Navigator>
   );
 }
\ No newline at end of file
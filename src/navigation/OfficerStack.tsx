@@ -4,6 +4,15 @@ import { OfficerStackParamList } from '../types/navigation';
 import OfficerBottomNavigator from './OfficerBottomNavigator';
 import AttendanceSessionScreen from '../screens/officer/AttendanceSessionScreen';
 import CreateEventScreen from '../screens/officer/CreateEventScreen';
+import GraduationRequirementsScreen from '../screens/officer/GraduationRequirementsScreen';
+import ApprovalPolicyScreen from '../screens/officer/ApprovalPolicyScreen';
+import VolunteerHoursAuditLogScreen from '../screens/officer/VolunteerHoursAuditLogScreen';
+import VerificationCodesScreen from '../screens/officer/VerificationCodesScreen';
+import LockedAccountsScreen from '../screens/officer/LockedAccountsScreen';
+import MemberRosterScreen from '../screens/officer/MemberRosterScreen';
+import MemberProfileScreen from '../screens/officer/MemberProfileScreen';
+import NotificationInboxScreen from '../screens/shared/NotificationInboxScreen';
+import CustomNotificationScreen from '../screens/officer/CustomNotificationScreen';
 
 const Stack = createNativeStackNavigator<OfficerStackParamList>();
 
@@ -34,6 +43,78 @@ export default function OfficerStack() {
           animation: 'slide_from_right',
         }}
       />
+      <Stack.Screen 
+        name="GraduationRequirements" 
+        component={GraduationRequirementsScreen}
+        options={{
+          headerShown: false,
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen 
+        name="ApprovalPolicy" 
+        component={ApprovalPolicyScreen}
+        options={{
+          headerShown: false,
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen 
+        name="VolunteerHoursAuditLog" 
+        component={VolunteerHoursAuditLogScreen}
+        options={{
+          headerShown: false,
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen 
+        name="VerificationCodes" 
+        component={VerificationCodesScreen}
+        options={{
+          headerShown: false,
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen 
+        name="LockedAccounts" 
+        component={LockedAccountsScreen}
+        options={{
+          headerShown: false,
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen 
+        name="MemberRoster" 
+        component={MemberRosterScreen}
+        options={{
+          headerShown: false,
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen 
+        name="MemberProfile" 
+        component={MemberProfileScreen}
+        options={{
+          headerShown: false,
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen 
+        name="NotificationInbox" 
+        component={NotificationInboxScreen}
+        options={{
+          headerShown: false,
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen 
+        name="CustomNotification" 
+        component={CustomNotificationScreen}
+        options={{
+          headerShown: false,
+          animation: 'slide_from_right',
+        }}
+      />
     </Stack.Navigator>
   );
 }
\ No newline at end of file
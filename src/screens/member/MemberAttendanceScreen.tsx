@@ -51,6 +51,8 @@ const MemberAttendanceScreen = ({ navigation }: any) => {
     startListening,
     requestPermissions,
     refreshBluetoothState,
+    getAttendanceEvidence,
+    trackCheckIn,
   } = useBLE() as any;
 
   // Local state for scanning
@@ -162,10 +164,17 @@ const MemberAttendanceScreen = ({ navigation }: any) => {
     setManualCheckInLoading(session.sessionToken);
     
     try {
-      const result = await BLESessionService.addAttendance(session.sessionToken);
+      const result = await BLESessionService.addAttendance(
+        session.sessionToken,
+        session.beaconMinor,
+        getAttendanceEvidence(session.sessionToken)
+      );
       
       if (result.success) {
         showSuccess('Checked In', `Successfully checked in to ${session.title}`);
+        if (result.checkoutEnabled) {
+          trackCheckIn(session);
+        }
         await refetchAttendance();
       } else {
         // Handle specific error cases
@@ -173,6 +182,8 @@ const MemberAttendanceScreen = ({ navigation }: any) => {
           showWarning('Already Checked In', `You're already checked in to ${session.title}`);
         } else if (result.error === 'session_expired') {
           showWarning('Session Expired', 'This session has expired, but your check-in may still be recorded.');
+        } else if (result.error === 'insufficient_dwell' || result.error === 'weak_signal') {
+          showWarning('Too Far From Session', result.message || 'Stay near the session beacon and try again.');
         } else {
           showError('Check-in Failed', result.message || 'Unable to check in. Please try again.');
         }
@@ -54,12 +54,17 @@ const MemberBLEAttendanceScreen = ({ navigation }: any) => {
     requestPermissions,
     getBluetoothStatus,
     refreshBluetoothState,
-    removeDetectedSession
+    removeDetectedSession,
+    getAttendanceEvidence,
+    activeCheckIns,
+    trackCheckIn,
+    checkOutOfSession
   } = useBLE() as any;
 
   // Local state
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [manualCheckInLoading, setManualCheckInLoading] = useState<string | null>(null);
+  const [checkOutLoading, setCheckOutLoading] = useState<string | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [scanTimeout, setScanTimeout] = useState<NodeJS.Timeout | null>(null);
   const [scanStartTime, setScanStartTime] = useState<Date | null>(null);
@@ -99,6 +104,7 @@ const MemberBLEAttendanceScreen = ({ navigation }: any) => {
         hour12: true 
       }),
       method: record.method || 'manual',
+      durationMinutes: typeof record.duration_seconds === 'number' ? Math.round(record.duration_seconds / 60) : null,
       verified: false,
       present: record.status === 'present' || record.status === 'attended',
       createdBy: record.recorded_by,
@@ -208,7 +214,11 @@ const MemberBLEAttendanceScreen = ({ navigation }: any) => {
         length: session.sessionToken?.length,
       });
       
-      const result = await BLESessionService.addAttendance(session.sessionToken);
+      const result = await BLESessionService.addAttendance(
+        session.sessionToken,
+        session.beaconMinor,
+        getAttendanceEvidence(session.sessionToken)
+      );
       
       console.log('[handleManualCheckIn] 📥 Received result:', result);
       
@@ -216,6 +226,9 @@ const MemberBLEAttendanceScreen = ({ navigation }: any) => {
         showSuccess('Checked In', `Successfully checked in to ${session.title}`);
         // Mark this session as checked in
         setCheckedInSessions(prev => new Set(prev).add(session.sessionToken));
+        if (result.checkoutEnabled) {
+          trackCheckIn(session);
+        }
         await refetchAttendance();
       } else {
         // Handle specific error cases - session already removed optimistically
@@ -223,6 +236,8 @@ const MemberBLEAttendanceScreen = ({ navigation }: any) => {
           showWarning('Already Checked In', `You're already checked in to ${session.title}`);
         } else if (result.error === 'session_expired') {
           showError('Session Expired', 'This session has expired');
+        } else if (result.error === 'insufficient_dwell' || result.error === 'weak_signal') {
+          showWarning('Too Far From Session', result.message || 'Stay near the session beacon and try again.');
         } else if (result.error === 'invalid_token_security') {
           console.error('[handleManualCheckIn] ❌ Token security validation failed:', {
             token: session.sessionToken,
@@ -242,6 +257,29 @@ const MemberBLEAttendanceScreen = ({ navigation }: any) => {
     }
   };
 
+  const handleCheckOut = async (session: AttendanceSession) => {
+    setCheckOutLoading(session.sessionToken);
+
+    try {
+      const result = await checkOutOfSession(session.sessionToken);
+
+      if (result.success) {
+        const minutes = Math.round((result.durationSeconds ?? 0) / 60);
+        showSuccess('Checked Out', `You attended ${session.title} for ${minutes} min`);
+        await refetchAttendance();
+      } else if (result.error === 'already_checked_out') {
+        showWarning('Already Checked Out', `You've already checked out of ${session.title}`);
+      } else {
+        showError('Check-out Failed', result.message || 'Unable to check out. Please try again.');
+      }
+    } catch (error: any) {
+      console.error('[handleCheckOut] ❌ Check-out error:', error);
+      showError('Check-out Error', 'Failed to check out. Please try again.');
+    } finally {
+      setCheckOutLoading(null);
+    }
+  };
+
   // Refresh handler
   const onRefresh = async () => {
     setIsRefreshing(true);
@@ -799,6 +837,44 @@ const MemberBLEAttendanceScreen = ({ navigation }: any) => {
             )}
           </View>
 
+          {/* Checked In Sessions Section */}
+          {activeCheckIns.length > 0 && (
+            <View style={styles.sectionContainer}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Checked In</Text>
+              </View>
+
+              {activeCheckIns.map((session: AttendanceSession) => (
+                <View key={session.sessionToken} style={styles.sessionCard}>
+                  <View style={styles.sessionInfo}>
+                    <Text style={styles.sessionTitle}>{session.title}</Text>
+                    <Text style={styles.sessionTime}>
+                      Check out when you leave, or you'll be checked out automatically once the session is out of range.
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={[
+                      styles.checkOutButton,
+                      checkOutLoading === session.sessionToken && styles.manualCheckInButtonDisabled
+                    ]}
+                    onPress={() => handleCheckOut(session)}
+                    disabled={checkOutLoading === session.sessionToken}
+                  >
+                    <Icon
+                      name="logout"
+                      size={moderateScale(18)}
+                      color={Colors.white}
+                      style={{ marginRight: scale(8) }}
+                    />
+                    <Text style={styles.manualCheckInButtonText}>
+                      {checkOutLoading === session.sessionToken ? 'Checking Out...' : 'Check Out'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
+
           {/* Detected Sessions Section */}
           <View style={styles.sectionContainer}>
             <View style={styles.sectionHeader}>
@@ -922,6 +998,7 @@ const MemberBLEAttendanceScreen = ({ navigation }: any) => {
                   
                   <Text style={styles.attendanceTime}>
                     {attendance.date} • {attendance.time}
+                    {attendance.durationMinutes !== null ? ` • ${attendance.durationMinutes} min` : ''}
                   </Text>
                   
                   {attendance.createdByName && (
@@ -1147,6 +1224,15 @@ const styles = StyleSheet.create({
   manualCheckInButtonDisabled: {
     opacity: 0.6,
   },
+  checkOutButton: {
+    flexDirection: 'row',
+    backgroundColor: Colors.warningOrange,
+    borderRadius: moderateScale(8),
+    paddingVertical: verticalScale(12),
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: verticalScale(8),
+  },
   alreadyCheckedInButton: {
     flexDirection: 'row',
     backgroundColor: Colors.lightGreen,
@@ -12,9 +12,11 @@ import { useAuth } from '../../contexts/AuthContext';
 import LoadingScreen from '../../components/ui/LoadingScreen';
 import AnnouncementCard from '../../components/ui/AnnouncementCard';
 import EventCard from '../../components/ui/EventCard';
+import RequirementProgressList from '../../components/ui/RequirementProgressList';
 import { supabase } from '../../lib/supabaseClient';
 import { announcementService } from '../../services/AnnouncementService';
 import { useEventData } from '../../hooks/useEventData';
+import { useRequirementProgress } from '../../hooks/useGraduationRequirements';
 import { Event } from '../../services/EventService';
 
 
@@ -70,6 +72,14 @@ const MemberDashboardScreen = ({ navigation }: any) => {
     loading: eventsLoading,
   } = useEventData(eventDataOptions);
 
+  const {
+    data: requirementProgress = [],
+    refetch: refetchRequirementProgress,
+  } = useRequirementProgress(activeOrganization?.id || '');
+
+  // The welcome card tracks the organization's verified-hours goal when one is set
+  const hoursRequirement = requirementProgress.find(item => item.requirement_type === 'verified_hours');
+
   // Simple state for user data
   const [userData, setUserData] = useState({
     firstName: profile?.first_name || 'Member',
@@ -159,6 +169,8 @@ const MemberDashboardScreen = ({ navigation }: any) => {
 
     if (currentOrgId && currentUserId) {
       try {
+        refetchRequirementProgress();
+
         const { data: hoursData } = await supabase
           .from('volunteer_hours')
           .select('hours, approved')
@@ -270,13 +282,23 @@ const MemberDashboardScreen = ({ navigation }: any) => {
 
             {/* Progress Bar - Using the reusable component */}
             <ProgressBar
-              currentHours={userData.currentHours}
-              totalHours={userData.requiredHours}
+              currentHours={hoursRequirement ? hoursRequirement.current_value : userData.currentHours}
+              totalHours={hoursRequirement ? hoursRequirement.target_value : userData.requiredHours}
               containerStyle={styles.progressBarContainer}
             />
 
           </View>
 
+          {/* Graduation Requirements Section */}
+          {requirementProgress.length > 0 && (
+            <View style={styles.sectionContainer}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Graduation Requirements</Text>
+              </View>
+              <RequirementProgressList progress={requirementProgress} />
+            </View>
+          )}
+
     
 
           {/* Upcoming Event Section */}
@@ -6,19 +6,28 @@ import {
   TouchableOpacity, 
   StyleSheet, 
   ScrollView,
-  RefreshControl
+  RefreshControl,
+  Alert,
+  Linking,
+  Platform,
+  Share
 } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import EventCard from '../../components/ui/EventCard';
+import EventRSVPControls from '../../components/ui/EventRSVPControls';
 import ProfileButton from '../../components/ui/ProfileButton';
 import { useOrganization } from '../../contexts/OrganizationContext';
 import { useAuth } from '../../contexts/AuthContext';
 import LoadingScreen from '../../components/ui/LoadingScreen';
 import { useEventData } from '../../hooks/useEventData';
-import { Event } from '../../services/EventService';
+import { useEventRSVPSummaries } from '../../hooks/useEventRSVPData';
+import { Event, eventService } from '../../services/EventService';
+import { useToast } from '../../components/ui/ToastProvider';
+import { buildICalendar, getICSFileName } from '../../utils/icsUtils';
 
 const Colors = {
   LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
@@ -50,6 +59,7 @@ const MemberEventsScreen = ({ navigation }: any) => {
   const { activeOrganization, activeMembership, isLoading: orgLoading } = useOrganization();
   const { user } = useAuth();
   const insets = useSafeAreaInsets();
+  const { showSuccess, showError } = useToast();
 
   const [activeFilter, setActiveFilter] = useState<'Upcoming' | 'This Week' | 'This Month'>('Upcoming');
 
@@ -69,6 +79,7 @@ const MemberEventsScreen = ({ navigation }: any) => {
 
   // Use events directly from the hook - no transformation needed for EventCard
   const events = eventsData || [];
+  const { data: rsvpSummaries = {} } = useEventRSVPSummaries(events.map(event => event.id));
   
   // Debug logging to help troubleshoot refresh issues
   console.log('MemberEventsScreen - Events data:', {
@@ -95,6 +106,61 @@ const MemberEventsScreen = ({ navigation }: any) => {
     }
   };
 
+  const handleAddToCalendar = async (event: Event) => {
+    try {
+      const calendar = buildICalendar([event]);
+      const fileUri = `${FileSystem.cacheDirectory}${getICSFileName(event.title)}`;
+      await FileSystem.writeAsStringAsync(fileUri, calendar);
+
+      // iOS offers "Add to Calendar" for shared .ics files; Android shares the text
+      await Share.share(
+        Platform.OS === 'ios'
+          ? { url: fileUri, title: event.title }
+          : { message: calendar, title: event.title }
+      );
+    } catch (error) {
+      console.error('Error exporting event to calendar:', error);
+      showError('Error', 'Failed to export event to your calendar');
+    }
+  };
+
+  const subscribeToCalendarFeed = async () => {
+    const result = await eventService.getCalendarFeedUrl();
+    if (!result.success || !result.data) {
+      showError('Error', result.error || 'Failed to create calendar feed');
+      return;
+    }
+
+    const webcalUrl = result.data.replace(/^https?:\/\//, 'webcal://');
+    try {
+      await Linking.openURL(webcalUrl);
+    } catch {
+      // No calendar app handles webcal links; let the member paste the link instead
+      await Share.share({ message: result.data, title: `${activeOrganization?.name} Events` });
+    }
+  };
+
+  const resetCalendarFeed = async () => {
+    const result = await eventService.revokeCalendarFeed();
+    if (result.success) {
+      showSuccess('Calendar Link Reset', 'Calendars subscribed with the old link will stop updating');
+    } else {
+      showError('Error', result.error || 'Failed to reset calendar link');
+    }
+  };
+
+  const handleCalendarFeed = () => {
+    Alert.alert(
+      'Subscribe to Calendar',
+      `Add ${activeOrganization?.name} events to your calendar app. New and changed events sync automatically. Keep the link private.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset Link', style: 'destructive', onPress: resetCalendarFeed },
+        { text: 'Subscribe', onPress: subscribeToCalendarFeed },
+      ]
+    );
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', { 
@@ -216,10 +282,15 @@ const MemberEventsScreen = ({ navigation }: any) => {
               <Text style={styles.headerTitle}>Events</Text>
               <Text style={styles.headerSubtitle}>{activeOrganization.name} • Volunteer Opportunities</Text>
             </View>
-            <ProfileButton 
-              color={Colors.solidBlue}
-              size={moderateScale(28)}
-            />
+            <View style={styles.headerActions}>
+              <TouchableOpacity style={styles.calendarButton} onPress={handleCalendarFeed}>
+                <Icon name="event-available" size={moderateScale(24)} color={Colors.solidBlue} />
+              </TouchableOpacity>
+              <ProfileButton 
+                color={Colors.solidBlue}
+                size={moderateScale(28)}
+              />
+            </View>
           </View>
 
           {/* Filter Tabs */}
@@ -262,7 +333,21 @@ const MemberEventsScreen = ({ navigation }: any) => {
                       key={event.id}
                       event={event}
                       showDeleteButton={false} // Members cannot delete events
-                    />
+                    >
+                      <EventRSVPControls
+                        eventId={event.id}
+                        capacity={event.capacity}
+                        summary={rsvpSummaries[event.id]}
+                        closed={!!event.starts_at && new Date(event.starts_at) <= new Date()}
+                      />
+                      <TouchableOpacity
+                        style={styles.addToCalendarButton}
+                        onPress={() => handleAddToCalendar(event)}
+                      >
+                        <Icon name="calendar-today" size={moderateScale(16)} color={Colors.solidBlue} />
+                        <Text style={styles.addToCalendarText}>Add to Calendar</Text>
+                      </TouchableOpacity>
+                    </EventCard>
                   ))}
                 </View>
               ))
@@ -351,6 +436,27 @@ const styles = StyleSheet.create({
     color: Colors.textMedium,
     marginTop: verticalScale(4),
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  calendarButton: {
+    padding: scale(4),
+    marginRight: scale(8),
+  },
+  addToCalendarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: verticalScale(6),
+    marginBottom: verticalScale(4),
+  },
+  addToCalendarText: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+    marginLeft: scale(6),
+  },
   filterContainer: {
     flexDirection: 'row',
     backgroundColor: Colors.inputBackground,
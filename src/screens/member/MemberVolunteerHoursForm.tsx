@@ -9,7 +9,7 @@ import { useToast } from '../../components/ui/ToastProvider';
 import { useOrganization } from '../../contexts/OrganizationContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { useOrganizationEvents } from '../../hooks/useEventData';
-import { useVolunteerHourSubmission, useVolunteerHoursRealTime, useUpdateVolunteerHours } from '../../hooks/useVolunteerHoursData';
+import { useVolunteerHourSubmission, useVolunteerHoursRealTime, useUpdateVolunteerHours, useResubmitVolunteerHours, useRequestSupervisorSignOff } from '../../hooks/useVolunteerHoursData';
 import { useCurrentOrganizationId } from '../../hooks/useUserData';
 import { CreateVolunteerHourRequest, VolunteerHourData } from '../../types/dataService';
 import SearchableDropdown, { DropdownOption } from '../../components/ui/SearchableDropdown';
@@ -42,6 +42,8 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
   // Get editing data from navigation params
   const editingHour: VolunteerHourData | undefined = route?.params?.editingHour;
   const isEditing = !!editingHour;
+  // Rejected hours are revised into a new submission; the rejected original is kept
+  const isResubmitting = editingHour?.status === 'rejected';
 
   // BLAZING FAST form initialization with memoized parsing ⚡
   const initialState = useMemo(() => {
@@ -53,7 +55,9 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
         date: null,
         hours: '',
         additionalNotes: '',
-        selectedImage: null
+        selectedImage: null,
+        supervisorName: '',
+        supervisorEmail: ''
       };
     }
 
@@ -71,9 +75,11 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
       date: editingHour.activity_date ? new Date(editingHour.activity_date) : null,
       hours: editingHour.hours.toString(),
       additionalNotes: notes,
-      selectedImage: editingHour.attachment_file_id ? 'existing' : null
+      selectedImage: (editingHour.attachment_file_id || (isResubmitting && editingHour.image_url)) ? 'existing' : null,
+      supervisorName: editingHour.supervisor_name || '',
+      supervisorEmail: editingHour.supervisor_email || ''
     };
-  }, [editingHour]);
+  }, [editingHour, isResubmitting]);
 
   // Form state
   const [eventType, setEventType] = useState<'internal' | 'external'>(initialState.eventType);
@@ -84,6 +90,8 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
   const [hours, setHours] = useState(initialState.hours);
   const [additionalNotes, setAdditionalNotes] = useState(initialState.additionalNotes);
   const [selectedImage, setSelectedImage] = useState<string | null>(initialState.selectedImage);
+  const [supervisorName, setSupervisorName] = useState(initialState.supervisorName);
+  const [supervisorEmail, setSupervisorEmail] = useState(initialState.supervisorEmail);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [imageUploading, setImageUploading] = useState(false);
   const [imageUploadError, setImageUploadError] = useState<string | null>(null);
@@ -104,6 +112,11 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
 
   const submitVolunteerHoursMutation = useVolunteerHourSubmission();
   const updateVolunteerHoursMutation = useUpdateVolunteerHours();
+  const resubmitVolunteerHoursMutation = useResubmitVolunteerHours();
+  const requestSupervisorSignOffMutation = useRequestSupervisorSignOff();
+  const isMutationPending = submitVolunteerHoursMutation.isPending
+    || updateVolunteerHoursMutation.isPending
+    || resubmitVolunteerHoursMutation.isPending;
 
   // Transform events data for dropdown
   const clubEvents: DropdownOption[] = useMemo(() => {
@@ -123,6 +136,16 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
       newErrors.customEvent = 'External activity name is required';
     }
 
+    // Supervisor sign-off is optional, but needs both a name and an email
+    if (eventType === 'external' && (supervisorName.trim() || supervisorEmail.trim())) {
+      if (!supervisorName.trim()) {
+        newErrors.supervisorName = 'Supervisor name is required when an email is given';
+      }
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(supervisorEmail.trim())) {
+        newErrors.supervisorEmail = 'Please enter a valid supervisor email';
+      }
+    }
+
     // Date validation
     if (!date) {
       newErrors.date = 'Date of volunteering is required';
@@ -145,8 +168,9 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
       newErrors.notes = 'Additional notes must be 150 words or less';
     }
 
-    // Image validation (required)
-    if (!selectedImage || selectedImage === 'existing') {
+    // Image validation (required); a resubmission may keep the rejected entry's image
+    const canKeepExistingImage = isResubmitting && !!editingHour?.image_url;
+    if (!selectedImage || (selectedImage === 'existing' && !canKeepExistingImage)) {
       newErrors.image = 'Proof of volunteering image is required';
     }
 
@@ -222,7 +246,16 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
         image_url: imagePath, // Store the public URL for proof images
       };
 
-      if (isEditing && editingHour) {
+      let savedHour: VolunteerHourData;
+
+      if (isResubmitting && editingHour) {
+        savedHour = await resubmitVolunteerHoursMutation.mutateAsync({
+          previousVersionId: editingHour.id,
+          hourData: submissionData
+        });
+
+        showSuccess('Resubmitted', 'Your revised hours were sent for review.');
+      } else if (isEditing && editingHour) {
         // ⚡ INSTANT UPDATE - optimized payload
         const updateData = {
           ...submissionData,
@@ -232,7 +265,7 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
           verified_at: null,
         };
 
-        await updateVolunteerHoursMutation.mutateAsync({
+        savedHour = await updateVolunteerHoursMutation.mutateAsync({
           hourId: editingHour.id,
           updates: updateData
         });
@@ -240,17 +273,38 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
         showSuccess('⚡ Updated!', 'Hours updated and resubmitted instantly!');
       } else {
         // ⚡ INSTANT SUBMIT
-        await submitVolunteerHoursMutation.mutateAsync(submissionData);
+        savedHour = await submitVolunteerHoursMutation.mutateAsync(submissionData);
         showSuccess('⚡ Submitted!', 'Hours submitted instantly!');
       }
 
+      // Email the supervisor for external hours; an edit only re-sends when the supervisor changed
+      const hasSupervisor = eventType === 'external' && !!supervisorEmail.trim();
+      const supervisorChanged = !isEditing || isResubmitting
+        || supervisorEmail.trim().toLowerCase() !== (editingHour?.supervisor_email || '');
+      if (hasSupervisor && supervisorChanged) {
+        try {
+          await requestSupervisorSignOffMutation.mutateAsync({
+            hourId: savedHour.id,
+            request: { supervisor_name: supervisorName, supervisor_email: supervisorEmail }
+          });
+        } catch (signOffError) {
+          showError(
+            'Supervisor Not Emailed',
+            signOffError instanceof Error ? signOffError.message : 'Your hours were saved, but the supervisor email failed.'
+          );
+        }
+      }
+
       // ⚡ INSTANT form reset and navigation - no delays!
       resetForm();
       navigation.goBack(); // INSTANT navigation!
 
     } catch (error) {
       console.error('Error submitting volunteer hours:', error);
-      showError('Submission Error', 'Failed to submit volunteer hours. Please try again.');
+      showError(
+        'Submission Error',
+        isResubmitting && error instanceof Error ? error.message : 'Failed to submit volunteer hours. Please try again.'
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -264,6 +318,8 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
     setHours('');
     setAdditionalNotes('');
     setSelectedImage(null);
+    setSupervisorName('');
+    setSupervisorEmail('');
     setImageUploadError(null);
     setErrors({});
   };
@@ -335,10 +391,25 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
               >
                 <Icon name="arrow-back" size={moderateScale(24)} color={Colors.textDark} />
               </TouchableOpacity>
-              <Text style={styles.headerTitle}>{isEditing ? 'Edit Volunteer Hours' : 'Add Volunteer Hours'}</Text>
+              <Text style={styles.headerTitle}>
+                {isResubmitting ? 'Revise & Resubmit' : isEditing ? 'Edit Volunteer Hours' : 'Add Volunteer Hours'}
+              </Text>
               <View style={styles.headerPlaceholder} />
             </View>
 
+            {/* Rejection feedback for the entry being revised */}
+            {isResubmitting && (
+              <View style={styles.rejectionBanner}>
+                <Text style={styles.rejectionBannerLabel}>Officer feedback</Text>
+                <Text style={styles.rejectionBannerText}>
+                  {editingHour?.rejection_reason || 'No reason was given.'}
+                </Text>
+                <Text style={styles.rejectionBannerHint}>
+                  Your changes are sent as a new submission. The rejected entry is kept for reference.
+                </Text>
+              </View>
+            )}
+
             {/* Form Container */}
             <View style={styles.formContainer}>
               {/* Event Type Selection */}
@@ -436,6 +507,34 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
                     Describe the volunteer activity or organization you worked with
                   </Text>
                   {errors.customEvent && <Text style={styles.errorText}>{errors.customEvent}</Text>}
+
+                  <Text style={[styles.inputLabel, styles.supervisorLabel]}>
+                    Supervisor (Optional)
+                  </Text>
+                  <TextInput
+                    style={[styles.textInput, errors.supervisorName && styles.inputError]}
+                    placeholder="Supervisor's full name"
+                    placeholderTextColor={Colors.textLight}
+                    value={supervisorName}
+                    onChangeText={setSupervisorName}
+                    maxLength={100}
+                  />
+                  {errors.supervisorName && <Text style={styles.errorText}>{errors.supervisorName}</Text>}
+                  <TextInput
+                    style={[styles.textInput, styles.supervisorEmailInput, errors.supervisorEmail && styles.inputError]}
+                    placeholder="supervisor@example.org"
+                    placeholderTextColor={Colors.textLight}
+                    value={supervisorEmail}
+                    onChangeText={setSupervisorEmail}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    maxLength={254}
+                  />
+                  {errors.supervisorEmail && <Text style={styles.errorText}>{errors.supervisorEmail}</Text>}
+                  <Text style={styles.inputHint}>
+                    We'll email your supervisor a link to confirm these hours. Their answer is shown to officers.
+                  </Text>
                 </View>
               )}
 
@@ -530,15 +629,15 @@ const VolunteerHoursForm = ({ navigation, route }: any) => {
               <TouchableOpacity
                 style={[
                   styles.submitButton, 
-                  (submitVolunteerHoursMutation.isPending || updateVolunteerHoursMutation.isPending || imageUploading || isSubmitting) && styles.submitButtonDisabled
+                  (isMutationPending || imageUploading || isSubmitting) && styles.submitButtonDisabled
                 ]}
                 onPress={handleSubmit}
-                disabled={submitVolunteerHoursMutation.isPending || updateVolunteerHoursMutation.isPending || imageUploading || isSubmitting}
+                disabled={isMutationPending || imageUploading || isSubmitting}
               >
                 <Text style={styles.submitButtonText}>
-                  {(submitVolunteerHoursMutation.isPending || updateVolunteerHoursMutation.isPending || isSubmitting) 
-                    ? (isEditing ? 'Updating...' : 'Submitting...') 
-                    : (isEditing ? 'Update Hours' : 'Submit Hours')
+                  {(isMutationPending || isSubmitting) 
+                    ? (isResubmitting ? 'Resubmitting...' : isEditing ? 'Updating...' : 'Submitting...') 
+                    : (isResubmitting ? 'Resubmit Hours' : isEditing ? 'Update Hours' : 'Submit Hours')
                   }
                 </Text>
               </TouchableOpacity>
@@ -577,6 +676,30 @@ const styles = StyleSheet.create({
   headerPlaceholder: {
     width: scale(40),
   },
+  rejectionBanner: {
+    backgroundColor: '#FEF2F2',
+    borderRadius: moderateScale(8),
+    padding: scale(12),
+    marginBottom: verticalScale(20),
+    borderLeftWidth: 4,
+    borderLeftColor: Colors.errorRed,
+  },
+  rejectionBannerLabel: {
+    fontSize: moderateScale(12),
+    fontWeight: '600',
+    color: Colors.errorRed,
+    marginBottom: verticalScale(4),
+  },
+  rejectionBannerText: {
+    fontSize: moderateScale(14),
+    color: Colors.textDark,
+    lineHeight: moderateScale(20),
+  },
+  rejectionBannerHint: {
+    fontSize: moderateScale(12),
+    color: Colors.textMedium,
+    marginTop: verticalScale(8),
+  },
   formContainer: {
     backgroundColor: 'transparent',
   },
@@ -751,6 +874,12 @@ const styles = StyleSheet.create({
     color: Colors.textLight,
     marginTop: verticalScale(4),
   },
+  supervisorLabel: {
+    marginTop: verticalScale(20),
+  },
+  supervisorEmailInput: {
+    marginTop: verticalScale(8),
+  },
 });
 
 export default VolunteerHoursForm;
\ No newline at end of file
@@ -76,16 +76,21 @@ const MemberVolunteerHoursScreen: React.FC<MemberVolunteerHoursScreenProps> = ({
 
     // Sort pending hours by submission date (most recently submitted first)
     const pending = volunteerHours
-      .filter(hour => hour.status === 'pending')
+      .filter(hour => hour.status === 'pending' || hour.status === 'officer_approved')
       .sort((a, b) => {
         const dateA = new Date(a.submitted_at).getTime();
         const dateB = new Date(b.submitted_at).getTime();
         return dateB - dateA; // Most recent first
       });
 
+    // Rejected entries that have been revised and resubmitted are replaced by the revision
+    const resubmittedIds = new Set(
+      volunteerHours.map(hour => hour.previous_version_id).filter(Boolean)
+    );
+
     // Sort rejected hours by verification date (most recently rejected first)
     const rejected = volunteerHours
-      .filter(hour => hour.status === 'rejected')
+      .filter(hour => hour.status === 'rejected' && !resubmittedIds.has(hour.id))
       .sort((a, b) => {
         const dateA = new Date(a.verified_at || a.submitted_at).getTime();
         const dateB = new Date(b.verified_at || b.submitted_at).getTime();
@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Switch,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useToast } from 'components/ui/ToastProvider';
+import { withRoleProtection } from 'components/hoc/withRoleProtection';
+import LoadingSkeleton from 'components/ui/LoadingSkeleton';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { useApprovalPolicy, useUpdateApprovalPolicy } from '../../hooks/useVolunteerHoursData';
+import { OfficerStackParamList } from '../../types/navigation';
+
+const Colors = {
+  LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  inputBorder: '#D1D5DB',
+  errorRed: '#E53E3E',
+};
+
+type ApprovalPolicyScreenNavigationProp = NativeStackNavigationProp<OfficerStackParamList, 'ApprovalPolicy'>;
+
+interface ApprovalPolicyScreenProps {
+  navigation: ApprovalPolicyScreenNavigationProp;
+}
+
+const ApprovalPolicyScreen = ({ navigation }: ApprovalPolicyScreenProps) => {
+  const { showSuccess, showError, showValidationError } = useToast();
+  const { activeOrganization } = useOrganization();
+  const insets = useSafeAreaInsets();
+  const orgId = activeOrganization?.id || '';
+
+  const { data: policy, isLoading } = useApprovalPolicy(orgId);
+  const updatePolicy = useUpdateApprovalPolicy(orgId);
+
+  const [twoStepEnabled, setTwoStepEnabled] = useState(false);
+  const [threshold, setThreshold] = useState('');
+  const [includeExternal, setIncludeExternal] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!policy) return;
+    setTwoStepEnabled(policy.two_step_enabled);
+    setThreshold(policy.hours_threshold !== null ? String(policy.hours_threshold) : '');
+    setIncludeExternal(policy.include_external);
+  }, [policy]);
+
+  const validateForm = () => {
+    const thresholdValue = Number(threshold);
+
+    if (threshold.trim() && (!Number.isFinite(thresholdValue) || thresholdValue <= 0 || thresholdValue > 24)) {
+      setError('Enter a threshold between 0 and 24 hours');
+      return false;
+    }
+
+    if (twoStepEnabled && !threshold.trim() && !includeExternal) {
+      setError('Set an hours threshold or include external activities');
+      return false;
+    }
+
+    setError(null);
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (!validateForm()) {
+      showValidationError('Validation Error', 'Please fix the highlighted fields.');
+      return;
+    }
+
+    try {
+      await updatePolicy.mutateAsync({
+        two_step_enabled: twoStepEnabled,
+        hours_threshold: threshold.trim() ? Number(threshold) : null,
+        include_external: includeExternal,
+      });
+      showSuccess(
+        'Policy Saved',
+        twoStepEnabled
+          ? 'Matching submissions now need approval from two officers.'
+          : 'Any officer can verify submissions in one step.'
+      );
+    } catch (saveError) {
+      showError('Save Failed', saveError instanceof Error ? saveError.message : 'Failed to save approval policy.');
+    }
+  };
+
+  return (
+    <LinearGradient
+      colors={Colors.LandingScreenGradient}
+      style={{ flex: 1 }}
+      start={{ x: 0.5, y: 0 }}
+      end={{ x: 0.5, y: 1 }}
+    >
+      <SafeAreaView style={{ flex: 1 }}>
+        <KeyboardAvoidingView
+          style={{ flex: 1 }}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <ScrollView
+            contentContainerStyle={[
+              styles.scrollContainer,
+              {
+                paddingTop: insets.top,
+                paddingBottom: insets.bottom + verticalScale(40),
+              },
+            ]}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            {/* Header with Back Button */}
+            <View style={styles.header}>
+              <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                <Icon name="arrow-back" size={moderateScale(24)} color={Colors.textDark} />
+              </TouchableOpacity>
+              <Text style={styles.headerTitle}>Approval Policy</Text>
+              <View style={styles.headerPlaceholder} />
+            </View>
+
+            {isLoading ? (
+              <LoadingSkeleton height={verticalScale(200)} />
+            ) : (
+              <View style={styles.formCard}>
+                <View style={styles.switchRow}>
+                  <View style={styles.switchInfo}>
+                    <Text style={styles.switchTitle}>Two-Step Approval</Text>
+                    <Text style={styles.switchDescription}>
+                      A second, different officer must verify matching submissions.
+                    </Text>
+                  </View>
+                  <Switch
+                    value={twoStepEnabled}
+                    onValueChange={setTwoStepEnabled}
+                    disabled={updatePolicy.isPending}
+                    trackColor={{ false: '#E2E8F0', true: '#2B5CE6' }}
+                    thumbColor={twoStepEnabled ? '#FFFFFF' : '#CBD5E0'}
+                  />
+                </View>
+
+                <Text style={[styles.inputLabel, !twoStepEnabled && styles.disabledText]}>
+                  Require a second approval above (hours)
+                </Text>
+                <TextInput
+                  style={[styles.textInput, error && styles.inputError]}
+                  placeholder="e.g. 10"
+                  placeholderTextColor={Colors.textLight}
+                  value={threshold}
+                  onChangeText={setThreshold}
+                  keyboardType="decimal-pad"
+                  editable={twoStepEnabled}
+                />
+
+                <View style={[styles.switchRow, styles.switchRowSpaced]}>
+                  <View style={styles.switchInfo}>
+                    <Text style={[styles.switchTitle, !twoStepEnabled && styles.disabledText]}>
+                      External Activities
+                    </Text>
+                    <Text style={styles.switchDescription}>
+                      Always require a second approval for hours not logged against an organization event.
+                    </Text>
+                  </View>
+                  <Switch
+                    value={includeExternal}
+                    onValueChange={setIncludeExternal}
+                    disabled={!twoStepEnabled || updatePolicy.isPending}
+                    trackColor={{ false: '#E2E8F0', true: '#2B5CE6' }}
+                    thumbColor={includeExternal ? '#FFFFFF' : '#CBD5E0'}
+                  />
+                </View>
+
+                {error && <Text style={styles.errorText}>{error}</Text>}
+
+                <TouchableOpacity
+                  style={[styles.submitButton, updatePolicy.isPending && styles.submitButtonDisabled]}
+                  onPress={handleSave}
+                  disabled={updatePolicy.isPending}
+                >
+                  <Text style={styles.submitButtonText}>
+                    {updatePolicy.isPending ? 'Saving...' : 'Save Policy'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: scale(16),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(24),
+  },
+  backButton: {
+    padding: scale(8),
+  },
+  headerTitle: {
+    fontSize: moderateScale(24),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    textAlign: 'center',
+  },
+  headerPlaceholder: {
+    width: scale(40),
+  },
+  formCard: {
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(16),
+    padding: scale(20),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(2) },
+    shadowOpacity: 0.1,
+    shadowRadius: moderateScale(8),
+    elevation: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  switchRowSpaced: {
+    marginTop: verticalScale(20),
+  },
+  switchInfo: {
+    flex: 1,
+    marginRight: scale(12),
+  },
+  switchTitle: {
+    fontSize: moderateScale(16),
+    fontWeight: '600',
+    color: Colors.textDark,
+    marginBottom: verticalScale(4),
+  },
+  switchDescription: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+  },
+  disabledText: {
+    color: Colors.textLight,
+  },
+  inputLabel: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+    marginTop: verticalScale(20),
+    marginBottom: verticalScale(8),
+  },
+  textInput: {
+    height: verticalScale(48),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: moderateScale(8),
+    paddingHorizontal: scale(16),
+    backgroundColor: Colors.white,
+    fontSize: moderateScale(16),
+    color: Colors.textDark,
+  },
+  inputError: {
+    borderColor: Colors.errorRed,
+  },
+  errorText: {
+    fontSize: moderateScale(12),
+    color: Colors.errorRed,
+    marginTop: verticalScale(12),
+  },
+  submitButton: {
+    backgroundColor: Colors.solidBlue,
+    borderRadius: moderateScale(8),
+    paddingVertical: verticalScale(14),
+    alignItems: 'center',
+    marginTop: verticalScale(24),
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: moderateScale(16),
+    fontWeight: '600',
+    color: Colors.white,
+  },
+});
+
+export default withRoleProtection(ApprovalPolicyScreen, {
+  requiredRole: 'officer',
+  loadingMessage: 'Verifying officer access...'
+});
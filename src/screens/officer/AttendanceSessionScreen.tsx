@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert, Platform, RefreshControl } from 'react-native';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert, Platform, RefreshControl, Switch } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
 import Icon from 'react-native-vector-icons/MaterialIcons';
@@ -9,6 +9,7 @@ import { useToast } from 'components/ui/ToastProvider';
 import { withRoleProtection } from 'components/hoc/withRoleProtection';
 import LoadingSkeleton from 'components/ui/LoadingSkeleton';
 import BLEAttendanceMonitor from 'components/ui/BLEAttendanceMonitor';
+import AttendanceRosterPanel from 'components/ui/AttendanceRosterPanel';
 import { useOrganization } from '../../contexts/OrganizationContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { useBLE } from '../../../modules/BLE/BLEContext';
@@ -55,10 +56,16 @@ const AttendanceSessionScreen: React.FC<AttendanceSessionScreenProps> = ({ navig
   // Form state
   const [sessionTitle, setSessionTitle] = useState('');
   const [duration, setDuration] = useState('60'); // Duration in minutes
+  const [rotatingBeacon, setRotatingBeacon] = useState(false);
+  const [checkoutEnabled, setCheckoutEnabled] = useState(false);
+  const [creditHours, setCreditHours] = useState(false);
+  const [minDwell, setMinDwell] = useState(''); // Seconds, empty = no requirement
+  const [minRssi, setMinRssi] = useState(''); // dBm, empty = no requirement
   const [isCreating, setIsCreating] = useState(false);
   const [attendeeCount, setAttendeeCount] = useState(0);
   const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [sessionEventId, setSessionEventId] = useState<string | null>(null);
 
   // Cleanup orphaned sessions on mount
   useEffect(() => {
@@ -107,6 +114,24 @@ const AttendanceSessionScreen: React.FC<AttendanceSessionScreenProps> = ({ navig
     };
   }, [currentSession, activeOrganization?.id, sessionStartTime]);
 
+  // Resolve the active session's event for the roster
+  useEffect(() => {
+    let cancelled = false;
+    setSessionEventId(null);
+
+    if (currentSession?.sessionToken) {
+      BLESessionService.resolveSession(currentSession.sessionToken)
+        .then(session => {
+          if (!cancelled) setSessionEventId(session?.eventId ?? null);
+        })
+        .catch(error => console.error('Error resolving session event:', error));
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSession?.sessionToken]);
+
   const handleCreateSession = async () => {
     if (!sessionTitle.trim()) {
       showError('Validation Error', 'Please enter a session title');
@@ -124,6 +149,18 @@ const AttendanceSessionScreen: React.FC<AttendanceSessionScreenProps> = ({ navig
       return;
     }
 
+    const minDwellSeconds = minDwell.trim() ? parseInt(minDwell) : undefined;
+    if (minDwellSeconds !== undefined && (isNaN(minDwellSeconds) || minDwellSeconds < 0 || minDwellSeconds > durationMinutes * 60)) {
+      showError('Validation Error', 'Minimum time nearby must be between 0 seconds and the session duration');
+      return;
+    }
+
+    const minRssiValue = minRssi.trim() ? parseInt(minRssi) : undefined;
+    if (minRssiValue !== undefined && (isNaN(minRssiValue) || minRssiValue < -127 || minRssiValue > 0)) {
+      showError('Validation Error', 'Minimum signal must be between -127 and 0 dBm');
+      return;
+    }
+
     setIsCreating(true);
     
     try {
@@ -164,15 +201,19 @@ const AttendanceSessionScreen: React.FC<AttendanceSessionScreenProps> = ({ navig
         }
       }
 
+      // Get organization code for BLE broadcasting
+      const orgCode = await BLESessionService.resolveOrgCode(activeOrganization.slug);
+      if (!orgCode) {
+        throw new Error(`No beacon code registered for organization ${activeOrganization.slug}`);
+      }
+
       // Create session in database - pass the actual organization ID
       const sessionToken = await createAttendanceSession(
         sessionTitle.trim(),
         durationMinutes * 60, // Convert to seconds
-        activeOrganization.id // Pass the real organization ID
+        activeOrganization.id, // Pass the real organization ID
+        { rotatingBeacon, minDwellSeconds, minRssi: minRssiValue, checkoutEnabled, creditVolunteerHours: creditHours }
       );
-
-      // Get organization code for BLE broadcasting
-      const orgCode = BLESessionService.getOrgCode(activeOrganization.slug);
       
       // Start BLE broadcasting
       await startAttendanceSession(sessionToken, orgCode);
@@ -180,6 +221,11 @@ const AttendanceSessionScreen: React.FC<AttendanceSessionScreenProps> = ({ navig
       // Reset form
       setSessionTitle('');
       setDuration('60');
+      setRotatingBeacon(false);
+      setCheckoutEnabled(false);
+      setCreditHours(false);
+      setMinDwell('');
+      setMinRssi('');
       setAttendeeCount(0);
       setSessionStartTime(new Date());
       
@@ -426,6 +472,17 @@ const AttendanceSessionScreen: React.FC<AttendanceSessionScreenProps> = ({ navig
             </View>
           )}
 
+          {/* Roster and officer overrides */}
+          {currentSession && currentSession.isActive && sessionEventId && (
+            <View style={styles.sectionContainer}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Roster</Text>
+              </View>
+
+              <AttendanceRosterPanel eventId={sessionEventId} />
+            </View>
+          )}
+
           {/* Create New Session Section */}
           {(!currentSession || !currentSession.isActive) && (
             <View style={styles.sectionContainer}>
@@ -464,6 +521,95 @@ const AttendanceSessionScreen: React.FC<AttendanceSessionScreenProps> = ({ navig
                   </Text>
                 </View>
 
+                <View style={[styles.inputContainer, styles.switchRow]}>
+                  <View style={styles.switchInfo}>
+                    <Text style={styles.inputLabel}>Rotating Beacon Code</Text>
+                    <Text style={styles.inputHint}>
+                      Changes the beacon every 30 seconds so a recorded signal can't be replayed
+                    </Text>
+                  </View>
+                  <Switch
+                    value={rotatingBeacon}
+                    onValueChange={setRotatingBeacon}
+                    disabled={isCreating}
+                    trackColor={{ false: '#E2E8F0', true: Colors.solidBlue }}
+                    thumbColor={rotatingBeacon ? Colors.white : '#CBD5E0'}
+                  />
+                </View>
+
+                <View style={[styles.inputContainer, styles.switchRow]}>
+                  <View style={styles.switchInfo}>
+                    <Text style={styles.inputLabel}>Require Check-Out</Text>
+                    <Text style={styles.inputHint}>
+                      Records how long each member stayed; members are checked out when they leave range
+                    </Text>
+                  </View>
+                  <Switch
+                    value={checkoutEnabled}
+                    onValueChange={(value) => {
+                      setCheckoutEnabled(value);
+                      if (!value) {
+                        setCreditHours(false);
+                      }
+                    }}
+                    disabled={isCreating}
+                    trackColor={{ false: '#E2E8F0', true: Colors.solidBlue }}
+                    thumbColor={checkoutEnabled ? Colors.white : '#CBD5E0'}
+                  />
+                </View>
+
+                {checkoutEnabled && (
+                  <View style={[styles.inputContainer, styles.switchRow]}>
+                    <View style={styles.switchInfo}>
+                      <Text style={styles.inputLabel}>Credit Volunteer Hours</Text>
+                      <Text style={styles.inputHint}>
+                        Adds each member's time at the session as verified volunteer hours
+                      </Text>
+                    </View>
+                    <Switch
+                      value={creditHours}
+                      onValueChange={setCreditHours}
+                      disabled={isCreating}
+                      trackColor={{ false: '#E2E8F0', true: Colors.solidBlue }}
+                      thumbColor={creditHours ? Colors.white : '#CBD5E0'}
+                    />
+                  </View>
+                )}
+
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>Minimum Time Nearby (seconds)</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    placeholder="Optional (e.g., 60)"
+                    placeholderTextColor={Colors.textLight}
+                    value={minDwell}
+                    onChangeText={setMinDwell}
+                    keyboardType="numeric"
+                    maxLength={5}
+                    editable={!isCreating}
+                  />
+                  <Text style={styles.inputHint}>
+                    Members must detect the beacon this long before checking in
+                  </Text>
+                </View>
+
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>Minimum Signal (dBm)</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    placeholder="Optional (e.g., -80)"
+                    placeholderTextColor={Colors.textLight}
+                    value={minRssi}
+                    onChangeText={setMinRssi}
+                    keyboardType="numbers-and-punctuation"
+                    maxLength={4}
+                    editable={!isCreating}
+                  />
+                  <Text style={styles.inputHint}>
+                    Average signal strength required; closer is higher (e.g., -60 is closer than -90)
+                  </Text>
+                </View>
+
                 <TouchableOpacity
                   style={[
                     styles.createSessionButton,
@@ -715,6 +861,15 @@ const styles = StyleSheet.create({
     color: Colors.textLight,
     marginTop: verticalScale(4),
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchInfo: {
+    flex: 1,
+    marginRight: scale(12),
+  },
   createSessionButton: {
     backgroundColor: Colors.solidBlue,
     borderRadius: moderateScale(8),
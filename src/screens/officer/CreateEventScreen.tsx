@@ -25,7 +25,8 @@ import ReliableImagePicker from 'components/ui/ReliableImagePicker';
 import { withRoleProtection } from 'components/hoc/withRoleProtection';
 import { useOrganization } from '../../contexts/OrganizationContext';
 import { useAuth } from '../../contexts/AuthContext';
-import { eventService } from '../../services/EventService';
+import { eventService, RecurrenceFrequency, RecurrenceRule } from '../../services/EventService';
+import { describeRecurrence } from '../../utils/recurrenceUtils';
 import ImageUploadService from '../../services/ImageUploadService';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { OfficerStackParamList } from '../../types/navigation';
@@ -50,6 +51,20 @@ const Colors = {
 
 type EventCategory = 'fundraiser' | 'volunteering' | 'education' | 'custom';
 
+const REPEAT_OPTIONS: { value: RecurrenceFrequency | null; label: string; unit: string }[] = [
+    { value: null, label: 'Does Not Repeat', unit: '' },
+    { value: 'daily', label: 'Daily', unit: 'day' },
+    { value: 'weekly', label: 'Weekly', unit: 'week' },
+    { value: 'monthly', label: 'Monthly', unit: 'month' },
+];
+
+// Calendar date in local time (YYYY-MM-DD), matching how the series expands occurrences
+const toDateKey = (value: Date) => {
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+};
+
 type CreateEventScreenNavigationProp = NativeStackNavigationProp<OfficerStackParamList, 'CreateEvent'>;
 
 interface CreateEventScreenProps {
@@ -73,6 +88,14 @@ const CreateEventScreen = ({ navigation }: CreateEventScreenProps) => {
     const [showStartTimePicker, setShowStartTimePicker] = useState(false);
     const [showEndTimePicker, setShowEndTimePicker] = useState(false);
     const [location, setLocation] = useState('');
+    const [capacity, setCapacity] = useState('');
+    const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | null>(null);
+    const [repeatInterval, setRepeatInterval] = useState('1');
+    const [repeatEndType, setRepeatEndType] = useState<'count' | 'until'>('count');
+    const [repeatCount, setRepeatCount] = useState('10');
+    const [repeatUntil, setRepeatUntil] = useState<Date | null>(null);
+    const [skipDates, setSkipDates] = useState<Date[]>([]);
+    const [repeatPickerTarget, setRepeatPickerTarget] = useState<'until' | 'skip' | null>(null);
     const [description, setDescription] = useState('');
     const [attachments, setAttachments] = useState<{
         images: string[];
@@ -234,11 +257,33 @@ const CreateEventScreen = ({ navigation }: CreateEventScreenProps) => {
             newErrors.endTime = 'End time is required';
         }
 
+        // Repeat validation
+        if (repeatFrequency) {
+            const interval = Number(repeatInterval);
+            if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+                newErrors.repeat = 'Repeat every 1 to 52';
+            } else if (repeatEndType === 'count') {
+                const count = Number(repeatCount);
+                if (!Number.isInteger(count) || count < 1 || count > 100) {
+                    newErrors.repeat = 'Number of occurrences must be between 1 and 100';
+                }
+            } else if (!repeatUntil) {
+                newErrors.repeat = 'Choose when the series ends';
+            } else if (date && toDateKey(repeatUntil) < toDateKey(date)) {
+                newErrors.repeat = 'The series must end after the first event';
+            }
+        }
+
         // Location validation
         if (!location.trim()) {
             newErrors.location = 'Location is required';
         }
 
+        // Capacity validation
+        if (capacity.trim() && !/^[1-9]\d*$/.test(capacity.trim())) {
+            newErrors.capacity = 'Capacity must be a whole number of at least 1';
+        }
+
         // Description validation
         if (description.trim().split(/\s+/).filter((word: string) => word.length > 0).length > 150) {
             newErrors.description = 'Description must be 150 words or less';
@@ -295,6 +340,14 @@ const CreateEventScreen = ({ navigation }: CreateEventScreenProps) => {
                 ? [...attachments.links, linkUrl.trim()]
                 : attachments.links;
 
+            const recurrence: RecurrenceRule | undefined = repeatFrequency ? {
+                frequency: repeatFrequency,
+                interval: Number(repeatInterval),
+                count: repeatEndType === 'count' ? Number(repeatCount) : undefined,
+                until: repeatEndType === 'until' && repeatUntil ? toDateKey(repeatUntil) : undefined,
+                exceptionDates: skipDates.map(toDateKey),
+            } : undefined;
+
             // Create event using EventService
             const result = await eventService.createEvent({
                 title: eventName.trim(),
@@ -306,10 +359,15 @@ const CreateEventScreen = ({ navigation }: CreateEventScreenProps) => {
                 category: finalCategory,
                 link: finalLinks.length > 0 ? finalLinks[0] : undefined, // Use first link for now
                 image_url: uploadedImageUrl || undefined, // Include uploaded image URL
+                capacity: capacity.trim() ? Number(capacity.trim()) : undefined,
+                recurrence,
             });
 
             if (result.success) {
-                showSuccess('Event Created', 'Your event has been created successfully.');
+                showSuccess(
+                    'Event Created',
+                    recurrence ? 'Your repeating event has been created.' : 'Your event has been created successfully.'
+                );
                 navigation.goBack();
             } else {
                 showError('Creation Error', result.error || 'Failed to create event. Please try again.');
@@ -363,6 +421,32 @@ const CreateEventScreen = ({ navigation }: CreateEventScreenProps) => {
 
 
 
+    const handleRepeatDateChange = (event: any, selectedDate?: Date) => {
+        const target = repeatPickerTarget;
+        if (Platform.OS === 'android') {
+            setRepeatPickerTarget(null);
+            if (event.type !== 'set') {
+                return;
+            }
+        }
+        if (!selectedDate) {
+            return;
+        }
+
+        if (target === 'until') {
+            setRepeatUntil(selectedDate);
+        } else if (target === 'skip') {
+            setSkipDates(prev => prev.some(d => toDateKey(d) === toDateKey(selectedDate))
+                ? prev
+                : [...prev, selectedDate].sort((a, b) => a.getTime() - b.getTime()));
+            if (Platform.OS === 'ios') {
+                setRepeatPickerTarget(null);
+            }
+        }
+    };
+
+    const repeatUnit = REPEAT_OPTIONS.find(option => option.value === repeatFrequency)?.unit || 'week';
+
     const formatDate = (date: Date) => {
         return date.toLocaleDateString('en-US', {
             month: '2-digit',
@@ -573,6 +657,125 @@ const CreateEventScreen = ({ navigation }: CreateEventScreenProps) => {
                                 )}
                             </View>
 
+                            {/* Repeat */}
+                            <View style={styles.inputContainer}>
+                                <Text style={styles.inputLabel}>Repeat</Text>
+                                <View style={styles.repeatOptions}>
+                                    {REPEAT_OPTIONS.map(option => {
+                                        const isSelected = repeatFrequency === option.value;
+                                        return (
+                                            <TouchableOpacity
+                                                key={option.label}
+                                                style={[styles.repeatOption, isSelected && styles.repeatOptionSelected]}
+                                                onPress={() => setRepeatFrequency(option.value)}
+                                            >
+                                                <Text style={[styles.repeatOptionText, isSelected && styles.repeatOptionTextSelected]}>
+                                                    {option.label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+
+                                {repeatFrequency && (
+                                    <View style={styles.repeatDetails}>
+                                        <View style={styles.repeatRow}>
+                                            <Text style={styles.repeatRowLabel}>Every</Text>
+                                            <TextInput
+                                                style={[styles.textInput, styles.repeatNumberInput]}
+                                                value={repeatInterval}
+                                                onChangeText={setRepeatInterval}
+                                                keyboardType="number-pad"
+                                                maxLength={2}
+                                            />
+                                            <Text style={styles.repeatRowLabel}>
+                                                {Number(repeatInterval) === 1 ? repeatUnit : `${repeatUnit}s`}
+                                            </Text>
+                                        </View>
+
+                                        <View style={styles.repeatRow}>
+                                            <Text style={styles.repeatRowLabel}>Ends</Text>
+                                            <TouchableOpacity
+                                                style={[styles.repeatOption, repeatEndType === 'count' && styles.repeatOptionSelected]}
+                                                onPress={() => setRepeatEndType('count')}
+                                            >
+                                                <Text style={[styles.repeatOptionText, repeatEndType === 'count' && styles.repeatOptionTextSelected]}>
+                                                    After
+                                                </Text>
+                                            </TouchableOpacity>
+                                            <TouchableOpacity
+                                                style={[styles.repeatOption, repeatEndType === 'until' && styles.repeatOptionSelected]}
+                                                onPress={() => setRepeatEndType('until')}
+                                            >
+                                                <Text style={[styles.repeatOptionText, repeatEndType === 'until' && styles.repeatOptionTextSelected]}>
+                                                    On Date
+                                                </Text>
+                                            </TouchableOpacity>
+                                        </View>
+
+                                        {repeatEndType === 'count' ? (
+                                            <View style={styles.repeatRow}>
+                                                <TextInput
+                                                    style={[styles.textInput, styles.repeatNumberInput]}
+                                                    value={repeatCount}
+                                                    onChangeText={setRepeatCount}
+                                                    keyboardType="number-pad"
+                                                    maxLength={3}
+                                                />
+                                                <Text style={styles.repeatRowLabel}>occurrences</Text>
+                                            </View>
+                                        ) : (
+                                            <TouchableOpacity
+                                                style={styles.dateInput}
+                                                onPress={() => setRepeatPickerTarget('until')}
+                                            >
+                                                <Text style={[styles.dateText, !repeatUntil && styles.datePlaceholder]}>
+                                                    {repeatUntil ? formatDate(repeatUntil) : 'mm/dd/yyyy'}
+                                                </Text>
+                                                <Icon name="event-repeat" size={moderateScale(20)} color={Colors.textMedium} />
+                                            </TouchableOpacity>
+                                        )}
+
+                                        <TouchableOpacity
+                                            style={styles.attachmentButton}
+                                            onPress={() => setRepeatPickerTarget('skip')}
+                                        >
+                                            <Icon name="event-busy" size={moderateScale(24)} color={Colors.solidBlue} />
+                                            <Text style={styles.attachmentText}>Skip a Date</Text>
+                                        </TouchableOpacity>
+
+                                        {skipDates.length > 0 && (
+                                            <View style={styles.attachmentsList}>
+                                                {skipDates.map(skipDate => (
+                                                    <View key={toDateKey(skipDate)} style={styles.attachmentItem}>
+                                                        <Icon name="event-busy" size={moderateScale(16)} color={Colors.textMedium} />
+                                                        <Text style={styles.attachmentName}>{formatDate(skipDate)}</Text>
+                                                        <TouchableOpacity
+                                                            onPress={() => setSkipDates(prev => prev.filter(d => d !== skipDate))}
+                                                            style={styles.removeButton}
+                                                        >
+                                                            <Icon name="close" size={moderateScale(16)} color={Colors.errorRed} />
+                                                        </TouchableOpacity>
+                                                    </View>
+                                                ))}
+                                            </View>
+                                        )}
+
+                                        {!errors.repeat && (
+                                            <Text style={styles.helperText}>
+                                                {describeRecurrence({
+                                                    frequency: repeatFrequency,
+                                                    interval: Number(repeatInterval) || 1,
+                                                    count: repeatEndType === 'count' ? Number(repeatCount) || undefined : undefined,
+                                                    until: repeatEndType === 'until' && repeatUntil ? toDateKey(repeatUntil) : undefined,
+                                                })}
+                                            </Text>
+                                        )}
+                                    </View>
+                                )}
+                                {errors.repeat && <Text style={styles.errorText}>{errors.repeat}</Text>}
+                            </View>
+
                             {/* Location */}
                             <View style={styles.inputContainer}>
                                 <Text style={styles.inputLabel}>Location</Text>
@@ -589,6 +792,24 @@ const CreateEventScreen = ({ navigation }: CreateEventScreenProps) => {
                                 {errors.location && <Text style={styles.errorText}>{errors.location}</Text>}
                             </View>
 
+                            {/* Capacity */}
+                            <View style={styles.inputContainer}>
+                                <Text style={styles.inputLabel}>Capacity (optional)</Text>
+                                <TextInput
+                                    style={[styles.textInput, errors.capacity && styles.inputError]}
+                                    placeholder="No limit"
+                                    placeholderTextColor={Colors.textLight}
+                                    value={capacity}
+                                    onChangeText={setCapacity}
+                                    keyboardType="number-pad"
+                                    maxLength={4}
+                                />
+                                <Text style={styles.helperText}>
+                                    Members who RSVP after the event is full join a waitlist
+                                </Text>
+                                {errors.capacity && <Text style={styles.errorText}>{errors.capacity}</Text>}
+                            </View>
+
                             {/* Description */}
                             <View style={styles.inputContainer}>
                                 <Text style={styles.inputLabel}>Description</Text>
@@ -823,6 +1044,49 @@ const CreateEventScreen = ({ navigation }: CreateEventScreenProps) => {
                         </Modal>
                     )}
 
+                    {/* Repeat Date Picker Modal - iOS */}
+                    {Platform.OS === 'ios' && repeatPickerTarget && (
+                        <Modal
+                            visible={!!repeatPickerTarget}
+                            transparent={true}
+                            animationType="slide"
+                            onRequestClose={() => setRepeatPickerTarget(null)}
+                        >
+                            <TouchableWithoutFeedback onPress={() => setRepeatPickerTarget(null)}>
+                                <View style={styles.modalOverlay}>
+                                    <TouchableWithoutFeedback>
+                                        <View style={styles.pickerContainer}>
+                                            <View style={styles.pickerHeader}>
+                                                <TouchableOpacity onPress={() => setRepeatPickerTarget(null)}>
+                                                    <Text style={styles.pickerDoneButton}>Done</Text>
+                                                </TouchableOpacity>
+                                            </View>
+                                            <DateTimePicker
+                                                value={(repeatPickerTarget === 'until' && repeatUntil) || date || new Date()}
+                                                mode="date"
+                                                display="spinner"
+                                                onChange={handleRepeatDateChange}
+                                                minimumDate={date || new Date()}
+                                                textColor={Colors.textDark}
+                                            />
+                                        </View>
+                                    </TouchableWithoutFeedback>
+                                </View>
+                            </TouchableWithoutFeedback>
+                        </Modal>
+                    )}
+
+                    {/* Repeat Date Picker - Android */}
+                    {Platform.OS === 'android' && repeatPickerTarget && (
+                        <DateTimePicker
+                            value={(repeatPickerTarget === 'until' && repeatUntil) || date || new Date()}
+                            mode="date"
+                            display="default"
+                            onChange={handleRepeatDateChange}
+                            minimumDate={date || new Date()}
+                        />
+                    )}
+
                     {/* End Time Picker - Android */}
                     {Platform.OS === 'android' && showEndTimePicker && (
                         <DateTimePicker
@@ -1129,6 +1393,48 @@ const styles = StyleSheet.create({
     removeButton: {
         padding: scale(4),
     },
+    repeatOptions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: scale(8),
+    },
+    repeatOption: {
+        paddingHorizontal: scale(12),
+        paddingVertical: verticalScale(8),
+        borderRadius: moderateScale(16),
+        borderWidth: 1,
+        borderColor: Colors.inputBorder,
+        backgroundColor: Colors.white,
+    },
+    repeatOptionSelected: {
+        backgroundColor: Colors.lightBlue,
+        borderColor: Colors.solidBlue,
+    },
+    repeatOptionText: {
+        fontSize: moderateScale(14),
+        color: Colors.textMedium,
+    },
+    repeatOptionTextSelected: {
+        color: Colors.solidBlue,
+        fontWeight: '600',
+    },
+    repeatDetails: {
+        marginTop: verticalScale(12),
+        gap: verticalScale(10),
+    },
+    repeatRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: scale(8),
+    },
+    repeatRowLabel: {
+        fontSize: moderateScale(14),
+        color: Colors.textDark,
+    },
+    repeatNumberInput: {
+        width: scale(64),
+        textAlign: 'center',
+    },
 });
 
 export default withRoleProtection(CreateEventScreen, {
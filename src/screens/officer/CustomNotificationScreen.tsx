@@ -0,0 +1,520 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useToast } from 'components/ui/ToastProvider';
+import { withRoleProtection } from 'components/hoc/withRoleProtection';
+import EmptyState from 'components/ui/EmptyState';
+import LoadingSkeleton from 'components/ui/LoadingSkeleton';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { useEventData } from '../../hooks/useEventData';
+import {
+  useCustomNotificationAudiencePreview,
+  useCustomNotificationLog,
+  useSendCustomNotification,
+} from '../../hooks/useCustomNotifications';
+import {
+  CUSTOM_NOTIFICATION_AUDIENCES,
+  CUSTOM_NOTIFICATION_TITLE_MAX_LENGTH,
+  CUSTOM_NOTIFICATION_BODY_MAX_LENGTH,
+  CustomNotificationAudience,
+  CustomNotificationAudienceType,
+  CustomNotificationLogEntry,
+} from '../../types/notifications';
+import { OfficerStackParamList } from '../../types/navigation';
+
+const Colors = {
+  LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  inputBorder: '#D1D5DB',
+  errorRed: '#E53E3E',
+  lightBlue: '#EBF8FF',
+};
+
+const GRADES = [
+  { value: '9', label: '9th' },
+  { value: '10', label: '10th' },
+  { value: '11', label: '11th' },
+  { value: '12', label: '12th' },
+];
+
+// Most recent events first; attendees of older events are rarely messaged
+const EVENT_CHOICES_LIMIT = 15;
+
+const formatDate = (value?: string): string =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : '';
+
+const describeAudience = (audience: CustomNotificationAudience, eventTitle?: string): string => {
+  switch (audience.type) {
+    case 'grade':
+      return `Grade ${audience.grade}`;
+    case 'event_attendees':
+      return eventTitle ? `Attendees of ${eventTitle}` : 'Event attendees';
+    default:
+      return CUSTOM_NOTIFICATION_AUDIENCES.find(option => option.type === audience.type)?.label || audience.type;
+  }
+};
+
+type CustomNotificationScreenNavigationProp = NativeStackNavigationProp<OfficerStackParamList, 'CustomNotification'>;
+
+interface CustomNotificationScreenProps {
+  navigation: CustomNotificationScreenNavigationProp;
+}
+
+const CustomNotificationScreen = ({ navigation }: CustomNotificationScreenProps) => {
+  const { showSuccess, showError, showValidationError } = useToast();
+  const { activeOrganization } = useOrganization();
+  const insets = useSafeAreaInsets();
+  const orgId = activeOrganization?.id || '';
+
+  // Form state
+  const [audienceType, setAudienceType] = useState<CustomNotificationAudienceType>('all_members');
+  const [grade, setGrade] = useState('');
+  const [eventId, setEventId] = useState('');
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const audience = useMemo<CustomNotificationAudience>(() => ({
+    type: audienceType,
+    ...(audienceType === 'grade' && { grade }),
+    ...(audienceType === 'event_attendees' && { eventId }),
+  }), [audienceType, grade, eventId]);
+
+  const eventDataOptions = useMemo(() => ({ enableRealtime: false }), []);
+  const { events } = useEventData(eventDataOptions);
+  const eventChoices = useMemo(
+    () => [...events]
+      .filter(event => new Date(event.starts_at || event.event_date || event.created_at) <= new Date())
+      .sort((a, b) =>
+        new Date(b.starts_at || b.event_date || b.created_at).getTime() -
+        new Date(a.starts_at || a.event_date || a.created_at).getTime())
+      .slice(0, EVENT_CHOICES_LIMIT),
+    [events]
+  );
+
+  const { data: preview, isFetching: isCounting, error: previewError } =
+    useCustomNotificationAudiencePreview(orgId, audience);
+  const { data: log = [], isLoading: isLogLoading } = useCustomNotificationLog(orgId);
+  const sendNotification = useSendCustomNotification(orgId);
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!title.trim()) newErrors.title = 'Enter a title';
+    if (!body.trim()) newErrors.body = 'Enter a message';
+    if (audienceType === 'grade' && !grade) newErrors.audience = 'Choose a grade level';
+    if (audienceType === 'event_attendees' && !eventId) newErrors.audience = 'Choose an event';
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const send = async () => {
+    try {
+      const result = await sendNotification.mutateAsync({ title, body, audience });
+      showSuccess(
+        'Notification Sent',
+        `Delivered to ${result.delivered} of ${result.recipientCount} member${result.recipientCount === 1 ? '' : 's'}.` +
+          (result.deferred > 0 ? ` ${result.deferred} more will get it after their quiet hours.` : '')
+      );
+      setTitle('');
+      setBody('');
+      setErrors({});
+    } catch (error) {
+      showError('Send Failed', error instanceof Error ? error.message : 'Failed to send notification.');
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!validateForm()) {
+      showValidationError('Validation Error', 'Please fix the highlighted fields.');
+      return;
+    }
+
+    if (!preview?.reachable) {
+      showError('No Recipients', 'No one in this audience can receive notifications right now.');
+      return;
+    }
+
+    const eventTitle = eventChoices.find(event => event.id === eventId)?.title;
+    Alert.alert(
+      'Send Notification',
+      `Send "${title.trim()}" to ${preview.reachable} member${preview.reachable === 1 ? '' : 's'} (${describeAudience(audience, eventTitle)})?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Send', onPress: send },
+      ]
+    );
+  };
+
+  const renderOption = (optionLabel: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={optionLabel}
+      style={[styles.option, isSelected && styles.optionSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>{optionLabel}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderPreview = () => {
+    if (audienceType === 'grade' && !grade) {
+      return <Text style={styles.helperText}>Choose a grade to see who this reaches.</Text>;
+    }
+    if (audienceType === 'event_attendees' && !eventId) {
+      return <Text style={styles.helperText}>Choose an event to see who this reaches.</Text>;
+    }
+    if (isCounting && !preview) {
+      return <ActivityIndicator size="small" color={Colors.solidBlue} style={styles.previewLoading} />;
+    }
+    if (previewError) {
+      return <Text style={styles.errorText}>{previewError.message}</Text>;
+    }
+    if (!preview) return null;
+
+    const skipped = preview.matched - preview.reachable;
+    return (
+      <View style={styles.preview}>
+        <Icon name="people" size={moderateScale(18)} color={Colors.solidBlue} />
+        <Text style={styles.previewText}>
+          {preview.reachable} of {preview.matched} member{preview.matched === 1 ? '' : 's'} will get this
+          {skipped > 0 ? ` (${skipped} turned off notifications or have no device)` : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderLogEntry = (entry: CustomNotificationLogEntry) => (
+    <View key={entry.id} style={styles.logCard}>
+      <Text style={styles.logTitle} numberOfLines={1}>{entry.title}</Text>
+      <Text style={styles.logBody} numberOfLines={2}>{entry.body}</Text>
+      <Text style={styles.logMeta}>
+        {describeAudience(entry.audience)} • {entry.delivered_count ?? 0}/{entry.recipient_count} delivered • {formatDate(entry.sent_at)}
+      </Text>
+    </View>
+  );
+
+  return (
+    <LinearGradient
+      colors={Colors.LandingScreenGradient}
+      style={{ flex: 1 }}
+      start={{ x: 0.5, y: 0 }}
+      end={{ x: 0.5, y: 1 }}
+    >
+      <SafeAreaView style={{ flex: 1 }}>
+        <KeyboardAvoidingView
+          style={{ flex: 1 }}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <ScrollView
+            contentContainerStyle={[
+              styles.scrollContainer,
+              {
+                paddingTop: insets.top,
+                paddingBottom: insets.bottom + verticalScale(40),
+              },
+            ]}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            {/* Header with Back Button */}
+            <View style={styles.header}>
+              <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                <Icon name="arrow-back" size={moderateScale(24)} color={Colors.textDark} />
+              </TouchableOpacity>
+              <Text style={styles.headerTitle}>Send Notification</Text>
+              <View style={styles.headerPlaceholder} />
+            </View>
+
+            {/* Compose Form */}
+            <View style={styles.formCard}>
+              <Text style={styles.inputLabel}>Send To</Text>
+              <View style={styles.options}>
+                {CUSTOM_NOTIFICATION_AUDIENCES.map(option =>
+                  renderOption(option.label, audienceType === option.type, () => setAudienceType(option.type))
+                )}
+              </View>
+              <Text style={styles.helperText}>
+                {CUSTOM_NOTIFICATION_AUDIENCES.find(option => option.type === audienceType)?.description}
+              </Text>
+
+              {audienceType === 'grade' && (
+                <>
+                  <Text style={styles.inputLabel}>Grade Level</Text>
+                  <View style={styles.options}>
+                    {GRADES.map(option =>
+                      renderOption(option.label, grade === option.value, () => setGrade(option.value))
+                    )}
+                  </View>
+                </>
+              )}
+
+              {audienceType === 'event_attendees' && (
+                <>
+                  <Text style={styles.inputLabel}>Event</Text>
+                  {eventChoices.length === 0 ? (
+                    <Text style={styles.helperText}>No past events to choose from.</Text>
+                  ) : (
+                    <View style={styles.options}>
+                      {eventChoices.map(event =>
+                        renderOption(
+                          `${event.title} · ${formatDate(event.starts_at || event.event_date)}`,
+                          eventId === event.id,
+                          () => setEventId(event.id)
+                        )
+                      )}
+                    </View>
+                  )}
+                </>
+              )}
+              {errors.audience && <Text style={styles.errorText}>{errors.audience}</Text>}
+
+              {renderPreview()}
+
+              <Text style={styles.inputLabel}>Title</Text>
+              <TextInput
+                style={[styles.textInput, errors.title && styles.inputError]}
+                placeholder="e.g. Service hours due Friday"
+                placeholderTextColor={Colors.textLight}
+                value={title}
+                onChangeText={setTitle}
+                maxLength={CUSTOM_NOTIFICATION_TITLE_MAX_LENGTH}
+              />
+              {errors.title && <Text style={styles.errorText}>{errors.title}</Text>}
+
+              <Text style={styles.inputLabel}>Message</Text>
+              <TextInput
+                style={[styles.textInput, styles.textArea, errors.body && styles.inputError]}
+                placeholder="What do members need to know?"
+                placeholderTextColor={Colors.textLight}
+                value={body}
+                onChangeText={setBody}
+                maxLength={CUSTOM_NOTIFICATION_BODY_MAX_LENGTH}
+                multiline
+                textAlignVertical="top"
+              />
+              {errors.body && <Text style={styles.errorText}>{errors.body}</Text>}
+              <Text style={styles.helperText}>
+                {body.length}/{CUSTOM_NOTIFICATION_BODY_MAX_LENGTH}
+              </Text>
+
+              <TouchableOpacity
+                style={[styles.submitButton, sendNotification.isPending && styles.submitButtonDisabled]}
+                onPress={handleSubmit}
+                disabled={sendNotification.isPending}
+              >
+                <Text style={styles.submitButtonText}>
+                  {sendNotification.isPending ? 'Sending...' : 'Send Notification'}
+                </Text>
+              </TouchableOpacity>
+              <Text style={styles.helperText}>
+                Each officer can send up to 10 custom notifications a day.
+              </Text>
+            </View>
+
+            {/* Send Log */}
+            <Text style={styles.sectionTitle}>Recently Sent</Text>
+            {isLogLoading ? (
+              <LoadingSkeleton height={verticalScale(80)} style={{ marginBottom: verticalScale(16) }} />
+            ) : log.length === 0 ? (
+              <EmptyState
+                icon="notifications-none"
+                title="Nothing Sent Yet"
+                description="Custom notifications sent by officers will appear here."
+                style={{ paddingVertical: verticalScale(24) }}
+              />
+            ) : (
+              log.map(renderLogEntry)
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: scale(16),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(24),
+  },
+  backButton: {
+    padding: scale(8),
+  },
+  headerTitle: {
+    fontSize: moderateScale(24),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    textAlign: 'center',
+  },
+  headerPlaceholder: {
+    width: scale(40),
+  },
+  sectionTitle: {
+    fontSize: moderateScale(20),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    marginTop: verticalScale(24),
+    marginBottom: verticalScale(12),
+  },
+  formCard: {
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(16),
+    padding: scale(20),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(2) },
+    shadowOpacity: 0.1,
+    shadowRadius: moderateScale(8),
+    elevation: 4,
+  },
+  inputLabel: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(8),
+  },
+  textInput: {
+    height: verticalScale(48),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: moderateScale(8),
+    paddingHorizontal: scale(16),
+    backgroundColor: Colors.white,
+    fontSize: moderateScale(16),
+    color: Colors.textDark,
+  },
+  textArea: {
+    height: verticalScale(110),
+    paddingTop: verticalScale(12),
+  },
+  inputError: {
+    borderColor: Colors.errorRed,
+  },
+  errorText: {
+    fontSize: moderateScale(12),
+    color: Colors.errorRed,
+    marginTop: verticalScale(4),
+  },
+  helperText: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+    marginTop: verticalScale(4),
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: scale(8),
+  },
+  option: {
+    paddingHorizontal: scale(12),
+    paddingVertical: verticalScale(8),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    backgroundColor: Colors.white,
+  },
+  optionSelected: {
+    backgroundColor: Colors.lightBlue,
+    borderColor: Colors.solidBlue,
+  },
+  optionText: {
+    fontSize: moderateScale(14),
+    color: Colors.textMedium,
+  },
+  optionTextSelected: {
+    color: Colors.solidBlue,
+    fontWeight: '600',
+  },
+  preview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(8),
+    backgroundColor: Colors.lightBlue,
+    borderRadius: moderateScale(8),
+    padding: scale(12),
+    marginTop: verticalScale(16),
+  },
+  previewText: {
+    flex: 1,
+    fontSize: moderateScale(14),
+    color: Colors.textDark,
+  },
+  previewLoading: {
+    marginTop: verticalScale(16),
+  },
+  submitButton: {
+    backgroundColor: Colors.solidBlue,
+    borderRadius: moderateScale(8),
+    paddingVertical: verticalScale(14),
+    alignItems: 'center',
+    marginTop: verticalScale(24),
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: moderateScale(16),
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  logCard: {
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    padding: scale(16),
+    marginBottom: verticalScale(12),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(1) },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  logTitle: {
+    fontSize: moderateScale(15),
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  logBody: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+  },
+  logMeta: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+    marginTop: verticalScale(6),
+  },
+});
+
+export default withRoleProtection(CustomNotificationScreen, {
+  requiredRole: 'officer',
+  loadingMessage: 'Verifying officer access...'
+});
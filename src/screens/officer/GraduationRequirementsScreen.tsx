@@ -0,0 +1,579 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  Modal,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useToast } from 'components/ui/ToastProvider';
+import { withRoleProtection } from 'components/hoc/withRoleProtection';
+import EmptyState from 'components/ui/EmptyState';
+import LoadingSkeleton from 'components/ui/LoadingSkeleton';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import {
+  useGraduationRequirements,
+  useCreateGraduationRequirement,
+  useArchiveGraduationRequirement,
+} from '../../hooks/useGraduationRequirements';
+import {
+  GraduationRequirement,
+  GraduationRequirementPeriod,
+  GraduationRequirementType,
+} from '../../types/dataService';
+import { OfficerStackParamList } from '../../types/navigation';
+import {
+  REQUIREMENT_PERIOD_LABELS,
+  REQUIREMENT_TYPE_LABELS,
+  formatRequirementAmount,
+  formatRequirementDate,
+  toDateKey,
+} from '../../utils/requirementUtils';
+
+const Colors = {
+  LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  inputBorder: '#D1D5DB',
+  errorRed: '#E53E3E',
+  lightBlue: '#EBF8FF',
+};
+
+const REQUIREMENT_TYPES: GraduationRequirementType[] = ['verified_hours', 'organization_event_hours', 'meetings_attended'];
+const PERIODS: GraduationRequirementPeriod[] = ['semester', 'year'];
+
+// Default deadline when an officer picks a period
+const PERIOD_MONTHS: Record<GraduationRequirementPeriod, number> = {
+  semester: 5,
+  year: 10,
+};
+
+const addMonths = (date: Date, months: number): Date => {
+  const next = new Date(date);
+  next.setMonth(next.getMonth() + months);
+  return next;
+};
+
+type DateField = 'startsOn' | 'endsOn';
+
+type GraduationRequirementsScreenNavigationProp = NativeStackNavigationProp<OfficerStackParamList, 'GraduationRequirements'>;
+
+interface GraduationRequirementsScreenProps {
+  navigation: GraduationRequirementsScreenNavigationProp;
+}
+
+const GraduationRequirementsScreen = ({ navigation }: GraduationRequirementsScreenProps) => {
+  const { showSuccess, showError, showValidationError } = useToast();
+  const { activeOrganization } = useOrganization();
+  const insets = useSafeAreaInsets();
+  const orgId = activeOrganization?.id || '';
+
+  const { data: requirements = [], isLoading } = useGraduationRequirements(orgId);
+  const createRequirement = useCreateGraduationRequirement(orgId);
+  const archiveRequirement = useArchiveGraduationRequirement();
+
+  // Form state
+  const [name, setName] = useState('');
+  const [requirementType, setRequirementType] = useState<GraduationRequirementType>('verified_hours');
+  const [target, setTarget] = useState('');
+  const [period, setPeriod] = useState<GraduationRequirementPeriod>('semester');
+  const [startsOn, setStartsOn] = useState<Date>(new Date());
+  const [endsOn, setEndsOn] = useState<Date>(addMonths(new Date(), PERIOD_MONTHS.semester));
+  const [activeDateField, setActiveDateField] = useState<DateField | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handlePeriodPress = (value: GraduationRequirementPeriod) => {
+    setPeriod(value);
+    setEndsOn(addMonths(startsOn, PERIOD_MONTHS[value]));
+  };
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      const field = activeDateField;
+      setActiveDateField(null);
+      if (event.type !== 'set' || !selectedDate || !field) return;
+      (field === 'startsOn' ? setStartsOn : setEndsOn)(selectedDate);
+    } else if (selectedDate && activeDateField) {
+      (activeDateField === 'startsOn' ? setStartsOn : setEndsOn)(selectedDate);
+    }
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+    const targetValue = Number(target);
+
+    if (!name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (!target.trim() || !Number.isFinite(targetValue) || targetValue <= 0) {
+      newErrors.target = 'Enter a target greater than zero';
+    } else if (requirementType === 'meetings_attended' && !Number.isInteger(targetValue)) {
+      newErrors.target = 'Meeting targets must be a whole number';
+    }
+
+    if (toDateKey(endsOn) <= toDateKey(startsOn)) {
+      newErrors.dates = 'The deadline must be after the start date';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const resetForm = () => {
+    setName('');
+    setTarget('');
+    setErrors({});
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      showValidationError('Validation Error', 'Please fix the highlighted fields.');
+      return;
+    }
+
+    try {
+      await createRequirement.mutateAsync({
+        name: name.trim(),
+        requirement_type: requirementType,
+        target_value: Number(target),
+        period,
+        starts_on: toDateKey(startsOn),
+        ends_on: toDateKey(endsOn),
+      });
+      showSuccess('Requirement Added', 'Members can now track their progress toward it.');
+      resetForm();
+    } catch (error) {
+      showError('Save Failed', error instanceof Error ? error.message : 'Failed to add requirement.');
+    }
+  };
+
+  const confirmArchive = (requirement: GraduationRequirement) => {
+    Alert.alert(
+      'Remove Requirement',
+      `Stop tracking "${requirement.name}"? Members will no longer see it on their dashboard.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await archiveRequirement.mutateAsync(requirement.id);
+              showSuccess('Requirement Removed', `"${requirement.name}" is no longer tracked.`);
+            } catch (error) {
+              showError('Remove Failed', error instanceof Error ? error.message : 'Failed to remove requirement.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderOption = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.option, isSelected && styles.optionSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <LinearGradient
+      colors={Colors.LandingScreenGradient}
+      style={{ flex: 1 }}
+      start={{ x: 0.5, y: 0 }}
+      end={{ x: 0.5, y: 1 }}
+    >
+      <SafeAreaView style={{ flex: 1 }}>
+        <KeyboardAvoidingView
+          style={{ flex: 1 }}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <ScrollView
+            contentContainerStyle={[
+              styles.scrollContainer,
+              {
+                paddingTop: insets.top,
+                paddingBottom: insets.bottom + verticalScale(40),
+              },
+            ]}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            {/* Header with Back Button */}
+            <View style={styles.header}>
+              <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                <Icon name="arrow-back" size={moderateScale(24)} color={Colors.textDark} />
+              </TouchableOpacity>
+              <Text style={styles.headerTitle}>Requirements</Text>
+              <View style={styles.headerPlaceholder} />
+            </View>
+
+            {/* Current Requirements */}
+            <Text style={styles.sectionTitle}>Current Requirements</Text>
+            {isLoading ? (
+              <LoadingSkeleton height={verticalScale(80)} style={{ marginBottom: verticalScale(16) }} />
+            ) : requirements.length === 0 ? (
+              <EmptyState
+                icon="school"
+                title="No Requirements Yet"
+                description="Add a requirement below to track member progress."
+                style={{ paddingVertical: verticalScale(24) }}
+              />
+            ) : (
+              requirements.map(requirement => (
+                <View key={requirement.id} style={styles.requirementCard}>
+                  <View style={styles.requirementInfo}>
+                    <Text style={styles.requirementName}>{requirement.name}</Text>
+                    <Text style={styles.requirementDetail}>
+                      {formatRequirementAmount(requirement.target_value, requirement.requirement_type)}
+                      {' • '}{REQUIREMENT_TYPE_LABELS[requirement.requirement_type]}
+                    </Text>
+                    <Text style={styles.requirementDetail}>
+                      {REQUIREMENT_PERIOD_LABELS[requirement.period]}: {formatRequirementDate(requirement.starts_on)}
+                      {' – '}{formatRequirementDate(requirement.ends_on)}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => confirmArchive(requirement)}
+                    disabled={archiveRequirement.isPending}
+                    style={styles.removeButton}
+                  >
+                    <Icon name="delete-outline" size={moderateScale(22)} color={Colors.errorRed} />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+
+            {/* Add Requirement Form */}
+            <View style={styles.formCard}>
+              <Text style={styles.formTitle}>Add Requirement</Text>
+
+              <Text style={styles.inputLabel}>Name</Text>
+              <TextInput
+                style={[styles.textInput, errors.name && styles.inputError]}
+                placeholder="e.g. Fall semester service hours"
+                placeholderTextColor={Colors.textLight}
+                value={name}
+                onChangeText={setName}
+                maxLength={60}
+              />
+              {errors.name && <Text style={styles.errorText}>{errors.name}</Text>}
+
+              <Text style={styles.inputLabel}>Counts</Text>
+              <View style={styles.options}>
+                {REQUIREMENT_TYPES.map(type =>
+                  renderOption(REQUIREMENT_TYPE_LABELS[type], requirementType === type, () => setRequirementType(type))
+                )}
+              </View>
+
+              <Text style={styles.inputLabel}>
+                {requirementType === 'meetings_attended' ? 'Meetings Required' : 'Hours Required'}
+              </Text>
+              <TextInput
+                style={[styles.textInput, errors.target && styles.inputError]}
+                placeholder={requirementType === 'meetings_attended' ? 'e.g. 8' : 'e.g. 20'}
+                placeholderTextColor={Colors.textLight}
+                value={target}
+                onChangeText={setTarget}
+                keyboardType="decimal-pad"
+              />
+              {errors.target && <Text style={styles.errorText}>{errors.target}</Text>}
+
+              <Text style={styles.inputLabel}>Period</Text>
+              <View style={styles.options}>
+                {PERIODS.map(value =>
+                  renderOption(REQUIREMENT_PERIOD_LABELS[value], period === value, () => handlePeriodPress(value))
+                )}
+              </View>
+
+              <View style={styles.dateRow}>
+                {([
+                  { field: 'startsOn', label: 'Starts', value: startsOn },
+                  { field: 'endsOn', label: 'Deadline', value: endsOn },
+                ] as const).map(({ field, label, value }) => (
+                  <View key={field} style={styles.dateColumn}>
+                    <Text style={styles.inputLabel}>{label}</Text>
+                    <TouchableOpacity
+                      style={[styles.dateInput, errors.dates && styles.inputError]}
+                      onPress={() => setActiveDateField(field)}
+                    >
+                      <Text style={styles.dateText}>{formatRequirementDate(toDateKey(value))}</Text>
+                      <Icon name="calendar-today" size={moderateScale(18)} color={Colors.textLight} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+              {errors.dates && <Text style={styles.errorText}>{errors.dates}</Text>}
+
+              <TouchableOpacity
+                style={[styles.submitButton, createRequirement.isPending && styles.submitButtonDisabled]}
+                onPress={handleSubmit}
+                disabled={createRequirement.isPending}
+              >
+                <Text style={styles.submitButtonText}>
+                  {createRequirement.isPending ? 'Saving...' : 'Add Requirement'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+
+        {/* Date Picker Modal - iOS */}
+        {Platform.OS === 'ios' && activeDateField && (
+          <Modal
+            visible={true}
+            transparent={true}
+            animationType="slide"
+            onRequestClose={() => setActiveDateField(null)}
+          >
+            <TouchableWithoutFeedback onPress={() => setActiveDateField(null)}>
+              <View style={styles.pickerOverlay}>
+                <TouchableWithoutFeedback>
+                  <View style={styles.pickerContainer}>
+                    <View style={styles.pickerHeader}>
+                      <TouchableOpacity onPress={() => setActiveDateField(null)}>
+                        <Text style={styles.pickerDoneButton}>Done</Text>
+                      </TouchableOpacity>
+                    </View>
+                    <DateTimePicker
+                      value={activeDateField === 'startsOn' ? startsOn : endsOn}
+                      mode="date"
+                      display="spinner"
+                      onChange={handleDateChange}
+                      textColor={Colors.textDark}
+                    />
+                  </View>
+                </TouchableWithoutFeedback>
+              </View>
+            </TouchableWithoutFeedback>
+          </Modal>
+        )}
+
+        {/* Date Picker - Android */}
+        {Platform.OS === 'android' && activeDateField && (
+          <DateTimePicker
+            value={activeDateField === 'startsOn' ? startsOn : endsOn}
+            mode="date"
+            display="default"
+            onChange={handleDateChange}
+          />
+        )}
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: scale(16),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(24),
+  },
+  backButton: {
+    padding: scale(8),
+  },
+  headerTitle: {
+    fontSize: moderateScale(24),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    textAlign: 'center',
+  },
+  headerPlaceholder: {
+    width: scale(40),
+  },
+  sectionTitle: {
+    fontSize: moderateScale(20),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    marginBottom: verticalScale(12),
+  },
+  requirementCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    padding: scale(16),
+    marginBottom: verticalScale(12),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(1) },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  requirementInfo: {
+    flex: 1,
+  },
+  requirementName: {
+    fontSize: moderateScale(16),
+    fontWeight: '600',
+    color: Colors.textDark,
+    marginBottom: verticalScale(4),
+  },
+  requirementDetail: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+  },
+  removeButton: {
+    padding: scale(8),
+  },
+  formCard: {
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(16),
+    padding: scale(20),
+    marginTop: verticalScale(12),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(2) },
+    shadowOpacity: 0.1,
+    shadowRadius: moderateScale(8),
+    elevation: 4,
+  },
+  formTitle: {
+    fontSize: moderateScale(20),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    marginBottom: verticalScale(8),
+  },
+  inputLabel: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(8),
+  },
+  textInput: {
+    height: verticalScale(48),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: moderateScale(8),
+    paddingHorizontal: scale(16),
+    backgroundColor: Colors.white,
+    fontSize: moderateScale(16),
+    color: Colors.textDark,
+  },
+  inputError: {
+    borderColor: Colors.errorRed,
+  },
+  errorText: {
+    fontSize: moderateScale(12),
+    color: Colors.errorRed,
+    marginTop: verticalScale(4),
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: scale(8),
+  },
+  option: {
+    paddingHorizontal: scale(12),
+    paddingVertical: verticalScale(8),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    backgroundColor: Colors.white,
+  },
+  optionSelected: {
+    backgroundColor: Colors.lightBlue,
+    borderColor: Colors.solidBlue,
+  },
+  optionText: {
+    fontSize: moderateScale(14),
+    color: Colors.textMedium,
+  },
+  optionTextSelected: {
+    color: Colors.solidBlue,
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: scale(12),
+  },
+  dateColumn: {
+    flex: 1,
+  },
+  dateInput: {
+    height: verticalScale(48),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: moderateScale(8),
+    backgroundColor: Colors.white,
+    paddingHorizontal: scale(12),
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  dateText: {
+    fontSize: moderateScale(14),
+    color: Colors.textDark,
+  },
+  submitButton: {
+    backgroundColor: Colors.solidBlue,
+    borderRadius: moderateScale(8),
+    paddingVertical: verticalScale(14),
+    alignItems: 'center',
+    marginTop: verticalScale(24),
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: moderateScale(16),
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  pickerOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  pickerContainer: {
+    backgroundColor: Colors.white,
+    borderTopLeftRadius: moderateScale(20),
+    borderTopRightRadius: moderateScale(20),
+    paddingBottom: verticalScale(20),
+  },
+  pickerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    paddingHorizontal: scale(20),
+    paddingVertical: verticalScale(12),
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.inputBorder,
+  },
+  pickerDoneButton: {
+    fontSize: moderateScale(16),
+    color: Colors.solidBlue,
+    fontWeight: '600',
+  },
+});
+
+export default withRoleProtection(GraduationRequirementsScreen, {
+  requiredRole: 'officer',
+  loadingMessage: 'Verifying officer access...'
+});
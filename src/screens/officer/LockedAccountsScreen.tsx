@@ -0,0 +1,222 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useToast } from 'components/ui/ToastProvider';
+import { withRoleProtection } from 'components/hoc/withRoleProtection';
+import EmptyState from 'components/ui/EmptyState';
+import LoadingSkeleton from 'components/ui/LoadingSkeleton';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { useLockedAccounts, useUnlockAccount } from '../../hooks/useAccountLockouts';
+import { LockedAccount } from '../../types/dataService';
+import { OfficerStackParamList } from '../../types/navigation';
+
+const Colors = {
+  LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  errorRed: '#E53E3E',
+  lightBlue: '#EBF8FF',
+};
+
+const formatLockedUntil = (value: string): string => {
+  const minutes = Math.max(1, Math.ceil((new Date(value).getTime() - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+type LockedAccountsScreenNavigationProp = NativeStackNavigationProp<OfficerStackParamList, 'LockedAccounts'>;
+
+interface LockedAccountsScreenProps {
+  navigation: LockedAccountsScreenNavigationProp;
+}
+
+const LockedAccountsScreen = ({ navigation }: LockedAccountsScreenProps) => {
+  const { showSuccess, showError } = useToast();
+  const { activeOrganization } = useOrganization();
+  const orgId = activeOrganization?.id || '';
+
+  const { data: accounts = [], isLoading, isFetching, refetch } = useLockedAccounts(orgId);
+  const unlockAccount = useUnlockAccount(orgId);
+
+  const confirmUnlock = (account: LockedAccount) => {
+    Alert.alert(
+      'Unlock Account',
+      `Let ${account.member_name} sign in again now? Only unlock an account if you've confirmed the member is the one trying to sign in.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unlock',
+          onPress: async () => {
+            try {
+              await unlockAccount.mutateAsync(account.email);
+              showSuccess('Account Unlocked', `${account.member_name} can sign in again.`);
+            } catch (error) {
+              showError('Unlock Failed', error instanceof Error ? error.message : 'Failed to unlock account.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderAccount = ({ item }: { item: LockedAccount }) => (
+    <View style={styles.accountCard}>
+      <Icon name="lock" size={moderateScale(22)} color={Colors.errorRed} />
+      <View style={styles.accountInfo}>
+        <Text style={styles.accountName}>{item.member_name}</Text>
+        <Text style={styles.accountDetail}>{item.email}</Text>
+        <Text style={styles.accountDetail}>
+          Locked for {formatLockedUntil(item.locked_until)}
+          {item.lockout_level > 1 ? ` • locked ${item.lockout_level} times` : ''}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.unlockButton}
+        onPress={() => confirmUnlock(item)}
+        disabled={unlockAccount.isPending}
+      >
+        <Text style={styles.unlockButtonText}>Unlock</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <LinearGradient
+      colors={Colors.LandingScreenGradient}
+      style={{ flex: 1 }}
+      start={{ x: 0.5, y: 0 }}
+      end={{ x: 0.5, y: 1 }}
+    >
+      <SafeAreaView style={{ flex: 1 }}>
+        <View style={styles.container}>
+          {/* Header with Back Button */}
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+              <Icon name="arrow-back" size={moderateScale(24)} color={Colors.textDark} />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Locked Accounts</Text>
+            <View style={styles.headerPlaceholder} />
+          </View>
+
+          <Text style={styles.description}>
+            Members are locked out after repeated failed sign-in attempts. Each lockout lasts longer than the last.
+          </Text>
+
+          {isLoading ? (
+            <LoadingSkeleton height={verticalScale(80)} />
+          ) : (
+            <FlatList
+              data={accounts}
+              keyExtractor={item => item.email}
+              renderItem={renderAccount}
+              contentContainerStyle={styles.listContent}
+              refreshControl={<RefreshControl refreshing={isFetching && !isLoading} onRefresh={refetch} />}
+              ListEmptyComponent={
+                <EmptyState
+                  icon="lock-open"
+                  title="No Locked Accounts"
+                  description="Every member can sign in right now."
+                  style={{ paddingVertical: verticalScale(24) }}
+                />
+              }
+            />
+          )}
+        </View>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: scale(16),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(16),
+  },
+  backButton: {
+    padding: scale(8),
+  },
+  headerTitle: {
+    fontSize: moderateScale(24),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    textAlign: 'center',
+  },
+  headerPlaceholder: {
+    width: scale(40),
+  },
+  description: {
+    fontSize: moderateScale(14),
+    color: Colors.textMedium,
+    marginBottom: verticalScale(8),
+  },
+  listContent: {
+    paddingTop: verticalScale(8),
+    paddingBottom: verticalScale(40),
+  },
+  accountCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    padding: scale(14),
+    marginBottom: verticalScale(10),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(1) },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  accountInfo: {
+    flex: 1,
+    marginLeft: scale(12),
+  },
+  accountName: {
+    fontSize: moderateScale(15),
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  accountDetail: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+  },
+  unlockButton: {
+    backgroundColor: Colors.lightBlue,
+    borderRadius: moderateScale(8),
+    paddingHorizontal: scale(12),
+    paddingVertical: verticalScale(8),
+  },
+  unlockButtonText: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+  },
+});
+
+export default withRoleProtection(LockedAccountsScreen, {
+  requiredRole: 'officer',
+  loadingMessage: 'Verifying officer access...'
+});
@@ -0,0 +1,367 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { useToast } from 'components/ui/ToastProvider';
+import { withRoleProtection } from 'components/hoc/withRoleProtection';
+import EmptyState from 'components/ui/EmptyState';
+import LoadingSkeleton from 'components/ui/LoadingSkeleton';
+import { useAuth } from '../../contexts/AuthContext';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import {
+  useMemberRoster,
+  useMemberActivitySummary,
+  useUpdateMemberRole,
+  useDeactivateMember,
+} from '../../hooks/useMemberRoster';
+import { OfficerStackParamList } from '../../types/navigation';
+import { formatAuditTimestamp } from '../../utils/auditUtils';
+
+const Colors = {
+  LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  errorRed: '#E53E3E',
+  lightBlue: '#EBF8FF',
+};
+
+type MemberProfileScreenNavigationProp = NativeStackNavigationProp<OfficerStackParamList, 'MemberProfile'>;
+
+interface MemberProfileScreenProps {
+  navigation: MemberProfileScreenNavigationProp;
+  route: RouteProp<OfficerStackParamList, 'MemberProfile'>;
+}
+
+const MemberProfileScreen = ({ navigation, route }: MemberProfileScreenProps) => {
+  const { memberId } = route.params;
+  const { user } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const { activeOrganization } = useOrganization();
+  const orgId = activeOrganization?.id || '';
+
+  const { data: members = [], isLoading: rosterLoading, refetch: refetchRoster } = useMemberRoster(orgId);
+  const {
+    data: summary,
+    isLoading: summaryLoading,
+    isFetching,
+    refetch: refetchSummary,
+  } = useMemberActivitySummary(orgId, memberId);
+  const updateRole = useUpdateMemberRole(orgId);
+  const deactivateMember = useDeactivateMember(orgId);
+
+  const member = members.find(item => item.member_id === memberId);
+  const isSelf = user?.id === memberId;
+  const isBusy = updateRole.isPending || deactivateMember.isPending;
+
+  const confirmRoleChange = () => {
+    if (!member) return;
+
+    const promoting = member.role === 'member';
+    Alert.alert(
+      promoting ? 'Promote to Officer' : 'Demote to Member',
+      promoting
+        ? `${member.member_name} will be able to approve hours, manage events and change other members' roles.`
+        : `${member.member_name} will lose access to officer tools.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: promoting ? 'Promote' : 'Demote',
+          style: promoting ? 'default' : 'destructive',
+          onPress: async () => {
+            try {
+              await updateRole.mutateAsync({ memberId, role: promoting ? 'officer' : 'member' });
+              showSuccess('Role Updated', `${member.member_name} is now ${promoting ? 'an officer' : 'a member'}.`);
+            } catch (error) {
+              showError('Update Failed', error instanceof Error ? error.message : 'Failed to update role.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const confirmDeactivate = () => {
+    if (!member) return;
+
+    Alert.alert(
+      'Deactivate Member',
+      `${member.member_name} will lose access to this organization. Their hours and attendance are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Deactivate',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deactivateMember.mutateAsync(memberId);
+              showSuccess('Member Deactivated', `${member.member_name} has been deactivated.`);
+            } catch (error) {
+              showError('Deactivation Failed', error instanceof Error ? error.message : 'Failed to deactivate member.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const onRefresh = () => {
+    refetchRoster();
+    refetchSummary();
+  };
+
+  const renderStat = (label: string, value: string) => (
+    <View style={styles.statCard} key={label}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+
+  return (
+    <LinearGradient
+      colors={Colors.LandingScreenGradient}
+      style={{ flex: 1 }}
+      start={{ x: 0.5, y: 0 }}
+      end={{ x: 0.5, y: 1 }}
+    >
+      <SafeAreaView style={{ flex: 1 }}>
+        <View style={styles.container}>
+          {/* Header with Back Button */}
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+              <Icon name="arrow-back" size={moderateScale(24)} color={Colors.textDark} />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Member Profile</Text>
+            <View style={styles.headerPlaceholder} />
+          </View>
+
+          {rosterLoading ? (
+            <LoadingSkeleton height={verticalScale(120)} />
+          ) : !member ? (
+            <EmptyState
+              icon="person-off"
+              title="Member Not Found"
+              description="This person is not a member of your organization."
+              style={{ paddingVertical: verticalScale(24) }}
+            />
+          ) : (
+            <ScrollView
+              contentContainerStyle={styles.scrollContent}
+              refreshControl={<RefreshControl refreshing={isFetching && !summaryLoading} onRefresh={onRefresh} />}
+            >
+              <View style={styles.card}>
+                <Text style={styles.memberName}>{member.member_name}</Text>
+                {!!member.email && <Text style={styles.memberDetail}>{member.email}</Text>}
+                {!!member.grade && <Text style={styles.memberDetail}>Grade {member.grade}</Text>}
+                {!!member.student_id && <Text style={styles.memberDetail}>Student ID {member.student_id}</Text>}
+                <Text style={styles.memberDetail}>
+                  {member.is_active ? (member.role === 'officer' ? 'Officer' : 'Member') : 'Inactive'}
+                  {` • Joined ${new Date(member.joined_at).toLocaleDateString()}`}
+                </Text>
+              </View>
+
+              {summaryLoading ? (
+                <LoadingSkeleton height={verticalScale(80)} />
+              ) : summary && (
+                <>
+                  <View style={styles.statRow}>
+                    {renderStat('Verified Hours', String(summary.verified_hours))}
+                    {renderStat('Pending Hours', String(summary.pending_hours))}
+                    {renderStat('Events Attended', String(summary.events_attended))}
+                  </View>
+
+                  <Text style={styles.sectionTitle}>Recent Activity</Text>
+                  {summary.recent_activity.length === 0 ? (
+                    <Text style={styles.emptyText}>No hours or attendance recorded yet.</Text>
+                  ) : (
+                    summary.recent_activity.map((activity, index) => (
+                      <View style={styles.activityRow} key={`${activity.type}-${activity.occurred_at}-${index}`}>
+                        <Icon
+                          name={activity.type === 'attendance' ? 'event-available' : 'volunteer-activism'}
+                          size={moderateScale(20)}
+                          color={Colors.solidBlue}
+                        />
+                        <View style={styles.activityInfo}>
+                          <Text style={styles.activityTitle}>{activity.title}</Text>
+                          <Text style={styles.activityDetail}>
+                            {activity.detail} • {formatAuditTimestamp(activity.occurred_at)}
+                          </Text>
+                        </View>
+                      </View>
+                    ))
+                  )}
+                </>
+              )}
+
+              {member.is_active && !isSelf && (
+                <View style={styles.actions}>
+                  <TouchableOpacity style={styles.primaryButton} onPress={confirmRoleChange} disabled={isBusy}>
+                    <Text style={styles.primaryButtonText}>
+                      {member.role === 'member' ? 'Promote to Officer' : 'Demote to Member'}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.dangerButton} onPress={confirmDeactivate} disabled={isBusy}>
+                    <Text style={styles.dangerButtonText}>Deactivate Member</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: scale(16),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(16),
+  },
+  backButton: {
+    padding: scale(8),
+  },
+  headerTitle: {
+    fontSize: moderateScale(24),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    textAlign: 'center',
+  },
+  headerPlaceholder: {
+    width: scale(40),
+  },
+  scrollContent: {
+    paddingBottom: verticalScale(40),
+  },
+  card: {
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    padding: scale(16),
+    marginBottom: verticalScale(12),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(1) },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  memberName: {
+    fontSize: moderateScale(20),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    marginBottom: verticalScale(4),
+  },
+  memberDetail: {
+    fontSize: moderateScale(14),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+  },
+  statRow: {
+    flexDirection: 'row',
+    gap: scale(8),
+    marginBottom: verticalScale(16),
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    paddingVertical: verticalScale(12),
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: moderateScale(20),
+    fontWeight: 'bold',
+    color: Colors.solidBlue,
+  },
+  statLabel: {
+    fontSize: moderateScale(12),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontSize: moderateScale(18),
+    fontWeight: '600',
+    color: Colors.textDark,
+    marginBottom: verticalScale(8),
+  },
+  emptyText: {
+    fontSize: moderateScale(14),
+    color: Colors.textLight,
+    marginBottom: verticalScale(12),
+  },
+  activityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(10),
+    padding: scale(12),
+    marginBottom: verticalScale(8),
+  },
+  activityInfo: {
+    flex: 1,
+    marginLeft: scale(10),
+  },
+  activityTitle: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  activityDetail: {
+    fontSize: moderateScale(12),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+  },
+  actions: {
+    marginTop: verticalScale(16),
+    gap: verticalScale(10),
+  },
+  primaryButton: {
+    backgroundColor: Colors.solidBlue,
+    borderRadius: moderateScale(8),
+    paddingVertical: verticalScale(12),
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: moderateScale(16),
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  dangerButton: {
+    borderWidth: 1,
+    borderColor: Colors.errorRed,
+    borderRadius: moderateScale(8),
+    paddingVertical: verticalScale(12),
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    fontSize: moderateScale(16),
+    fontWeight: '600',
+    color: Colors.errorRed,
+  },
+});
+
+export default withRoleProtection(MemberProfileScreen, {
+  requiredRole: 'officer',
+  loadingMessage: 'Verifying officer access...'
+});
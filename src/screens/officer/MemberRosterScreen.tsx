@@ -0,0 +1,334 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  FlatList,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { withRoleProtection } from 'components/hoc/withRoleProtection';
+import EmptyState from 'components/ui/EmptyState';
+import LoadingSkeleton from 'components/ui/LoadingSkeleton';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { useMemberRoster, useOrganizationStats } from '../../hooks/useMemberRoster';
+import { MembershipRole, RosterMember } from '../../types/database';
+import { OfficerStackParamList } from '../../types/navigation';
+
+const Colors = {
+  LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  inputBorder: '#D1D5DB',
+  lightBlue: '#EBF8FF',
+  lightGray: '#EDF2F7',
+};
+
+type StatusFilter = 'active' | 'inactive' | 'all';
+
+const STATUS_LABELS: Record<StatusFilter, string> = {
+  active: 'Active',
+  inactive: 'Inactive',
+  all: 'All',
+};
+
+type MemberRosterScreenNavigationProp = NativeStackNavigationProp<OfficerStackParamList, 'MemberRoster'>;
+
+interface MemberRosterScreenProps {
+  navigation: MemberRosterScreenNavigationProp;
+}
+
+const MemberRosterScreen = ({ navigation }: MemberRosterScreenProps) => {
+  const { activeOrganization } = useOrganization();
+  const orgId = activeOrganization?.id || '';
+
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState<MembershipRole | undefined>(undefined);
+  const [grade, setGrade] = useState<string | undefined>(undefined);
+  const [status, setStatus] = useState<StatusFilter>('active');
+
+  const { data: members = [], isLoading, isFetching, refetch } = useMemberRoster(orgId);
+  const { data: stats } = useOrganizationStats(orgId);
+
+  const grades = useMemo(
+    () => Array.from(new Set(members.map(member => member.grade).filter((value): value is string => !!value))).sort(),
+    [members]
+  );
+
+  const filteredMembers = useMemo(() => {
+    const query = search.trim().toLowerCase();
+
+    return members.filter(member => {
+      if (status === 'active' && !member.is_active) return false;
+      if (status === 'inactive' && member.is_active) return false;
+      if (role && member.role !== role) return false;
+      if (grade && member.grade !== grade) return false;
+      if (!query) return true;
+
+      return [member.member_name, member.email, member.student_id]
+        .some(value => value?.toLowerCase().includes(query));
+    });
+  }, [members, search, role, grade, status]);
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isSelected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderMember = ({ item }: { item: RosterMember }) => {
+    const details = [
+      item.grade && `Grade ${item.grade}`,
+      item.student_id && `ID ${item.student_id}`,
+    ].filter(Boolean).join(' • ');
+
+    return (
+      <TouchableOpacity
+        style={[styles.memberCard, !item.is_active && styles.memberCardInactive]}
+        onPress={() => navigation.navigate('MemberProfile', { memberId: item.member_id })}
+      >
+        <View style={styles.memberInfo}>
+          <Text style={styles.memberName}>{item.member_name}</Text>
+          {!!item.email && <Text style={styles.memberDetail}>{item.email}</Text>}
+          {!!details && <Text style={styles.memberDetail}>{details}</Text>}
+        </View>
+        <View style={[styles.badge, item.role === 'officer' && styles.badgeOfficer]}>
+          <Text style={[styles.badgeText, item.role === 'officer' && styles.badgeTextOfficer]}>
+            {item.is_active ? (item.role === 'officer' ? 'Officer' : 'Member') : 'Inactive'}
+          </Text>
+        </View>
+        <Icon name="chevron-right" size={moderateScale(22)} color={Colors.textLight} />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={Colors.LandingScreenGradient}
+      style={{ flex: 1 }}
+      start={{ x: 0.5, y: 0 }}
+      end={{ x: 0.5, y: 1 }}
+    >
+      <SafeAreaView style={{ flex: 1 }}>
+        <View style={styles.container}>
+          {/* Header with Back Button */}
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+              <Icon name="arrow-back" size={moderateScale(24)} color={Colors.textDark} />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Member Roster</Text>
+            <View style={styles.headerPlaceholder} />
+          </View>
+
+          {stats && (
+            <Text style={styles.summary}>
+              {stats.memberCount} active member{stats.memberCount === 1 ? '' : 's'} • {stats.officerCount} officer{stats.officerCount === 1 ? '' : 's'}
+            </Text>
+          )}
+
+          <View style={styles.searchContainer}>
+            <Icon name="search" size={moderateScale(20)} color={Colors.textLight} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search by name, email or student ID"
+              placeholderTextColor={Colors.textLight}
+              value={search}
+              onChangeText={setSearch}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          {/* Filters */}
+          <View style={[styles.chipRow, styles.chipRowContent]}>
+            {(Object.keys(STATUS_LABELS) as StatusFilter[]).map(value =>
+              renderChip(STATUS_LABELS[value], status === value, () => setStatus(value))
+            )}
+            {renderChip('Members', role === 'member', () => setRole(role === 'member' ? undefined : 'member'))}
+            {renderChip('Officers', role === 'officer', () => setRole(role === 'officer' ? undefined : 'officer'))}
+          </View>
+          {grades.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.chipRow}
+              contentContainerStyle={styles.chipRowContent}
+            >
+              {renderChip('All Grades', grade === undefined, () => setGrade(undefined))}
+              {grades.map(value =>
+                renderChip(`Grade ${value}`, grade === value, () => setGrade(value))
+              )}
+            </ScrollView>
+          )}
+
+          {isLoading ? (
+            <LoadingSkeleton height={verticalScale(80)} />
+          ) : (
+            <FlatList
+              data={filteredMembers}
+              keyExtractor={item => item.member_id}
+              renderItem={renderMember}
+              contentContainerStyle={styles.listContent}
+              keyboardShouldPersistTaps="handled"
+              refreshControl={<RefreshControl refreshing={isFetching && !isLoading} onRefresh={refetch} />}
+              ListEmptyComponent={
+                <EmptyState
+                  icon="people"
+                  title="No Members Found"
+                  description="No members match this search and these filters."
+                  style={{ paddingVertical: verticalScale(24) }}
+                />
+              }
+            />
+          )}
+        </View>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: scale(16),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(16),
+  },
+  backButton: {
+    padding: scale(8),
+  },
+  headerTitle: {
+    fontSize: moderateScale(24),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    textAlign: 'center',
+  },
+  headerPlaceholder: {
+    width: scale(40),
+  },
+  summary: {
+    fontSize: moderateScale(14),
+    color: Colors.textMedium,
+    marginBottom: verticalScale(8),
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: verticalScale(44),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: moderateScale(8),
+    paddingHorizontal: scale(12),
+    backgroundColor: Colors.white,
+    marginBottom: verticalScale(10),
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: scale(8),
+    fontSize: moderateScale(15),
+    color: Colors.textDark,
+  },
+  chipRow: {
+    flexGrow: 0,
+    marginBottom: verticalScale(8),
+  },
+  chipRowContent: {
+    flexDirection: 'row',
+    gap: scale(8),
+  },
+  chip: {
+    paddingHorizontal: scale(12),
+    paddingVertical: verticalScale(6),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    backgroundColor: Colors.white,
+  },
+  chipSelected: {
+    backgroundColor: Colors.lightBlue,
+    borderColor: Colors.solidBlue,
+  },
+  chipText: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+  },
+  chipTextSelected: {
+    color: Colors.solidBlue,
+    fontWeight: '600',
+  },
+  listContent: {
+    paddingTop: verticalScale(8),
+    paddingBottom: verticalScale(40),
+  },
+  memberCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    padding: scale(14),
+    marginBottom: verticalScale(10),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(1) },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  memberCardInactive: {
+    opacity: 0.6,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: moderateScale(15),
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  memberDetail: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+  },
+  badge: {
+    backgroundColor: Colors.lightGray,
+    borderRadius: moderateScale(10),
+    paddingHorizontal: scale(8),
+    paddingVertical: verticalScale(3),
+    marginHorizontal: scale(8),
+  },
+  badgeOfficer: {
+    backgroundColor: Colors.lightBlue,
+  },
+  badgeText: {
+    fontSize: moderateScale(12),
+    fontWeight: '600',
+    color: Colors.textMedium,
+  },
+  badgeTextOfficer: {
+    color: Colors.solidBlue,
+  },
+});
+
+export default withRoleProtection(MemberRosterScreen, {
+  requiredRole: 'officer',
+  loadingMessage: 'Verifying officer access...'
+});
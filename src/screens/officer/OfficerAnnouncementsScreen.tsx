@@ -10,12 +10,15 @@ import {
   KeyboardAvoidingView,
   Platform,
   Alert,
-  RefreshControl
+  RefreshControl,
+  Modal,
+  TouchableWithoutFeedback
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
 import Icon from 'react-native-vector-icons/MaterialIcons';
+import DateTimePicker from '@react-native-community/datetimepicker';
 
 import Tag from 'components/ui/Tag';
 import AnnouncementCard from 'components/ui/AnnouncementCard';
@@ -47,6 +50,16 @@ const Colors = {
 };
 
 type TagType = 'Event' | 'Reminder' | 'Urgent' | 'Flyer';
+type ListTab = 'recent' | 'scheduled';
+type ScheduleField = 'publish' | 'expires';
+
+const formatScheduleTime = (date: Date | string) =>
+  new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
 
 const OfficerAnnouncements = ({ navigation }: any) => {
   const { showSuccess, showError, showValidationError } = useToast();
@@ -56,12 +69,14 @@ const OfficerAnnouncements = ({ navigation }: any) => {
 
   // Memoize the options to prevent infinite re-renders
   const announcementDataOptions = useMemo(() => ({
-    enableRealtime: true
+    enableRealtime: true,
+    includeScheduled: true
   }), []);
 
   // Use announcement data hook with realtime subscriptions
   const {
     announcements,
+    scheduledAnnouncements,
     loading,
     createAnnouncement,
     deleteAnnouncement,
@@ -83,6 +98,15 @@ const OfficerAnnouncements = ({ navigation }: any) => {
   const [showLinkInput, setShowLinkInput] = useState(false);
   const [linkUrl, setLinkUrl] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [activeTab, setActiveTab] = useState<ListTab>('recent');
+
+  // Scheduling state (Android picks the date and time in two steps)
+  const [publishAt, setPublishAt] = useState<Date | null>(null);
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null);
+  const [schedulePicker, setSchedulePicker] = useState<{
+    field: ScheduleField;
+    mode: 'date' | 'time';
+  } | null>(null);
   
   // Image upload state
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
@@ -129,6 +153,14 @@ const OfficerAnnouncements = ({ navigation }: any) => {
       newErrors.link = 'Please enter a valid URL';
     }
 
+    if (publishAt && publishAt.getTime() <= Date.now()) {
+      newErrors.publishAt = 'Publish time must be in the future';
+    }
+
+    if (expiresAt && expiresAt.getTime() <= Math.max(publishAt?.getTime() ?? 0, Date.now())) {
+      newErrors.expiresAt = 'Expiration must be after the announcement is published';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -198,13 +230,22 @@ const OfficerAnnouncements = ({ navigation }: any) => {
       message: message.trim(),
       link: finalLinks.length > 0 ? finalLinks[0] : undefined,
       image_url: imageUrl,
+      publish_at: publishAt?.toISOString(),
+      expires_at: expiresAt?.toISOString(),
     };
 
     try {
       const result = await createAnnouncement(submissionData);
 
       if (result.success) {
-        showSuccess('Announcement Created', 'Your announcement has been published successfully.');
+        if (result.data?.status === 'scheduled') {
+          showSuccess(
+            'Announcement Scheduled',
+            `Your announcement will be published ${formatScheduleTime(result.data.publish_at || publishAt!)}.`
+          );
+        } else {
+          showSuccess('Announcement Created', 'Your announcement has been published successfully.');
+        }
         resetForm();
       } else {
         showError('Creation Failed', result.error || 'Failed to create announcement. Please try again.');
@@ -226,6 +267,8 @@ const OfficerAnnouncements = ({ navigation }: any) => {
     setSelectedImage(null);
     setImageUploading(false);
     setImageUploadError(null);
+    setPublishAt(null);
+    setExpiresAt(null);
   };
 
   const handleTagPress = (tag: TagType) => {
@@ -268,6 +311,54 @@ const OfficerAnnouncements = ({ navigation }: any) => {
     showSuccess('Link Added', 'Link attached successfully.');
   };
 
+  const openSchedulePicker = (field: ScheduleField) => {
+    setSchedulePicker({ field, mode: 'date' });
+  };
+
+  const closeSchedulePicker = () => {
+    setSchedulePicker(null);
+  };
+
+  const getScheduleValue = (field: ScheduleField) => (field === 'publish' ? publishAt : expiresAt);
+
+  const setScheduleValue = (field: ScheduleField, value: Date | null) => {
+    if (field === 'publish') {
+      setPublishAt(value);
+    } else {
+      setExpiresAt(value);
+    }
+    setErrors(prev => {
+      const { [field === 'publish' ? 'publishAt' : 'expiresAt']: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleScheduleChange = (event: any, selectedDate?: Date) => {
+    if (!schedulePicker) return;
+    const { field, mode } = schedulePicker;
+
+    if (Platform.OS === 'android') {
+      if (event.type !== 'set' || !selectedDate) {
+        setSchedulePicker(null);
+        return;
+      }
+
+      if (mode === 'date') {
+        // Keep the previous time of day, then ask for the time
+        const current = getScheduleValue(field) || new Date();
+        const next = new Date(selectedDate);
+        next.setHours(current.getHours(), current.getMinutes(), 0, 0);
+        setScheduleValue(field, next);
+        setSchedulePicker({ field, mode: 'time' });
+      } else {
+        setScheduleValue(field, selectedDate);
+        setSchedulePicker(null);
+      }
+    } else if (selectedDate) {
+      setScheduleValue(field, selectedDate);
+    }
+  };
+
   const removeAttachment = (type: 'images' | 'links', index: number) => {
     setAttachments(prev => ({
       ...prev,
@@ -493,17 +584,103 @@ const OfficerAnnouncements = ({ navigation }: any) => {
                 </View>
               )}
 
+              {/* Schedule Section */}
+              <Text style={styles.sectionLabel}>Schedule</Text>
+              {([
+                { field: 'publish', label: 'Publish', value: publishAt, emptyText: 'Now', error: errors.publishAt },
+                { field: 'expires', label: 'Expires', value: expiresAt, emptyText: 'Never', error: errors.expiresAt },
+              ] as const).map(({ field, label, value, emptyText, error }) => (
+                <View key={field}>
+                  <View style={[styles.scheduleRow, error && styles.inputError]}>
+                    <TouchableOpacity
+                      style={styles.scheduleButton}
+                      onPress={() => openSchedulePicker(field)}
+                    >
+                      <Icon
+                        name={field === 'publish' ? 'schedule' : 'event-busy'}
+                        size={moderateScale(20)}
+                        color={Colors.solidBlue}
+                      />
+                      <Text style={styles.scheduleLabel}>{label}</Text>
+                      <Text style={[styles.scheduleValue, !value && styles.schedulePlaceholder]}>
+                        {value ? formatScheduleTime(value) : emptyText}
+                      </Text>
+                    </TouchableOpacity>
+                    {value && (
+                      <TouchableOpacity
+                        onPress={() => setScheduleValue(field, null)}
+                        style={styles.removeButton}
+                      >
+                        <Icon name="close" size={moderateScale(16)} color={Colors.errorRed} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  {error && <Text style={styles.errorText}>{error}</Text>}
+                </View>
+              ))}
+
               {/* Submit Button */}
               <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
-                <Text style={styles.submitButtonText}>Post Announcement</Text>
+                <Text style={styles.submitButtonText}>
+                  {publishAt ? 'Schedule Announcement' : 'Post Announcement'}
+                </Text>
               </TouchableOpacity>
             </View>
 
-            {/* Recent Announcements Section */}
+            {/* Announcements List Section */}
             <View style={styles.recentSection}>
-              <Text style={styles.recentTitle}>Recent Announcements</Text>
+              <View style={styles.tabContainer}>
+                <TouchableOpacity
+                  style={[styles.tab, activeTab === 'recent' && styles.activeTab]}
+                  onPress={() => setActiveTab('recent')}
+                >
+                  <Text style={[styles.tabText, activeTab === 'recent' && styles.activeTabText]}>
+                    Recent
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.tab, activeTab === 'scheduled' && styles.activeTab]}
+                  onPress={() => setActiveTab('scheduled')}
+                >
+                  <View style={styles.tabContent}>
+                    <Text style={[styles.tabText, activeTab === 'scheduled' && styles.activeTabText]}>
+                      Scheduled
+                    </Text>
+                    {scheduledAnnouncements.length > 0 && (
+                      <Text style={[styles.tabBadgeText, activeTab === 'scheduled' && styles.activeTabBadgeText]}>
+                        {scheduledAnnouncements.length}
+                      </Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              </View>
 
-              {loading.isLoading ? (
+              {activeTab === 'scheduled' ? (
+                scheduledAnnouncements.length === 0 ? (
+                  <View style={styles.emptyContainer}>
+                    <Text style={styles.emptyText}>No scheduled announcements</Text>
+                    <Text style={styles.emptySubtext}>Set a publish time above to post later</Text>
+                  </View>
+                ) : (
+                  scheduledAnnouncements.map((announcement) => (
+                    <View key={announcement.id}>
+                      <View style={styles.scheduledInfo}>
+                        <Icon name="schedule" size={moderateScale(14)} color={Colors.solidBlue} />
+                        <Text style={styles.scheduledInfoText}>
+                          Publishes {formatScheduleTime(announcement.publish_at || announcement.created_at)}
+                          {announcement.expires_at ? ` · Expires ${formatScheduleTime(announcement.expires_at)}` : ''}
+                        </Text>
+                      </View>
+                      <AnnouncementCard
+                        announcement={announcement}
+                        showDeleteButton={true}
+                        onDelete={(id) => showDeleteConfirmation(id, announcement.title)}
+                        deleteLoading={deleteState.isLoading}
+                      />
+                    </View>
+                  ))
+                )
+              ) : loading.isLoading ? (
                 <View style={styles.loadingContainer}>
                   <Text style={styles.loadingText}>Loading announcements...</Text>
                 </View>
@@ -538,6 +715,49 @@ const OfficerAnnouncements = ({ navigation }: any) => {
           </ScrollView>
         </KeyboardAvoidingView>
 
+        {/* Schedule Picker - iOS */}
+        {Platform.OS === 'ios' && schedulePicker && (
+          <Modal
+            visible={true}
+            transparent={true}
+            animationType="slide"
+            onRequestClose={closeSchedulePicker}
+          >
+            <TouchableWithoutFeedback onPress={closeSchedulePicker}>
+              <View style={styles.pickerOverlay}>
+                <TouchableWithoutFeedback>
+                  <View style={styles.pickerContainer}>
+                    <View style={styles.pickerHeader}>
+                      <TouchableOpacity onPress={closeSchedulePicker}>
+                        <Text style={styles.pickerDoneButton}>Done</Text>
+                      </TouchableOpacity>
+                    </View>
+                    <DateTimePicker
+                      value={getScheduleValue(schedulePicker.field) || new Date()}
+                      mode="datetime"
+                      display="spinner"
+                      onChange={handleScheduleChange}
+                      minimumDate={new Date()}
+                      textColor={Colors.textDark}
+                    />
+                  </View>
+                </TouchableWithoutFeedback>
+              </View>
+            </TouchableWithoutFeedback>
+          </Modal>
+        )}
+
+        {/* Schedule Picker - Android */}
+        {Platform.OS === 'android' && schedulePicker && (
+          <DateTimePicker
+            value={getScheduleValue(schedulePicker.field) || new Date()}
+            mode={schedulePicker.mode}
+            display="default"
+            onChange={handleScheduleChange}
+            minimumDate={schedulePicker.mode === 'date' ? new Date() : undefined}
+          />
+        )}
+
         {/* Delete Confirmation Modal */}
         {deleteConfirmation.visible && (
           <View style={styles.modalOverlay}>
@@ -769,6 +989,38 @@ const styles = StyleSheet.create({
   removeButton: {
     padding: scale(4),
   },
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: moderateScale(8),
+    backgroundColor: Colors.inputBackground,
+    paddingHorizontal: scale(12),
+    marginBottom: verticalScale(8),
+  },
+  scheduleButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: verticalScale(12),
+  },
+  scheduleLabel: {
+    fontSize: moderateScale(14),
+    fontWeight: '500',
+    color: Colors.textDark,
+    marginLeft: scale(8),
+  },
+  scheduleValue: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: moderateScale(14),
+    color: Colors.solidBlue,
+    marginLeft: scale(8),
+  },
+  schedulePlaceholder: {
+    color: Colors.textLight,
+  },
   submitButton: {
     backgroundColor: Colors.solidBlue,
     borderRadius: moderateScale(8),
@@ -799,12 +1051,64 @@ const styles = StyleSheet.create({
   recentSection: {
     marginBottom: verticalScale(20),
   },
-  recentTitle: {
-    fontSize: moderateScale(20),
-    fontWeight: 'bold',
-    color: Colors.solidBlue,
+  tabContainer: {
+    flexDirection: 'row',
+    backgroundColor: Colors.lightGray,
+    borderRadius: moderateScale(12),
+    padding: scale(4),
     marginBottom: verticalScale(16),
   },
+  tab: {
+    flex: 1,
+    paddingVertical: verticalScale(10),
+    borderRadius: moderateScale(8),
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  activeTab: {
+    backgroundColor: Colors.white,
+    shadowColor: Colors.solidBlue,
+    shadowOffset: {
+      width: 0,
+      height: verticalScale(2),
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  tabContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  tabText: {
+    fontSize: moderateScale(14),
+    fontWeight: '500',
+    color: Colors.textMedium,
+  },
+  activeTabText: {
+    color: Colors.solidBlue,
+    fontWeight: '600',
+  },
+  tabBadgeText: {
+    fontSize: moderateScale(12),
+    fontWeight: '600',
+    color: Colors.textLight,
+    marginLeft: scale(4),
+  },
+  activeTabBadgeText: {
+    color: Colors.solidBlue,
+  },
+  scheduledInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: verticalScale(6),
+  },
+  scheduledInfoText: {
+    fontSize: moderateScale(12),
+    fontWeight: '500',
+    color: Colors.solidBlue,
+    marginLeft: scale(4),
+  },
 
   loadingContainer: {
     padding: scale(20),
@@ -937,6 +1241,31 @@ const styles = StyleSheet.create({
     color: Colors.white,
     fontWeight: '500',
   },
+  pickerOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  pickerContainer: {
+    backgroundColor: Colors.white,
+    borderTopLeftRadius: moderateScale(20),
+    borderTopRightRadius: moderateScale(20),
+    paddingBottom: verticalScale(20),
+  },
+  pickerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    paddingHorizontal: scale(20),
+    paddingVertical: verticalScale(12),
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.inputBorder,
+  },
+  pickerDoneButton: {
+    fontSize: moderateScale(16),
+    color: Colors.solidBlue,
+    fontWeight: '600',
+  },
 });
 
 export default withRoleProtection(OfficerAnnouncements, {
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, RefreshControl, Platform, Alert } from 'react-native';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, RefreshControl, Platform, Alert, Switch } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
 import Icon from 'react-native-vector-icons/MaterialIcons';
@@ -66,6 +66,11 @@ const OfficerAttendance = ({ navigation }: any) => {
   // BLE session state
   const [bleSessionTitle, setBleSessionTitle] = useState('');
   const [bleSessionDuration, setBleSessionDuration] = useState('5'); // Changed default to 5 minutes
+  const [bleRotatingBeacon, setBleRotatingBeacon] = useState(false);
+  const [bleCheckoutEnabled, setBleCheckoutEnabled] = useState(false);
+  const [bleCreditHours, setBleCreditHours] = useState(false);
+  const [bleMinDwell, setBleMinDwell] = useState(''); // Seconds, empty = no requirement
+  const [bleMinRssi, setBleMinRssi] = useState(''); // dBm, empty = no requirement
   const [isCreatingBleSession, setIsCreatingBleSession] = useState(false);
   const [attendeeCount, setAttendeeCount] = useState(0);
   const [testMode] = useState(false); // Always enable BLE broadcasting
@@ -323,6 +328,18 @@ const OfficerAttendance = ({ navigation }: any) => {
       return;
     }
 
+    const minDwellSeconds = bleMinDwell.trim() ? parseInt(bleMinDwell) : undefined;
+    if (minDwellSeconds !== undefined && (isNaN(minDwellSeconds) || minDwellSeconds < 0 || minDwellSeconds > durationMinutes * 60)) {
+      showError('Validation Error', 'Minimum time nearby must be between 0 seconds and the session duration');
+      return;
+    }
+
+    const minRssi = bleMinRssi.trim() ? parseInt(bleMinRssi) : undefined;
+    if (minRssi !== undefined && (isNaN(minRssi) || minRssi < -127 || minRssi > 0)) {
+      showError('Validation Error', 'Minimum signal must be between -127 and 0 dBm');
+      return;
+    }
+
     setIsCreatingBleSession(true);
 
     try {
@@ -366,16 +383,26 @@ const OfficerAttendance = ({ navigation }: any) => {
         }
       }
 
+      // Get organization code for BLE broadcasting
+      const orgCode = await BLESessionService.resolveOrgCode(activeOrganization.slug);
+      if (!orgCode) {
+        throw new Error(`No beacon code registered for organization ${activeOrganization.slug}`);
+      }
+
       // Create session in database - pass the actual organization ID
       const sessionToken = await createAttendanceSession(
         bleSessionTitle.trim(),
         durationMinutes * 60, // Convert to seconds
-        activeOrganization.id // Pass the real organization ID
+        activeOrganization.id, // Pass the real organization ID
+        {
+          rotatingBeacon: bleRotatingBeacon,
+          minDwellSeconds,
+          minRssi,
+          checkoutEnabled: bleCheckoutEnabled,
+          creditVolunteerHours: bleCreditHours,
+        }
       );
 
-      // Get organization code for BLE broadcasting
-      const orgCode = BLESessionService.getOrgCode(activeOrganization.slug);
-
       // Start BLE broadcasting
       console.log('[OfficerAttendance] 🚀 Starting BLE broadcast...', { sessionToken, orgCode });
       await startAttendanceSession(sessionToken, orgCode);
@@ -396,6 +423,11 @@ const OfficerAttendance = ({ navigation }: any) => {
       // Reset form
       setBleSessionTitle('');
       setBleSessionDuration('5'); // Reset to default 5 minutes
+      setBleRotatingBeacon(false);
+      setBleCheckoutEnabled(false);
+      setBleCreditHours(false);
+      setBleMinDwell('');
+      setBleMinRssi('');
       setAttendeeCount(0); // Always start at 0, will be updated from real database queries
 
       showSuccess('BLE Session Started', 'Members can now check in via Bluetooth');
@@ -657,6 +689,95 @@ const OfficerAttendance = ({ navigation }: any) => {
                 )}
               </View>
 
+              <View style={[styles.inputContainer, styles.switchRow]}>
+                <View style={styles.switchInfo}>
+                  <Text style={styles.inputLabel}>Rotating Beacon Code</Text>
+                  <Text style={styles.inputHint}>
+                    Changes the beacon every 30 seconds so a recorded signal can't be replayed
+                  </Text>
+                </View>
+                <Switch
+                  value={bleRotatingBeacon}
+                  onValueChange={setBleRotatingBeacon}
+                  disabled={isCreatingBleSession || !!currentSession || !!activeBleSession}
+                  trackColor={{ false: '#E2E8F0', true: Colors.solidBlue }}
+                  thumbColor={bleRotatingBeacon ? Colors.white : '#CBD5E0'}
+                />
+              </View>
+
+              <View style={[styles.inputContainer, styles.switchRow]}>
+                <View style={styles.switchInfo}>
+                  <Text style={styles.inputLabel}>Require Check-Out</Text>
+                  <Text style={styles.inputHint}>
+                    Records how long each member stayed; members are checked out when they leave range
+                  </Text>
+                </View>
+                <Switch
+                  value={bleCheckoutEnabled}
+                  onValueChange={(value) => {
+                    setBleCheckoutEnabled(value);
+                    if (!value) {
+                      setBleCreditHours(false);
+                    }
+                  }}
+                  disabled={isCreatingBleSession || !!currentSession || !!activeBleSession}
+                  trackColor={{ false: '#E2E8F0', true: Colors.solidBlue }}
+                  thumbColor={bleCheckoutEnabled ? Colors.white : '#CBD5E0'}
+                />
+              </View>
+
+              {bleCheckoutEnabled && (
+                <View style={[styles.inputContainer, styles.switchRow]}>
+                  <View style={styles.switchInfo}>
+                    <Text style={styles.inputLabel}>Credit Volunteer Hours</Text>
+                    <Text style={styles.inputHint}>
+                      Adds each member's time at the session as verified volunteer hours
+                    </Text>
+                  </View>
+                  <Switch
+                    value={bleCreditHours}
+                    onValueChange={setBleCreditHours}
+                    disabled={isCreatingBleSession || !!currentSession || !!activeBleSession}
+                    trackColor={{ false: '#E2E8F0', true: Colors.solidBlue }}
+                    thumbColor={bleCreditHours ? Colors.white : '#CBD5E0'}
+                  />
+                </View>
+              )}
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>Minimum Time Nearby (seconds)</Text>
+                <TextInput
+                  style={[styles.textInput, (currentSession || activeBleSession) && styles.textInputDisabled]}
+                  placeholder="Optional (e.g., 60)"
+                  placeholderTextColor={Colors.textLight}
+                  value={bleMinDwell}
+                  onChangeText={setBleMinDwell}
+                  keyboardType="numeric"
+                  maxLength={4}
+                  editable={!isCreatingBleSession && !currentSession && !activeBleSession}
+                />
+                <Text style={styles.inputHint}>
+                  Members must detect the beacon this long before checking in
+                </Text>
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>Minimum Signal (dBm)</Text>
+                <TextInput
+                  style={[styles.textInput, (currentSession || activeBleSession) && styles.textInputDisabled]}
+                  placeholder="Optional (e.g., -80)"
+                  placeholderTextColor={Colors.textLight}
+                  value={bleMinRssi}
+                  onChangeText={setBleMinRssi}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={4}
+                  editable={!isCreatingBleSession && !currentSession && !activeBleSession}
+                />
+                <Text style={styles.inputHint}>
+                  Average signal strength required; closer is higher (e.g., -60 is closer than -90)
+                </Text>
+              </View>
+
               <TouchableOpacity
                 style={[
                   styles.startBleSessionButton,
@@ -1152,6 +1273,20 @@ const styles = StyleSheet.create({
     marginTop: verticalScale(4),
     fontWeight: '500',
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchInfo: {
+    flex: 1,
+    marginRight: scale(12),
+  },
+  inputHint: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+    marginTop: verticalScale(4),
+  },
 });
 
 export default withRoleProtection(OfficerAttendance, {
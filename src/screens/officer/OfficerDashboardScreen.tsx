@@ -11,8 +11,11 @@ import EmptyState from 'components/ui/EmptyState';
 import { useUserProfile, useCurrentOrganizationId } from 'hooks/useUserData';
 import { useOrganizationVolunteerStats, usePendingApprovals, useVerificationStatistics, usePrefetchVolunteerHoursData } from 'hooks/useVolunteerHoursData';
 import { useEventStats, useUpcomingEvents } from 'hooks/useEventData';
+import { useAtRiskMembers } from 'hooks/useGraduationRequirements';
+import { useLockedAccounts } from 'hooks/useAccountLockouts';
 import { useOrganization } from 'contexts/OrganizationContext';
 import { useTabNavigation } from '../../navigation/FallbackTabNavigator';
+import { formatRequirementAmount } from '../../utils/requirementUtils';
 
 const Colors = {
   LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
@@ -29,11 +32,15 @@ const Colors = {
   successGreen: '#38A169',
   warningOrange: '#DD6B20',
   infoBlue: '#3182CE',
+  errorRed: '#E53E3E',
 };
 
+const AT_RISK_PREVIEW_COUNT = 5;
+
 const OfficerDashboard = ({ navigation }: any) => {
   const insets = useSafeAreaInsets();
   const [refreshing, setRefreshing] = useState(false);
+  const [showAllAtRisk, setShowAllAtRisk] = useState(false);
   const { jumpTo } = useTabNavigation();
 
   // Dynamic data hooks
@@ -48,6 +55,10 @@ const OfficerDashboard = ({ navigation }: any) => {
   const { data: verificationStats, isLoading: verificationStatsLoading, refetch: refetchVerificationStats } = useVerificationStatistics(orgId);
   const { data: eventStats, isLoading: eventStatsLoading, refetch: refetchEventStats } = useEventStats(orgId);
   const { data: upcomingEvents, isLoading: upcomingEventsLoading, refetch: refetchUpcomingEvents } = useUpcomingEvents(orgId, 3);
+  const { data: atRiskMembers = [], isLoading: atRiskLoading, refetch: refetchAtRiskMembers } = useAtRiskMembers(orgId);
+  const { data: lockedAccounts = [], refetch: refetchLockedAccounts } = useLockedAccounts(orgId);
+
+  const visibleAtRiskMembers = showAllAtRisk ? atRiskMembers : atRiskMembers.slice(0, AT_RISK_PREVIEW_COUNT);
 
   // ⚡ BLAZING FAST: Prefetch verification data for instant loading
   const { prefetchPendingApprovals, prefetchVerifiedApprovals } = usePrefetchVolunteerHoursData();
@@ -114,6 +125,13 @@ const OfficerDashboard = ({ navigation }: any) => {
       color: Colors.purple,
       onPress: () => jumpTo('OfficerEvents'),
     },
+    {
+      id: 'send_notification',
+      title: 'Send Notification',
+      icon: 'notifications-active',
+      color: Colors.warningOrange,
+      onPress: () => navigation.navigate('CustomNotification'),
+    },
   ];
 
   // Dynamic pending actions based on real data
@@ -136,6 +154,15 @@ const OfficerDashboard = ({ navigation }: any) => {
       color: Colors.infoBlue,
       onPress: () => jumpTo('OfficerEvents'),
     }] : []),
+    ...(lockedAccounts.length > 0 ? [{
+      id: 'locked_accounts',
+      count: lockedAccounts.length,
+      title: `locked account${lockedAccounts.length === 1 ? '' : 's'}`,
+      description: 'Members locked out after failed sign-in attempts',
+      icon: 'lock',
+      color: Colors.errorRed,
+      onPress: () => navigation.navigate('LockedAccounts'),
+    }] : []),
   ];
 
   const onRefresh = async () => {
@@ -148,6 +175,8 @@ const OfficerDashboard = ({ navigation }: any) => {
         refetchVerificationStats(),
         refetchEventStats(),
         refetchUpcomingEvents(),
+        refetchAtRiskMembers(),
+        refetchLockedAccounts(),
       ]);
     } catch (error) {
       console.error('Error refreshing dashboard data:', error);
@@ -213,10 +242,13 @@ const OfficerDashboard = ({ navigation }: any) => {
           ) : (
             /* Stats Section */
             <View style={styles.statsContainer}>
-              <View style={styles.statCard}>
+              <TouchableOpacity
+                style={styles.statCard}
+                onPress={() => navigation.navigate('MemberRoster')}
+              >
                 <Text style={styles.statNumber}>{dashboardData.totalMembers}</Text>
                 <Text style={styles.statLabel}>Total Members</Text>
-              </View>
+              </TouchableOpacity>
               <View style={styles.statCard}>
                 <Text style={styles.statNumber}>{dashboardData.totalEvents}</Text>
                 <Text style={styles.statLabel}>Total Events</Text>
@@ -230,6 +262,13 @@ const OfficerDashboard = ({ navigation }: any) => {
           <View style={styles.sectionContainer}>
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>Quick Actions</Text>
+              <TouchableOpacity
+                style={styles.manageButton}
+                onPress={() => navigation.navigate('VerificationCodes')}
+              >
+                <Text style={styles.manageButtonText}>Signup Codes</Text>
+                <Icon name="chevron-right" size={moderateScale(16)} color={Colors.solidBlue} />
+              </TouchableOpacity>
             </View>
             <View style={styles.quickActionsGrid}>
               {quickActions.map((action) => (
@@ -306,6 +345,63 @@ const OfficerDashboard = ({ navigation }: any) => {
             )}
           </View>
 
+          {/* Divider */}
+          <View style={styles.divider} />
+
+          {/* Members at Risk Section */}
+          <View style={styles.sectionContainer}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Members at Risk</Text>
+              <TouchableOpacity
+                style={styles.manageButton}
+                onPress={() => navigation.navigate('GraduationRequirements')}
+              >
+                <Text style={styles.manageButtonText}>Requirements</Text>
+                <Icon name="chevron-right" size={moderateScale(16)} color={Colors.solidBlue} />
+              </TouchableOpacity>
+            </View>
+
+            {atRiskLoading ? (
+              <LoadingSkeleton
+                height={verticalScale(80)}
+                style={{ marginBottom: verticalScale(12) }}
+              />
+            ) : atRiskMembers.length > 0 ? (
+              <>
+                {visibleAtRiskMembers.map((entry) => (
+                  <View key={`${entry.member_id}-${entry.requirement_id}`} style={styles.atRiskCard}>
+                    <View style={styles.atRiskHeader}>
+                      <Text style={styles.atRiskName} numberOfLines={1}>{entry.member_name}</Text>
+                      <Text style={[
+                        styles.atRiskDays,
+                        entry.days_remaining <= 7 && styles.atRiskDaysUrgent
+                      ]}>
+                        {entry.days_remaining === 0 ? 'Due today' : `${entry.days_remaining} days left`}
+                      </Text>
+                    </View>
+                    <Text style={styles.atRiskDetail}>
+                      {entry.requirement_name}: {formatRequirementAmount(entry.current_value, entry.requirement_type)} of{' '}
+                      {formatRequirementAmount(entry.target_value, entry.requirement_type)}
+                    </Text>
+                  </View>
+                ))}
+                {atRiskMembers.length > AT_RISK_PREVIEW_COUNT && (
+                  <TouchableOpacity onPress={() => setShowAllAtRisk(prev => !prev)}>
+                    <Text style={styles.showAllText}>
+                      {showAllAtRisk ? 'Show less' : `Show all ${atRiskMembers.length}`}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            ) : (
+              <EmptyState
+                icon="school"
+                title="Everyone's On Track"
+                description="No members are at risk of missing a requirement."
+                style={{ paddingVertical: verticalScale(40) }}
+              />
+            )}
+          </View>
 
           {/* Bottom Spacer */}
           <View style={styles.bottomSpacer} />
@@ -512,6 +608,60 @@ const styles = StyleSheet.create({
     color: Colors.textMedium,
     lineHeight: moderateScale(20),
   },
+  manageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  manageButtonText: {
+    fontSize: moderateScale(14),
+    color: Colors.solidBlue,
+    fontWeight: '600',
+  },
+  atRiskCard: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: moderateScale(12),
+    padding: scale(16),
+    marginBottom: verticalScale(12),
+    borderLeftWidth: 3,
+    borderLeftColor: Colors.warningOrange,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(1) },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  atRiskHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: verticalScale(4),
+  },
+  atRiskName: {
+    flex: 1,
+    fontSize: moderateScale(16),
+    fontWeight: '600',
+    color: Colors.textDark,
+    marginRight: scale(8),
+  },
+  atRiskDays: {
+    fontSize: moderateScale(12),
+    fontWeight: '600',
+    color: Colors.warningOrange,
+  },
+  atRiskDaysUrgent: {
+    color: Colors.errorRed,
+  },
+  atRiskDetail: {
+    fontSize: moderateScale(14),
+    color: Colors.textMedium,
+  },
+  showAllText: {
+    fontSize: moderateScale(14),
+    color: Colors.solidBlue,
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingVertical: verticalScale(8),
+  },
   bottomSpacer: {
     height: verticalScale(100),
   },
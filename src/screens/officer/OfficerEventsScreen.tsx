@@ -18,8 +18,11 @@ import ProfileButton from 'components/ui/ProfileButton';
 import LoadingSkeleton from 'components/ui/LoadingSkeleton';
 import EmptyState from 'components/ui/EmptyState';
 import EventCard from 'components/ui/EventCard';
+import EventRSVPSummaryPanel from 'components/ui/EventRSVPSummaryPanel';
 import { useToast } from 'components/ui/ToastProvider';
 import { useOfficerEvents } from 'hooks/useEventData';
+import { useEventRSVPSummaries } from 'hooks/useEventRSVPData';
+import { EventEditScope } from '../../services/EventService';
 import { useOrganization } from 'contexts/OrganizationContext';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { OfficerStackParamList } from '../../types/navigation';
@@ -58,6 +61,7 @@ const OfficerEventScreen = ({ navigation }: OfficerEventsScreenProps) => {
   } = useOfficerEvents();
 
   // Note: useOfficerEvents already includes realtime subscriptions, so we don't need a separate useEventSubscriptions call
+  const { data: rsvpSummaries = {} } = useEventRSVPSummaries((events || []).map(event => event.id));
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -80,6 +84,46 @@ const OfficerEventScreen = ({ navigation }: OfficerEventsScreenProps) => {
     const event = events.find(e => e.id === eventId);
     const eventTitle = event?.title || 'this event';
 
+    const confirmDelete = async (scope?: EventEditScope) => {
+      try {
+        const result = scope ? await deleteEvent(eventId, scope) : await deleteEvent(eventId);
+        if (result.success) {
+          // Show success toast like announcements do
+          showSuccess('Deleted', scope === 'future' ? 'Event and future occurrences removed.' : 'Event removed successfully.');
+        } else {
+          showError('Delete Failed', result.error || 'Failed to delete event. Please try again.');
+        }
+      } catch (error) {
+        console.error('Error deleting event:', error);
+        showError('Delete Failed', 'An unexpected error occurred. Please try again.');
+      }
+    };
+
+    // Repeating events can remove just this occurrence or the rest of the series
+    if (event?.series_id) {
+      Alert.alert(
+        'Delete Repeating Event',
+        `Delete only this occurrence of "${eventTitle}", or this and all future occurrences? This action cannot be undone.`,
+        [
+          {
+            text: 'Cancel',
+            style: 'cancel',
+          },
+          {
+            text: 'This Event',
+            style: 'destructive',
+            onPress: () => confirmDelete('occurrence'),
+          },
+          {
+            text: 'All Future Events',
+            style: 'destructive',
+            onPress: () => confirmDelete('future'),
+          },
+        ]
+      );
+      return;
+    }
+
     Alert.alert(
       'Delete Event',
       `Are you sure you want to delete "${eventTitle}"? This action cannot be undone.`,
@@ -91,20 +135,7 @@ const OfficerEventScreen = ({ navigation }: OfficerEventsScreenProps) => {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              const result = await deleteEvent(eventId);
-              if (result.success) {
-                // Show success toast like announcements do
-                showSuccess('Deleted', 'Event removed successfully.');
-              } else {
-                showError('Delete Failed', result.error || 'Failed to delete event. Please try again.');
-              }
-            } catch (error) {
-              console.error('Error deleting event:', error);
-              showError('Delete Failed', 'An unexpected error occurred. Please try again.');
-            }
-          },
+          onPress: () => confirmDelete(),
         },
       ]
     );
@@ -174,7 +205,14 @@ const OfficerEventScreen = ({ navigation }: OfficerEventsScreenProps) => {
                   showDeleteButton={true}
                   onDelete={handleDeleteEvent}
                   deleteLoading={deleteLoading}
-                />
+                >
+                  <EventRSVPSummaryPanel
+                    eventId={event.id}
+                    capacity={event.capacity}
+                    actualAttendance={event.actual_attendance}
+                    summary={rsvpSummaries[event.id]}
+                  />
+                </EventCard>
               ))
             ) : (
               // Empty state
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert, FlatList } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -11,14 +11,20 @@ import LoadingSkeleton from 'components/ui/LoadingSkeleton';
 import EmptyState from 'components/ui/EmptyState';
 import VerificationCard from 'components/ui/VerificationCard';
 import { useOrganization } from '../../contexts/OrganizationContext';
+import { useAuth } from '../../contexts/AuthContext';
 import {
   usePendingApprovals,
   useVerifiedApprovals,
   useApproveVolunteerHours,
   useRejectVolunteerHours,
+  useBulkApproveVolunteerHours,
+  useBulkRejectVolunteerHours,
+  useRejectionReasonTemplates,
+  useCreateRejectionReasonTemplate,
+  useDeleteRejectionReasonTemplate,
   useVolunteerHoursRealTime
 } from 'hooks/useVolunteerHoursData';
-import { VolunteerHourData } from '../../types/dataService';
+import { RejectionReasonTemplate, VolunteerHourData } from '../../types/dataService';
 
 const Colors = {
   LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
@@ -46,14 +52,22 @@ const Colors = {
 
 type TabType = 'pending' | 'verified';
 
-const OfficerVerifyHours = ({ navigation }: any) => {
+const OfficerVerifyHours = ({ navigation, route }: any) => {
   const { showSuccess, showError } = useToast();
   const { activeOrganization } = useOrganization();
+  const { user } = useAuth();
   const insets = useSafeAreaInsets();
 
   const [activeTab, setActiveTab] = useState<TabType>('pending');
   const [rejectionReason, setRejectionReason] = useState('');
   const [showRejectionInput, setShowRejectionInput] = useState<string | null>(null);
+  const [isBulkRejection, setIsBulkRejection] = useState(false);
+  const [saveAsTemplate, setSaveAsTemplate] = useState(false);
+  const [templateLabel, setTemplateLabel] = useState('');
+
+  // Multi-select state for bulk review
+  const [bulkMode, setBulkMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   // Memoize the organization ID to prevent infinite re-renders
   const organizationId = useMemo(() => activeOrganization?.id || '', [activeOrganization?.id]);
@@ -80,6 +94,15 @@ const OfficerVerifyHours = ({ navigation }: any) => {
 
   const approveHoursMutation = useApproveVolunteerHours();
   const rejectHoursMutation = useRejectVolunteerHours();
+  const bulkApproveMutation = useBulkApproveVolunteerHours();
+  const bulkRejectMutation = useBulkRejectVolunteerHours();
+
+  const { data: rejectionTemplates = [] } = useRejectionReasonTemplates(organizationId);
+  const createTemplateMutation = useCreateRejectionReasonTemplate(organizationId);
+  const deleteTemplateMutation = useDeleteRejectionReasonTemplate(organizationId);
+
+  const isReviewing = approveHoursMutation.isPending || rejectHoursMutation.isPending ||
+    bulkApproveMutation.isPending || bulkRejectMutation.isPending;
 
   // ⚡ SMART LOADING: Get current tab data with optimized loading states
   const getCurrentTabData = () => {
@@ -113,13 +136,169 @@ const OfficerVerifyHours = ({ navigation }: any) => {
     };
   };
 
+  // Entries can leave the pending list through realtime updates while selected
+  const selectedPendingIds = useMemo(() => {
+    const pendingIds = new Set((pendingApprovals || []).map(hour => hour.id));
+    return selectedIds.filter(id => pendingIds.has(id));
+  }, [pendingApprovals, selectedIds]);
+
+  const toggleSelection = (hourId: string) => {
+    setSelectedIds(prev => prev.includes(hourId) ? prev.filter(id => id !== hourId) : [...prev, hourId]);
+  };
+
+  const exitBulkMode = () => {
+    setBulkMode(false);
+    setSelectedIds([]);
+  };
+
+  // Opened from the Reject action on a submission push
+  const rejectHourId: string | undefined = route?.params?.rejectHourId;
+  const prefilledReason: string | undefined = route?.params?.rejectionReason;
+
+  useEffect(() => {
+    // Wait for a fresh pending list so a new submission isn't taken for a reviewed one
+    if (!rejectHourId || !pendingApprovals || pendingFetching) return;
+
+    if (pendingApprovals.some(hour => hour.id === rejectHourId)) {
+      setActiveTab('pending');
+      exitBulkMode();
+      setIsBulkRejection(false);
+      setShowRejectionInput(rejectHourId);
+      setRejectionReason(prefilledReason || '');
+    } else {
+      showError('Already Reviewed', 'These hours are no longer waiting for review.');
+    }
+
+    navigation.setParams({ rejectHourId: undefined, rejectionReason: undefined });
+  }, [rejectHourId, prefilledReason, pendingApprovals, pendingFetching]);
+
+  const closeRejectionInput = () => {
+    setShowRejectionInput(null);
+    setIsBulkRejection(false);
+    setRejectionReason('');
+    setSaveAsTemplate(false);
+    setTemplateLabel('');
+  };
+
+  const handleBulkApprove = () => {
+    if (selectedPendingIds.length === 0) {
+      showError('No Selection', 'Select at least one submission to approve.');
+      return;
+    }
+
+    const count = selectedPendingIds.length;
+    Alert.alert(
+      'Bulk Approve',
+      `Are you sure you want to approve ${count} submission${count === 1 ? '' : 's'}? Each member will get one notification.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Approve All',
+          onPress: async () => {
+            try {
+              const result = await bulkApproveMutation.mutateAsync(selectedPendingIds);
+              const verifiedCount = result.updated_count - result.awaiting_second_approval_count;
+              const awaitingText = result.awaiting_second_approval_count > 0
+                ? ` ${result.awaiting_second_approval_count} awaiting second approval.`
+                : '';
+              showSuccess(
+                'Hours Verified',
+                `${verifiedCount} submission${verifiedCount === 1 ? '' : 's'} approved for ${result.member_count} member${result.member_count === 1 ? '' : 's'}.${awaitingText}`
+              );
+              exitBulkMode();
+            } catch (error) {
+              console.error('Error bulk approving hours:', error);
+              showError('Approval Failed', error instanceof Error ? error.message : 'No hours were approved. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleBulkReject = () => {
+    if (selectedPendingIds.length === 0) {
+      showError('No Selection', 'Select at least one submission to reject.');
+      return;
+    }
+
+    setIsBulkRejection(true);
+    setShowRejectionInput('bulk');
+    setRejectionReason('');
+  };
+
+  const saveRejectionTemplate = async () => {
+    if (!saveAsTemplate) return;
+
+    try {
+      await createTemplateMutation.mutateAsync({ label: templateLabel, reason: rejectionReason });
+    } catch (error) {
+      // The rejection already went through, so only report the template failure
+      showError('Template Not Saved', error instanceof Error ? error.message : 'Failed to save the reason as a template.');
+    }
+  };
+
+  const handleDeleteTemplate = (template: RejectionReasonTemplate) => {
+    Alert.alert(
+      'Remove Template',
+      `Remove the "${template.label}" rejection reason?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTemplateMutation.mutateAsync(template.id);
+            } catch (error) {
+              showError('Error', 'Failed to remove template. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleConfirmBulkReject = async () => {
+    if (!rejectionReason.trim()) {
+      showError('Validation Error', 'Please provide a reason for rejection');
+      return;
+    }
+
+    if (saveAsTemplate && !templateLabel.trim()) {
+      showError('Validation Error', 'Please give the template a short label');
+      return;
+    }
+
+    try {
+      const result = await bulkRejectMutation.mutateAsync({
+        hourIds: selectedPendingIds,
+        reason: rejectionReason,
+      });
+      await saveRejectionTemplate();
+      showSuccess(
+        'Hours Rejected',
+        `${result.updated_count} submission${result.updated_count === 1 ? '' : 's'} rejected. ${result.member_count} member${result.member_count === 1 ? ' has' : 's have'} been notified.`
+      );
+      closeRejectionInput();
+      exitBulkMode();
+    } catch (error) {
+      console.error('Error bulk rejecting hours:', error);
+      showError('Rejection Failed', error instanceof Error ? error.message : 'No hours were rejected. Please try again.');
+    }
+  };
+
   const handleVerify = async (request: VolunteerHourData) => {
     try {
-      await approveHoursMutation.mutateAsync(request.id);
-      showSuccess('Hours Verified', `${request.member_name}'s hours have been verified.`);
+      const approvedHour = await approveHoursMutation.mutateAsync(request.id);
+      if (approvedHour.status === 'officer_approved') {
+        showSuccess('First Approval Recorded', `${request.member_name}'s hours need a second officer to verify them.`);
+      } else {
+        showSuccess('Hours Verified', `${request.member_name}'s hours have been verified.`);
+      }
     } catch (error) {
       console.error('Error approving hours:', error);
-      showError('Error', 'Failed to approve hours. Please try again.');
+      showError('Error', error instanceof Error ? error.message : 'Failed to approve hours. Please try again.');
     }
   };
 
@@ -131,21 +310,27 @@ const OfficerVerifyHours = ({ navigation }: any) => {
         return;
       }
 
+      if (saveAsTemplate && !templateLabel.trim()) {
+        showError('Validation Error', 'Please give the template a short label');
+        return;
+      }
+
       try {
         await rejectHoursMutation.mutateAsync({
           hourId: request.id,
           reason: rejectionReason
         });
+        await saveRejectionTemplate();
         showSuccess('Hours Rejected', `${request.member_name} has been notified.`);
 
-        setShowRejectionInput(null);
-        setRejectionReason('');
+        closeRejectionInput();
       } catch (error) {
         console.error('Error rejecting hours:', error);
         showError('Error', 'Failed to reject hours. Please try again.');
       }
     } else {
       // Show rejection input
+      setIsBulkRejection(false);
       setShowRejectionInput(request.id);
       setRejectionReason('');
     }
@@ -169,9 +354,12 @@ const OfficerVerifyHours = ({ navigation }: any) => {
   const renderRequestItem = ({ item }: { item: VolunteerHourData }) => (
     <VerificationCard
       request={item}
-      onVerify={activeTab === 'pending' ? () => handleVerify(item) : undefined}
-      onReject={activeTab === 'pending' ? () => handleReject(item) : undefined}
-      isLoading={approveHoursMutation.isPending || rejectHoursMutation.isPending}
+      onVerify={activeTab === 'pending' && !bulkMode && item.first_approved_by !== user?.id ? () => handleVerify(item) : undefined}
+      onReject={activeTab === 'pending' && !bulkMode ? () => handleReject(item) : undefined}
+      onSelect={() => toggleSelection(item.id)}
+      isSelected={selectedIds.includes(item.id)}
+      showBulkActions={bulkMode && activeTab === 'pending'}
+      isLoading={isReviewing}
       rejectionReason={item.rejection_reason}
     />
   );
@@ -179,9 +367,43 @@ const OfficerVerifyHours = ({ navigation }: any) => {
   const renderRejectionInput = () => {
     if (!showRejectionInput) return null;
 
+    const isSubmitting = isBulkRejection ? bulkRejectMutation.isPending : rejectHoursMutation.isPending;
+
     return (
       <View style={styles.rejectionInputContainer}>
-        <Text style={styles.rejectionInputLabel}>Reason for Rejection</Text>
+        <Text style={styles.rejectionInputLabel}>
+          {isBulkRejection
+            ? `Reject ${selectedPendingIds.length} Submission${selectedPendingIds.length === 1 ? '' : 's'}`
+            : 'Reason for Rejection'}
+        </Text>
+        {rejectionTemplates.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.templateList}
+            contentContainerStyle={styles.templateListContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {rejectionTemplates.map(template => (
+              <TouchableOpacity
+                key={template.id}
+                style={[styles.templateChip, rejectionReason === template.reason && styles.templateChipSelected]}
+                onPress={() => {
+                  setRejectionReason(template.reason);
+                  setSaveAsTemplate(false);
+                }}
+                onLongPress={() => handleDeleteTemplate(template)}
+              >
+                <Text
+                  style={[styles.templateChipText, rejectionReason === template.reason && styles.templateChipTextSelected]}
+                  numberOfLines={1}
+                >
+                  {template.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
         <TextInput
           style={styles.rejectionInput}
           placeholder="Explain why these hours are being rejected..."
@@ -192,26 +414,50 @@ const OfficerVerifyHours = ({ navigation }: any) => {
           numberOfLines={3}
           textAlignVertical="top"
         />
+        {!rejectionTemplates.some(template => template.reason === rejectionReason.trim()) && (
+          <TouchableOpacity
+            style={styles.saveTemplateRow}
+            onPress={() => setSaveAsTemplate(!saveAsTemplate)}
+          >
+            <Icon
+              name={saveAsTemplate ? 'check-box' : 'check-box-outline-blank'}
+              size={moderateScale(20)}
+              color={Colors.white}
+            />
+            <Text style={styles.saveTemplateText}>Save reason as a template</Text>
+          </TouchableOpacity>
+        )}
+        {saveAsTemplate && (
+          <TextInput
+            style={styles.templateLabelInput}
+            placeholder="Template label, e.g. Missing proof"
+            placeholderTextColor={Colors.textLight}
+            value={templateLabel}
+            onChangeText={setTemplateLabel}
+            maxLength={40}
+          />
+        )}
         <View style={styles.rejectionInputButtons}>
           <TouchableOpacity
             style={styles.rejectionCancelButton}
-            onPress={() => {
-              setShowRejectionInput(null);
-              setRejectionReason('');
-            }}
+            onPress={closeRejectionInput}
           >
             <Text style={styles.rejectionCancelButtonText}>Cancel</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.rejectionConfirmButton}
             onPress={() => {
+              if (isBulkRejection) {
+                handleConfirmBulkReject();
+                return;
+              }
               const request = currentTabData.find(r => r.id === showRejectionInput);
               if (request) handleReject(request);
             }}
-            disabled={!rejectionReason.trim() || rejectHoursMutation.isPending}
+            disabled={!rejectionReason.trim() || isSubmitting}
           >
             <Text style={styles.rejectionConfirmButtonText}>
-              {rejectHoursMutation.isPending ? 'Rejecting...' : 'Confirm Reject'}
+              {isSubmitting ? 'Rejecting...' : isBulkRejection ? 'Reject All' : 'Confirm Reject'}
             </Text>
           </TouchableOpacity>
         </View>
@@ -241,10 +487,26 @@ const OfficerVerifyHours = ({ navigation }: any) => {
                 )}
               </Text>
             </View>
-            <ProfileButton
-              color={Colors.solidBlue}
-              size={moderateScale(32)}
-            />
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={styles.headerIconButton}
+                onPress={() => navigation.navigate('VolunteerHoursAuditLog')}
+                accessibilityLabel="Audit log"
+              >
+                <Icon name="history" size={moderateScale(24)} color={Colors.solidBlue} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerIconButton}
+                onPress={() => navigation.navigate('ApprovalPolicy')}
+                accessibilityLabel="Approval policy"
+              >
+                <Icon name="rule" size={moderateScale(24)} color={Colors.solidBlue} />
+              </TouchableOpacity>
+              <ProfileButton
+                color={Colors.solidBlue}
+                size={moderateScale(32)}
+              />
+            </View>
           </View>
 
           {/* Tab Navigation */}
@@ -267,7 +529,10 @@ const OfficerVerifyHours = ({ navigation }: any) => {
 
             <TouchableOpacity
               style={[styles.tab, activeTab === 'verified' && styles.activeTab]}
-              onPress={() => setActiveTab('verified')}
+              onPress={() => {
+                setActiveTab('verified');
+                exitBulkMode();
+              }}
             >
               <View style={styles.tabContent}>
                 <Text style={[styles.tabText, activeTab === 'verified' && styles.activeTabText]}>
@@ -282,9 +547,49 @@ const OfficerVerifyHours = ({ navigation }: any) => {
             </TouchableOpacity>
           </View>
 
-
-
-
+          {/* Bulk Review */}
+          {activeTab === 'pending' && (bulkMode ? (
+            <View style={styles.bulkActionsBar}>
+              <View style={styles.bulkActionsHeader}>
+                <Text style={styles.bulkSelectedText}>{selectedPendingIds.length} selected</Text>
+                <TouchableOpacity
+                  onPress={() => setSelectedIds(
+                    selectedPendingIds.length === currentTabData.length ? [] : currentTabData.map(hour => hour.id)
+                  )}
+                >
+                  <Text style={styles.bulkLinkText}>
+                    {selectedPendingIds.length === currentTabData.length ? 'Clear' : 'Select All'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.bulkActionsButtons}>
+                <TouchableOpacity
+                  style={[styles.bulkButton, styles.bulkApproveButton]}
+                  onPress={handleBulkApprove}
+                  disabled={isReviewing}
+                >
+                  <Text style={styles.bulkButtonText}>
+                    {bulkApproveMutation.isPending ? 'Approving...' : 'Approve Selected'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.bulkButton, styles.bulkRejectButton]}
+                  onPress={handleBulkReject}
+                  disabled={isReviewing}
+                >
+                  <Text style={styles.bulkButtonText}>Reject Selected</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.bulkCancelButton} onPress={exitBulkMode}>
+                  <Text style={styles.bulkCancelText}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : tabCounts.pending > 1 && (
+            <TouchableOpacity style={styles.bulkToggle} onPress={() => setBulkMode(true)}>
+              <Icon name="checklist" size={moderateScale(18)} color={Colors.solidBlue} />
+              <Text style={styles.bulkToggleText}>Bulk Actions</Text>
+            </TouchableOpacity>
+          ))}
 
           {/* Rejection Input Modal */}
           {renderRejectionInput()}
@@ -346,6 +651,14 @@ const styles = StyleSheet.create({
   headerLeft: {
     flex: 1,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerIconButton: {
+    padding: scale(4),
+    marginRight: scale(12),
+  },
   headerTitle: {
     fontSize: moderateScale(32),
     fontWeight: 'bold',
@@ -411,6 +724,80 @@ const styles = StyleSheet.create({
   activeTabBadgeText: {
     color: Colors.solidBlue,
   },
+  bulkToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    paddingVertical: verticalScale(4),
+    marginBottom: verticalScale(8),
+  },
+  bulkToggleText: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+    marginLeft: scale(4),
+  },
+  bulkActionsBar: {
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    padding: scale(12),
+    marginBottom: verticalScale(12),
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: verticalScale(1),
+    },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  bulkActionsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: verticalScale(10),
+  },
+  bulkSelectedText: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  bulkLinkText: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+  },
+  bulkActionsButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(8),
+  },
+  bulkButton: {
+    flex: 1,
+    paddingVertical: verticalScale(10),
+    borderRadius: moderateScale(8),
+    alignItems: 'center',
+  },
+  bulkApproveButton: {
+    backgroundColor: Colors.successGreen,
+  },
+  bulkRejectButton: {
+    backgroundColor: Colors.errorRed,
+  },
+  bulkButtonText: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  bulkCancelButton: {
+    paddingVertical: verticalScale(10),
+    paddingHorizontal: scale(8),
+  },
+  bulkCancelText: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.textMedium,
+  },
 
 
   content: {
@@ -440,6 +827,58 @@ const styles = StyleSheet.create({
     marginBottom: verticalScale(12),
     textAlign: 'center',
   },
+  templateList: {
+    flexGrow: 0,
+    width: '100%',
+    marginBottom: verticalScale(12),
+  },
+  templateListContent: {
+    gap: scale(8),
+  },
+  templateChip: {
+    paddingHorizontal: scale(12),
+    paddingVertical: verticalScale(6),
+    borderRadius: moderateScale(16),
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.dividerColor,
+    maxWidth: scale(180),
+  },
+  templateChipSelected: {
+    backgroundColor: Colors.lightBlue,
+    borderColor: Colors.solidBlue,
+  },
+  templateChipText: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+  },
+  templateChipTextSelected: {
+    color: Colors.solidBlue,
+    fontWeight: '600',
+  },
+  saveTemplateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginBottom: verticalScale(12),
+  },
+  saveTemplateText: {
+    fontSize: moderateScale(14),
+    color: Colors.white,
+    marginLeft: scale(6),
+  },
+  templateLabelInput: {
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(8),
+    paddingHorizontal: scale(12),
+    height: verticalScale(40),
+    fontSize: moderateScale(14),
+    color: Colors.textDark,
+    width: '100%',
+    borderWidth: 1,
+    borderColor: Colors.dividerColor,
+    marginBottom: verticalScale(16),
+  },
   rejectionInput: {
     backgroundColor: Colors.white,
     borderRadius: moderateScale(12),
@@ -0,0 +1,599 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  Share,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useToast } from 'components/ui/ToastProvider';
+import { withRoleProtection } from 'components/hoc/withRoleProtection';
+import EmptyState from 'components/ui/EmptyState';
+import LoadingSkeleton from 'components/ui/LoadingSkeleton';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import {
+  useVerificationCodes,
+  useCreateVerificationCode,
+  useRevokeVerificationCode,
+} from '../../hooks/useVerificationCodes';
+import {
+  ManagedVerificationCode,
+  VerificationCodeRole,
+  VerificationCodeStatus,
+} from '../../types/dataService';
+import { OfficerStackParamList } from '../../types/navigation';
+
+const Colors = {
+  LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  inputBorder: '#D1D5DB',
+  errorRed: '#E53E3E',
+  successGreen: '#38A169',
+  warningOrange: '#DD6B20',
+  lightBlue: '#EBF8FF',
+  dividerColor: '#E2E8F0',
+};
+
+const ROLES: { value: VerificationCodeRole; label: string }[] = [
+  { value: 'member', label: 'Member' },
+  { value: 'officer', label: 'Officer' },
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 7, label: '1 week' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+const STATUS_DISPLAY: Record<VerificationCodeStatus, { label: string; color: string }> = {
+  active: { label: 'Active', color: Colors.successGreen },
+  used_up: { label: 'Used up', color: Colors.textLight },
+  expired: { label: 'Expired', color: Colors.warningOrange },
+  revoked: { label: 'Revoked', color: Colors.errorRed },
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const formatDate = (value?: string): string =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : 'Never';
+
+type VerificationCodesScreenNavigationProp = NativeStackNavigationProp<OfficerStackParamList, 'VerificationCodes'>;
+
+interface VerificationCodesScreenProps {
+  navigation: VerificationCodesScreenNavigationProp;
+}
+
+const VerificationCodesScreen = ({ navigation }: VerificationCodesScreenProps) => {
+  const { showSuccess, showError, showValidationError } = useToast();
+  const { activeOrganization } = useOrganization();
+  const insets = useSafeAreaInsets();
+  const orgId = activeOrganization?.id || '';
+
+  const { data: codes = [], isLoading } = useVerificationCodes(orgId);
+  const createCode = useCreateVerificationCode(orgId);
+  const revokeCode = useRevokeVerificationCode();
+
+  // Form state
+  const [grantedRole, setGrantedRole] = useState<VerificationCodeRole>('member');
+  const [maxUses, setMaxUses] = useState('1');
+  const [expiryDays, setExpiryDays] = useState(30);
+  const [boundEmail, setBoundEmail] = useState('');
+  const [label, setLabel] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [expandedCodeId, setExpandedCodeId] = useState<string | null>(null);
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+    const maxUsesValue = Number(maxUses);
+
+    if (!Number.isInteger(maxUsesValue) || maxUsesValue < 1 || maxUsesValue > 500) {
+      newErrors.maxUses = 'Enter a whole number between 1 and 500';
+    }
+
+    if (boundEmail.trim() && !EMAIL_REGEX.test(boundEmail.trim())) {
+      newErrors.boundEmail = 'Enter a valid email address or leave it blank';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const resetForm = () => {
+    setMaxUses('1');
+    setBoundEmail('');
+    setLabel('');
+    setErrors({});
+  };
+
+  const shareCode = (code: string, role?: VerificationCodeRole) => {
+    Share.share({
+      message: `Use verification code ${code} to create your ${role || 'member'} account in ${activeOrganization?.name || 'the app'}.`,
+    }).catch(() => undefined);
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      showValidationError('Validation Error', 'Please fix the highlighted fields.');
+      return;
+    }
+
+    const bindsToEmail = !!boundEmail.trim();
+    // A code bound to one email can only ever be redeemed once
+    const uses = bindsToEmail ? 1 : Number(maxUses);
+
+    try {
+      const created = await createCode.mutateAsync({
+        granted_role: grantedRole,
+        max_uses: uses,
+        expires_at: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString(),
+        bound_email: bindsToEmail ? boundEmail.trim() : undefined,
+        label: label.trim() || undefined,
+      });
+      showSuccess('Code Created', `${created.code} is ready to share.`);
+      resetForm();
+      shareCode(created.code, grantedRole);
+    } catch (error) {
+      showError('Create Failed', error instanceof Error ? error.message : 'Failed to create verification code.');
+    }
+  };
+
+  const confirmRevoke = (code: ManagedVerificationCode) => {
+    Alert.alert(
+      'Revoke Code',
+      `Revoke ${code.code}? Nobody will be able to sign up with it. Existing accounts are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeCode.mutateAsync(code.id);
+              showSuccess('Code Revoked', `${code.code} can no longer be used.`);
+            } catch (error) {
+              showError('Revoke Failed', error instanceof Error ? error.message : 'Failed to revoke verification code.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderOption = (optionLabel: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={optionLabel}
+      style={[styles.option, isSelected && styles.optionSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>{optionLabel}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderCode = (code: ManagedVerificationCode) => {
+    const status = STATUS_DISPLAY[code.status];
+    const isExpanded = expandedCodeId === code.id;
+
+    return (
+      <View key={code.id} style={styles.codeCard}>
+        <View style={styles.codeHeader}>
+          <View style={styles.codeInfo}>
+            <Text style={styles.codeText} selectable>{code.code}</Text>
+            {code.label && <Text style={styles.codeLabel}>{code.label}</Text>}
+          </View>
+          <View style={[styles.statusBadge, { borderColor: status.color }]}>
+            <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.codeDetail}>
+          {code.granted_role ? `Grants ${code.granted_role} role` : 'Any role'}
+          {' • '}{code.use_count}{code.max_uses ? ` of ${code.max_uses}` : ''} used
+        </Text>
+        <Text style={styles.codeDetail}>
+          {code.status === 'revoked' ? `Revoked ${formatDate(code.revoked_at)}` : `Expires ${formatDate(code.expires_at)}`}
+        </Text>
+        {code.bound_email && <Text style={styles.codeDetail}>Only for {code.bound_email}</Text>}
+
+        <View style={styles.codeActions}>
+          <TouchableOpacity
+            style={styles.codeAction}
+            onPress={() => setExpandedCodeId(isExpanded ? null : code.id)}
+            disabled={code.redemptions.length === 0}
+          >
+            <Icon
+              name={isExpanded ? 'expand-less' : 'expand-more'}
+              size={moderateScale(18)}
+              color={code.redemptions.length === 0 ? Colors.textLight : Colors.solidBlue}
+            />
+            <Text style={[styles.codeActionText, code.redemptions.length === 0 && styles.codeActionTextDisabled]}>
+              {code.redemptions.length === 1 ? '1 redemption' : `${code.redemptions.length} redemptions`}
+            </Text>
+          </TouchableOpacity>
+          {code.status === 'active' && (
+            <>
+              <TouchableOpacity style={styles.codeAction} onPress={() => shareCode(code.code, code.granted_role)}>
+                <Icon name="share" size={moderateScale(18)} color={Colors.solidBlue} />
+                <Text style={styles.codeActionText}>Share</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.codeAction}
+                onPress={() => confirmRevoke(code)}
+                disabled={revokeCode.isPending}
+              >
+                <Icon name="block" size={moderateScale(18)} color={Colors.errorRed} />
+                <Text style={[styles.codeActionText, { color: Colors.errorRed }]}>Revoke</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        {isExpanded && (
+          <View style={styles.redemptions}>
+            {code.redemptions.map(redemption => (
+              <View key={redemption.id} style={styles.redemptionRow}>
+                <Text style={styles.redemptionEmail} numberOfLines={1}>{redemption.email}</Text>
+                <Text style={styles.redemptionMeta}>
+                  {redemption.role} • {formatDate(redemption.redeemed_at)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={Colors.LandingScreenGradient}
+      style={{ flex: 1 }}
+      start={{ x: 0.5, y: 0 }}
+      end={{ x: 0.5, y: 1 }}
+    >
+      <SafeAreaView style={{ flex: 1 }}>
+        <KeyboardAvoidingView
+          style={{ flex: 1 }}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <ScrollView
+            contentContainerStyle={[
+              styles.scrollContainer,
+              {
+                paddingTop: insets.top,
+                paddingBottom: insets.bottom + verticalScale(40),
+              },
+            ]}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            {/* Header with Back Button */}
+            <View style={styles.header}>
+              <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                <Icon name="arrow-back" size={moderateScale(24)} color={Colors.textDark} />
+              </TouchableOpacity>
+              <Text style={styles.headerTitle}>Signup Codes</Text>
+              <View style={styles.headerPlaceholder} />
+            </View>
+
+            {/* Create Code Form */}
+            <View style={styles.formCard}>
+              <Text style={styles.formTitle}>New Code</Text>
+
+              <Text style={styles.inputLabel}>Grants Role</Text>
+              <View style={styles.options}>
+                {ROLES.map(role =>
+                  renderOption(role.label, grantedRole === role.value, () => setGrantedRole(role.value))
+                )}
+              </View>
+
+              <Text style={styles.inputLabel}>Expires After</Text>
+              <View style={styles.options}>
+                {EXPIRY_OPTIONS.map(option =>
+                  renderOption(option.label, expiryDays === option.days, () => setExpiryDays(option.days))
+                )}
+              </View>
+
+              <Text style={styles.inputLabel}>Only for Email (optional)</Text>
+              <TextInput
+                style={[styles.textInput, errors.boundEmail && styles.inputError]}
+                placeholder="student@school.edu"
+                placeholderTextColor={Colors.textLight}
+                value={boundEmail}
+                onChangeText={setBoundEmail}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="email-address"
+              />
+              {errors.boundEmail && <Text style={styles.errorText}>{errors.boundEmail}</Text>}
+
+              <Text style={styles.inputLabel}>Max Uses</Text>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  errors.maxUses && styles.inputError,
+                  !!boundEmail.trim() && styles.inputDisabled,
+                ]}
+                placeholder="e.g. 25"
+                placeholderTextColor={Colors.textLight}
+                value={boundEmail.trim() ? '1' : maxUses}
+                onChangeText={setMaxUses}
+                keyboardType="number-pad"
+                editable={!boundEmail.trim()}
+              />
+              {errors.maxUses && <Text style={styles.errorText}>{errors.maxUses}</Text>}
+              {!!boundEmail.trim() && (
+                <Text style={styles.helperText}>Codes for a single email can be used once.</Text>
+              )}
+
+              <Text style={styles.inputLabel}>Note (optional)</Text>
+              <TextInput
+                style={styles.textInput}
+                placeholder="e.g. Fall induction class"
+                placeholderTextColor={Colors.textLight}
+                value={label}
+                onChangeText={setLabel}
+                maxLength={100}
+              />
+
+              <TouchableOpacity
+                style={[styles.submitButton, createCode.isPending && styles.submitButtonDisabled]}
+                onPress={handleSubmit}
+                disabled={createCode.isPending}
+              >
+                <Text style={styles.submitButtonText}>
+                  {createCode.isPending ? 'Creating...' : 'Create Code'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Existing Codes */}
+            <Text style={styles.sectionTitle}>Codes</Text>
+            {isLoading ? (
+              <LoadingSkeleton height={verticalScale(100)} style={{ marginBottom: verticalScale(16) }} />
+            ) : codes.length === 0 ? (
+              <EmptyState
+                icon="vpn-key"
+                title="No Codes Yet"
+                description="Create a code above and share it with new members or officers."
+                style={{ paddingVertical: verticalScale(24) }}
+              />
+            ) : (
+              codes.map(renderCode)
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: scale(16),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(24),
+  },
+  backButton: {
+    padding: scale(8),
+  },
+  headerTitle: {
+    fontSize: moderateScale(24),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    textAlign: 'center',
+  },
+  headerPlaceholder: {
+    width: scale(40),
+  },
+  sectionTitle: {
+    fontSize: moderateScale(20),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    marginTop: verticalScale(24),
+    marginBottom: verticalScale(12),
+  },
+  formCard: {
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(16),
+    padding: scale(20),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(2) },
+    shadowOpacity: 0.1,
+    shadowRadius: moderateScale(8),
+    elevation: 4,
+  },
+  formTitle: {
+    fontSize: moderateScale(20),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    marginBottom: verticalScale(8),
+  },
+  inputLabel: {
+    fontSize: moderateScale(14),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(8),
+  },
+  textInput: {
+    height: verticalScale(48),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    borderRadius: moderateScale(8),
+    paddingHorizontal: scale(16),
+    backgroundColor: Colors.white,
+    fontSize: moderateScale(16),
+    color: Colors.textDark,
+  },
+  inputError: {
+    borderColor: Colors.errorRed,
+  },
+  inputDisabled: {
+    color: Colors.textLight,
+  },
+  errorText: {
+    fontSize: moderateScale(12),
+    color: Colors.errorRed,
+    marginTop: verticalScale(4),
+  },
+  helperText: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+    marginTop: verticalScale(4),
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: scale(8),
+  },
+  option: {
+    paddingHorizontal: scale(12),
+    paddingVertical: verticalScale(8),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    backgroundColor: Colors.white,
+  },
+  optionSelected: {
+    backgroundColor: Colors.lightBlue,
+    borderColor: Colors.solidBlue,
+  },
+  optionText: {
+    fontSize: moderateScale(14),
+    color: Colors.textMedium,
+  },
+  optionTextSelected: {
+    color: Colors.solidBlue,
+    fontWeight: '600',
+  },
+  submitButton: {
+    backgroundColor: Colors.solidBlue,
+    borderRadius: moderateScale(8),
+    paddingVertical: verticalScale(14),
+    alignItems: 'center',
+    marginTop: verticalScale(24),
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: moderateScale(16),
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  codeCard: {
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    padding: scale(16),
+    marginBottom: verticalScale(12),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(1) },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  codeHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: verticalScale(6),
+  },
+  codeInfo: {
+    flex: 1,
+  },
+  codeText: {
+    fontSize: moderateScale(20),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    letterSpacing: 2,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  codeLabel: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+  },
+  statusBadge: {
+    borderWidth: 1,
+    borderRadius: moderateScale(12),
+    paddingHorizontal: scale(10),
+    paddingVertical: verticalScale(3),
+  },
+  statusText: {
+    fontSize: moderateScale(12),
+    fontWeight: '600',
+  },
+  codeDetail: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+  },
+  codeActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: scale(16),
+    marginTop: verticalScale(12),
+    paddingTop: verticalScale(10),
+    borderTopWidth: 1,
+    borderTopColor: Colors.dividerColor,
+  },
+  codeAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(4),
+  },
+  codeActionText: {
+    fontSize: moderateScale(13),
+    fontWeight: '600',
+    color: Colors.solidBlue,
+  },
+  codeActionTextDisabled: {
+    color: Colors.textLight,
+  },
+  redemptions: {
+    marginTop: verticalScale(8),
+  },
+  redemptionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: verticalScale(6),
+    gap: scale(8),
+  },
+  redemptionEmail: {
+    flex: 1,
+    fontSize: moderateScale(13),
+    color: Colors.textDark,
+  },
+  redemptionMeta: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+  },
+});
+
+export default withRoleProtection(VerificationCodesScreen, {
+  requiredRole: 'officer',
+  loadingMessage: 'Verifying officer access...'
+});
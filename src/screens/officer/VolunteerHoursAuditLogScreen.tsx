@@ -0,0 +1,297 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  FlatList,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { withRoleProtection } from 'components/hoc/withRoleProtection';
+import EmptyState from 'components/ui/EmptyState';
+import LoadingSkeleton from 'components/ui/LoadingSkeleton';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { useVolunteerHoursAuditLog } from '../../hooks/useVolunteerHoursData';
+import {
+  VerificationAuditAction,
+  VerificationAuditEntry,
+  VerificationAuditFilters,
+} from '../../services/VerificationRequestService';
+import { OfficerStackParamList } from '../../types/navigation';
+import {
+  AUDIT_ACTION_ICONS,
+  AUDIT_ACTION_LABELS,
+  describeAuditChanges,
+  formatAuditTimestamp,
+} from '../../utils/auditUtils';
+
+const Colors = {
+  LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  inputBorder: '#D1D5DB',
+  lightBlue: '#EBF8FF',
+};
+
+const ACTIONS: VerificationAuditAction[] = ['created', 'resubmitted', 'edited', 'officer_approved', 'approved', 'rejected', 'deleted'];
+
+type RangeOption = '7' | '30' | 'all';
+
+const RANGE_LABELS: Record<RangeOption, string> = {
+  '7': 'Last 7 Days',
+  '30': 'Last 30 Days',
+  all: 'All Time',
+};
+
+type VolunteerHoursAuditLogScreenNavigationProp = NativeStackNavigationProp<OfficerStackParamList, 'VolunteerHoursAuditLog'>;
+
+interface VolunteerHoursAuditLogScreenProps {
+  navigation: VolunteerHoursAuditLogScreenNavigationProp;
+}
+
+const VolunteerHoursAuditLogScreen = ({ navigation }: VolunteerHoursAuditLogScreenProps) => {
+  const { activeOrganization } = useOrganization();
+  const orgId = activeOrganization?.id || '';
+
+  const [action, setAction] = useState<VerificationAuditAction | undefined>(undefined);
+  const [range, setRange] = useState<RangeOption>('30');
+  const [member, setMember] = useState<{ id: string; name: string } | null>(null);
+
+  const filters = useMemo<VerificationAuditFilters>(() => {
+    const since = range === 'all'
+      ? undefined
+      : new Date(Date.now() - Number(range) * 24 * 60 * 60 * 1000).toISOString();
+    return { action, memberId: member?.id, since };
+  }, [action, range, member?.id]);
+
+  const { data: entries = [], isLoading, isFetching, refetch } = useVolunteerHoursAuditLog(orgId, filters);
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isSelected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEntry = ({ item }: { item: VerificationAuditEntry }) => {
+    const changes = describeAuditChanges(item);
+
+    return (
+      <View style={styles.entryCard}>
+        <Icon name={AUDIT_ACTION_ICONS[item.action]} size={moderateScale(22)} color={Colors.solidBlue} />
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryTitle}>
+            {AUDIT_ACTION_LABELS[item.action]}
+            {item.performed_by_name ? ` by ${item.performed_by_name}` : ''}
+          </Text>
+          <TouchableOpacity
+            onPress={() => setMember({ id: item.member_id, name: item.member_name || 'Member' })}
+            disabled={member?.id === item.member_id}
+          >
+            <Text style={styles.entryMember}>{item.member_name || 'Unknown Member'}</Text>
+          </TouchableOpacity>
+          {changes.map(change => (
+            <Text key={change} style={styles.entryDetail}>{change}</Text>
+          ))}
+          {item.rejection_reason && (
+            <Text style={styles.entryDetail}>Reason: {item.rejection_reason}</Text>
+          )}
+          <Text style={styles.entryTimestamp}>{formatAuditTimestamp(item.performed_at)}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={Colors.LandingScreenGradient}
+      style={{ flex: 1 }}
+      start={{ x: 0.5, y: 0 }}
+      end={{ x: 0.5, y: 1 }}
+    >
+      <SafeAreaView style={{ flex: 1 }}>
+        <View style={styles.container}>
+          {/* Header with Back Button */}
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+              <Icon name="arrow-back" size={moderateScale(24)} color={Colors.textDark} />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Hours Audit Log</Text>
+            <View style={styles.headerPlaceholder} />
+          </View>
+
+          {/* Filters */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.chipRow}
+            contentContainerStyle={styles.chipRowContent}
+          >
+            {renderChip('All Actions', action === undefined, () => setAction(undefined))}
+            {ACTIONS.map(value =>
+              renderChip(AUDIT_ACTION_LABELS[value], action === value, () => setAction(value))
+            )}
+          </ScrollView>
+          <View style={[styles.chipRow, styles.chipRowContent]}>
+            {(Object.keys(RANGE_LABELS) as RangeOption[]).map(value =>
+              renderChip(RANGE_LABELS[value], range === value, () => setRange(value))
+            )}
+          </View>
+          {member && (
+            <TouchableOpacity style={styles.memberFilter} onPress={() => setMember(null)}>
+              <Text style={styles.memberFilterText}>Member: {member.name}</Text>
+              <Icon name="close" size={moderateScale(16)} color={Colors.solidBlue} />
+            </TouchableOpacity>
+          )}
+
+          {isLoading ? (
+            <LoadingSkeleton height={verticalScale(80)} />
+          ) : (
+            <FlatList
+              data={entries}
+              keyExtractor={item => item.id}
+              renderItem={renderEntry}
+              contentContainerStyle={styles.listContent}
+              refreshControl={<RefreshControl refreshing={isFetching && !isLoading} onRefresh={refetch} />}
+              ListEmptyComponent={
+                <EmptyState
+                  icon="history"
+                  title="No Changes Found"
+                  description="No volunteer hours changes match these filters."
+                  style={{ paddingVertical: verticalScale(24) }}
+                />
+              }
+            />
+          )}
+        </View>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: scale(16),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(16),
+  },
+  backButton: {
+    padding: scale(8),
+  },
+  headerTitle: {
+    fontSize: moderateScale(24),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    textAlign: 'center',
+  },
+  headerPlaceholder: {
+    width: scale(40),
+  },
+  chipRow: {
+    flexGrow: 0,
+    marginBottom: verticalScale(8),
+  },
+  chipRowContent: {
+    flexDirection: 'row',
+    gap: scale(8),
+  },
+  chip: {
+    paddingHorizontal: scale(12),
+    paddingVertical: verticalScale(6),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    borderColor: Colors.inputBorder,
+    backgroundColor: Colors.white,
+  },
+  chipSelected: {
+    backgroundColor: Colors.lightBlue,
+    borderColor: Colors.solidBlue,
+  },
+  chipText: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+  },
+  chipTextSelected: {
+    color: Colors.solidBlue,
+    fontWeight: '600',
+  },
+  memberFilter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: Colors.lightBlue,
+    borderRadius: moderateScale(16),
+    paddingHorizontal: scale(12),
+    paddingVertical: verticalScale(6),
+    marginBottom: verticalScale(8),
+  },
+  memberFilterText: {
+    fontSize: moderateScale(13),
+    color: Colors.solidBlue,
+    fontWeight: '600',
+    marginRight: scale(6),
+  },
+  listContent: {
+    paddingTop: verticalScale(8),
+    paddingBottom: verticalScale(40),
+  },
+  entryCard: {
+    flexDirection: 'row',
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    padding: scale(14),
+    marginBottom: verticalScale(10),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(1) },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  entryInfo: {
+    flex: 1,
+    marginLeft: scale(12),
+  },
+  entryTitle: {
+    fontSize: moderateScale(15),
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  entryMember: {
+    fontSize: moderateScale(13),
+    color: Colors.solidBlue,
+    marginTop: verticalScale(2),
+  },
+  entryDetail: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+    marginTop: verticalScale(4),
+  },
+  entryTimestamp: {
+    fontSize: moderateScale(11),
+    color: Colors.textLight,
+    marginTop: verticalScale(6),
+  },
+});
+
+export default withRoleProtection(VolunteerHoursAuditLogScreen, {
+  requiredRole: 'officer',
+  loadingMessage: 'Verifying officer access...'
+});
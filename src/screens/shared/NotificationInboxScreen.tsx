@@ -0,0 +1,242 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { scale, verticalScale, moderateScale } from 'react-native-size-matters';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import { useToast } from 'components/ui/ToastProvider';
+import EmptyState from 'components/ui/EmptyState';
+import LoadingSkeleton from 'components/ui/LoadingSkeleton';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  useNotificationInbox,
+  useMarkInboxRead,
+  useMarkAllInboxRead,
+} from '../../hooks/useNotificationInbox';
+import { notificationNavigationHandler } from '../../services/NotificationNavigationHandler';
+import { NotificationInboxItem } from '../../types/notifications';
+
+const Colors = {
+  LandingScreenGradient: ['#F0F6FF', '#F8FBFF', '#FFFFFF'] as const,
+  solidBlue: '#2B5CE6',
+  textDark: '#1A202C',
+  textMedium: '#4A5568',
+  textLight: '#718096',
+  white: '#FFFFFF',
+  lightBlue: '#EBF8FF',
+};
+
+const TYPE_ICONS: Record<NotificationInboxItem['notification_type'], string> = {
+  announcement: 'campaign',
+  event: 'event',
+  volunteer_hours: 'volunteer-activism',
+  ble_session: 'bluetooth',
+  custom: 'mail',
+};
+
+const formatReceivedAt = (value: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  return new Date(value).toLocaleDateString();
+};
+
+interface NotificationInboxScreenProps {
+  navigation?: any;
+}
+
+export default function NotificationInboxScreen({ navigation }: NotificationInboxScreenProps) {
+  const { showError } = useToast();
+  const { profile } = useAuth();
+  const userId = profile?.id;
+
+  const { data: items = [], isLoading, isFetching, refetch } = useNotificationInbox(userId);
+  const markRead = useMarkInboxRead(userId);
+  const markAllRead = useMarkAllInboxRead(userId);
+
+  const unreadCount = items.filter(item => !item.read_at).length;
+
+  const handleOpen = async (item: NotificationInboxItem) => {
+    if (!item.read_at) {
+      markRead.mutate([item.id]);
+    }
+    await notificationNavigationHandler.handleNotificationTap(item.payload);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead.mutateAsync();
+    } catch (error) {
+      showError('Update Failed', error instanceof Error ? error.message : 'Failed to mark notifications read.');
+    }
+  };
+
+  const renderItem = ({ item }: { item: NotificationInboxItem }) => {
+    const unread = !item.read_at;
+
+    return (
+      <TouchableOpacity
+        style={[styles.itemCard, unread && styles.itemCardUnread]}
+        onPress={() => handleOpen(item)}
+      >
+        <Icon
+          name={TYPE_ICONS[item.notification_type]}
+          size={moderateScale(22)}
+          color={unread ? Colors.solidBlue : Colors.textLight}
+        />
+        <View style={styles.itemInfo}>
+          <Text style={[styles.itemTitle, unread && styles.itemTitleUnread]} numberOfLines={1}>
+            {item.title}
+          </Text>
+          <Text style={styles.itemBody} numberOfLines={2}>{item.body}</Text>
+          <Text style={styles.itemTime}>{formatReceivedAt(item.created_at)}</Text>
+        </View>
+        {unread && <View style={styles.unreadDot} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={Colors.LandingScreenGradient}
+      style={{ flex: 1 }}
+      start={{ x: 0.5, y: 0 }}
+      end={{ x: 0.5, y: 1 }}
+    >
+      <SafeAreaView style={{ flex: 1 }}>
+        <View style={styles.container}>
+          {/* Header with Back Button */}
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={() => navigation?.goBack()}>
+              <Icon name="arrow-back" size={moderateScale(24)} color={Colors.textDark} />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Notifications</Text>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={handleMarkAllRead}
+              disabled={unreadCount === 0 || markAllRead.isPending}
+            >
+              <Icon
+                name="done-all"
+                size={moderateScale(24)}
+                color={unreadCount === 0 ? Colors.textLight : Colors.solidBlue}
+              />
+            </TouchableOpacity>
+          </View>
+
+          {unreadCount > 0 && (
+            <Text style={styles.description}>
+              {unreadCount} unread notification{unreadCount === 1 ? '' : 's'}
+            </Text>
+          )}
+
+          {isLoading ? (
+            <LoadingSkeleton height={verticalScale(80)} />
+          ) : (
+            <FlatList
+              data={items}
+              keyExtractor={item => item.id}
+              renderItem={renderItem}
+              contentContainerStyle={styles.listContent}
+              refreshControl={<RefreshControl refreshing={isFetching && !isLoading} onRefresh={refetch} />}
+              ListEmptyComponent={
+                <EmptyState
+                  icon="notifications-none"
+                  title="No Notifications"
+                  description="Announcements, events and volunteer hour updates you're notified about will appear here."
+                  style={{ paddingVertical: verticalScale(24) }}
+                />
+              }
+            />
+          )}
+        </View>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: scale(16),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: verticalScale(16),
+    marginBottom: verticalScale(16),
+  },
+  backButton: {
+    padding: scale(8),
+  },
+  headerTitle: {
+    fontSize: moderateScale(24),
+    fontWeight: 'bold',
+    color: Colors.textDark,
+    textAlign: 'center',
+  },
+  description: {
+    fontSize: moderateScale(14),
+    color: Colors.textMedium,
+    marginBottom: verticalScale(8),
+  },
+  listContent: {
+    paddingTop: verticalScale(8),
+    paddingBottom: verticalScale(40),
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.white,
+    borderRadius: moderateScale(12),
+    padding: scale(14),
+    marginBottom: verticalScale(10),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(1) },
+    shadowOpacity: 0.05,
+    shadowRadius: moderateScale(4),
+    elevation: 2,
+  },
+  itemCardUnread: {
+    backgroundColor: Colors.lightBlue,
+  },
+  itemInfo: {
+    flex: 1,
+    marginLeft: scale(12),
+  },
+  itemTitle: {
+    fontSize: moderateScale(15),
+    fontWeight: '500',
+    color: Colors.textDark,
+  },
+  itemTitleUnread: {
+    fontWeight: '700',
+  },
+  itemBody: {
+    fontSize: moderateScale(13),
+    color: Colors.textMedium,
+    marginTop: verticalScale(2),
+  },
+  itemTime: {
+    fontSize: moderateScale(12),
+    color: Colors.textLight,
+    marginTop: verticalScale(4),
+  },
+  unreadDot: {
+    width: moderateScale(10),
+    height: moderateScale(10),
+    borderRadius: moderateScale(5),
+    backgroundColor: Colors.solidBlue,
+    marginLeft: scale(8),
+  },
+});
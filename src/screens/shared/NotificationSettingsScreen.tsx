@@ -11,7 +11,12 @@ import {
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useNotificationPreferences } from '../../hooks/useNotificationPreferences';
-import { MUTE_DURATIONS, MuteDuration } from '../../types/notifications';
+import {
+  MUTE_DURATIONS,
+  MuteDuration,
+  DELIVERY_MODES,
+  NotificationDeliveryMode,
+} from '../../types/notifications';
 
 interface NotificationSettingsScreenProps {
   navigation?: any;
@@ -80,6 +85,22 @@ export default function NotificationSettingsScreen({ navigation }: NotificationS
     }
   };
 
+  const handleDeliveryModeChange = async (deliveryMode: NotificationDeliveryMode) => {
+    if (deliveryMode === preferences.delivery_mode) return;
+
+    setIsUpdating(true);
+    try {
+      const success = await updatePreferences({ delivery_mode: deliveryMode });
+      if (!success) {
+        Alert.alert('Error', 'Failed to update delivery setting. Please try again.');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'An unexpected error occurred. Please try again.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const handleMuteNotifications = () => {
     Alert.alert(
       'Mute Notifications',
@@ -306,6 +327,38 @@ export default function NotificationSettingsScreen({ navigation }: NotificationS
           </View>
         )}
 
+        {/* Delivery */}
+        {hasAnyNotificationEnabled && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="schedule-send" size={24} color="#2B5CE6" />
+              <Text style={styles.sectionTitle}>Delivery</Text>
+            </View>
+
+            {DELIVERY_MODES.map((option) => {
+              const isSelected = preferences.delivery_mode === option.mode;
+              return (
+                <TouchableOpacity
+                  key={option.mode}
+                  style={styles.settingRow}
+                  onPress={() => handleDeliveryModeChange(option.mode)}
+                  disabled={isUpdating}
+                >
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingTitle}>{option.label}</Text>
+                    <Text style={styles.settingDescription}>{option.description}</Text>
+                  </View>
+                  <MaterialIcons
+                    name={isSelected ? 'radio-button-checked' : 'radio-button-unchecked'}
+                    size={24}
+                    color={isSelected ? '#2B5CE6' : '#CBD5E0'}
+                  />
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
         {/* Quiet Hours */}
         {hasAnyNotificationEnabled && (
           <View style={styles.section}>
@@ -318,7 +371,7 @@ export default function NotificationSettingsScreen({ navigation }: NotificationS
               <View style={styles.settingInfo}>
                 <Text style={styles.settingTitle}>Enable Quiet Hours</Text>
                 <Text style={styles.settingDescription}>
-                  Reduce notifications during {preferences.quiet_hours.start_time} - {preferences.quiet_hours.end_time}
+                  Hold notifications from {preferences.quiet_hours.start_time} - {preferences.quiet_hours.end_time} and deliver them when quiet hours end
                 </Text>
               </View>
               <Switch
@@ -0,0 +1,147 @@
+/**
+ * AccountDataService - Self-service data export and account deletion
+ * Members can download everything stored about them and schedule their account
+ * for deletion. Deletion runs after a 14-day grace period in the
+ * process-account-deletions edge function, which also removes uploaded images
+ * and push tokens; until then the member can cancel it.
+ */
+
+import { BaseDataService } from './BaseDataService';
+import { supabase } from '../lib/supabaseClient';
+import { AccountDataExport, AccountDeletionRequest, ApiResponse } from '../types/dataService';
+import { DATABASE_TABLES } from '../types/database';
+
+export class AccountDataService extends BaseDataService {
+  constructor() {
+    super('AccountDataService');
+  }
+
+  // =============================================================================
+  // EXPORT
+  // =============================================================================
+
+  /**
+   * Gets a copy of the current user's profile, memberships, attendance,
+   * volunteer hours, RSVPs and download links for their uploaded images
+   */
+  async exportMyData(): Promise<ApiResponse<AccountDataExport>> {
+    try {
+      const { data, error } = await supabase.functions.invoke('export-account-data', {
+        body: {},
+      });
+
+      if (error || !data?.success) {
+        return {
+          data: null,
+          error: data?.error || error?.message || 'Failed to export your data',
+          success: false,
+        };
+      }
+
+      this.log('info', 'Account data exported', { images: data.export.images.length });
+
+      return {
+        data: data.export,
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to export account data', { error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  // =============================================================================
+  // DELETION
+  // =============================================================================
+
+  /**
+   * Gets the current user's scheduled deletion, or null if none is scheduled
+   */
+  async getDeletionRequest(): Promise<ApiResponse<AccountDeletionRequest | null>> {
+    const userId = await this.getCurrentUserId();
+
+    return this.executeQuery<AccountDeletionRequest | null>(
+      supabase
+        .from(DATABASE_TABLES.ACCOUNT_DELETION_REQUESTS)
+        .select('id, requested_at, scheduled_for, status, cancelled_at')
+        .eq('user_id', userId)
+        .eq('status', 'scheduled')
+        .maybeSingle(),
+      'getDeletionRequest'
+    );
+  }
+
+  /**
+   * Schedules the current user's account for deletion after the grace period.
+   * Returns the existing request if one is already scheduled.
+   */
+  async requestDeletion(): Promise<ApiResponse<AccountDeletionRequest>> {
+    const result = await this.executeMutation<any>(
+      supabase.rpc('request_account_deletion'),
+      'requestDeletion'
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    if (!result.data?.success) {
+      return {
+        data: null,
+        error: result.data?.message || 'Failed to schedule account deletion',
+        success: false,
+      };
+    }
+
+    this.log('info', 'Account deletion scheduled', { scheduledFor: result.data.request.scheduled_for });
+
+    return {
+      data: result.data.request,
+      error: null,
+      success: true,
+    };
+  }
+
+  /**
+   * Cancels the current user's scheduled deletion
+   */
+  async cancelDeletion(): Promise<ApiResponse<boolean>> {
+    const result = await this.executeMutation<any>(
+      supabase.rpc('cancel_account_deletion'),
+      'cancelDeletion'
+    );
+
+    if (!result.success) {
+      return {
+        data: false,
+        error: result.error,
+        success: false,
+      };
+    }
+
+    if (!result.data?.success) {
+      return {
+        data: false,
+        error: result.data?.message || 'Failed to cancel account deletion',
+        success: false,
+      };
+    }
+
+    this.log('info', 'Account deletion cancelled');
+
+    return {
+      data: true,
+      error: null,
+      success: true,
+    };
+  }
+}
+
+// Export singleton instance
+export const accountDataService = new AccountDataService();
@@ -0,0 +1,104 @@
+/**
+ * AccountLockoutService - Sign-in lockouts for an organization's members
+ * The auth edge functions lock an email out after repeated failed attempts, for a
+ * period that doubles with each lockout. Officers can see which of their members
+ * are locked out and lift the lockout.
+ */
+
+import { BaseDataService } from './BaseDataService';
+import { callRpc } from '../lib/supabaseRpc';
+import { ApiResponse, LockedAccount } from '../types/dataService';
+import { UUID } from '../types/database';
+
+interface LockedAccountRow {
+  member_id: UUID;
+  member_name: string | null;
+  email: string;
+  locked_until: string;
+  lockout_level: number | null;
+}
+
+interface UnlockAccountResponse {
+  success: boolean;
+  message?: string;
+}
+
+export class AccountLockoutService extends BaseDataService {
+  constructor() {
+    super('AccountLockoutService');
+  }
+
+  /**
+   * Gets members who are currently locked out, longest lockout first (officers only)
+   */
+  async getLockedAccounts(orgId: UUID): Promise<ApiResponse<LockedAccount[]>> {
+    const result = await this.executeQuery<LockedAccountRow[]>(
+      callRpc<LockedAccountRow[]>('get_locked_accounts', { p_org_id: orgId }),
+      'getLockedAccounts',
+      this.createPermissionContext('view_locked_accounts', {
+        requiredRole: 'officer',
+        organizationId: orgId,
+      })
+    );
+
+    if (!result.success) {
+      return { data: null, error: result.error, success: false };
+    }
+
+    return {
+      data: (result.data || []).map(row => ({
+        member_id: row.member_id,
+        member_name: row.member_name || row.email,
+        email: row.email,
+        locked_until: row.locked_until,
+        lockout_level: row.lockout_level ?? 0,
+      })),
+      error: null,
+      success: true,
+    };
+  }
+
+  /**
+   * Lifts the lockout on a member's email so they can sign in again (officers only)
+   */
+  async unlockAccount(orgId: UUID, email: string): Promise<ApiResponse<boolean>> {
+    const result = await this.executeMutation<UnlockAccountResponse>(
+      callRpc<UnlockAccountResponse>('unlock_auth_account', {
+        p_org_id: orgId,
+        p_email: email.trim().toLowerCase(),
+      }),
+      'unlockAccount',
+      this.createPermissionContext('unlock_account', {
+        requiredRole: 'officer',
+        organizationId: orgId,
+      })
+    );
+
+    if (!result.success) {
+      return {
+        data: false,
+        error: result.error,
+        success: false,
+      };
+    }
+
+    if (!result.data?.success) {
+      return {
+        data: false,
+        error: result.data?.message || 'Failed to unlock account',
+        success: false,
+      };
+    }
+
+    this.log('info', 'Account unlocked', { orgId });
+
+    return {
+      data: true,
+      error: null,
+      success: true,
+    };
+  }
+}
+
+// Export singleton instance
+export const accountLockoutService = new AccountLockoutService();
@@ -26,7 +26,9 @@ export interface Announcement {
   message?: string;
   link?: string;
   image_url?: string; // Phase 2
-  status: 'active' | 'deleted' | 'archived';
+  status: 'active' | 'scheduled' | 'deleted' | 'archived';
+  publish_at?: string;
+  expires_at?: string;
   deleted_by?: UUID;
   deleted_at?: string;
   created_at: string;
@@ -41,6 +43,8 @@ export interface CreateAnnouncementRequest {
   tag?: string;
   link?: string;
   image_url?: string;
+  publish_at?: string; // Future time schedules the announcement instead of posting it now
+  expires_at?: string;
 }
 
 export interface UpdateAnnouncementRequest {
@@ -90,14 +94,28 @@ export class AnnouncementService extends BaseDataService {
       // Sanitize input
       const sanitizedData = this.sanitizeInput(announcementData);
 
+      const now = new Date();
+      const publishAt = announcementData.publish_at ? new Date(announcementData.publish_at) : now;
+      const isScheduled = publishAt.getTime() > now.getTime();
+      const scheduleError = this.validateSchedule(publishAt, announcementData.expires_at);
+      if (scheduleError) {
+        return {
+          data: null,
+          error: scheduleError,
+          success: false,
+        };
+      }
+
       // Prepare announcement data for insertion
       const newAnnouncement = {
         ...sanitizedData,
         org_id: organizationId, // Server-side org_id resolution
         created_by: userId,
-        status: 'active',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
+        status: isScheduled ? 'scheduled' : 'active',
+        publish_at: isScheduled ? publishAt.toISOString() : now.toISOString(),
+        expires_at: announcementData.expires_at || null,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString(),
       };
 
       const result = await this.executeMutation<any>(
@@ -146,6 +164,15 @@ export class AnnouncementService extends BaseDataService {
           }
         );
 
+        // Scheduled announcements are announced by the database when they publish
+        if (transformedAnnouncement.status === 'scheduled') {
+          return {
+            data: transformedAnnouncement,
+            error: null,
+            success: true,
+          };
+        }
+
         // Send push notifications via Edge Function
         // Using user's session token for authentication
         try {
@@ -216,7 +243,7 @@ export class AnnouncementService extends BaseDataService {
   }
 
   /**
-   * Fetches announcements with organization filtering and status='active'
+   * Fetches announcements with organization filtering, status='active' and not yet expired
    * Requirements: 1.1, 1.2, 1.5
    */
   async fetchAnnouncements(
@@ -234,6 +261,8 @@ export class AnnouncementService extends BaseDataService {
         .select('*')
         .eq('org_id', organizationId)
         .eq('status', 'active') // Only fetch active announcements
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+        .order('publish_at', { ascending: false })
         .order('created_at', { ascending: false });
 
       // Apply filters safely
@@ -269,46 +298,51 @@ export class AnnouncementService extends BaseDataService {
       );
 
       if (result.success && result.data) {
-        // Transform database announcements to Announcement format
-        const announcements = result.data as any[];
-        // Fetch all unique creator IDs
-        const creatorIds = [...new Set(announcements.map(a => a.created_by).filter(Boolean))];
-        
-        let creators = null;
-        let creatorsError = null;
-        
-        // Only fetch creators if we have IDs
-        if (creatorIds.length > 0) {
-          const result = await supabase
-            .from('profiles')
-            .select('id, first_name, last_name, display_name')
-            .in('id', creatorIds);
-          creators = result.data;
-          creatorsError = result.error;
-        }
+        return {
+          data: await this.transformAnnouncementsWithCreators(result.data),
+          error: null,
+          success: true,
+        };
+      }
 
-        if (creatorsError) {
-          this.log('error', 'Failed to fetch creators', { error: creatorsError.message });
-        }
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to fetch announcements', { filters, options, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
 
-        // Create a map for quick lookup
-        const creatorMap = new Map();
-        if (creators) {
-          creators.forEach(creator => {
-            creatorMap.set(creator.id, creator);
-          });
-        }
+  /**
+   * Fetches the organization's scheduled announcements, soonest first (officers only)
+   */
+  async fetchScheduledAnnouncements(): Promise<ApiResponse<Announcement[]>> {
+    try {
+      const organizationId = await this.getCurrentOrganizationId();
 
-        // Transform announcements with creator info
-        const transformedAnnouncements = announcements.map((announcement: any) => {
-          if (announcement.created_by) {
-            announcement.creator = creatorMap.get(announcement.created_by);
-          }
-          return this.transformAnnouncementData(announcement);
-        });
+      const query = supabase
+        .from('announcements')
+        .select('*')
+        .eq('org_id', organizationId)
+        .eq('status', 'scheduled')
+        .order('publish_at', { ascending: true });
+
+      const result = await this.executeQuery<any[]>(
+        query,
+        'fetchScheduledAnnouncements',
+        this.createPermissionContext('view_scheduled_announcements', {
+          requiredRole: 'officer',
+          organizationId
+        })
+      );
 
+      if (result.success && result.data) {
         return {
-          data: transformedAnnouncements,
+          data: await this.transformAnnouncementsWithCreators(result.data),
           error: null,
           success: true,
         };
@@ -317,7 +351,7 @@ export class AnnouncementService extends BaseDataService {
       return result;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.log('error', 'Failed to fetch announcements', { filters, options, error: errorMessage });
+      this.log('error', 'Failed to fetch scheduled announcements', { error: errorMessage });
       return {
         data: null,
         error: errorMessage,
@@ -394,7 +428,7 @@ export class AnnouncementService extends BaseDataService {
         .select('id, org_id, created_by, status')
         .eq('id', announcementId)
         .eq('org_id', organizationId) // Ensure it's in the user's org
-        .eq('status', 'active') // Only allow deleting active announcements
+        .in('status', ['active', 'scheduled']) // Only allow deleting live or scheduled announcements
         .single();
 
       if (fetchError || !existingAnnouncement) {
@@ -628,12 +662,19 @@ export class AnnouncementService extends BaseDataService {
               const isActive = transformedNew?.status === 'active';
               
               if (wasActive && !isActive) {
-                // Announcement was soft deleted - treat as DELETE for UI
+                // Announcement was soft deleted or expired - treat as DELETE for UI
                 callback({
                   eventType: 'DELETE',
                   new: null,
                   old: transformedOld,
                 });
+              } else if (!wasActive && isActive) {
+                // Scheduled announcement was published - treat as INSERT for UI
+                callback({
+                  eventType: 'INSERT',
+                  new: transformedNew,
+                  old: null,
+                });
               } else if (isActive) {
                 // Regular update to active announcement
                 callback({
@@ -689,6 +730,8 @@ export class AnnouncementService extends BaseDataService {
       link: announcement.link,
       image_url: announcement.image_url,
       status: announcement.status,
+      publish_at: announcement.publish_at,
+      expires_at: announcement.expires_at,
       deleted_by: announcement.deleted_by,
       deleted_at: announcement.deleted_at,
       created_at: announcement.created_at,
@@ -700,6 +743,68 @@ export class AnnouncementService extends BaseDataService {
     return announcementData;
   }
 
+  /**
+   * Transforms a list of database announcements, fetching their creators in one query
+   */
+  private async transformAnnouncementsWithCreators(announcements: any[]): Promise<Announcement[]> {
+    // Fetch all unique creator IDs
+    const creatorIds = [...new Set(announcements.map(a => a.created_by).filter(Boolean))];
+    
+    let creators = null;
+    let creatorsError = null;
+    
+    // Only fetch creators if we have IDs
+    if (creatorIds.length > 0) {
+      const result = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name, display_name')
+        .in('id', creatorIds);
+      creators = result.data;
+      creatorsError = result.error;
+    }
+
+    if (creatorsError) {
+      this.log('error', 'Failed to fetch creators', { error: creatorsError.message });
+    }
+
+    // Create a map for quick lookup
+    const creatorMap = new Map();
+    if (creators) {
+      creators.forEach(creator => {
+        creatorMap.set(creator.id, creator);
+      });
+    }
+
+    // Transform announcements with creator info
+    return announcements.map((announcement: any) => {
+      if (announcement.created_by) {
+        announcement.creator = creatorMap.get(announcement.created_by);
+      }
+      return this.transformAnnouncementData(announcement);
+    });
+  }
+
+  /**
+   * Validates publish and expiry times, returning an error message if invalid
+   */
+  private validateSchedule(publishAt: Date, expiresAt?: string): string | null {
+    if (isNaN(publishAt.getTime())) {
+      return 'Invalid publish time';
+    }
+
+    if (expiresAt) {
+      const expires = new Date(expiresAt);
+      if (isNaN(expires.getTime())) {
+        return 'Invalid expiration time';
+      }
+      if (expires.getTime() <= Math.max(publishAt.getTime(), Date.now())) {
+        return 'Expiration time must be after the announcement is published';
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Builds display name from profile data
    */
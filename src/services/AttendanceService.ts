@@ -6,8 +6,12 @@
 
 import { BaseDataService } from './BaseDataService';
 import { supabase } from '../lib/supabaseClient';
+import { callRpc } from '../lib/supabaseRpc';
 import { 
   AttendanceRecord, 
+  AttendanceRosterEntry,
+  BulkAttendanceOverrideRequest,
+  BulkAttendanceOverrideResult,
   CreateAttendanceRequest,
   AttendanceFilters,
   ApiResponse,
@@ -18,6 +22,25 @@ import {
   DATABASE_TABLES 
 } from '../types/database';
 
+// Row returned by get_event_roster; nullable columns come back as null
+interface EventRosterRow {
+  member_id: UUID;
+  member_name: string;
+  role: string;
+  attendance_id: UUID | null;
+  status: AttendanceRosterEntry['status'];
+  method: string | null;
+  recorded_at: string | null;
+  recorded_by: UUID | null;
+  note: string | null;
+}
+
+// JSON returned by bulk_override_attendance
+interface BulkOverrideResponse extends Partial<BulkAttendanceOverrideResult> {
+  success: boolean;
+  message?: string;
+}
+
 export class AttendanceService extends BaseDataService {
   constructor() {
     super('AttendanceService');
@@ -524,6 +547,134 @@ export class AttendanceService extends BaseDataService {
     }
   }
 
+  /**
+   * Gets every active member of the event's organization with their attendance status
+   * (present/absent/excused) for the officer roster
+   */
+  async getEventRoster(eventId: UUID): Promise<ApiResponse<AttendanceRosterEntry[]>> {
+    try {
+      const result = await this.executeQuery<EventRosterRow[]>(
+        callRpc<EventRosterRow[]>('get_event_roster', { p_event_id: eventId }),
+        'getEventRoster'
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      if (result.data) {
+        const roster: AttendanceRosterEntry[] = result.data.map((row) => ({
+          member_id: row.member_id,
+          member_name: row.member_name,
+          role: row.role,
+          attendance_id: row.attendance_id ?? undefined,
+          status: row.status,
+          method: row.method ?? undefined,
+          recorded_at: row.recorded_at ?? undefined,
+          recorded_by: row.recorded_by ?? undefined,
+          note: row.note ?? undefined,
+        }));
+
+        this.log('info', 'Event roster retrieved successfully', { 
+          eventId, 
+          memberCount: roster.length 
+        });
+
+        return {
+          data: roster,
+          error: null,
+          success: true,
+        };
+      }
+
+      return { data: [], error: null, success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to get event roster', { eventId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Marks several members present, absent or excused in one officer override.
+   * Overrides use method 'manual', require a note and are written to the audit log.
+   */
+  async bulkOverrideAttendance(
+    request: BulkAttendanceOverrideRequest
+  ): Promise<ApiResponse<BulkAttendanceOverrideResult>> {
+    try {
+      if (!request.note?.trim()) {
+        return {
+          data: null,
+          error: 'A note explaining the override is required',
+          success: false,
+        };
+      }
+
+      if (request.member_ids.length === 0) {
+        return {
+          data: null,
+          error: 'Select at least one member',
+          success: false,
+        };
+      }
+
+      const result = await this.executeMutation<BulkOverrideResponse>(
+        callRpc<BulkOverrideResponse>('bulk_override_attendance', {
+          p_event_id: request.event_id,
+          p_member_ids: request.member_ids,
+          p_status: request.status,
+          p_note: request.note.trim(),
+        }),
+        'bulkOverrideAttendance'
+      );
+
+      const response = result.data;
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      if (!response?.success) {
+        return {
+          data: null,
+          error: response?.message || 'Failed to update attendance',
+          success: false,
+        };
+      }
+
+      this.log('info', 'Attendance overridden successfully', { 
+        eventId: request.event_id,
+        status: request.status,
+        updatedCount: response.updated_count
+      });
+
+      return {
+        data: {
+          updated_count: response.updated_count ?? 0,
+          unchanged_count: response.unchanged_count ?? 0,
+          skipped_member_ids: response.skipped_member_ids ?? [],
+        },
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to override attendance', { 
+        eventId: request.event_id, 
+        error: errorMessage 
+      });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
   // =============================================================================
   // PRIVATE HELPER METHODS
   // =============================================================================
@@ -542,6 +693,9 @@ export class AttendanceService extends BaseDataService {
       recorded_by: record.recorded_by,
       status: record.status,
       note: record.note,
+      checked_out_at: record.checked_out_at ?? undefined,
+      duration_seconds: record.duration_seconds ?? undefined,
+      checkout_method: record.checkout_method ?? undefined,
       // Computed fields
       event_title: record.event?.title,
       event_date: record.event?.starts_at,
@@ -4,16 +4,11 @@
  */
 
 import { supabase } from '../lib/supabaseClient';
+import { callRpc } from '../lib/supabaseRpc';
 import BLESecurityService from './BLESecurityService';
 import SentryService from './SentryService';
-
-// Organization code mapping for BLE beacon Major field
-export const ORG_CODES = {
-  nhs: 1,
-  nhsa: 2,
-} as const;
-
-export type OrgSlug = keyof typeof ORG_CODES;
+import OrgBeaconCodeResolver from './OrgBeaconCodeResolver';
+import { BLESessionOptions, BeaconEvidence, CheckOutResult } from '../types/ble';
 
 // Session token validation regex (12 alphanumeric characters)
 const SESSION_TOKEN_REGEX = /^[A-Za-z0-9]{12}$/;
@@ -29,10 +24,37 @@ export interface BLESession {
   isValid: boolean;
   attendeeCount: number;
   orgCode: number;
+  beaconMinor?: number;
+  rotating?: boolean;
   createdBy?: string;
   createdByName?: string;
 }
 
+export interface BeaconRotationCode {
+  minor: number;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface BeaconRotationSchedule {
+  intervalSeconds: number;
+  codes: BeaconRotationCode[];
+}
+
+export interface AttendanceEvidenceRecord {
+  attendanceId: string;
+  memberId: string;
+  memberName: string;
+  method: string;
+  recordedAt: Date;
+  rssiAvg?: number;
+  rssiMax?: number;
+  sampleCount: number;
+  firstSeenAt?: Date;
+  lastSeenAt?: Date;
+  dwellSeconds?: number;
+}
+
 export interface AttendanceResult {
   success: boolean;
   error?: string;
@@ -43,25 +65,65 @@ export interface AttendanceResult {
   orgSlug?: string;
   recordedAt?: Date;
   expiresAt?: Date;
+  requiredDwellSeconds?: number;
+  requiredRssi?: number;
+  checkoutEnabled?: boolean;
+}
+
+interface CheckoutResponse {
+  success: boolean;
+  error?: string;
+  message?: string;
+  event_id?: string;
+  checked_out_at?: string;
+  duration_seconds?: number;
+  volunteer_hours_id?: string | null;
+}
+
+interface RotationScheduleResponse {
+  success: boolean;
+  message?: string;
+  rotating?: boolean;
+  interval_seconds: number;
+  codes?: Array<{ minor: number; starts_at: string; ends_at: string }>;
+}
+
+interface AttendanceEvidenceRow {
+  attendance_id: string;
+  member_id: string;
+  member_name: string;
+  method: string;
+  recorded_at: string;
+  rssi_avg: number | string | null;
+  rssi_max: number | null;
+  sample_count: number | null;
+  first_seen_at: string | null;
+  last_seen_at: string | null;
+  dwell_seconds: number | null;
 }
 
 export class BLESessionService {
   // Track recent attendance submissions to prevent duplicates
   private static recentSubmissions = new Map<string, Date>();
   private static readonly DUPLICATE_PREVENTION_WINDOW = 30000; // 30 seconds
+  // Beacon Minor slots allocated by the server, keyed by session token
+  private static beaconMinors = new Map<string, number>();
   /**
    * Creates a new BLE attendance session with enhanced security
    */
   static async createSession(
     orgId: string,
     title: string,
-    ttlSeconds: number = 3600
+    ttlSeconds: number = 3600,
+    options: BLESessionOptions = {}
   ): Promise<string> {
+    const rotating = options.rotatingBeacon ?? false;
+
     SentryService.addBreadcrumb(
       'BLE session creation started',
       'ble.session',
       'info',
-      { orgId, title, ttlSeconds }
+      { orgId, title, ttlSeconds, rotating }
     );
     
     if (!orgId || !title.trim()) {
@@ -78,6 +140,12 @@ export class BLESessionService {
       p_title: title.trim(),
       p_starts_at: new Date().toISOString(),
       p_ttl_seconds: ttlSeconds,
+      p_rotating: rotating,
+      p_rotation_interval: options.rotationIntervalSeconds ?? 30,
+      p_min_dwell_seconds: options.minDwellSeconds ?? null,
+      p_min_rssi: options.minRssi ?? null,
+      p_checkout_enabled: options.checkoutEnabled ?? false,
+      p_credit_volunteer_hours: options.creditVolunteerHours ?? false,
     });
 
     if (error) {
@@ -103,6 +171,11 @@ export class BLESessionService {
       throw new Error('Invalid session token received from server');
     }
 
+    if (!this.isValidBeaconMinor(data.beacon_minor)) {
+      throw new Error('Invalid beacon slot received from server');
+    }
+    this.beaconMinors.set(sessionToken, data.beacon_minor);
+
     // Validate token security
     const validation = BLESecurityService.validateTokenSecurity(sessionToken);
     if (!validation.isValid) {
@@ -113,6 +186,8 @@ export class BLESessionService {
     if (__DEV__) {
       console.log('Secure BLE session created:', {
         eventId: data.event_id,
+        beaconMinor: data.beacon_minor,
+        rotating: data.rotating,
         entropyBits: data.entropy_bits,
         securityLevel: data.security_level,
         expiresAt: data.expires_at
@@ -174,7 +249,11 @@ export class BLESessionService {
   /**
    * Records attendance using a session token with enhanced security validation
    */
-  static async addAttendance(sessionToken: string): Promise<AttendanceResult> {
+  static async addAttendance(
+    sessionToken: string,
+    beaconMinor?: number,
+    evidence?: BeaconEvidence | null
+  ): Promise<AttendanceResult> {
     console.log('[BLESessionService.addAttendance] 🎫 Starting attendance recording:', {
       rawToken: sessionToken,
       rawTokenLength: sessionToken?.length,
@@ -248,8 +327,11 @@ export class BLESessionService {
     }
 
     // Use enhanced secure attendance function
+    // Rotating sessions verify the Minor that was actually heard
     const { data, error } = await supabase.rpc('add_attendance_secure', {
       p_session_token: sanitizedToken,
+      p_beacon_minor: this.isValidBeaconMinor(beaconMinor) ? beaconMinor : null,
+      p_evidence: this.serializeEvidence(evidence),
     });
 
     if (error) {
@@ -287,6 +369,7 @@ export class BLESessionService {
           orgSlug: result.org_slug,
           recordedAt: new Date(result.recorded_at),
           expiresAt: new Date(result.session_expires_at),
+          checkoutEnabled: result.checkout_enabled === true,
           message: 'Attendance recorded successfully with enhanced security validation'
         };
 
@@ -323,6 +406,8 @@ export class BLESessionService {
           success: false,
           error: result.error || 'unknown_error',
           message: result.message || 'Failed to record attendance',
+          requiredDwellSeconds: result.required_dwell_seconds,
+          requiredRssi: result.required_rssi,
         };
       }
     }
@@ -335,6 +420,63 @@ export class BLESessionService {
     };
   }
 
+  /**
+   * Checks the current user out of a session that uses check-out
+   * Automatic check-outs pass the last time the beacon was heard
+   */
+  static async checkOut(
+    sessionToken: string,
+    options: { lastSeenAt?: Date; automatic?: boolean } = {}
+  ): Promise<CheckOutResult> {
+    const sanitizedToken = BLESecurityService.sanitizeToken(sessionToken);
+    if (!sanitizedToken) {
+      return {
+        success: false,
+        error: 'invalid_token',
+        message: 'Invalid session token format',
+      };
+    }
+
+    const { data, error } = await callRpc<CheckoutResponse>('checkout_attendance_secure', {
+      p_session_token: sanitizedToken,
+      p_last_seen_at: options.lastSeenAt ? options.lastSeenAt.toISOString() : null,
+      p_automatic: options.automatic ?? false,
+    });
+
+    if (error) {
+      console.error('[BLESessionService] Failed to check out:', error);
+      return {
+        success: false,
+        error: 'network_error',
+        message: `Failed to check out: ${error.message}`,
+      };
+    }
+
+    if (!data?.success) {
+      return {
+        success: false,
+        error: data?.error || 'unknown_error',
+        message: data?.message || 'Failed to check out',
+        checkedOutAt: data?.checked_out_at ? new Date(data.checked_out_at) : undefined,
+        durationSeconds: data?.duration_seconds ?? undefined,
+      };
+    }
+
+    SentryService.addBreadcrumb(
+      'BLE check-out recorded',
+      'ble.attendance',
+      'info',
+      { eventId: data.event_id, automatic: options.automatic ?? false, durationSeconds: data.duration_seconds }
+    );
+
+    return {
+      success: true,
+      checkedOutAt: data.checked_out_at ? new Date(data.checked_out_at) : undefined,
+      durationSeconds: data.duration_seconds,
+      volunteerHoursId: data.volunteer_hours_id ?? undefined,
+    };
+  }
+
   /**
    * Gets all active sessions for an organization
    */
@@ -397,6 +539,7 @@ export class BLESessionService {
           isValid: true, // Active sessions are valid by definition
           attendeeCount: parseInt(session.attendee_count) || 0,
           orgCode: session.org_code,
+          beaconMinor: session.beacon_minor ?? undefined,
           createdBy: session.created_by,
           createdByName: session.created_by_name || session.creator_name,
         };
@@ -418,14 +561,24 @@ export class BLESessionService {
   }
 
   /**
-   * Gets organization code for BLE beacon Major field
+   * Gets organization code for BLE beacon Major field from the cached
+   * organizations.beacon_major codes (0 if the organization is unknown)
    */
   static getOrgCode(orgSlug: string): number {
-    return ORG_CODES[orgSlug as OrgSlug] || 0;
+    return OrgBeaconCodeResolver.getCode(orgSlug);
   }
 
   /**
-   * Encodes session token to 16-bit hash for BLE beacon Minor field
+   * Gets organization code, loading the registered codes on a cache miss
+   */
+  static async resolveOrgCode(orgSlug: string): Promise<number> {
+    return OrgBeaconCodeResolver.resolveCode(orgSlug);
+  }
+
+  /**
+   * Encodes session token to a 16-bit hash
+   * @deprecated Beacon Minor values are now allocated per session by the server;
+   * use getBeaconMinor instead. The hash can collide between concurrent sessions.
    */
   static encodeSessionToken(sessionToken: string): number {
     if (!this.isValidSessionToken(sessionToken)) {
@@ -440,6 +593,128 @@ export class BLESessionService {
     return hash;
   }
 
+  /**
+   * Checks that a value is a usable beacon Minor slot (1-65535)
+   */
+  static isValidBeaconMinor(minor: unknown): minor is number {
+    return typeof minor === 'number' && Number.isInteger(minor) && minor >= 1 && minor <= 0xFFFF;
+  }
+
+  /**
+   * Gets the beacon Minor slot the server allocated to a session
+   */
+  static async getBeaconMinor(sessionToken: string): Promise<number | null> {
+    const sanitizedToken = BLESecurityService.sanitizeToken(sessionToken);
+    if (!sanitizedToken) {
+      return null;
+    }
+
+    const cached = this.beaconMinors.get(sanitizedToken);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const { data, error } = await supabase
+      .from('ble_beacon_slots')
+      .select('minor')
+      .eq('session_token', sanitizedToken)
+      .is('released_at', null)
+      .maybeSingle()
+      .overrideTypes<{ minor: number } | null, { merge: false }>();
+
+    if (error) {
+      console.error('[BLESessionService] Failed to get beacon slot:', error);
+      return null;
+    }
+
+    if (!data || !this.isValidBeaconMinor(data.minor)) {
+      return null;
+    }
+
+    this.beaconMinors.set(sanitizedToken, data.minor);
+    return data.minor;
+  }
+
+  /**
+   * Gets upcoming rotating beacon codes for a session the caller is broadcasting
+   * Returns null for static sessions; throws when the schedule cannot be
+   * loaded, since a rotating session's static slot never resolves to it
+   */
+  static async getBeaconRotationSchedule(
+    sessionToken: string,
+    count: number = 10
+  ): Promise<BeaconRotationSchedule | null> {
+    const sanitizedToken = BLESecurityService.sanitizeToken(sessionToken);
+    if (!sanitizedToken) {
+      return null;
+    }
+
+    const { data, error } = await callRpc<RotationScheduleResponse>('get_beacon_rotation_schedule', {
+      p_session_token: sanitizedToken,
+      p_count: count,
+    });
+
+    if (error) {
+      console.error('[BLESessionService] Failed to get beacon rotation schedule:', error);
+      throw new Error('Could not load the rotating beacon codes for this session');
+    }
+
+    if (!data?.success) {
+      throw new Error(data?.message || 'Could not load the rotating beacon codes for this session');
+    }
+
+    if (!data.rotating) {
+      return null;
+    }
+
+    const codes: BeaconRotationCode[] = (data.codes || [])
+      .filter(code => this.isValidBeaconMinor(code.minor))
+      .map(code => ({
+        minor: code.minor,
+        startsAt: new Date(code.starts_at),
+        endsAt: new Date(code.ends_at),
+      }));
+
+    return {
+      intervalSeconds: data.interval_seconds,
+      codes,
+    };
+  }
+
+  /**
+   * Gets attendees of a session with the proximity evidence submitted at check-in
+   * Only officers of the session's organization receive rows
+   */
+  static async getAttendanceEvidence(sessionToken: string): Promise<AttendanceEvidenceRecord[]> {
+    const sanitizedToken = BLESecurityService.sanitizeToken(sessionToken);
+    if (!sanitizedToken) {
+      return [];
+    }
+
+    const { data, error } = await callRpc<AttendanceEvidenceRow[]>('get_session_attendance_evidence', {
+      p_session_token: sanitizedToken,
+    });
+
+    if (error) {
+      console.error('[BLESessionService] Failed to get attendance evidence:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      attendanceId: row.attendance_id,
+      memberId: row.member_id,
+      memberName: row.member_name,
+      method: row.method,
+      recordedAt: new Date(row.recorded_at),
+      rssiAvg: row.rssi_avg != null ? Number(row.rssi_avg) : undefined,
+      rssiMax: row.rssi_max ?? undefined,
+      sampleCount: row.sample_count ?? 0,
+      firstSeenAt: row.first_seen_at ? new Date(row.first_seen_at) : undefined,
+      lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : undefined,
+      dwellSeconds: row.dwell_seconds ?? undefined,
+    }));
+  }
+
   /**
    * Validates session token format using enhanced security service
    */
@@ -447,6 +722,21 @@ export class BLESessionService {
     return BLESecurityService.isValidTokenFormat(token);
   }
 
+  /**
+   * Converts scanner evidence to the JSON shape expected by add_attendance_secure
+   */
+  private static serializeEvidence(evidence?: BeaconEvidence | null) {
+    if (!evidence || evidence.rssiSamples.length === 0) {
+      return null;
+    }
+
+    return {
+      rssi_samples: evidence.rssiSamples.filter((rssi) => Number.isFinite(rssi)).map((rssi) => Math.round(rssi)),
+      first_seen_at: evidence.firstSeenAt.toISOString(),
+      last_seen_at: evidence.lastSeenAt.toISOString(),
+    };
+  }
+
   /**
    * Cleans up old entries from recent submissions tracking
    */
@@ -463,8 +753,9 @@ export class BLESessionService {
 
   /**
    * Generates BLE beacon payload for attendance session
+   * The Minor is the slot allocated to the session by create_session_secure
    */
-  static generateBeaconPayload(sessionToken: string, orgSlug: string) {
+  static generateBeaconPayload(sessionToken: string, orgSlug: string, beaconMinor: number) {
     if (!this.isValidSessionToken(sessionToken)) {
       throw new Error('Invalid session token format');
     }
@@ -474,11 +765,13 @@ export class BLESessionService {
       throw new Error(`Unknown organization: ${orgSlug}`);
     }
 
-    const tokenHash = this.encodeSessionToken(sessionToken);
+    if (!this.isValidBeaconMinor(beaconMinor)) {
+      throw new Error(`Invalid beacon minor: ${beaconMinor}`);
+    }
 
     return {
       major: orgCode,
-      minor: tokenHash,
+      minor: beaconMinor,
       sessionToken,
       orgSlug,
     };
@@ -493,12 +786,12 @@ export class BLESessionService {
     expectedOrgSlug: string
   ): boolean {
     const expectedOrgCode = this.getOrgCode(expectedOrgSlug);
-    return major === expectedOrgCode && minor >= 0 && minor <= 0xFFFF;
+    return expectedOrgCode !== 0 && major === expectedOrgCode && minor >= 0 && minor <= 0xFFFF;
   }
 
   /**
-   * Finds session by beacon payload (reverse lookup from hash)
-   * Note: This is a best-effort approach since hash functions are one-way
+   * Finds session by beacon payload using the server's beacon slot table
+   * Scoped to the member's organization so another org's slot can never match
    */
   static async findSessionByBeacon(
     major: number,
@@ -513,40 +806,34 @@ export class BLESessionService {
       });
       
       // Validate beacon payload first
-      const orgSlug = major === 1 ? 'nhs' : major === 2 ? 'nhsa' : '';
+      const org = await OrgBeaconCodeResolver.resolveOrganization(major);
+      const orgSlug = org?.orgSlug ?? '';
       console.log(`[BLESessionService] Determined orgSlug: ${orgSlug} from major: ${major}`);
       
-      if (!orgSlug || !this.validateBeaconPayload(major, minor, orgSlug)) {
-        console.log(`[BLESessionService] ❌ Invalid beacon payload - orgSlug: ${orgSlug}, validation: ${this.validateBeaconPayload(major, minor, orgSlug)}`);
+      if (!orgSlug || !this.validateBeaconPayload(major, minor, orgSlug) || !this.isValidBeaconMinor(minor)) {
+        console.log(`[BLESessionService] ❌ Invalid beacon payload - orgSlug: ${orgSlug}, minor: ${minor}`);
         return null;
       }
 
-      console.log(`[BLESessionService] ✅ Beacon payload valid, fetching active sessions for orgId: ${orgId}`);
-      const activeSessions = await this.getActiveSessions(orgId);
-      console.log(`[BLESessionService] 📋 Found ${activeSessions.length} active sessions`);
-      
-      // Find session with matching encoded token hash
-      for (const session of activeSessions) {
-        const sessionHash = this.encodeSessionToken(session.sessionToken);
-        console.log(`[BLESessionService] Comparing session "${session.eventTitle}":`, {
-          sessionToken: session.sessionToken,
-          sessionHash,
-          targetMinor: minor,
-          match: sessionHash === minor
-        });
-        
-        if (sessionHash === minor) {
-          console.log(`[BLESessionService] ✅ MATCH FOUND! Session: "${session.eventTitle}"`);
-          return {
-            ...session,
-            orgSlug,
-            isValid: session.endsAt > new Date(), // Double-check validity
-          };
-        }
+      const { data, error } = await supabase.rpc('find_session_by_beacon', {
+        p_major: major,
+        p_minor: minor,
+        p_org_id: orgId,
+      });
+
+      if (error) {
+        console.error('[BLESessionService] ❌ Failed to find session by beacon:', error);
+        return null;
       }
-      
-      console.log(`[BLESessionService] ❌ No session found for beacon major:${major} minor:${minor} in ${activeSessions.length} active sessions`);
-      return null;
+
+      if (!data || data.length === 0) {
+        console.log(`[BLESessionService] ❌ No session holds beacon slot major:${major} minor:${minor}`);
+        return null;
+      }
+
+      const session = this.mapBeaconSession(data[0], major);
+      console.log(`[BLESessionService] ✅ MATCH FOUND! Session: "${session.eventTitle}"`);
+      return session;
     } catch (error) {
       console.error('[BLESessionService] ❌ Failed to find session by beacon:', error);
       return null;
@@ -554,15 +841,13 @@ export class BLESessionService {
   }
 
   /**
-   * Alternative method to find session by beacon using direct database query
-   * This is more efficient for large numbers of sessions
+   * Finds session by beacon payload across all organizations
    */
   static async findSessionByBeaconDirect(
     major: number,
     minor: number
   ): Promise<BLESession | null> {
     try {
-      // Query database directly for sessions with matching beacon payload
       const { data, error } = await supabase.rpc('find_session_by_beacon', {
         p_major: major,
         p_minor: minor,
@@ -577,25 +862,38 @@ export class BLESessionService {
         return null;
       }
 
-      const session = data[0];
-      return {
-        sessionToken: session.session_token,
-        eventId: session.event_id,
-        eventTitle: session.event_title,
-        orgId: session.org_id,
-        orgSlug: session.org_slug,
-        startsAt: new Date(session.starts_at),
-        endsAt: new Date(session.ends_at),
-        isValid: session.is_valid,
-        attendeeCount: parseInt(session.attendee_count) || 0,
-        orgCode: major,
-      };
+      return this.mapBeaconSession(data[0], major);
     } catch (error) {
       console.error('Failed to find session by beacon (direct):', error);
       return null;
     }
   }
 
+  /**
+   * Maps a find_session_by_beacon row to a BLESession
+   */
+  private static mapBeaconSession(session: any, major: number): BLESession {
+    if (this.isValidBeaconMinor(session.beacon_minor)) {
+      this.beaconMinors.set(session.session_token, session.beacon_minor);
+    }
+
+    return {
+      sessionToken: session.session_token,
+      eventId: session.event_id,
+      eventTitle: session.event_title,
+      orgId: session.org_id,
+      orgSlug: session.org_slug,
+      startsAt: new Date(session.starts_at),
+      endsAt: new Date(session.ends_at),
+      isValid: session.is_valid,
+      attendeeCount: parseInt(session.attendee_count) || 0,
+      orgCode: major,
+      beaconMinor: session.beacon_minor,
+      rotating: session.rotating ?? false,
+      createdBy: session.created_by,
+    };
+  }
+
   /**
    * Validates session expiration with detailed information
    */
@@ -705,6 +1003,7 @@ export class BLESessionService {
         const result = data as any;
         
         if (result.success) {
+          this.beaconMinors.delete(sanitizedToken);
           return {
             success: true,
             eventId: result.event_id,
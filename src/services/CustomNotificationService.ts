@@ -0,0 +1,280 @@
+/**
+ * CustomNotificationService - One-off pushes composed by officers
+ * Officers pick an audience (all members, officers, a grade level, members
+ * behind on hours or an event's attendees), preview how many members it
+ * reaches, and send. Sends go through the same daily limit and duplicate
+ * check as announcements, and every send is logged to notification_history.
+ * The push goes out from the send-custom-notification edge function, which
+ * holds it for members in their quiet hours.
+ */
+
+import { BaseDataService } from './BaseDataService';
+import { supabase } from '../lib/supabaseClient';
+import { callRpc } from '../lib/supabaseRpc';
+import { ApiResponse } from '../types/dataService';
+import { DATABASE_TABLES, UUID } from '../types/database';
+import {
+  CustomNotificationAudience,
+  CustomNotificationAudiencePreview,
+  CustomNotificationDraft,
+  CustomNotificationLogEntry,
+  CustomNotificationSendResult,
+  CUSTOM_NOTIFICATION_TITLE_MAX_LENGTH,
+  CUSTOM_NOTIFICATION_BODY_MAX_LENGTH,
+} from '../types/notifications';
+import { notificationRateLimitingService } from './NotificationRateLimitingService';
+
+interface AudienceMember {
+  user_id: UUID;
+  expo_push_token: string | null;
+}
+
+interface SendCustomNotificationResponse {
+  success: boolean;
+  successful?: number;
+  failed?: number;
+  deferred?: number;
+  error?: string;
+}
+
+export class CustomNotificationService extends BaseDataService {
+  private readonly LOG_LIMIT = 20;
+
+  constructor() {
+    super('CustomNotificationService');
+  }
+
+  // =============================================================================
+  // AUDIENCE
+  // =============================================================================
+
+  /**
+   * Counts the members in an audience and how many of them will get the push
+   */
+  async previewAudience(
+    orgId: UUID,
+    audience: CustomNotificationAudience
+  ): Promise<ApiResponse<CustomNotificationAudiencePreview>> {
+    const validationError = this.validateAudience(audience);
+    if (validationError) {
+      return { data: null, error: validationError, success: false };
+    }
+
+    const result = await this.getAudienceMembers(orgId, audience);
+    if (!result.success) {
+      return { data: null, error: result.error, success: false };
+    }
+
+    const members = result.data || [];
+    return {
+      data: {
+        matched: members.length,
+        reachable: members.filter(member => !!member.expo_push_token).length,
+      },
+      error: null,
+      success: true,
+    };
+  }
+
+  // =============================================================================
+  // SENDING
+  // =============================================================================
+
+  /**
+   * Sends a custom notification to an audience (officers only)
+   */
+  async sendCustomNotification(
+    orgId: UUID,
+    draft: CustomNotificationDraft
+  ): Promise<ApiResponse<CustomNotificationSendResult>> {
+    const title = draft.title.trim();
+    const body = draft.body.trim();
+
+    const validationError = this.validateDraft(title, body) || this.validateAudience(draft.audience);
+    if (validationError) {
+      return { data: null, error: validationError, success: false };
+    }
+
+    try {
+      const officerId = await this.getCurrentUserId();
+
+      const membersResult = await this.getAudienceMembers(orgId, draft.audience);
+      if (!membersResult.success) {
+        return { data: null, error: membersResult.error, success: false };
+      }
+
+      // Checked before the limits so an empty audience doesn't use up a send
+      const tokens = (membersResult.data || [])
+        .map(member => member.expo_push_token)
+        .filter((token): token is string => !!token);
+
+      if (tokens.length === 0) {
+        return {
+          data: null,
+          error: 'No one in this audience can receive notifications right now',
+          success: false,
+        };
+      }
+
+      const rateLimit = await notificationRateLimitingService.checkCustomNotificationRateLimit(orgId, officerId);
+      if (!rateLimit.success) {
+        throw new Error(rateLimit.error || 'Rate limit check failed');
+      }
+      if (!rateLimit.data?.allowed) {
+        return {
+          data: null,
+          error: rateLimit.data?.reason || 'Rate limit exceeded',
+          success: false,
+        };
+      }
+
+      // The same message may go to different audiences, so the audience is
+      // part of what counts as a duplicate
+      const duplicateCheck = await notificationRateLimitingService.checkDuplicateNotification(
+        orgId,
+        'custom',
+        `${title} ${body} ${JSON.stringify(draft.audience)}`
+      );
+      if (!duplicateCheck.success) {
+        throw new Error(duplicateCheck.error || 'Duplicate check failed');
+      }
+      if (duplicateCheck.data?.isDuplicate) {
+        return {
+          data: null,
+          error: duplicateCheck.data.reason || 'This notification was already sent',
+          success: false,
+        };
+      }
+
+      const { data: notificationId, error: logError } = await callRpc<UUID>('record_custom_notification', {
+        p_org_id: orgId,
+        p_content_hash: duplicateCheck.data?.contentHash,
+        p_title: title,
+        p_body: body,
+        p_audience: draft.audience,
+        p_recipient_count: tokens.length,
+      });
+
+      if (logError || !notificationId) {
+        throw new Error(logError?.message || 'Failed to log notification');
+      }
+
+      const { data: sendResult, error: sendError } = await supabase.functions.invoke<SendCustomNotificationResponse>(
+        'send-custom-notification',
+        { body: { notificationId } }
+      );
+
+      if (sendError || !sendResult?.success) {
+        throw new Error(sendResult?.error || sendError?.message || 'Failed to send notification');
+      }
+
+      const delivered = sendResult.successful || 0;
+      const deferred = sendResult.deferred || 0;
+
+      this.log('info', 'Custom notification sent', {
+        notificationId,
+        audience: draft.audience.type,
+        recipients: tokens.length,
+        delivered,
+        deferred,
+      });
+
+      return {
+        data: {
+          notificationId,
+          recipientCount: tokens.length,
+          delivered,
+          deferred,
+          failed: sendResult.failed || 0,
+        },
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to send custom notification', {
+        orgId,
+        audience: draft.audience.type,
+        error: errorMessage,
+      });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  // =============================================================================
+  // SEND LOG
+  // =============================================================================
+
+  /**
+   * Gets the organization's most recent custom notifications (officers only)
+   */
+  async getRecentCustomNotifications(orgId: UUID): Promise<ApiResponse<CustomNotificationLogEntry[]>> {
+    return this.executeQuery<CustomNotificationLogEntry[]>(
+      supabase
+        .from(DATABASE_TABLES.NOTIFICATION_HISTORY)
+        .select('id, title, body, audience, sent_by, recipient_count, delivered_count, sent_at')
+        .eq('org_id', orgId)
+        .eq('notification_type', 'custom')
+        .not('sent_by', 'is', null)
+        .order('sent_at', { ascending: false })
+        .limit(this.LOG_LIMIT),
+      'getRecentCustomNotifications',
+      this.createPermissionContext('view_notification_history', {
+        requiredRole: 'officer',
+        organizationId: orgId,
+      })
+    );
+  }
+
+  // =============================================================================
+  // PRIVATE HELPERS
+  // =============================================================================
+
+  private async getAudienceMembers(
+    orgId: UUID,
+    audience: CustomNotificationAudience
+  ): Promise<ApiResponse<AudienceMember[]>> {
+    return this.executeQuery<AudienceMember[]>(
+      callRpc<AudienceMember[]>('get_custom_notification_recipients', {
+        p_org_id: orgId,
+        p_audience: audience.type,
+        p_grade: audience.type === 'grade' ? audience.grade : null,
+        p_event_id: audience.type === 'event_attendees' ? audience.eventId : null,
+      }),
+      'getAudienceMembers',
+      this.createPermissionContext('send_custom_notification', {
+        requiredRole: 'officer',
+        organizationId: orgId,
+      })
+    );
+  }
+
+  private validateDraft(title: string, body: string): string | null {
+    if (!title) return 'A title is required';
+    if (!body) return 'A message is required';
+    if (title.length > CUSTOM_NOTIFICATION_TITLE_MAX_LENGTH) {
+      return `Title must be ${CUSTOM_NOTIFICATION_TITLE_MAX_LENGTH} characters or fewer`;
+    }
+    if (body.length > CUSTOM_NOTIFICATION_BODY_MAX_LENGTH) {
+      return `Message must be ${CUSTOM_NOTIFICATION_BODY_MAX_LENGTH} characters or fewer`;
+    }
+    return null;
+  }
+
+  private validateAudience(audience: CustomNotificationAudience): string | null {
+    if (audience.type === 'grade' && !audience.grade?.trim()) {
+      return 'Choose a grade level';
+    }
+    if (audience.type === 'event_attendees' && !audience.eventId) {
+      return 'Choose an event';
+    }
+    return null;
+  }
+}
+
+// Export singleton instance
+export const customNotificationService = new CustomNotificationService();
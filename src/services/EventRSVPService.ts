@@ -0,0 +1,264 @@
+/**
+ * EventRSVPService - Handles member RSVPs and capacity waitlists for events
+ * Capacity, waitlisting and promotion are enforced by set_event_rsvp so that
+ * concurrent RSVPs cannot overfill an event.
+ */
+
+import { BaseDataService } from './BaseDataService';
+import { supabase } from '../lib/supabaseClient';
+import { callRpc } from '../lib/supabaseRpc';
+import {
+  ApiResponse,
+  EventRSVPReportEntry,
+  EventRSVPStatus,
+  EventRSVPSummary,
+  SetEventRSVPResult,
+} from '../types/dataService';
+import { DATABASE_TABLES, UUID } from '../types/database';
+
+export interface EventRSVPChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  eventId: UUID;
+  memberId: UUID;
+  status: EventRSVPStatus | null;
+  previousStatus: EventRSVPStatus | null;
+}
+
+interface SetRsvpResponse {
+  success: boolean;
+  message?: string;
+  status: EventRSVPStatus;
+  previous_status: EventRSVPStatus | null;
+  waitlist_position: number | null;
+  promoted_member_ids: UUID[] | null;
+}
+
+interface RsvpSummaryRow {
+  event_id: UUID;
+  going_count: number | null;
+  maybe_count: number | null;
+  not_going_count: number | null;
+  waitlisted_count: number | null;
+  my_status: EventRSVPStatus | null;
+  my_waitlist_position: number | null;
+}
+
+interface RsvpReportRow {
+  member_id: UUID;
+  member_name: string;
+  status: EventRSVPStatus;
+  waitlisted_at: string | null;
+  responded_at: string | null;
+  attended: boolean | null;
+  no_show: boolean | null;
+}
+
+export class EventRSVPService extends BaseDataService {
+  constructor() {
+    super('EventRSVPService');
+  }
+
+  /**
+   * Sets the current member's RSVP. A "going" answer to a full event joins the waitlist.
+   */
+  async setRsvp(
+    eventId: UUID,
+    status: Exclude<EventRSVPStatus, 'waitlisted'>
+  ): Promise<ApiResponse<SetEventRSVPResult>> {
+    try {
+      const result = await this.executeMutation<SetRsvpResponse>(
+        callRpc<SetRsvpResponse>('set_event_rsvp', {
+          p_event_id: eventId,
+          p_status: status,
+        }),
+        'setRsvp'
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      const response = result.data;
+      if (!response?.success) {
+        return {
+          data: null,
+          error: response?.message || 'Failed to update RSVP',
+          success: false,
+        };
+      }
+
+      this.log('info', 'RSVP updated successfully', {
+        eventId,
+        requestedStatus: status,
+        status: response.status,
+        promotedCount: response.promoted_member_ids?.length ?? 0,
+      });
+
+      return {
+        data: {
+          status: response.status,
+          previous_status: response.previous_status ?? undefined,
+          waitlist_position: response.waitlist_position ?? undefined,
+          promoted_member_ids: response.promoted_member_ids ?? [],
+        },
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to update RSVP', { eventId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Gets RSVP counts and the current member's RSVP for each event
+   */
+  async getRsvpSummaries(eventIds: UUID[]): Promise<ApiResponse<Record<UUID, EventRSVPSummary>>> {
+    if (eventIds.length === 0) {
+      return {
+        data: {},
+        error: null,
+        success: true,
+      };
+    }
+
+    try {
+      const result = await this.executeQuery<RsvpSummaryRow[]>(
+        callRpc<RsvpSummaryRow[]>('get_event_rsvp_summaries', { p_event_ids: eventIds }),
+        'getRsvpSummaries'
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      const summaries: Record<UUID, EventRSVPSummary> = {};
+      (result.data || []).forEach(row => {
+        summaries[row.event_id] = {
+          event_id: row.event_id,
+          going_count: row.going_count ?? 0,
+          maybe_count: row.maybe_count ?? 0,
+          not_going_count: row.not_going_count ?? 0,
+          waitlisted_count: row.waitlisted_count ?? 0,
+          my_status: row.my_status ?? undefined,
+          my_waitlist_position: row.my_waitlist_position || undefined,
+        };
+      });
+
+      return {
+        data: summaries,
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to get RSVP summaries', { eventCount: eventIds.length, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Gets every RSVP for an event with attendance and no-show flags (officers only)
+   */
+  async getRsvpReport(eventId: UUID): Promise<ApiResponse<EventRSVPReportEntry[]>> {
+    try {
+      const result = await this.executeQuery<RsvpReportRow[]>(
+        callRpc<RsvpReportRow[]>('get_event_rsvp_report', { p_event_id: eventId }),
+        'getRsvpReport'
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      const report: EventRSVPReportEntry[] = (result.data || []).map(row => ({
+        member_id: row.member_id,
+        member_name: row.member_name,
+        status: row.status,
+        waitlisted_at: row.waitlisted_at ?? undefined,
+        responded_at: row.responded_at ?? undefined,
+        attended: !!row.attended,
+        no_show: !!row.no_show,
+      }));
+
+      this.log('info', 'RSVP report retrieved successfully', {
+        eventId,
+        rsvpCount: report.length,
+        noShowCount: report.filter(entry => entry.no_show).length,
+      });
+
+      return {
+        data: report,
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to get RSVP report', { eventId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Creates an organization-scoped realtime subscription for RSVP changes
+   */
+  async subscribeToRsvps(callback: (change: EventRSVPChange) => void): Promise<() => void> {
+    try {
+      const organizationId = await this.getCurrentOrganizationId();
+
+      const subscription = supabase
+        .channel(`event_rsvps:org_id=eq.${organizationId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: DATABASE_TABLES.EVENT_RSVPS,
+            filter: `org_id=eq.${organizationId}`
+          },
+          (payload: any) => {
+            const row = payload.new?.event_id ? payload.new : payload.old;
+            if (!row?.event_id) return;
+
+            callback({
+              eventType: payload.eventType,
+              eventId: row.event_id,
+              memberId: row.member_id,
+              status: payload.new?.status ?? null,
+              previousStatus: payload.old?.status ?? null,
+            });
+          }
+        )
+        .subscribe();
+
+      this.log('info', 'Subscribed to RSVP realtime updates', { organizationId });
+
+      return () => {
+        subscription.unsubscribe();
+        this.log('info', 'Unsubscribed from RSVP realtime updates', { organizationId });
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to subscribe to RSVPs', { error: errorMessage });
+
+      // Return no-op cleanup function
+      return () => {};
+    }
+  }
+}
+
+// Export singleton instance
+export const eventRSVPService = new EventRSVPService();
@@ -5,7 +5,8 @@
  */
 
 import { BaseDataService } from './BaseDataService';
-import { supabase } from '../lib/supabaseClient';
+import { supabase, supabaseUrl } from '../lib/supabaseClient';
+import { callRpc, updateTable } from '../lib/supabaseRpc';
 import { 
   ApiResponse
 } from '../types/dataService';
@@ -17,6 +18,24 @@ import SentryService from './SentryService';
 // EVENT INTERFACES
 // =============================================================================
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Recurrence rule of an event series; ends on a date or after a number of occurrences
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number;
+  exceptionDates?: string[]; // YYYY-MM-DD occurrences to skip
+}
+
+/**
+ * Which occurrences of a series an edit or delete applies to
+ */
+export type EventEditScope = 'occurrence' | 'future';
+
 export interface Event {
   id: UUID;
   org_id: UUID;
@@ -37,8 +56,13 @@ export interface Event {
   deleted_at?: string;
   created_at: string;
   updated_at: string;
+  // Recurring series
+  series_id?: UUID;
+  occurrence_date?: string;
+  is_series_exception?: boolean;
   // Computed fields
   creator_name?: string;
+  recurrence?: RecurrenceRule; // Shared rule of the series this occurrence belongs to
 }
 
 export interface CreateEventRequest {
@@ -52,6 +76,7 @@ export interface CreateEventRequest {
   category?: string;
   link?: string;
   image_url?: string;
+  recurrence?: RecurrenceRule; // Creates a series of occurrences instead of a single event
 }
 
 export interface UpdateEventRequest {
@@ -73,6 +98,44 @@ export interface EventFilters {
   upcoming?: boolean;
 }
 
+// Occurrences embed the recurrence rule of their series instead of storing a copy
+interface SeriesRpcResponse {
+  success: boolean;
+  message?: string;
+  series_id: UUID;
+}
+
+interface CreateSeriesResponse extends SeriesRpcResponse {
+  first_event_id: UUID;
+  occurrence_count: number;
+}
+
+interface UpdateSeriesResponse extends SeriesRpcResponse {
+  updated_count: number;
+}
+
+interface DeleteOccurrencesResponse {
+  success: boolean;
+  message?: string;
+  deleted_count: number;
+}
+
+interface CalendarFeedTokenResponse {
+  success: boolean;
+  message?: string;
+  token?: string;
+}
+
+interface RevokeCalendarFeedResponse {
+  success: boolean;
+  message?: string;
+  revoked_count: number;
+}
+
+const EVENT_SELECT = '*, series:event_series(frequency, interval_count, until_date, occurrence_count, exception_dates)';
+
+const MAX_SERIES_OCCURRENCES = 100;
+
 // =============================================================================
 // EVENT SERVICE CLASS
 // =============================================================================
@@ -134,7 +197,19 @@ export class EventService extends BaseDataService {
           success: false,
         };
       }
-      
+
+      if (eventData.capacity !== undefined && (!Number.isInteger(eventData.capacity) || eventData.capacity < 1)) {
+        return {
+          data: null,
+          error: 'Capacity must be a whole number of at least 1',
+          success: false,
+        };
+      }
+
+      if (eventData.recurrence) {
+        return await this.createEventSeries(eventData, organizationId);
+      }
+
       // Sanitize input
       const sanitizedData = this.sanitizeInput(eventData);
 
@@ -153,7 +228,7 @@ export class EventService extends BaseDataService {
         supabase
           .from('events')
           .insert(newEvent)
-          .select('*')
+          .select(EVENT_SELECT)
           .single(),
         'createEvent',
         this.createPermissionContext('create_event', {
@@ -263,7 +338,7 @@ export class EventService extends BaseDataService {
 
       let query = supabase
         .from('events')
-        .select('*')
+        .select(EVENT_SELECT)
         .eq('org_id', organizationId)
         .eq('status', 'active') // Only fetch active events
         .order('event_date', { ascending: true });
@@ -366,7 +441,7 @@ export class EventService extends BaseDataService {
     try {
       const query = supabase
         .from('events')
-        .select('*')
+        .select(EVENT_SELECT)
         .eq('id', eventId)
         .eq('status', 'active') // Only fetch active events
         .single();
@@ -414,9 +489,10 @@ export class EventService extends BaseDataService {
 
   /**
    * Soft deletes an event with audit trail fields
+   * For series occurrences, scope selects this occurrence or all future ones
    * Requirements: 4.1, 4.2, 4.4
    */
-  async softDeleteEvent(eventId: UUID): Promise<ApiResponse<boolean>> {
+  async softDeleteEvent(eventId: UUID, scope: EventEditScope = 'occurrence'): Promise<ApiResponse<boolean>> {
     try {
       const userId = await this.getCurrentUserId();
       this.log('info', 'Starting soft delete event', { eventId, userId });
@@ -455,6 +531,10 @@ export class EventService extends BaseDataService {
         };
       }
 
+      if (existingEvent.data.series_id) {
+        return await this.deleteSeriesOccurrences(eventId, scope);
+      }
+
       // Soft delete by setting status to 'deleted' and adding audit trail
       this.log('info', 'Attempting soft delete update', { eventId, userId });
       const result = await this.executeMutation(
@@ -504,10 +584,12 @@ export class EventService extends BaseDataService {
 
   /**
    * Updates an existing event
+   * For series occurrences, scope selects this occurrence or all future ones
    */
   async updateEvent(
     eventId: UUID, 
-    updates: UpdateEventRequest
+    updates: UpdateEventRequest,
+    scope: EventEditScope = 'occurrence'
   ): Promise<ApiResponse<Event>> {
     try {
       const userId = await this.getCurrentUserId();
@@ -563,9 +645,15 @@ export class EventService extends BaseDataService {
       // Sanitize input
       const sanitizedUpdates = this.sanitizeInput(updates);
 
-      // Add updated timestamp
+      if (existingEvent.data.series_id && scope === 'future') {
+        return await this.updateSeriesOccurrences(eventId, sanitizedUpdates);
+      }
+
+      // Add updated timestamp; an occurrence edited on its own keeps its changes
+      // when the rest of its series is edited later
       const eventUpdates = {
         ...sanitizedUpdates,
+        ...(existingEvent.data.series_id ? { is_series_exception: true } : {}),
         updated_at: new Date().toISOString(),
       };
 
@@ -574,7 +662,7 @@ export class EventService extends BaseDataService {
           .from('events')
           .update(eventUpdates)
           .eq('id', eventId)
-          .select('*')
+          .select(EVENT_SELECT)
           .single(),
         'updateEvent',
         this.createPermissionContext('update_event', {
@@ -622,6 +710,95 @@ export class EventService extends BaseDataService {
     }
   }
 
+  // =============================================================================
+  // CALENDAR EXPORT
+  // =============================================================================
+
+  /**
+   * Gets the current member's subscribable calendar feed URL for the organization.
+   * Calendar apps fetch it without signing in, so the URL is private to the member.
+   */
+  async getCalendarFeedUrl(): Promise<ApiResponse<string>> {
+    try {
+      const organizationId = await this.getCurrentOrganizationId();
+
+      const result = await this.executeMutation<CalendarFeedTokenResponse>(
+        callRpc<CalendarFeedTokenResponse>('get_calendar_feed_token', { p_org_id: organizationId }),
+        'getCalendarFeedUrl'
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      const response = result.data;
+      if (!response?.success || !response.token) {
+        return {
+          data: null,
+          error: response?.message || 'Failed to create calendar feed',
+          success: false,
+        };
+      }
+
+      return {
+        data: `${supabaseUrl}/functions/v1/calendar-feed?token=${response.token}`,
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to get calendar feed URL', { error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Revokes the current member's calendar feed; subscribed calendars stop updating
+   */
+  async revokeCalendarFeed(): Promise<ApiResponse<boolean>> {
+    try {
+      const organizationId = await this.getCurrentOrganizationId();
+
+      const result = await this.executeMutation<RevokeCalendarFeedResponse>(
+        callRpc<RevokeCalendarFeedResponse>('revoke_calendar_feed_token', { p_org_id: organizationId }),
+        'revokeCalendarFeed'
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      const response = result.data;
+      if (!response?.success) {
+        return {
+          data: null,
+          error: response?.message || 'Failed to revoke calendar feed',
+          success: false,
+        };
+      }
+
+      this.log('info', 'Calendar feed revoked', { orgId: organizationId, revokedCount: response.revoked_count });
+
+      return {
+        data: response.revoked_count > 0,
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to revoke calendar feed', { error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
   // =============================================================================
   // REALTIME SUBSCRIPTION SUPPORT
   // =============================================================================
@@ -738,13 +915,209 @@ export class EventService extends BaseDataService {
       deleted_at: event.deleted_at,
       created_at: event.created_at,
       updated_at: event.updated_at,
+      series_id: event.series_id ?? undefined,
+      occurrence_date: event.occurrence_date ?? undefined,
+      is_series_exception: event.is_series_exception ?? undefined,
       // Computed fields
       creator_name: event.creator ? this.buildDisplayName(event.creator) : undefined,
+      recurrence: event.series ? this.transformRecurrenceRule(event.series) : undefined,
     };
 
     return eventData;
   }
 
+  /**
+   * Transforms an embedded event_series row to a RecurrenceRule
+   */
+  private transformRecurrenceRule(series: any): RecurrenceRule {
+    return {
+      frequency: series.frequency,
+      interval: series.interval_count || 1,
+      until: series.until_date ?? undefined,
+      count: series.occurrence_count ?? undefined,
+      exceptionDates: series.exception_dates ?? [],
+    };
+  }
+
+  /**
+   * Validates a recurrence rule before creating a series
+   */
+  private validateRecurrenceRule(rule: RecurrenceRule, startsAt?: string): string | null {
+    if (!['daily', 'weekly', 'monthly'].includes(rule.frequency)) {
+      return 'Repeat frequency must be daily, weekly or monthly';
+    }
+    if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 52) {
+      return 'Repeat interval must be between 1 and 52';
+    }
+    if (!rule.until && !rule.count) {
+      return 'Choose an end date or a number of occurrences';
+    }
+    if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_SERIES_OCCURRENCES)) {
+      return `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`;
+    }
+    if (rule.until && startsAt && rule.until < startsAt.split('T')[0]) {
+      return 'Repeat end date must be after the first occurrence';
+    }
+    return null;
+  }
+
+  /**
+   * Creates a recurring series and returns its first occurrence
+   */
+  private async createEventSeries(
+    eventData: CreateEventRequest,
+    organizationId: string
+  ): Promise<ApiResponse<Event>> {
+    const rule = eventData.recurrence!;
+
+    if (!eventData.starts_at) {
+      return {
+        data: null,
+        error: 'Recurring events need a start time',
+        success: false,
+      };
+    }
+
+    const ruleError = this.validateRecurrenceRule(rule, eventData.starts_at);
+    if (ruleError) {
+      return {
+        data: null,
+        error: ruleError,
+        success: false,
+      };
+    }
+
+    const sanitizedData = this.sanitizeInput({ ...eventData, recurrence: undefined });
+    const { data, error } = await callRpc<CreateSeriesResponse>('create_event_series', {
+      p_org_id: organizationId,
+      p_title: sanitizedData.title,
+      p_starts_at: eventData.starts_at,
+      p_ends_at: eventData.ends_at ?? null,
+      p_frequency: rule.frequency,
+      p_interval: rule.interval,
+      p_until_date: rule.until ?? null,
+      p_occurrence_count: rule.count ?? null,
+      p_exception_dates: rule.exceptionDates ?? [],
+      p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+      p_description: sanitizedData.description ?? null,
+      p_location: sanitizedData.location ?? null,
+      p_category: sanitizedData.category ?? null,
+      p_link: sanitizedData.link ?? null,
+      p_image_url: sanitizedData.image_url ?? null,
+    });
+
+    if (error || !data?.success) {
+      const message = error?.message || data?.message || 'Failed to create recurring event';
+      this.log('error', 'Failed to create event series', { title: eventData.title, error: message });
+      return {
+        data: null,
+        error: message,
+        success: false,
+      };
+    }
+
+    this.log('info', 'Event series created successfully', {
+      seriesId: data.series_id,
+      occurrences: data.occurrence_count,
+      orgId: organizationId,
+    });
+
+    // Capacity is per occurrence: each one gets its own RSVPs and waitlist
+    if (eventData.capacity) {
+      const { error: capacityError } = await updateTable('events', { capacity: eventData.capacity })
+        .eq('series_id', data.series_id);
+
+      if (capacityError) {
+        this.log('error', 'Failed to set series capacity', {
+          seriesId: data.series_id,
+          error: capacityError.message,
+        });
+      }
+    }
+
+    const firstEvent = await this.getEventById(data.first_event_id);
+
+    // One notification for the series, not one per occurrence
+    if (firstEvent.success && firstEvent.data) {
+      try {
+        await notificationService.sendEventNotification(firstEvent.data);
+      } catch (notificationError) {
+        this.log('error', 'Event notification error', {
+          eventId: firstEvent.data.id,
+          error: notificationError instanceof Error ? notificationError.message : 'Unknown error'
+        });
+      }
+    }
+
+    return firstEvent;
+  }
+
+  /**
+   * Applies updates to an occurrence and every future occurrence of its series
+   */
+  private async updateSeriesOccurrences(
+    eventId: UUID,
+    updates: UpdateEventRequest
+  ): Promise<ApiResponse<Event>> {
+    const { data, error } = await callRpc<UpdateSeriesResponse>('update_event_series', {
+      p_event_id: eventId,
+      p_updates: updates,
+    });
+
+    if (error || !data?.success) {
+      const message = error?.message || data?.message || 'Failed to update recurring event';
+      this.log('error', 'Failed to update event series', { eventId, error: message });
+      return {
+        data: null,
+        error: message,
+        success: false,
+      };
+    }
+
+    this.log('info', 'Event series updated successfully', {
+      eventId,
+      seriesId: data.series_id,
+      updatedCount: data.updated_count,
+    });
+
+    return this.getEventById(eventId);
+  }
+
+  /**
+   * Deletes an occurrence, or it and every future occurrence of its series
+   */
+  private async deleteSeriesOccurrences(
+    eventId: UUID,
+    scope: EventEditScope
+  ): Promise<ApiResponse<boolean>> {
+    const { data, error } = await callRpc<DeleteOccurrencesResponse>('delete_event_occurrences', {
+      p_event_id: eventId,
+      p_all_future: scope === 'future',
+    });
+
+    if (error || !data?.success) {
+      const message = error?.message || data?.message || 'Failed to delete event';
+      this.log('error', 'Failed to delete series occurrences', { eventId, scope, error: message });
+      return {
+        data: false,
+        error: message,
+        success: false,
+      };
+    }
+
+    this.log('info', 'Series occurrences deleted successfully', {
+      eventId,
+      scope,
+      deletedCount: data.deleted_count,
+    });
+
+    return {
+      data: true,
+      error: null,
+      success: true,
+    };
+  }
+
   /**
    * Builds display name from profile data
    */
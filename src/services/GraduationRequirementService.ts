@@ -0,0 +1,300 @@
+/**
+ * GraduationRequirementService - Manages per-organization requirement rules and member progress
+ * Progress is calculated by the database from verified volunteer hours and meeting attendance,
+ * so members and officers always see the same numbers.
+ */
+
+import { BaseDataService } from './BaseDataService';
+import { supabase } from '../lib/supabaseClient';
+import { callRpc, updateTable } from '../lib/supabaseRpc';
+import {
+  ApiResponse,
+  AtRiskMember,
+  CreateGraduationRequirementRequest,
+  GraduationRequirement,
+  GraduationRequirementPeriod,
+  GraduationRequirementType,
+  RequirementProgress,
+} from '../types/dataService';
+import { DATABASE_TABLES, UUID } from '../types/database';
+
+interface RequirementProgressRow {
+  requirement_id: UUID;
+  name: string;
+  requirement_type: GraduationRequirementType;
+  period: GraduationRequirementPeriod;
+  target_value: number;
+  current_value: number | null;
+  expected_value: number | null;
+  starts_on: string;
+  ends_on: string;
+  days_remaining: number | null;
+  is_met: boolean | null;
+}
+
+interface AtRiskMemberRow {
+  member_id: UUID;
+  member_name: string;
+  requirement_id: UUID;
+  requirement_name: string;
+  requirement_type: GraduationRequirementType;
+  target_value: number;
+  current_value: number | null;
+  expected_value: number | null;
+  ends_on: string;
+  days_remaining: number | null;
+}
+
+export class GraduationRequirementService extends BaseDataService {
+  constructor() {
+    super('GraduationRequirementService');
+  }
+
+  // =============================================================================
+  // REQUIREMENT RULES
+  // =============================================================================
+
+  /**
+   * Gets the organization's active requirement rules, soonest deadline first
+   */
+  async getRequirements(orgId: UUID): Promise<ApiResponse<GraduationRequirement[]>> {
+    const result = await this.executeQuery<any[]>(
+      supabase
+        .from(DATABASE_TABLES.GRADUATION_REQUIREMENTS)
+        .select('*')
+        .eq('org_id', orgId)
+        .eq('is_active', true)
+        .order('ends_on', { ascending: true }),
+      'getRequirements'
+    );
+
+    if (!result.success) {
+      return result as ApiResponse<any>;
+    }
+
+    return {
+      data: (result.data || []).map(row => this.transformRequirement(row)),
+      error: null,
+      success: true,
+    };
+  }
+
+  /**
+   * Creates a requirement rule (officers only)
+   */
+  async createRequirement(
+    orgId: UUID,
+    requirement: CreateGraduationRequirementRequest
+  ): Promise<ApiResponse<GraduationRequirement>> {
+    try {
+      const validationError = this.validateRequirement(requirement);
+      if (validationError) {
+        return {
+          data: null,
+          error: validationError,
+          success: false,
+        };
+      }
+
+      const userId = await this.getCurrentUserId();
+      const sanitized = this.sanitizeInput(requirement);
+
+      const result = await this.executeMutation<any>(
+        supabase
+          .from(DATABASE_TABLES.GRADUATION_REQUIREMENTS)
+          .insert({
+            ...sanitized,
+            org_id: orgId,
+            created_by: userId,
+          })
+          .select('*')
+          .single(),
+        'createRequirement',
+        this.createPermissionContext('create_graduation_requirement', {
+          requiredRole: 'officer',
+          organizationId: orgId,
+        })
+      );
+
+      if (!result.success || !result.data) {
+        return result as ApiResponse<any>;
+      }
+
+      this.log('info', 'Graduation requirement created', {
+        requirementId: result.data.id,
+        orgId,
+        requirementType: requirement.requirement_type,
+      });
+
+      return {
+        data: this.transformRequirement(result.data),
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to create graduation requirement', { orgId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Retires a requirement rule; progress history is kept for reference
+   */
+  async archiveRequirement(requirementId: UUID): Promise<ApiResponse<boolean>> {
+    const result = await this.executeMutation<null>(
+      updateTable<Pick<GraduationRequirement, 'is_active'>>(DATABASE_TABLES.GRADUATION_REQUIREMENTS, { is_active: false })
+        .eq('id', requirementId),
+      'archiveRequirement',
+      this.createPermissionContext('archive_graduation_requirement', {
+        requiredRole: 'officer',
+        resource: requirementId,
+      })
+    );
+
+    if (!result.success) {
+      return {
+        data: false,
+        error: result.error,
+        success: false,
+      };
+    }
+
+    this.log('info', 'Graduation requirement archived', { requirementId });
+
+    return {
+      data: true,
+      error: null,
+      success: true,
+    };
+  }
+
+  // =============================================================================
+  // PROGRESS
+  // =============================================================================
+
+  /**
+   * Gets progress toward each active requirement for the current member,
+   * or for another member when called by an officer
+   */
+  async getMemberProgress(orgId: UUID, memberId?: UUID): Promise<ApiResponse<RequirementProgress[]>> {
+    const result = await this.executeQuery<RequirementProgressRow[]>(
+      callRpc<RequirementProgressRow[]>('get_member_requirement_progress', {
+        p_org_id: orgId,
+        p_member_id: memberId ?? null,
+      }),
+      'getMemberProgress'
+    );
+
+    if (!result.success) {
+      return { data: null, error: result.error, success: false };
+    }
+
+    return {
+      data: (result.data || []).map(row => ({
+        requirement_id: row.requirement_id,
+        name: row.name,
+        requirement_type: row.requirement_type,
+        period: row.period,
+        target_value: Number(row.target_value),
+        current_value: Number(row.current_value ?? 0),
+        expected_value: Number(row.expected_value ?? 0),
+        starts_on: row.starts_on,
+        ends_on: row.ends_on,
+        days_remaining: row.days_remaining ?? 0,
+        is_met: row.is_met === true,
+      })),
+      error: null,
+      success: true,
+    };
+  }
+
+  /**
+   * Lists members who are behind pace or close to the deadline on an unmet requirement (officers only)
+   */
+  async getAtRiskMembers(orgId: UUID, warningDays: number = 30): Promise<ApiResponse<AtRiskMember[]>> {
+    const result = await this.executeQuery<AtRiskMemberRow[]>(
+      callRpc<AtRiskMemberRow[]>('get_members_at_risk', {
+        p_org_id: orgId,
+        p_warning_days: warningDays,
+      }),
+      'getAtRiskMembers',
+      this.createPermissionContext('view_members_at_risk', {
+        requiredRole: 'officer',
+        organizationId: orgId,
+      })
+    );
+
+    if (!result.success) {
+      return { data: null, error: result.error, success: false };
+    }
+
+    return {
+      data: (result.data || []).map(row => ({
+        member_id: row.member_id,
+        member_name: row.member_name,
+        requirement_id: row.requirement_id,
+        requirement_name: row.requirement_name,
+        requirement_type: row.requirement_type,
+        target_value: Number(row.target_value),
+        current_value: Number(row.current_value ?? 0),
+        expected_value: Number(row.expected_value ?? 0),
+        ends_on: row.ends_on,
+        days_remaining: row.days_remaining ?? 0,
+      })),
+      error: null,
+      success: true,
+    };
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  /**
+   * Validates a new rule, returning an error message if invalid
+   */
+  private validateRequirement(requirement: CreateGraduationRequirementRequest): string | null {
+    if (!requirement.name?.trim()) {
+      return 'Requirement name is required';
+    }
+
+    if (!Number.isFinite(requirement.target_value) || requirement.target_value <= 0) {
+      return 'Target must be greater than zero';
+    }
+
+    if (requirement.requirement_type === 'meetings_attended' && !Number.isInteger(requirement.target_value)) {
+      return 'Meeting targets must be a whole number';
+    }
+
+    if (!requirement.starts_on || !requirement.ends_on || requirement.ends_on <= requirement.starts_on) {
+      return 'The deadline must be after the start date';
+    }
+
+    return null;
+  }
+
+  private transformRequirement(row: any): GraduationRequirement {
+    return {
+      id: row.id,
+      org_id: row.org_id,
+      name: row.name,
+      requirement_type: row.requirement_type,
+      target_value: Number(row.target_value),
+      period: row.period,
+      starts_on: row.starts_on,
+      ends_on: row.ends_on,
+      is_active: row.is_active,
+      created_by: row.created_by ?? undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+// Export singleton instance
+export const graduationRequirementService = new GraduationRequirementService();
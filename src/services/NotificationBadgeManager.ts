@@ -1,6 +1,8 @@
 /**
  * NotificationBadgeManager - Badge management and visual feedback
- * Handles notification count badges and visual feedback for notifications
+ * Handles notification count badges and visual feedback for notifications.
+ * Counts come from unread rows in the notification inbox; marking items read
+ * here marks them read in the inbox too.
  * Requirements: 7.5, 8.5, 10.3, 10.4, 10.5
  */
 
@@ -8,6 +10,8 @@ import * as Notifications from 'expo-notifications';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { BaseDataService } from './BaseDataService';
 import { UUID } from '../types/database';
+import { NotificationInboxItem } from '../types/notifications';
+import { notificationInboxService } from './NotificationInboxService';
 
 // =============================================================================
 // BADGE MANAGEMENT INTERFACES
@@ -29,6 +33,23 @@ export interface NotificationBadgeState {
   };
 }
 
+type BadgeType = keyof Omit<BadgeCounts, 'total'>;
+
+// Officer messages (custom) have no tab to badge; they show in the inbox only
+const INBOX_TYPE_TO_BADGE: Partial<Record<NotificationInboxItem['notification_type'], BadgeType>> = {
+  announcement: 'announcements',
+  event: 'events',
+  volunteer_hours: 'volunteer_hours',
+  ble_session: 'ble_sessions',
+};
+
+const BADGE_TO_INBOX_TYPE: Record<BadgeType, NotificationInboxItem['notification_type']> = {
+  announcements: 'announcement',
+  events: 'event',
+  volunteer_hours: 'volunteer_hours',
+  ble_sessions: 'ble_session',
+};
+
 export interface VisualFeedbackOptions {
   highlightDuration?: number;
   animationType?: 'pulse' | 'glow' | 'bounce';
@@ -88,6 +109,9 @@ export class NotificationBadgeManager extends BaseDataService {
       // Load saved badge state
       await this.loadBadgeState();
 
+      // Replace it with counts from the inbox when signed in
+      await this.refreshFromInbox();
+
       // Sync with system badge
       await this.syncSystemBadge();
 
@@ -101,6 +125,48 @@ export class NotificationBadgeManager extends BaseDataService {
     }
   }
 
+  /**
+   * Recomputes all counts from the unread rows in the notification inbox.
+   * Keeps the current counts if the inbox can't be read (e.g. offline).
+   */
+  async refreshFromInbox(): Promise<void> {
+    try {
+      const result = await notificationInboxService.getUnreadItems();
+      if (!result.success || !result.data) {
+        this.log('warn', 'Could not load unread inbox items, keeping local badges', { error: result.error });
+        return;
+      }
+
+      const counts: BadgeCounts = { announcements: 0, events: 0, volunteer_hours: 0, ble_sessions: 0, total: 0 };
+      const unreadItems: NotificationBadgeState['unreadItems'] = {
+        announcements: [],
+        events: [],
+        volunteer_hours: [],
+        ble_sessions: []
+      };
+
+      for (const item of result.data) {
+        const type = INBOX_TYPE_TO_BADGE[item.notification_type];
+        if (type && !unreadItems[type].includes(item.item_id)) {
+          unreadItems[type].push(item.item_id);
+          counts[type]++;
+        }
+      }
+
+      this.badgeState.counts = counts;
+      this.badgeState.unreadItems = unreadItems;
+      this.updateTotalCount();
+
+      await this.saveBadgeState();
+      await this.syncSystemBadge();
+      this.notifyListeners();
+    } catch (error) {
+      this.log('warn', 'Failed to refresh badges from inbox', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Increments badge count for a specific notification type
    * Requirements: 7.5, 8.5
@@ -157,6 +223,8 @@ export class NotificationBadgeManager extends BaseDataService {
     itemId: string
   ): Promise<void> {
     try {
+      await this.markInboxRead(type, [itemId]);
+
       // Remove from unread items
       if (this.badgeState.unreadItems[type]) {
         const index = this.badgeState.unreadItems[type].indexOf(itemId);
@@ -202,6 +270,8 @@ export class NotificationBadgeManager extends BaseDataService {
         currentCount: this.badgeState.counts[type] 
       });
 
+      await this.markInboxRead(type);
+
       // Clear unread items and count
       this.badgeState.unreadItems[type] = [];
       this.badgeState.counts[type] = 0;
@@ -231,6 +301,11 @@ export class NotificationBadgeManager extends BaseDataService {
         currentTotal: this.badgeState.counts.total 
       });
 
+      const inboxResult = await notificationInboxService.markAllAsRead();
+      if (!inboxResult.success) {
+        this.log('warn', 'Failed to mark inbox read', { error: inboxResult.error });
+      }
+
       // Reset all counts and unread items
       this.badgeState.counts = {
         announcements: 0,
@@ -359,6 +434,17 @@ export class NotificationBadgeManager extends BaseDataService {
     this.badgeState.lastUpdated = new Date();
   }
 
+  /**
+   * Marks the inbox entries behind a badge read (all of the type when no
+   * items are given). The local badge is cleared even if this fails.
+   */
+  private async markInboxRead(type: BadgeType, itemIds?: string[]): Promise<void> {
+    const result = await notificationInboxService.markItemsAsRead(BADGE_TO_INBOX_TYPE[type], itemIds);
+    if (!result.success) {
+      this.log('warn', 'Failed to mark inbox entries read', { type, error: result.error });
+    }
+  }
+
   /**
    * Syncs the system badge with our internal count
    * Requirements: 8.5
@@ -30,7 +30,7 @@ export interface UserFeedbackOptions {
 
 export interface NotificationFallbackData {
   id: string;
-  type: 'announcement' | 'event' | 'volunteer_hours' | 'ble_session';
+  type: 'announcement' | 'event' | 'volunteer_hours' | 'ble_session' | 'custom';
   title: string;
   body: string;
   data: any;
@@ -5,11 +5,13 @@
  */
 
 import { NotificationPayload } from './NotificationService';
+import { NotificationSummary } from './NotificationRateLimitingService';
 import { Announcement } from './AnnouncementService';
 import { Event } from './EventService';
 import { VolunteerHourData } from '../types/dataService';
 import { AttendanceSession } from '../types/ble';
 import { UUID } from '../types/database';
+import { NotificationDeliveryMode } from '../types/notifications';
 
 // =============================================================================
 // FORMATTER INTERFACES
@@ -320,6 +322,60 @@ export class BLESessionFormatter implements NotificationFormatter<BLESessionNoti
   }
 }
 
+// =============================================================================
+// DIGEST FORMATTER
+// =============================================================================
+
+export interface DigestNotificationData {
+  summary: Omit<NotificationSummary, 'shouldSummarize'>;
+  period?: NotificationDeliveryMode; // Set for scheduled daily/weekly digests
+}
+
+/**
+ * Formats one push that stands in for several notifications. The
+ * send-notification-digests edge function builds the same text server-side
+ * (supabase/functions/_shared/digest.ts); keep the two in step.
+ */
+export class DigestFormatter {
+  /**
+   * Formats digest title, naming the period for scheduled digests
+   */
+  formatTitle(data: DigestNotificationData): string {
+    if (data.period === 'daily') {
+      return 'Your Daily Digest';
+    }
+    if (data.period === 'weekly') {
+      return 'Your Weekly Digest';
+    }
+    return `${data.summary.totalNotifications} New Updates`;
+  }
+
+  /**
+   * Formats digest body as a count per notification type
+   */
+  formatBody(data: DigestNotificationData): string {
+    const { summary } = data;
+    const bodyParts = [];
+
+    if (summary.announcementsCount > 0) {
+      bodyParts.push(`${summary.announcementsCount} announcement${summary.announcementsCount > 1 ? 's' : ''}`);
+    }
+    if (summary.eventsCount > 0) {
+      bodyParts.push(`${summary.eventsCount} event${summary.eventsCount > 1 ? 's' : ''}`);
+    }
+    if (summary.volunteerHoursCount > 0) {
+      bodyParts.push(`${summary.volunteerHoursCount} volunteer hour update${summary.volunteerHoursCount > 1 ? 's' : ''}`);
+    }
+    if (summary.bleSessionsCount > 0) {
+      bodyParts.push(`${summary.bleSessionsCount} BLE session${summary.bleSessionsCount > 1 ? 's' : ''}`);
+    }
+
+    return bodyParts.length > 0
+      ? truncateText(bodyParts.join(', ') + '. Tap to view all updates.', 100)
+      : 'Multiple updates available. Tap to view details.';
+  }
+}
+
 // =============================================================================
 // FORMATTER FACTORY
 // =============================================================================
@@ -329,6 +385,7 @@ export class NotificationFormatterFactory {
   private static eventFormatter = new EventFormatter();
   private static volunteerHoursFormatter = new VolunteerHoursFormatter();
   private static bleSessionFormatter = new BLESessionFormatter();
+  private static digestFormatter = new DigestFormatter();
 
   /**
    * Gets the appropriate formatter for announcement notifications
@@ -358,6 +415,13 @@ export class NotificationFormatterFactory {
     return this.bleSessionFormatter;
   }
 
+  /**
+   * Gets the formatter for summary and digest notifications
+   */
+  static getDigestFormatter(): DigestFormatter {
+    return this.digestFormatter;
+  }
+
   /**
    * Gets formatter by notification type
    */
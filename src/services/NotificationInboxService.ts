@@ -0,0 +1,134 @@
+/**
+ * NotificationInboxService - Persisted per-user notification inbox
+ * Every push sent to a member also gets an inbox row with its payload and
+ * read state, so notifications survive being swiped away. Edge functions add
+ * rows server-side; pushes the app sends on an officer's behalf are recorded
+ * here after delivery. Unread rows drive the badge counts.
+ */
+
+import { BaseDataService } from './BaseDataService';
+import { supabase } from '../lib/supabaseClient';
+import { callRpc } from '../lib/supabaseRpc';
+import { ApiResponse } from '../types/dataService';
+import { DATABASE_TABLES, UUID } from '../types/database';
+import { NotificationInboxItem } from '../types/notifications';
+
+export class NotificationInboxService extends BaseDataService {
+  private readonly INBOX_LIMIT = 100;
+
+  constructor() {
+    super('NotificationInboxService');
+  }
+
+  // =============================================================================
+  // READ
+  // =============================================================================
+
+  /**
+   * Gets the current user's most recent inbox entries, newest first
+   */
+  async getInbox(): Promise<ApiResponse<NotificationInboxItem[]>> {
+    const userId = await this.getCurrentUserId();
+
+    return this.executeQuery<NotificationInboxItem[]>(
+      supabase
+        .from(DATABASE_TABLES.NOTIFICATION_INBOX)
+        .select('id, org_id, notification_type, item_id, title, body, payload, read_at, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(this.INBOX_LIMIT),
+      'getInbox'
+    );
+  }
+
+  /**
+   * Gets the type and item of every unread entry, for badge counts
+   */
+  async getUnreadItems(): Promise<ApiResponse<Pick<NotificationInboxItem, 'notification_type' | 'item_id'>[]>> {
+    const userId = await this.getCurrentUserId();
+
+    return this.executeQuery<Pick<NotificationInboxItem, 'notification_type' | 'item_id'>[]>(
+      supabase
+        .from(DATABASE_TABLES.NOTIFICATION_INBOX)
+        .select('notification_type, item_id')
+        .eq('user_id', userId)
+        .is('read_at', null),
+      'getUnreadItems'
+    );
+  }
+
+  // =============================================================================
+  // READ STATE
+  // =============================================================================
+
+  /**
+   * Marks specific entries read
+   */
+  async markAsRead(ids: UUID[]): Promise<ApiResponse<number>> {
+    return this.executeMutation<number>(
+      callRpc<number>('mark_inbox_read', { p_ids: ids }),
+      'markAsRead'
+    );
+  }
+
+  /**
+   * Marks every unread entry read
+   */
+  async markAllAsRead(): Promise<ApiResponse<number>> {
+    const result = await this.executeMutation<number>(
+      callRpc<number>('mark_inbox_read', { p_ids: null }),
+      'markAllAsRead'
+    );
+
+    if (result.success) {
+      this.log('info', 'Marked all inbox entries read', { count: result.data });
+    }
+
+    return result;
+  }
+
+  /**
+   * Marks the entries for a type read, optionally only those for the given
+   * items (e.g. when an announcement is opened from its own screen)
+   */
+  async markItemsAsRead(
+    type: NotificationInboxItem['notification_type'],
+    itemIds?: string[]
+  ): Promise<ApiResponse<number>> {
+    return this.executeMutation<number>(
+      callRpc<number>('mark_inbox_items_read', {
+        p_notification_type: type,
+        p_item_ids: itemIds ?? null,
+      }),
+      'markItemsAsRead'
+    );
+  }
+
+  // =============================================================================
+  // RECORDING
+  // =============================================================================
+
+  /**
+   * Adds inbox entries for the members behind the push tokens a notification
+   * was delivered to. Only officers can record for their organization.
+   */
+  async recordSentNotification(
+    tokens: string[],
+    title: string,
+    body: string,
+    payload: Record<string, any>
+  ): Promise<ApiResponse<number>> {
+    return this.executeMutation<number>(
+      callRpc<number>('record_inbox_notifications', {
+        p_tokens: tokens,
+        p_title: title,
+        p_body: body,
+        p_payload: payload,
+      }),
+      'recordSentNotification'
+    );
+  }
+}
+
+// Export singleton instance
+export const notificationInboxService = new NotificationInboxService();
@@ -9,6 +9,9 @@ import { AppState, AppStateStatus } from 'react-native';
 import { BaseDataService } from './BaseDataService';
 import { notificationNavigationHandler } from './NotificationNavigationHandler';
 import { notificationBadgeManager } from './NotificationBadgeManager';
+import { notificationInboxService } from './NotificationInboxService';
+import { VOLUNTEER_HOURS_REVIEW_ACTIONS } from './NotificationPriorityManager';
+import { volunteerHoursService } from './VolunteerHoursService';
 
 // =============================================================================
 // NOTIFICATION LISTENER INTERFACES
@@ -286,9 +289,14 @@ export class NotificationListenerService extends BaseDataService {
 
         // Handle the launch notification after a short delay to ensure navigation is ready
         setTimeout(async () => {
-          await notificationNavigationHandler.handleNotificationTap(
-            response.notification.request.content.data
-          );
+          if (response.actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER) {
+            await notificationNavigationHandler.handleNotificationTap(
+              response.notification.request.content.data
+            );
+          } else {
+            // e.g. Reject on a submission push, which opens the app
+            await this.handleCustomNotificationAction(response);
+          }
         }, 1500); // 1.5 second delay for app initialization
       }
     } catch (error) {
@@ -359,8 +367,8 @@ export class NotificationListenerService extends BaseDataService {
         await this.handleCustomNotificationAction(response);
       }
 
-      // Clear badge for the specific notification type
-      await this.clearBadgeForNotificationType(notificationData?.type as string);
+      // Mark the tapped notification read in the badge counts and inbox
+      await this.markNotificationAsRead(notificationData?.type as string, notificationData?.itemId as string);
     } catch (error) {
       this.log('error', 'Error processing notification response', { 
         error: error instanceof Error ? error.message : 'Unknown error' 
@@ -402,8 +410,20 @@ export class NotificationListenerService extends BaseDataService {
         userText: response.userText
       });
 
+      const notificationData = response.notification.request.content.data;
+
       // Handle custom actions based on action identifier
       switch (response.actionIdentifier) {
+        case VOLUNTEER_HOURS_REVIEW_ACTIONS.APPROVE:
+          await this.approveVolunteerHoursFromNotification(response);
+          break;
+        case VOLUNTEER_HOURS_REVIEW_ACTIONS.REJECT:
+          await notificationNavigationHandler.navigateToVolunteerHoursRejection(
+            notificationData?.itemId as string,
+            notificationData?.orgId as string,
+            response.userText
+          );
+          break;
         case 'QUICK_REPLY':
           // Handle quick reply actions
           break;
@@ -422,6 +442,68 @@ export class NotificationListenerService extends BaseDataService {
     }
   }
 
+  /**
+   * Approves the submission a volunteer hours push is about, usually while
+   * the app is in the background. VolunteerHoursService checks the session
+   * and the officer's role for the submission's organization, so a signed-out
+   * device or a non-officer can't approve this way. The outcome is reported
+   * with a local notification since there may be no screen to show it on.
+   */
+  private async approveVolunteerHoursFromNotification(response: Notifications.NotificationResponse): Promise<void> {
+    const notificationData = response.notification.request.content.data;
+    const hourId = notificationData?.itemId as string | undefined;
+
+    if (notificationData?.type !== 'volunteer_hours' || !hourId) {
+      this.log('warn', 'Approve action on a notification without volunteer hours', {
+        type: notificationData?.type
+      });
+      return;
+    }
+
+    const result = await volunteerHoursService.approveVolunteerHours(hourId);
+
+    if (result.success) {
+      this.log('info', 'Volunteer hours approved from notification', {
+        hourId,
+        status: result.data?.status
+      });
+
+      await Notifications.dismissNotificationAsync(response.notification.request.identifier);
+      await this.showActionResult(
+        result.data?.status === 'officer_approved' ? 'Approval Recorded' : 'Hours Approved',
+        result.data?.status === 'officer_approved'
+          ? 'These hours still need a second officer\'s approval.'
+          : 'The member has been notified.'
+      );
+      return;
+    }
+
+    this.log('error', 'Failed to approve volunteer hours from notification', {
+      hourId,
+      error: result.error
+    });
+    await this.showActionResult(
+      'Approval Failed',
+      `${result.error || 'The hours could not be approved'}. Open the app to review them.`
+    );
+  }
+
+  /**
+   * Shows the result of a notification action as a local notification
+   */
+  private async showActionResult(title: string, body: string): Promise<void> {
+    try {
+      await Notifications.scheduleNotificationAsync({
+        content: { title, body },
+        trigger: null,
+      });
+    } catch (error) {
+      this.log('warn', 'Failed to show notification action result', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   // =============================================================================
   // UTILITY METHODS
   // =============================================================================
@@ -490,12 +572,12 @@ export class NotificationListenerService extends BaseDataService {
   }
 
   /**
-   * Clears badge count for specific notification type
+   * Marks a tapped notification's item read
    * Requirements: 8.5
    */
-  private async clearBadgeForNotificationType(type?: string): Promise<void> {
+  private async markNotificationAsRead(type?: string, itemId?: string): Promise<void> {
     try {
-      if (!type) return;
+      if (!type || !itemId) return;
 
       // Map notification types to badge types
       const badgeTypeMap: Record<string, keyof Omit<import('./NotificationBadgeManager').BadgeCounts, 'total'>> = {
@@ -507,12 +589,14 @@ export class NotificationListenerService extends BaseDataService {
 
       const badgeType = badgeTypeMap[type];
       if (badgeType) {
-        // Clear all badges for this type when user interacts with notifications
-        await notificationBadgeManager.clearBadgesForType(badgeType);
-        this.log('info', 'Cleared badges for notification type', { type: badgeType });
+        await notificationBadgeManager.markItemAsRead(badgeType, itemId);
+        this.log('info', 'Marked notification read', { type: badgeType, itemId });
+      } else if (type === 'custom') {
+        // Officer messages have no badge, only their inbox entry
+        await notificationInboxService.markItemsAsRead('custom', [itemId]);
       }
     } catch (error) {
-      this.log('error', 'Failed to clear badge', { 
+      this.log('error', 'Failed to mark notification read', { 
         type,
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
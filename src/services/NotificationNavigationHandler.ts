@@ -13,7 +13,7 @@ import { UUID } from '../types/database';
 // =============================================================================
 
 export interface NotificationData {
-  type: 'announcement' | 'event' | 'volunteer_hours' | 'ble_session';
+  type: 'announcement' | 'event' | 'volunteer_hours' | 'ble_session' | 'custom';
   itemId: string;
   orgId: string;
   priority: 'high' | 'normal';
@@ -205,6 +205,45 @@ export class NotificationNavigationHandler extends BaseDataService {
     }
   }
 
+  /**
+   * Opens the officer review screen with the rejection reason input open for
+   * a submission, filled in with any reason typed in the notification
+   */
+  async navigateToVolunteerHoursRejection(hourId: string, orgId: string, reason?: string): Promise<boolean> {
+    try {
+      this.log('info', 'Navigating to volunteer hours rejection', { hourId });
+
+      if (!this.navigationRef?.isReady()) {
+        this.log('warn', 'Navigation not ready, queuing rejection', { hourId });
+        setTimeout(() => this.navigateToVolunteerHoursRejection(hourId, orgId, reason), 1000);
+        return false;
+      }
+
+      const target: NavigationTarget = {
+        screen: 'OfficerVerifyHours',
+        params: {
+          highlightId: hourId,
+          rejectHourId: hourId,
+          rejectionReason: reason?.trim() || undefined,
+          fromNotification: true
+        }
+      };
+
+      return await this.navigateToTarget(target, {
+        type: 'volunteer_hours',
+        itemId: hourId,
+        orgId,
+        priority: 'normal'
+      });
+    } catch (error) {
+      this.log('error', 'Failed to navigate to volunteer hours rejection', {
+        hourId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    }
+  }
+
   /**
    * Navigates to BLE attendance screen with auto-scan enabled
    * Requirements: 7.3
@@ -275,7 +314,7 @@ export class NotificationNavigationHandler extends BaseDataService {
       }
 
       // Validate notification type
-      const validTypes = ['announcement', 'event', 'volunteer_hours', 'ble_session'];
+      const validTypes = ['announcement', 'event', 'volunteer_hours', 'ble_session', 'custom'];
       if (!validTypes.includes(type)) {
         this.log('warn', 'Invalid notification type', { type });
         return null;
@@ -347,6 +386,12 @@ export class NotificationNavigationHandler extends BaseDataService {
             }
           };
 
+        case 'custom':
+          // Officer messages have no screen of their own; the inbox shows them in full
+          return {
+            screen: 'NotificationInbox'
+          };
+
         default:
           this.log('warn', 'Unknown notification type for navigation', { type: data.type });
           return null;
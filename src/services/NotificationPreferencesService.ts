@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabaseClient';
+import { callRpc } from '../lib/supabaseRpc';
 import { NotificationPreferences, MuteDuration, DEFAULT_NOTIFICATION_PREFERENCES } from '../types/notifications';
 
 export class NotificationPreferencesService {
@@ -51,6 +52,13 @@ export class NotificationPreferencesService {
     preferences: Partial<NotificationPreferences>
   ): Promise<boolean> {
     try {
+      // Quiet hours and digests are scheduled server-side in the device's
+      // timezone, so keep it current with every change
+      preferences = {
+        ...preferences,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      };
+
       // Use database function for atomic update with validation
       const { data, error } = await supabase.rpc('update_notification_preferences', {
         p_user_id: userId,
@@ -69,6 +77,29 @@ export class NotificationPreferencesService {
     }
   }
 
+  /**
+   * Store the device timezone so quiet hours are placed correctly even if
+   * the user never edits their preferences
+   */
+  static async syncTimezone(userId: string): Promise<boolean> {
+    try {
+      const { data, error } = await callRpc<boolean>('update_notification_preferences', {
+        p_user_id: userId,
+        p_preferences: { timezone: Intl.DateTimeFormat().resolvedOptions().timeZone },
+      });
+
+      if (error) {
+        console.error('Error syncing notification timezone:', error);
+        return false;
+      }
+
+      return data === true;
+    } catch (error) {
+      console.error('Error in syncTimezone:', error);
+      return false;
+    }
+  }
+
   /**
    * Enable or disable all notifications
    */
@@ -14,7 +14,15 @@ import { BaseDataService } from './BaseDataService';
 
 export type NotificationPriority = 'high' | 'normal' | 'low';
 
-export type NotificationType = 'announcement' | 'event' | 'volunteer_hours' | 'ble_session';
+export type NotificationType = 'announcement' | 'event' | 'volunteer_hours' | 'ble_session' | 'custom';
+
+// Category sent with the volunteer hours submission pushes officers receive
+export const VOLUNTEER_HOURS_REVIEW_CATEGORY = 'volunteer_hours_review';
+
+export const VOLUNTEER_HOURS_REVIEW_ACTIONS = {
+  APPROVE: 'approve_hours',
+  REJECT: 'reject_hours',
+} as const;
 
 export interface NotificationChannel {
   id: string;
@@ -100,6 +108,9 @@ export class NotificationPriorityManager extends BaseDataService {
         await this.setupIOSCategories();
       }
 
+      // Set up categories whose actions both platforms show
+      await this.setupReviewCategories();
+
       this.isInitialized = true;
       this.log('info', 'Notification priority manager initialized successfully');
     } catch (error) {
@@ -190,6 +201,18 @@ export class NotificationPriorityManager extends BaseDataService {
         lightColor: '#FF0000',
         badge: true,
       },
+      {
+        id: 'custom',
+        name: 'Officer Messages',
+        description: 'Messages officers send to members directly',
+        importance: Notifications.AndroidImportance.DEFAULT,
+        sound: true,
+        vibration: true,
+        vibrationPattern: [0, 250, 250, 250],
+        lights: true,
+        lightColor: '#6B46C1',
+        badge: true,
+      },
     ];
 
     // Create all channels
@@ -325,6 +348,25 @@ export class NotificationPriorityManager extends BaseDataService {
           showSubtitle: true,
         },
       },
+      {
+        identifier: 'custom',
+        actions: [
+          {
+            identifier: 'view_message',
+            buttonTitle: 'View',
+            options: {
+              opensAppToForeground: true,
+            },
+          },
+        ],
+        options: {
+          customDismissAction: false,
+          allowInCarPlay: true,
+          allowAnnouncement: false,
+          showTitle: true,
+          showSubtitle: true,
+        },
+      },
     ];
 
     // Set all categories
@@ -335,6 +377,53 @@ export class NotificationPriorityManager extends BaseDataService {
     this.log('info', 'iOS notification categories created', { count: categories.length });
   }
 
+  /**
+   * Sets up the category officers' volunteer hours submission pushes use, so
+   * a submission can be approved or rejected from the notification.
+   * Approve is handled in the background by NotificationListenerService;
+   * Reject opens the review screen with the typed reason filled in.
+   * Also called by useNotificationSystem at startup, since the buttons only
+   * appear once the category is registered on the device.
+   */
+  async setupReviewCategories(): Promise<void> {
+    const category: NotificationCategory = {
+      identifier: VOLUNTEER_HOURS_REVIEW_CATEGORY,
+      actions: [
+        {
+          identifier: VOLUNTEER_HOURS_REVIEW_ACTIONS.APPROVE,
+          buttonTitle: 'Approve',
+          options: {
+            isAuthenticationRequired: true,
+            opensAppToForeground: false,
+          },
+        },
+        {
+          identifier: VOLUNTEER_HOURS_REVIEW_ACTIONS.REJECT,
+          buttonTitle: 'Reject',
+          textInput: {
+            submitButtonTitle: 'Continue',
+            placeholder: 'Reason for rejection',
+          },
+          options: {
+            isDestructive: true,
+            opensAppToForeground: true,
+          },
+        },
+      ],
+      options: {
+        customDismissAction: false,
+        allowInCarPlay: false,
+        allowAnnouncement: false,
+        showTitle: true,
+        showSubtitle: true,
+      },
+    };
+
+    await Notifications.setNotificationCategoryAsync(category.identifier, category.actions || [], category.options || {});
+
+    this.log('info', 'Review notification category created', { identifier: category.identifier });
+  }
+
   // =============================================================================
   // PRIORITY CONFIGURATION METHODS
   // =============================================================================
@@ -385,6 +474,16 @@ export class NotificationPriorityManager extends BaseDataService {
         badge: true,
         bypassDoNotDisturb: true, // High priority for BLE sessions
       },
+      custom: {
+        type: 'custom',
+        priority: 'normal',
+        channelId: 'custom',
+        categoryId: 'custom',
+        sound: true,
+        vibration: true,
+        badge: true,
+        bypassDoNotDisturb: false,
+      },
     };
 
     return configurations[type];
@@ -398,12 +497,14 @@ export class NotificationPriorityManager extends BaseDataService {
     type: NotificationType
   ): any {
     const config = this.getPriorityConfiguration(type);
+    // A payload may pick a more specific category, e.g. one with review actions
+    const categoryId = payload.categoryId || config.categoryId;
 
     return {
       ...payload,
       priority: config.priority,
       channelId: config.channelId,
-      categoryId: config.categoryId,
+      categoryId,
       sound: config.sound ? 'default' : null,
       // Platform-specific configurations
       android: {
@@ -418,7 +519,7 @@ export class NotificationPriorityManager extends BaseDataService {
         }),
       },
       ios: {
-        categoryId: config.categoryId,
+        categoryId,
         sound: config.sound,
         badge: config.badge,
         ...(config.bypassDoNotDisturb && { 
@@ -472,6 +573,7 @@ export class NotificationPriorityManager extends BaseDataService {
       case 'announcement':
       case 'event':
       case 'volunteer_hours':
+      case 'custom':
       default:
         return [0, 250, 250, 250]; // Standard pattern
     }
@@ -490,6 +592,8 @@ export class NotificationPriorityManager extends BaseDataService {
         return '#FF6600'; // Orange
       case 'ble_session':
         return '#FF0000'; // Red for urgency
+      case 'custom':
+        return '#6B46C1'; // Purple
       default:
         return '#0066CC';
     }
@@ -6,6 +6,7 @@
 
 import { BaseDataService } from './BaseDataService';
 import { supabase } from '../lib/supabaseClient';
+import { callRpc } from '../lib/supabaseRpc';
 import { ApiResponse } from '../types/dataService';
 import { UUID } from '../types/database';
 // React Native compatible hash function
@@ -27,6 +28,7 @@ export interface DuplicateCheckResult {
   isDuplicate: boolean;
   reason?: string;
   lastSent?: Date;
+  contentHash?: string; // Hash recorded in notification_history for this send
 }
 
 export interface VolunteerHoursBatch {
@@ -34,6 +36,7 @@ export interface VolunteerHoursBatch {
   memberId: UUID;
   orgId: UUID;
   approvalIds: UUID[];
+  rejectionIds: UUID[];
   batchCount: number;
 }
 
@@ -50,6 +53,7 @@ export interface BatchNotificationData {
   memberId: UUID;
   orgId: UUID;
   approvals: VolunteerHoursApprovalData[];
+  rejections?: VolunteerHoursRejectionData[];
   totalHours: number;
 }
 
@@ -60,6 +64,22 @@ export interface VolunteerHoursApprovalData {
   approvedAt: Date;
 }
 
+export interface VolunteerHoursRejectionData {
+  id: UUID;
+  hours: number;
+  activity: string;
+  reason: string;
+}
+
+interface BatchVolunteerHoursRow {
+  id: UUID;
+  hours: number;
+  activity: string;
+  status: string;
+  approved_at: string | null;
+  rejection_reason: string | null;
+}
+
 // =============================================================================
 // RATE LIMITING SERVICE CLASS
 // =============================================================================
@@ -69,6 +89,7 @@ export class NotificationRateLimitingService extends BaseDataService {
 
   // Rate limiting constants
   private readonly ANNOUNCEMENT_DAILY_LIMIT = 10;
+  private readonly CUSTOM_NOTIFICATION_DAILY_LIMIT = 10;
   private readonly DUPLICATE_WINDOW_HOURS = 1;
   private readonly VOLUNTEER_HOURS_BATCH_WINDOW_MINUTES = 5;
   private readonly HIGH_VOLUME_THRESHOLD = 5;
@@ -119,7 +140,7 @@ export class NotificationRateLimitingService extends BaseDataService {
 
       if (!allowed) {
         // Get current count for detailed response
-        const currentCount = await this.getCurrentAnnouncementCount(orgId, officerId);
+        const currentCount = await this.getCurrentCount(orgId, officerId, 'announcement');
         
         return {
           data: {
@@ -134,7 +155,7 @@ export class NotificationRateLimitingService extends BaseDataService {
         };
       }
 
-      const currentCount = await this.getCurrentAnnouncementCount(orgId, officerId);
+      const currentCount = await this.getCurrentCount(orgId, officerId, 'announcement');
 
       return {
         data: {
@@ -162,11 +183,65 @@ export class NotificationRateLimitingService extends BaseDataService {
   }
 
   /**
-   * Gets current announcement count for today
+   * Checks if officer can send a custom notification (10 per day limit)
    */
-  private async getCurrentAnnouncementCount(
-    orgId: UUID, 
+  async checkCustomNotificationRateLimit(
+    orgId: UUID,
     officerId: UUID
+  ): Promise<ApiResponse<RateLimitResult>> {
+    try {
+      this.log('info', 'Checking custom notification rate limit', {
+        orgId,
+        officerId
+      });
+
+      // Checks and counts against the calling officer's limit
+      const { data, error } = await callRpc<boolean>('check_custom_notification_rate_limit', {
+        p_org_id: orgId
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const allowed = data === true;
+      const currentCount = await this.getCurrentCount(orgId, officerId, 'custom');
+
+      return {
+        data: {
+          allowed,
+          ...(!allowed && {
+            reason: `Daily custom notification limit exceeded (${this.CUSTOM_NOTIFICATION_DAILY_LIMIT} per day)`
+          }),
+          currentCount: currentCount.data ?? (allowed ? 0 : this.CUSTOM_NOTIFICATION_DAILY_LIMIT),
+          limit: this.CUSTOM_NOTIFICATION_DAILY_LIMIT,
+          resetTime: this.getNextDayReset()
+        },
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to check custom notification rate limit', {
+        orgId,
+        officerId,
+        error: errorMessage
+      });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Gets an officer's count of a notification type for today
+   */
+  private async getCurrentCount(
+    orgId: UUID, 
+    officerId: UUID,
+    notificationType: 'announcement' | 'custom'
   ): Promise<ApiResponse<number>> {
     try {
       const { data, error } = await supabase
@@ -174,7 +249,7 @@ export class NotificationRateLimitingService extends BaseDataService {
         .select('count')
         .eq('org_id', orgId)
         .eq('officer_id', officerId)
-        .eq('notification_type', 'announcement')
+        .eq('notification_type', notificationType)
         .gte('window_start', this.getTodayStart().toISOString());
 
       if (error) {
@@ -253,7 +328,8 @@ export class NotificationRateLimitingService extends BaseDataService {
 
       return {
         data: {
-          isDuplicate: false
+          isDuplicate: false,
+          contentHash
         },
         error: null,
         success: true,
@@ -381,6 +457,7 @@ export class NotificationRateLimitingService extends BaseDataService {
         memberId: batch.member_id,
         orgId: batch.org_id,
         approvalIds: batch.approval_ids,
+        rejectionIds: batch.rejection_ids || [],
         batchCount: batch.batch_count
       }));
 
@@ -452,47 +529,66 @@ export class NotificationRateLimitingService extends BaseDataService {
         approvalCount: batch.batchCount 
       });
 
+      const rejectionIds = batch.rejectionIds || [];
+
       // Get volunteer hours details for the batch
-      const { data: volunteerHours, error } = await supabase
+      const { data, error } = await supabase
         .from('volunteer_hours')
         .select(`
           id,
           hours,
           activity,
-          approved_at
+          status,
+          approved_at,
+          rejection_reason
         `)
-        .in('id', batch.approvalIds)
-        .not('approved_at', 'is', null);
+        .in('id', [...batch.approvalIds, ...rejectionIds]);
 
       if (error) {
         throw new Error(error.message);
       }
 
-      if (!volunteerHours || volunteerHours.length === 0) {
-        throw new Error('No approved volunteer hours found for batch');
+      const volunteerHours: BatchVolunteerHoursRow[] = data || [];
+
+      // Only report entries that still have the reviewed status
+      const approvals: VolunteerHoursApprovalData[] = volunteerHours
+        .filter(vh => batch.approvalIds.includes(vh.id) && vh.approved_at)
+        .map(vh => ({
+          id: vh.id,
+          hours: vh.hours,
+          activity: vh.activity,
+          approvedAt: new Date(vh.approved_at!)
+        }));
+
+      const rejections: VolunteerHoursRejectionData[] = volunteerHours
+        .filter(vh => rejectionIds.includes(vh.id) && vh.status === 'rejected')
+        .map(vh => ({
+          id: vh.id,
+          hours: vh.hours,
+          activity: vh.activity,
+          reason: vh.rejection_reason ?? ''
+        }));
+
+      if (approvals.length === 0 && rejections.length === 0) {
+        throw new Error('No reviewed volunteer hours found for batch');
       }
 
-      // Calculate total hours and create approval data
-      const approvals: VolunteerHoursApprovalData[] = volunteerHours.map(vh => ({
-        id: vh.id,
-        hours: vh.hours,
-        activity: vh.activity,
-        approvedAt: new Date(vh.approved_at)
-      }));
-
+      // Total hours counts approved entries only
       const totalHours = approvals.reduce((sum, approval) => sum + approval.hours, 0);
 
       const batchData: BatchNotificationData = {
         memberId: batch.memberId,
         orgId: batch.orgId,
         approvals,
+        rejections,
         totalHours
       };
 
       this.log('info', 'Volunteer hours batch processed', {
         batchId: batch.batchId,
         totalHours,
-        approvalCount: approvals.length
+        approvalCount: approvals.length,
+        rejectionCount: rejections.length
       });
 
       return {
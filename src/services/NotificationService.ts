@@ -12,7 +12,7 @@ import { Announcement } from './AnnouncementService';
 import { Event } from './EventService';
 import { VolunteerHourData } from '../types/dataService';
 import { AttendanceSession } from '../types/ble';
-import { notificationPriorityManager, NotificationType } from './NotificationPriorityManager';
+import { notificationPriorityManager, NotificationType, VOLUNTEER_HOURS_REVIEW_CATEGORY } from './NotificationPriorityManager';
 import { 
   notificationRateLimitingService, 
   BatchNotificationData,
@@ -21,6 +21,8 @@ import {
 import { notificationErrorHandler } from './NotificationErrorHandler';
 import { notificationCacheService } from './NotificationCacheService';
 import { notificationMonitoringService } from './NotificationMonitoringService';
+import { NotificationFormatterFactory } from './NotificationFormatters';
+import { notificationInboxService } from './NotificationInboxService';
 
 // =============================================================================
 // NOTIFICATION INTERFACES
@@ -31,7 +33,7 @@ export interface NotificationPayload {
   title: string;
   body: string;
   data: {
-    type: 'announcement' | 'event' | 'volunteer_hours' | 'ble_session';
+    type: 'announcement' | 'event' | 'volunteer_hours' | 'ble_session' | 'custom';
     itemId: string;
     orgId: string;
     priority: 'high' | 'normal';
@@ -409,7 +411,7 @@ export class NotificationService extends BaseDataService {
         sound: 'default',
         priority: 'normal',
         channelId: 'volunteer_hours',
-        categoryId: 'volunteer_hours'
+        categoryId: VOLUNTEER_HOURS_REVIEW_CATEGORY // Approve and Reject actions
       };
 
       // Send batch notification
@@ -544,9 +546,12 @@ export class NotificationService extends BaseDataService {
     batchData: BatchNotificationData
   ): Promise<ApiResponse<NotificationResult>> {
     try {
+      const rejections = batchData.rejections || [];
+
       this.log('info', 'Sending batched volunteer hours notification', { 
         memberId: batchData.memberId,
         approvalCount: batchData.approvals.length,
+        rejectionCount: rejections.length,
         totalHours: batchData.totalHours
       });
 
@@ -579,10 +584,31 @@ export class NotificationService extends BaseDataService {
 
       // Create batched notification payload
       const approvalCount = batchData.approvals.length;
-      const title = `${approvalCount} Volunteer Hours Approved`;
-      const body = approvalCount === 1 
-        ? `${batchData.totalHours} hours have been approved`
-        : `${approvalCount} submissions (${batchData.totalHours} total hours) have been approved`;
+      const rejectionCount = rejections.length;
+      let title: string;
+      let body: string;
+      let status: 'approved' | 'rejected' | 'reviewed';
+
+      if (rejectionCount === 0) {
+        status = 'approved';
+        title = `${approvalCount} Volunteer Hours Approved`;
+        body = approvalCount === 1 
+          ? `${batchData.totalHours} hours have been approved`
+          : `${approvalCount} submissions (${batchData.totalHours} total hours) have been approved`;
+      } else if (approvalCount === 0) {
+        // Entries rejected together share one reason, so show it when there is only one
+        const reasons = new Set(rejections.map(r => r.reason));
+        const sharedReason = reasons.size === 1 ? rejections[0].reason : null;
+        status = 'rejected';
+        title = `${rejectionCount} Volunteer Hours Rejected`;
+        body = `${rejectionCount === 1 ? '1 submission was' : `${rejectionCount} submissions were`} rejected${sharedReason ? `: ${sharedReason}` : ''}`;
+      } else {
+        status = 'reviewed';
+        title = 'Volunteer Hours Reviewed';
+        body = `${approvalCount} approved (${batchData.totalHours} hours), ${rejectionCount} rejected`;
+      }
+
+      const reviewedIds = [...batchData.approvals.map(a => a.id), ...rejections.map(r => r.id)];
 
       const payload: NotificationPayload = {
         to: recipient.data,
@@ -590,13 +616,14 @@ export class NotificationService extends BaseDataService {
         body: this.truncateText(body, 100),
         data: {
           type: 'volunteer_hours',
-          itemId: batchData.approvals[0].id, // Use first approval ID as primary
+          itemId: reviewedIds[0], // Use first reviewed ID as primary
           orgId: batchData.orgId,
           priority: 'normal',
-          status: 'approved',
-          batchCount: approvalCount,
+          status,
+          batchCount: reviewedIds.length,
           totalHours: batchData.totalHours,
-          approvalIds: batchData.approvals.map(a => a.id)
+          approvalIds: batchData.approvals.map(a => a.id),
+          rejectionIds: rejections.map(r => r.id)
         },
         sound: 'default',
         priority: 'normal',
@@ -610,6 +637,7 @@ export class NotificationService extends BaseDataService {
       this.log('info', 'Batched volunteer hours notification sent', {
         memberId: batchData.memberId,
         approvalCount,
+        rejectionCount,
         totalHours: batchData.totalHours,
         success: result.success
       });
@@ -664,30 +692,12 @@ export class NotificationService extends BaseDataService {
       }
 
       // Create summary notification payload
-      const title = `${summary.totalNotifications} New Updates`;
-      const bodyParts = [];
-      
-      if (summary.announcementsCount > 0) {
-        bodyParts.push(`${summary.announcementsCount} announcement${summary.announcementsCount > 1 ? 's' : ''}`);
-      }
-      if (summary.eventsCount > 0) {
-        bodyParts.push(`${summary.eventsCount} event${summary.eventsCount > 1 ? 's' : ''}`);
-      }
-      if (summary.volunteerHoursCount > 0) {
-        bodyParts.push(`${summary.volunteerHoursCount} volunteer hour update${summary.volunteerHoursCount > 1 ? 's' : ''}`);
-      }
-      if (summary.bleSessionsCount > 0) {
-        bodyParts.push(`${summary.bleSessionsCount} BLE session${summary.bleSessionsCount > 1 ? 's' : ''}`);
-      }
-
-      const body = bodyParts.length > 0 
-        ? bodyParts.join(', ') + '. Tap to view all updates.'
-        : 'Multiple updates available. Tap to view details.';
+      const formatter = NotificationFormatterFactory.getDigestFormatter();
 
       const payload: NotificationPayload = {
         to: recipient.data,
-        title,
-        body: this.truncateText(body, 100),
+        title: formatter.formatTitle({ summary }),
+        body: formatter.formatBody({ summary }),
         data: {
           type: 'summary' as any, // Extended type for summary
           itemId: 'summary',
@@ -1089,6 +1099,8 @@ export class NotificationService extends BaseDataService {
           attempt - 1
         );
 
+        await this.recordInInbox(payload);
+
         return notificationResult;
       } catch (error) {
         const errorDetails = this.classifyDeliveryError(error, attempt);
@@ -1750,6 +1762,36 @@ export class NotificationService extends BaseDataService {
     }
   }
 
+  /**
+   * Adds a delivered notification to each recipient's inbox. Summaries stand
+   * in for other notifications, so they get no entry of their own. A failure
+   * here is logged and never fails the send.
+   */
+  private async recordInInbox(payload: NotificationPayload): Promise<void> {
+    const inboxTypes = ['announcement', 'event', 'volunteer_hours', 'ble_session', 'custom'];
+    if (!inboxTypes.includes(payload.data.type) || !payload.data.itemId) {
+      return;
+    }
+
+    try {
+      const tokens = Array.isArray(payload.to) ? payload.to : [payload.to];
+      const result = await notificationInboxService.recordSentNotification(
+        tokens,
+        payload.title,
+        payload.body,
+        payload.data
+      );
+
+      if (!result.success) {
+        this.log('warn', 'Failed to record notification in inbox', { error: result.error });
+      }
+    } catch (error) {
+      this.log('warn', 'Failed to record notification in inbox', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Delay utility for retry logic with exponential backoff
    */
@@ -0,0 +1,167 @@
+/**
+ * Organization Beacon Code Resolver
+ * Maps organizations to their registered BLE beacon Major codes (organizations.beacon_major)
+ * and back. Codes are loaded from the database and cached in memory so payload
+ * generation and beacon detection can resolve them synchronously.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { DATABASE_TABLES } from '../types/database';
+
+export interface OrgBeaconCode {
+  orgId: string;
+  orgSlug: string;
+  beaconMajor: number;
+}
+
+// Codes only change when an organization is created, so a long TTL is fine
+const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+// Scanners see foreign beacons constantly; don't refetch on every unknown code
+const MISS_RELOAD_INTERVAL_MS = 30 * 1000; // 30 seconds
+
+export class OrgBeaconCodeResolver {
+  private static bySlug = new Map<string, OrgBeaconCode>();
+  private static byMajor = new Map<number, OrgBeaconCode>();
+  private static loadedAt = 0;
+  private static lastAttemptAt = 0;
+  private static pendingLoad: Promise<void> | null = null;
+
+  /**
+   * Loads every organization's beacon code into the cache.
+   * Concurrent callers share one request; a fresh cache is reused unless forced.
+   */
+  static async load(force: boolean = false): Promise<void> {
+    if (!force && this.isFresh()) {
+      return;
+    }
+
+    if (this.pendingLoad) {
+      return this.pendingLoad;
+    }
+
+    this.lastAttemptAt = Date.now();
+    this.pendingLoad = (async () => {
+      try {
+        const { data, error } = await supabase
+          .from(DATABASE_TABLES.ORGANIZATIONS)
+          .select('id, slug, beacon_major')
+          .not('beacon_major', 'is', null);
+
+        if (error) {
+          console.error('[OrgBeaconCodeResolver] Failed to load beacon codes:', error);
+          return;
+        }
+
+        this.bySlug.clear();
+        this.byMajor.clear();
+        (data || []).forEach((org: any) => this.register(org));
+        this.loadedAt = Date.now();
+      } catch (error) {
+        console.error('[OrgBeaconCodeResolver] Error loading beacon codes:', error);
+      } finally {
+        this.pendingLoad = null;
+      }
+    })();
+
+    return this.pendingLoad;
+  }
+
+  /**
+   * Adds a single organization row to the cache (e.g. the active organization
+   * fetched elsewhere). Rows without a valid code are ignored.
+   */
+  static register(org: { id: string; slug: string; beacon_major?: number | null }): void {
+    if (!org?.slug || !this.isValidCode(org.beacon_major)) {
+      return;
+    }
+
+    const entry: OrgBeaconCode = {
+      orgId: org.id,
+      orgSlug: org.slug.toLowerCase(),
+      beaconMajor: org.beacon_major,
+    };
+
+    const previous = this.bySlug.get(entry.orgSlug);
+    if (previous && previous.beaconMajor !== entry.beaconMajor) {
+      this.byMajor.delete(previous.beaconMajor);
+    }
+
+    this.bySlug.set(entry.orgSlug, entry);
+    this.byMajor.set(entry.beaconMajor, entry);
+  }
+
+  /**
+   * Returns the beacon Major code for an organization slug, or 0 if unknown.
+   */
+  static getCode(orgSlug: string): number {
+    if (!orgSlug) return 0;
+    return this.bySlug.get(orgSlug.toLowerCase())?.beaconMajor ?? 0;
+  }
+
+  /**
+   * Resolves a beacon Major code back to its organization.
+   */
+  static getOrganization(beaconMajor: number): OrgBeaconCode | null {
+    return this.byMajor.get(beaconMajor) ?? null;
+  }
+
+  /**
+   * Whether a beacon Major belongs to a registered organization.
+   */
+  static isRegisteredCode(beaconMajor: number): boolean {
+    return this.byMajor.has(beaconMajor);
+  }
+
+  /**
+   * Resolves a slug, loading from the database on a cache miss.
+   */
+  static async resolveCode(orgSlug: string): Promise<number> {
+    const cached = this.getCode(orgSlug);
+    if (cached) return cached;
+
+    await this.reloadOnMiss();
+    return this.getCode(orgSlug);
+  }
+
+  /**
+   * Resolves a Major code, loading from the database on a cache miss.
+   */
+  static async resolveOrganization(beaconMajor: number): Promise<OrgBeaconCode | null> {
+    const cached = this.getOrganization(beaconMajor);
+    if (cached) return cached;
+
+    await this.reloadOnMiss();
+    return this.getOrganization(beaconMajor);
+  }
+
+  /**
+   * Clears the cache.
+   */
+  static clear(): void {
+    this.bySlug.clear();
+    this.byMajor.clear();
+    this.loadedAt = 0;
+    this.lastAttemptAt = 0;
+    this.pendingLoad = null;
+  }
+
+  private static async reloadOnMiss(): Promise<void> {
+    if (this.pendingLoad) {
+      return this.pendingLoad;
+    }
+    if (Date.now() - this.lastAttemptAt < MISS_RELOAD_INTERVAL_MS) {
+      return;
+    }
+    return this.load(true);
+  }
+
+  private static isFresh(): boolean {
+    return this.loadedAt > 0 && Date.now() - this.loadedAt < CACHE_TTL_MS;
+  }
+
+  private static isValidCode(code: unknown): code is number {
+    return typeof code === 'number' && Number.isInteger(code) && code >= 1 && code <= 0xFFFF;
+  }
+}
+
+export default OrgBeaconCodeResolver;
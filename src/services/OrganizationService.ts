@@ -2,6 +2,7 @@
 // Implements slug-to-UUID resolution and organization membership management
 
 import { supabase } from '../lib/supabaseClient';
+import { callRpc } from '../lib/supabaseRpc';
 import { 
   Organization, 
   Membership, 
@@ -10,9 +11,33 @@ import {
   DatabaseSingleResult,
   DatabaseQueryResult,
   DATABASE_TABLES,
-  MembershipValidationResult
+  MembershipValidationResult,
+  MembershipRole,
+  RosterMember,
+  MemberActivitySummary
 } from '../types/database';
 
+interface MembershipRpcResponse {
+  success: boolean;
+  message?: string;
+  membership?: Membership;
+}
+
+interface RosterRow {
+  member_id: string;
+  member_name: string;
+  email: string | null;
+  student_id: string | null;
+  grade: string | null;
+  role: MembershipRole;
+  is_active: boolean;
+  joined_at: string;
+}
+
+type MemberActivityRow = {
+  [K in keyof MemberActivitySummary]?: MemberActivitySummary[K] | null;
+};
+
 /**
  * Organization Service
  * Handles organization-related database operations with UUID support
@@ -406,7 +431,9 @@ export class OrganizationService {
   }
 
   /**
-   * Update user's role in organization
+   * Update user's role in organization (officers only)
+   * Also updates the member's default role on their profile so the change
+   * reaches their app through the memberships realtime channel.
    * @param userId - User UUID
    * @param orgId - Organization UUID
    * @param newRole - New role to assign
@@ -415,25 +442,26 @@ export class OrganizationService {
   static async updateMembershipRole(
     userId: string, 
     orgId: string, 
-    newRole: string
+    newRole: MembershipRole
   ): Promise<DatabaseSingleResult<Membership>> {
     try {
-      const { data, error } = await supabase
-        .from(DATABASE_TABLES.MEMBERSHIPS)
-        .update({ role: newRole })
-        .eq('user_id', userId)
-        .eq('org_id', orgId)
-        .eq('is_active', true)
-        .select()
-        .single();
+      const { data, error } = await callRpc<MembershipRpcResponse>('set_member_role', {
+        p_org_id: orgId,
+        p_member_id: userId,
+        p_role: newRole,
+      });
 
       if (error) {
         console.error('Error updating membership role:', error);
         return { data: null, error };
       }
 
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Failed to update role') };
+      }
+
       console.log(`✅ Updated role for user ${userId} in org ${orgId} to ${newRole}`);
-      return { data, error: null };
+      return { data: data.membership ?? null, error: null };
     } catch (error) {
       console.error('Unexpected error updating membership role:', error);
       return { data: null, error: error as Error };
@@ -441,7 +469,7 @@ export class OrganizationService {
   }
 
   /**
-   * Deactivate membership (soft delete)
+   * Deactivate membership (soft delete, officers only)
    * @param userId - User UUID
    * @param orgId - Organization UUID
    * @returns Updated membership
@@ -451,29 +479,100 @@ export class OrganizationService {
     orgId: string
   ): Promise<DatabaseSingleResult<Membership>> {
     try {
-      const { data, error } = await supabase
-        .from(DATABASE_TABLES.MEMBERSHIPS)
-        .update({ 
-          is_active: false
-        })
-        .eq('user_id', userId)
-        .eq('org_id', orgId)
-        .select()
-        .single();
+      const { data, error } = await callRpc<MembershipRpcResponse>('deactivate_member', {
+        p_org_id: orgId,
+        p_member_id: userId,
+      });
 
       if (error) {
         console.error('Error deactivating membership:', error);
         return { data: null, error };
       }
 
+      if (!data?.success) {
+        return { data: null, error: new Error(data?.message || 'Failed to deactivate member') };
+      }
+
       console.log(`✅ Deactivated membership for user ${userId} in org ${orgId}`);
-      return { data, error: null };
+      return { data: data.membership ?? null, error: null };
     } catch (error) {
       console.error('Unexpected error deactivating membership:', error);
       return { data: null, error: error as Error };
     }
   }
 
+  /**
+   * Get every membership in an organization, active first (officers only)
+   * @param orgId - Organization UUID
+   * @returns Roster members
+   */
+  static async getMemberRoster(orgId: string): Promise<DatabaseQueryResult<RosterMember>> {
+    try {
+      const { data, error } = await callRpc<RosterRow[]>('get_member_roster', { p_org_id: orgId });
+
+      if (error) {
+        console.error('Error fetching member roster:', error);
+        return { data: [], error };
+      }
+
+      return {
+        data: (data || []).map(row => ({
+          member_id: row.member_id,
+          member_name: row.member_name,
+          email: row.email ?? undefined,
+          student_id: row.student_id ?? undefined,
+          grade: row.grade ?? undefined,
+          role: row.role,
+          is_active: row.is_active,
+          joined_at: row.joined_at,
+        })),
+        error: null,
+      };
+    } catch (error) {
+      console.error('Unexpected error fetching member roster:', error);
+      return { data: [], error: error as Error };
+    }
+  }
+
+  /**
+   * Get a member's hours, attendance and recent activity (officers only)
+   * @param orgId - Organization UUID
+   * @param userId - Member UUID
+   * @returns Activity summary
+   */
+  static async getMemberActivitySummary(
+    orgId: string,
+    userId: string
+  ): Promise<DatabaseSingleResult<MemberActivitySummary>> {
+    try {
+      const { data, error } = await callRpc<MemberActivityRow>('get_member_activity_summary', {
+        p_org_id: orgId,
+        p_member_id: userId,
+      });
+
+      if (error) {
+        console.error('Error fetching member activity:', error);
+        return { data: null, error };
+      }
+
+      return {
+        data: {
+          verified_hours: Number(data?.verified_hours) || 0,
+          pending_hours: Number(data?.pending_hours) || 0,
+          rejected_count: data?.rejected_count || 0,
+          last_submitted_at: data?.last_submitted_at ?? undefined,
+          events_attended: data?.events_attended || 0,
+          last_attended_at: data?.last_attended_at ?? undefined,
+          recent_activity: data?.recent_activity || [],
+        },
+        error: null,
+      };
+    } catch (error) {
+      console.error('Unexpected error fetching member activity:', error);
+      return { data: null, error: error as Error };
+    }
+  }
+
   /**
    * Get organization statistics
    * @param orgId - Organization UUID
@@ -585,6 +684,7 @@ export class OrganizationService {
    * @param role - User role in organization
    * @param studentId - Student ID
    * @param email - User email
+   * @param verificationCode - Officer-issued verification code for the organization
    * @param firstName - Optional first name
    * @param lastName - Optional last name
    * @returns Onboarding result with profile and membership data
@@ -595,6 +695,7 @@ export class OrganizationService {
     role: string,
     studentId: string,
     email: string,
+    verificationCode: string,
     firstName?: string,
     lastName?: string
   ): Promise<{
@@ -615,6 +716,7 @@ export class OrganizationService {
           role: role,
           student_id: studentId,
           email: email,
+          verification_code: verificationCode,
           first_name: firstName,
           last_name: lastName,
         },
@@ -659,6 +761,7 @@ export class OrganizationService {
   /**
    * Check existing memberships for a user by email or student ID
    * @param email - User email
+   * @param verificationCode - Officer-issued verification code for the organization
    * @param studentId - Student ID
    * @returns Array of existing memberships
    */
@@ -727,6 +830,7 @@ export class OrganizationService {
   /**
    * Validate membership creation for multi-organization rules
    * @param email - User email
+   * @param verificationCode - Officer-issued verification code for the organization
    * @param studentId - Student ID
    * @param orgId - Target organization UUID
    * @param role - Requested role
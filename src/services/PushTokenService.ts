@@ -14,6 +14,7 @@ import { ApiResponse } from '../types/dataService';
 import { UUID } from '../types/database';
 import { TokenErrorCode, TokenErrorDetails } from '../types/notifications';
 import { notificationErrorHandler } from './NotificationErrorHandler';
+import { NotificationPreferencesService } from './NotificationPreferencesService';
 
 // =============================================================================
 // INTERFACES AND TYPES
@@ -210,6 +211,8 @@ export class PushTokenService extends BaseDataService {
 
       if (result.success) {
         this.log('info', 'Push token updated successfully in database', { userId });
+        // Quiet hours are applied server-side in this timezone
+        await NotificationPreferencesService.syncTimezone(userId);
         return {
           data: true,
           error: null,
@@ -0,0 +1,249 @@
+/**
+ * VerificationCodeService - Officer-managed signup codes
+ * Officers mint codes that grant a role, cap how many accounts can use them, expire,
+ * and can be bound to one email address. The signup edge functions enforce these
+ * rules; this service lists, creates and revokes codes for the officer screen.
+ */
+
+import { BaseDataService } from './BaseDataService';
+import { supabase } from '../lib/supabaseClient';
+import { callRpc } from '../lib/supabaseRpc';
+import {
+  ApiResponse,
+  CreateVerificationCodeRequest,
+  ManagedVerificationCode,
+  VerificationCodeRedemption,
+  VerificationCodeStatus,
+} from '../types/dataService';
+import { DATABASE_TABLES, UUID } from '../types/database';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_USES_LIMIT = 500;
+
+interface CodeRpcResponse {
+  success: boolean;
+  message?: string;
+}
+
+interface CreateCodeResponse extends CodeRpcResponse {
+  code_id: UUID;
+  code: string;
+}
+
+export class VerificationCodeService extends BaseDataService {
+  constructor() {
+    super('VerificationCodeService');
+  }
+
+  // =============================================================================
+  // CODES
+  // =============================================================================
+
+  /**
+   * Gets the organization's codes with their redemptions, newest first (officers only)
+   */
+  async getCodes(orgId: UUID): Promise<ApiResponse<ManagedVerificationCode[]>> {
+    const result = await this.executeQuery<any[]>(
+      supabase
+        .from(DATABASE_TABLES.VERIFICATION_CODES)
+        .select(`
+          id, org_id, code, label, granted_role, max_uses, use_count, bound_email,
+          expires_at, revoked_at, is_used, created_by, created_at,
+          redemptions:${DATABASE_TABLES.VERIFICATION_CODE_REDEMPTIONS}(id, user_id, email, role, redeemed_at)
+        `)
+        .eq('org_id', orgId)
+        .order('created_at', { ascending: false }),
+      'getCodes',
+      this.createPermissionContext('view_verification_codes', {
+        requiredRole: 'officer',
+        organizationId: orgId,
+      })
+    );
+
+    if (!result.success) {
+      return result as ApiResponse<any>;
+    }
+
+    return {
+      data: (result.data || []).map(row => this.transformCode(row)),
+      error: null,
+      success: true,
+    };
+  }
+
+  /**
+   * Mints a new code for the organization (officers only); the code itself is generated by the database
+   */
+  async createCode(
+    orgId: UUID,
+    request: CreateVerificationCodeRequest
+  ): Promise<ApiResponse<{ code_id: UUID; code: string }>> {
+    try {
+      const validationError = this.validateCode(request);
+      if (validationError) {
+        return {
+          data: null,
+          error: validationError,
+          success: false,
+        };
+      }
+
+      const result = await this.executeMutation<CreateCodeResponse>(
+        callRpc<CreateCodeResponse>('create_verification_code', {
+          p_org_id: orgId,
+          p_granted_role: request.granted_role,
+          p_max_uses: request.max_uses,
+          p_expires_at: request.expires_at,
+          p_bound_email: request.bound_email?.trim().toLowerCase() || null,
+          p_label: request.label?.trim() || null,
+        }),
+        'createCode',
+        this.createPermissionContext('create_verification_code', {
+          requiredRole: 'officer',
+          organizationId: orgId,
+        })
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      const response = result.data;
+      if (!response?.success) {
+        return {
+          data: null,
+          error: response?.message || 'Failed to create verification code',
+          success: false,
+        };
+      }
+
+      this.log('info', 'Verification code created', {
+        codeId: response.code_id,
+        orgId,
+        grantedRole: request.granted_role,
+        maxUses: request.max_uses,
+      });
+
+      return {
+        data: { code_id: response.code_id, code: response.code },
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to create verification code', { orgId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Revokes a code so it can no longer be redeemed; past redemptions are kept
+   */
+  async revokeCode(codeId: UUID): Promise<ApiResponse<boolean>> {
+    const result = await this.executeMutation<CodeRpcResponse>(
+      callRpc<CodeRpcResponse>('revoke_verification_code', { p_code_id: codeId }),
+      'revokeCode',
+      this.createPermissionContext('revoke_verification_code', {
+        requiredRole: 'officer',
+        resource: codeId,
+      })
+    );
+
+    if (!result.success) {
+      return {
+        data: false,
+        error: result.error,
+        success: false,
+      };
+    }
+
+    if (!result.data?.success) {
+      return {
+        data: false,
+        error: result.data?.message || 'Failed to revoke verification code',
+        success: false,
+      };
+    }
+
+    this.log('info', 'Verification code revoked', { codeId });
+
+    return {
+      data: true,
+      error: null,
+      success: true,
+    };
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  /**
+   * Validates a new code, returning an error message if invalid
+   */
+  private validateCode(request: CreateVerificationCodeRequest): string | null {
+    if (request.granted_role !== 'member' && request.granted_role !== 'officer') {
+      return 'Codes can grant the member or officer role';
+    }
+
+    if (!Number.isInteger(request.max_uses) || request.max_uses < 1 || request.max_uses > MAX_USES_LIMIT) {
+      return `Max uses must be a whole number between 1 and ${MAX_USES_LIMIT}`;
+    }
+
+    const expiresAt = new Date(request.expires_at).getTime();
+    if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+      return 'Expiry must be in the future';
+    }
+
+    const email = request.bound_email?.trim();
+    if (email && !EMAIL_REGEX.test(email)) {
+      return 'Enter a valid email address or leave it blank';
+    }
+
+    return null;
+  }
+
+  private getStatus(row: any): VerificationCodeStatus {
+    if (row.revoked_at) return 'revoked';
+    if (row.expires_at && new Date(row.expires_at).getTime() < Date.now()) return 'expired';
+    if (row.max_uses != null ? (row.use_count ?? 0) >= row.max_uses : row.is_used) return 'used_up';
+    return 'active';
+  }
+
+  private transformCode(row: any): ManagedVerificationCode {
+    const redemptions: VerificationCodeRedemption[] = (row.redemptions || [])
+      .map((redemption: any) => ({
+        id: redemption.id,
+        user_id: redemption.user_id ?? undefined,
+        email: redemption.email,
+        role: redemption.role,
+        redeemed_at: redemption.redeemed_at,
+      }))
+      .sort((a: VerificationCodeRedemption, b: VerificationCodeRedemption) =>
+        b.redeemed_at.localeCompare(a.redeemed_at));
+
+    return {
+      id: row.id,
+      org_id: row.org_id,
+      code: row.code,
+      label: row.label ?? undefined,
+      granted_role: row.granted_role ?? undefined,
+      max_uses: row.max_uses ?? undefined,
+      use_count: row.use_count ?? 0,
+      bound_email: row.bound_email ?? undefined,
+      expires_at: row.expires_at ?? undefined,
+      revoked_at: row.revoked_at ?? undefined,
+      created_by: row.created_by ?? undefined,
+      created_at: row.created_at,
+      status: this.getStatus(row),
+      redemptions,
+    };
+  }
+}
+
+// Export singleton instance
+export const verificationCodeService = new VerificationCodeService();
@@ -6,6 +6,7 @@
 
 import { BaseDataService } from './BaseDataService';
 import { supabase } from '../lib/supabaseClient';
+import { callRpc, upsertTable } from '../lib/supabaseRpc';
 import { 
   VolunteerHourData, 
   ApiResponse,
@@ -13,7 +14,8 @@ import {
 } from '../types/dataService';
 import { 
   UUID,
-  DATABASE_TABLES 
+  DATABASE_TABLES,
+  VolunteerHoursStatus
 } from '../types/database';
 
 // =============================================================================
@@ -36,24 +38,77 @@ export interface CreateVerificationRequest {
 }
 
 export interface VerificationStatusUpdate {
-  status: 'pending' | 'verified' | 'rejected';
+  status: 'pending' | 'officer_approved' | 'verified' | 'rejected';
   rejection_reason?: string;
   verified_by?: UUID;
   verified_at?: string;
 }
 
+export type VerificationAuditAction = 'created' | 'resubmitted' | 'edited' | 'officer_approved' | 'approved' | 'rejected' | 'deleted';
+
+/**
+ * One change to a volunteer hours entry. Entries are written by a database
+ * trigger on every insert, update and delete.
+ */
 export interface VerificationAuditEntry {
   id: UUID;
   request_id: UUID;
-  action: 'created' | 'approved' | 'rejected' | 'deleted';
-  performed_by: UUID;
+  org_id: UUID;
+  member_id: UUID;
+  action: VerificationAuditAction;
+  performed_by?: UUID;
+  performed_by_name?: string;
+  member_name?: string;
   performed_at: string;
   previous_status?: string;
   new_status?: string;
   rejection_reason?: string;
+  old_values?: Record<string, any>;  // Changed columns before the change
+  new_values?: Record<string, any>;  // Changed columns after the change
   metadata?: Record<string, any>;
 }
 
+export interface VerificationAuditFilters {
+  action?: VerificationAuditAction;
+  memberId?: UUID;
+  since?: string;
+  limit?: number;
+}
+
+/**
+ * Which submissions need a second officer approval. A submission needs one when
+ * it is above the hours threshold or, with include_external, is not tied to an
+ * organization event.
+ */
+export interface ApprovalPolicy {
+  org_id: UUID;
+  two_step_enabled: boolean;
+  hours_threshold: number | null;
+  include_external: boolean;
+  updated_by?: UUID;
+  updated_at?: string;
+}
+
+export type UpdateApprovalPolicyRequest = Pick<ApprovalPolicy, 'two_step_enabled' | 'hours_threshold' | 'include_external'>;
+
+/**
+ * An approval_policies row as the database returns it
+ */
+interface ApprovalPolicyRow {
+  org_id: UUID;
+  two_step_enabled: boolean;
+  hours_threshold: number | null;
+  include_external: boolean;
+  updated_by: UUID | null;
+  updated_at: string;
+}
+
+interface ApproveHoursResponse {
+  success: boolean;
+  message?: string;
+  status?: VolunteerHoursStatus;
+}
+
 export interface HoursCalculation {
   totalHours: number;
   organizationEventHours: number;
@@ -131,20 +186,6 @@ export class VerificationRequestService extends BaseDataService {
       if (result.success && result.data) {
         const transformedRequest = this.transformToVerificationRequest(result.data as any, userId);
         
-        // Create audit trail entry
-        await this.createAuditEntry({
-          request_id: transformedRequest.id,
-          action: 'created',
-          performed_by: userId,
-          performed_at: new Date().toISOString(),
-          new_status: 'pending',
-          metadata: {
-            hours: transformedRequest.hours,
-            is_organization_event: isOrganizationEvent,
-            event_id: sanitizedData.event_id
-          }
-        });
-
         this.log('info', 'Verification request created successfully', { 
           requestId: transformedRequest.id, 
           hours: transformedRequest.hours,
@@ -233,7 +274,7 @@ export class VerificationRequestService extends BaseDataService {
    */
   async getRequestsByOrganization(
     orgId?: UUID, 
-    status?: 'pending' | 'verified' | 'rejected'
+    status?: 'pending' | 'officer_approved' | 'verified' | 'rejected'
   ): Promise<ApiResponse<VerificationRequest[]>> {
     try {
       const userId = await this.getCurrentUserId();
@@ -255,6 +296,7 @@ export class VerificationRequestService extends BaseDataService {
           *,
           member:profiles!volunteer_hours_member_id_profiles_fkey(first_name, last_name, display_name, student_id),
           approver:profiles!volunteer_hours_verified_by_fkey(first_name, last_name, display_name),
+          first_approver:profiles!volunteer_hours_first_approved_by_fkey(first_name, last_name, display_name),
           event:events(id, title, event_date, starts_at)
         `)
         .eq('org_id', organizationId);
@@ -265,7 +307,7 @@ export class VerificationRequestService extends BaseDataService {
       }
 
       // Order by appropriate field based on status
-      if (status === 'pending') {
+      if (status === 'pending' || status === 'officer_approved') {
         query = query.order('submitted_at', { ascending: true });
       } else if (status === 'verified') {
         query = query.order('verified_at', { ascending: false });
@@ -347,19 +389,6 @@ export class VerificationRequestService extends BaseDataService {
         };
       }
 
-      // Create audit trail entry before deletion
-      await this.createAuditEntry({
-        request_id: requestId,
-        action: 'deleted',
-        performed_by: userId,
-        performed_at: new Date().toISOString(),
-        previous_status: existingRequest.data.status,
-        metadata: {
-          hours: existingRequest.data.hours,
-          was_organization_event: existingRequest.data.is_organization_event
-        }
-      });
-
       // Delete the request
       const result = await this.executeMutation(
         supabase
@@ -400,7 +429,7 @@ export class VerificationRequestService extends BaseDataService {
   }
 
   // =============================================================================
-  // STATUS UPDATE OPERATIONS WITH AUDIT TRAIL
+  // STATUS UPDATE OPERATIONS
   // =============================================================================
 
   /**
@@ -412,6 +441,11 @@ export class VerificationRequestService extends BaseDataService {
     status: 'pending' | 'verified' | 'rejected',
     metadata?: { rejection_reason?: string; verified_by?: UUID }
   ): Promise<ApiResponse<VerificationRequest>> {
+    // Approvals follow the organization's approval policy
+    if (status === 'verified') {
+      return this.approveRequest(requestId);
+    }
+
     try {
       const userId = await this.getCurrentUserId();
 
@@ -426,7 +460,7 @@ export class VerificationRequestService extends BaseDataService {
       }
 
       // Verify permissions for status changes
-      if (status === 'verified' || status === 'rejected') {
+      if (status === 'rejected') {
         const hasOfficerPermissions = await this.hasOfficerPermissions(userId, existingRequest.data.org_id);
         if (!hasOfficerPermissions) {
           return {
@@ -444,13 +478,6 @@ export class VerificationRequestService extends BaseDataService {
         verified_at: new Date().toISOString(),
       };
 
-      // Handle verification
-      if (status === 'verified') {
-        updateData.approved = true;
-        updateData.approved_by = userId;
-        updateData.approved_at = new Date().toISOString();
-      }
-
       // Handle rejection
       if (status === 'rejected') {
         updateData.rejection_reason = metadata?.rejection_reason || 'No reason provided';
@@ -476,26 +503,6 @@ export class VerificationRequestService extends BaseDataService {
       if (result.success && result.data) {
         const updatedRequest = this.transformToVerificationRequest(result.data as any, (result.data as any).member_id);
         
-        // Create audit trail entry
-        await this.createAuditEntry({
-          request_id: requestId,
-          action: status === 'verified' ? 'approved' : 'rejected',
-          performed_by: userId,
-          performed_at: new Date().toISOString(),
-          previous_status: existingRequest.data.status,
-          new_status: status,
-          rejection_reason: metadata?.rejection_reason,
-          metadata: {
-            hours: updatedRequest.hours,
-            is_organization_event: updatedRequest.is_organization_event
-          }
-        });
-
-        // If verified, update member's total hours
-        if (status === 'verified') {
-          await this.updateMemberHours(updatedRequest.member_id, updatedRequest.org_id);
-        }
-
         this.log('info', 'Request status updated successfully', { 
           requestId, 
           status,
@@ -526,6 +533,323 @@ export class VerificationRequestService extends BaseDataService {
     }
   }
 
+  /**
+   * Approves a request. When the organization's policy requires two approvals,
+   * the first moves it to officer_approved and a different officer verifies it.
+   * The approve_volunteer_hours RPC enforces the policy.
+   */
+  async approveRequest(requestId: UUID): Promise<ApiResponse<VerificationRequest>> {
+    try {
+      const userId = await this.getCurrentUserId();
+
+      const result = await this.executeMutation<ApproveHoursResponse>(
+        callRpc<ApproveHoursResponse>('approve_volunteer_hours', { p_hour_id: requestId }),
+        'approveRequest'
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      const response = result.data;
+      if (!response?.success) {
+        return {
+          data: null,
+          error: response?.message || 'Failed to approve verification request',
+          success: false,
+        };
+      }
+
+      const updatedRequest = await this.getRequestById(requestId);
+      if (!updatedRequest.success || !updatedRequest.data) {
+        return updatedRequest;
+      }
+
+      const request = updatedRequest.data;
+      const isFirstStep = response.status === 'officer_approved';
+
+      if (!isFirstStep) {
+        await this.updateMemberHours(request.member_id, request.org_id);
+      }
+
+      this.log('info', 'Request approved', {
+        requestId,
+        status: response.status,
+        approvedBy: userId,
+        memberId: request.member_id
+      });
+
+      return {
+        data: request,
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to approve request', { requestId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  // =============================================================================
+  // APPROVAL POLICIES
+  // =============================================================================
+
+  /**
+   * Gets an organization's approval policy. Organizations without one use
+   * single-step approval.
+   */
+  async getApprovalPolicy(orgId?: UUID): Promise<ApiResponse<ApprovalPolicy>> {
+    try {
+      const organizationId = orgId || await this.getCurrentOrganizationId();
+
+      const result = await this.executeQuery<ApprovalPolicyRow | null>(
+        supabase
+          .from(DATABASE_TABLES.APPROVAL_POLICIES)
+          .select('*')
+          .eq('org_id', organizationId)
+          .maybeSingle(),
+        'getApprovalPolicy'
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      const policy = result.data;
+      return {
+        data: {
+          org_id: organizationId,
+          two_step_enabled: policy?.two_step_enabled ?? false,
+          hours_threshold: policy?.hours_threshold != null ? Number(policy.hours_threshold) : null,
+          include_external: policy?.include_external ?? false,
+          updated_by: policy?.updated_by ?? undefined,
+          updated_at: policy?.updated_at,
+        },
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to get approval policy', { orgId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Creates or replaces an organization's approval policy (officers only)
+   */
+  async updateApprovalPolicy(
+    policy: UpdateApprovalPolicyRequest,
+    orgId?: UUID
+  ): Promise<ApiResponse<ApprovalPolicy>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      const organizationId = orgId || await this.getCurrentOrganizationId();
+
+      const validationError = this.validateApprovalPolicy(policy);
+      if (validationError) {
+        return {
+          data: null,
+          error: validationError,
+          success: false,
+        };
+      }
+
+      const hasPermissions = await this.hasOfficerPermissions(userId, organizationId);
+      if (!hasPermissions) {
+        return {
+          data: null,
+          error: 'Permission denied: Officer access required',
+          success: false,
+        };
+      }
+
+      const policyData: Omit<ApprovalPolicyRow, 'updated_at'> = this.sanitizeInput({
+        org_id: organizationId,
+        two_step_enabled: policy.two_step_enabled,
+        hours_threshold: policy.hours_threshold,
+        include_external: policy.include_external,
+        updated_by: userId,
+      });
+
+      const result = await this.executeMutation<ApprovalPolicyRow>(
+        upsertTable(DATABASE_TABLES.APPROVAL_POLICIES, policyData, { onConflict: 'org_id' })
+          .select('*')
+          .single(),
+        'updateApprovalPolicy'
+      );
+
+      if (!result.success || !result.data) {
+        return {
+          data: null,
+          error: result.error || 'Failed to save approval policy',
+          success: false,
+        };
+      }
+
+      const saved = result.data;
+      this.log('info', 'Approval policy updated', { orgId: organizationId, updatedBy: userId });
+
+      return {
+        data: {
+          org_id: saved.org_id,
+          two_step_enabled: saved.two_step_enabled,
+          hours_threshold: saved.hours_threshold != null ? Number(saved.hours_threshold) : null,
+          include_external: saved.include_external,
+          updated_by: saved.updated_by ?? undefined,
+          updated_at: saved.updated_at,
+        },
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to update approval policy', { orgId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Whether a request needs a second approval under a policy. Mirrors the
+   * requires_second_approval database function.
+   */
+  requiresSecondApproval(
+    request: Pick<VerificationRequest, 'hours' | 'event_id' | 'is_organization_event'>,
+    policy: ApprovalPolicy
+  ): boolean {
+    if (!policy.two_step_enabled) {
+      return false;
+    }
+
+    const overThreshold = policy.hours_threshold !== null && request.hours > policy.hours_threshold;
+    const isExternal = !request.event_id && !request.is_organization_event;
+
+    return overThreshold || (policy.include_external && isExternal);
+  }
+
+  // =============================================================================
+  // AUDIT TRAIL
+  // =============================================================================
+
+  /**
+   * Gets the history of a single request, oldest change first. Members can
+   * read their own entries' history; officers can read any in their organization.
+   */
+  async getAuditTrail(requestId: UUID): Promise<ApiResponse<VerificationAuditEntry[]>> {
+    try {
+      const result = await this.executeQuery<any[]>(
+        supabase
+          .from(DATABASE_TABLES.VOLUNTEER_HOURS_AUDIT)
+          .select(`
+            *,
+            performer:profiles!volunteer_hours_audit_performed_by_fkey(first_name, last_name, display_name)
+          `)
+          .eq('volunteer_hour_id', requestId)
+          .order('performed_at', { ascending: true }),
+        'getAuditTrail'
+      );
+
+      if (!result.success) {
+        return result;
+      }
+
+      return {
+        data: (result.data || []).map((entry: any) => this.transformAuditEntry(entry)),
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to get audit trail', { requestId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Gets an organization's audit log, most recent change first (officers only)
+   */
+  async getAuditLog(
+    orgId?: UUID,
+    filters: VerificationAuditFilters = {}
+  ): Promise<ApiResponse<VerificationAuditEntry[]>> {
+    try {
+      const userId = await this.getCurrentUserId();
+      const organizationId = orgId || await this.getCurrentOrganizationId();
+
+      const hasPermissions = await this.hasOfficerPermissions(userId, organizationId);
+      if (!hasPermissions) {
+        return {
+          data: null,
+          error: 'Permission denied: Officer access required',
+          success: false,
+        };
+      }
+
+      let query = supabase
+        .from(DATABASE_TABLES.VOLUNTEER_HOURS_AUDIT)
+        .select(`
+          *,
+          performer:profiles!volunteer_hours_audit_performed_by_fkey(first_name, last_name, display_name),
+          member:profiles!volunteer_hours_audit_member_id_fkey(first_name, last_name, display_name)
+        `)
+        .eq('org_id', organizationId);
+
+      if (filters.action) {
+        query = query.eq('action', filters.action);
+      }
+
+      if (filters.memberId) {
+        query = query.eq('member_id', filters.memberId);
+      }
+
+      if (filters.since) {
+        query = query.gte('performed_at', filters.since);
+      }
+
+      const result = await this.executeQuery<any[]>(
+        query
+          .order('performed_at', { ascending: false })
+          .limit(filters.limit ?? 100),
+        'getAuditLog'
+      );
+
+      if (!result.success) {
+        return result;
+      }
+
+      return {
+        data: (result.data || []).map((entry: any) => this.transformAuditEntry(entry)),
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to get audit log', { orgId, filters, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
   // =============================================================================
   // REAL-TIME HOURS CALCULATION
   // =============================================================================
@@ -571,6 +895,7 @@ export class VerificationRequestService extends BaseDataService {
         // Add to status-specific totals
         switch (request.status) {
           case 'pending':
+          case 'officer_approved':
             calculation.pendingHours += hours;
             break;
           case 'verified':
@@ -676,7 +1001,7 @@ export class VerificationRequestService extends BaseDataService {
         
         if (request.status === 'verified') {
           verifiedOrganizationEventHours += hours;
-        } else if (request.status === 'pending') {
+        } else if (request.status === 'pending' || request.status === 'officer_approved') {
           pendingOrganizationEventHours += hours;
         }
       });
@@ -716,6 +1041,7 @@ export class VerificationRequestService extends BaseDataService {
           *,
           member:profiles!volunteer_hours_member_id_profiles_fkey(first_name, last_name, display_name),
           approver:profiles!volunteer_hours_verified_by_fkey(first_name, last_name, display_name),
+          first_approver:profiles!volunteer_hours_first_approved_by_fkey(first_name, last_name, display_name),
           event:events(id, title, event_date, starts_at)
         `)
         .eq('id', requestId)
@@ -782,31 +1108,26 @@ export class VerificationRequestService extends BaseDataService {
   }
 
   /**
-   * Creates an audit trail entry
+   * Transforms a volunteer_hours_audit row to a VerificationAuditEntry
    */
-  private async createAuditEntry(entry: Omit<VerificationAuditEntry, 'id'>): Promise<void> {
-    try {
-      // Note: This assumes there's an audit_trail table
-      // If not implemented yet, this could be stored in a separate audit system
-      // or as metadata in the volunteer_hours table
-      
-      const auditData = {
-        ...entry,
-        id: crypto.randomUUID(),
-      };
-
-      // For now, we'll log the audit entry
-      // In a full implementation, this would be stored in an audit_trail table
-      this.log('info', 'Audit trail entry', auditData);
-      
-      // TODO: Implement actual audit trail storage when audit_trail table is available
-      // await supabase.from('audit_trail').insert(auditData);
-    } catch (error) {
-      this.log('error', 'Failed to create audit entry', { 
-        entry, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      });
-    }
+  private transformAuditEntry(entry: any): VerificationAuditEntry {
+    return {
+      id: entry.id,
+      request_id: entry.volunteer_hour_id,
+      org_id: entry.org_id,
+      member_id: entry.member_id,
+      action: entry.action,
+      performed_by: entry.performed_by ?? undefined,
+      performed_by_name: entry.performer ? this.buildDisplayName(entry.performer) : undefined,
+      member_name: entry.member ? this.buildDisplayName(entry.member) : undefined,
+      performed_at: entry.performed_at,
+      previous_status: entry.previous_status ?? undefined,
+      new_status: entry.new_status ?? undefined,
+      rejection_reason: entry.rejection_reason ?? undefined,
+      old_values: entry.old_values ?? undefined,
+      new_values: entry.new_values ?? undefined,
+      metadata: entry.metadata ?? undefined,
+    };
   }
 
   /**
@@ -832,8 +1153,11 @@ export class VerificationRequestService extends BaseDataService {
       rejection_reason: data.rejection_reason,
       verified_by: data.verified_by,
       verified_at: data.verified_at,
+      first_approved_by: data.first_approved_by,
+      first_approved_at: data.first_approved_at,
       member_name: data.member ? this.buildDisplayName(data.member) : undefined,
       approver_name: data.approver ? this.buildDisplayName(data.approver) : undefined,
+      first_approver_name: data.first_approver ? this.buildDisplayName(data.first_approver) : undefined,
       event_name: data.event ? data.event.title : undefined,
       can_edit: !data.approved && data.member_id === currentUserId,
     };
@@ -887,6 +1211,24 @@ export class VerificationRequestService extends BaseDataService {
     }
   }
 
+  /**
+   * Validates an approval policy, returning an error message when invalid
+   */
+  private validateApprovalPolicy(policy: UpdateApprovalPolicyRequest): string | null {
+    if (policy.hours_threshold !== null) {
+      if (typeof policy.hours_threshold !== 'number' || isNaN(policy.hours_threshold) ||
+          policy.hours_threshold <= 0 || policy.hours_threshold > 24) {
+        return 'Hours threshold must be between 0 and 24';
+      }
+    }
+
+    if (policy.two_step_enabled && policy.hours_threshold === null && !policy.include_external) {
+      return 'Set an hours threshold or include external activities';
+    }
+
+    return null;
+  }
+
   /**
    * Builds display name from profile data
    */
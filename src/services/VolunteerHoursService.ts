@@ -6,12 +6,17 @@
 
 import { BaseDataService } from './BaseDataService';
 import { supabase } from '../lib/supabaseClient';
+import { callRpc } from '../lib/supabaseRpc';
 import { 
   VolunteerHourData, 
   CreateVolunteerHourRequest, 
   UpdateVolunteerHourRequest,
   VolunteerHourFilters,
   ApiResponse,
+  BulkReviewResult,
+  RejectionReasonTemplate,
+  VolunteerHoursReviewAction,
+  SupervisorSignOffRequest,
   isVolunteerHourData 
 } from '../types/dataService';
 import { 
@@ -20,6 +25,18 @@ import {
   DATABASE_TABLES 
 } from '../types/database';
 import { notificationService } from './NotificationService';
+import { verificationRequestService } from './VerificationRequestService';
+
+interface ResubmitHoursResponse {
+  success: boolean;
+  message?: string;
+  hour_id?: UUID;
+}
+
+interface BulkReviewResponse extends Partial<BulkReviewResult> {
+  success: boolean;
+  message?: string;
+}
 
 export class VolunteerHoursService extends BaseDataService {
   constructor() {
@@ -153,35 +170,7 @@ export class VolunteerHoursService extends BaseDataService {
         });
 
         // Send push notifications via Edge Function (like announcements)
-        try {
-          console.log('🔔 Sending volunteer hours notification via Edge Function...');
-          
-          const { data, error } = await supabase.functions.invoke('send-volunteer-hours-notification', {
-            body: {
-              type: 'INSERT',
-              table: 'volunteer_hours',
-              record: {
-                id: transformedHour.id,
-                org_id: transformedHour.org_id,
-                member_id: transformedHour.member_id,
-                hours: transformedHour.hours,
-                description: transformedHour.description,
-                activity_date: transformedHour.activity_date,
-                submitted_at: transformedHour.submitted_at
-              },
-              schema: 'public'
-            }
-          });
-
-          if (error) {
-            console.error('❌ Volunteer hours notification failed:', error);
-          } else {
-            console.log('✅ Volunteer hours notification sent:', data);
-          }
-        } catch (error) {
-          console.error('❌ Volunteer hours notification error:', error);
-          // Don't fail submission if notification fails
-        }
+        await this.notifyOfficersOfSubmission(transformedHour);
 
         return {
           data: transformedHour,
@@ -299,6 +288,132 @@ export class VolunteerHoursService extends BaseDataService {
     }
   }
 
+  /**
+   * Resubmits rejected volunteer hours as a new pending entry linked to the
+   * rejected one, which is kept unchanged for reviewers to compare against
+   */
+  async resubmitVolunteerHours(
+    previousVersionId: UUID,
+    hourData: CreateVolunteerHourRequest
+  ): Promise<ApiResponse<VolunteerHourData>> {
+    try {
+      this.validateRequiredFields(hourData, ['hours']);
+      this.validateVolunteerHourSubmission(hourData);
+
+      const sanitizedData = this.sanitizeInput(hourData);
+
+      const result = await this.executeMutation<ResubmitHoursResponse>(
+        callRpc<ResubmitHoursResponse>('resubmit_volunteer_hours', {
+          p_hour_id: previousVersionId,
+          p_hours: sanitizedData.hours,
+          p_activity_date: sanitizedData.activity_date || new Date().toISOString().split('T')[0],
+          p_description: sanitizedData.description ?? null,
+          p_event_id: sanitizedData.event_id ?? null,
+          p_image_url: sanitizedData.image_url ?? null,
+        }),
+        'resubmitVolunteerHours'
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      const response = result.data;
+      if (!response?.success || !response.hour_id) {
+        return {
+          data: null,
+          error: response?.message || 'Failed to resubmit volunteer hours',
+          success: false,
+        };
+      }
+
+      const newHour = await this.getVolunteerHourById(response.hour_id);
+      if (!newHour.success || !newHour.data) {
+        return newHour;
+      }
+
+      this.log('info', 'Volunteer hours resubmitted successfully', {
+        hourId: newHour.data.id,
+        previousVersionId,
+        hours: newHour.data.hours,
+      });
+
+      await this.notifyOfficersOfSubmission(newHour.data);
+
+      return newHour;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to resubmit volunteer hours', { previousVersionId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Emails the supervisor of an external activity a single-use link to confirm
+   * or deny the hours. Sending again replaces any earlier link.
+   */
+  async requestSupervisorSignOff(
+    hourId: UUID,
+    request: SupervisorSignOffRequest
+  ): Promise<ApiResponse<{ expires_at: string }>> {
+    const supervisorName = request.supervisor_name.trim();
+    const supervisorEmail = request.supervisor_email.trim().toLowerCase();
+
+    if (!supervisorName) {
+      return {
+        data: null,
+        error: 'Supervisor name is required',
+        success: false,
+      };
+    }
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(supervisorEmail)) {
+      return {
+        data: null,
+        error: 'Enter a valid supervisor email address',
+        success: false,
+      };
+    }
+
+    try {
+      const { data, error } = await supabase.functions.invoke('supervisor-sign-off', {
+        body: {
+          hour_id: hourId,
+          supervisor_name: supervisorName,
+          supervisor_email: supervisorEmail,
+        },
+      });
+
+      if (error || !data?.success) {
+        return {
+          data: null,
+          error: data?.error || error?.message || 'Failed to email the supervisor',
+          success: false,
+        };
+      }
+
+      this.log('info', 'Supervisor sign-off requested', { hourId });
+
+      return {
+        data: { expires_at: data.expires_at },
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to request supervisor sign-off', { hourId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
   /**
    * ⚡ BLAZING FAST pending approvals with single optimized query
    * Requirements: 3.2, 5.2
@@ -323,6 +438,21 @@ export class VolunteerHoursService extends BaseDataService {
             display_name, 
             student_id
           ),
+          first_approver:profiles!volunteer_hours_first_approved_by_fkey(
+            first_name, 
+            last_name, 
+            display_name
+          ),
+          previous_version:volunteer_hours!volunteer_hours_previous_version_id_fkey(
+            id,
+            hours,
+            description,
+            activity_date,
+            event_id,
+            image_url,
+            rejection_reason,
+            event:events(title)
+          ),
           event:events(
             id, 
             title, 
@@ -599,72 +729,64 @@ export class VolunteerHoursService extends BaseDataService {
         };
       }
 
-      // Approve the volunteer hours
-      const approvalData = {
-        approved: true,
-        status: 'verified' as const,
-        approved_by: userId,
-        approved_at: new Date().toISOString(),
-        verified_by: userId,
-        verified_at: new Date().toISOString(),
-      };
-
-      const result = await this.executeMutation(
-        supabase
-          .from(DATABASE_TABLES.VOLUNTEER_HOURS)
-          .update(approvalData)
-          .eq('id', hourId)
-          .select(`
-            *,
-            member:profiles!volunteer_hours_member_id_profiles_fkey(first_name, last_name, display_name),
-            approver:profiles!volunteer_hours_verified_by_fkey(first_name, last_name, display_name),
-            event:events(id, title, event_date, starts_at)
-          `)
-          .single(),
-        'approveVolunteerHours'
-      );
+      // Approval follows the organization's approval policy and may only be the first of two steps
+      const result = await verificationRequestService.approveRequest(hourId);
 
       if (result.success && result.data) {
-        const hourData = result.data as any;
-        const transformedHour = this.transformVolunteerHourData(hourData, hourData.member_id);
-        
+        const approvedHour: VolunteerHourData = result.data;
+
+        if (approvedHour.status === 'officer_approved') {
+          this.log('info', 'Volunteer hours awaiting second approval', {
+            hourId,
+            firstApprovedBy: userId,
+            memberId: approvedHour.member_id,
+            hours: approvedHour.hours
+          });
+
+          return {
+            data: approvedHour,
+            error: null,
+            success: true,
+          };
+        }
+
         this.log('info', 'Volunteer hours approved successfully', { 
           hourId, 
           approvedBy: userId,
-          memberId: hourData.member_id,
-          hours: hourData.hours
+          memberId: approvedHour.member_id,
+          hours: approvedHour.hours
         });
 
         // Add to volunteer hours batch queue for batched notifications (Requirement 12.3)
         try {
           const { notificationRateLimitingService } = await import('./NotificationRateLimitingService');
           const batchResult = await notificationRateLimitingService.addToVolunteerHoursBatch(
-            hourData.member_id,
-            hourData.org_id,
+            approvedHour.member_id,
+            approvedHour.org_id,
             hourId
           );
           
           if (batchResult.success) {
             this.log('info', 'Volunteer hours approval added to batch queue', {
               hourId,
-              memberId: hourData.member_id
+              memberId: approvedHour.member_id
             });
           } else {
             this.log('warn', 'Failed to add volunteer hours approval to batch queue, sending individual notification', {
               hourId,
-              memberId: hourData.member_id,
+              memberId: approvedHour.member_id,
               error: batchResult.error
             });
             
             // Fallback to individual notification if batching fails
             const notificationResult = await notificationService.sendVolunteerHoursNotification(
-              transformedHour, 
+              approvedHour, 
               'approved'
             );
             if (!notificationResult.success) {
               this.log('warn', 'Failed to send individual volunteer hours approval notification', {
                 hourId,
-                memberId: hourData.member_id,
+                memberId: approvedHour.member_id,
                 error: notificationResult.error
               });
             }
@@ -673,13 +795,13 @@ export class VolunteerHoursService extends BaseDataService {
           // Don't fail the approval if notification fails
           this.log('error', 'Volunteer hours approval notification error', {
             hourId,
-            memberId: hourData.member_id,
+            memberId: approvedHour.member_id,
             error: notificationError instanceof Error ? notificationError.message : 'Unknown error'
           });
         }
 
         return {
-          data: transformedHour,
+          data: approvedHour,
           error: null,
           success: true,
         };
@@ -814,6 +936,29 @@ export class VolunteerHoursService extends BaseDataService {
     }
   }
 
+  /**
+   * Approves a set of pending volunteer hours in one transaction (officer only).
+   * Members get one combined notification through the volunteer hours batch queue.
+   */
+  async bulkApproveVolunteerHours(hourIds: UUID[]): Promise<ApiResponse<BulkReviewResult>> {
+    return this.bulkReviewVolunteerHours(hourIds, 'approve');
+  }
+
+  /**
+   * Rejects a set of pending volunteer hours with one shared reason (officer only)
+   */
+  async bulkRejectVolunteerHours(hourIds: UUID[], reason: string): Promise<ApiResponse<BulkReviewResult>> {
+    if (!reason?.trim()) {
+      return {
+        data: null,
+        error: 'A rejection reason is required',
+        success: false,
+      };
+    }
+
+    return this.bulkReviewVolunteerHours(hourIds, 'reject', reason.trim());
+  }
+
   /**
    * Deletes volunteer hours (member can delete their own pending/rejected requests)
    * Requirements: 4.1, 4.2
@@ -1083,10 +1228,232 @@ export class VolunteerHoursService extends BaseDataService {
     }
   }
 
+  // =============================================================================
+  // REJECTION REASON TEMPLATES
+  // =============================================================================
+
+  /**
+   * Gets the organization's saved rejection reasons (officer only)
+   */
+  async getRejectionReasonTemplates(orgId: UUID): Promise<ApiResponse<RejectionReasonTemplate[]>> {
+    const result = await this.executeQuery<any[]>(
+      supabase
+        .from(DATABASE_TABLES.REJECTION_REASON_TEMPLATES)
+        .select('*')
+        .eq('org_id', orgId)
+        .order('label', { ascending: true }),
+      'getRejectionReasonTemplates'
+    );
+
+    if (!result.success) {
+      return result as ApiResponse<any>;
+    }
+
+    return {
+      data: (result.data || []) as RejectionReasonTemplate[],
+      error: null,
+      success: true,
+    };
+  }
+
+  /**
+   * Saves a reusable rejection reason for the organization (officer only)
+   */
+  async createRejectionReasonTemplate(
+    orgId: UUID,
+    label: string,
+    reason: string
+  ): Promise<ApiResponse<RejectionReasonTemplate>> {
+    try {
+      if (!label.trim() || !reason.trim()) {
+        return {
+          data: null,
+          error: 'A template needs a label and a reason',
+          success: false,
+        };
+      }
+
+      const userId = await this.getCurrentUserId();
+      const templateData = this.sanitizeInput({
+        org_id: orgId,
+        label: label.trim(),
+        reason: reason.trim(),
+        created_by: userId,
+      });
+
+      const result = await this.executeMutation<any>(
+        supabase
+          .from(DATABASE_TABLES.REJECTION_REASON_TEMPLATES)
+          .insert(templateData)
+          .select('*')
+          .single(),
+        'createRejectionReasonTemplate',
+        this.createPermissionContext('create_rejection_reason_template', {
+          requiredRole: 'officer',
+          organizationId: orgId,
+        })
+      );
+
+      if (!result.success || !result.data) {
+        return result as ApiResponse<any>;
+      }
+
+      this.log('info', 'Rejection reason template created', { templateId: result.data.id, orgId });
+
+      return {
+        data: result.data as RejectionReasonTemplate,
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to create rejection reason template', { orgId, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Removes a saved rejection reason (officer only)
+   */
+  async deleteRejectionReasonTemplate(templateId: UUID): Promise<ApiResponse<boolean>> {
+    const result = await this.executeMutation<any>(
+      supabase
+        .from(DATABASE_TABLES.REJECTION_REASON_TEMPLATES)
+        .delete()
+        .eq('id', templateId),
+      'deleteRejectionReasonTemplate',
+      this.createPermissionContext('delete_rejection_reason_template', {
+        requiredRole: 'officer',
+        resource: templateId,
+      })
+    );
+
+    if (!result.success) {
+      return {
+        data: false,
+        error: result.error,
+        success: false,
+      };
+    }
+
+    return {
+      data: true,
+      error: null,
+      success: true,
+    };
+  }
+
   // =============================================================================
   // PRIVATE HELPER METHODS
   // =============================================================================
 
+  /**
+   * Runs bulk_review_volunteer_hours, which checks and updates every entry in a
+   * single transaction and queues one notification per member
+   */
+  private async bulkReviewVolunteerHours(
+    hourIds: UUID[],
+    action: VolunteerHoursReviewAction,
+    reason?: string
+  ): Promise<ApiResponse<BulkReviewResult>> {
+    if (hourIds.length === 0) {
+      return {
+        data: null,
+        error: 'Select at least one submission',
+        success: false,
+      };
+    }
+
+    try {
+      const result = await this.executeMutation<BulkReviewResponse>(
+        callRpc<BulkReviewResponse>('bulk_review_volunteer_hours', {
+          p_hour_ids: hourIds,
+          p_action: action,
+          p_reason: reason ?? null,
+        }),
+        'bulkReviewVolunteerHours'
+      );
+
+      if (!result.success) {
+        return { data: null, error: result.error, success: false };
+      }
+
+      const response = result.data;
+      if (!response?.success) {
+        return {
+          data: null,
+          error: response?.message || `Failed to ${action} volunteer hours`,
+          success: false,
+        };
+      }
+
+      this.log('info', 'Volunteer hours bulk reviewed', {
+        action,
+        updatedCount: response.updated_count,
+        memberCount: response.member_count,
+      });
+
+      return {
+        data: {
+          action: response.action ?? action,
+          updated_count: response.updated_count ?? 0,
+          awaiting_second_approval_count: response.awaiting_second_approval_count ?? 0,
+          member_count: response.member_count ?? 0,
+        },
+        error: null,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to bulk review volunteer hours', { action, count: hourIds.length, error: errorMessage });
+      return {
+        data: null,
+        error: errorMessage,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Notifies the organization's officers of a new submission via Edge Function.
+   * Failures are logged and never fail the submission.
+   */
+  private async notifyOfficersOfSubmission(transformedHour: VolunteerHourData): Promise<void> {
+    try {
+      console.log('🔔 Sending volunteer hours notification via Edge Function...');
+      
+      const { data, error } = await supabase.functions.invoke('send-volunteer-hours-notification', {
+        body: {
+          type: 'INSERT',
+          table: 'volunteer_hours',
+          record: {
+            id: transformedHour.id,
+            org_id: transformedHour.org_id,
+            member_id: transformedHour.member_id,
+            hours: transformedHour.hours,
+            description: transformedHour.description,
+            activity_date: transformedHour.activity_date,
+            submitted_at: transformedHour.submitted_at
+          },
+          schema: 'public'
+        }
+      });
+
+      if (error) {
+        console.error('❌ Volunteer hours notification failed:', error);
+      } else {
+        console.log('✅ Volunteer hours notification sent:', data);
+      }
+    } catch (error) {
+      console.error('❌ Volunteer hours notification error:', error);
+      // Don't fail submission if notification fails
+    }
+  }
+
   /**
    * Gets a single volunteer hour record by ID
    */
@@ -1098,6 +1465,9 @@ export class VolunteerHoursService extends BaseDataService {
           *,
           member:profiles!volunteer_hours_member_id_profiles_fkey(first_name, last_name, display_name),
           approver:profiles!volunteer_hours_verified_by_fkey(first_name, last_name, display_name),
+          previous_version:volunteer_hours!volunteer_hours_previous_version_id_fkey(
+            id, hours, description, activity_date, event_id, image_url, rejection_reason, event:events(title)
+          ),
           event:events(id, title, event_date, starts_at)
         `)
         .eq('id', hourId)
@@ -1154,11 +1524,31 @@ export class VolunteerHoursService extends BaseDataService {
       rejection_reason: hour.rejection_reason,
       verified_by: hour.verified_by || hour.approved_by,
       verified_at: hour.verified_at || hour.approved_at,
+      first_approved_by: hour.first_approved_by,
+      first_approved_at: hour.first_approved_at,
+      previous_version_id: hour.previous_version_id,
+      supervisor_name: hour.supervisor_name,
+      supervisor_email: hour.supervisor_email,
+      supervisor_status: hour.supervisor_status,
+      supervisor_requested_at: hour.supervisor_requested_at,
+      supervisor_responded_at: hour.supervisor_responded_at,
+      supervisor_comment: hour.supervisor_comment,
       // Computed fields
       member_name: hour.member ? this.buildDisplayName(hour.member) : undefined,
       approver_name: hour.approver ? this.buildDisplayName(hour.approver) : undefined,
+      first_approver_name: hour.first_approver ? this.buildDisplayName(hour.first_approver) : undefined,
       event_name: hour.event ? hour.event.title : undefined,
       can_edit: !hour.approved && hour.member_id === currentUserId,
+      previous_version: hour.previous_version ? {
+        id: hour.previous_version.id,
+        hours: hour.previous_version.hours,
+        description: hour.previous_version.description,
+        activity_date: hour.previous_version.activity_date,
+        event_id: hour.previous_version.event_id,
+        event_name: hour.previous_version.event ? hour.previous_version.event.title : undefined,
+        image_url: hour.previous_version.image_url,
+        rejection_reason: hour.previous_version.rejection_reason,
+      } : undefined,
     };
 
     // Validate the transformed data
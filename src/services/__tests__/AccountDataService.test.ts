@@ -0,0 +1,137 @@
+/**
+ * AccountDataService Tests
+ * Tests data export, deletion scheduling and cancellation results
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+    auth: {
+      getUser: jest.fn(),
+    },
+    functions: {
+      invoke: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () =>
+  require('../../__tests__/helpers/serviceTestUtils').mockPermissionErrorHandlerModule()
+);
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+import { AccountDataService } from '../AccountDataService';
+import { supabase } from '../../lib/supabaseClient';
+import { formatAccountExport } from '../../utils/accountExportUtils';
+import { createQueryBuilder } from '../../__tests__/helpers/serviceTestUtils';
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+const mockGetUser = supabase.auth.getUser as jest.Mock;
+const mockInvoke = supabase.functions.invoke as jest.Mock;
+
+const sampleExport = {
+  generated_at: '2026-01-15T12:00:00Z',
+  profile: { id: 'user-1', first_name: 'Ada', last_name: 'Lovelace' },
+  memberships: [{ organization: 'Lincoln NHS', role: 'member', is_active: true, joined_at: '2025-09-01T00:00:00Z' }],
+  attendance: [],
+  volunteer_hours: [{ id: 'hour-1', hours: 2, description: 'Food bank, "Saturday" shift', image_path: 'proof/hour-1.jpg' }],
+  event_rsvps: [],
+  images: [{ volunteer_hour_id: 'hour-1', path: 'proof/hour-1.jpg', url: 'https://r2.example/signed', expires_at: '2026-01-16T12:00:00Z' }],
+};
+
+describe('AccountDataService', () => {
+  let service: AccountDataService;
+
+  beforeEach(() => {
+    service = new AccountDataService();
+    mockFrom.mockReset();
+    mockRpc.mockReset();
+    mockInvoke.mockReset();
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+  });
+
+  describe('exportMyData', () => {
+    it('should return the export from the edge function', async () => {
+      mockInvoke.mockResolvedValueOnce({ data: { success: true, export: sampleExport }, error: null });
+
+      const result = await service.exportMyData();
+
+      expect(mockInvoke).toHaveBeenCalledWith('export-account-data', { body: {} });
+      expect(result).toEqual({ data: sampleExport, error: null, success: true });
+    });
+
+    it('should surface the function error', async () => {
+      mockInvoke.mockResolvedValueOnce({ data: { success: false, error: 'User not authenticated' }, error: null });
+
+      const result = await service.exportMyData();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('User not authenticated');
+    });
+  });
+
+  describe('formatAccountExport', () => {
+    it('should write one CSV table per section and quote values with commas or quotes', () => {
+      const csv = formatAccountExport(sampleExport, 'csv');
+
+      expect(csv).toContain('Memberships\r\norganization,role,is_active,joined_at\r\nLincoln NHS,member,true,2025-09-01T00:00:00Z');
+      expect(csv).toContain('"Food bank, ""Saturday"" shift"');
+      expect(csv).toContain('Attendance\r\nNone');
+    });
+  });
+
+  describe('getDeletionRequest', () => {
+    it('should look up the current user\'s scheduled deletion', async () => {
+      const request = { id: 'req-1', requested_at: '2026-01-01T00:00:00Z', scheduled_for: '2026-01-15T00:00:00Z', status: 'scheduled' };
+      const builder = createQueryBuilder({ data: request, error: null });
+      mockFrom.mockReturnValueOnce(builder);
+
+      const result = await service.getDeletionRequest();
+
+      expect(mockFrom).toHaveBeenCalledWith('account_deletion_requests');
+      expect(builder.eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(builder.eq).toHaveBeenCalledWith('status', 'scheduled');
+      expect(result.data).toEqual(request);
+    });
+  });
+
+  describe('requestDeletion', () => {
+    it('should return the scheduled request', async () => {
+      const request = { id: 'req-1', requested_at: '2026-01-01T00:00:00Z', scheduled_for: '2026-01-15T00:00:00Z', status: 'scheduled' };
+      mockRpc.mockResolvedValueOnce({ data: { success: true, request }, error: null });
+
+      const result = await service.requestDeletion();
+
+      expect(mockRpc).toHaveBeenCalledWith('request_account_deletion');
+      expect(result).toEqual({ data: request, error: null, success: true });
+    });
+  });
+
+  describe('cancelDeletion', () => {
+    it('should surface the database message when nothing is scheduled', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'not_found', message: 'Your account is not scheduled for deletion' },
+        error: null,
+      });
+
+      const result = await service.cancelDeletion();
+
+      expect(result).toEqual({ data: false, error: 'Your account is not scheduled for deletion', success: false });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * AccountLockoutService Tests
+ * Tests locked account mapping and unlock results
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () => ({
+  permissionErrorHandler: {
+    createPermissionContext: jest.fn((operation: string, options: any) => ({ operation, ...options })),
+  },
+}));
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+import { AccountLockoutService } from '../AccountLockoutService';
+import { supabase } from '../../lib/supabaseClient';
+
+const mockRpc = supabase.rpc as jest.Mock;
+
+describe('AccountLockoutService', () => {
+  let service: AccountLockoutService;
+
+  beforeEach(() => {
+    service = new AccountLockoutService();
+    mockRpc.mockReset();
+  });
+
+  describe('getLockedAccounts', () => {
+    it('should map locked rows and fall back to the email for unnamed members', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: [
+          { member_id: 'user-1', member_name: 'Ada Lovelace', email: 'ada@school.edu', locked_until: '2026-01-01T00:10:00Z', lockout_level: 2 },
+          { member_id: 'user-2', member_name: null, email: 'grace@school.edu', locked_until: '2026-01-01T00:05:00Z', lockout_level: null },
+        ],
+        error: null,
+      });
+
+      const result = await service.getLockedAccounts('org-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_locked_accounts', { p_org_id: 'org-1' });
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([
+        { member_id: 'user-1', member_name: 'Ada Lovelace', email: 'ada@school.edu', locked_until: '2026-01-01T00:10:00Z', lockout_level: 2 },
+        { member_id: 'user-2', member_name: 'grace@school.edu', email: 'grace@school.edu', locked_until: '2026-01-01T00:05:00Z', lockout_level: 0 },
+      ]);
+    });
+  });
+
+  describe('unlockAccount', () => {
+    it('should normalize the email before unlocking', async () => {
+      mockRpc.mockResolvedValueOnce({ data: { success: true }, error: null });
+
+      const result = await service.unlockAccount('org-1', '  Ada@School.edu ');
+
+      expect(mockRpc).toHaveBeenCalledWith('unlock_auth_account', {
+        p_org_id: 'org-1',
+        p_email: 'ada@school.edu',
+      });
+      expect(result).toEqual({ data: true, error: null, success: true });
+    });
+
+    it('should surface the database message when the unlock is refused', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'not_found', message: 'No member of this organization uses that email' },
+        error: null,
+      });
+
+      const result = await service.unlockAccount('org-1', 'stranger@school.edu');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No member of this organization uses that email');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * AnnouncementService Tests
+ * Tests scheduled and expiring announcements
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(),
+    auth: {
+      getSession: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () =>
+  require('../../__tests__/helpers/serviceTestUtils').mockPermissionErrorHandlerModule()
+);
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+jest.mock('../NotificationService', () => ({
+  notificationService: {},
+}));
+
+jest.mock('../SentryService', () => ({
+  __esModule: true,
+  default: {
+    addBreadcrumb: jest.fn(),
+  },
+}));
+
+import { AnnouncementService } from '../AnnouncementService';
+import { supabase } from '../../lib/supabaseClient';
+import { createQueryBuilder, mockCurrentUser } from '../../__tests__/helpers/serviceTestUtils';
+
+const mockFrom = supabase.from as jest.Mock;
+const mockGetSession = supabase.auth.getSession as jest.Mock;
+
+const ANNOUNCEMENT_ROW = {
+  id: 'announcement-1',
+  org_id: 'org-1',
+  created_by: 'officer-1',
+  tag: 'Reminder',
+  title: 'Dues reminder',
+  message: 'Dues are due Friday',
+  status: 'active',
+  publish_at: '2030-01-01T12:00:00.000Z',
+  expires_at: null,
+  created_at: '2030-01-01T12:00:00.000Z',
+  updated_at: '2030-01-01T12:00:00.000Z',
+};
+
+const PROFILE_ROW = { id: 'officer-1', first_name: 'Grace', last_name: 'Hopper', display_name: null };
+
+describe('AnnouncementService', () => {
+  let service: AnnouncementService;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    service = new AnnouncementService();
+    mockFrom.mockReset();
+    mockGetSession.mockResolvedValue({ data: { session: { access_token: 'token' } } });
+    fetchMock = jest.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({ success: true }) });
+    (global as any).fetch = fetchMock;
+    mockCurrentUser(service, 'officer-1', 'org-1');
+  });
+
+  describe('createAnnouncement', () => {
+    it('should schedule future announcements without notifying members', async () => {
+      const publishAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      const insertBuilder = createQueryBuilder({
+        data: { ...ANNOUNCEMENT_ROW, status: 'scheduled', publish_at: publishAt },
+        error: null,
+      });
+      mockFrom
+        .mockReturnValueOnce(insertBuilder)
+        .mockReturnValueOnce(createQueryBuilder({ data: PROFILE_ROW, error: null }));
+
+      const result = await service.createAnnouncement({
+        title: 'Dues reminder',
+        message: 'Dues are due Friday',
+        publish_at: publishAt,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.status).toBe('scheduled');
+      expect(insertBuilder.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'scheduled', publish_at: publishAt, expires_at: null })
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should publish immediately and notify when no publish time is set', async () => {
+      const insertBuilder = createQueryBuilder({ data: ANNOUNCEMENT_ROW, error: null });
+      mockFrom
+        .mockReturnValueOnce(insertBuilder)
+        .mockReturnValueOnce(createQueryBuilder({ data: PROFILE_ROW, error: null }));
+
+      const result = await service.createAnnouncement({ title: 'Dues reminder' });
+
+      expect(result.data?.status).toBe('active');
+      expect(insertBuilder.insert).toHaveBeenCalledWith(expect.objectContaining({ status: 'active' }));
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an expiration before the publish time', async () => {
+      const result = await service.createAnnouncement({
+        title: 'Dues reminder',
+        publish_at: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Expiration time must be after the announcement is published');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetchAnnouncements', () => {
+    it('should exclude expired announcements', async () => {
+      const listBuilder = createQueryBuilder({ data: [ANNOUNCEMENT_ROW], error: null });
+      mockFrom
+        .mockReturnValueOnce(listBuilder)
+        .mockReturnValueOnce(createQueryBuilder({ data: [PROFILE_ROW], error: null }));
+
+      const result = await service.fetchAnnouncements();
+
+      expect(listBuilder.eq).toHaveBeenCalledWith('status', 'active');
+      expect(listBuilder.or).toHaveBeenCalledWith(expect.stringMatching(/^expires_at\.is\.null,expires_at\.gt\./));
+      expect(result.data?.[0].creator_name).toBe('Grace Hopper');
+    });
+  });
+
+  describe('fetchScheduledAnnouncements', () => {
+    it('should list scheduled announcements by publish time', async () => {
+      const listBuilder = createQueryBuilder({
+        data: [{ ...ANNOUNCEMENT_ROW, status: 'scheduled' }],
+        error: null,
+      });
+      mockFrom
+        .mockReturnValueOnce(listBuilder)
+        .mockReturnValueOnce(createQueryBuilder({ data: [PROFILE_ROW], error: null }));
+
+      const result = await service.fetchScheduledAnnouncements();
+
+      expect(listBuilder.eq).toHaveBeenCalledWith('status', 'scheduled');
+      expect(listBuilder.order).toHaveBeenCalledWith('publish_at', { ascending: true });
+      expect(result.data?.map(announcement => announcement.status)).toEqual(['scheduled']);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * AttendanceService Tests
+ * Tests the officer roster and bulk attendance override operations
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () => ({
+  permissionErrorHandler: {},
+}));
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+import { AttendanceService } from '../AttendanceService';
+import { supabase } from '../../lib/supabaseClient';
+
+const mockRpc = supabase.rpc as jest.Mock;
+
+describe('AttendanceService', () => {
+  let service: AttendanceService;
+
+  beforeEach(() => {
+    service = new AttendanceService();
+    mockRpc.mockReset();
+  });
+
+  describe('getEventRoster', () => {
+    it('should map roster rows with their attendance status', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: [
+          { member_id: 'member-1', member_name: 'Alex Kim', role: 'member', attendance_id: 'att-1', status: 'present', method: 'ble', recorded_at: '2026-01-01T10:00:00Z', recorded_by: null, note: null },
+          { member_id: 'member-2', member_name: 'Sam Lee', role: 'member', attendance_id: null, status: 'absent', method: null, recorded_at: null, recorded_by: null, note: null },
+        ],
+        error: null,
+      });
+
+      const result = await service.getEventRoster('event-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_event_roster', { p_event_id: 'event-1' });
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([
+        { member_id: 'member-1', member_name: 'Alex Kim', role: 'member', attendance_id: 'att-1', status: 'present', method: 'ble', recorded_at: '2026-01-01T10:00:00Z', recorded_by: undefined, note: undefined },
+        { member_id: 'member-2', member_name: 'Sam Lee', role: 'member', attendance_id: undefined, status: 'absent', method: undefined, recorded_at: undefined, recorded_by: undefined, note: undefined },
+      ]);
+    });
+  });
+
+  describe('bulkOverrideAttendance', () => {
+    it('should require a note before calling the server', async () => {
+      const result = await service.bulkOverrideAttendance({
+        event_id: 'event-1',
+        member_ids: ['member-2'],
+        status: 'present',
+        note: '   ',
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should send the override and return the counts', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, updated_count: 2, unchanged_count: 0, skipped_member_ids: [] },
+        error: null,
+      });
+
+      const result = await service.bulkOverrideAttendance({
+        event_id: 'event-1',
+        member_ids: ['member-2', 'member-3'],
+        status: 'present',
+        note: ' Phone bluetooth was off ',
+      });
+
+      expect(mockRpc).toHaveBeenCalledWith('bulk_override_attendance', {
+        p_event_id: 'event-1',
+        p_member_ids: ['member-2', 'member-3'],
+        p_status: 'present',
+        p_note: 'Phone bluetooth was off',
+      });
+      expect(result.data).toEqual({ updated_count: 2, unchanged_count: 0, skipped_member_ids: [] });
+    });
+
+    it('should surface server rejections', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'permission_denied', message: 'Officer access required' },
+        error: null,
+      });
+
+      const result = await service.bulkOverrideAttendance({
+        event_id: 'event-1',
+        member_ids: ['member-2'],
+        status: 'excused',
+        note: 'Doctor appointment',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Officer access required');
+    });
+  });
+});
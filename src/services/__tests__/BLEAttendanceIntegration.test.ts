@@ -4,6 +4,7 @@
  */
 
 import { BLESessionService } from '../BLESessionService';
+import OrgBeaconCodeResolver from '../OrgBeaconCodeResolver';
 import { BLESecurityService } from '../BLESecurityService';
 import { supabase } from '../../lib/supabaseClient';
 
@@ -30,6 +31,9 @@ describe('BLE Attendance Complete Flow Test', () => {
   const mockTTL = 3600; // 1 hour
 
   beforeEach(() => {
+    OrgBeaconCodeResolver.clear();
+    OrgBeaconCodeResolver.register({ id: 'nhs-org-id', slug: 'nhs', beacon_major: 1 });
+    OrgBeaconCodeResolver.register({ id: 'nhsa-org-id', slug: 'nhsa', beacon_major: 2 });
     jest.clearAllMocks();
     BLESecurityService.resetMetrics();
   });
@@ -101,7 +105,7 @@ describe('BLE Attendance Complete Flow Test', () => {
       const sessionToken = 'ABC123DEF456';
       const orgSlug = 'nhs';
       
-      const payload = BLESessionService.generateBeaconPayload(sessionToken, orgSlug);
+      const payload = BLESessionService.generateBeaconPayload(sessionToken, orgSlug, 1);
       
       expect(payload).toMatchObject({
         uuid: expect.stringMatching(/^[0-9A-F-]{36}$/i),
@@ -42,7 +42,9 @@ describe('BLE Organization Security', () => {
       expect(result.success).toBe(false);
       expect(result.error).toBe('organization_mismatch');
       expect(mockSupabase.rpc).toHaveBeenCalledWith('add_attendance_secure', {
-        p_session_token: 'NHSATOKEN123'
+        p_session_token: 'NHSATOKEN123',
+        p_beacon_minor: null,
+        p_evidence: null
       });
     });
 
@@ -13,9 +13,13 @@ jest.mock('../../lib/supabaseClient', () => ({
 
 // Import after mocking
 import BLESessionService from '../BLESessionService';
+import OrgBeaconCodeResolver from '../OrgBeaconCodeResolver';
 
 describe('BLE Session Integration Tests', () => {
   beforeEach(() => {
+    OrgBeaconCodeResolver.clear();
+    OrgBeaconCodeResolver.register({ id: 'nhs-org-id', slug: 'nhs', beacon_major: 1 });
+    OrgBeaconCodeResolver.register({ id: 'nhsa-org-id', slug: 'nhsa', beacon_major: 2 });
     jest.clearAllMocks();
   });
 
@@ -7,12 +7,35 @@
 jest.mock('../../lib/supabaseClient', () => ({
   supabase: {
     rpc: jest.fn(),
+    from: jest.fn(() => ({
+      select: jest.fn(() => ({
+        not: jest.fn().mockResolvedValue({ data: [], error: null }),
+      })),
+    })),
   },
 }));
 
-import BLESessionService, { ORG_CODES } from '../BLESessionService';
+jest.mock('../SentryService', () => ({
+  __esModule: true,
+  default: {
+    addBreadcrumb: jest.fn(),
+    captureException: jest.fn(),
+  },
+}));
+
+import BLESessionService from '../BLESessionService';
+import OrgBeaconCodeResolver from '../OrgBeaconCodeResolver';
+import { supabase } from '../../lib/supabaseClient';
+
+const mockRpc = supabase.rpc as jest.Mock;
 
 describe('BLESessionService', () => {
+  beforeEach(() => {
+    OrgBeaconCodeResolver.clear();
+    OrgBeaconCodeResolver.register({ id: 'org-1', slug: 'nhs', beacon_major: 1 });
+    OrgBeaconCodeResolver.register({ id: 'org-2', slug: 'nhsa', beacon_major: 2 });
+  });
+
   describe('Token Validation', () => {
     it('should validate correct session token format', () => {
       expect(BLESessionService.isValidSessionToken('ABC123def456')).toBe(true);
@@ -39,9 +62,12 @@ describe('BLESessionService', () => {
       expect(BLESessionService.getOrgCode('')).toBe(0);
     });
 
-    it('should have consistent organization codes', () => {
-      expect(BLESessionService.getOrgCode('nhs')).toBe(ORG_CODES.nhs);
-      expect(BLESessionService.getOrgCode('nhsa')).toBe(ORG_CODES.nhsa);
+    it('should use codes registered for new organizations', () => {
+      OrgBeaconCodeResolver.register({ id: 'org-3', slug: 'mu-alpha-theta', beacon_major: 3 });
+
+      expect(BLESessionService.getOrgCode('mu-alpha-theta')).toBe(3);
+      expect(BLESessionService.generateBeaconPayload('ABC123def456', 'mu-alpha-theta', 7).major).toBe(3);
+      expect(BLESessionService.validateBeaconPayload(3, 7, 'mu-alpha-theta')).toBe(true);
     });
   });
 
@@ -83,18 +109,350 @@ describe('BLESessionService', () => {
       const sessionToken = 'ABC123def456';
       const orgSlug = 'nhs';
       
-      const payload = BLESessionService.generateBeaconPayload(sessionToken, orgSlug);
+      const payload = BLESessionService.generateBeaconPayload(sessionToken, orgSlug, 42);
       
       expect(payload.major).toBe(1); // NHS org code
-      expect(payload.minor).toBeGreaterThanOrEqual(0);
-      expect(payload.minor).toBeLessThanOrEqual(0xFFFF);
+      expect(payload.minor).toBe(42); // Allocated beacon slot
       expect(payload.sessionToken).toBe(sessionToken);
       expect(payload.orgSlug).toBe(orgSlug);
     });
 
     it('should throw error for invalid inputs', () => {
-      expect(() => BLESessionService.generateBeaconPayload('', 'nhs')).toThrow();
-      expect(() => BLESessionService.generateBeaconPayload('ABC123def456', 'unknown')).toThrow();
+      expect(() => BLESessionService.generateBeaconPayload('', 'nhs', 1)).toThrow();
+      expect(() => BLESessionService.generateBeaconPayload('ABC123def456', 'unknown', 1)).toThrow();
+      expect(() => BLESessionService.generateBeaconPayload('ABC123def456', 'nhs', 0)).toThrow();
+      expect(() => BLESessionService.generateBeaconPayload('ABC123def456', 'nhs', 0x10000)).toThrow();
+    });
+  });
+
+  describe('Beacon Slot Allocation', () => {
+    beforeEach(() => {
+      mockRpc.mockReset();
+    });
+
+    it('should remember the slot allocated by create_session_secure', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: {
+          success: true,
+          session_token: 'ABCDEFGH2345',
+          event_id: 'event-1',
+          beacon_minor: 7,
+          expires_at: new Date(Date.now() + 3600000).toISOString(),
+        },
+        error: null,
+      });
+
+      const token = await BLESessionService.createSession('org-1', 'Weekly Meeting');
+
+      expect(token).toBe('ABCDEFGH2345');
+      await expect(BLESessionService.getBeaconMinor(token)).resolves.toBe(7);
+    });
+
+    it('should reject a session without a valid slot', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, session_token: 'JKLMNPQR6789', event_id: 'event-2' },
+        error: null,
+      });
+
+      await expect(BLESessionService.createSession('org-1', 'Weekly Meeting')).rejects.toThrow(
+        'Invalid beacon slot received from server'
+      );
+    });
+
+    it('should resolve a beacon by exact slot lookup', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: [{
+          session_token: 'STUVWXYZ2345',
+          event_id: 'event-3',
+          event_title: 'Tutoring',
+          org_id: 'org-1',
+          org_slug: 'nhs',
+          starts_at: new Date().toISOString(),
+          ends_at: new Date(Date.now() + 3600000).toISOString(),
+          is_valid: true,
+          attendee_count: '3',
+          beacon_minor: 12,
+        }],
+        error: null,
+      });
+
+      const session = await BLESessionService.findSessionByBeacon(1, 12, 'org-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('find_session_by_beacon', {
+        p_major: 1,
+        p_minor: 12,
+        p_org_id: 'org-1',
+      });
+      expect(session?.sessionToken).toBe('STUVWXYZ2345');
+      expect(session?.beaconMinor).toBe(12);
+      expect(session?.attendeeCount).toBe(3);
+    });
+
+    it('should ignore beacons whose Major is not a registered organization code', async () => {
+      await expect(BLESessionService.findSessionByBeacon(9, 12, 'org-1')).resolves.toBeNull();
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should not query the server for an unallocated slot value', async () => {
+      await expect(BLESessionService.findSessionByBeacon(1, 0, 'org-1')).resolves.toBeNull();
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Rotating Beacon Codes', () => {
+    beforeEach(() => {
+      mockRpc.mockReset();
+    });
+
+    it('should request rotating mode when creating a session', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: {
+          success: true,
+          session_token: 'TUVWXYZ23456',
+          event_id: 'event-4',
+          beacon_minor: 9,
+          rotating: true,
+        },
+        error: null,
+      });
+
+      await BLESessionService.createSession('org-1', 'Chapter Meeting', 600, { rotatingBeacon: true });
+
+      expect(mockRpc).toHaveBeenCalledWith('create_session_secure', expect.objectContaining({
+        p_rotating: true,
+        p_rotation_interval: 30,
+      }));
+    });
+
+    it('should map the upcoming rotation schedule', async () => {
+      const startsAt = new Date();
+      const endsAt = new Date(startsAt.getTime() + 30000);
+      mockRpc.mockResolvedValueOnce({
+        data: {
+          success: true,
+          rotating: true,
+          interval_seconds: 30,
+          codes: [
+            { minor: 40000, starts_at: startsAt.toISOString(), ends_at: endsAt.toISOString() },
+            { minor: 0, starts_at: endsAt.toISOString(), ends_at: endsAt.toISOString() },
+          ],
+        },
+        error: null,
+      });
+
+      const schedule = await BLESessionService.getBeaconRotationSchedule('TUVWXYZ23456');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_beacon_rotation_schedule', {
+        p_session_token: 'TUVWXYZ23456',
+        p_count: 10,
+      });
+      expect(schedule?.intervalSeconds).toBe(30);
+      expect(schedule?.codes).toEqual([{ minor: 40000, startsAt, endsAt }]);
+    });
+
+    it('should return no schedule for static sessions', async () => {
+      mockRpc.mockResolvedValueOnce({ data: { success: true, rotating: false }, error: null });
+
+      await expect(BLESessionService.getBeaconRotationSchedule('TUVWXYZ23456')).resolves.toBeNull();
+    });
+
+    it('should fail rather than report a static session when the schedule cannot be loaded', async () => {
+      mockRpc.mockResolvedValueOnce({ data: null, error: { message: 'network error' } });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(BLESessionService.getBeaconRotationSchedule('TUVWXYZ23456')).rejects.toThrow(
+        'Could not load the rotating beacon codes for this session'
+      );
+    });
+
+    it('should send the heard beacon code with attendance', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'stale_beacon_code', message: 'Beacon code has expired' },
+        error: null,
+      });
+
+      const result = await BLESessionService.addAttendance('WXYZ23456789', 40001);
+
+      expect(mockRpc).toHaveBeenCalledWith('add_attendance_secure', {
+        p_session_token: 'WXYZ23456789',
+        p_beacon_minor: 40001,
+        p_evidence: null,
+      });
+      expect(result.error).toBe('stale_beacon_code');
+    });
+  });
+
+  describe('Attendance Evidence', () => {
+    beforeEach(() => {
+      mockRpc.mockReset();
+    });
+
+    it('should send the proximity policy when creating a session', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, session_token: 'EVID23456789', event_id: 'event-5', beacon_minor: 12 },
+        error: null,
+      });
+
+      await BLESessionService.createSession('org-1', 'Chapter Meeting', 600, { minDwellSeconds: 60, minRssi: -80 });
+
+      expect(mockRpc).toHaveBeenCalledWith('create_session_secure', expect.objectContaining({
+        p_min_dwell_seconds: 60,
+        p_min_rssi: -80,
+      }));
+    });
+
+    it('should submit RSSI samples and dwell timestamps with attendance', async () => {
+      const firstSeenAt = new Date('2026-01-01T10:00:00Z');
+      const lastSeenAt = new Date('2026-01-01T10:02:00Z');
+      mockRpc.mockResolvedValueOnce({
+        data: {
+          success: false,
+          error: 'insufficient_dwell',
+          message: 'Stay near the session for at least 300 seconds before checking in',
+          required_dwell_seconds: 300,
+        },
+        error: null,
+      });
+
+      const result = await BLESessionService.addAttendance('EVID34567892', 12, {
+        rssiSamples: [-71.6, -68, NaN],
+        firstSeenAt,
+        lastSeenAt,
+      });
+
+      expect(mockRpc).toHaveBeenCalledWith('add_attendance_secure', {
+        p_session_token: 'EVID34567892',
+        p_beacon_minor: 12,
+        p_evidence: {
+          rssi_samples: [-72, -68],
+          first_seen_at: firstSeenAt.toISOString(),
+          last_seen_at: lastSeenAt.toISOString(),
+        },
+      });
+      expect(result.error).toBe('insufficient_dwell');
+      expect(result.requiredDwellSeconds).toBe(300);
+    });
+
+    it('should map attendance evidence for officers', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: [{
+          attendance_id: 'att-1',
+          member_id: 'member-1',
+          member_name: 'Alex Kim',
+          method: 'ble',
+          recorded_at: '2026-01-01T10:05:00Z',
+          rssi_avg: '-66.5',
+          rssi_max: -60,
+          sample_count: 24,
+          first_seen_at: '2026-01-01T10:00:00Z',
+          last_seen_at: '2026-01-01T10:05:00Z',
+          dwell_seconds: 300,
+        }],
+        error: null,
+      });
+
+      const evidence = await BLESessionService.getAttendanceEvidence('EVID23456789');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_session_attendance_evidence', {
+        p_session_token: 'EVID23456789',
+      });
+      expect(evidence[0]).toMatchObject({
+        attendanceId: 'att-1',
+        memberName: 'Alex Kim',
+        rssiAvg: -66.5,
+        sampleCount: 24,
+        dwellSeconds: 300,
+      });
+    });
+  });
+
+  describe('Check-Out', () => {
+    beforeEach(() => {
+      mockRpc.mockReset();
+    });
+
+    it('should send the check-out policy when creating a session', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, session_token: 'OUT234567892', event_id: 'event-6', beacon_minor: 7 },
+        error: null,
+      });
+
+      await BLESessionService.createSession('org-1', 'Service Project', 3600, {
+        checkoutEnabled: true,
+        creditVolunteerHours: true,
+      });
+
+      expect(mockRpc).toHaveBeenCalledWith('create_session_secure', expect.objectContaining({
+        p_checkout_enabled: true,
+        p_credit_volunteer_hours: true,
+      }));
+    });
+
+    it('should report when a check-in expects a check-out', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: {
+          success: true,
+          attendance_id: 'att-2',
+          event_id: 'event-6',
+          event_title: 'Service Project',
+          recorded_at: '2026-01-01T10:00:00Z',
+          checkout_enabled: true,
+        },
+        error: null,
+      });
+
+      const result = await BLESessionService.addAttendance('OUT234567892', 7);
+
+      expect(result.success).toBe(true);
+      expect(result.checkoutEnabled).toBe(true);
+    });
+
+    it('should check out with the last time the beacon was heard', async () => {
+      const lastSeenAt = new Date('2026-01-01T11:30:00Z');
+      mockRpc.mockResolvedValueOnce({
+        data: {
+          success: true,
+          attendance_id: 'att-2',
+          event_id: 'event-6',
+          checked_out_at: '2026-01-01T11:30:00Z',
+          duration_seconds: 5400,
+          volunteer_hours_id: 'hours-1',
+        },
+        error: null,
+      });
+
+      const result = await BLESessionService.checkOut('OUT234567892', { lastSeenAt, automatic: true });
+
+      expect(mockRpc).toHaveBeenCalledWith('checkout_attendance_secure', {
+        p_session_token: 'OUT234567892',
+        p_last_seen_at: lastSeenAt.toISOString(),
+        p_automatic: true,
+      });
+      expect(result).toEqual({
+        success: true,
+        checkedOutAt: lastSeenAt,
+        durationSeconds: 5400,
+        volunteerHoursId: 'hours-1',
+      });
+    });
+
+    it('should surface check-out errors without calling the server for bad tokens', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'not_checked_in', message: 'You are not checked in to this session' },
+        error: null,
+      });
+
+      const invalid = await BLESessionService.checkOut('bad');
+      const notCheckedIn = await BLESessionService.checkOut('OUT234567892');
+
+      expect(invalid.error).toBe('invalid_token');
+      expect(mockRpc).toHaveBeenCalledTimes(1);
+      expect(mockRpc).toHaveBeenCalledWith('checkout_attendance_secure', {
+        p_session_token: 'OUT234567892',
+        p_last_seen_at: null,
+        p_automatic: false,
+      });
+      expect(notCheckedIn.error).toBe('not_checked_in');
     });
   });
 
@@ -11,6 +11,7 @@
  */
 
 import { BLESessionService } from '../BLESessionService';
+import OrgBeaconCodeResolver from '../OrgBeaconCodeResolver';
 import { BLESecurityService } from '../BLESecurityService';
 import { supabase } from '../../lib/supabaseClient';
 
@@ -35,6 +36,9 @@ describe('🔬 BLE SYSTEM COMPLETE INTEGRATION TEST', () => {
   const MOCK_USER_ID = 'user-123-456-789';
 
   beforeEach(() => {
+    OrgBeaconCodeResolver.clear();
+    OrgBeaconCodeResolver.register({ id: 'nhs-org-id', slug: 'nhs', beacon_major: 1 });
+    OrgBeaconCodeResolver.register({ id: 'nhsa-org-id', slug: 'nhsa', beacon_major: 2 });
     jest.clearAllMocks();
     BLESecurityService.resetMetrics();
   });
@@ -105,7 +109,7 @@ describe('🔬 BLE SYSTEM COMPLETE INTEGRATION TEST', () => {
       const sessionToken = 'ABC123DEF456';
       const orgSlug = 'nhs';
       
-      const payload = BLESessionService.generateBeaconPayload(sessionToken, orgSlug);
+      const payload = BLESessionService.generateBeaconPayload(sessionToken, orgSlug, 1);
       
       console.log('  ✅ Major (Org Code):', payload.major);
       console.log('  ✅ Minor (Token Hash):', payload.minor);
@@ -337,7 +341,7 @@ describe('🔬 BLE SYSTEM COMPLETE INTEGRATION TEST', () => {
       
       // Step 2: Officer starts broadcasting
       console.log('2️⃣  Officer starts broadcasting...');
-      const payload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs');
+      const payload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs', 1);
       console.log('   ✅ Broadcasting: Major=' + payload.major + ', Minor=' + payload.minor);
       
       // Step 3: 10 members detect and check in
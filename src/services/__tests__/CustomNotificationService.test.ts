@@ -0,0 +1,210 @@
+/**
+ * CustomNotificationService Tests
+ * Tests audience previews, sending and the send log
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+    auth: {
+      getUser: jest.fn(),
+    },
+    functions: {
+      invoke: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () =>
+  require('../../__tests__/helpers/serviceTestUtils').mockPermissionErrorHandlerModule()
+);
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+jest.mock('../NotificationRateLimitingService', () => ({
+  notificationRateLimitingService: {
+    checkCustomNotificationRateLimit: jest.fn(),
+    checkDuplicateNotification: jest.fn(),
+  },
+}));
+
+import { CustomNotificationService } from '../CustomNotificationService';
+import { supabase } from '../../lib/supabaseClient';
+import { notificationRateLimitingService } from '../NotificationRateLimitingService';
+import { createQueryBuilder } from '../../__tests__/helpers/serviceTestUtils';
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+const mockGetUser = supabase.auth.getUser as jest.Mock;
+const mockRateLimit = notificationRateLimitingService.checkCustomNotificationRateLimit as jest.Mock;
+const mockDuplicateCheck = notificationRateLimitingService.checkDuplicateNotification as jest.Mock;
+const mockInvoke = supabase.functions.invoke as jest.Mock;
+
+const members = [
+  { user_id: 'user-1', expo_push_token: 'ExponentPushToken[a]' },
+  { user_id: 'user-2', expo_push_token: null },
+  { user_id: 'user-3', expo_push_token: 'ExponentPushToken[c]' },
+];
+
+describe('CustomNotificationService', () => {
+  let service: CustomNotificationService;
+
+  beforeEach(() => {
+    service = new CustomNotificationService();
+    mockFrom.mockReset();
+    mockRpc.mockReset();
+    mockRateLimit.mockReset();
+    mockDuplicateCheck.mockReset();
+    mockInvoke.mockReset();
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'officer-1' } }, error: null });
+  });
+
+  describe('previewAudience', () => {
+    it('should count matched members and those who can receive the push', async () => {
+      mockRpc.mockResolvedValueOnce({ data: members, error: null });
+
+      const result = await service.previewAudience('org-1', { type: 'grade', grade: '11' });
+
+      expect(result.data).toEqual({ matched: 3, reachable: 2 });
+      expect(mockRpc).toHaveBeenCalledWith('get_custom_notification_recipients', {
+        p_org_id: 'org-1',
+        p_audience: 'grade',
+        p_grade: '11',
+        p_event_id: null,
+      });
+    });
+
+    it('should require an event for event attendees', async () => {
+      const result = await service.previewAudience('org-1', { type: 'event_attendees' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Choose an event');
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendCustomNotification', () => {
+    const draft = {
+      title: ' Hours due Friday ',
+      body: 'Submit your hours before the deadline.',
+      audience: { type: 'behind_on_hours' as const },
+    };
+
+    it('should log the send and hand it to the edge function', async () => {
+      mockRpc
+        .mockResolvedValueOnce({ data: members, error: null })
+        .mockResolvedValueOnce({ data: 'history-1', error: null });
+      mockRateLimit.mockResolvedValueOnce({ data: { allowed: true }, error: null, success: true });
+      mockDuplicateCheck.mockResolvedValueOnce({
+        data: { isDuplicate: false, contentHash: 'hash-1' },
+        error: null,
+        success: true,
+      });
+      mockInvoke.mockResolvedValueOnce({
+        data: { success: true, total: 2, successful: 1, failed: 0, deferred: 1 },
+        error: null,
+      });
+
+      const result = await service.sendCustomNotification('org-1', draft);
+
+      expect(result.data).toEqual({
+        notificationId: 'history-1',
+        recipientCount: 2,
+        delivered: 1,
+        deferred: 1,
+        failed: 0,
+      });
+      expect(mockRpc).toHaveBeenCalledWith('record_custom_notification', {
+        p_org_id: 'org-1',
+        p_content_hash: 'hash-1',
+        p_title: 'Hours due Friday',
+        p_body: 'Submit your hours before the deadline.',
+        p_audience: { type: 'behind_on_hours' },
+        p_recipient_count: 2,
+      });
+      expect(mockInvoke).toHaveBeenCalledWith('send-custom-notification', {
+        body: { notificationId: 'history-1' },
+      });
+    });
+
+    it('should fail when the edge function does not send', async () => {
+      mockRpc
+        .mockResolvedValueOnce({ data: members, error: null })
+        .mockResolvedValueOnce({ data: 'history-1', error: null });
+      mockRateLimit.mockResolvedValueOnce({ data: { allowed: true }, error: null, success: true });
+      mockDuplicateCheck.mockResolvedValueOnce({
+        data: { isDuplicate: false, contentHash: 'hash-1' },
+        error: null,
+        success: true,
+      });
+      mockInvoke.mockResolvedValueOnce({
+        data: { success: false, error: 'Notification not found or already sent' },
+        error: null,
+      });
+
+      const result = await service.sendCustomNotification('org-1', draft);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Notification not found or already sent');
+    });
+
+    it('should not use up a send when no one can receive it', async () => {
+      mockRpc.mockResolvedValueOnce({ data: [members[1]], error: null });
+
+      const result = await service.sendCustomNotification('org-1', draft);
+
+      expect(result.success).toBe(false);
+      expect(mockRateLimit).not.toHaveBeenCalled();
+      expect(mockInvoke).not.toHaveBeenCalled();
+    });
+
+    it('should stop when the daily limit is reached', async () => {
+      mockRpc.mockResolvedValueOnce({ data: members, error: null });
+      mockRateLimit.mockResolvedValueOnce({
+        data: { allowed: false, reason: 'Daily limit reached' },
+        error: null,
+        success: true,
+      });
+
+      const result = await service.sendCustomNotification('org-1', draft);
+
+      expect(result.error).toBe('Daily limit reached');
+      expect(mockDuplicateCheck).not.toHaveBeenCalled();
+      expect(mockInvoke).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty message before any lookups', async () => {
+      const result = await service.sendCustomNotification('org-1', { ...draft, body: '  ' });
+
+      expect(result.error).toBe('A message is required');
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRecentCustomNotifications', () => {
+    it("should load the organization's officer-sent custom notifications", async () => {
+      const builder = createQueryBuilder({ data: [], error: null });
+      mockFrom.mockReturnValueOnce(builder);
+
+      const result = await service.getRecentCustomNotifications('org-1');
+
+      expect(result.success).toBe(true);
+      expect(mockFrom).toHaveBeenCalledWith('notification_history');
+      expect(builder.eq).toHaveBeenCalledWith('notification_type', 'custom');
+      expect(builder.not).toHaveBeenCalledWith('sent_by', 'is', null);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * EventRSVPService Tests
+ * Tests RSVPs, waitlisting, summaries and the no-show report
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () => ({
+  permissionErrorHandler: {},
+}));
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+import { EventRSVPService } from '../EventRSVPService';
+import { supabase } from '../../lib/supabaseClient';
+
+const mockRpc = supabase.rpc as jest.Mock;
+
+describe('EventRSVPService', () => {
+  let service: EventRSVPService;
+
+  beforeEach(() => {
+    service = new EventRSVPService();
+    mockRpc.mockReset();
+  });
+
+  describe('setRsvp', () => {
+    it('should report the waitlist position when the event is full', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, status: 'waitlisted', previous_status: null, waitlist_position: 3, promoted_member_ids: [] },
+        error: null,
+      });
+
+      const result = await service.setRsvp('event-1', 'going');
+
+      expect(mockRpc).toHaveBeenCalledWith('set_event_rsvp', {
+        p_event_id: 'event-1',
+        p_status: 'going',
+      });
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        status: 'waitlisted',
+        previous_status: undefined,
+        waitlist_position: 3,
+        promoted_member_ids: [],
+      });
+    });
+
+    it('should return promoted members when a spot is given up', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, status: 'not_going', previous_status: 'going', promoted_member_ids: ['member-2'] },
+        error: null,
+      });
+
+      const result = await service.setRsvp('event-1', 'not_going');
+
+      expect(result.data?.previous_status).toBe('going');
+      expect(result.data?.promoted_member_ids).toEqual(['member-2']);
+    });
+
+    it('should surface server errors such as closed RSVPs', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'rsvp_closed', message: 'RSVPs are closed once the event starts' },
+        error: null,
+      });
+
+      const result = await service.setRsvp('event-1', 'maybe');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('RSVPs are closed once the event starts');
+    });
+  });
+
+  describe('getRsvpSummaries', () => {
+    it('should key summaries by event id', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: [
+          { event_id: 'event-1', going_count: 20, maybe_count: 2, not_going_count: 1, waitlisted_count: 4, my_status: 'waitlisted', my_waitlist_position: 2 },
+          { event_id: 'event-2', going_count: 5, maybe_count: 0, not_going_count: 0, waitlisted_count: 0, my_status: null, my_waitlist_position: null },
+        ],
+        error: null,
+      });
+
+      const result = await service.getRsvpSummaries(['event-1', 'event-2']);
+
+      expect(result.data?.['event-1'].my_waitlist_position).toBe(2);
+      expect(result.data?.['event-2'].my_status).toBeUndefined();
+    });
+
+    it('should not call the server without events', async () => {
+      const result = await service.getRsvpSummaries([]);
+
+      expect(result.data).toEqual({});
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRsvpReport', () => {
+    it('should flag members who said they were going but did not attend', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: [
+          { member_id: 'member-1', member_name: 'Ada Lovelace', status: 'going', attended: true, no_show: false },
+          { member_id: 'member-2', member_name: 'Alan Turing', status: 'going', attended: false, no_show: true },
+        ],
+        error: null,
+      });
+
+      const result = await service.getRsvpReport('event-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_event_rsvp_report', { p_event_id: 'event-1' });
+      expect(result.data?.filter(entry => entry.no_show).map(entry => entry.member_id)).toEqual(['member-2']);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * EventService Tests
+ * Tests recurring event series and calendar feed links
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    rpc: jest.fn(),
+  },
+  supabaseUrl: 'https://test.supabase.co',
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () => ({
+  permissionErrorHandler: {},
+}));
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+jest.mock('../NotificationService', () => ({
+  notificationService: {
+    sendEventNotification: jest.fn().mockResolvedValue({ success: true, data: null }),
+  },
+}));
+
+jest.mock('../SentryService', () => ({
+  __esModule: true,
+  default: {
+    addBreadcrumb: jest.fn(),
+  },
+}));
+
+import { EventService, Event } from '../EventService';
+import { notificationService } from '../NotificationService';
+import { supabase } from '../../lib/supabaseClient';
+
+const mockRpc = supabase.rpc as jest.Mock;
+
+const SERIES_EVENT: Event = {
+  id: 'event-1',
+  org_id: 'org-1',
+  created_by: 'officer-1',
+  title: 'Weekly Tutoring',
+  starts_at: '2030-01-07T16:00:00Z',
+  ends_at: '2030-01-07T17:00:00Z',
+  actual_attendance: 0,
+  status: 'active',
+  created_at: '2029-12-01T00:00:00Z',
+  updated_at: '2029-12-01T00:00:00Z',
+  series_id: 'series-1',
+  occurrence_date: '2030-01-07',
+  recurrence: { frequency: 'weekly', interval: 1, count: 10, exceptionDates: [] },
+};
+
+describe('EventService', () => {
+  let service: EventService;
+  let getEventById: jest.SpyInstance;
+
+  beforeEach(() => {
+    service = new EventService();
+    mockRpc.mockReset();
+    jest.spyOn(service as any, 'getCurrentUserId').mockResolvedValue('officer-1');
+    jest.spyOn(service as any, 'getCurrentOrganizationId').mockResolvedValue('org-1');
+    jest.spyOn(service as any, 'hasOfficerPermissions').mockResolvedValue(true);
+    getEventById = jest.spyOn(service, 'getEventById').mockResolvedValue({
+      data: SERIES_EVENT,
+      error: null,
+      success: true,
+    });
+    (notificationService.sendEventNotification as jest.Mock).mockClear();
+  });
+
+  describe('createEvent with recurrence', () => {
+    it('should create a series and notify once for its first occurrence', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, series_id: 'series-1', first_event_id: 'event-1', occurrence_count: 10 },
+        error: null,
+      });
+
+      const result = await service.createEvent({
+        title: ' Weekly Tutoring ',
+        starts_at: '2030-01-07T16:00:00Z',
+        ends_at: '2030-01-07T17:00:00Z',
+        recurrence: { frequency: 'weekly', interval: 1, count: 10, exceptionDates: ['2030-01-21'] },
+      });
+
+      expect(mockRpc).toHaveBeenCalledWith('create_event_series', expect.objectContaining({
+        p_org_id: 'org-1',
+        p_title: 'Weekly Tutoring',
+        p_frequency: 'weekly',
+        p_interval: 1,
+        p_occurrence_count: 10,
+        p_until_date: null,
+        p_exception_dates: ['2030-01-21'],
+      }));
+      expect(getEventById).toHaveBeenCalledWith('event-1');
+      expect(notificationService.sendEventNotification).toHaveBeenCalledTimes(1);
+      expect(result.data?.series_id).toBe('series-1');
+    });
+
+    it('should reject a rule without an end before calling the server', async () => {
+      const result = await service.createEvent({
+        title: 'Monthly Meeting',
+        starts_at: '2030-01-07T16:00:00Z',
+        recurrence: { frequency: 'monthly', interval: 1 },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Choose an end date or a number of occurrences');
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('editing a series', () => {
+    it('should apply "all future" edits through the series function', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, series_id: 'series-2', updated_count: 6 },
+        error: null,
+      });
+
+      const result = await service.updateEvent('event-1', { location: 'Library' }, 'future');
+
+      expect(mockRpc).toHaveBeenCalledWith('update_event_series', {
+        p_event_id: 'event-1',
+        p_updates: { location: 'Library' },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should delete this and future occurrences of a series', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, deleted_count: 4 },
+        error: null,
+      });
+
+      const result = await service.softDeleteEvent('event-1', 'future');
+
+      expect(mockRpc).toHaveBeenCalledWith('delete_event_occurrences', {
+        p_event_id: 'event-1',
+        p_all_future: true,
+      });
+      expect(result.data).toBe(true);
+    });
+  });
+
+  describe('calendar feed', () => {
+    it('should build the feed URL from the member\'s token', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, token: 'a'.repeat(64) },
+        error: null,
+      });
+
+      const result = await service.getCalendarFeedUrl();
+
+      expect(mockRpc).toHaveBeenCalledWith('get_calendar_feed_token', { p_org_id: 'org-1' });
+      expect(result.data).toBe(`https://test.supabase.co/functions/v1/calendar-feed?token=${'a'.repeat(64)}`);
+    });
+
+    it('should revoke the member\'s feed token', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, revoked_count: 1 },
+        error: null,
+      });
+
+      const result = await service.revokeCalendarFeed();
+
+      expect(mockRpc).toHaveBeenCalledWith('revoke_calendar_feed_token', { p_org_id: 'org-1' });
+      expect(result.data).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * GraduationRequirementService Tests
+ * Tests rule validation, progress mapping and the at-risk member list
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () =>
+  require('../../__tests__/helpers/serviceTestUtils').mockPermissionErrorHandlerModule()
+);
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+import { GraduationRequirementService } from '../GraduationRequirementService';
+import { supabase } from '../../lib/supabaseClient';
+import { createQueryBuilder, mockCurrentUser } from '../../__tests__/helpers/serviceTestUtils';
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+describe('GraduationRequirementService', () => {
+  let service: GraduationRequirementService;
+
+  beforeEach(() => {
+    service = new GraduationRequirementService();
+    mockFrom.mockReset();
+    mockRpc.mockReset();
+    mockCurrentUser(service, 'officer-1');
+  });
+
+  describe('createRequirement', () => {
+    const validRequest = {
+      name: 'Fall Service Hours',
+      requirement_type: 'verified_hours' as const,
+      target_value: 20,
+      period: 'semester' as const,
+      starts_on: '2026-08-20',
+      ends_on: '2026-12-15',
+    };
+
+    it('should insert the rule for the organization', async () => {
+      const builder = createQueryBuilder({
+        data: { id: 'req-1', org_id: 'org-1', is_active: true, ...validRequest, target_value: '20.0' },
+        error: null,
+      });
+      mockFrom.mockReturnValue(builder);
+
+      const result = await service.createRequirement('org-1', validRequest);
+
+      expect(builder.insert).toHaveBeenCalledWith(expect.objectContaining({
+        org_id: 'org-1',
+        created_by: 'officer-1',
+        target_value: 20,
+      }));
+      expect(result.success).toBe(true);
+      expect(result.data?.target_value).toBe(20);
+    });
+
+    it('should reject a deadline before the start date', async () => {
+      const result = await service.createRequirement('org-1', { ...validRequest, ends_on: '2026-08-01' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('The deadline must be after the start date');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('should reject fractional meeting targets', async () => {
+      const result = await service.createRequirement('org-1', {
+        ...validRequest,
+        requirement_type: 'meetings_attended',
+        target_value: 2.5,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Meeting targets must be a whole number');
+    });
+  });
+
+  describe('getMemberProgress', () => {
+    it('should convert numeric columns returned by the database', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: [{
+          requirement_id: 'req-1',
+          name: 'Fall Service Hours',
+          requirement_type: 'verified_hours',
+          period: 'semester',
+          target_value: '20.0',
+          current_value: '7.5',
+          expected_value: '10.0',
+          starts_on: '2026-08-20',
+          ends_on: '2026-12-15',
+          days_remaining: 57,
+          is_met: false,
+        }],
+        error: null,
+      });
+
+      const result = await service.getMemberProgress('org-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_member_requirement_progress', {
+        p_org_id: 'org-1',
+        p_member_id: null,
+      });
+      expect(result.data?.[0]).toEqual(expect.objectContaining({
+        target_value: 20,
+        current_value: 7.5,
+        expected_value: 10,
+        is_met: false,
+      }));
+    });
+  });
+
+  describe('getAtRiskMembers', () => {
+    it('should pass the warning window to the database', async () => {
+      mockRpc.mockResolvedValueOnce({ data: [], error: null });
+
+      const result = await service.getAtRiskMembers('org-1', 14);
+
+      expect(mockRpc).toHaveBeenCalledWith('get_members_at_risk', {
+        p_org_id: 'org-1',
+        p_warning_days: 14,
+      });
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * NotificationFormatters Tests
+ * Tests digest and summary formatting
+ */
+
+import { NotificationFormatterFactory } from '../NotificationFormatters';
+
+const summary = {
+  totalNotifications: 4,
+  announcementsCount: 2,
+  eventsCount: 1,
+  volunteerHoursCount: 1,
+  bleSessionsCount: 0,
+};
+
+describe('DigestFormatter', () => {
+  const formatter = NotificationFormatterFactory.getDigestFormatter();
+
+  it('titles scheduled digests by period', () => {
+    expect(formatter.formatTitle({ summary, period: 'daily' })).toBe('Your Daily Digest');
+    expect(formatter.formatTitle({ summary, period: 'weekly' })).toBe('Your Weekly Digest');
+  });
+
+  it('titles high-volume summaries by count', () => {
+    expect(formatter.formatTitle({ summary })).toBe('4 New Updates');
+  });
+
+  it('lists a count for each type with updates', () => {
+    expect(formatter.formatBody({ summary })).toBe(
+      '2 announcements, 1 event, 1 volunteer hour update. Tap to view all updates.'
+    );
+  });
+
+  it('falls back to a generic body when no type has updates', () => {
+    const empty = { ...summary, announcementsCount: 0, eventsCount: 0, volunteerHoursCount: 0 };
+
+    expect(formatter.formatBody({ summary: empty })).toBe('Multiple updates available. Tap to view details.');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * NotificationInboxService Tests
+ * Tests inbox reads, read-state updates and recording sent notifications
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+    auth: {
+      getUser: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () =>
+  require('../../__tests__/helpers/serviceTestUtils').mockPermissionErrorHandlerModule()
+);
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+import { NotificationInboxService } from '../NotificationInboxService';
+import { supabase } from '../../lib/supabaseClient';
+import { createQueryBuilder } from '../../__tests__/helpers/serviceTestUtils';
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+const mockGetUser = supabase.auth.getUser as jest.Mock;
+
+describe('NotificationInboxService', () => {
+  let service: NotificationInboxService;
+
+  beforeEach(() => {
+    service = new NotificationInboxService();
+    mockFrom.mockReset();
+    mockRpc.mockReset();
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+  });
+
+  describe('getInbox', () => {
+    it("should load the current user's entries newest first", async () => {
+      const entry = { id: 'inbox-1', notification_type: 'event', item_id: 'event-1', read_at: null };
+      const builder = createQueryBuilder({ data: [entry], error: null });
+      mockFrom.mockReturnValueOnce(builder);
+
+      const result = await service.getInbox();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([entry]);
+      expect(mockFrom).toHaveBeenCalledWith('notification_inbox');
+      expect(builder.eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(builder.order).toHaveBeenCalledWith('created_at', { ascending: false });
+    });
+  });
+
+  describe('getUnreadItems', () => {
+    it('should only load entries without a read time', async () => {
+      const builder = createQueryBuilder({ data: [], error: null });
+      mockFrom.mockReturnValueOnce(builder);
+
+      await service.getUnreadItems();
+
+      expect(builder.is).toHaveBeenCalledWith('read_at', null);
+    });
+  });
+
+  describe('read state', () => {
+    it('should mark specific entries read', async () => {
+      mockRpc.mockResolvedValueOnce({ data: 2, error: null });
+
+      const result = await service.markAsRead(['inbox-1', 'inbox-2']);
+
+      expect(result.data).toBe(2);
+      expect(mockRpc).toHaveBeenCalledWith('mark_inbox_read', { p_ids: ['inbox-1', 'inbox-2'] });
+    });
+
+    it('should mark every entry read when marking all', async () => {
+      mockRpc.mockResolvedValueOnce({ data: 5, error: null });
+
+      const result = await service.markAllAsRead();
+
+      expect(result.success).toBe(true);
+      expect(mockRpc).toHaveBeenCalledWith('mark_inbox_read', { p_ids: null });
+    });
+
+    it('should mark a whole type read when no items are given', async () => {
+      mockRpc.mockResolvedValueOnce({ data: 3, error: null });
+
+      await service.markItemsAsRead('announcement');
+
+      expect(mockRpc).toHaveBeenCalledWith('mark_inbox_items_read', {
+        p_notification_type: 'announcement',
+        p_item_ids: null,
+      });
+    });
+  });
+
+  describe('recordSentNotification', () => {
+    it('should record the payload for the tokens it was delivered to', async () => {
+      mockRpc.mockResolvedValueOnce({ data: 1, error: null });
+
+      const result = await service.recordSentNotification(
+        ['ExponentPushToken[abc]'],
+        'New Event',
+        'Food drive on Saturday',
+        { type: 'event', itemId: 'event-1', orgId: 'org-1' }
+      );
+
+      expect(result.data).toBe(1);
+      expect(mockRpc).toHaveBeenCalledWith('record_inbox_notifications', {
+        p_tokens: ['ExponentPushToken[abc]'],
+        p_title: 'New Event',
+        p_body: 'Food drive on Saturday',
+        p_payload: { type: 'event', itemId: 'event-1', orgId: 'org-1' },
+      });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * NotificationListenerService Tests
+ * Tests the Approve and Reject actions on volunteer hours submission pushes
+ */
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+  AppState: {
+    currentState: 'background',
+    addEventListener: jest.fn(() => ({ remove: jest.fn() })),
+  },
+}));
+
+jest.mock('expo-notifications', () => ({
+  DEFAULT_ACTION_IDENTIFIER: 'expo.modules.notifications.actions.DEFAULT',
+  setNotificationHandler: jest.fn(),
+  addNotificationReceivedListener: jest.fn(() => ({ remove: jest.fn() })),
+  addNotificationResponseReceivedListener: jest.fn(() => ({ remove: jest.fn() })),
+  getLastNotificationResponseAsync: jest.fn(() => Promise.resolve(null)),
+  dismissNotificationAsync: jest.fn(() => Promise.resolve()),
+  scheduleNotificationAsync: jest.fn(() => Promise.resolve('local-1')),
+  setNotificationCategoryAsync: jest.fn(),
+}));
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+    auth: {
+      getUser: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () => ({
+  permissionErrorHandler: {
+    createPermissionContext: jest.fn((operation: string, options: any) => ({ operation, ...options })),
+  },
+}));
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+jest.mock('../NotificationNavigationHandler', () => ({
+  notificationNavigationHandler: {
+    handleNotificationTap: jest.fn(() => Promise.resolve(true)),
+    navigateToVolunteerHoursRejection: jest.fn(() => Promise.resolve(true)),
+  },
+}));
+
+jest.mock('../NotificationBadgeManager', () => ({
+  notificationBadgeManager: {
+    incrementBadge: jest.fn(),
+    markItemAsRead: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+jest.mock('../NotificationInboxService', () => ({
+  notificationInboxService: {
+    markItemsAsRead: jest.fn(),
+  },
+}));
+
+jest.mock('../VolunteerHoursService', () => ({
+  volunteerHoursService: {
+    approveVolunteerHours: jest.fn(),
+  },
+}));
+
+import * as Notifications from 'expo-notifications';
+import { NotificationListenerService } from '../NotificationListenerService';
+import { notificationNavigationHandler } from '../NotificationNavigationHandler';
+import { volunteerHoursService } from '../VolunteerHoursService';
+
+const mockAddResponseListener = Notifications.addNotificationResponseReceivedListener as jest.Mock;
+const mockApprove = volunteerHoursService.approveVolunteerHours as jest.Mock;
+const mockNavigateToRejection = notificationNavigationHandler.navigateToVolunteerHoursRejection as jest.Mock;
+const mockHandleTap = notificationNavigationHandler.handleNotificationTap as jest.Mock;
+
+const createResponse = (actionIdentifier: string, userText?: string) => ({
+  actionIdentifier,
+  userText,
+  notification: {
+    request: {
+      identifier: 'push-1',
+      content: {
+        title: 'New Volunteer Hours Request',
+        data: {
+          type: 'volunteer_hours',
+          itemId: 'hour-1',
+          orgId: 'org-1',
+          priority: 'normal',
+          action: 'review_required',
+        },
+      },
+    },
+  },
+});
+
+describe('NotificationListenerService', () => {
+  let respond: (response: any) => Promise<void>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const service = new NotificationListenerService();
+    await service.initialize();
+    respond = mockAddResponseListener.mock.calls[0][0];
+  });
+
+  describe('volunteer hours review actions', () => {
+    it('should approve the submission and dismiss the push', async () => {
+      mockApprove.mockResolvedValueOnce({
+        data: { id: 'hour-1', status: 'verified' },
+        error: null,
+        success: true,
+      });
+
+      await respond(createResponse('approve_hours'));
+
+      expect(mockApprove).toHaveBeenCalledWith('hour-1');
+      expect(Notifications.dismissNotificationAsync).toHaveBeenCalledWith('push-1');
+      expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith({
+        content: expect.objectContaining({ title: 'Hours Approved' }),
+        trigger: null,
+      });
+      expect(mockHandleTap).not.toHaveBeenCalled();
+    });
+
+    it('should report a refused approval and keep the push', async () => {
+      mockApprove.mockResolvedValueOnce({
+        data: null,
+        error: 'Permission denied: Officer access required',
+        success: false,
+      });
+
+      await respond(createResponse('approve_hours'));
+
+      expect(Notifications.dismissNotificationAsync).not.toHaveBeenCalled();
+      expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith({
+        content: expect.objectContaining({ title: 'Approval Failed' }),
+        trigger: null,
+      });
+    });
+
+    it('should open the rejection input with the typed reason', async () => {
+      await respond(createResponse('reject_hours', 'Missing supervisor'));
+
+      expect(mockNavigateToRejection).toHaveBeenCalledWith('hour-1', 'org-1', 'Missing supervisor');
+      expect(mockApprove).not.toHaveBeenCalled();
+    });
+
+    it('should still navigate normally when the push is tapped', async () => {
+      await respond(createResponse(Notifications.DEFAULT_ACTION_IDENTIFIER));
+
+      expect(mockHandleTap).toHaveBeenCalled();
+      expect(mockApprove).not.toHaveBeenCalled();
+    });
+  });
+});
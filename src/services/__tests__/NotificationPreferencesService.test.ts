@@ -0,0 +1,81 @@
+/**
+ * NotificationPreferencesService Tests
+ * Tests that preferences are saved with the device timezone the server
+ * schedules quiet hours and digests in, and that it can be synced on its own
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    rpc: jest.fn(),
+  },
+}));
+
+import { supabase } from '../../lib/supabaseClient';
+import { NotificationPreferencesService } from '../NotificationPreferencesService';
+
+const mockRpc = supabase.rpc as jest.Mock;
+
+describe('NotificationPreferencesService', () => {
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRpc.mockResolvedValue({ data: true, error: null });
+  });
+
+  describe('updatePreferences', () => {
+    it('saves quiet hours with the device timezone', async () => {
+      const result = await NotificationPreferencesService.updatePreferences('user-1', {
+        quiet_hours: { enabled: true, start_time: '22:00', end_time: '07:00' },
+      });
+
+      expect(result).toBe(true);
+      expect(mockRpc).toHaveBeenCalledWith('update_notification_preferences', {
+        p_user_id: 'user-1',
+        p_preferences: {
+          quiet_hours: { enabled: true, start_time: '22:00', end_time: '07:00' },
+          timezone,
+        },
+      });
+    });
+
+    it('saves the delivery mode with the device timezone', async () => {
+      await NotificationPreferencesService.updatePreferences('user-1', { delivery_mode: 'weekly' });
+
+      expect(mockRpc).toHaveBeenCalledWith('update_notification_preferences', {
+        p_user_id: 'user-1',
+        p_preferences: { delivery_mode: 'weekly', timezone },
+      });
+    });
+
+    it('returns false when the update fails', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'denied' } });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await NotificationPreferencesService.updatePreferences('user-1', { events: false });
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('syncTimezone', () => {
+    it('saves only the device timezone', async () => {
+      const result = await NotificationPreferencesService.syncTimezone('user-1');
+
+      expect(result).toBe(true);
+      expect(mockRpc).toHaveBeenCalledWith('update_notification_preferences', {
+        p_user_id: 'user-1',
+        p_preferences: { timezone },
+      });
+    });
+
+    it('returns false when the update fails', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'denied' } });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await NotificationPreferencesService.syncTimezone('user-1');
+
+      expect(result).toBe(false);
+    });
+  });
+});
@@ -152,6 +152,37 @@ describe('NotificationRateLimitingService', () => {
       expect(result.data?.[0].batchId).toBe('batch-1');
       expect(result.data?.[0].batchCount).toBe(2);
     });
+
+    it('should include rejected entries from bulk reviews in the batch', async () => {
+      const mockFrom = require('../../lib/supabaseClient').supabase.from;
+      mockFrom.mockReturnValueOnce({
+        select: jest.fn(() => ({
+          in: jest.fn(() => Promise.resolve({
+            data: [
+              { id: 'approval-1', hours: 3, activity: 'Food drive', status: 'verified', approved_at: '2026-10-01T12:00:00Z', rejection_reason: null },
+              { id: 'rejection-1', hours: 2, activity: 'Tutoring', status: 'rejected', approved_at: null, rejection_reason: 'Missing proof' },
+            ],
+            error: null
+          }))
+        }))
+      });
+
+      const result = await notificationRateLimitingService.processVolunteerHoursBatch({
+        batchId: 'batch-1',
+        memberId: 'member-1',
+        orgId: 'org-1',
+        approvalIds: ['approval-1'],
+        rejectionIds: ['rejection-1'],
+        batchCount: 2
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.approvals.map(a => a.id)).toEqual(['approval-1']);
+      expect(result.data?.rejections).toEqual([
+        { id: 'rejection-1', hours: 2, activity: 'Tutoring', reason: 'Missing proof' }
+      ]);
+      expect(result.data?.totalHours).toBe(3);
+    });
   });
 
   describe('Notification Summary (Requirement 12.5)', () => {
@@ -0,0 +1,94 @@
+/**
+ * Organization Beacon Code Resolver Tests
+ * Tests loading, caching and reverse lookup of organizations.beacon_major codes
+ */
+
+const mockNot = jest.fn();
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(() => ({
+      select: jest.fn(() => ({
+        not: mockNot,
+      })),
+    })),
+  },
+}));
+
+import OrgBeaconCodeResolver from '../OrgBeaconCodeResolver';
+import { supabase } from '../../lib/supabaseClient';
+
+const mockFrom = supabase.from as jest.Mock;
+
+const ORGANIZATIONS = [
+  { id: 'org-1', slug: 'nhs', beacon_major: 1 },
+  { id: 'org-2', slug: 'nhsa', beacon_major: 2 },
+  { id: 'org-3', slug: 'mu-alpha-theta', beacon_major: 3 },
+];
+
+describe('OrgBeaconCodeResolver', () => {
+  beforeEach(() => {
+    OrgBeaconCodeResolver.clear();
+    mockFrom.mockClear();
+    mockNot.mockReset();
+    mockNot.mockResolvedValue({ data: ORGANIZATIONS, error: null });
+  });
+
+  it('should resolve codes loaded from the organizations table', async () => {
+    await OrgBeaconCodeResolver.load();
+
+    expect(mockFrom).toHaveBeenCalledWith('organizations');
+    expect(OrgBeaconCodeResolver.getCode('nhs')).toBe(1);
+    expect(OrgBeaconCodeResolver.getCode('NHSA')).toBe(2);
+    expect(OrgBeaconCodeResolver.getCode('mu-alpha-theta')).toBe(3);
+    expect(OrgBeaconCodeResolver.getCode('unknown')).toBe(0);
+  });
+
+  it('should resolve a Major code back to its organization', async () => {
+    await OrgBeaconCodeResolver.load();
+
+    expect(OrgBeaconCodeResolver.getOrganization(3)).toEqual({
+      orgId: 'org-3',
+      orgSlug: 'mu-alpha-theta',
+      beaconMajor: 3,
+    });
+    expect(OrgBeaconCodeResolver.isRegisteredCode(2)).toBe(true);
+    expect(OrgBeaconCodeResolver.isRegisteredCode(9)).toBe(false);
+  });
+
+  it('should reuse a fresh cache and share concurrent loads', async () => {
+    await Promise.all([OrgBeaconCodeResolver.load(), OrgBeaconCodeResolver.load()]);
+    await OrgBeaconCodeResolver.load();
+
+    expect(mockFrom).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reload on a miss but not for every unknown beacon', async () => {
+    OrgBeaconCodeResolver.register({ id: 'org-1', slug: 'nhs', beacon_major: 1 });
+
+    await expect(OrgBeaconCodeResolver.resolveOrganization(3)).resolves.toMatchObject({ orgSlug: 'mu-alpha-theta' });
+    await expect(OrgBeaconCodeResolver.resolveOrganization(9)).resolves.toBeNull();
+    await expect(OrgBeaconCodeResolver.resolveOrganization(10)).resolves.toBeNull();
+
+    expect(mockFrom).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the existing cache when loading fails', async () => {
+    OrgBeaconCodeResolver.register({ id: 'org-1', slug: 'nhs', beacon_major: 1 });
+    mockNot.mockResolvedValueOnce({ data: null, error: { message: 'network error' } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await OrgBeaconCodeResolver.load(true);
+
+    expect(OrgBeaconCodeResolver.getCode('nhs')).toBe(1);
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('should ignore rows without a valid code', () => {
+    OrgBeaconCodeResolver.register({ id: 'org-4', slug: 'pending', beacon_major: null });
+    OrgBeaconCodeResolver.register({ id: 'org-5', slug: 'broken', beacon_major: 0x10000 });
+
+    expect(OrgBeaconCodeResolver.getCode('pending')).toBe(0);
+    expect(OrgBeaconCodeResolver.getCode('broken')).toBe(0);
+  });
+});
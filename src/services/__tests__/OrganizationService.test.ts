@@ -0,0 +1,152 @@
+/**
+ * OrganizationService Tests
+ * Tests roster loading, activity summaries and officer membership changes
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+import { OrganizationService } from '../OrganizationService';
+import { supabase } from '../../lib/supabaseClient';
+
+const mockRpc = supabase.rpc as jest.Mock;
+
+describe('OrganizationService', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getMemberRoster', () => {
+    it('should map roster rows and drop null profile fields', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: [
+          {
+            member_id: 'user-1',
+            member_name: 'Ada Lovelace',
+            email: 'ada@school.edu',
+            student_id: null,
+            grade: '11',
+            role: 'officer',
+            is_active: true,
+            joined_at: '2025-09-01T00:00:00Z',
+          },
+        ],
+        error: null,
+      });
+
+      const result = await OrganizationService.getMemberRoster('org-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_member_roster', { p_org_id: 'org-1' });
+      expect(result.error).toBeNull();
+      expect(result.data).toEqual([
+        {
+          member_id: 'user-1',
+          member_name: 'Ada Lovelace',
+          email: 'ada@school.edu',
+          student_id: undefined,
+          grade: '11',
+          role: 'officer',
+          is_active: true,
+          joined_at: '2025-09-01T00:00:00Z',
+        },
+      ]);
+    });
+
+    it('should return the database error', async () => {
+      const error = new Error('Only officers can view the member roster');
+      mockRpc.mockResolvedValueOnce({ data: null, error });
+
+      const result = await OrganizationService.getMemberRoster('org-1');
+
+      expect(result).toEqual({ data: [], error });
+    });
+  });
+
+  describe('getMemberActivitySummary', () => {
+    it('should convert numeric totals', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: {
+          verified_hours: '12.5',
+          pending_hours: '2',
+          rejected_count: 1,
+          last_submitted_at: null,
+          events_attended: 4,
+          last_attended_at: '2025-10-01T18:00:00Z',
+          recent_activity: [],
+        },
+        error: null,
+      });
+
+      const result = await OrganizationService.getMemberActivitySummary('org-1', 'user-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_member_activity_summary', {
+        p_org_id: 'org-1',
+        p_member_id: 'user-1',
+      });
+      expect(result.data).toEqual({
+        verified_hours: 12.5,
+        pending_hours: 2,
+        rejected_count: 1,
+        last_submitted_at: undefined,
+        events_attended: 4,
+        last_attended_at: '2025-10-01T18:00:00Z',
+        recent_activity: [],
+      });
+    });
+  });
+
+  describe('updateMembershipRole', () => {
+    it('should change the role through the officer function', async () => {
+      const membership = { id: 'm-1', user_id: 'user-1', org_id: 'org-1', role: 'officer', is_active: true };
+      mockRpc.mockResolvedValueOnce({ data: { success: true, membership }, error: null });
+
+      const result = await OrganizationService.updateMembershipRole('user-1', 'org-1', 'officer');
+
+      expect(mockRpc).toHaveBeenCalledWith('set_member_role', {
+        p_org_id: 'org-1',
+        p_member_id: 'user-1',
+        p_role: 'officer',
+      });
+      expect(result).toEqual({ data: membership, error: null });
+    });
+
+    it('should surface the database message when the change is refused', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'self_change', message: 'Ask another officer to change your own role' },
+        error: null,
+      });
+
+      const result = await OrganizationService.updateMembershipRole('user-1', 'org-1', 'member');
+
+      expect(result.data).toBeNull();
+      expect(result.error?.message).toBe('Ask another officer to change your own role');
+    });
+  });
+
+  describe('deactivateMembership', () => {
+    it('should surface the database message when the member is not active', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'not_found', message: 'Member is not active in this organization' },
+        error: null,
+      });
+
+      const result = await OrganizationService.deactivateMembership('user-2', 'org-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('deactivate_member', {
+        p_org_id: 'org-1',
+        p_member_id: 'user-2',
+      });
+      expect(result.error?.message).toBe('Member is not active in this organization');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * VerificationCodeService Tests
+ * Tests code validation, creation and revocation results, and status derivation
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () =>
+  require('../../__tests__/helpers/serviceTestUtils').mockPermissionErrorHandlerModule()
+);
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+import { VerificationCodeService } from '../VerificationCodeService';
+import { supabase } from '../../lib/supabaseClient';
+import { createQueryBuilder } from '../../__tests__/helpers/serviceTestUtils';
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+describe('VerificationCodeService', () => {
+  let service: VerificationCodeService;
+
+  beforeEach(() => {
+    service = new VerificationCodeService();
+    mockFrom.mockReset();
+    mockRpc.mockReset();
+  });
+
+  describe('createCode', () => {
+    const validRequest = {
+      granted_role: 'member' as const,
+      max_uses: 25,
+      expires_at: inDays(30),
+      bound_email: '  Student@School.edu ',
+      label: ' Fall induction ',
+    };
+
+    it('should ask the database to mint the code', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, code_id: 'code-1', code: 'K7QP3XMA' },
+        error: null,
+      });
+
+      const result = await service.createCode('org-1', validRequest);
+
+      expect(mockRpc).toHaveBeenCalledWith('create_verification_code', {
+        p_org_id: 'org-1',
+        p_granted_role: 'member',
+        p_max_uses: 25,
+        p_expires_at: validRequest.expires_at,
+        p_bound_email: 'student@school.edu',
+        p_label: 'Fall induction',
+      });
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ code_id: 'code-1', code: 'K7QP3XMA' });
+    });
+
+    it('should surface a refusal from the database', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'unauthorized', message: 'Only officers can create verification codes' },
+        error: null,
+      });
+
+      const result = await service.createCode('org-1', validRequest);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Only officers can create verification codes');
+    });
+
+    it('should reject a usage cap outside the allowed range', async () => {
+      const result = await service.createCode('org-1', { ...validRequest, max_uses: 0 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Max uses must be a whole number between 1 and 500');
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expiry in the past', async () => {
+      const result = await service.createCode('org-1', { ...validRequest, expires_at: inDays(-1) });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Expiry must be in the future');
+    });
+  });
+
+  describe('getCodes', () => {
+    it('should derive each code status and sort redemptions newest first', async () => {
+      mockFrom.mockReturnValue(createQueryBuilder({
+        data: [
+          {
+            id: 'code-1', org_id: 'org-1', code: 'AAAA2222', granted_role: 'member', max_uses: 2, use_count: 2,
+            expires_at: inDays(10), created_at: '2026-10-01T00:00:00Z',
+            redemptions: [
+              { id: 'r-1', email: 'a@school.edu', role: 'member', redeemed_at: '2026-10-02T00:00:00Z' },
+              { id: 'r-2', email: 'b@school.edu', role: 'member', redeemed_at: '2026-10-05T00:00:00Z' },
+            ],
+          },
+          {
+            id: 'code-2', org_id: 'org-1', code: 'BBBB3333', granted_role: 'officer', max_uses: 5, use_count: 0,
+            expires_at: inDays(-1), created_at: '2026-09-01T00:00:00Z', redemptions: [],
+          },
+          {
+            id: 'code-3', org_id: 'org-1', code: 'CCCC4444', granted_role: 'member', max_uses: 5, use_count: 1,
+            expires_at: inDays(10), revoked_at: '2026-10-10T00:00:00Z', created_at: '2026-08-01T00:00:00Z',
+          },
+          {
+            id: 'code-4', org_id: 'org-1', code: 'DDDD5555', granted_role: null, max_uses: 10, use_count: 3,
+            expires_at: inDays(10), created_at: '2026-07-01T00:00:00Z', redemptions: [],
+          },
+        ],
+        error: null,
+      }));
+
+      const result = await service.getCodes('org-1');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(code => code.status)).toEqual(['used_up', 'expired', 'revoked', 'active']);
+      expect(result.data?.[0].redemptions.map(redemption => redemption.id)).toEqual(['r-2', 'r-1']);
+      expect(result.data?.[2].redemptions).toEqual([]);
+      expect(result.data?.[3].granted_role).toBeUndefined();
+    });
+  });
+
+  describe('revokeCode', () => {
+    it('should revoke the code', async () => {
+      mockRpc.mockResolvedValueOnce({ data: { success: true, code_id: 'code-1' }, error: null });
+
+      const result = await service.revokeCode('code-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('revoke_verification_code', { p_code_id: 'code-1' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should surface a refusal from the database', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'already_revoked', message: 'This verification code has already been revoked' },
+        error: null,
+      });
+
+      const result = await service.revokeCode('code-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('This verification code has already been revoked');
+    });
+  });
+});
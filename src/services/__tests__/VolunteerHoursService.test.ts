@@ -0,0 +1,251 @@
+/**
+ * VolunteerHoursService Tests
+ * Tests bulk approve/reject, rejection reason templates, resubmission and
+ * supervisor sign-off requests
+ */
+
+jest.mock('../../lib/supabaseClient', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+    functions: {
+      invoke: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../NetworkErrorHandler', () => ({
+  networkErrorHandler: {
+    executeWithRetry: jest.fn((operation: () => Promise<any>) => operation()),
+  },
+}));
+
+jest.mock('../PermissionErrorHandler', () =>
+  require('../../__tests__/helpers/serviceTestUtils').mockPermissionErrorHandlerModule()
+);
+
+jest.mock('../DataValidationService', () => ({
+  dataValidationService: {},
+}));
+
+jest.mock('../ErrorReportingService', () => ({
+  errorReportingService: {},
+}));
+
+jest.mock('../NotificationService', () => ({
+  notificationService: {
+    sendVolunteerHoursNotification: jest.fn(),
+  },
+}));
+
+import { VolunteerHoursService } from '../VolunteerHoursService';
+import { supabase } from '../../lib/supabaseClient';
+import { createQueryBuilder, mockCurrentUser } from '../../__tests__/helpers/serviceTestUtils';
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+const mockInvoke = supabase.functions.invoke as jest.Mock;
+
+describe('VolunteerHoursService', () => {
+  let service: VolunteerHoursService;
+
+  beforeEach(() => {
+    service = new VolunteerHoursService();
+    mockFrom.mockReset();
+    mockRpc.mockReset();
+    mockInvoke.mockReset();
+    mockCurrentUser(service, 'officer-1');
+  });
+
+  describe('bulk review', () => {
+    it('should approve the selection with a single RPC call', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, action: 'approve', updated_count: 3, member_count: 2 },
+        error: null,
+      });
+
+      const result = await service.bulkApproveVolunteerHours(['hour-1', 'hour-2', 'hour-3']);
+
+      expect(mockRpc).toHaveBeenCalledTimes(1);
+      expect(mockRpc).toHaveBeenCalledWith('bulk_review_volunteer_hours', {
+        p_hour_ids: ['hour-1', 'hour-2', 'hour-3'],
+        p_action: 'approve',
+        p_reason: null,
+      });
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ action: 'approve', updated_count: 3, awaiting_second_approval_count: 0, member_count: 2 });
+    });
+
+    it('should pass the shared reason when rejecting', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, action: 'reject', updated_count: 2, member_count: 1 },
+        error: null,
+      });
+
+      await service.bulkRejectVolunteerHours(['hour-1', 'hour-2'], '  Missing proof of service  ');
+
+      expect(mockRpc).toHaveBeenCalledWith('bulk_review_volunteer_hours', {
+        p_hour_ids: ['hour-1', 'hour-2'],
+        p_action: 'reject',
+        p_reason: 'Missing proof of service',
+      });
+    });
+
+    it('should require a reason before rejecting', async () => {
+      const result = await service.bulkRejectVolunteerHours(['hour-1'], '   ');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('A rejection reason is required');
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should surface the reason the whole batch was refused', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'already_reviewed', message: 'Some selected submissions have already been reviewed' },
+        error: null,
+      });
+
+      const result = await service.bulkApproveVolunteerHours(['hour-1', 'hour-2']);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Some selected submissions have already been reviewed');
+    });
+  });
+
+  describe('rejection reason templates', () => {
+    it('should save a trimmed template for the organization', async () => {
+      const builder = createQueryBuilder({
+        data: { id: 'template-1', org_id: 'org-1', label: 'Missing proof', reason: 'Please attach a photo or signed form.' },
+        error: null,
+      });
+      mockFrom.mockReturnValue(builder);
+
+      const result = await service.createRejectionReasonTemplate('org-1', ' Missing proof ', 'Please attach a photo or signed form. ');
+
+      expect(builder.insert).toHaveBeenCalledWith({
+        org_id: 'org-1',
+        label: 'Missing proof',
+        reason: 'Please attach a photo or signed form.',
+        created_by: 'officer-1',
+      });
+      expect(result.success).toBe(true);
+      expect(result.data?.id).toBe('template-1');
+    });
+  });
+
+  describe('resubmission', () => {
+    it('should create a linked revision and load it with the rejected version', async () => {
+      jest.spyOn(service as any, 'notifyOfficersOfSubmission').mockResolvedValue(undefined);
+      mockRpc.mockResolvedValueOnce({
+        data: { success: true, hour_id: 'hour-2', previous_version_id: 'hour-1' },
+        error: null,
+      });
+      mockFrom.mockReturnValue(createQueryBuilder({
+        data: {
+          id: 'hour-2',
+          member_id: 'member-1',
+          org_id: 'org-1',
+          hours: 3,
+          description: 'External Hours: Food Bank',
+          activity_date: '2026-10-01',
+          submitted_at: '2026-10-05T12:00:00Z',
+          approved: false,
+          status: 'pending',
+          previous_version_id: 'hour-1',
+          previous_version: {
+            id: 'hour-1',
+            hours: 5,
+            description: 'External Hours: Food Bank',
+            activity_date: '2026-10-01',
+            rejection_reason: 'Hours do not match the sign-in sheet',
+          },
+        },
+        error: null,
+      }));
+
+      const result = await service.resubmitVolunteerHours('hour-1', {
+        hours: 3,
+        description: 'External Hours: Food Bank',
+        activity_date: '2026-10-01',
+      });
+
+      expect(mockRpc).toHaveBeenCalledWith('resubmit_volunteer_hours', {
+        p_hour_id: 'hour-1',
+        p_hours: 3,
+        p_activity_date: '2026-10-01',
+        p_description: 'External Hours: Food Bank',
+        p_event_id: null,
+        p_image_url: null,
+      });
+      expect(result.success).toBe(true);
+      expect(result.data?.previous_version_id).toBe('hour-1');
+      expect(result.data?.previous_version).toEqual(expect.objectContaining({
+        hours: 5,
+        rejection_reason: 'Hours do not match the sign-in sheet',
+      }));
+    });
+
+    it('should surface why the resubmission was refused', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: { success: false, error: 'already_resubmitted', message: 'These volunteer hours have already been resubmitted' },
+        error: null,
+      });
+
+      const result = await service.resubmitVolunteerHours('hour-1', { hours: 3 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('These volunteer hours have already been resubmitted');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('supervisor sign-off', () => {
+    it('should ask the edge function to email the supervisor', async () => {
+      mockInvoke.mockResolvedValueOnce({
+        data: { success: true, expires_at: '2026-11-02T12:00:00Z' },
+        error: null,
+      });
+
+      const result = await service.requestSupervisorSignOff('hour-1', {
+        supervisor_name: ' Dana Lee ',
+        supervisor_email: 'Dana.Lee@FoodBank.org ',
+      });
+
+      expect(mockInvoke).toHaveBeenCalledWith('supervisor-sign-off', {
+        body: {
+          hour_id: 'hour-1',
+          supervisor_name: 'Dana Lee',
+          supervisor_email: 'dana.lee@foodbank.org',
+        },
+      });
+      expect(result.success).toBe(true);
+      expect(result.data?.expires_at).toBe('2026-11-02T12:00:00Z');
+    });
+
+    it('should not send a request without a valid email', async () => {
+      const result = await service.requestSupervisorSignOff('hour-1', {
+        supervisor_name: 'Dana Lee',
+        supervisor_email: 'dana.lee',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Enter a valid supervisor email address');
+      expect(mockInvoke).not.toHaveBeenCalled();
+    });
+
+    it('should surface why the request was refused', async () => {
+      mockInvoke.mockResolvedValueOnce({
+        data: { success: false, error: 'Supervisor sign-off is only available for external activities' },
+        error: null,
+      });
+
+      const result = await service.requestSupervisorSignOff('hour-1', {
+        supervisor_name: 'Dana Lee',
+        supervisor_email: 'dana.lee@foodbank.org',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Supervisor sign-off is only available for external activities');
+    });
+  });
+});
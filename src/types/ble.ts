@@ -20,6 +20,8 @@ export interface AttendanceBeaconPayload {
 export interface AttendanceSession {
   sessionToken: string;
   orgCode: number;
+  beaconMinor?: number; // Server-allocated beacon Minor slot, or the last heard rotating code
+  rotating?: boolean; // Minor rotates per time window (replay protection)
   title: string;
   expiresAt: Date;
   isActive: boolean;
@@ -28,6 +30,30 @@ export interface AttendanceSession {
   createdByName?: string; // Display name of creator
 }
 
+export interface BLESessionOptions {
+  rotatingBeacon?: boolean; // Advertise a time-based code instead of a fixed Minor
+  rotationIntervalSeconds?: number; // Window length for rotating codes (10-300, default 30)
+  minDwellSeconds?: number; // Members must hear the beacon this long before checking in
+  minRssi?: number; // Minimum average signal strength (dBm) for a check-in
+  checkoutEnabled?: boolean; // Members check out (explicitly or when the beacon is lost)
+  creditVolunteerHours?: boolean; // Credit the stay as pre-verified volunteer hours
+}
+
+export interface BeaconEvidence {
+  rssiSamples: number[]; // Most recent RSSI readings for the session beacon (dBm)
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface CheckOutResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  checkedOutAt?: Date;
+  durationSeconds?: number;
+  volunteerHoursId?: string;
+}
+
 export interface BLEContextProps {
   bluetoothState: string;
   detectedBeacons: Beacon[];
@@ -44,13 +70,17 @@ export interface BLEContextProps {
 
 export interface AttendanceBLEContextProps extends BLEContextProps {
   // Session management
-  createAttendanceSession: (title: string, ttlSeconds: number, orgId?: string) => Promise<string>;
+  createAttendanceSession: (title: string, ttlSeconds: number, orgId?: string, options?: BLESessionOptions) => Promise<string>;
   startAttendanceSession: (sessionToken: string, orgCode: number) => Promise<void>;
   stopAttendanceSession: (orgCode: number) => Promise<void>;
+  getAttendanceEvidence: (sessionToken: string) => BeaconEvidence | null;
+  trackCheckIn: (session: AttendanceSession) => void;
+  checkOutOfSession: (sessionToken: string) => Promise<CheckOutResult>;
   
   // Status
   currentSession: AttendanceSession | null;
   detectedSessions: AttendanceSession[];
+  activeCheckIns: AttendanceSession[]; // Checked in to sessions that expect a check-out
 }
 
 export interface BLEHelperType {
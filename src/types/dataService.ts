@@ -75,15 +75,66 @@ export interface VolunteerHourData {
   image_path?: string;  // File path for private R2 stored proof image (deprecated)
   image_url?: string;   // Public URL for proof images stored in public R2 bucket
   // Verification fields
-  status: 'pending' | 'verified' | 'rejected';
+  status: 'pending' | 'officer_approved' | 'verified' | 'rejected';
   rejection_reason?: string;
   verified_by?: UUID;
   verified_at?: string;
+  first_approved_by?: UUID;   // Set when a second officer approval is required
+  first_approved_at?: string;
+  previous_version_id?: UUID; // Rejected entry this submission revises
+  // External supervisor sign-off
+  supervisor_name?: string;
+  supervisor_email?: string;
+  supervisor_status?: SupervisorSignOffStatus;
+  supervisor_requested_at?: string;
+  supervisor_responded_at?: string;
+  supervisor_comment?: string;
   // Computed fields
   member_name?: string;
   approver_name?: string;
+  first_approver_name?: string;
   event_name?: string;  // Name of associated event if event_id is present
   can_edit?: boolean;
+  previous_version?: VolunteerHourPreviousVersion;
+}
+
+export type SupervisorSignOffStatus = 'requested' | 'confirmed' | 'denied';
+
+export interface SupervisorSignOffRequest {
+  supervisor_name: string;
+  supervisor_email: string;
+}
+
+/**
+ * Rejected entry a resubmission replaces, as shown to reviewers
+ */
+export interface VolunteerHourPreviousVersion {
+  id: UUID;
+  hours: number;
+  description?: string;
+  activity_date?: string;
+  event_id?: UUID;
+  event_name?: string;
+  image_url?: string;
+  rejection_reason?: string;
+}
+
+export type VolunteerHoursReviewAction = 'approve' | 'reject';
+
+export interface BulkReviewResult {
+  action: VolunteerHoursReviewAction;
+  updated_count: number;
+  awaiting_second_approval_count: number;
+  member_count: number;
+}
+
+export interface RejectionReasonTemplate {
+  id: UUID;
+  org_id: UUID;
+  label: string;
+  reason: string;
+  created_by?: UUID;
+  created_at: string;
 }
 
 /**
@@ -99,6 +150,9 @@ export interface AttendanceRecord {
   recorded_by?: UUID;
   status?: string;
   note?: string;
+  checked_out_at?: string;
+  duration_seconds?: number;
+  checkout_method?: string;
   // Computed fields
   event_title?: string;
   event_date?: string;
@@ -106,6 +160,202 @@ export interface AttendanceRecord {
   recorded_by_name?: string;
 }
 
+export type AttendanceRosterStatus = 'present' | 'absent' | 'excused';
+
+/**
+ * Roster row for officer attendance management (one per active member)
+ */
+export interface AttendanceRosterEntry {
+  member_id: UUID;
+  member_name: string;
+  role: string;
+  attendance_id?: UUID;
+  status: AttendanceRosterStatus;
+  method?: string;
+  recorded_at?: string;
+  recorded_by?: UUID;
+  note?: string;
+}
+
+export type EventRSVPStatus = 'going' | 'maybe' | 'not_going' | 'waitlisted';
+
+/**
+ * RSVP counts for one event, plus the current member's own answer
+ */
+export interface EventRSVPSummary {
+  event_id: UUID;
+  going_count: number;
+  maybe_count: number;
+  not_going_count: number;
+  waitlisted_count: number;
+  my_status?: EventRSVPStatus;
+  my_waitlist_position?: number;
+}
+
+/**
+ * RSVP row for the officer report; no_show is set once the event is over
+ */
+export interface EventRSVPReportEntry {
+  member_id: UUID;
+  member_name: string;
+  status: EventRSVPStatus;
+  waitlisted_at?: string;
+  responded_at?: string;
+  attended: boolean;
+  no_show: boolean;
+}
+
+export interface SetEventRSVPResult {
+  status: EventRSVPStatus;
+  previous_status?: EventRSVPStatus;
+  waitlist_position?: number;
+  promoted_member_ids: UUID[];
+}
+
+export type GraduationRequirementType = 'verified_hours' | 'organization_event_hours' | 'meetings_attended';
+export type GraduationRequirementPeriod = 'semester' | 'year';
+
+/**
+ * Officer-defined rule a member must meet by ends_on
+ */
+export interface GraduationRequirement {
+  id: UUID;
+  org_id: UUID;
+  name: string;
+  requirement_type: GraduationRequirementType;
+  target_value: number; // Hours, or number of meetings for meetings_attended
+  period: GraduationRequirementPeriod;
+  starts_on: string;
+  ends_on: string;
+  is_active: boolean;
+  created_by?: UUID;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CreateGraduationRequirementRequest {
+  name: string;
+  requirement_type: GraduationRequirementType;
+  target_value: number;
+  period: GraduationRequirementPeriod;
+  starts_on: string;
+  ends_on: string;
+}
+
+/**
+ * A member's progress toward one requirement; expected_value is the even-pace target for today
+ */
+export interface RequirementProgress {
+  requirement_id: UUID;
+  name: string;
+  requirement_type: GraduationRequirementType;
+  period: GraduationRequirementPeriod;
+  target_value: number;
+  current_value: number;
+  expected_value: number;
+  starts_on: string;
+  ends_on: string;
+  days_remaining: number;
+  is_met: boolean;
+}
+
+export interface AtRiskMember {
+  member_id: UUID;
+  member_name: string;
+  requirement_id: UUID;
+  requirement_name: string;
+  requirement_type: GraduationRequirementType;
+  target_value: number;
+  current_value: number;
+  expected_value: number;
+  ends_on: string;
+  days_remaining: number;
+}
+
+export type VerificationCodeRole = 'member' | 'officer';
+export type VerificationCodeStatus = 'active' | 'used_up' | 'expired' | 'revoked';
+
+/**
+ * Account created with a verification code
+ */
+export interface VerificationCodeRedemption {
+  id: UUID;
+  user_id?: UUID;
+  email: string;
+  role: string;
+  redeemed_at: string;
+}
+
+/**
+ * Officer-issued signup code; status is derived from revocation, expiry and usage
+ */
+export interface ManagedVerificationCode {
+  id: UUID;
+  org_id: UUID;
+  code: string;
+  label?: string;
+  granted_role?: VerificationCodeRole; // Unset on legacy codes, which accept either role
+  max_uses?: number;
+  use_count: number;
+  bound_email?: string;
+  expires_at?: string;
+  revoked_at?: string;
+  created_by?: UUID;
+  created_at: string;
+  status: VerificationCodeStatus;
+  redemptions: VerificationCodeRedemption[];
+}
+
+export interface CreateVerificationCodeRequest {
+  granted_role: VerificationCodeRole;
+  max_uses: number;
+  expires_at: string;
+  bound_email?: string;
+  label?: string;
+}
+
+/**
+ * Member whose email is locked out of sign-in after repeated failed attempts
+ */
+export interface LockedAccount {
+  member_id: UUID;
+  member_name: string;
+  email: string;
+  locked_until: string;
+  lockout_level: number; // How many times the lockout has escalated
+}
+
+export type AccountDeletionStatus = 'scheduled' | 'cancelled' | 'completed';
+
+/**
+ * A member's request to delete their account, carried out once the grace period ends
+ */
+export interface AccountDeletionRequest {
+  id: UUID;
+  requested_at: string;
+  scheduled_for: string;
+  status: AccountDeletionStatus;
+  cancelled_at?: string;
+}
+
+/**
+ * Copy of everything stored about a member, as returned by the export function
+ */
+export interface AccountDataExport {
+  generated_at: string;
+  profile: Record<string, unknown> | null;
+  memberships: Record<string, unknown>[];
+  attendance: Record<string, unknown>[];
+  volunteer_hours: Record<string, unknown>[];
+  event_rsvps: Record<string, unknown>[];
+  images: {
+    volunteer_hour_id: UUID;
+    path: string;
+    url: string | null; // Signed download link; null if it couldn't be created
+    expires_at: string | null;
+  }[];
+}
+
 /**
  * Enhanced Announcement interface with computed fields
  */
@@ -178,6 +428,19 @@ export interface CreateAttendanceRequest {
   note?: string;
 }
 
+export interface BulkAttendanceOverrideRequest {
+  event_id: UUID;
+  member_ids: UUID[];
+  status: AttendanceRosterStatus;
+  note: string; // Required reason, stored on the record and in the audit log
+}
+
+export interface BulkAttendanceOverrideResult {
+  updated_count: number;
+  unchanged_count: number;
+  skipped_member_ids: UUID[];
+}
+
 export interface UpdateProfileRequest {
   first_name?: string;
   last_name?: string;
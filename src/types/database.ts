@@ -15,6 +15,7 @@ export interface Organization {
   slug: string;         // Human-friendly identifier (nhs, nhsa)
   name: string;         // Display name
   description?: string; // Optional description
+  beacon_major?: number; // Registered BLE beacon Major code (unique per organization)
   settings: {           // Organization-specific configuration
     features: string[];
     branding: {
@@ -97,6 +98,9 @@ export interface Attendance {
   recorded_by?: UUID;   // Who recorded the attendance
   status?: string;      // Status field (text, not enum)
   note?: string;        // Optional note
+  checked_out_at?: string; // When the member checked out (check-out sessions)
+  duration_seconds?: number; // Total time checked in
+  checkout_method?: 'explicit' | 'auto' | 'session_end';
 }
 
 /**
@@ -116,6 +120,7 @@ export interface VolunteerHours {
   approved_at?: string;
   attachment_file_id?: UUID; // File attachment reference
   event_id?: UUID;      // Optional reference to organization event
+  attendance_id?: UUID; // Attendance the hours were credited from (pre-verified)
   // New status system fields
   status: VolunteerHoursStatus; // Current status: pending, verified, rejected
   rejection_reason?: string;    // Required when status is rejected
@@ -157,6 +162,12 @@ export interface VerificationCode {
   used_by?: UUID;       // References profiles.id
   used_at?: string;
   expires_at: string;
+  granted_role?: 'member' | 'officer'; // Role the code grants at signup
+  max_uses?: number;
+  use_count: number;
+  bound_email?: string; // Only this email can redeem the code
+  label?: string;
+  revoked_at?: string;
   created_by: UUID;     // Officer who created the code
   created_at: string;
 }
@@ -226,7 +237,7 @@ export type EventCategory = 'volunteer' | 'meeting' | 'social' | 'fundraising' |
 export type AttendanceStatus = 'present' | 'absent' | 'late' | 'excused';
 
 // VolunteerHours status enum - matches database enum values
-export type VolunteerHoursStatus = 'pending' | 'verified' | 'rejected';
+export type VolunteerHoursStatus = 'pending' | 'officer_approved' | 'verified' | 'rejected';
 
 export type VerificationCodeType = 'signup' | 'officer_promotion' | 'event_access' | 'admin_access';
 
@@ -269,6 +280,38 @@ export interface UserMembership {
   joined_at: string;
 }
 
+/**
+ * A membership as listed on the officer roster
+ */
+export interface RosterMember {
+  member_id: UUID;
+  member_name: string;
+  email?: string;
+  student_id?: string;
+  grade?: string;
+  role: MembershipRole;
+  is_active: boolean;
+  joined_at: string;
+}
+
+/**
+ * Hours, attendance and recent activity for one member
+ */
+export interface MemberActivitySummary {
+  verified_hours: number;
+  pending_hours: number;
+  rejected_count: number;
+  last_submitted_at?: string;
+  events_attended: number;
+  last_attended_at?: string;
+  recent_activity: {
+    type: 'volunteer_hours' | 'attendance';
+    title: string;
+    detail: string;
+    occurred_at: string;
+  }[];
+}
+
 /**
  * Enhanced user context with multi-organization support
  */
@@ -324,9 +367,18 @@ export const DATABASE_TABLES = {
   MEMBERSHIPS: 'memberships',
   EVENTS: 'events',
   ATTENDANCE: 'attendance',
+  EVENT_RSVPS: 'event_rsvps',
   VOLUNTEER_HOURS: 'volunteer_hours',
+  VOLUNTEER_HOURS_AUDIT: 'volunteer_hours_audit',
+  REJECTION_REASON_TEMPLATES: 'rejection_reason_templates',
+  APPROVAL_POLICIES: 'approval_policies',
+  GRADUATION_REQUIREMENTS: 'graduation_requirements',
   FILES: 'files',
   VERIFICATION_CODES: 'verification_codes',
+  VERIFICATION_CODE_REDEMPTIONS: 'verification_code_redemptions',
+  ACCOUNT_DELETION_REQUESTS: 'account_deletion_requests',
+  NOTIFICATION_INBOX: 'notification_inbox',
+  NOTIFICATION_HISTORY: 'notification_history',
   CONTACTS: 'contacts',
   BLE_BADGES: 'ble_badges',
 } as const;
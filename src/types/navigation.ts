@@ -23,7 +23,16 @@ export type OfficerStackParamList = {
   AttendanceSession: undefined;
   EventAttendance: { eventId: string };
   CreateEvent: undefined;
+  GraduationRequirements: undefined;
+  ApprovalPolicy: undefined;
+  VolunteerHoursAuditLog: undefined;
+  VerificationCodes: undefined;
+  LockedAccounts: undefined;
+  MemberRoster: undefined;
+  MemberProfile: { memberId: string };
   NotificationSettings: undefined;
+  NotificationInbox: undefined;
+  CustomNotification: undefined;
 };
 
 // Officer Tab Parameter List - Officer bottom tab navigation
@@ -31,7 +40,7 @@ export type OfficerTabParamList = {
   OfficerDashboard: undefined;
   OfficerAnnouncements: undefined;
   OfficerAttendance: undefined;
-  OfficerVerifyHours: undefined;
+  OfficerVerifyHours: { rejectHourId?: string; rejectionReason?: string } | undefined;
   OfficerEvents: undefined;
 };
 
@@ -39,6 +48,7 @@ export type OfficerTabParamList = {
 export type MemberStackParamList = {
   MemberTabs: undefined;
   NotificationSettings: undefined;
+  NotificationInbox: undefined;
 };
 
 // Member Tab Parameter List - Member bottom tab navigation
@@ -1,3 +1,5 @@
+export type NotificationDeliveryMode = 'instant' | 'daily' | 'weekly';
+
 export interface NotificationPreferences {
   announcements: boolean;
   events: boolean;
@@ -9,8 +11,91 @@ export interface NotificationPreferences {
     start_time: string; // "22:00"
     end_time: string;   // "08:00"
   };
+  delivery_mode: NotificationDeliveryMode; // Digest modes replace per-item pushes
+  timezone?: string; // Device IANA zone for quiet hours and digests, e.g. "America/New_York"
+}
+
+/**
+ * An entry in the member's in-app notification inbox
+ */
+export interface NotificationInboxItem {
+  id: string;
+  org_id?: string;
+  notification_type: 'announcement' | 'event' | 'volunteer_hours' | 'ble_session' | 'custom';
+  item_id: string;          // What tapping the entry opens
+  title: string;
+  body: string;
+  payload: Record<string, any>; // Push data handed to NotificationNavigationHandler
+  read_at?: string | null;
+  created_at: string;
 }
 
+export type CustomNotificationAudienceType =
+  | 'all_members'
+  | 'officers'
+  | 'grade'
+  | 'behind_on_hours'
+  | 'event_attendees';
+
+/**
+ * Who an officer-composed notification goes to
+ */
+export interface CustomNotificationAudience {
+  type: CustomNotificationAudienceType;
+  grade?: string;   // Required for 'grade'
+  eventId?: string; // Required for 'event_attendees'
+}
+
+export interface CustomNotificationDraft {
+  title: string;
+  body: string;
+  audience: CustomNotificationAudience;
+}
+
+export interface CustomNotificationAudiencePreview {
+  matched: number;   // Active members in the audience
+  reachable: number; // Of those, members who will get the push
+}
+
+export interface CustomNotificationSendResult {
+  notificationId: string;
+  recipientCount: number;
+  delivered: number;
+  deferred: number; // Held until the member's quiet hours end
+  failed: number;
+}
+
+/**
+ * A custom notification in the organization's send log (notification_history)
+ */
+export interface CustomNotificationLogEntry {
+  id: string;
+  title: string;
+  body: string;
+  audience: CustomNotificationAudience;
+  sent_by?: string | null;
+  recipient_count: number;
+  delivered_count?: number | null;
+  sent_at: string;
+}
+
+export interface CustomNotificationAudienceOption {
+  type: CustomNotificationAudienceType;
+  label: string;
+  description: string;
+}
+
+export const CUSTOM_NOTIFICATION_AUDIENCES: CustomNotificationAudienceOption[] = [
+  { type: 'all_members', label: 'All Members', description: 'Everyone in the organization' },
+  { type: 'officers', label: 'Officers Only', description: 'Officers and organization leadership' },
+  { type: 'grade', label: 'Grade Level', description: 'Members in one grade' },
+  { type: 'behind_on_hours', label: 'Behind on Hours', description: 'Members at risk of missing an hours requirement' },
+  { type: 'event_attendees', label: 'Event Attendees', description: 'Members who attended an event' },
+];
+
+export const CUSTOM_NOTIFICATION_TITLE_MAX_LENGTH = 65;
+export const CUSTOM_NOTIFICATION_BODY_MAX_LENGTH = 240;
+
 export interface MuteDuration {
   type: '1hour' | '1day' | '1week';
   label: string;
@@ -23,6 +108,18 @@ export const MUTE_DURATIONS: MuteDuration[] = [
   { type: '1week', label: '1 Week', hours: 168 },
 ];
 
+export interface DeliveryModeOption {
+  mode: NotificationDeliveryMode;
+  label: string;
+  description: string;
+}
+
+export const DELIVERY_MODES: DeliveryModeOption[] = [
+  { mode: 'instant', label: 'Instant', description: 'A push for each announcement, event and hours update' },
+  { mode: 'daily', label: 'Daily Digest', description: 'One summary every evening at 6 PM' },
+  { mode: 'weekly', label: 'Weekly Digest', description: 'One summary every Sunday at 6 PM' },
+];
+
 export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
   announcements: true,
   events: true,
@@ -34,6 +131,7 @@ export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
     start_time: '22:00',
     end_time: '08:00',
   },
+  delivery_mode: 'instant',
 };
 
 // Token Error Types (shared between PushTokenService and NotificationErrorHandler)
@@ -0,0 +1,64 @@
+/**
+ * Formatting for the member data export. JSON keeps everything as returned;
+ * CSV flattens each section into its own table, one after another, so it
+ * opens in a spreadsheet.
+ */
+
+import { AccountDataExport } from '../types/dataService';
+
+export type AccountExportFormat = 'json' | 'csv';
+
+/**
+ * Quotes a CSV cell when it contains a comma, quote or newline
+ */
+export const escapeCSVValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV table with a header row covering every key in the rows
+ */
+export const toCSV = (rows: Record<string, unknown>[]): string => {
+  if (rows.length === 0) return '';
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const lines = [
+    columns.map(escapeCSVValue).join(','),
+    ...rows.map(row => columns.map(column => escapeCSVValue(row[column])).join(',')),
+  ];
+
+  return lines.join('\r\n');
+};
+
+const CSV_SECTIONS: { title: string; rows: (data: AccountDataExport) => Record<string, unknown>[] }[] = [
+  { title: 'Profile', rows: data => (data.profile ? [data.profile] : []) },
+  { title: 'Memberships', rows: data => data.memberships },
+  { title: 'Attendance', rows: data => data.attendance },
+  { title: 'Volunteer Hours', rows: data => data.volunteer_hours },
+  { title: 'Event RSVPs', rows: data => data.event_rsvps },
+  { title: 'Uploaded Images', rows: data => data.images },
+];
+
+/**
+ * Formats an export as JSON or sectioned CSV
+ */
+export const formatAccountExport = (data: AccountDataExport, format: AccountExportFormat): string => {
+  if (format === 'json') {
+    return JSON.stringify(data, null, 2);
+  }
+
+  return CSV_SECTIONS
+    .map(section => {
+      const table = toCSV(section.rows(data));
+      return `${section.title}\r\n${table || 'None'}`;
+    })
+    .join('\r\n\r\n');
+};
+
+/**
+ * File name for an export, e.g. nhs-data-export-2026-01-15.csv
+ */
+export const getAccountExportFileName = (data: AccountDataExport, format: AccountExportFormat): string =>
+  `nhs-data-export-${data.generated_at.slice(0, 10)}.${format}`;
@@ -0,0 +1,66 @@
+import { VerificationAuditAction, VerificationAuditEntry } from '../services/VerificationRequestService';
+
+export const AUDIT_ACTION_LABELS: Record<VerificationAuditAction, string> = {
+  created: 'Submitted',
+  resubmitted: 'Resubmitted',
+  edited: 'Edited',
+  officer_approved: 'First Approval',
+  approved: 'Verified',
+  rejected: 'Rejected',
+  deleted: 'Deleted',
+};
+
+export const AUDIT_ACTION_ICONS: Record<VerificationAuditAction, string> = {
+  created: 'add-circle-outline',
+  resubmitted: 'replay',
+  edited: 'edit',
+  officer_approved: 'how-to-reg',
+  approved: 'check-circle',
+  rejected: 'cancel',
+  deleted: 'delete-outline',
+};
+
+// Columns worth showing when an entry is edited; bookkeeping columns are skipped
+const AUDITED_FIELD_LABELS: Record<string, string> = {
+  hours: 'Hours',
+  activity_date: 'Activity date',
+  description: 'Description',
+  event_id: 'Event',
+  image_url: 'Proof image',
+  supervisor_email: 'Supervisor',
+  supervisor_status: 'Supervisor sign-off',
+};
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return 'none';
+  return String(value);
+};
+
+/**
+ * Human-readable changes for an edit, e.g. "Hours: 2 → 3"
+ */
+export const describeAuditChanges = (entry: VerificationAuditEntry): string[] => {
+  if (entry.action !== 'edited' || !entry.new_values) return [];
+
+  return Object.keys(AUDITED_FIELD_LABELS)
+    .filter(field => field in entry.new_values!)
+    .map(field => {
+      const label = AUDITED_FIELD_LABELS[field];
+      if (field === 'image_url' || field === 'event_id') {
+        return `${label} changed`;
+      }
+      return `${label}: ${formatAuditValue(entry.old_values?.[field])} → ${formatAuditValue(entry.new_values![field])}`;
+    });
+};
+
+/**
+ * Date and time of an audit entry, e.g. "Oct 3, 2026, 4:05 PM"
+ */
+export const formatAuditTimestamp = (dateString: string): string =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
@@ -0,0 +1,133 @@
+/**
+ * iCalendar (RFC 5545) generation for exporting events to phone calendars.
+ * Keep in sync with the calendar-feed edge function, which builds the same
+ * VEVENTs for subscribed calendars.
+ */
+
+export interface ICSEvent {
+  id: string;
+  title: string;
+  description?: string;
+  location?: string;
+  link?: string;
+  event_date?: string;
+  starts_at?: string;
+  ends_at?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+const PRODUCT_ID = '-//NHS App//Events//EN';
+const UID_DOMAIN = 'nhs-app.events';
+
+/**
+ * Escapes text values (commas, semicolons, backslashes and newlines)
+ */
+export const escapeICSText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Formats a timestamp as UTC, e.g. 20260115T160000Z
+ */
+export const formatICSDateTime = (dateString: string): string =>
+  new Date(dateString).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Formats a calendar date (YYYY-MM-DD) as an all-day value, e.g. 20260115
+ */
+const formatICSDate = (dateString: string): string => dateString.slice(0, 10).replace(/-/g, '');
+
+const nextDateKey = (dateString: string): string => {
+  const [year, month, day] = dateString.slice(0, 10).split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return next.toISOString().slice(0, 10);
+};
+
+/**
+ * Folds lines longer than 75 octets as required by RFC 5545
+ */
+const foldLine = (line: string): string => {
+  if (line.length <= 75) return line;
+
+  const parts: string[] = [];
+  let remaining = line;
+  parts.push(remaining.slice(0, 75));
+  remaining = remaining.slice(75);
+
+  while (remaining.length > 0) {
+    parts.push(` ${remaining.slice(0, 74)}`);
+    remaining = remaining.slice(74);
+  }
+
+  return parts.join('\r\n');
+};
+
+const buildVEvent = (event: ICSEvent): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatICSDateTime(event.updated_at || event.created_at || new Date().toISOString())}`,
+  ];
+
+  if (event.starts_at) {
+    lines.push(`DTSTART:${formatICSDateTime(event.starts_at)}`);
+    if (event.ends_at) {
+      lines.push(`DTEND:${formatICSDateTime(event.ends_at)}`);
+    }
+  } else if (event.event_date) {
+    lines.push(`DTSTART;VALUE=DATE:${formatICSDate(event.event_date)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatICSDate(nextDateKey(event.event_date))}`);
+  }
+
+  lines.push(`SUMMARY:${escapeICSText(event.title)}`);
+
+  const description = [event.description, event.link].filter(Boolean).join('\n\n');
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeICSText(description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeICSText(event.location)}`);
+  }
+  if (event.link) {
+    lines.push(`URL:${event.link}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Builds a VCALENDAR document for one or more events
+ */
+export const buildICalendar = (events: ICSEvent[], calendarName?: string): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeICSText(calendarName)}`);
+  }
+
+  events
+    .filter(event => event.starts_at || event.event_date)
+    .forEach(event => lines.push(...buildVEvent(event)));
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * File name for a single exported event, e.g. "weekly-tutoring.ics"
+ */
+export const getICSFileName = (title: string): string => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'event'}.ics`;
+};
@@ -0,0 +1,33 @@
+import { RecurrenceRule, RecurrenceFrequency } from '../services/EventService';
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+const formatRuleDate = (dateString: string): string => {
+  // Rule dates are calendar dates; parse as local to avoid a UTC day shift
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+/**
+ * Describe a recurrence rule for display, e.g. "Every 2 weeks until Jun 1, 2026"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const unit = FREQUENCY_UNITS[rule.frequency] || 'week';
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.until) {
+    text += ` until ${formatRuleDate(rule.until)}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  }
+
+  return text;
+};
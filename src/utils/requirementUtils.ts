@@ -0,0 +1,44 @@
+import { GraduationRequirementType, GraduationRequirementPeriod } from '../types/dataService';
+
+export const REQUIREMENT_TYPE_LABELS: Record<GraduationRequirementType, string> = {
+  verified_hours: 'Verified Hours',
+  organization_event_hours: 'Organization Event Hours',
+  meetings_attended: 'Meetings Attended',
+};
+
+export const REQUIREMENT_PERIOD_LABELS: Record<GraduationRequirementPeriod, string> = {
+  semester: 'Semester',
+  year: 'School Year',
+};
+
+/**
+ * Format an amount in the requirement's unit, e.g. "12.5 hrs" or "3 meetings"
+ */
+export const formatRequirementAmount = (value: number, type: GraduationRequirementType): string => {
+  if (type === 'meetings_attended') {
+    return `${value} meeting${value === 1 ? '' : 's'}`;
+  }
+  const rounded = Math.round(value * 10) / 10;
+  return `${rounded} hr${rounded === 1 ? '' : 's'}`;
+};
+
+/**
+ * Format a requirement deadline (a calendar date) without a UTC day shift
+ */
+export const formatRequirementDate = (dateString: string): string => {
+  const [year, month, day] = dateString.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export const toDateKey = (date: Date): string => {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
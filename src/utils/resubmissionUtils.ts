@@ -0,0 +1,58 @@
+import { VolunteerHourData } from '../types/dataService';
+
+export interface ResubmissionChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return 'none';
+  return String(value);
+};
+
+const formatActivityDate = (date?: string): string =>
+  date
+    ? new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : 'none';
+
+/**
+ * Fields a member changed when resubmitting rejected hours, compared with the
+ * rejected version. Returns an empty list for first-time submissions.
+ */
+export const getResubmissionChanges = (hour: VolunteerHourData): ResubmissionChange[] => {
+  const previous = hour.previous_version;
+  if (!previous) return [];
+
+  const changes: ResubmissionChange[] = [];
+
+  if (Number(previous.hours) !== Number(hour.hours)) {
+    changes.push({ label: 'Hours', before: formatValue(previous.hours), after: formatValue(hour.hours) });
+  }
+
+  if ((previous.activity_date || '') !== (hour.activity_date || '')) {
+    changes.push({
+      label: 'Activity date',
+      before: formatActivityDate(previous.activity_date),
+      after: formatActivityDate(hour.activity_date),
+    });
+  }
+
+  if ((previous.event_id || '') !== (hour.event_id || '')) {
+    changes.push({
+      label: 'Event',
+      before: formatValue(previous.event_name || (previous.event_id ? 'Organization event' : 'External activity')),
+      after: formatValue(hour.event_name || (hour.event_id ? 'Organization event' : 'External activity')),
+    });
+  }
+
+  if ((previous.description || '') !== (hour.description || '')) {
+    changes.push({ label: 'Description', before: formatValue(previous.description), after: formatValue(hour.description) });
+  }
+
+  if ((previous.image_url || '') !== (hour.image_url || '')) {
+    changes.push({ label: 'Proof image', before: 'Previous image', after: 'New image uploaded' });
+  }
+
+  return changes;
+};
@@ -6,6 +6,7 @@
 import { BaseAnalysisEngine } from '../interfaces/AnalysisEngineInterfaces';
 import { ValidationResult, ValidationPhaseResult, ValidationProgress } from '../types/ValidationTypes';
 import { BLESessionService } from '../../services/BLESessionService';
+import OrgBeaconCodeResolver from '../../services/OrgBeaconCodeResolver';
 import { supabase } from '../../lib/supabaseClient';
 import Constants from 'expo-constants';
 
@@ -83,6 +84,9 @@ export class EndToEndFlowSimulationEngine implements BaseAnalysisEngine {
         this.testUserId = config.testUserId;
       }
 
+      // Beacon payloads resolve organization codes from the organizations table
+      await OrgBeaconCodeResolver.load();
+
       this.isInitialized = true;
       this.updateProgress('End-to-end flow simulation engine initialized', 1);
     } catch (error) {
@@ -355,7 +359,7 @@ export class EndToEndFlowSimulationEngine implements BaseAnalysisEngine {
       }
 
       // Test beacon payload generation
-      const beaconPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs');
+      const beaconPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs', 1);
       
       const executionTime = Date.now() - startTime;
 
@@ -498,8 +502,12 @@ export class EndToEndFlowSimulationEngine implements BaseAnalysisEngine {
     const startTime = Date.now();
     
     try {
-      // Generate beacon payload
-      const beaconPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs');
+      // Generate beacon payload from the session's allocated slot
+      const beaconMinor = await BLESessionService.getBeaconMinor(sessionToken);
+      if (beaconMinor === null) {
+        throw new Error('No beacon slot allocated for session');
+      }
+      const beaconPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs', beaconMinor);
       
       // Validate payload structure
       const requiredFields = ['major', 'minor', 'sessionToken', 'orgSlug'];
@@ -803,7 +811,11 @@ export class EndToEndFlowSimulationEngine implements BaseAnalysisEngine {
     
     try {
       // Generate beacon payload for the session
-      const beaconPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs');
+      const beaconMinor = await BLESessionService.getBeaconMinor(sessionToken);
+      if (beaconMinor === null) {
+        throw new Error('No beacon slot allocated for session');
+      }
+      const beaconPayload = BLESessionService.generateBeaconPayload(sessionToken, 'nhs', beaconMinor);
       
       // Simulate the beacon object that would be detected
       const detectedBeacon = {
@@ -1658,8 +1670,13 @@ export class EndToEndFlowSimulationEngine implements BaseAnalysisEngine {
       }
 
       // Test organization code validation
-      const nhsBeaconPayload = BLESessionService.generateBeaconPayload(nhsSessionToken, 'nhs');
-      const nhsaBeaconPayload = BLESessionService.generateBeaconPayload(nhsaSessionToken, 'nhsa');
+      const nhsBeaconMinor = await BLESessionService.getBeaconMinor(nhsSessionToken);
+      const nhsaBeaconMinor = await BLESessionService.getBeaconMinor(nhsaSessionToken);
+      if (nhsBeaconMinor === null || nhsaBeaconMinor === null) {
+        throw new Error('No beacon slot allocated for session');
+      }
+      const nhsBeaconPayload = BLESessionService.generateBeaconPayload(nhsSessionToken, 'nhs', nhsBeaconMinor);
+      const nhsaBeaconPayload = BLESessionService.generateBeaconPayload(nhsaSessionToken, 'nhsa', nhsaBeaconMinor);
 
       // Validate organization codes are different
       if (nhsBeaconPayload.major === nhsaBeaconPayload.major) {
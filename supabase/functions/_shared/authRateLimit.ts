@@ -0,0 +1,95 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Rate limiting shared by signin, loginPublic and signupPublic. Attempts and
+// lockouts are stored in Postgres (see 51_auth_rate_limits.sql) so every
+// isolate sees the same counts. The client must use the service role and
+// must never be signed in as a user, or the checks below fail open.
+
+export type AuthAction = 'signin' | 'signup';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  scope?: 'ip' | 'email';
+  reason?: 'locked' | 'rate_limited';
+  retryAfter?: number; // Seconds
+}
+
+/**
+ * Each proxy appends the address it received the request from to
+ * X-Forwarded-For, so only the entries added by our own proxies can be
+ * trusted; anything to their left may have been sent by the client. The
+ * client address is taken TRUSTED_PROXY_HOPS entries from the right
+ * (default 1, the platform's edge proxy).
+ */
+export function getClientIP(req: Request): string {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const addresses = forwarded.split(',').map((address) => address.trim()).filter(Boolean);
+    const hops = Math.max(1, Number(Deno.env.get('TRUSTED_PROXY_HOPS')) || 1);
+    const address = addresses[addresses.length - hops];
+    if (address) {
+      return address;
+    }
+  }
+
+  return req.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Checks lockouts and the sliding windows for this IP and email, counting the
+ * attempt when it is allowed. If the store is unreachable the attempt is let
+ * through so a database problem doesn't lock everyone out.
+ */
+export async function checkAuthRateLimit(
+  supabase: SupabaseClient,
+  action: AuthAction,
+  ip: string,
+  email?: string | null,
+): Promise<RateLimitDecision> {
+  const { data, error } = await supabase.rpc('check_auth_rate_limit', {
+    p_action: action,
+    p_ip: ip === 'unknown' ? null : ip,
+    p_email: email || null,
+  });
+
+  if (error || !data) {
+    console.error('Rate limit check failed:', error?.message);
+    return { allowed: true };
+  }
+
+  return {
+    allowed: data.allowed === true,
+    scope: data.scope,
+    reason: data.reason,
+    retryAfter: data.retry_after,
+  };
+}
+
+/**
+ * Records whether an attempt succeeded. Failures count toward lockouts;
+ * a success clears them.
+ */
+export async function recordAuthAttempt(
+  supabase: SupabaseClient,
+  ip: string,
+  email: string | null | undefined,
+  succeeded: boolean,
+): Promise<void> {
+  const { error } = await supabase.rpc('record_auth_attempt', {
+    p_ip: ip === 'unknown' ? null : ip,
+    p_email: email || null,
+    p_succeeded: succeeded,
+  });
+
+  if (error) {
+    console.error('Failed to record auth attempt:', error.message);
+  }
+}
+
+export function rateLimitMessage(decision: RateLimitDecision): string {
+  if (decision.reason === 'locked' && decision.scope === 'email') {
+    return 'This account is temporarily locked after repeated failed attempts. Try again later or ask an officer to unlock it.';
+  }
+
+  return 'Too many requests. Please try again later.';
+}
@@ -0,0 +1,50 @@
+import type { PushRecipient } from './quietHours.ts';
+
+// Digest delivery shared by the push-sending functions and
+// send-notification-digests (see 55_notification_digests.sql). Members on a
+// daily or weekly digest get one summary push per period instead of a push
+// per item.
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+export interface DigestCounts {
+  announcementsCount: number;
+  eventsCount: number;
+  volunteerHoursCount: number;
+}
+
+/**
+ * True unless the recipient has chosen a daily or weekly digest
+ */
+export function wantsInstantPush(recipient: PushRecipient): boolean {
+  const mode = recipient.notification_preferences?.delivery_mode;
+  return mode !== 'daily' && mode !== 'weekly';
+}
+
+/**
+ * Builds the digest title and body. Mirrors DigestFormatter in
+ * src/services/NotificationFormatters.ts so digests read the same as the
+ * app's own summaries.
+ */
+export function formatDigest(period: DigestPeriod, counts: DigestCounts): { title: string; body: string } {
+  const parts: string[] = [];
+
+  if (counts.announcementsCount > 0) {
+    parts.push(`${counts.announcementsCount} announcement${counts.announcementsCount > 1 ? 's' : ''}`);
+  }
+  if (counts.eventsCount > 0) {
+    parts.push(`${counts.eventsCount} event${counts.eventsCount > 1 ? 's' : ''}`);
+  }
+  if (counts.volunteerHoursCount > 0) {
+    parts.push(`${counts.volunteerHoursCount} volunteer hour update${counts.volunteerHoursCount > 1 ? 's' : ''}`);
+  }
+
+  const body = parts.length > 0
+    ? parts.join(', ') + '. Tap to view all updates.'
+    : 'Multiple updates available. Tap to view details.';
+
+  return {
+    title: period === 'weekly' ? 'Your Weekly Digest' : 'Your Daily Digest',
+    body: body.length > 100 ? body.substring(0, 97) + '...' : body,
+  };
+}
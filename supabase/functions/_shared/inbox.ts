@@ -0,0 +1,38 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { DeferredPush } from './quietHours.ts';
+
+// Adds a push to each recipient's in-app inbox (see
+// 56_notification_inbox.sql). Called with every recipient of a push, including
+// those whose delivery is held for quiet hours or a digest, so the inbox
+// shows the item straight away. A user already holding an entry for the item
+// keeps it, so repeated sends don't duplicate it. The client must use the
+// service role.
+
+/**
+ * Records the push for each user. A failure is logged but never stops the
+ * push itself from being sent.
+ */
+export async function recordInboxEntries(
+  supabase: SupabaseClient,
+  userIds: string[],
+  push: DeferredPush,
+): Promise<void> {
+  if (userIds.length === 0 || !push.itemId) return;
+
+  const { error } = await supabase.from('notification_inbox').upsert(
+    userIds.map(userId => ({
+      user_id: userId,
+      org_id: push.orgId || null,
+      notification_type: push.type,
+      item_id: push.itemId,
+      title: push.title,
+      body: push.body,
+      payload: push.data,
+    })),
+    { onConflict: 'user_id,notification_type,item_id', ignoreDuplicates: true },
+  );
+
+  if (error) {
+    console.error('Failed to record inbox entries:', error.message);
+  }
+}
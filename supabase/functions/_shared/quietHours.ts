@@ -0,0 +1,139 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Quiet hours shared by the push-sending functions. Recipients inside their
+// window are queued in deferred_notifications (see
+// 54_deferred_notifications.sql) and delivered by
+// dispatch-deferred-notifications once the window ends.
+
+interface QuietHours {
+  enabled?: boolean;
+  start_time?: string; // "22:00"
+  end_time?: string;   // "08:00"
+}
+
+export interface PushRecipient {
+  id: string;
+  notification_preferences?: {
+    quiet_hours?: QuietHours;
+    delivery_mode?: 'instant' | 'daily' | 'weekly';
+    timezone?: string; // IANA zone; quiet hours are skipped when missing or unknown
+  } | null;
+}
+
+export interface DeferredPush {
+  type: string;
+  itemId?: string;
+  orgId?: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  channelId?: string;
+  categoryId?: string;
+}
+
+const parseMinutes = (time?: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || '');
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+};
+
+const minutesInTimezone = (at: Date, timezone?: string): number | null => {
+  if (!timezone) return null;
+
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at);
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+    return part('hour') * 60 + part('minute');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns when the recipient's quiet hours end if `at` falls inside them,
+ * or null when the push can go out now. The start minute is quiet and the
+ * end minute is not, so a 22:00-08:00 window releases pushes at 08:00.
+ * Without a known timezone the window can't be placed, so nothing is held.
+ */
+export function getQuietHoursEnd(recipient: PushRecipient, at: Date = new Date()): Date | null {
+  const preferences = recipient.notification_preferences;
+  const quietHours = preferences?.quiet_hours;
+  if (!quietHours?.enabled) return null;
+
+  const start = parseMinutes(quietHours.start_time);
+  const end = parseMinutes(quietHours.end_time);
+  if (start === null || end === null || start === end) return null;
+
+  const now = minutesInTimezone(at, preferences?.timezone);
+  if (now === null) return null;
+
+  const inWindow = start < end
+    ? now >= start && now < end
+    : now >= start || now < end; // Overnight, e.g. 22:00-08:00
+
+  if (!inWindow) return null;
+
+  const minutesUntilEnd = (end - now + 1440) % 1440;
+  const endsAt = new Date(at.getTime() + minutesUntilEnd * 60_000);
+  endsAt.setUTCSeconds(0, 0);
+  return endsAt;
+}
+
+/**
+ * Splits recipients into those who can be sent to now and those who are in
+ * quiet hours, queueing the push for the latter. If queueing fails the
+ * recipients are sent to now rather than dropped.
+ */
+export async function deferQuietHoursRecipients<T extends PushRecipient>(
+  supabase: SupabaseClient,
+  recipients: T[],
+  push: DeferredPush,
+): Promise<{ sendNow: T[]; deferred: number }> {
+  const now = new Date();
+  const sendNow: T[] = [];
+  const rows = [];
+
+  for (const recipient of recipients) {
+    const deliverAfter = getQuietHoursEnd(recipient, now);
+    if (!deliverAfter) {
+      sendNow.push(recipient);
+      continue;
+    }
+
+    rows.push({
+      user_id: recipient.id,
+      org_id: push.orgId || null,
+      notification_type: push.type,
+      item_id: push.itemId || null,
+      title: push.title,
+      body: push.body,
+      data: push.data,
+      channel_id: push.channelId || null,
+      category_id: push.categoryId || null,
+      deliver_after: deliverAfter.toISOString(),
+    });
+  }
+
+  if (rows.length === 0) {
+    return { sendNow, deferred: 0 };
+  }
+
+  const { error } = await supabase.from('deferred_notifications').insert(rows);
+
+  if (error) {
+    console.error('Failed to queue quiet-hours notifications, sending now:', error.message);
+    return { sendNow: recipients, deferred: 0 };
+  }
+
+  return { sendNow, deferred: rows.length };
+}
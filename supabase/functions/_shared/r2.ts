@@ -0,0 +1,59 @@
+import { S3Client, DeleteObjectsCommand, GetObjectCommand } from 'https://esm.sh/@aws-sdk/client-s3@3';
+import { getSignedUrl } from 'https://esm.sh/@aws-sdk/s3-request-presigner@3';
+
+// Private R2 bucket holding volunteer hour proof images. Configured with
+// R2_ENDPOINT, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY and R2_PRIVATE_BUCKET_NAME.
+
+let client: S3Client | null = null;
+
+const requireEnv = (name: string): string => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing ${name} environment variable`);
+  }
+  return value;
+};
+
+const getClient = (): S3Client => {
+  if (!client) {
+    client = new S3Client({
+      region: 'auto',
+      endpoint: requireEnv('R2_ENDPOINT'),
+      credentials: {
+        accessKeyId: requireEnv('R2_ACCESS_KEY_ID'),
+        secretAccessKey: requireEnv('R2_SECRET_ACCESS_KEY'),
+      },
+      // R2 needs path-style addressing
+      forcePathStyle: true,
+    });
+  }
+  return client;
+};
+
+export async function presignPrivateImage(key: string, expiresInSeconds: number): Promise<string> {
+  return await getSignedUrl(
+    getClient(),
+    new GetObjectCommand({ Bucket: requireEnv('R2_PRIVATE_BUCKET_NAME'), Key: key }),
+    { expiresIn: expiresInSeconds },
+  );
+}
+
+/**
+ * Deletes objects from the private bucket. Keys that no longer exist are not
+ * errors; any other failure throws so the caller can retry later.
+ */
+export async function deletePrivateImages(keys: string[]): Promise<void> {
+  // DeleteObjects accepts at most 1000 keys per request
+  for (let i = 0; i < keys.length; i += 1000) {
+    const batch = keys.slice(i, i + 1000);
+    const result = await getClient().send(new DeleteObjectsCommand({
+      Bucket: requireEnv('R2_PRIVATE_BUCKET_NAME'),
+      Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+    }));
+
+    const failures = (result.Errors || []).filter((error) => error.Code !== 'NoSuchKey');
+    if (failures.length > 0) {
+      throw new Error(`Failed to delete ${failures.length} image(s): ${failures[0].Message || failures[0].Code}`);
+    }
+  }
+}
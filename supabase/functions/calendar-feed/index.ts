@@ -0,0 +1,146 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+// Calendar apps poll this URL without signing in; the token in the query
+// string identifies the member and organization (see get_calendar_feed).
+// The VEVENT layout matches src/utils/icsUtils.ts in the app.
+
+interface FeedEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  link: string | null;
+  event_date: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+const UID_DOMAIN = 'nhs-app.events';
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const formatDateTime = (dateString: string): string =>
+  new Date(dateString).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (dateString: string): string => dateString.slice(0, 10).replace(/-/g, '');
+
+const nextDateKey = (dateString: string): string => {
+  const [year, month, day] = dateString.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+};
+
+const foldLine = (line: string): string => {
+  if (line.length <= 75) return line;
+
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join('\r\n');
+};
+
+const buildCalendar = (calendarName: string, events: FeedEvent[]): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NHS App//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const event of events) {
+    if (!event.starts_at && !event.event_date) continue;
+
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${event.id}@${UID_DOMAIN}`);
+    lines.push(`DTSTAMP:${formatDateTime(event.updated_at || event.created_at || new Date().toISOString())}`);
+
+    if (event.starts_at) {
+      lines.push(`DTSTART:${formatDateTime(event.starts_at)}`);
+      if (event.ends_at) {
+        lines.push(`DTEND:${formatDateTime(event.ends_at)}`);
+      }
+    } else if (event.event_date) {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.event_date)}`);
+      lines.push(`DTEND;VALUE=DATE:${formatDate(nextDateKey(event.event_date))}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.title)}`);
+
+    const description = [event.description, event.link].filter(Boolean).join('\n\n');
+    if (description) {
+      lines.push(`DESCRIPTION:${escapeText(description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    if (event.link) {
+      lines.push(`URL:${event.link}`);
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const url = new URL(req.url);
+    // Calendar apps may append ".ics" when the link is saved as a file name
+    const token = (url.searchParams.get('token') || '').replace(/\.ics$/, '');
+
+    if (!/^[a-f0-9]{64}$/.test(token)) {
+      return new Response('Calendar feed not found', { status: 404 });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { data, error } = await supabase.rpc('get_calendar_feed', { p_token: token });
+
+    if (error) {
+      throw new Error(`Failed to load calendar feed: ${error.message}`);
+    }
+
+    if (!data?.success) {
+      return new Response('Calendar feed not found', { status: 404 });
+    }
+
+    const calendar = buildCalendar(data.org_name || 'Events', (data.events || []) as FeedEvent[]);
+    console.log(`📅 Served calendar feed for org ${data.org_id} with ${(data.events || []).length} events`);
+
+    return new Response(req.method === 'HEAD' ? null : calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="events.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+      status: 200,
+    });
+  } catch (error) {
+    console.error('❌ Calendar feed error:', error);
+    return new Response('Calendar feed unavailable', { status: 500 });
+  }
+});
@@ -0,0 +1,197 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+// Delivers pushes that were held back during a recipient's quiet hours (see
+// 54_deferred_notifications.sql and _shared/quietHours.ts). Runs every five
+// minutes from pg_cron, or from any scheduler that calls it with the service
+// role key as the bearer token.
+//
+// Queued pushes are grouped by recipient and repeats of the same item are
+// dropped. A single remaining push is sent as it was; several are collapsed
+// into one digest that opens the most recent item when tapped.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface DeferredNotification {
+  id: string;
+  user_id: string;
+  org_id: string | null;
+  notification_type: string;
+  item_id: string | null;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  channel_id: string | null;
+  category_id: string | null;
+  created_at: string;
+  expo_push_token: string | null;
+  notifications_enabled: boolean;
+}
+
+const TYPE_LABELS: Record<string, [string, string]> = {
+  announcement: ['new announcement', 'new announcements'],
+  event: ['new event', 'new events'],
+  volunteer_hours: ['volunteer hours update', 'volunteer hours updates'],
+  ble_session: ['attendance session', 'attendance sessions'],
+  custom: ['message from your officers', 'messages from your officers'],
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const groupByUser = (rows: DeferredNotification[]): Map<string, DeferredNotification[]> => {
+  const groups = new Map<string, DeferredNotification[]>();
+  for (const row of rows) {
+    groups.set(row.user_id, [...(groups.get(row.user_id) || []), row]);
+  }
+  return groups;
+};
+
+// Keeps the latest push per (type, item); rows arrive oldest first
+const dedupe = (rows: DeferredNotification[]): DeferredNotification[] => {
+  const latest = new Map<string, DeferredNotification>();
+  for (const row of rows) {
+    latest.set(row.item_id ? `${row.notification_type}:${row.item_id}` : row.id, row);
+  }
+  return [...latest.values()];
+};
+
+const buildDigest = (rows: DeferredNotification[]) => {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    counts.set(row.notification_type, (counts.get(row.notification_type) || 0) + 1);
+  }
+
+  const parts = [...counts.entries()].map(([type, count]) => {
+    const [singular, plural] = TYPE_LABELS[type] || ['notification', 'notifications'];
+    return `${count} ${count === 1 ? singular : plural}`;
+  });
+
+  const newest = rows[rows.length - 1];
+  return {
+    title: `You have ${rows.length} notifications`,
+    body: parts.length > 1
+      ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+      : parts[0],
+    data: { ...newest.data, digest: true, count: rows.length },
+    channelId: counts.size === 1 ? newest.channel_id : null,
+    categoryId: null, // Action buttons act on a single item
+  };
+};
+
+const sendPush = async (message: Record<string, unknown>): Promise<boolean> => {
+  const response = await fetch('https://exp.host/--/api/v2/push/send', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(message)
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  const ticket = Array.isArray(result.data) ? result.data[0] : result.data;
+  return ticket?.status === 'ok';
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: due, error } = await supabase.rpc('claim_due_deferred_notifications');
+
+    if (error) {
+      throw new Error(`Failed to claim deferred notifications: ${error.message}`);
+    }
+
+    let sent = 0;
+    let digests = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (const [userId, rows] of groupByUser((due || []) as DeferredNotification[])) {
+      const [first] = rows;
+
+      // Turned notifications off or signed out while the push was queued
+      if (!first.notifications_enabled || !first.expo_push_token) {
+        skipped++;
+        continue;
+      }
+
+      const pending = dedupe(rows);
+      const single = pending.length === 1 ? pending[0] : null;
+      const content = single
+        ? {
+          title: single.title,
+          body: single.body,
+          data: single.data,
+          channelId: single.channel_id,
+          categoryId: single.category_id,
+        }
+        : buildDigest(pending);
+
+      try {
+        const delivered = await sendPush({
+          to: first.expo_push_token,
+          title: content.title,
+          body: content.body,
+          sound: 'default',
+          data: content.data,
+          ...(content.channelId ? { channelId: content.channelId } : {}),
+          ...(content.categoryId ? { categoryId: content.categoryId } : {}),
+          priority: 'normal'
+        });
+
+        if (delivered) {
+          sent++;
+          if (!single) digests++;
+        } else {
+          // Expo rejected the token; retrying won't help
+          failed++;
+          console.log(`❌ Deferred notification rejected for user ${userId}`);
+        }
+      } catch (sendError) {
+        failed++;
+        console.error(`❌ Error sending deferred notifications to user ${userId}:`, sendError);
+        await supabase.rpc('release_deferred_notifications', {
+          p_ids: rows.map(row => row.id),
+        });
+      }
+    }
+
+    console.log(`🌅 Deferred dispatch complete! Sent: ${sent} (${digests} digests), Skipped: ${skipped}, Failed: ${failed}`);
+
+    return jsonResponse({ success: true, sent, digests, skipped, failed });
+  } catch (error) {
+    console.error('❌ Deferred dispatch failed:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to dispatch deferred notifications',
+    }, 500);
+  }
+});
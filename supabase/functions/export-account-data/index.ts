@@ -0,0 +1,86 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { presignPrivateImage } from '../_shared/r2.ts';
+
+// Returns a copy of everything stored about the signed-in member (see
+// export_my_data in 53_account_deletion.sql), with download links for the
+// proof images they uploaded with volunteer hours. Links expire after a day.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const IMAGE_LINK_TTL_SECONDS = 24 * 60 * 60;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+    const authorization = req.headers.get('Authorization');
+
+    if (!supabaseUrl || !anonKey) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    if (!authorization) {
+      return jsonResponse({ success: false, error: 'User not authenticated' }, 401);
+    }
+
+    // Runs as the member so the export only ever contains their own rows
+    const supabase = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authorization } },
+    });
+
+    const { data, error } = await supabase.rpc('export_my_data');
+
+    if (error) {
+      throw new Error(`Failed to export data: ${error.message}`);
+    }
+
+    const expiresAt = new Date(Date.now() + IMAGE_LINK_TTL_SECONDS * 1000).toISOString();
+    const images = [];
+
+    for (const hour of data.volunteer_hours as { id: string; image_path: string | null }[]) {
+      if (!hour.image_path) continue;
+
+      try {
+        images.push({
+          volunteer_hour_id: hour.id,
+          path: hour.image_path,
+          url: await presignPrivateImage(hour.image_path, IMAGE_LINK_TTL_SECONDS),
+          expires_at: expiresAt,
+        });
+      } catch (imageError) {
+        // Still hand over the rest of the export; the path tells the member which image is missing
+        console.error(`Failed to sign image for volunteer hour ${hour.id}:`, imageError);
+        images.push({ volunteer_hour_id: hour.id, path: hour.image_path, url: null, expires_at: null });
+      }
+    }
+
+    console.log(`📦 Exported account data with ${images.length} image(s)`);
+
+    return jsonResponse({ success: true, export: { ...data, images } });
+  } catch (error) {
+    console.error('❌ Account data export failed:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export data',
+    }, 500);
+  }
+});
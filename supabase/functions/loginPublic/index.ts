@@ -1,20 +1,25 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkAuthRateLimit, getClientIP, rateLimitMessage, recordAuthAttempt } from "../_shared/authRateLimit.ts";
 
 const supabaseUrl = Deno.env.get("SUPABASE_URL");
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
 
-if (!supabaseUrl || !supabaseServiceKey) {
+if (!supabaseUrl || !supabaseServiceKey || !supabaseAnonKey) {
   throw new Error("Missing environment variables");
 }
 
-const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+const clientOptions = {
   auth: {
     persistSession: false,
     autoRefreshToken: false,
     detectSessionInUrl: false
   }
-});
+};
+
+// Never signed in, so rate limiting and profile lookups keep the service role
+const supabase = createClient(supabaseUrl, supabaseServiceKey, clientOptions);
 
 Deno.serve(async (req: Request) => {
   // CORS
@@ -46,12 +51,32 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Sign in user
-    const { data, error } = await supabase.auth.signInWithPassword({
+    const clientIP = getClientIP(req);
+    const rateLimit = await checkAuthRateLimit(supabase, "signin", clientIP, email);
+    if (!rateLimit.allowed) {
+      return new Response(
+        JSON.stringify({ success: false, error: rateLimitMessage(rateLimit) }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+            "Retry-After": String(rateLimit.retryAfter || 60),
+          }
+        }
+      );
+    }
+
+    // Sign in on a separate per-request client; signing in on the service
+    // client would make its later requests run as this user
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, clientOptions);
+    const { data, error } = await authClient.auth.signInWithPassword({
       email,
       password,
     });
 
+    await recordAuthAttempt(supabase, clientIP, email, !error && !!data.user);
+
     if (error || !data.user) {
       console.log("Login failed:", error);
       return new Response(
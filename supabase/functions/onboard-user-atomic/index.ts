@@ -1,5 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type User } from 'https://esm.sh/@supabase/supabase-js@2'
 
 // Types for the onboarding request and response
 interface OnboardingRequest {
@@ -8,6 +8,7 @@ interface OnboardingRequest {
   role: string;
   student_id: string;
   email: string;
+  verification_code: string;
   first_name?: string;
   last_name?: string;
 }
@@ -68,6 +69,22 @@ function logError(message: string, error?: any) {
   }));
 }
 
+// Resolves the user whose access token called the function
+async function getCallingUser(req: Request): Promise<User | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const { data, error } = await supabase.auth.getUser(authorization.slice(7));
+  if (error) {
+    logError('Error resolving calling user', error);
+    return null;
+  }
+
+  return data.user;
+}
+
 // Organization slug resolution
 async function resolveOrganizationSlug(slug: string): Promise<{ id: string; name: string; slug: string } | null> {
   try {
@@ -264,12 +281,32 @@ async function onboardUserAtomic(request: OnboardingRequest): Promise<Onboarding
 
     logInfo('Organization resolved', { org_slug: request.org_slug, org_id: targetOrg.id });
 
+    // Step 1b: Check the verification code (expiry, usage cap, bound email, role)
+    const { data: codeCheck, error: codeError } = await supabase.rpc('check_verification_code', {
+      p_code: request.verification_code.trim(),
+      p_org_id: targetOrg.id,
+      p_email: request.email,
+      p_role: request.role
+    });
+
+    if (codeError || !codeCheck?.success) {
+      logError('Verification code rejected', { org_id: targetOrg.id, error: codeError || codeCheck?.error });
+      return {
+        success: false,
+        error: codeCheck?.message || 'Invalid or expired verification code',
+        errorType: 'INVALID_VERIFICATION_CODE'
+      };
+    }
+
+    // The code decides the role the user receives
+    const role: string = codeCheck.role;
+
     // Step 2: Validate membership according to multi-org rules
     const validationResult = await validateMembership(
       request.email,
       request.student_id,
       targetOrg.id,
-      request.role,
+      role,
       targetOrg
     );
 
@@ -312,7 +349,7 @@ async function onboardUserAtomic(request: OnboardingRequest): Promise<Onboarding
       // Update profile with complete information including org_id and role
       const updateData: any = {
         org_id: targetOrg.id,  // Set organization context
-        role: request.role,    // Set role in profile for quick access
+        role,          // Set role in profile for quick access
         updated_at: new Date().toISOString()
       };
       
@@ -352,7 +389,7 @@ async function onboardUserAtomic(request: OnboardingRequest): Promise<Onboarding
           first_name: request.first_name || null,
           last_name: request.last_name || null,
           org_id: targetOrg.id,     // Set organization context
-          role: request.role,       // Set role for quick access
+          role,             // Set role for quick access
           is_verified: false,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -412,13 +449,13 @@ async function onboardUserAtomic(request: OnboardingRequest): Promise<Onboarding
       logInfo('Reactivating existing membership', { 
         user_id: request.user_id, 
         org_id: targetOrg.id,
-        new_role: request.role 
+        new_role: role
       });
 
       const { data: reactivatedMembership, error: reactivateError } = await supabase
         .from('memberships')
         .update({
-          role: request.role,
+          role,
           is_active: true,
           joined_at: new Date().toISOString()
         })
@@ -444,7 +481,7 @@ async function onboardUserAtomic(request: OnboardingRequest): Promise<Onboarding
       logInfo('Creating new membership', { 
         user_id: request.user_id, 
         org_id: targetOrg.id, 
-        role: request.role 
+        role
       });
 
       const { data: newMembership, error: createMembershipError } = await supabase
@@ -452,7 +489,7 @@ async function onboardUserAtomic(request: OnboardingRequest): Promise<Onboarding
         .insert({
           user_id: request.user_id,
           org_id: targetOrg.id,
-          role: request.role,
+          role,
           is_active: true,
           joined_at: new Date().toISOString()
         })
@@ -475,10 +512,42 @@ async function onboardUserAtomic(request: OnboardingRequest): Promise<Onboarding
       membership = newMembership;
     }
 
+    // Step 7: Count the onboarding against the verification code. If the code
+    // was used up or revoked since it was checked, the membership is undone.
+    const { data: redemption, error: redeemError } = await supabase.rpc('redeem_verification_code', {
+      p_code: request.verification_code.trim(),
+      p_org_id: targetOrg.id,
+      p_email: request.email,
+      p_role: request.role,
+      p_user_id: request.user_id
+    });
+
+    if (redeemError || !redemption?.success) {
+      logError('Verification code redemption failed', { org_id: targetOrg.id, error: redeemError || redemption?.error });
+
+      if (existingMembership) {
+        await supabase
+          .from('memberships')
+          .update({ is_active: false })
+          .eq('id', membership.id);
+      } else {
+        await supabase
+          .from('memberships')
+          .delete()
+          .eq('id', membership.id);
+      }
+
+      return {
+        success: false,
+        error: redemption?.message || 'Invalid or expired verification code',
+        errorType: 'INVALID_VERIFICATION_CODE'
+      };
+    }
+
     logInfo('Atomic onboarding completed successfully', {
       user_id: request.user_id,
       org_id: targetOrg.id,
-      role: request.role,
+      role,
       profile_id: profile.id,
       membership_id: membership.id
     });
@@ -513,7 +582,7 @@ function validateOnboardingRequest(body: any): { isValid: boolean; errors: strin
   }
 
   // Required fields
-  const requiredFields = ['user_id', 'org_slug', 'role', 'student_id', 'email'];
+  const requiredFields = ['user_id', 'org_slug', 'role', 'student_id', 'email', 'verification_code'];
   for (const field of requiredFields) {
     if (!body[field]) {
       errors.push(`${field} is required`);
@@ -593,8 +662,22 @@ serve(async (req) => {
       );
     }
 
-    // Process onboarding
-    const result = await onboardUserAtomic(body as OnboardingRequest);
+    // Only the signed-in user can onboard themselves
+    const user = await getCallingUser(req);
+    if (!user || user.id !== body.user_id || !user.email) {
+      logError('Onboarding caller does not match user_id', { user_id: body.user_id, caller_id: user?.id });
+      return new Response(
+        JSON.stringify({ success: false, error: 'Not authorized to onboard this user' }),
+        { 
+          status: 403, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
+    // Process onboarding with the account's email, which codes bound to an
+    // email are checked against, rather than the one in the request body
+    const result = await onboardUserAtomic({ ...body, email: user.email } as OnboardingRequest);
 
     const status = result.success ? 200 : 400;
     
@@ -0,0 +1,125 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { deletePrivateImages } from '../_shared/r2.ts';
+
+// Hard-deletes accounts whose 14-day grace period has passed (see
+// 53_account_deletion.sql). Runs daily from pg_cron, or from any scheduler
+// that calls it with the service role key as the bearer token.
+//
+// For each due request, in order:
+//   1. clear the push token so nothing more is sent to the device
+//   2. delete the member's proof images from the private R2 bucket
+//   3. purge their rows and profile
+//   4. delete the auth user
+// A failure at any step leaves the request scheduled and the next run
+// retries it from the start; every step is safe to repeat.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface DueDeletion {
+  request_id: string;
+  user_id: string;
+  image_paths: string[];
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const deleteAccount = async (supabase: SupabaseClient, deletion: DueDeletion): Promise<void> => {
+  const { error: tokenError } = await supabase
+    .from('profiles')
+    .update({ expo_push_token: null })
+    .eq('id', deletion.user_id);
+
+  if (tokenError) {
+    throw new Error(`Failed to clear push token: ${tokenError.message}`);
+  }
+
+  if (deletion.image_paths.length > 0) {
+    await deletePrivateImages(deletion.image_paths);
+  }
+
+  const { data: purge, error: purgeError } = await supabase.rpc('purge_account_data', {
+    p_request_id: deletion.request_id,
+  });
+
+  if (purgeError || !purge?.success) {
+    throw new Error(`Failed to purge data: ${purgeError?.message || purge?.message}`);
+  }
+
+  const { error: authError } = await supabase.auth.admin.deleteUser(deletion.user_id);
+
+  // Already gone if an earlier run got this far
+  if (authError && authError.status !== 404) {
+    throw new Error(`Failed to delete auth user: ${authError.message}`);
+  }
+
+  const { error: completeError } = await supabase.rpc('complete_account_deletion', {
+    p_request_id: deletion.request_id,
+  });
+
+  if (completeError) {
+    throw new Error(`Failed to mark deletion complete: ${completeError.message}`);
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: due, error } = await supabase.rpc('get_due_account_deletions');
+
+    if (error) {
+      throw new Error(`Failed to load due deletions: ${error.message}`);
+    }
+
+    let deleted = 0;
+    let failed = 0;
+
+    for (const deletion of (due || []) as DueDeletion[]) {
+      try {
+        await deleteAccount(supabase, deletion);
+        deleted++;
+        console.log(`🗑️ Deleted account for deletion request ${deletion.request_id}`);
+      } catch (deletionError) {
+        failed++;
+        const message = deletionError instanceof Error ? deletionError.message : String(deletionError);
+        console.error(`❌ Deletion request ${deletion.request_id} failed:`, message);
+        await supabase.rpc('record_account_deletion_failure', {
+          p_request_id: deletion.request_id,
+          p_error: message,
+        });
+      }
+    }
+
+    return jsonResponse({ success: true, deleted, failed });
+  } catch (error) {
+    console.error('❌ Account deletion run failed:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to process deletions',
+    }, 500);
+  }
+});
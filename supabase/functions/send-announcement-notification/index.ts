@@ -1,5 +1,8 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { deferQuietHoursRecipients } from '../_shared/quietHours.ts';
+import { wantsInstantPush } from '../_shared/digest.ts';
+import { recordInboxEntries } from '../_shared/inbox.ts';
 
 Deno.serve(async (req) => {
   try {
@@ -30,7 +33,7 @@ Deno.serve(async (req) => {
     // Get organization members with push tokens using Supabase client
     const { data: members, error: membersError } = await supabase
       .from('profiles')
-      .select('id, email, expo_push_token')
+      .select('id, email, expo_push_token, notification_preferences')
       .eq('org_id', announcement.org_id)
       .eq('notifications_enabled', true)
       .not('expo_push_token', 'is', null);
@@ -55,26 +58,48 @@ Deno.serve(async (req) => {
       });
     }
     
+    const push = {
+      type: 'announcement',
+      itemId: announcement.id,
+      orgId: announcement.org_id,
+      title: `New Announcement: ${announcement.title}`,
+      body: announcement.message || 'Tap to view details',
+      data: {
+        type: 'announcement',
+        itemId: announcement.id,
+        orgId: announcement.org_id,
+        priority: 'normal'
+      },
+      channelId: 'announcements'
+    };
+    
+    // Every recipient gets an inbox entry, whenever the push itself goes out
+    await recordInboxEntries(supabase, members.map(member => member.id), push);
+    
+    // Members on a daily or weekly digest get this in their next digest
+    const instantMembers = members.filter(wantsInstantPush);
+    const digested = members.length - instantMembers.length;
+    console.log(`📬 Leaving ${digested} members on digest delivery for their digest`);
+    
+    // Members in their quiet hours get this once the window ends
+    const { sendNow, deferred } = await deferQuietHoursRecipients(supabase, instantMembers, push);
+    console.log(`🌙 Deferred ${deferred} notifications for members in quiet hours`);
+    
     // Send notifications to each member
     let successful = 0;
     let failed = 0;
     
-    for (const member of members) {
+    for (const member of sendNow) {
       try {
         console.log(`📱 Sending to ${member.email}...`);
         
         const notificationPayload = {
           to: member.expo_push_token,
-          title: `New Announcement: ${announcement.title}`,
-          body: announcement.message || 'Tap to view details',
+          title: push.title,
+          body: push.body,
           sound: 'default',
-          data: {
-            type: 'announcement',
-            itemId: announcement.id,
-            orgId: announcement.org_id,
-            priority: 'normal'
-          },
-          channelId: 'announcements',
+          data: push.data,
+          channelId: push.channelId,
           priority: 'normal'
         };
         
@@ -112,7 +137,9 @@ Deno.serve(async (req) => {
       success: true,
       total: members.length,
       successful,
-      failed
+      failed,
+      deferred,
+      digested
     }), {
       headers: { 'Content-Type': 'application/json' },
       status: 200
@@ -0,0 +1,221 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { deferQuietHoursRecipients, type DeferredPush } from '../_shared/quietHours.ts';
+import { recordInboxEntries } from '../_shared/inbox.ts';
+
+// Sends a custom notification an officer composed in the app (see
+// 57_custom_notifications.sql). The app logs the send with
+// record_custom_notification and calls this with the returned id and the
+// officer's JWT; the audience is resolved again here as that officer.
+//
+// Members in their quiet hours get the push once the window ends, like any
+// other push. Digests only summarize announcements, events and volunteer
+// hours, so a member on digest delivery would never hear about a custom
+// message; they get it straight away instead.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface CustomNotification {
+  id: string;
+  org_id: string;
+  title: string;
+  body: string;
+  audience: { type: string; grade?: string; eventId?: string };
+}
+
+interface AudienceMember {
+  user_id: string;
+  expo_push_token: string | null;
+}
+
+const clientOptions = {
+  auth: { persistSession: false },
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const sendPush = async (message: Record<string, unknown>): Promise<boolean> => {
+  const response = await fetch('https://exp.host/--/api/v2/push/send', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(message)
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  const ticket = Array.isArray(result.data) ? result.data[0] : result.data;
+  return ticket?.status === 'ok';
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey || !supabaseAnonKey) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const authorization = req.headers.get('Authorization');
+    const jwt = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+
+    if (!jwt) {
+      return jsonResponse({ success: false, error: 'User not authenticated' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, clientOptions);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(jwt);
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: 'User not authenticated' }, 401);
+    }
+
+    const { notificationId } = await req.json();
+    if (!notificationId) {
+      return jsonResponse({ success: false, error: 'notificationId is required' }, 400);
+    }
+
+    // Claims the send so a repeated call can't push the same message again;
+    // delivered_count is filled in with the real figure below
+    const { data: notification, error: claimError } = await supabase
+      .from('notification_history')
+      .update({ delivered_count: 0 })
+      .eq('id', notificationId)
+      .eq('notification_type', 'custom')
+      .eq('sent_by', user.id)
+      .is('delivered_count', null)
+      .select('id, org_id, title, body, audience')
+      .maybeSingle<CustomNotification>();
+
+    if (claimError) {
+      throw new Error(`Failed to load notification: ${claimError.message}`);
+    }
+
+    if (!notification) {
+      return jsonResponse({ success: false, error: 'Notification not found or already sent' }, 404);
+    }
+
+    // Resolved as the officer, so the database checks they may still send to
+    // this organization
+    const callerClient = createClient(supabaseUrl, supabaseAnonKey, {
+      ...clientOptions,
+      global: { headers: { Authorization: `Bearer ${jwt}` } },
+    });
+
+    const { audience } = notification;
+    const { data: audienceMembers, error: audienceError } = await callerClient.rpc('get_custom_notification_recipients', {
+      p_org_id: notification.org_id,
+      p_audience: audience.type,
+      p_grade: audience.type === 'grade' ? audience.grade : null,
+      p_event_id: audience.type === 'event_attendees' ? audience.eventId : null,
+    });
+
+    if (audienceError) {
+      throw new Error(`Failed to resolve audience: ${audienceError.message}`);
+    }
+
+    const reachableIds = ((audienceMembers || []) as AudienceMember[])
+      .filter(member => !!member.expo_push_token)
+      .map(member => member.user_id);
+
+    const { data: members, error: membersError } = reachableIds.length > 0
+      ? await supabase
+        .from('profiles')
+        .select('id, expo_push_token, notification_preferences')
+        .in('id', reachableIds)
+      : { data: [], error: null };
+
+    if (membersError) {
+      throw new Error(`Failed to fetch members: ${membersError.message}`);
+    }
+
+    const push: DeferredPush = {
+      type: 'custom',
+      itemId: notification.id,
+      orgId: notification.org_id,
+      title: notification.title,
+      body: notification.body,
+      data: {
+        type: 'custom',
+        itemId: notification.id,
+        orgId: notification.org_id,
+        priority: 'normal'
+      },
+      channelId: 'general'
+    };
+
+    const recipients = members || [];
+
+    // Every recipient gets an inbox entry, whenever the push itself goes out
+    await recordInboxEntries(supabase, recipients.map(member => member.id), push);
+
+    // Members in their quiet hours get this once the window ends
+    const { sendNow, deferred } = await deferQuietHoursRecipients(supabase, recipients, push);
+
+    let successful = 0;
+    let failed = 0;
+
+    for (const member of sendNow) {
+      try {
+        const delivered = await sendPush({
+          to: member.expo_push_token,
+          title: push.title,
+          body: push.body,
+          sound: 'default',
+          data: push.data,
+          channelId: push.channelId,
+          priority: 'normal'
+        });
+
+        if (delivered) {
+          successful++;
+        } else {
+          failed++;
+        }
+      } catch (error) {
+        failed++;
+        console.error(`❌ Error sending custom notification to ${member.id}:`, error);
+      }
+    }
+
+    const { error: completeError } = await supabase
+      .from('notification_history')
+      .update({ delivered_count: successful })
+      .eq('id', notification.id);
+
+    if (completeError) {
+      console.error('Failed to record custom notification delivery:', completeError.message);
+    }
+
+    console.log(`📣 Custom notification ${notification.id}: ${successful} sent, ${failed} failed, ${deferred} deferred`);
+
+    return jsonResponse({
+      success: true,
+      total: recipients.length,
+      successful,
+      failed,
+      deferred
+    });
+  } catch (error) {
+    console.error('❌ Custom notification error:', error);
+    return jsonResponse({ success: false, error: 'Failed to send notification' }, 500);
+  }
+});
@@ -0,0 +1,151 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { formatDigest, type DigestPeriod } from '../_shared/digest.ts';
+
+// Sends daily and weekly digests (see 55_notification_digests.sql). Runs
+// hourly from pg_cron, or from any scheduler that calls it with the service
+// role key as the bearer token. Each run picks up the members whose 6 PM
+// local send time falls in the current hour.
+//
+// Members with nothing new get no push, but their period still rolls over
+// so the next digest only counts what is new since now.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface DueDigest {
+  user_id: string;
+  expo_push_token: string;
+  delivery_mode: DigestPeriod;
+  announcements_count: number;
+  events_count: number;
+  volunteer_hours_count: number;
+  newest_item: { type: string; itemId: string; orgId: string } | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const sendPush = async (message: Record<string, unknown>): Promise<boolean> => {
+  const response = await fetch('https://exp.host/--/api/v2/push/send', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(message)
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  const ticket = Array.isArray(result.data) ? result.data[0] : result.data;
+  return ticket?.status === 'ok';
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const runAt = new Date().toISOString();
+
+    const { data: due, error } = await supabase.rpc('get_due_notification_digests', { p_at: runAt });
+
+    if (error) {
+      throw new Error(`Failed to load due digests: ${error.message}`);
+    }
+
+    const completed: string[] = [];
+    let sent = 0;
+    let empty = 0;
+    let failed = 0;
+
+    for (const digest of (due || []) as DueDigest[]) {
+      const counts = {
+        announcementsCount: digest.announcements_count,
+        eventsCount: digest.events_count,
+        volunteerHoursCount: digest.volunteer_hours_count,
+      };
+      const total = counts.announcementsCount + counts.eventsCount + counts.volunteerHoursCount;
+
+      if (total === 0 || !digest.newest_item) {
+        empty++;
+        completed.push(digest.user_id);
+        continue;
+      }
+
+      const { title, body } = formatDigest(digest.delivery_mode, counts);
+
+      try {
+        const delivered = await sendPush({
+          to: digest.expo_push_token,
+          title,
+          body,
+          sound: 'default',
+          data: {
+            ...digest.newest_item,
+            priority: 'normal',
+            digest: true,
+            count: total
+          },
+          priority: 'normal'
+        });
+
+        if (delivered) {
+          sent++;
+        } else {
+          failed++;
+          console.log(`❌ Digest rejected for user ${digest.user_id}`);
+        }
+        // A rejected token won't succeed on retry, so the period still ends
+        completed.push(digest.user_id);
+      } catch (sendError) {
+        // Left unmarked so these items carry over into the next digest
+        failed++;
+        console.error(`❌ Error sending digest to user ${digest.user_id}:`, sendError);
+      }
+    }
+
+    if (completed.length > 0) {
+      const { error: markError } = await supabase.rpc('mark_notification_digests_sent', {
+        p_user_ids: completed,
+        p_sent_at: runAt,
+      });
+
+      if (markError) {
+        throw new Error(`Failed to record sent digests: ${markError.message}`);
+      }
+    }
+
+    console.log(`📬 Digest run complete! Sent: ${sent}, Empty: ${empty}, Failed: ${failed}`);
+
+    return jsonResponse({ success: true, sent, empty, failed });
+  } catch (error) {
+    console.error('❌ Digest run failed:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send digests',
+    }, 500);
+  }
+});
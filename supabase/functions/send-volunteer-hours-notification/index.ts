@@ -1,5 +1,8 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { deferQuietHoursRecipients } from '../_shared/quietHours.ts';
+import { wantsInstantPush } from '../_shared/digest.ts';
+import { recordInboxEntries } from '../_shared/inbox.ts';
 
 Deno.serve(async (req) => {
   try {
@@ -113,27 +116,52 @@ Deno.serve(async (req) => {
       });
     }
     
+    const push = {
+      type: 'volunteer_hours',
+      itemId: volunteerHour.id,
+      orgId: volunteerHour.org_id,
+      title: 'New Volunteer Hours Request',
+      body: `${memberName} submitted ${volunteerHour.hours} volunteer hours for review`,
+      data: {
+        type: 'volunteer_hours',
+        itemId: volunteerHour.id,
+        orgId: volunteerHour.org_id,
+        priority: 'normal',
+        action: 'review_required'
+      },
+      channelId: 'volunteer_hours',
+      // Adds Approve and Reject buttons (see NotificationPriorityManager)
+      categoryId: 'volunteer_hours_review'
+    };
+    
+    // Every recipient gets an inbox entry, whenever the push itself goes out
+    await recordInboxEntries(supabase, eligibleOfficers.map(officer => officer.id), push);
+    
+    // Officers on a daily or weekly digest get this in their next digest
+    const instantOfficers = eligibleOfficers.filter(wantsInstantPush);
+    const digested = eligibleOfficers.length - instantOfficers.length;
+    console.log(`📬 Leaving ${digested} officers on digest delivery for their digest`);
+    
+    // Officers in their quiet hours get this once the window ends
+    const { sendNow, deferred } = await deferQuietHoursRecipients(supabase, instantOfficers, push);
+    console.log(`🌙 Deferred ${deferred} notifications for officers in quiet hours`);
+    
     // Send notifications to each eligible officer
     let successful = 0;
     let failed = 0;
     
-    for (const officer of eligibleOfficers) {
+    for (const officer of sendNow) {
       try {
         console.log(`📱 Sending to ${officer.email}...`);
         
         const notificationPayload = {
           to: officer.expo_push_token,
-          title: 'New Volunteer Hours Request',
-          body: `${memberName} submitted ${volunteerHour.hours} volunteer hours for review`,
+          title: push.title,
+          body: push.body,
           sound: 'default',
-          data: {
-            type: 'volunteer_hours',
-            itemId: volunteerHour.id,
-            orgId: volunteerHour.org_id,
-            priority: 'normal',
-            action: 'review_required'
-          },
-          channelId: 'volunteer_hours',
+          data: push.data,
+          channelId: push.channelId,
+          categoryId: push.categoryId,
           priority: 'normal'
         };
         
@@ -171,7 +199,9 @@ Deno.serve(async (req) => {
       success: true,
       total: eligibleOfficers.length,
       successful,
-      failed
+      failed,
+      deferred,
+      digested
     }), {
       headers: { 'Content-Type': 'application/json' },
       status: 200
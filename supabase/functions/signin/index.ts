@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { checkAuthRateLimit, getClientIP, rateLimitMessage, recordAuthAttempt } from '../_shared/authRateLimit.ts'
 
 // Logging and monitoring interfaces
 interface SecurityEvent {
@@ -188,13 +189,6 @@ interface RateLimitMetrics {
   blockedRequests: number;
 }
 
-const rateLimitMetrics: RateLimitMetrics = {
-  ipBlocks: 0,
-  emailBlocks: 0,
-  totalRequests: 0,
-  blockedRequests: 0
-};
-
 // Enhanced monitoring and alerting system
 interface AlertThresholds {
   errorRate: number;           // 5% error rate threshold
@@ -336,11 +330,7 @@ setInterval(() => {
       errorRate: extendedMetrics.errors / Math.max(extendedMetrics.requestCount, 1),
       avgResponseTime: extendedMetrics.totalResponseTime / Math.max(extendedMetrics.requestCount, 1),
       authSuccessRate: extendedMetrics.authSuccesses / Math.max(extendedMetrics.authSuccesses + extendedMetrics.authFailures, 1),
-      rateLimitBlocks: extendedMetrics.ipBlocks + extendedMetrics.emailBlocks,
-      memoryUsage: {
-        ipRateLimitEntries: ipRateLimit.size,
-        emailRateLimitEntries: emailRateLimit.size
-      }
+      rateLimitBlocks: extendedMetrics.ipBlocks + extendedMetrics.emailBlocks
     }
   });
   
@@ -390,53 +380,6 @@ const supabaseServiceRole = createClient(supabaseUrl, supabaseServiceRoleKey, {
   }
 });
 
-// Rate limiting storage (in-memory for Edge Functions)
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-  blocked?: boolean;
-  blockUntil?: number;
-}
-
-const ipRateLimit = new Map<string, RateLimitEntry>();
-const emailRateLimit = new Map<string, RateLimitEntry>();
-
-// Rate limiting configuration
-const RATE_LIMITS = {
-  IP: {
-    maxRequests: 10,
-    windowMs: 60 * 1000, // 1 minute
-    blockDurationMs: 15 * 60 * 1000, // 15 minutes block after violations
-  },
-  EMAIL: {
-    maxRequests: 5,
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    blockDurationMs: 60 * 60 * 1000, // 1 hour block after violations
-  }
-};
-
-// Cleanup function to prevent memory leaks
-function cleanupExpiredEntries() {
-  const now = Date.now();
-  
-  // Clean IP rate limit entries
-  for (const [key, entry] of ipRateLimit.entries()) {
-    if (now > entry.resetTime && (!entry.blockUntil || now > entry.blockUntil)) {
-      ipRateLimit.delete(key);
-    }
-  }
-  
-  // Clean email rate limit entries
-  for (const [key, entry] of emailRateLimit.entries()) {
-    if (now > entry.resetTime && (!entry.blockUntil || now > entry.blockUntil)) {
-      emailRateLimit.delete(key);
-    }
-  }
-}
-
-// Run cleanup every 5 minutes
-setInterval(cleanupExpiredEntries, 5 * 60 * 1000);
-
 // Types for request and response
 interface SignInRequest {
   email: string;
@@ -606,146 +549,49 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-// Enhanced rate limiting functions with comprehensive logging
-function checkRateLimit(
-  identifier: string, 
-  config: typeof RATE_LIMITS.IP, 
-  storage: Map<string, RateLimitEntry>,
-  logger: SignInLogger,
-  type: 'IP' | 'EMAIL'
-): { allowed: boolean; retryAfter?: number } {
-  const now = Date.now();
-  const entry = storage.get(identifier);
-
-  // Update metrics
-  rateLimitMetrics.totalRequests++;
-
-  // Clean up expired entries
-  if (entry && now > entry.resetTime) {
-    storage.delete(identifier);
-    logger.logDebug(`Rate limit entry expired for ${type}`, { identifier: type === 'EMAIL' ? identifier : '[REDACTED]' });
-  }
-
-  // Check if currently blocked
-  if (entry?.blocked && entry.blockUntil && now < entry.blockUntil) {
-    rateLimitMetrics.blockedRequests++;
-    
-    logger.logSecurityEvent({
-      type: type === 'IP' ? 'RATE_LIMIT_IP' : 'RATE_LIMIT_EMAIL',
-      ip: type === 'IP' ? identifier : 'unknown',
-      email: type === 'EMAIL' ? identifier : undefined,
-      severity: 'MEDIUM',
-      details: {
-        remainingBlockTime: entry.blockUntil - now,
-        attemptCount: entry.count,
-        type: 'BLOCKED_REQUEST'
-      }
-    });
+// Rate limiting against the shared Postgres store, with security logging
+async function checkRateLimit(
+  clientIP: string,
+  email: string,
+  logger: SignInLogger
+): Promise<{ allowed: boolean; retryAfter?: number; scope?: 'ip' | 'email'; message?: string }> {
+  const decision = await checkAuthRateLimit(supabaseServiceRole, 'signin', clientIP, email);
 
-    return { allowed: false, retryAfter: Math.ceil((entry.blockUntil - now) / 1000) };
+  if (decision.allowed) {
+    return { allowed: true };
   }
 
-  // Get or create entry
-  const currentEntry = storage.get(identifier) || { count: 0, resetTime: now + config.windowMs };
+  const type = decision.scope === 'email' ? 'EMAIL' : 'IP';
 
-  // Reset if window expired
-  if (now > currentEntry.resetTime) {
-    if (currentEntry.count > 0) {
-      logger.logDebug(`Rate limit window reset for ${type}`, { 
-        identifier: type === 'EMAIL' ? identifier : '[REDACTED]',
-        previousCount: currentEntry.count 
-      });
+  logger.logSecurityEvent({
+    type: type === 'IP' ? 'RATE_LIMIT_IP' : 'RATE_LIMIT_EMAIL',
+    ip: clientIP,
+    email: type === 'EMAIL' ? email : undefined,
+    severity: decision.reason === 'locked' ? 'HIGH' : 'MEDIUM',
+    details: {
+      retryAfter: decision.retryAfter,
+      type: decision.reason === 'locked' ? 'LOCKED_OUT' : 'RATE_LIMIT_EXCEEDED'
     }
-    
-    currentEntry.count = 0;
-    currentEntry.resetTime = now + config.windowMs;
-    currentEntry.blocked = false;
-    delete currentEntry.blockUntil;
-  }
-
-  // Increment counter
-  currentEntry.count++;
+  });
 
-  // Check if limit exceeded
-  if (currentEntry.count > config.maxRequests) {
-    currentEntry.blocked = true;
-    currentEntry.blockUntil = now + config.blockDurationMs;
-    storage.set(identifier, currentEntry);
-    
-    // Update metrics
-    rateLimitMetrics.blockedRequests++;
-    if (type === 'IP') {
-      rateLimitMetrics.ipBlocks++;
-    } else {
-      rateLimitMetrics.emailBlocks++;
+  logger.logAuditEvent({
+    type: 'SECURITY_VIOLATION',
+    ip: clientIP,
+    email: type === 'EMAIL' ? email : undefined,
+    action: 'RATE_LIMIT_BLOCK',
+    result: 'BLOCKED',
+    details: {
+      limitType: type,
+      reason: decision.reason
     }
+  });
 
-    // Log security event
-    logger.logSecurityEvent({
-      type: type === 'IP' ? 'RATE_LIMIT_IP' : 'RATE_LIMIT_EMAIL',
-      ip: type === 'IP' ? identifier : 'unknown',
-      email: type === 'EMAIL' ? identifier : undefined,
-      severity: currentEntry.count > config.maxRequests * 2 ? 'HIGH' : 'MEDIUM',
-      details: {
-        attemptCount: currentEntry.count,
-        blockDuration: config.blockDurationMs,
-        type: 'RATE_LIMIT_EXCEEDED'
-      }
-    });
-
-    // Log audit event for compliance
-    logger.logAuditEvent({
-      type: 'SECURITY_VIOLATION',
-      ip: type === 'IP' ? identifier : 'unknown',
-      email: type === 'EMAIL' ? identifier : undefined,
-      action: 'RATE_LIMIT_BLOCK',
-      result: 'BLOCKED',
-      details: {
-        limitType: type,
-        attemptCount: currentEntry.count,
-        maxAllowed: config.maxRequests
-      }
-    });
-
-    return { allowed: false, retryAfter: Math.ceil(config.blockDurationMs / 1000) };
-  }
-
-  // Log warning if approaching limit
-  if (currentEntry.count > config.maxRequests * 0.8) {
-    logger.logSecurityEvent({
-      type: type === 'IP' ? 'RATE_LIMIT_IP' : 'RATE_LIMIT_EMAIL',
-      ip: type === 'IP' ? identifier : 'unknown',
-      email: type === 'EMAIL' ? identifier : undefined,
-      severity: 'LOW',
-      details: {
-        attemptCount: currentEntry.count,
-        maxAllowed: config.maxRequests,
-        type: 'APPROACHING_LIMIT'
-      }
-    });
-  }
-
-  storage.set(identifier, currentEntry);
-  return { allowed: true };
-}
-
-function getClientIP(req: Request): string {
-  // Try various headers for IP detection
-  const forwarded = req.headers.get('x-forwarded-for');
-  const realIP = req.headers.get('x-real-ip');
-  const cfConnectingIP = req.headers.get('cf-connecting-ip');
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  if (realIP) {
-    return realIP.trim();
-  }
-  if (cfConnectingIP) {
-    return cfConnectingIP.trim();
-  }
-  
-  return 'unknown';
+  return {
+    allowed: false,
+    retryAfter: decision.retryAfter,
+    scope: decision.scope,
+    message: rateLimitMessage(decision)
+  };
 }
 
 // Enhanced input validation function
@@ -1074,23 +920,6 @@ serve(async (req) => {
   try {
     performanceMonitor.checkpoint('request_start');
 
-    // Check IP-based rate limiting first
-    const ipRateCheck = checkRateLimit(clientIP, RATE_LIMITS.IP, ipRateLimit, logger, 'IP');
-    if (!ipRateCheck.allowed) {
-      updateMetrics('rate_limit_ip');
-      const totalDuration = performanceMonitor.end({ result: 'rate_limited_ip' });
-      updateMetrics('request', totalDuration);
-      return createErrorResponse(
-        'Too many requests. Please try again later.',
-        429,
-        logger,
-        req,
-        { retryAfter: ipRateCheck.retryAfter, type: 'IP_RATE_LIMIT' }
-      );
-    }
-
-    performanceMonitor.checkpoint('rate_limit_check');
-
     // Parse request body with size limit
     let body: any;
     try {
@@ -1147,22 +976,26 @@ serve(async (req) => {
 
     performanceMonitor.checkpoint('input_validation');
 
-    // Check email-based rate limiting
-    const emailRateCheck = checkRateLimit(email, RATE_LIMITS.EMAIL, emailRateLimit, logger, 'EMAIL');
-    if (!emailRateCheck.allowed) {
-      updateMetrics('rate_limit_email');
-      const totalDuration = performanceMonitor.end({ result: 'rate_limited_email' });
+    // Check IP and email rate limits and lockouts
+    const rateCheck = await checkRateLimit(clientIP, email, logger);
+    if (!rateCheck.allowed) {
+      updateMetrics(rateCheck.scope === 'email' ? 'rate_limit_email' : 'rate_limit_ip');
+      const totalDuration = performanceMonitor.end({ result: rateCheck.scope === 'email' ? 'rate_limited_email' : 'rate_limited_ip' });
       updateMetrics('request', totalDuration);
       return createErrorResponse(
-        'Too many login attempts for this email. Please try again later.',
+        rateCheck.message || 'Too many requests. Please try again later.',
         429,
         logger,
         req,
-        { retryAfter: emailRateCheck.retryAfter, type: 'EMAIL_RATE_LIMIT', email }
+        {
+          retryAfter: rateCheck.retryAfter,
+          type: rateCheck.scope === 'email' ? 'EMAIL_RATE_LIMIT' : 'IP_RATE_LIMIT',
+          email: rateCheck.scope === 'email' ? email : undefined
+        }
       );
     }
 
-    performanceMonitor.checkpoint('email_rate_limit_check');
+    performanceMonitor.checkpoint('rate_limit_check');
 
     // Log authentication attempt
     logger.logAuditEvent({
@@ -1194,6 +1027,7 @@ serve(async (req) => {
     // Handle authentication failure
     if (authError || !authData.user || !authData.session) {
       updateMetrics('auth_failure');
+      await recordAuthAttempt(supabaseServiceRole, clientIP, email, false);
       
       logger.logSecurityEvent({
         type: 'AUTH_FAILURE',
@@ -1234,6 +1068,7 @@ serve(async (req) => {
     const session = authData.session;
     
     updateMetrics('auth_success');
+    await recordAuthAttempt(supabaseServiceRole, clientIP, email, true);
 
     // Determine token handling strategy
     const tokenStrategy = determineTokenStrategy(req, body);
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { checkAuthRateLimit, getClientIP, rateLimitMessage, recordAuthAttempt } from '../_shared/authRateLimit.ts';
 
 // DEPLOYMENT MARKER: Updated with enhanced logging - 2024-10-18
 
@@ -47,16 +48,15 @@ serve(async (req: Request) => {
 
     // Validate role and set default if not provided or invalid
     const validRoles = ['member', 'officer', 'president', 'vice_president', 'admin'];
-    const finalRole = (role && validRoles.includes(role)) ? role : 'member';
+    const requestedRole = (role && validRoles.includes(role)) ? role : 'member';
 
     console.log("Signup request:", {
       email,
       first_name,
       last_name,
       organization,
-      role: finalRole,
-      hasCode: !!code,
-      codeLength: code?.length
+      role: requestedRole,
+      hasCode: !!code
     });
 
     if (!email || !password || !first_name || !last_name || !organization || !code) {
@@ -96,114 +96,53 @@ serve(async (req: Request) => {
 
     console.log("Using org UUID:", orgUuid);
 
-    // Validate verification code - SIMPLIFIED LOGIC FOR UNIVERSAL CODES
-    if (code) {
-      console.log("=== VERIFICATION CODE VALIDATION START ===");
-      console.log("Input code:", code, "type:", typeof code);
-      console.log("Role:", finalRole, "Organization:", organization);
-      console.log("Function deployment timestamp:", new Date().toISOString());
-      
-      // First check what codes exist in database
-      const { data: allCodes } = await supabase
-        .from("verification_codes")
-        .select("*");
-      console.log("All codes in database:", allCodes);
-
-      // Check for the specific verification codes - UNIVERSAL CODES ONLY
-      console.log("Looking for code:", code, "in verification_codes table");
-      let { data: codeData, error: codeError } = await supabase
-        .from("verification_codes")
-        .select("*")
-        .eq("code", code)
-        .eq("is_used", false)
-        .single();
-
-      console.log("Code lookup result:", { codeData, codeError });
-      console.log("Code data details:", codeData);
-      console.log("Expected codes: 50082571 (member), 97655500 (officer)");
-
-      if (codeError || !codeData) {
-        console.log("=== VERIFICATION CODE VALIDATION FAILED ===");
-        console.log("Code:", code);
-        console.log("Error:", codeError);
-        console.log("Found data:", !!codeData);
-        console.log("Error details:", JSON.stringify(codeError));
-        
-        return new Response(
-          JSON.stringify({
-            success: false,
-            error: "Invalid or expired verification code"
-          }),
-          {
-            status: 400,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*",
-            }
+    const clientIP = getClientIP(req);
+    const rateLimit = await checkAuthRateLimit(supabase, "signup", clientIP, email);
+    if (!rateLimit.allowed) {
+      return new Response(
+        JSON.stringify({ success: false, error: rateLimitMessage(rateLimit) }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+            "Retry-After": String(rateLimit.retryAfter || 60),
           }
-        );
-      }
+        }
+      );
+    }
 
-      // Check if code has expired
-      if (codeData.expires_at && new Date(codeData.expires_at) < new Date()) {
-        return new Response(
-          JSON.stringify({
-            success: false,
-            error: "Verification code has expired"
-          }),
-          {
-            status: 400,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*",
-            }
-          }
-        );
-      }
+    // Expiry, usage cap, bound email and role binding are checked by the database
+    const { data: codeCheck, error: codeError } = await supabase.rpc("check_verification_code", {
+      p_code: String(code).trim(),
+      p_org_id: orgUuid,
+      p_email: email,
+      p_role: requestedRole,
+    });
 
-      // Validate code type against requested role
-      // 50082571 = member code (can be used by members only)
-      // 97655500 = officer code (can be used by officers, presidents, vice_presidents, admins)
-
-      if (code === "50082571") {
-        // Member verification code - only for member role
-        if (finalRole !== 'member') {
-          return new Response(
-            JSON.stringify({
-              success: false,
-              error: "This verification code is only valid for member accounts"
-            }),
-            {
-              status: 400,
-              headers: {
-                "Content-Type": "application/json",
-                "Access-Control-Allow-Origin": "*",
-              }
-            }
-          );
-        }
-      } else if (code === "97655500") {
-        // Officer verification code - for officer roles
-        if (!['officer', 'president', 'vice_president', 'admin'].includes(finalRole)) {
-          return new Response(
-            JSON.stringify({
-              success: false,
-              error: "This verification code is only valid for officer accounts"
-            }),
-            {
-              status: 400,
-              headers: {
-                "Content-Type": "application/json",
-                "Access-Control-Allow-Origin": "*",
-              }
-            }
-          );
+    if (codeError || !codeCheck?.success) {
+      console.log("Verification code rejected:", codeError?.message || codeCheck?.message);
+      // Wrong codes count toward a lockout so codes can't be guessed
+      await recordAuthAttempt(supabase, clientIP, email, false);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: codeCheck?.message || "Invalid or expired verification code"
+        }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+          }
         }
-      }
-
-      console.log("Verification code validation passed for", finalRole, "with code", code);
+      );
     }
 
+    // The code decides the role the account receives
+    const finalRole: string = codeCheck.role;
+    console.log("Verification code validation passed for", finalRole);
+
     // Create auth user
     const {
       data: { user },
@@ -314,39 +253,39 @@ serve(async (req: Request) => {
 
     console.log("Membership created successfully");
 
-    // Mark verification code as used if provided
-    if (code) {
-      console.log("Marking verification code as used:", code);
-
-      // For universal codes, we don't mark them as used since they can be reused
-      // Only mark specific org codes as used
-      const { data: codeInfo } = await supabase
-        .from("verification_codes")
-        .select("org")
-        .eq("code", code)
-        .single();
-
-      if (codeInfo?.org !== "UNIVERSAL") {
-        const { error: codeUpdateError } = await supabase
-          .from("verification_codes")
-          .update({
-            is_used: true,
-            used_by: userId,
-            used_at: new Date().toISOString()
-          })
-          .eq("code", code)
-          .eq("is_used", false);
-
-        if (codeUpdateError) {
-          console.log("Failed to mark verification code as used:", codeUpdateError);
-        } else {
-          console.log("Verification code marked as used successfully");
+    // Count the signup against the code; a code that was used up or revoked
+    // since the check above undoes the account
+    const { data: redemption, error: redeemError } = await supabase.rpc("redeem_verification_code", {
+      p_code: String(code).trim(),
+      p_org_id: orgUuid,
+      p_email: email,
+      p_role: requestedRole,
+      p_user_id: userId,
+    });
+
+    if (redeemError || !redemption?.success) {
+      console.log("Verification code redemption failed:", redeemError?.message || redemption?.message);
+      await supabase.from("memberships").delete().eq("user_id", userId).eq("org_id", orgUuid);
+      await supabase.from("profiles").delete().eq("id", userId);
+      await supabase.auth.admin.deleteUser(userId);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: redemption?.message || "Invalid or expired verification code"
+        }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*",
+          }
         }
-      } else {
-        console.log("Universal verification code - not marking as used (can be reused)");
-      }
+      );
     }
 
+    console.log("Verification code redeemed");
+    await recordAuthAttempt(supabase, clientIP, email, true);
+
     return new Response(
       JSON.stringify({ success: true, user_id: userId }),
       {
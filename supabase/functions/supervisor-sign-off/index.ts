@@ -0,0 +1,295 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+// Supervisor sign-off for external volunteer hours.
+//
+//   POST (JSON, member JWT)      emails the supervisor a single-use link
+//   GET  ?token=...              confirmation page shown to the supervisor
+//   POST (form)                  records the supervisor's answer
+//
+// Opening the link never consumes it, so mail scanners that prefetch links
+// cannot use it up; only submitting the form does (see the functions in
+// 49_supervisor_sign_off.sql).
+//
+// Mail goes out over SMTP (SMTP_HOST, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD,
+// SMTP_FROM). For local testing, point it at a stand-in such as the Supabase
+// CLI's Inbucket with SMTP_PORT=54325 and SMTP_TLS=false. Hosted projects only
+// render HTML from functions on a custom domain; set SUPERVISOR_SIGN_OFF_URL
+// to that address so emailed links open the page rather than plain text.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+interface SignOffDetails {
+  supervisor_name: string | null;
+  member_name: string | null;
+  org_name: string | null;
+  hours: number;
+  activity_date: string | null;
+  description: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatActivityDate = (date: string | null): string =>
+  date
+    ? new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })
+    : 'Not specified';
+
+// Descriptions are stored as "External Hours: <activity> - <notes>"
+const activityName = (description: string | null): string =>
+  (description || 'Volunteer activity').replace(/^(External Hours: |Internal Hours: )/, '');
+
+const htmlPage = (title: string, body: string, status = 200): Response =>
+  new Response(
+    `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, system-ui, sans-serif; background: #F0F6FF; color: #1A202C; margin: 0; padding: 24px; }
+  main { max-width: 480px; margin: 0 auto; background: #FFFFFF; border-radius: 12px; padding: 24px; }
+  h1 { font-size: 22px; margin-top: 0; }
+  dt { font-weight: 600; color: #2B5CE6; margin-top: 12px; }
+  dd { margin: 4px 0 0; }
+  textarea { width: 100%; box-sizing: border-box; min-height: 80px; margin-top: 8px; padding: 8px; border: 1px solid #D1D5DB; border-radius: 8px; }
+  .actions { display: flex; gap: 12px; margin-top: 16px; }
+  button { flex: 1; padding: 12px; border: 0; border-radius: 8px; font-size: 16px; font-weight: 600; color: #FFFFFF; cursor: pointer; }
+  .confirm { background: #38A169; }
+  .deny { background: #E53E3E; }
+  .muted { color: #718096; font-size: 14px; }
+</style>
+</head>
+<body><main>${body}</main></body>
+</html>`,
+    { headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' }, status },
+  );
+
+const invalidLinkPage = (): Response =>
+  htmlPage(
+    'Link unavailable',
+    '<h1>Link unavailable</h1><p>This link has expired or has already been used. If the student needs a new confirmation, they can resend the request from the app.</p>',
+    404,
+  );
+
+const confirmationPage = (token: string, details: SignOffDetails): Response =>
+  htmlPage(
+    'Confirm volunteer hours',
+    `<h1>Confirm volunteer hours</h1>
+<p>${escapeHtml(details.member_name || 'A student')} listed you${details.supervisor_name ? ` (${escapeHtml(details.supervisor_name)})` : ''} as the supervisor for volunteer hours submitted to ${escapeHtml(details.org_name || 'their organization')}.</p>
+<dl>
+  <dt>Activity</dt><dd>${escapeHtml(activityName(details.description))}</dd>
+  <dt>Date</dt><dd>${escapeHtml(formatActivityDate(details.activity_date))}</dd>
+  <dt>Hours</dt><dd>${escapeHtml(String(details.hours))}</dd>
+</dl>
+<form method="POST">
+  <input type="hidden" name="token" value="${escapeHtml(token)}">
+  <label for="comment" class="muted">Comment for the reviewing officers (optional)</label>
+  <textarea id="comment" name="comment" maxlength="500"></textarea>
+  <div class="actions">
+    <button class="confirm" type="submit" name="decision" value="confirm">Confirm</button>
+    <button class="deny" type="submit" name="decision" value="deny">Deny</button>
+  </div>
+</form>
+<p class="muted">This link can only be used once.</p>`,
+  );
+
+const buildSignOffUrl = (supabaseUrl: string, token: string): string => {
+  const baseUrl = Deno.env.get('SUPERVISOR_SIGN_OFF_URL') || `${supabaseUrl}/functions/v1/supervisor-sign-off`;
+  return `${baseUrl}?token=${token}`;
+};
+
+const sendSignOffEmail = async (
+  to: string,
+  link: string,
+  details: SignOffDetails & { expires_at: string },
+): Promise<void> => {
+  const hostname = Deno.env.get('SMTP_HOST');
+  const from = Deno.env.get('SMTP_FROM');
+
+  if (!hostname || !from) {
+    throw new Error('Missing SMTP environment variables');
+  }
+
+  const username = Deno.env.get('SMTP_USERNAME');
+  const password = Deno.env.get('SMTP_PASSWORD');
+
+  const client = new SMTPClient({
+    connection: {
+      hostname,
+      port: Number(Deno.env.get('SMTP_PORT') || 587),
+      tls: Deno.env.get('SMTP_TLS') !== 'false',
+      ...(username && password ? { auth: { username, password } } : {}),
+    },
+  });
+
+  const memberName = details.member_name || 'A student';
+  const activity = activityName(details.description);
+  const date = formatActivityDate(details.activity_date);
+  const expires = new Date(details.expires_at).toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
+
+  try {
+    await client.send({
+      from,
+      to,
+      subject: `Please confirm ${memberName}'s volunteer hours`,
+      content: [
+        `Hello${details.supervisor_name ? ` ${details.supervisor_name}` : ''},`,
+        '',
+        `${memberName} reported ${details.hours} volunteer hours for "${activity}" on ${date} and listed you as their supervisor.`,
+        '',
+        `Please confirm or deny these hours: ${link}`,
+        '',
+        `The link can be used once and expires on ${expires}. If you don't know this student, you can ignore this email.`,
+      ].join('\n'),
+      html: `<p>Hello${details.supervisor_name ? ` ${escapeHtml(details.supervisor_name)}` : ''},</p>
+<p>${escapeHtml(memberName)} reported ${escapeHtml(String(details.hours))} volunteer hours for "${escapeHtml(activity)}" on ${escapeHtml(date)} and listed you as their supervisor.</p>
+<p><a href="${escapeHtml(link)}">Confirm or deny these hours</a></p>
+<p>The link can be used once and expires on ${escapeHtml(expires)}. If you don't know this student, you can ignore this email.</p>`,
+    });
+  } finally {
+    await client.close();
+  }
+};
+
+// Member asks for their supervisor to be emailed. The token is only ever
+// returned to this function, never to the member, so they cannot open the
+// link and confirm their own hours.
+const handleRequest = async (req: Request, supabase: SupabaseClient, supabaseUrl: string): Promise<Response> => {
+  const authorization = req.headers.get('Authorization');
+  const jwt = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+
+  if (!jwt) {
+    return jsonResponse({ success: false, error: 'User not authenticated' }, 401);
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser(jwt);
+  if (userError || !user) {
+    return jsonResponse({ success: false, error: 'User not authenticated' }, 401);
+  }
+
+  const { hour_id, supervisor_name, supervisor_email } = await req.json();
+
+  if (!hour_id || !supervisor_name || !supervisor_email) {
+    return jsonResponse({ success: false, error: 'hour_id, supervisor_name and supervisor_email are required' }, 400);
+  }
+
+  // The database checks that the authenticated member owns the entry
+  const { data, error } = await supabase.rpc('create_supervisor_sign_off_token', {
+    p_member_id: user.id,
+    p_hour_id: hour_id,
+    p_supervisor_name: supervisor_name,
+    p_supervisor_email: supervisor_email,
+  });
+
+  if (error) {
+    throw new Error(`Failed to create sign-off request: ${error.message}`);
+  }
+
+  // Refusals are returned with a 200 so the app can show the message
+  if (!data?.success) {
+    return jsonResponse({ success: false, error: data?.message || 'Failed to create sign-off request' });
+  }
+
+  await sendSignOffEmail(data.supervisor_email, buildSignOffUrl(supabaseUrl, data.token), data);
+  console.log(`📧 Supervisor sign-off request sent for volunteer hour ${hour_id}`);
+
+  return jsonResponse({ success: true, expires_at: data.expires_at });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false },
+    });
+
+    const contentType = req.headers.get('Content-Type') || '';
+
+    if (req.method === 'POST' && contentType.includes('application/json')) {
+      return await handleRequest(req, supabase, supabaseUrl);
+    }
+
+    if (req.method === 'GET') {
+      const token = new URL(req.url).searchParams.get('token') || '';
+      if (!/^[a-f0-9]{64}$/.test(token)) {
+        return invalidLinkPage();
+      }
+
+      const { data, error } = await supabase.rpc('get_supervisor_sign_off', { p_token: token });
+      if (error) {
+        throw new Error(`Failed to load sign-off request: ${error.message}`);
+      }
+
+      return data?.success ? confirmationPage(token, data as SignOffDetails) : invalidLinkPage();
+    }
+
+    if (req.method === 'POST') {
+      const form = await req.formData();
+      const token = String(form.get('token') || '');
+      const decision = String(form.get('decision') || '');
+
+      if (!/^[a-f0-9]{64}$/.test(token) || (decision !== 'confirm' && decision !== 'deny')) {
+        return invalidLinkPage();
+      }
+
+      const { data, error } = await supabase.rpc('respond_to_supervisor_sign_off', {
+        p_token: token,
+        p_confirmed: decision === 'confirm',
+        p_comment: String(form.get('comment') || ''),
+      });
+      if (error) {
+        throw new Error(`Failed to record sign-off: ${error.message}`);
+      }
+
+      if (!data?.success) {
+        return invalidLinkPage();
+      }
+
+      console.log(`✅ Supervisor ${data.status} volunteer hours`);
+      return htmlPage(
+        'Thank you',
+        `<h1>Thank you</h1><p>Your ${decision === 'confirm' ? 'confirmation' : 'response'} has been shared with the reviewing officers. You can close this page.</p>`,
+      );
+    }
+
+    return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+  } catch (error) {
+    console.error('❌ Supervisor sign-off error:', error);
+    return jsonResponse({ success: false, error: 'Supervisor sign-off unavailable' }, 500);
+  }
+});
@@ -0,0 +1,505 @@
+-- Migration: Collision-free BLE beacon Minor allocation
+-- Replaces the 16-bit session token hash with a server-allocated Minor slot.
+-- Each active BLE session gets a Minor that is unique within its organization,
+-- so two concurrent sessions can never advertise the same Major/Minor pair.
+-- Slots are released when a session is terminated or expires.
+
+-- 1. Slot allocation table
+CREATE TABLE IF NOT EXISTS ble_beacon_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  session_token TEXT NOT NULL,
+  minor INTEGER NOT NULL CHECK (minor BETWEEN 1 AND 65535),
+  allocated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  released_at TIMESTAMP WITH TIME ZONE,
+  release_reason TEXT CHECK (release_reason IN ('terminated', 'expired'))
+);
+
+-- Only one active (unreleased) holder per org/minor pair
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ble_beacon_slots_active_minor
+  ON ble_beacon_slots(org_id, minor)
+  WHERE released_at IS NULL;
+
+-- One active slot per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ble_beacon_slots_active_event
+  ON ble_beacon_slots(event_id)
+  WHERE released_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ble_beacon_slots_session_token
+  ON ble_beacon_slots(session_token);
+
+ALTER TABLE ble_beacon_slots ENABLE ROW LEVEL SECURITY;
+
+-- Slots are only touched through the SECURITY DEFINER functions below;
+-- members of the org may read them for diagnostics.
+CREATE POLICY "Members view org beacon slots" ON ble_beacon_slots
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM memberships m
+      WHERE m.user_id = auth.uid()
+      AND m.org_id = ble_beacon_slots.org_id
+      AND m.is_active = true
+    )
+  );
+
+-- 2. Release slots whose sessions have expired
+CREATE OR REPLACE FUNCTION release_expired_beacon_slots(p_org_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  released_count INTEGER;
+BEGIN
+  UPDATE ble_beacon_slots
+  SET released_at = NOW(),
+      release_reason = 'expired'
+  WHERE released_at IS NULL
+  AND expires_at <= NOW()
+  AND (p_org_id IS NULL OR org_id = p_org_id);
+
+  GET DIAGNOSTICS released_count = ROW_COUNT;
+  RETURN released_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Allocate the lowest free Minor for an organization
+CREATE OR REPLACE FUNCTION allocate_beacon_minor(
+  p_org_id UUID,
+  p_event_id UUID,
+  p_session_token TEXT,
+  p_expires_at TIMESTAMPTZ
+) RETURNS INTEGER AS $$
+DECLARE
+  free_minor INTEGER;
+BEGIN
+  -- Serialize allocation per organization so concurrent session creation
+  -- cannot pick the same slot
+  PERFORM pg_advisory_xact_lock(hashtext('ble_beacon_slots:' || p_org_id::TEXT));
+
+  PERFORM release_expired_beacon_slots(p_org_id);
+
+  SELECT s.minor INTO free_minor
+  FROM generate_series(1, 65535) AS s(minor)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM ble_beacon_slots b
+    WHERE b.org_id = p_org_id
+    AND b.minor = s.minor
+    AND b.released_at IS NULL
+  )
+  ORDER BY s.minor
+  LIMIT 1;
+
+  IF free_minor IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO ble_beacon_slots (org_id, event_id, session_token, minor, expires_at)
+  VALUES (p_org_id, p_event_id, p_session_token, free_minor, p_expires_at);
+
+  RETURN free_minor;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Release the slot held by a session
+CREATE OR REPLACE FUNCTION release_beacon_minor(
+  p_session_token TEXT,
+  p_reason TEXT DEFAULT 'terminated'
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE ble_beacon_slots
+  SET released_at = NOW(),
+      release_reason = p_reason
+  WHERE session_token = UPPER(TRIM(p_session_token))
+  AND released_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. create_session_secure now allocates a Minor slot for the new session
+CREATE OR REPLACE FUNCTION create_session_secure(
+    p_org_id UUID,
+    p_title TEXT,
+    p_starts_at TIMESTAMPTZ DEFAULT NOW(),
+    p_ttl_seconds INTEGER DEFAULT 3600
+) RETURNS JSONB AS $$
+DECLARE
+    session_token TEXT;
+    event_id UUID;
+    beacon_minor INTEGER;
+    session_expires_at TIMESTAMPTZ;
+    secure_chars TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    token_length INTEGER := 12;
+    max_retries INTEGER := 10;
+    retry_count INTEGER := 0;
+    entropy_bits NUMERIC;
+    collision_check INTEGER;
+BEGIN
+    -- Validate inputs
+    IF p_org_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Organization ID cannot be null'
+        );
+    END IF;
+
+    IF p_title IS NULL OR LENGTH(TRIM(p_title)) = 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Session title cannot be empty'
+        );
+    END IF;
+
+    IF p_ttl_seconds <= 0 OR p_ttl_seconds > 86400 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'TTL must be between 1 and 86400 seconds (24 hours)'
+        );
+    END IF;
+
+    -- Generate cryptographically secure token with collision detection
+    LOOP
+        session_token := '';
+
+        FOR i IN 1..token_length LOOP
+            session_token := session_token || substr(secure_chars,
+                (floor(random() * length(secure_chars)) + 1)::INTEGER, 1);
+        END LOOP;
+
+        SELECT COUNT(*) INTO collision_check
+        FROM events
+        WHERE description::JSONB->>'session_token' = session_token
+        AND ends_at > NOW()
+        AND description::JSONB->>'attendance_method' = 'ble';
+
+        EXIT WHEN collision_check = 0 OR retry_count >= max_retries;
+
+        retry_count := retry_count + 1;
+    END LOOP;
+
+    IF retry_count >= max_retries THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'token_generation_failed',
+            'message', 'Failed to generate unique token after maximum retries'
+        );
+    END IF;
+
+    entropy_bits := token_length * log(2, length(secure_chars));
+    session_expires_at := p_starts_at + (p_ttl_seconds || ' seconds')::INTERVAL;
+
+    INSERT INTO events (
+        org_id,
+        title,
+        starts_at,
+        ends_at,
+        event_type,
+        created_by,
+        description
+    )
+    VALUES (
+        p_org_id,
+        TRIM(p_title),
+        p_starts_at,
+        session_expires_at,
+        'meeting',
+        auth.uid(),
+        jsonb_build_object(
+            'session_token', session_token,
+            'ttl_seconds', p_ttl_seconds,
+            'attendance_method', 'ble',
+            'created_at', NOW(),
+            'token_entropy_bits', entropy_bits,
+            'token_generation_retries', retry_count,
+            'security_version', '2.0'
+        )::TEXT
+    )
+    RETURNING id INTO event_id;
+
+    -- Reserve a unique beacon Minor for this session
+    beacon_minor := allocate_beacon_minor(p_org_id, event_id, session_token, session_expires_at);
+
+    IF beacon_minor IS NULL THEN
+        -- Every slot is taken; roll back the event we just created
+        DELETE FROM events WHERE id = event_id;
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'beacon_slots_exhausted',
+            'message', 'No free beacon slots available for this organization'
+        );
+    END IF;
+
+    UPDATE events
+    SET description = (description::JSONB || jsonb_build_object('beacon_minor', beacon_minor))::TEXT
+    WHERE id = event_id;
+
+    RAISE NOTICE 'Secure BLE session created: token=%, event_id=%, org_id=%, minor=%, entropy=% bits, retries=%',
+        session_token, event_id, p_org_id, beacon_minor, entropy_bits, retry_count;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'session_token', session_token,
+        'event_id', event_id,
+        'beacon_minor', beacon_minor,
+        'expires_at', session_expires_at,
+        'entropy_bits', entropy_bits,
+        'security_level', CASE
+            WHEN entropy_bits >= 80 THEN 'strong'
+            WHEN entropy_bits >= 60 THEN 'moderate'
+            ELSE 'weak'
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. terminate_session now releases the session's Minor slot
+CREATE OR REPLACE FUNCTION terminate_session(p_session_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    session_event_id UUID;
+    session_title TEXT;
+    original_ends_at TIMESTAMPTZ;
+BEGIN
+    IF p_session_token IS NULL OR LENGTH(TRIM(p_session_token)) != 12 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_token',
+            'message', 'Invalid session token format'
+        );
+    END IF;
+
+    p_session_token := UPPER(TRIM(p_session_token));
+
+    SELECT e.id, e.title, e.ends_at
+    INTO session_event_id, session_title, original_ends_at
+    FROM events e
+    WHERE e.description::JSONB->>'session_token' = p_session_token
+    AND e.description::JSONB->>'attendance_method' = 'ble';
+
+    IF session_event_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_not_found',
+            'message', 'Session not found'
+        );
+    END IF;
+
+    IF original_ends_at <= NOW() THEN
+        PERFORM release_beacon_minor(p_session_token, 'expired');
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_expired',
+            'message', 'Session has already expired',
+            'expired_at', original_ends_at
+        );
+    END IF;
+
+    UPDATE events
+    SET
+        ends_at = NOW(),
+        description = description::JSONB || jsonb_build_object(
+            'terminated_at', NOW(),
+            'terminated_by', auth.uid(),
+            'termination_reason', 'manual',
+            'original_ends_at', original_ends_at
+        )::TEXT
+    WHERE id = session_event_id;
+
+    PERFORM release_beacon_minor(p_session_token, 'terminated');
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'session_token', p_session_token,
+        'event_id', session_event_id,
+        'event_title', session_title,
+        'terminated_at', NOW(),
+        'original_ends_at', original_ends_at,
+        'time_saved_seconds', EXTRACT(EPOCH FROM (original_ends_at - NOW()))::INTEGER
+    );
+
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE WARNING 'Error in terminate_session: %', SQLERRM;
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'internal_error',
+            'message', 'An error occurred while terminating the session'
+        );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. cleanup_orphaned_sessions also frees slots of expired sessions
+CREATE OR REPLACE FUNCTION cleanup_orphaned_sessions()
+RETURNS JSONB AS $$
+DECLARE
+    orphaned_count INTEGER := 0;
+    released_slots INTEGER := 0;
+    cleaned_sessions JSONB := '[]'::JSONB;
+    session_record RECORD;
+BEGIN
+    FOR session_record IN
+        SELECT
+            e.id,
+            e.title,
+            e.description::JSONB->>'session_token' as session_token,
+            e.ends_at,
+            EXTRACT(EPOCH FROM (NOW() - e.ends_at))::INTEGER as seconds_overdue
+        FROM events e
+        WHERE e.description::JSONB->>'attendance_method' = 'ble'
+        AND e.ends_at < NOW()
+        AND e.description::JSONB->>'terminated_at' IS NULL
+        AND e.ends_at > NOW() - INTERVAL '24 hours'
+    LOOP
+        UPDATE events
+        SET description = description::JSONB || jsonb_build_object(
+            'terminated_at', NOW(),
+            'termination_reason', 'auto_cleanup',
+            'seconds_overdue', session_record.seconds_overdue
+        )::TEXT
+        WHERE id = session_record.id;
+
+        orphaned_count := orphaned_count + 1;
+
+        cleaned_sessions := cleaned_sessions || jsonb_build_object(
+            'event_id', session_record.id,
+            'title', session_record.title,
+            'session_token', session_record.session_token,
+            'ended_at', session_record.ends_at,
+            'seconds_overdue', session_record.seconds_overdue
+        );
+    END LOOP;
+
+    released_slots := release_expired_beacon_slots();
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'orphaned_count', orphaned_count,
+        'released_beacon_slots', released_slots,
+        'cleaned_sessions', cleaned_sessions,
+        'cleanup_time', NOW()
+    );
+
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE WARNING 'Error in cleanup_orphaned_sessions: %', SQLERRM;
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'cleanup_failed',
+            'message', SQLERRM
+        );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. get_active_sessions returns the allocated Minor alongside each session
+DROP FUNCTION IF EXISTS get_active_sessions(UUID);
+
+CREATE OR REPLACE FUNCTION get_active_sessions(p_org_id UUID)
+RETURNS TABLE(
+    session_token TEXT,
+    event_id UUID,
+    event_title TEXT,
+    starts_at TIMESTAMPTZ,
+    ends_at TIMESTAMPTZ,
+    attendee_count BIGINT,
+    org_code INTEGER,
+    beacon_minor INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        e.description::JSONB->>'session_token' as session_token,
+        e.id as event_id,
+        e.title as event_title,
+        e.starts_at,
+        e.ends_at,
+        COALESCE(a.attendee_count, 0) as attendee_count,
+        get_org_code(o.slug) as org_code,
+        s.minor as beacon_minor
+    FROM events e
+    JOIN organizations o ON e.org_id = o.id
+    LEFT JOIN ble_beacon_slots s ON s.event_id = e.id AND s.released_at IS NULL
+    LEFT JOIN (
+        SELECT att.event_id, COUNT(*) as attendee_count
+        FROM attendance att
+        GROUP BY att.event_id
+    ) a ON e.id = a.event_id
+    WHERE e.org_id = p_org_id
+    AND e.description::JSONB->>'attendance_method' = 'ble'
+    AND e.starts_at <= NOW()
+    AND e.ends_at > NOW()
+    AND e.description::JSONB->>'terminated_at' IS NULL
+    ORDER BY e.starts_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 9. Resolve a detected beacon by exact slot lookup
+DROP FUNCTION IF EXISTS find_session_by_beacon(INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS find_session_by_beacon(INTEGER, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION find_session_by_beacon(
+    p_major INTEGER,
+    p_minor INTEGER,
+    p_org_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+    session_token TEXT,
+    event_id UUID,
+    event_title TEXT,
+    org_id UUID,
+    org_slug TEXT,
+    starts_at TIMESTAMPTZ,
+    ends_at TIMESTAMPTZ,
+    is_valid BOOLEAN,
+    attendee_count BIGINT,
+    beacon_minor INTEGER,
+    created_by UUID
+) AS $$
+BEGIN
+    IF p_major IS NULL OR p_minor IS NULL OR p_minor < 1 OR p_minor > 65535 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        s.session_token,
+        e.id,
+        e.title,
+        e.org_id,
+        o.slug,
+        e.starts_at,
+        e.ends_at,
+        (e.starts_at <= NOW() AND e.ends_at > NOW()) as is_valid,
+        (SELECT COUNT(*) FROM attendance att WHERE att.event_id = e.id) as attendee_count,
+        s.minor,
+        e.created_by
+    FROM ble_beacon_slots s
+    JOIN events e ON e.id = s.event_id
+    JOIN organizations o ON o.id = s.org_id
+    WHERE s.minor = p_minor
+    AND s.released_at IS NULL
+    AND s.expires_at > NOW()
+    AND get_org_code(o.slug) = p_major
+    AND (p_org_id IS NULL OR s.org_id = p_org_id)
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 10. Permissions
+GRANT EXECUTE ON FUNCTION create_session_secure(UUID, TEXT, TIMESTAMPTZ, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION terminate_session(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_orphaned_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_active_sessions(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION find_session_by_beacon(INTEGER, INTEGER, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION allocate_beacon_minor(UUID, UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_beacon_minor(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_expired_beacon_slots(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE ble_beacon_slots IS 'Per-organization BLE beacon Minor allocations for active attendance sessions';
+COMMENT ON FUNCTION allocate_beacon_minor IS 'Reserves the lowest free beacon Minor for a session within its organization';
+COMMENT ON FUNCTION release_beacon_minor IS 'Frees the beacon Minor held by a session';
+COMMENT ON FUNCTION release_expired_beacon_slots IS 'Frees beacon Minor slots whose sessions have expired';
+COMMENT ON FUNCTION find_session_by_beacon IS 'Resolves a detected beacon Major/Minor to its active session by exact slot lookup';
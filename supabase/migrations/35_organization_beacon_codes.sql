@@ -0,0 +1,85 @@
+-- Migration: Organization beacon codes
+-- Moves the BLE beacon Major code for each organization out of the hard-coded
+-- get_org_code() CASE and onto the organizations table, so new organizations
+-- get a registered code without an app release.
+
+-- 1. Beacon Major column
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS beacon_major INTEGER CHECK (beacon_major BETWEEN 1 AND 65535);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organizations_beacon_major
+  ON organizations(beacon_major);
+
+COMMENT ON COLUMN organizations.beacon_major IS 'Registered BLE beacon Major code for this organization (unique, 1-65535)';
+
+-- 2. Backfill: keep the codes already broadcast by deployed apps
+UPDATE organizations SET beacon_major = 1 WHERE slug = 'nhs' AND beacon_major IS NULL;
+UPDATE organizations SET beacon_major = 2 WHERE slug = 'nhsa' AND beacon_major IS NULL;
+
+-- Any other organization gets the next free code, in creation order
+DO $$
+DECLARE
+    org_record RECORD;
+BEGIN
+    FOR org_record IN
+        SELECT id FROM organizations
+        WHERE beacon_major IS NULL
+        ORDER BY created_at, id
+    LOOP
+        UPDATE organizations
+        SET beacon_major = (SELECT COALESCE(MAX(beacon_major), 0) + 1 FROM organizations)
+        WHERE id = org_record.id;
+    END LOOP;
+END $$;
+
+-- 3. Assign a code to new organizations automatically
+CREATE OR REPLACE FUNCTION assign_organization_beacon_major()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.beacon_major IS NULL THEN
+        -- Serialize concurrent inserts so two organizations never race for the same code
+        PERFORM pg_advisory_xact_lock(hashtext('organizations_beacon_major'));
+
+        SELECT gs.code INTO NEW.beacon_major
+        FROM generate_series(1, 65535) AS gs(code)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM organizations o WHERE o.beacon_major = gs.code
+        )
+        ORDER BY gs.code
+        LIMIT 1;
+
+        IF NEW.beacon_major IS NULL THEN
+            RAISE EXCEPTION 'No beacon Major codes available for organization %', NEW.slug;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_organization_beacon_major ON organizations;
+CREATE TRIGGER assign_organization_beacon_major
+    BEFORE INSERT ON organizations
+    FOR EACH ROW EXECUTE FUNCTION assign_organization_beacon_major();
+
+-- 4. get_org_code now reads the registered code
+-- Callers (get_active_sessions, find_session_by_beacon) keep the same signature.
+CREATE OR REPLACE FUNCTION get_org_code(p_org_slug TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_code INTEGER;
+BEGIN
+    SELECT beacon_major INTO v_code
+    FROM organizations
+    WHERE slug = p_org_slug;
+
+    RETURN COALESCE(v_code, 0); -- 0 = unknown organization
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 5. Permissions
+GRANT EXECUTE ON FUNCTION get_org_code(TEXT) TO authenticated;
+
+-- 6. Comments
+COMMENT ON FUNCTION get_org_code IS 'Returns the registered BLE beacon Major code for an organization slug (0 if unknown)';
+COMMENT ON FUNCTION assign_organization_beacon_major IS 'Assigns the lowest free beacon Major code to new organizations';
@@ -0,0 +1,547 @@
+-- Migration: Rotating BLE beacon codes
+-- Adds an optional rotating mode for attendance sessions. Instead of the static
+-- Minor slot, the officer's device advertises a Minor derived from a per-session
+-- secret and the current time window (TOTP-style). add_attendance_secure only
+-- accepts the code for the current or previous window, so a Major/Minor pair
+-- recorded during the session cannot be rebroadcast later to check in remotely.
+--
+-- Static slots now use Minors 1-32767 and rotating codes use 32768-65535, so a
+-- rotating code can never shadow another session's static slot.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 1. Rotation secrets
+-- Kept out of ble_beacon_slots (readable by members) and events.description;
+-- only the SECURITY DEFINER functions below can read them.
+CREATE TABLE IF NOT EXISTS ble_beacon_rotation_keys (
+  event_id UUID PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  session_token TEXT NOT NULL UNIQUE,
+  secret TEXT NOT NULL,
+  interval_seconds INTEGER NOT NULL DEFAULT 30 CHECK (interval_seconds BETWEEN 10 AND 300),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE ble_beacon_rotation_keys ENABLE ROW LEVEL SECURITY;
+
+-- 2. Code derivation
+-- Window index for a rotation interval
+CREATE OR REPLACE FUNCTION beacon_rotation_window(
+  p_interval_seconds INTEGER,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS BIGINT AS $$
+BEGIN
+  RETURN FLOOR(EXTRACT(EPOCH FROM p_at) / p_interval_seconds)::BIGINT;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Minor advertised during a window: HMAC-SHA256(secret, window) folded into 32768-65535
+CREATE OR REPLACE FUNCTION beacon_rotation_code(p_secret TEXT, p_window BIGINT)
+RETURNS INTEGER AS $$
+DECLARE
+  mac BYTEA;
+BEGIN
+  mac := extensions.hmac(p_window::TEXT, p_secret, 'sha256');
+  RETURN 32768 + (((get_byte(mac, 0) << 8) | get_byte(mac, 1)) & 32767);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- True when the Minor matches the current or previous window
+CREATE OR REPLACE FUNCTION beacon_code_is_current(
+  p_secret TEXT,
+  p_interval_seconds INTEGER,
+  p_minor INTEGER
+) RETURNS BOOLEAN AS $$
+DECLARE
+  current_window BIGINT;
+BEGIN
+  IF p_minor IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  current_window := beacon_rotation_window(p_interval_seconds);
+
+  RETURN p_minor = beacon_rotation_code(p_secret, current_window)
+      OR p_minor = beacon_rotation_code(p_secret, current_window - 1);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- 3. Static slots move to the lower half of the Minor range
+CREATE OR REPLACE FUNCTION allocate_beacon_minor(
+  p_org_id UUID,
+  p_event_id UUID,
+  p_session_token TEXT,
+  p_expires_at TIMESTAMPTZ
+) RETURNS INTEGER AS $$
+DECLARE
+  free_minor INTEGER;
+BEGIN
+  -- Serialize allocation per organization so concurrent session creation
+  -- cannot pick the same slot
+  PERFORM pg_advisory_xact_lock(hashtext('ble_beacon_slots:' || p_org_id::TEXT));
+
+  PERFORM release_expired_beacon_slots(p_org_id);
+
+  SELECT s.minor INTO free_minor
+  FROM generate_series(1, 32767) AS s(minor)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM ble_beacon_slots b
+    WHERE b.org_id = p_org_id
+    AND b.minor = s.minor
+    AND b.released_at IS NULL
+  )
+  ORDER BY s.minor
+  LIMIT 1;
+
+  IF free_minor IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO ble_beacon_slots (org_id, event_id, session_token, minor, expires_at)
+  VALUES (p_org_id, p_event_id, p_session_token, free_minor, p_expires_at);
+
+  RETURN free_minor;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. create_session_secure accepts an optional rotating mode
+DROP FUNCTION IF EXISTS create_session_secure(UUID, TEXT, TIMESTAMPTZ, INTEGER);
+
+CREATE OR REPLACE FUNCTION create_session_secure(
+    p_org_id UUID,
+    p_title TEXT,
+    p_starts_at TIMESTAMPTZ DEFAULT NOW(),
+    p_ttl_seconds INTEGER DEFAULT 3600,
+    p_rotating BOOLEAN DEFAULT FALSE,
+    p_rotation_interval INTEGER DEFAULT 30
+) RETURNS JSONB AS $$
+DECLARE
+    session_token TEXT;
+    event_id UUID;
+    beacon_minor INTEGER;
+    session_expires_at TIMESTAMPTZ;
+    secure_chars TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    token_length INTEGER := 12;
+    max_retries INTEGER := 10;
+    retry_count INTEGER := 0;
+    entropy_bits NUMERIC;
+    collision_check INTEGER;
+    rotation_interval INTEGER;
+BEGIN
+    -- Validate inputs
+    IF p_org_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Organization ID cannot be null'
+        );
+    END IF;
+
+    IF p_title IS NULL OR LENGTH(TRIM(p_title)) = 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Session title cannot be empty'
+        );
+    END IF;
+
+    IF p_ttl_seconds <= 0 OR p_ttl_seconds > 86400 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'TTL must be between 1 and 86400 seconds (24 hours)'
+        );
+    END IF;
+
+    rotation_interval := COALESCE(p_rotation_interval, 30);
+
+    IF COALESCE(p_rotating, FALSE) AND (rotation_interval < 10 OR rotation_interval > 300) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Rotation interval must be between 10 and 300 seconds'
+        );
+    END IF;
+
+    -- Generate cryptographically secure token with collision detection
+    LOOP
+        session_token := '';
+
+        FOR i IN 1..token_length LOOP
+            session_token := session_token || substr(secure_chars,
+                (floor(random() * length(secure_chars)) + 1)::INTEGER, 1);
+        END LOOP;
+
+        SELECT COUNT(*) INTO collision_check
+        FROM events
+        WHERE description::JSONB->>'session_token' = session_token
+        AND ends_at > NOW()
+        AND description::JSONB->>'attendance_method' = 'ble';
+
+        EXIT WHEN collision_check = 0 OR retry_count >= max_retries;
+
+        retry_count := retry_count + 1;
+    END LOOP;
+
+    IF retry_count >= max_retries THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'token_generation_failed',
+            'message', 'Failed to generate unique token after maximum retries'
+        );
+    END IF;
+
+    entropy_bits := token_length * log(2, length(secure_chars));
+    session_expires_at := p_starts_at + (p_ttl_seconds || ' seconds')::INTERVAL;
+
+    INSERT INTO events (
+        org_id,
+        title,
+        starts_at,
+        ends_at,
+        event_type,
+        created_by,
+        description
+    )
+    VALUES (
+        p_org_id,
+        TRIM(p_title),
+        p_starts_at,
+        session_expires_at,
+        'meeting',
+        auth.uid(),
+        jsonb_build_object(
+            'session_token', session_token,
+            'ttl_seconds', p_ttl_seconds,
+            'attendance_method', 'ble',
+            'created_at', NOW(),
+            'token_entropy_bits', entropy_bits,
+            'token_generation_retries', retry_count,
+            'security_version', '2.0',
+            'rotating_beacon', COALESCE(p_rotating, FALSE)
+        )::TEXT
+    )
+    RETURNING id INTO event_id;
+
+    -- Reserve a unique beacon Minor for this session
+    beacon_minor := allocate_beacon_minor(p_org_id, event_id, session_token, session_expires_at);
+
+    IF beacon_minor IS NULL THEN
+        -- Every slot is taken; roll back the event we just created
+        DELETE FROM events WHERE id = event_id;
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'beacon_slots_exhausted',
+            'message', 'No free beacon slots available for this organization'
+        );
+    END IF;
+
+    UPDATE events
+    SET description = (description::JSONB || jsonb_build_object('beacon_minor', beacon_minor))::TEXT
+    WHERE id = event_id;
+
+    -- Rotating sessions get a per-session secret; the advertised Minor is
+    -- derived from it per time window instead of the static slot
+    IF COALESCE(p_rotating, FALSE) THEN
+        INSERT INTO ble_beacon_rotation_keys (event_id, org_id, session_token, secret, interval_seconds)
+        VALUES (event_id, p_org_id, session_token, encode(extensions.gen_random_bytes(32), 'hex'), rotation_interval);
+    END IF;
+
+    RAISE NOTICE 'Secure BLE session created: token=%, event_id=%, org_id=%, minor=%, entropy=% bits, retries=%',
+        session_token, event_id, p_org_id, beacon_minor, entropy_bits, retry_count;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'session_token', session_token,
+        'event_id', event_id,
+        'beacon_minor', beacon_minor,
+        'rotating', COALESCE(p_rotating, FALSE),
+        'rotation_interval_seconds', CASE WHEN COALESCE(p_rotating, FALSE) THEN rotation_interval END,
+        'expires_at', session_expires_at,
+        'entropy_bits', entropy_bits,
+        'security_level', CASE
+            WHEN entropy_bits >= 80 THEN 'strong'
+            WHEN entropy_bits >= 60 THEN 'moderate'
+            ELSE 'weak'
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Upcoming codes for the broadcasting device
+-- Returned a batch at a time so the broadcaster keeps rotating through short
+-- network drops. Only the session creator or an officer may read them.
+CREATE OR REPLACE FUNCTION get_beacon_rotation_schedule(
+    p_session_token TEXT,
+    p_count INTEGER DEFAULT 10
+) RETURNS JSONB AS $$
+DECLARE
+    rotation_key RECORD;
+    current_window BIGINT;
+    codes JSONB := '[]'::JSONB;
+    window_start TIMESTAMPTZ;
+BEGIN
+    p_session_token := UPPER(TRIM(COALESCE(p_session_token, '')));
+    p_count := LEAST(GREATEST(COALESCE(p_count, 10), 1), 60);
+
+    SELECT k.secret, k.interval_seconds, e.org_id, e.created_by, e.ends_at
+    INTO rotation_key
+    FROM ble_beacon_rotation_keys k
+    JOIN events e ON e.id = k.event_id
+    WHERE k.session_token = p_session_token;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'rotating', false
+        );
+    END IF;
+
+    IF rotation_key.created_by IS DISTINCT FROM auth.uid() AND NOT is_officer_of(rotation_key.org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'Only officers can broadcast this session'
+        );
+    END IF;
+
+    current_window := beacon_rotation_window(rotation_key.interval_seconds);
+
+    FOR i IN 0..(p_count - 1) LOOP
+        window_start := to_timestamp((current_window + i) * rotation_key.interval_seconds);
+        EXIT WHEN window_start >= rotation_key.ends_at;
+
+        codes := codes || jsonb_build_object(
+            'minor', beacon_rotation_code(rotation_key.secret, current_window + i),
+            'starts_at', window_start,
+            'ends_at', window_start + make_interval(secs => rotation_key.interval_seconds)
+        );
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'rotating', true,
+        'interval_seconds', rotation_key.interval_seconds,
+        'codes', codes
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. find_session_by_beacon also matches live rotating codes
+DROP FUNCTION IF EXISTS find_session_by_beacon(INTEGER, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION find_session_by_beacon(
+    p_major INTEGER,
+    p_minor INTEGER,
+    p_org_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+    session_token TEXT,
+    event_id UUID,
+    event_title TEXT,
+    org_id UUID,
+    org_slug TEXT,
+    starts_at TIMESTAMPTZ,
+    ends_at TIMESTAMPTZ,
+    is_valid BOOLEAN,
+    attendee_count BIGINT,
+    beacon_minor INTEGER,
+    created_by UUID,
+    rotating BOOLEAN
+) AS $$
+BEGIN
+    IF p_major IS NULL OR p_minor IS NULL OR p_minor < 1 OR p_minor > 65535 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        s.session_token,
+        e.id,
+        e.title,
+        e.org_id,
+        o.slug,
+        e.starts_at,
+        e.ends_at,
+        (e.starts_at <= NOW() AND e.ends_at > NOW()) as is_valid,
+        (SELECT COUNT(*) FROM attendance att WHERE att.event_id = e.id) as attendee_count,
+        p_minor,
+        e.created_by,
+        (k.event_id IS NOT NULL) as rotating
+    FROM ble_beacon_slots s
+    JOIN events e ON e.id = s.event_id
+    JOIN organizations o ON o.id = s.org_id
+    LEFT JOIN ble_beacon_rotation_keys k ON k.event_id = s.event_id
+    WHERE s.released_at IS NULL
+    AND s.expires_at > NOW()
+    AND get_org_code(o.slug) = p_major
+    AND (p_org_id IS NULL OR s.org_id = p_org_id)
+    AND (
+        -- Static sessions: exact slot match. A rotating session's slot is
+        -- never advertised, so it must not match either.
+        (k.event_id IS NULL AND s.minor = p_minor)
+        OR (k.event_id IS NOT NULL AND beacon_code_is_current(k.secret, k.interval_seconds, p_minor))
+    )
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. add_attendance_secure verifies the live code for rotating sessions
+DROP FUNCTION IF EXISTS add_attendance_secure(TEXT);
+
+CREATE OR REPLACE FUNCTION add_attendance_secure(
+    p_session_token TEXT,
+    p_beacon_minor INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    session_info RECORD;
+    member_org_id UUID;
+    attendance_id UUID;
+    token_validation JSONB;
+    expiration_check RECORD;
+    rotation_key RECORD;
+    result JSONB;
+BEGIN
+    -- Sanitize input
+    p_session_token := UPPER(TRIM(COALESCE(p_session_token, '')));
+    
+    -- Validate token security properties
+    SELECT * INTO token_validation FROM validate_token_security(p_session_token);
+    
+    IF NOT (token_validation->>'is_valid')::BOOLEAN THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_token_security',
+            'message', token_validation->>'message',
+            'details', token_validation
+        );
+    END IF;
+    
+    -- Check session expiration with detailed validation
+    SELECT * INTO expiration_check FROM validate_session_expiration(p_session_token);
+    
+    IF expiration_check.event_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_not_found',
+            'message', 'Session not found or invalid token'
+        );
+    END IF;
+    
+    IF NOT expiration_check.is_valid THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_expired',
+            'message', 'Session has expired',
+            'expires_at', expiration_check.expires_at,
+            'time_remaining_seconds', expiration_check.time_remaining_seconds
+        );
+    END IF;
+    
+    -- Rotating sessions only accept the code advertised in the current or
+    -- previous window, so a recorded beacon cannot be replayed later
+    SELECT k.secret, k.interval_seconds INTO rotation_key
+    FROM ble_beacon_rotation_keys k
+    WHERE k.session_token = p_session_token;
+
+    IF FOUND THEN
+        IF p_beacon_minor IS NULL THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'beacon_code_required',
+                'message', 'This session requires a live beacon code'
+            );
+        END IF;
+
+        IF NOT beacon_code_is_current(rotation_key.secret, rotation_key.interval_seconds, p_beacon_minor) THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'stale_beacon_code',
+                'message', 'Beacon code has expired. Stay near the session beacon and try again.'
+            );
+        END IF;
+    END IF;
+    
+    -- Get session details
+    SELECT * INTO session_info FROM resolve_session(p_session_token);
+    
+    -- Check user authentication
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+    
+    -- Verify organization membership with additional security checks
+    SELECT m.org_id INTO member_org_id 
+    FROM memberships m
+    JOIN organizations o ON m.org_id = o.id
+    WHERE m.user_id = auth.uid() 
+    AND m.org_id = session_info.org_id 
+    AND m.is_active = true
+    AND o.is_active = true; -- Ensure organization is also active
+    
+    IF member_org_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'organization_mismatch',
+            'message', 'User is not an active member of this organization'
+        );
+    END IF;
+    
+    -- Insert attendance record with enhanced metadata
+    INSERT INTO attendance (event_id, member_id, method, org_id, recorded_at)
+    VALUES (
+        session_info.event_id, 
+        auth.uid(), 
+        'ble', 
+        session_info.org_id, 
+        NOW()
+    )
+    ON CONFLICT (event_id, member_id) DO UPDATE SET
+        method = EXCLUDED.method,
+        recorded_at = EXCLUDED.recorded_at
+    RETURNING id INTO attendance_id;
+    
+    -- Build success response with security metadata
+    result := jsonb_build_object(
+        'success', true,
+        'attendance_id', attendance_id,
+        'event_id', session_info.event_id,
+        'event_title', session_info.event_title,
+        'org_slug', session_info.org_slug,
+        'recorded_at', NOW(),
+        'session_expires_at', expiration_check.expires_at,
+        'time_remaining_seconds', expiration_check.time_remaining_seconds,
+        'token_security', token_validation
+    );
+    
+    -- Log successful attendance with security context
+    RAISE NOTICE 'Secure BLE attendance recorded: user=%, event=%, token=%, entropy=% bits', 
+        auth.uid(), session_info.event_id, p_session_token, 
+        (token_validation->>'entropy_bits')::NUMERIC;
+    
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Permissions
+GRANT EXECUTE ON FUNCTION create_session_secure(UUID, TEXT, TIMESTAMPTZ, INTEGER, BOOLEAN, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_beacon_rotation_schedule(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION find_session_by_beacon(INTEGER, INTEGER, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_attendance_secure(TEXT, INTEGER) TO authenticated;
+REVOKE EXECUTE ON FUNCTION beacon_rotation_code(TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION beacon_code_is_current(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 9. Comments
+COMMENT ON TABLE ble_beacon_rotation_keys IS 'Per-session secrets for rotating BLE beacon codes (server-only)';
+COMMENT ON FUNCTION beacon_rotation_window IS 'Returns the rotation window index for an interval at a point in time';
+COMMENT ON FUNCTION beacon_rotation_code IS 'Derives the beacon Minor advertised in a rotation window (32768-65535)';
+COMMENT ON FUNCTION beacon_code_is_current IS 'Checks a Minor against the current and previous rotation windows';
+COMMENT ON FUNCTION create_session_secure IS 'Creates BLE session with a secure token, a beacon Minor slot and optional rotating beacon codes';
+COMMENT ON FUNCTION get_beacon_rotation_schedule IS 'Returns upcoming rotating beacon codes for the broadcasting officer';
+COMMENT ON FUNCTION find_session_by_beacon IS 'Resolves a detected beacon Major/Minor to its active session by static slot or live rotating code';
+COMMENT ON FUNCTION add_attendance_secure IS 'Records attendance with enhanced security validation; rotating sessions require a live beacon code';
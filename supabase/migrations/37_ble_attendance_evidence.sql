@@ -0,0 +1,523 @@
+-- Migration: BLE attendance proximity evidence
+-- Members' scanners now send the RSSI samples and first/last-seen times they
+-- recorded for a session's beacon with each check-in. The evidence is stored
+-- next to the attendance row so officers can review it, and sessions can set a
+-- proximity policy (minimum dwell time and/or minimum average RSSI) that
+-- add_attendance_secure enforces.
+
+-- 1. Evidence table
+CREATE TABLE IF NOT EXISTS ble_attendance_evidence (
+  attendance_id UUID PRIMARY KEY REFERENCES attendance(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  rssi_samples INTEGER[] NOT NULL DEFAULT '{}',
+  rssi_avg NUMERIC(5, 1),
+  rssi_max INTEGER,
+  sample_count INTEGER NOT NULL DEFAULT 0,
+  first_seen_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  dwell_seconds INTEGER,
+  beacon_minor INTEGER,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ble_attendance_evidence_event
+  ON ble_attendance_evidence(event_id);
+
+ALTER TABLE ble_attendance_evidence ENABLE ROW LEVEL SECURITY;
+
+-- Written only by add_attendance_secure; members see their own, officers their org's
+CREATE POLICY "Members view own attendance evidence" ON ble_attendance_evidence
+  FOR SELECT TO authenticated
+  USING (member_id = auth.uid());
+
+CREATE POLICY "Officers view org attendance evidence" ON ble_attendance_evidence
+  FOR SELECT TO authenticated
+  USING (is_officer_of(org_id));
+
+-- 2. create_session_secure accepts a proximity policy
+DROP FUNCTION IF EXISTS create_session_secure(UUID, TEXT, TIMESTAMPTZ, INTEGER, BOOLEAN, INTEGER);
+
+CREATE OR REPLACE FUNCTION create_session_secure(
+    p_org_id UUID,
+    p_title TEXT,
+    p_starts_at TIMESTAMPTZ DEFAULT NOW(),
+    p_ttl_seconds INTEGER DEFAULT 3600,
+    p_rotating BOOLEAN DEFAULT FALSE,
+    p_rotation_interval INTEGER DEFAULT 30,
+    p_min_dwell_seconds INTEGER DEFAULT NULL,
+    p_min_rssi INTEGER DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    session_token TEXT;
+    event_id UUID;
+    beacon_minor INTEGER;
+    session_expires_at TIMESTAMPTZ;
+    secure_chars TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    token_length INTEGER := 12;
+    max_retries INTEGER := 10;
+    retry_count INTEGER := 0;
+    entropy_bits NUMERIC;
+    collision_check INTEGER;
+    rotation_interval INTEGER;
+BEGIN
+    -- Validate inputs
+    IF p_org_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Organization ID cannot be null'
+        );
+    END IF;
+
+    IF p_title IS NULL OR LENGTH(TRIM(p_title)) = 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Session title cannot be empty'
+        );
+    END IF;
+
+    IF p_ttl_seconds <= 0 OR p_ttl_seconds > 86400 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'TTL must be between 1 and 86400 seconds (24 hours)'
+        );
+    END IF;
+
+    rotation_interval := COALESCE(p_rotation_interval, 30);
+
+    IF COALESCE(p_rotating, FALSE) AND (rotation_interval < 10 OR rotation_interval > 300) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Rotation interval must be between 10 and 300 seconds'
+        );
+    END IF;
+
+    IF p_min_dwell_seconds IS NOT NULL AND (p_min_dwell_seconds < 0 OR p_min_dwell_seconds > p_ttl_seconds) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Minimum dwell time must be between 0 seconds and the session duration'
+        );
+    END IF;
+
+    IF p_min_rssi IS NOT NULL AND (p_min_rssi < -127 OR p_min_rssi > 0) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Minimum signal strength must be between -127 and 0 dBm'
+        );
+    END IF;
+
+    -- Generate cryptographically secure token with collision detection
+    LOOP
+        session_token := '';
+
+        FOR i IN 1..token_length LOOP
+            session_token := session_token || substr(secure_chars,
+                (floor(random() * length(secure_chars)) + 1)::INTEGER, 1);
+        END LOOP;
+
+        SELECT COUNT(*) INTO collision_check
+        FROM events
+        WHERE description::JSONB->>'session_token' = session_token
+        AND ends_at > NOW()
+        AND description::JSONB->>'attendance_method' = 'ble';
+
+        EXIT WHEN collision_check = 0 OR retry_count >= max_retries;
+
+        retry_count := retry_count + 1;
+    END LOOP;
+
+    IF retry_count >= max_retries THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'token_generation_failed',
+            'message', 'Failed to generate unique token after maximum retries'
+        );
+    END IF;
+
+    entropy_bits := token_length * log(2, length(secure_chars));
+    session_expires_at := p_starts_at + (p_ttl_seconds || ' seconds')::INTERVAL;
+
+    INSERT INTO events (
+        org_id,
+        title,
+        starts_at,
+        ends_at,
+        event_type,
+        created_by,
+        description
+    )
+    VALUES (
+        p_org_id,
+        TRIM(p_title),
+        p_starts_at,
+        session_expires_at,
+        'meeting',
+        auth.uid(),
+        jsonb_build_object(
+            'session_token', session_token,
+            'ttl_seconds', p_ttl_seconds,
+            'attendance_method', 'ble',
+            'created_at', NOW(),
+            'token_entropy_bits', entropy_bits,
+            'token_generation_retries', retry_count,
+            'security_version', '2.0',
+            'rotating_beacon', COALESCE(p_rotating, FALSE),
+            'min_dwell_seconds', p_min_dwell_seconds,
+            'min_rssi', p_min_rssi
+        )::TEXT
+    )
+    RETURNING id INTO event_id;
+
+    -- Reserve a unique beacon Minor for this session
+    beacon_minor := allocate_beacon_minor(p_org_id, event_id, session_token, session_expires_at);
+
+    IF beacon_minor IS NULL THEN
+        -- Every slot is taken; roll back the event we just created
+        DELETE FROM events WHERE id = event_id;
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'beacon_slots_exhausted',
+            'message', 'No free beacon slots available for this organization'
+        );
+    END IF;
+
+    UPDATE events
+    SET description = (description::JSONB || jsonb_build_object('beacon_minor', beacon_minor))::TEXT
+    WHERE id = event_id;
+
+    -- Rotating sessions get a per-session secret; the advertised Minor is
+    -- derived from it per time window instead of the static slot
+    IF COALESCE(p_rotating, FALSE) THEN
+        INSERT INTO ble_beacon_rotation_keys (event_id, org_id, session_token, secret, interval_seconds)
+        VALUES (event_id, p_org_id, session_token, encode(extensions.gen_random_bytes(32), 'hex'), rotation_interval);
+    END IF;
+
+    RAISE NOTICE 'Secure BLE session created: token=%, event_id=%, org_id=%, minor=%, entropy=% bits, retries=%',
+        session_token, event_id, p_org_id, beacon_minor, entropy_bits, retry_count;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'session_token', session_token,
+        'event_id', event_id,
+        'beacon_minor', beacon_minor,
+        'rotating', COALESCE(p_rotating, FALSE),
+        'rotation_interval_seconds', CASE WHEN COALESCE(p_rotating, FALSE) THEN rotation_interval END,
+        'min_dwell_seconds', p_min_dwell_seconds,
+        'min_rssi', p_min_rssi,
+        'expires_at', session_expires_at,
+        'entropy_bits', entropy_bits,
+        'security_level', CASE
+            WHEN entropy_bits >= 80 THEN 'strong'
+            WHEN entropy_bits >= 60 THEN 'moderate'
+            ELSE 'weak'
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. add_attendance_secure records evidence and enforces the policy
+DROP FUNCTION IF EXISTS add_attendance_secure(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION add_attendance_secure(
+    p_session_token TEXT,
+    p_beacon_minor INTEGER DEFAULT NULL,
+    p_evidence JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    session_info RECORD;
+    member_org_id UUID;
+    attendance_id UUID;
+    token_validation JSONB;
+    expiration_check RECORD;
+    rotation_key RECORD;
+    session_policy JSONB;
+    session_starts_at TIMESTAMPTZ;
+    min_dwell INTEGER;
+    min_rssi INTEGER;
+    rssi_samples INTEGER[];
+    rssi_avg NUMERIC;
+    rssi_max INTEGER;
+    first_seen TIMESTAMPTZ;
+    last_seen TIMESTAMPTZ;
+    dwell_seconds INTEGER;
+    result JSONB;
+BEGIN
+    -- Sanitize input
+    p_session_token := UPPER(TRIM(COALESCE(p_session_token, '')));
+    
+    -- Validate token security properties
+    SELECT * INTO token_validation FROM validate_token_security(p_session_token);
+    
+    IF NOT (token_validation->>'is_valid')::BOOLEAN THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_token_security',
+            'message', token_validation->>'message',
+            'details', token_validation
+        );
+    END IF;
+    
+    -- Check session expiration with detailed validation
+    SELECT * INTO expiration_check FROM validate_session_expiration(p_session_token);
+    
+    IF expiration_check.event_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_not_found',
+            'message', 'Session not found or invalid token'
+        );
+    END IF;
+    
+    IF NOT expiration_check.is_valid THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_expired',
+            'message', 'Session has expired',
+            'expires_at', expiration_check.expires_at,
+            'time_remaining_seconds', expiration_check.time_remaining_seconds
+        );
+    END IF;
+    
+    -- Rotating sessions only accept the code advertised in the current or
+    -- previous window, so a recorded beacon cannot be replayed later
+    SELECT k.secret, k.interval_seconds INTO rotation_key
+    FROM ble_beacon_rotation_keys k
+    WHERE k.session_token = p_session_token;
+
+    IF FOUND THEN
+        IF p_beacon_minor IS NULL THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'beacon_code_required',
+                'message', 'This session requires a live beacon code'
+            );
+        END IF;
+
+        IF NOT beacon_code_is_current(rotation_key.secret, rotation_key.interval_seconds, p_beacon_minor) THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'stale_beacon_code',
+                'message', 'Beacon code has expired. Stay near the session beacon and try again.'
+            );
+        END IF;
+    END IF;
+    
+    -- Get session details
+    SELECT * INTO session_info FROM resolve_session(p_session_token);
+    
+    -- Check user authentication
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+    
+    SELECT e.description::JSONB, e.starts_at INTO session_policy, session_starts_at
+    FROM events e WHERE e.id = session_info.event_id;
+
+    -- Summarize the proximity evidence collected by the member's scanner.
+    -- Samples are clamped to the valid RSSI range and timestamps to the
+    -- session window so a client cannot claim time outside the session.
+    IF p_evidence IS NOT NULL AND jsonb_typeof(p_evidence->'rssi_samples') = 'array' THEN
+        SELECT ARRAY(
+            SELECT LEAST(GREATEST(sample::INTEGER, -127), 20)
+            FROM jsonb_array_elements_text(p_evidence->'rssi_samples') AS sample
+            WHERE sample ~ '^-?[0-9]+$'
+            LIMIT 200
+        ) INTO rssi_samples;
+
+        IF COALESCE(array_length(rssi_samples, 1), 0) > 0 THEN
+            SELECT AVG(s), MAX(s) INTO rssi_avg, rssi_max FROM unnest(rssi_samples) AS s;
+        END IF;
+
+        BEGIN
+            first_seen := GREATEST((p_evidence->>'first_seen_at')::TIMESTAMPTZ, COALESCE(session_starts_at, '-infinity'::TIMESTAMPTZ));
+            last_seen := LEAST((p_evidence->>'last_seen_at')::TIMESTAMPTZ, NOW());
+        EXCEPTION WHEN OTHERS THEN
+            first_seen := NULL;
+            last_seen := NULL;
+        END;
+
+        IF first_seen IS NOT NULL AND last_seen IS NOT NULL AND last_seen >= first_seen THEN
+            dwell_seconds := FLOOR(EXTRACT(EPOCH FROM (last_seen - first_seen)))::INTEGER;
+        END IF;
+    END IF;
+
+    -- Enforce the session's proximity policy
+    min_dwell := (session_policy->>'min_dwell_seconds')::INTEGER;
+    min_rssi := (session_policy->>'min_rssi')::INTEGER;
+
+    IF min_dwell IS NOT NULL AND COALESCE(dwell_seconds, 0) < min_dwell THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'insufficient_dwell',
+            'message', format('Stay near the session for at least %s seconds before checking in', min_dwell),
+            'required_dwell_seconds', min_dwell,
+            'dwell_seconds', COALESCE(dwell_seconds, 0)
+        );
+    END IF;
+
+    IF min_rssi IS NOT NULL AND (rssi_avg IS NULL OR rssi_avg < min_rssi) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'weak_signal',
+            'message', 'Move closer to the session beacon and try again',
+            'required_rssi', min_rssi,
+            'rssi_avg', ROUND(rssi_avg, 1)
+        );
+    END IF;
+    
+    -- Verify organization membership with additional security checks
+    SELECT m.org_id INTO member_org_id 
+    FROM memberships m
+    JOIN organizations o ON m.org_id = o.id
+    WHERE m.user_id = auth.uid() 
+    AND m.org_id = session_info.org_id 
+    AND m.is_active = true
+    AND o.is_active = true; -- Ensure organization is also active
+    
+    IF member_org_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'organization_mismatch',
+            'message', 'User is not an active member of this organization'
+        );
+    END IF;
+    
+    -- Insert attendance record with enhanced metadata
+    INSERT INTO attendance (event_id, member_id, method, org_id, recorded_at)
+    VALUES (
+        session_info.event_id, 
+        auth.uid(), 
+        'ble', 
+        session_info.org_id, 
+        NOW()
+    )
+    ON CONFLICT (event_id, member_id) DO UPDATE SET
+        method = EXCLUDED.method,
+        recorded_at = EXCLUDED.recorded_at
+    RETURNING id INTO attendance_id;
+
+    -- Keep the evidence with the attendance row (latest check-in wins)
+    IF p_evidence IS NOT NULL THEN
+        INSERT INTO ble_attendance_evidence (
+            attendance_id, event_id, member_id, org_id,
+            rssi_samples, rssi_avg, rssi_max, sample_count,
+            first_seen_at, last_seen_at, dwell_seconds, beacon_minor
+        )
+        VALUES (
+            attendance_id, session_info.event_id, auth.uid(), session_info.org_id,
+            COALESCE(rssi_samples, '{}'), rssi_avg, rssi_max, COALESCE(array_length(rssi_samples, 1), 0),
+            first_seen, last_seen, dwell_seconds, p_beacon_minor
+        )
+        ON CONFLICT ON CONSTRAINT ble_attendance_evidence_pkey DO UPDATE SET
+            rssi_samples = EXCLUDED.rssi_samples,
+            rssi_avg = EXCLUDED.rssi_avg,
+            rssi_max = EXCLUDED.rssi_max,
+            sample_count = EXCLUDED.sample_count,
+            first_seen_at = EXCLUDED.first_seen_at,
+            last_seen_at = EXCLUDED.last_seen_at,
+            dwell_seconds = EXCLUDED.dwell_seconds,
+            beacon_minor = EXCLUDED.beacon_minor,
+            recorded_at = NOW();
+    END IF;
+    
+    -- Build success response with security metadata
+    result := jsonb_build_object(
+        'success', true,
+        'attendance_id', attendance_id,
+        'event_id', session_info.event_id,
+        'event_title', session_info.event_title,
+        'org_slug', session_info.org_slug,
+        'recorded_at', NOW(),
+        'session_expires_at', expiration_check.expires_at,
+        'time_remaining_seconds', expiration_check.time_remaining_seconds,
+        'token_security', token_validation,
+        'evidence', jsonb_build_object(
+            'sample_count', COALESCE(array_length(rssi_samples, 1), 0),
+            'rssi_avg', ROUND(rssi_avg, 1),
+            'dwell_seconds', dwell_seconds
+        )
+    );
+    
+    -- Log successful attendance with security context
+    RAISE NOTICE 'Secure BLE attendance recorded: user=%, event=%, token=%, entropy=% bits', 
+        auth.uid(), session_info.event_id, p_session_token, 
+        (token_validation->>'entropy_bits')::NUMERIC;
+    
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Evidence for a session, for the officer's live attendance view
+CREATE OR REPLACE FUNCTION get_session_attendance_evidence(p_session_token TEXT)
+RETURNS TABLE(
+    attendance_id UUID,
+    member_id UUID,
+    member_name TEXT,
+    method TEXT,
+    recorded_at TIMESTAMPTZ,
+    rssi_avg NUMERIC,
+    rssi_max INTEGER,
+    sample_count INTEGER,
+    first_seen_at TIMESTAMPTZ,
+    last_seen_at TIMESTAMPTZ,
+    dwell_seconds INTEGER
+) AS $$
+DECLARE
+    session_event_id UUID;
+    session_org_id UUID;
+BEGIN
+    p_session_token := UPPER(TRIM(COALESCE(p_session_token, '')));
+
+    SELECT e.id, e.org_id INTO session_event_id, session_org_id
+    FROM events e
+    WHERE e.description::JSONB->>'session_token' = p_session_token
+    AND e.description::JSONB->>'attendance_method' = 'ble';
+
+    IF session_event_id IS NULL OR NOT is_officer_of(session_org_id) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        a.id,
+        a.member_id,
+        COALESCE(NULLIF(TRIM(CONCAT(p.first_name, ' ', p.last_name)), ''), p.display_name, p.email, 'Unknown Member') as member_name,
+        a.method,
+        a.recorded_at,
+        ev.rssi_avg,
+        ev.rssi_max,
+        COALESCE(ev.sample_count, 0),
+        ev.first_seen_at,
+        ev.last_seen_at,
+        ev.dwell_seconds
+    FROM attendance a
+    LEFT JOIN profiles p ON p.id = a.member_id
+    LEFT JOIN ble_attendance_evidence ev ON ev.attendance_id = a.id
+    WHERE a.event_id = session_event_id
+    ORDER BY a.recorded_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Permissions
+GRANT SELECT ON ble_attendance_evidence TO authenticated;
+GRANT EXECUTE ON FUNCTION create_session_secure(UUID, TEXT, TIMESTAMPTZ, INTEGER, BOOLEAN, INTEGER, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_attendance_secure(TEXT, INTEGER, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_session_attendance_evidence(TEXT) TO authenticated;
+
+-- 6. Comments
+COMMENT ON TABLE ble_attendance_evidence IS 'RSSI and dwell-time evidence submitted with BLE check-ins';
+COMMENT ON FUNCTION create_session_secure IS 'Creates BLE session with a secure token, a beacon Minor slot, optional rotating codes and an optional proximity policy';
+COMMENT ON FUNCTION add_attendance_secure IS 'Records attendance with proximity evidence; enforces rotating beacon codes and the session proximity policy';
+COMMENT ON FUNCTION get_session_attendance_evidence IS 'Lists a session''s attendees with their BLE proximity evidence (officers only)';
@@ -0,0 +1,225 @@
+-- Migration: Officer attendance overrides
+-- Gives officers a roster of every active member for an event with their
+-- present/absent/excused status, and lets them mark members in bulk when a
+-- phone failed to detect the beacon. Every change is written to an audit log
+-- recording which officer overrode what.
+
+-- 1. Attendance columns used by overrides
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS status TEXT;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS note TEXT;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS recorded_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- 2. Audit log
+CREATE TABLE IF NOT EXISTS attendance_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  officer_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  attendance_id UUID, -- Not a foreign key: the row is deleted when marking absent
+  previous_status TEXT NOT NULL CHECK (previous_status IN ('present', 'absent', 'excused')),
+  new_status TEXT NOT NULL CHECK (new_status IN ('present', 'absent', 'excused')),
+  previous_method TEXT,
+  new_method TEXT,
+  note TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_audit_log_event
+  ON attendance_audit_log(event_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_audit_log_member
+  ON attendance_audit_log(member_id);
+
+ALTER TABLE attendance_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Written only by bulk_override_attendance; officers can review their org's log
+CREATE POLICY "Officers view org attendance audit log" ON attendance_audit_log
+  FOR SELECT TO authenticated
+  USING (is_officer_of(org_id));
+
+-- 3. Event roster
+CREATE OR REPLACE FUNCTION get_event_roster(p_event_id UUID)
+RETURNS TABLE(
+    member_id UUID,
+    member_name TEXT,
+    role TEXT,
+    attendance_id UUID,
+    status TEXT,
+    method TEXT,
+    recorded_at TIMESTAMPTZ,
+    recorded_by UUID,
+    note TEXT
+) AS $$
+DECLARE
+    event_org_id UUID;
+BEGIN
+    SELECT e.org_id INTO event_org_id FROM events e WHERE e.id = p_event_id;
+
+    IF event_org_id IS NULL OR NOT is_officer_of(event_org_id) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        m.user_id,
+        COALESCE(NULLIF(TRIM(CONCAT(p.first_name, ' ', p.last_name)), ''), p.display_name, p.email, 'Unknown Member') as member_name,
+        m.role::TEXT,
+        a.id,
+        CASE
+            WHEN a.id IS NULL THEN 'absent'
+            ELSE COALESCE(a.status, 'present')
+        END as status,
+        a.method,
+        a.recorded_at,
+        a.recorded_by,
+        a.note
+    FROM memberships m
+    JOIN profiles p ON p.id = m.user_id
+    LEFT JOIN attendance a ON a.event_id = p_event_id AND a.member_id = m.user_id
+    WHERE m.org_id = event_org_id
+    AND m.is_active = true
+    ORDER BY 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 4. Bulk override
+CREATE OR REPLACE FUNCTION bulk_override_attendance(
+    p_event_id UUID,
+    p_member_ids UUID[],
+    p_status TEXT,
+    p_note TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    event_org_id UUID;
+    target_member_id UUID;
+    existing RECORD;
+    previous_status TEXT;
+    new_attendance_id UUID;
+    updated_count INTEGER := 0;
+    unchanged_count INTEGER := 0;
+    skipped_members UUID[] := '{}';
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    IF p_status IS NULL OR p_status NOT IN ('present', 'absent', 'excused') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_status',
+            'message', 'Status must be present, absent or excused'
+        );
+    END IF;
+
+    p_note := NULLIF(TRIM(COALESCE(p_note, '')), '');
+    IF p_note IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'note_required',
+            'message', 'A note explaining the override is required'
+        );
+    END IF;
+
+    IF p_member_ids IS NULL OR array_length(p_member_ids, 1) IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Select at least one member'
+        );
+    END IF;
+
+    SELECT e.org_id INTO event_org_id FROM events e WHERE e.id = p_event_id;
+
+    IF event_org_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'event_not_found',
+            'message', 'Event not found'
+        );
+    END IF;
+
+    IF NOT is_officer_of(event_org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'Officer access required'
+        );
+    END IF;
+
+    FOREACH target_member_id IN ARRAY (SELECT ARRAY(SELECT DISTINCT unnest(p_member_ids)))
+    LOOP
+        -- Only active members of the event's organization can be overridden
+        IF NOT EXISTS (
+            SELECT 1 FROM memberships m
+            WHERE m.user_id = target_member_id
+            AND m.org_id = event_org_id
+            AND m.is_active = true
+        ) THEN
+            skipped_members := array_append(skipped_members, target_member_id);
+            CONTINUE;
+        END IF;
+
+        SELECT a.id, a.method, COALESCE(a.status, 'present') as status
+        INTO existing
+        FROM attendance a
+        WHERE a.event_id = p_event_id AND a.member_id = target_member_id;
+
+        previous_status := CASE WHEN existing.id IS NULL THEN 'absent' ELSE existing.status END;
+
+        IF previous_status = p_status THEN
+            unchanged_count := unchanged_count + 1;
+            CONTINUE;
+        END IF;
+
+        IF p_status = 'absent' THEN
+            DELETE FROM attendance WHERE id = existing.id;
+            new_attendance_id := existing.id;
+        ELSE
+            INSERT INTO attendance (event_id, member_id, method, org_id, recorded_at, status, note, recorded_by)
+            VALUES (p_event_id, target_member_id, 'manual', event_org_id, NOW(), p_status, p_note, auth.uid())
+            ON CONFLICT (event_id, member_id) DO UPDATE SET
+                method = EXCLUDED.method,
+                status = EXCLUDED.status,
+                note = EXCLUDED.note,
+                recorded_by = EXCLUDED.recorded_by,
+                recorded_at = EXCLUDED.recorded_at
+            RETURNING id INTO new_attendance_id;
+        END IF;
+
+        INSERT INTO attendance_audit_log (
+            event_id, org_id, member_id, officer_id, attendance_id,
+            previous_status, new_status, previous_method, new_method, note
+        )
+        VALUES (
+            p_event_id, event_org_id, target_member_id, auth.uid(), new_attendance_id,
+            previous_status, p_status, existing.method,
+            CASE WHEN p_status = 'absent' THEN NULL ELSE 'manual' END,
+            p_note
+        );
+
+        updated_count := updated_count + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'updated_count', updated_count,
+        'unchanged_count', unchanged_count,
+        'skipped_member_ids', to_jsonb(skipped_members)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Permissions
+GRANT SELECT ON attendance_audit_log TO authenticated;
+GRANT EXECUTE ON FUNCTION get_event_roster(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION bulk_override_attendance(UUID, UUID[], TEXT, TEXT) TO authenticated;
+
+-- 6. Comments
+COMMENT ON TABLE attendance_audit_log IS 'Officer overrides of attendance records (who changed what, and why)';
+COMMENT ON FUNCTION get_event_roster IS 'Lists every active member of the event''s organization with their attendance status (officers only)';
+COMMENT ON FUNCTION bulk_override_attendance IS 'Marks members present, absent or excused with a required note and writes an audit row per change (officers only)';
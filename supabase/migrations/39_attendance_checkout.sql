@@ -0,0 +1,859 @@
+-- Migration: Attendance check-out and duration
+-- BLE sessions can now require members to check out. A check-out is explicit
+-- (the member taps Check Out) or automatic (the member's scanner stopped seeing
+-- the beacon). Each attendance row stores how long the member stayed, and
+-- sessions can credit that time to volunteer_hours as pre-verified hours.
+
+-- 1. Check-out columns
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS checked_out_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS duration_seconds INTEGER CHECK (duration_seconds >= 0);
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS checkout_method TEXT
+  CHECK (checkout_method IN ('explicit', 'auto', 'session_end'));
+
+COMMENT ON COLUMN attendance.checked_out_at IS 'When the member left (explicit or automatic check-out)';
+COMMENT ON COLUMN attendance.duration_seconds IS 'Total time checked in, summed over every stay';
+COMMENT ON COLUMN attendance.checkout_method IS 'explicit (member), auto (beacon lost) or session_end (closed when the session ended)';
+
+-- Hours credited from attendance are linked so repeated check-outs update one row
+ALTER TABLE volunteer_hours ADD COLUMN IF NOT EXISTS attendance_id UUID REFERENCES attendance(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_volunteer_hours_attendance_id
+  ON volunteer_hours(attendance_id)
+  WHERE attendance_id IS NOT NULL;
+
+COMMENT ON COLUMN volunteer_hours.attendance_id IS 'Attendance row these hours were credited from (pre-verified event hours)';
+
+-- 2. create_session_secure accepts check-out settings
+DROP FUNCTION IF EXISTS create_session_secure(UUID, TEXT, TIMESTAMPTZ, INTEGER, BOOLEAN, INTEGER, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION create_session_secure(
+    p_org_id UUID,
+    p_title TEXT,
+    p_starts_at TIMESTAMPTZ DEFAULT NOW(),
+    p_ttl_seconds INTEGER DEFAULT 3600,
+    p_rotating BOOLEAN DEFAULT FALSE,
+    p_rotation_interval INTEGER DEFAULT 30,
+    p_min_dwell_seconds INTEGER DEFAULT NULL,
+    p_min_rssi INTEGER DEFAULT NULL,
+    p_checkout_enabled BOOLEAN DEFAULT FALSE,
+    p_credit_volunteer_hours BOOLEAN DEFAULT FALSE
+) RETURNS JSONB AS $$
+DECLARE
+    session_token TEXT;
+    event_id UUID;
+    beacon_minor INTEGER;
+    session_expires_at TIMESTAMPTZ;
+    secure_chars TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    token_length INTEGER := 12;
+    max_retries INTEGER := 10;
+    retry_count INTEGER := 0;
+    entropy_bits NUMERIC;
+    collision_check INTEGER;
+    rotation_interval INTEGER;
+BEGIN
+    -- Validate inputs
+    IF p_org_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Organization ID cannot be null'
+        );
+    END IF;
+
+    IF p_title IS NULL OR LENGTH(TRIM(p_title)) = 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Session title cannot be empty'
+        );
+    END IF;
+
+    IF p_ttl_seconds <= 0 OR p_ttl_seconds > 86400 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'TTL must be between 1 and 86400 seconds (24 hours)'
+        );
+    END IF;
+
+    rotation_interval := COALESCE(p_rotation_interval, 30);
+
+    IF COALESCE(p_rotating, FALSE) AND (rotation_interval < 10 OR rotation_interval > 300) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Rotation interval must be between 10 and 300 seconds'
+        );
+    END IF;
+
+    IF p_min_dwell_seconds IS NOT NULL AND (p_min_dwell_seconds < 0 OR p_min_dwell_seconds > p_ttl_seconds) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Minimum dwell time must be between 0 seconds and the session duration'
+        );
+    END IF;
+
+    IF p_min_rssi IS NOT NULL AND (p_min_rssi < -127 OR p_min_rssi > 0) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Minimum signal strength must be between -127 and 0 dBm'
+        );
+    END IF;
+
+    -- Generate cryptographically secure token with collision detection
+    LOOP
+        session_token := '';
+
+        FOR i IN 1..token_length LOOP
+            session_token := session_token || substr(secure_chars,
+                (floor(random() * length(secure_chars)) + 1)::INTEGER, 1);
+        END LOOP;
+
+        SELECT COUNT(*) INTO collision_check
+        FROM events
+        WHERE description::JSONB->>'session_token' = session_token
+        AND ends_at > NOW()
+        AND description::JSONB->>'attendance_method' = 'ble';
+
+        EXIT WHEN collision_check = 0 OR retry_count >= max_retries;
+
+        retry_count := retry_count + 1;
+    END LOOP;
+
+    IF retry_count >= max_retries THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'token_generation_failed',
+            'message', 'Failed to generate unique token after maximum retries'
+        );
+    END IF;
+
+    entropy_bits := token_length * log(2, length(secure_chars));
+    session_expires_at := p_starts_at + (p_ttl_seconds || ' seconds')::INTERVAL;
+
+    INSERT INTO events (
+        org_id,
+        title,
+        starts_at,
+        ends_at,
+        event_type,
+        created_by,
+        description
+    )
+    VALUES (
+        p_org_id,
+        TRIM(p_title),
+        p_starts_at,
+        session_expires_at,
+        'meeting',
+        auth.uid(),
+        jsonb_build_object(
+            'session_token', session_token,
+            'ttl_seconds', p_ttl_seconds,
+            'attendance_method', 'ble',
+            'created_at', NOW(),
+            'token_entropy_bits', entropy_bits,
+            'token_generation_retries', retry_count,
+            'security_version', '2.0',
+            'rotating_beacon', COALESCE(p_rotating, FALSE),
+            'min_dwell_seconds', p_min_dwell_seconds,
+            'min_rssi', p_min_rssi,
+            'checkout_enabled', COALESCE(p_checkout_enabled, FALSE),
+            'credit_volunteer_hours', COALESCE(p_checkout_enabled, FALSE) AND COALESCE(p_credit_volunteer_hours, FALSE)
+        )::TEXT
+    )
+    RETURNING id INTO event_id;
+
+    -- Reserve a unique beacon Minor for this session
+    beacon_minor := allocate_beacon_minor(p_org_id, event_id, session_token, session_expires_at);
+
+    IF beacon_minor IS NULL THEN
+        -- Every slot is taken; roll back the event we just created
+        DELETE FROM events WHERE id = event_id;
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'beacon_slots_exhausted',
+            'message', 'No free beacon slots available for this organization'
+        );
+    END IF;
+
+    UPDATE events
+    SET description = (description::JSONB || jsonb_build_object('beacon_minor', beacon_minor))::TEXT
+    WHERE id = event_id;
+
+    -- Rotating sessions get a per-session secret; the advertised Minor is
+    -- derived from it per time window instead of the static slot
+    IF COALESCE(p_rotating, FALSE) THEN
+        INSERT INTO ble_beacon_rotation_keys (event_id, org_id, session_token, secret, interval_seconds)
+        VALUES (event_id, p_org_id, session_token, encode(extensions.gen_random_bytes(32), 'hex'), rotation_interval);
+    END IF;
+
+    RAISE NOTICE 'Secure BLE session created: token=%, event_id=%, org_id=%, minor=%, entropy=% bits, retries=%',
+        session_token, event_id, p_org_id, beacon_minor, entropy_bits, retry_count;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'session_token', session_token,
+        'event_id', event_id,
+        'beacon_minor', beacon_minor,
+        'rotating', COALESCE(p_rotating, FALSE),
+        'rotation_interval_seconds', CASE WHEN COALESCE(p_rotating, FALSE) THEN rotation_interval END,
+        'min_dwell_seconds', p_min_dwell_seconds,
+        'min_rssi', p_min_rssi,
+        'checkout_enabled', COALESCE(p_checkout_enabled, FALSE),
+        'credit_volunteer_hours', COALESCE(p_checkout_enabled, FALSE) AND COALESCE(p_credit_volunteer_hours, FALSE),
+        'expires_at', session_expires_at,
+        'entropy_bits', entropy_bits,
+        'security_level', CASE
+            WHEN entropy_bits >= 80 THEN 'strong'
+            WHEN entropy_bits >= 60 THEN 'moderate'
+            ELSE 'weak'
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. add_attendance_secure reopens a stay and reports whether check-out is expected
+CREATE OR REPLACE FUNCTION add_attendance_secure(
+    p_session_token TEXT,
+    p_beacon_minor INTEGER DEFAULT NULL,
+    p_evidence JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    session_info RECORD;
+    member_org_id UUID;
+    attendance_id UUID;
+    token_validation JSONB;
+    expiration_check RECORD;
+    rotation_key RECORD;
+    session_policy JSONB;
+    checkout_enabled BOOLEAN;
+    session_starts_at TIMESTAMPTZ;
+    min_dwell INTEGER;
+    min_rssi INTEGER;
+    rssi_samples INTEGER[];
+    rssi_avg NUMERIC;
+    rssi_max INTEGER;
+    first_seen TIMESTAMPTZ;
+    last_seen TIMESTAMPTZ;
+    dwell_seconds INTEGER;
+    result JSONB;
+BEGIN
+    -- Sanitize input
+    p_session_token := UPPER(TRIM(COALESCE(p_session_token, '')));
+    
+    -- Validate token security properties
+    SELECT * INTO token_validation FROM validate_token_security(p_session_token);
+    
+    IF NOT (token_validation->>'is_valid')::BOOLEAN THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_token_security',
+            'message', token_validation->>'message',
+            'details', token_validation
+        );
+    END IF;
+    
+    -- Check session expiration with detailed validation
+    SELECT * INTO expiration_check FROM validate_session_expiration(p_session_token);
+    
+    IF expiration_check.event_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_not_found',
+            'message', 'Session not found or invalid token'
+        );
+    END IF;
+    
+    IF NOT expiration_check.is_valid THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_expired',
+            'message', 'Session has expired',
+            'expires_at', expiration_check.expires_at,
+            'time_remaining_seconds', expiration_check.time_remaining_seconds
+        );
+    END IF;
+    
+    -- Rotating sessions only accept the code advertised in the current or
+    -- previous window, so a recorded beacon cannot be replayed later
+    SELECT k.secret, k.interval_seconds INTO rotation_key
+    FROM ble_beacon_rotation_keys k
+    WHERE k.session_token = p_session_token;
+
+    IF FOUND THEN
+        IF p_beacon_minor IS NULL THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'beacon_code_required',
+                'message', 'This session requires a live beacon code'
+            );
+        END IF;
+
+        IF NOT beacon_code_is_current(rotation_key.secret, rotation_key.interval_seconds, p_beacon_minor) THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'stale_beacon_code',
+                'message', 'Beacon code has expired. Stay near the session beacon and try again.'
+            );
+        END IF;
+    END IF;
+    
+    -- Get session details
+    SELECT * INTO session_info FROM resolve_session(p_session_token);
+    
+    -- Check user authentication
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+    
+    SELECT e.description::JSONB, e.starts_at INTO session_policy, session_starts_at
+    FROM events e WHERE e.id = session_info.event_id;
+
+    -- Summarize the proximity evidence collected by the member's scanner.
+    -- Samples are clamped to the valid RSSI range and timestamps to the
+    -- session window so a client cannot claim time outside the session.
+    IF p_evidence IS NOT NULL AND jsonb_typeof(p_evidence->'rssi_samples') = 'array' THEN
+        SELECT ARRAY(
+            SELECT LEAST(GREATEST(sample::INTEGER, -127), 20)
+            FROM jsonb_array_elements_text(p_evidence->'rssi_samples') AS sample
+            WHERE sample ~ '^-?[0-9]+$'
+            LIMIT 200
+        ) INTO rssi_samples;
+
+        IF COALESCE(array_length(rssi_samples, 1), 0) > 0 THEN
+            SELECT AVG(s), MAX(s) INTO rssi_avg, rssi_max FROM unnest(rssi_samples) AS s;
+        END IF;
+
+        BEGIN
+            first_seen := GREATEST((p_evidence->>'first_seen_at')::TIMESTAMPTZ, COALESCE(session_starts_at, '-infinity'::TIMESTAMPTZ));
+            last_seen := LEAST((p_evidence->>'last_seen_at')::TIMESTAMPTZ, NOW());
+        EXCEPTION WHEN OTHERS THEN
+            first_seen := NULL;
+            last_seen := NULL;
+        END;
+
+        IF first_seen IS NOT NULL AND last_seen IS NOT NULL AND last_seen >= first_seen THEN
+            dwell_seconds := FLOOR(EXTRACT(EPOCH FROM (last_seen - first_seen)))::INTEGER;
+        END IF;
+    END IF;
+
+    -- Enforce the session's proximity policy
+    min_dwell := (session_policy->>'min_dwell_seconds')::INTEGER;
+    min_rssi := (session_policy->>'min_rssi')::INTEGER;
+    checkout_enabled := COALESCE((session_policy->>'checkout_enabled')::BOOLEAN, FALSE);
+
+    IF min_dwell IS NOT NULL AND COALESCE(dwell_seconds, 0) < min_dwell THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'insufficient_dwell',
+            'message', format('Stay near the session for at least %s seconds before checking in', min_dwell),
+            'required_dwell_seconds', min_dwell,
+            'dwell_seconds', COALESCE(dwell_seconds, 0)
+        );
+    END IF;
+
+    IF min_rssi IS NOT NULL AND (rssi_avg IS NULL OR rssi_avg < min_rssi) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'weak_signal',
+            'message', 'Move closer to the session beacon and try again',
+            'required_rssi', min_rssi,
+            'rssi_avg', ROUND(rssi_avg, 1)
+        );
+    END IF;
+    
+    -- Verify organization membership with additional security checks
+    SELECT m.org_id INTO member_org_id 
+    FROM memberships m
+    JOIN organizations o ON m.org_id = o.id
+    WHERE m.user_id = auth.uid() 
+    AND m.org_id = session_info.org_id 
+    AND m.is_active = true
+    AND o.is_active = true; -- Ensure organization is also active
+    
+    IF member_org_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'organization_mismatch',
+            'message', 'User is not an active member of this organization'
+        );
+    END IF;
+    
+    -- Insert attendance record with enhanced metadata
+    INSERT INTO attendance (event_id, member_id, method, org_id, recorded_at)
+    VALUES (
+        session_info.event_id, 
+        auth.uid(), 
+        'ble', 
+        session_info.org_id, 
+        NOW()
+    )
+    ON CONFLICT (event_id, member_id) DO UPDATE SET
+        method = EXCLUDED.method,
+        -- A member still checked in keeps their original check-in time so the
+        -- duration isn't cut short; returning after a check-out starts a new stay
+        recorded_at = CASE
+            WHEN checkout_enabled AND attendance.checked_out_at IS NULL THEN attendance.recorded_at
+            ELSE EXCLUDED.recorded_at
+        END,
+        checked_out_at = NULL,
+        checkout_method = NULL
+    RETURNING id INTO attendance_id;
+
+    -- Keep the evidence with the attendance row (latest check-in wins)
+    IF p_evidence IS NOT NULL THEN
+        INSERT INTO ble_attendance_evidence (
+            attendance_id, event_id, member_id, org_id,
+            rssi_samples, rssi_avg, rssi_max, sample_count,
+            first_seen_at, last_seen_at, dwell_seconds, beacon_minor
+        )
+        VALUES (
+            attendance_id, session_info.event_id, auth.uid(), session_info.org_id,
+            COALESCE(rssi_samples, '{}'), rssi_avg, rssi_max, COALESCE(array_length(rssi_samples, 1), 0),
+            first_seen, last_seen, dwell_seconds, p_beacon_minor
+        )
+        ON CONFLICT ON CONSTRAINT ble_attendance_evidence_pkey DO UPDATE SET
+            rssi_samples = EXCLUDED.rssi_samples,
+            rssi_avg = EXCLUDED.rssi_avg,
+            rssi_max = EXCLUDED.rssi_max,
+            sample_count = EXCLUDED.sample_count,
+            first_seen_at = EXCLUDED.first_seen_at,
+            last_seen_at = EXCLUDED.last_seen_at,
+            dwell_seconds = EXCLUDED.dwell_seconds,
+            beacon_minor = EXCLUDED.beacon_minor,
+            recorded_at = NOW();
+    END IF;
+    
+    -- Build success response with security metadata
+    result := jsonb_build_object(
+        'success', true,
+        'attendance_id', attendance_id,
+        'event_id', session_info.event_id,
+        'event_title', session_info.event_title,
+        'org_slug', session_info.org_slug,
+        'recorded_at', NOW(),
+        'session_expires_at', expiration_check.expires_at,
+        'time_remaining_seconds', expiration_check.time_remaining_seconds,
+        'token_security', token_validation,
+        'checkout_enabled', checkout_enabled,
+        'evidence', jsonb_build_object(
+            'sample_count', COALESCE(array_length(rssi_samples, 1), 0),
+            'rssi_avg', ROUND(rssi_avg, 1),
+            'dwell_seconds', dwell_seconds
+        )
+    );
+    
+    -- Log successful attendance with security context
+    RAISE NOTICE 'Secure BLE attendance recorded: user=%, event=%, token=%, entropy=% bits', 
+        auth.uid(), session_info.event_id, p_session_token, 
+        (token_validation->>'entropy_bits')::NUMERIC;
+    
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Credit attendance time as pre-verified volunteer hours
+CREATE OR REPLACE FUNCTION credit_attendance_hours(p_attendance_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    attendance_row RECORD;
+    event_row RECORD;
+    credited_hours NUMERIC;
+    verifier_id UUID;
+    hours_id UUID;
+BEGIN
+    SELECT a.id, a.member_id, a.org_id, a.event_id, a.duration_seconds
+    INTO attendance_row
+    FROM attendance a
+    WHERE a.id = p_attendance_id;
+
+    SELECT e.id, e.title, e.starts_at, e.created_by, e.description::JSONB as config
+    INTO event_row
+    FROM events e
+    WHERE e.id = attendance_row.event_id;
+
+    IF event_row.id IS NULL
+       OR NOT COALESCE((event_row.config->>'credit_volunteer_hours')::BOOLEAN, FALSE)
+       OR COALESCE(attendance_row.duration_seconds, 0) < 60 THEN
+        RETURN NULL;
+    END IF;
+
+    -- The officer who ran the session verifies the hours
+    verifier_id := COALESCE(event_row.created_by, auth.uid());
+    IF verifier_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    credited_hours := ROUND(attendance_row.duration_seconds / 3600.0, 2);
+
+    UPDATE volunteer_hours
+    SET hours = credited_hours
+    WHERE attendance_id = p_attendance_id
+    RETURNING id INTO hours_id;
+
+    IF hours_id IS NULL THEN
+        INSERT INTO volunteer_hours (
+            member_id, org_id, event_id, attendance_id, hours, description, activity_date,
+            submitted_at, approved, approved_by, approved_at, status, verified_by, verified_at
+        )
+        VALUES (
+            attendance_row.member_id, attendance_row.org_id, attendance_row.event_id, p_attendance_id,
+            credited_hours, 'Attended: ' || event_row.title, event_row.starts_at::DATE,
+            NOW(), true, verifier_id, NOW(), 'verified', verifier_id, NOW()
+        )
+        RETURNING id INTO hours_id;
+    END IF;
+
+    RETURN hours_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Member check-out
+CREATE OR REPLACE FUNCTION checkout_attendance_secure(
+    p_session_token TEXT,
+    p_last_seen_at TIMESTAMPTZ DEFAULT NULL,
+    p_automatic BOOLEAN DEFAULT FALSE
+) RETURNS JSONB AS $$
+DECLARE
+    session_event RECORD;
+    attendance_row RECORD;
+    checkout_time TIMESTAMPTZ;
+    stay_seconds INTEGER;
+    total_seconds INTEGER;
+    hours_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    p_session_token := UPPER(TRIM(COALESCE(p_session_token, '')));
+
+    SELECT e.id, e.title, e.ends_at, e.description::JSONB as config
+    INTO session_event
+    FROM events e
+    WHERE e.description::JSONB->>'session_token' = p_session_token
+    AND e.description::JSONB->>'attendance_method' = 'ble';
+
+    IF session_event.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_not_found',
+            'message', 'Session not found'
+        );
+    END IF;
+
+    IF NOT COALESCE((session_event.config->>'checkout_enabled')::BOOLEAN, FALSE) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'checkout_not_enabled',
+            'message', 'This session does not use check-out'
+        );
+    END IF;
+
+    SELECT a.id, a.recorded_at, a.checked_out_at, a.duration_seconds
+    INTO attendance_row
+    FROM attendance a
+    WHERE a.event_id = session_event.id
+    AND a.member_id = auth.uid()
+    FOR UPDATE;
+
+    IF attendance_row.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_checked_in',
+            'message', 'You are not checked in to this session'
+        );
+    END IF;
+
+    IF attendance_row.checked_out_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_checked_out',
+            'message', 'You have already checked out of this session',
+            'checked_out_at', attendance_row.checked_out_at,
+            'duration_seconds', attendance_row.duration_seconds
+        );
+    END IF;
+
+    -- Automatic check-outs use the last time the beacon was heard; never
+    -- later than now or the end of the session, never before check-in
+    checkout_time := LEAST(COALESCE(p_last_seen_at, NOW()), NOW(), session_event.ends_at);
+    checkout_time := GREATEST(checkout_time, attendance_row.recorded_at);
+
+    stay_seconds := FLOOR(EXTRACT(EPOCH FROM (checkout_time - attendance_row.recorded_at)))::INTEGER;
+    total_seconds := COALESCE(attendance_row.duration_seconds, 0) + stay_seconds;
+
+    UPDATE attendance
+    SET
+        checked_out_at = checkout_time,
+        duration_seconds = total_seconds,
+        checkout_method = CASE WHEN COALESCE(p_automatic, FALSE) THEN 'auto' ELSE 'explicit' END
+    WHERE id = attendance_row.id;
+
+    hours_id := credit_attendance_hours(attendance_row.id);
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'attendance_id', attendance_row.id,
+        'event_id', session_event.id,
+        'event_title', session_event.title,
+        'checked_out_at', checkout_time,
+        'duration_seconds', total_seconds,
+        'volunteer_hours_id', hours_id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Close stays that are still open when a session ends
+CREATE OR REPLACE FUNCTION close_open_checkouts(p_event_id UUID, p_closed_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS INTEGER AS $$
+DECLARE
+    open_row RECORD;
+    closed_count INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM events e
+        WHERE e.id = p_event_id
+        AND COALESCE((e.description::JSONB->>'checkout_enabled')::BOOLEAN, FALSE)
+    ) THEN
+        RETURN 0;
+    END IF;
+
+    FOR open_row IN
+        SELECT a.id FROM attendance a
+        WHERE a.event_id = p_event_id
+        AND a.checked_out_at IS NULL
+        AND a.recorded_at IS NOT NULL
+    LOOP
+        UPDATE attendance
+        SET
+            checked_out_at = GREATEST(p_closed_at, recorded_at),
+            duration_seconds = COALESCE(duration_seconds, 0)
+                + FLOOR(EXTRACT(EPOCH FROM (GREATEST(p_closed_at, recorded_at) - recorded_at)))::INTEGER,
+            checkout_method = 'session_end'
+        WHERE id = open_row.id;
+
+        PERFORM credit_attendance_hours(open_row.id);
+        closed_count := closed_count + 1;
+    END LOOP;
+
+    RETURN closed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Close stays left open by sessions that ended without being terminated
+CREATE OR REPLACE FUNCTION close_expired_checkouts()
+RETURNS INTEGER AS $$
+DECLARE
+    expired_session RECORD;
+    closed_count INTEGER := 0;
+BEGIN
+    FOR expired_session IN
+        SELECT e.id, e.ends_at
+        FROM events e
+        WHERE e.description::JSONB->>'attendance_method' = 'ble'
+        AND COALESCE((e.description::JSONB->>'checkout_enabled')::BOOLEAN, FALSE)
+        AND e.ends_at <= NOW()
+        AND EXISTS (
+            SELECT 1 FROM attendance a
+            WHERE a.event_id = e.id
+            AND a.checked_out_at IS NULL
+            AND a.recorded_at IS NOT NULL
+        )
+    LOOP
+        closed_count := closed_count + close_open_checkouts(expired_session.id, expired_session.ends_at);
+    END LOOP;
+
+    RETURN closed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. cleanup_orphaned_sessions also closes open stays of expired sessions
+CREATE OR REPLACE FUNCTION cleanup_orphaned_sessions()
+RETURNS JSONB AS $$
+DECLARE
+    orphaned_count INTEGER := 0;
+    released_slots INTEGER := 0;
+    closed_checkouts INTEGER := 0;
+    cleaned_sessions JSONB := '[]'::JSONB;
+    session_record RECORD;
+BEGIN
+    FOR session_record IN
+        SELECT
+            e.id,
+            e.title,
+            e.description::JSONB->>'session_token' as session_token,
+            e.ends_at,
+            EXTRACT(EPOCH FROM (NOW() - e.ends_at))::INTEGER as seconds_overdue
+        FROM events e
+        WHERE e.description::JSONB->>'attendance_method' = 'ble'
+        AND e.ends_at < NOW()
+        AND e.description::JSONB->>'terminated_at' IS NULL
+        AND e.ends_at > NOW() - INTERVAL '24 hours'
+    LOOP
+        UPDATE events
+        SET description = description::JSONB || jsonb_build_object(
+            'terminated_at', NOW(),
+            'termination_reason', 'auto_cleanup',
+            'seconds_overdue', session_record.seconds_overdue
+        )::TEXT
+        WHERE id = session_record.id;
+
+        orphaned_count := orphaned_count + 1;
+
+        cleaned_sessions := cleaned_sessions || jsonb_build_object(
+            'event_id', session_record.id,
+            'title', session_record.title,
+            'session_token', session_record.session_token,
+            'ended_at', session_record.ends_at,
+            'seconds_overdue', session_record.seconds_overdue
+        );
+    END LOOP;
+
+    released_slots := release_expired_beacon_slots();
+    closed_checkouts := close_expired_checkouts();
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'orphaned_count', orphaned_count,
+        'released_beacon_slots', released_slots,
+        'closed_checkouts', closed_checkouts,
+        'cleaned_sessions', cleaned_sessions,
+        'cleanup_time', NOW()
+    );
+
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE WARNING 'Error in cleanup_orphaned_sessions: %', SQLERRM;
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'cleanup_failed',
+            'message', SQLERRM
+        );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Sessions usually end by expiring rather than being terminated, so sweep
+-- open stays every five minutes when pg_cron is available; otherwise schedule
+-- SELECT close_expired_checkouts() from an external job
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'close-expired-checkouts',
+      '*/5 * * * *',
+      'SELECT close_expired_checkouts()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron not available - schedule close_expired_checkouts() manually';
+  END IF;
+END $$;
+
+-- 9. terminate_session closes open stays
+CREATE OR REPLACE FUNCTION terminate_session(p_session_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    session_event_id UUID;
+    session_title TEXT;
+    original_ends_at TIMESTAMPTZ;
+    closed_checkouts INTEGER;
+BEGIN
+    IF p_session_token IS NULL OR LENGTH(TRIM(p_session_token)) != 12 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_token',
+            'message', 'Invalid session token format'
+        );
+    END IF;
+
+    p_session_token := UPPER(TRIM(p_session_token));
+
+    SELECT e.id, e.title, e.ends_at
+    INTO session_event_id, session_title, original_ends_at
+    FROM events e
+    WHERE e.description::JSONB->>'session_token' = p_session_token
+    AND e.description::JSONB->>'attendance_method' = 'ble';
+
+    IF session_event_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_not_found',
+            'message', 'Session not found'
+        );
+    END IF;
+
+    IF original_ends_at <= NOW() THEN
+        PERFORM release_beacon_minor(p_session_token, 'expired');
+        PERFORM close_open_checkouts(session_event_id, original_ends_at);
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_expired',
+            'message', 'Session has already expired',
+            'expired_at', original_ends_at
+        );
+    END IF;
+
+    UPDATE events
+    SET
+        ends_at = NOW(),
+        description = description::JSONB || jsonb_build_object(
+            'terminated_at', NOW(),
+            'terminated_by', auth.uid(),
+            'termination_reason', 'manual',
+            'original_ends_at', original_ends_at
+        )::TEXT
+    WHERE id = session_event_id;
+
+    PERFORM release_beacon_minor(p_session_token, 'terminated');
+    closed_checkouts := close_open_checkouts(session_event_id, NOW());
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'session_token', p_session_token,
+        'event_id', session_event_id,
+        'event_title', session_title,
+        'terminated_at', NOW(),
+        'original_ends_at', original_ends_at,
+        'time_saved_seconds', EXTRACT(EPOCH FROM (original_ends_at - NOW()))::INTEGER,
+        'closed_checkouts', closed_checkouts
+    );
+
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE WARNING 'Error in terminate_session: %', SQLERRM;
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'internal_error',
+            'message', 'An error occurred while terminating the session'
+        );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 10. Permissions
+GRANT EXECUTE ON FUNCTION create_session_secure(UUID, TEXT, TIMESTAMPTZ, INTEGER, BOOLEAN, INTEGER, INTEGER, INTEGER, BOOLEAN, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION checkout_attendance_secure(TEXT, TIMESTAMPTZ, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION terminate_session(TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION credit_attendance_hours(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION close_open_checkouts(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION close_expired_checkouts() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION close_expired_checkouts() TO service_role;
+
+-- 11. Comments
+COMMENT ON FUNCTION create_session_secure IS 'Creates BLE session with a secure token, a beacon Minor slot, optional rotating codes, proximity policy and check-out settings';
+COMMENT ON FUNCTION add_attendance_secure IS 'Records attendance with proximity evidence; enforces rotating beacon codes and the session proximity policy';
+COMMENT ON FUNCTION checkout_attendance_secure IS 'Checks the caller out of a BLE session, storing the stay duration and crediting volunteer hours when enabled';
+COMMENT ON FUNCTION credit_attendance_hours IS 'Creates or updates pre-verified volunteer hours from an attendance duration (internal)';
+COMMENT ON FUNCTION close_open_checkouts IS 'Checks out every member still checked in to a session (internal)';
+COMMENT ON FUNCTION close_expired_checkouts IS 'Closes and credits stays still open on BLE sessions that have ended (scheduled job)';
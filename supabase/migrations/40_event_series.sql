@@ -0,0 +1,508 @@
+-- Migration: Recurring event series
+-- Officers create weekly tutoring or monthly meetings once as a series with a
+-- recurrence rule (daily/weekly/monthly, interval, until date or count,
+-- exception dates). The series generates one events row per occurrence, so
+-- attendance, BLE sessions and notifications keep working per occurrence.
+-- Occurrences point back to their series instead of copying the rule.
+
+-- 1. Series table
+CREATE TABLE IF NOT EXISTS event_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  location TEXT,
+  category TEXT,
+  link TEXT,
+  image_url TEXT,
+  starts_at TIMESTAMPTZ NOT NULL, -- Start of the first occurrence
+  duration_minutes INTEGER CHECK (duration_minutes IS NULL OR duration_minutes > 0),
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- Occurrences keep their local start time across DST
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 52),
+  until_date DATE,
+  occurrence_count INTEGER CHECK (occurrence_count IS NULL OR occurrence_count BETWEEN 1 AND 100),
+  exception_dates DATE[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT event_series_end_required CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_series_org ON event_series(org_id);
+
+ALTER TABLE event_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members view org event series" ON event_series
+  FOR SELECT TO authenticated
+  USING (is_member_of(org_id));
+
+-- Writes go through the functions below
+GRANT SELECT ON event_series TO authenticated;
+
+-- 2. Occurrence columns on events
+ALTER TABLE events ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES event_series(id) ON DELETE SET NULL;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS occurrence_date DATE; -- Date the rule generated, even if the occurrence was moved
+ALTER TABLE events ADD COLUMN IF NOT EXISTS is_series_exception BOOLEAN NOT NULL DEFAULT FALSE; -- Edited individually; series edits skip it
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_series_occurrence
+  ON events(series_id, occurrence_date)
+  WHERE series_id IS NOT NULL;
+
+-- 3. Expand a series rule into occurrence start times
+CREATE OR REPLACE FUNCTION series_occurrences(p_series_id UUID)
+RETURNS TABLE(occurrence_date DATE, starts_at TIMESTAMPTZ) AS $$
+DECLARE
+    s event_series%ROWTYPE;
+    step INTERVAL;
+    local_start TIMESTAMP;
+BEGIN
+    SELECT * INTO s FROM event_series WHERE id = p_series_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    step := CASE s.frequency
+        WHEN 'daily' THEN INTERVAL '1 day'
+        WHEN 'weekly' THEN INTERVAL '1 week'
+        ELSE INTERVAL '1 month'
+    END * s.interval_count;
+    local_start := s.starts_at AT TIME ZONE s.timezone;
+
+    -- COUNT applies before exception dates are removed, as in iCalendar
+    RETURN QUERY
+    SELECT o.local_at::DATE, o.local_at AT TIME ZONE s.timezone
+    FROM (
+        SELECT local_start + step * n as local_at
+        FROM generate_series(0, 99) n
+    ) o
+    WHERE (s.until_date IS NULL OR o.local_at::DATE <= s.until_date)
+    ORDER BY o.local_at
+    LIMIT COALESCE(s.occurrence_count, 100);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 4. Create missing events rows for a series
+CREATE OR REPLACE FUNCTION generate_series_events(p_series_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    s event_series%ROWTYPE;
+    created_count INTEGER;
+BEGIN
+    SELECT * INTO s FROM event_series WHERE id = p_series_id;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    INSERT INTO events (
+        org_id, created_by, title, description, location, category, link, image_url,
+        event_date, starts_at, ends_at, status, actual_attendance,
+        series_id, occurrence_date
+    )
+    SELECT
+        s.org_id, s.created_by, s.title, s.description, s.location, s.category, s.link, s.image_url,
+        o.occurrence_date, o.starts_at,
+        CASE WHEN s.duration_minutes IS NULL THEN NULL ELSE o.starts_at + make_interval(mins => s.duration_minutes) END,
+        'active', 0,
+        s.id, o.occurrence_date
+    FROM series_occurrences(s.id) o
+    WHERE NOT (o.occurrence_date = ANY(s.exception_dates))
+    AND NOT EXISTS (
+        SELECT 1 FROM events e
+        WHERE e.series_id = s.id AND e.occurrence_date = o.occurrence_date
+    );
+
+    GET DIAGNOSTICS created_count = ROW_COUNT;
+    RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Create a series
+CREATE OR REPLACE FUNCTION create_event_series(
+    p_org_id UUID,
+    p_title TEXT,
+    p_starts_at TIMESTAMPTZ,
+    p_ends_at TIMESTAMPTZ,
+    p_frequency TEXT,
+    p_interval INTEGER DEFAULT 1,
+    p_until_date DATE DEFAULT NULL,
+    p_occurrence_count INTEGER DEFAULT NULL,
+    p_exception_dates DATE[] DEFAULT '{}',
+    p_timezone TEXT DEFAULT 'UTC',
+    p_description TEXT DEFAULT NULL,
+    p_location TEXT DEFAULT NULL,
+    p_category TEXT DEFAULT NULL,
+    p_link TEXT DEFAULT NULL,
+    p_image_url TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    new_series_id UUID;
+    created_count INTEGER;
+    first_event_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    IF p_org_id IS NULL OR NOT is_officer_of(p_org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'Officer access required'
+        );
+    END IF;
+
+    IF NULLIF(TRIM(COALESCE(p_title, '')), '') IS NULL OR p_starts_at IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Title and start time are required'
+        );
+    END IF;
+
+    IF p_starts_at < NOW() THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Event start time cannot be in the past'
+        );
+    END IF;
+
+    IF p_ends_at IS NOT NULL AND p_ends_at <= p_starts_at THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Event end time must be after start time'
+        );
+    END IF;
+
+    IF p_frequency IS NULL OR p_frequency NOT IN ('daily', 'weekly', 'monthly') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_recurrence',
+            'message', 'Frequency must be daily, weekly or monthly'
+        );
+    END IF;
+
+    IF p_interval IS NULL OR p_interval < 1 OR p_interval > 52 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_recurrence',
+            'message', 'Repeat interval must be between 1 and 52'
+        );
+    END IF;
+
+    IF p_until_date IS NULL AND p_occurrence_count IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_recurrence',
+            'message', 'Choose an end date or a number of occurrences'
+        );
+    END IF;
+
+    IF p_occurrence_count IS NOT NULL AND (p_occurrence_count < 1 OR p_occurrence_count > 100) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_recurrence',
+            'message', 'A series can have at most 100 occurrences'
+        );
+    END IF;
+
+    IF p_until_date IS NOT NULL AND p_until_date < p_starts_at::DATE THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_recurrence',
+            'message', 'End date must be after the first occurrence'
+        );
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+        p_timezone := 'UTC';
+    END IF;
+
+    INSERT INTO event_series (
+        org_id, created_by, title, description, location, category, link, image_url,
+        starts_at, duration_minutes, timezone,
+        frequency, interval_count, until_date, occurrence_count, exception_dates
+    )
+    VALUES (
+        p_org_id, auth.uid(), TRIM(p_title), p_description, p_location, p_category, p_link, p_image_url,
+        p_starts_at,
+        CASE WHEN p_ends_at IS NULL THEN NULL ELSE CEIL(EXTRACT(EPOCH FROM (p_ends_at - p_starts_at)) / 60)::INTEGER END,
+        p_timezone,
+        p_frequency, p_interval, p_until_date, p_occurrence_count, COALESCE(p_exception_dates, '{}')
+    )
+    RETURNING id INTO new_series_id;
+
+    created_count := generate_series_events(new_series_id);
+
+    IF created_count = 0 THEN
+        RAISE EXCEPTION 'Recurrence rule produced no occurrences' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT e.id INTO first_event_id
+    FROM events e
+    WHERE e.series_id = new_series_id
+    ORDER BY e.starts_at
+    LIMIT 1;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'series_id', new_series_id,
+        'first_event_id', first_event_id,
+        'occurrence_count', created_count
+    );
+EXCEPTION
+    WHEN SQLSTATE 'P0001' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_recurrence',
+            'message', 'Every occurrence of this series is excluded'
+        );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Edit this and all future occurrences
+-- Editing from the first occurrence updates the series in place. Editing from a
+-- later occurrence splits it: the original series ends the day before, and a new
+-- series with the edits takes over the remaining occurrences.
+CREATE OR REPLACE FUNCTION update_event_series(
+    p_event_id UUID,
+    p_updates JSONB
+) RETURNS JSONB AS $$
+DECLARE
+    target RECORD;
+    s event_series%ROWTYPE;
+    target_series_id UUID;
+    last_occurrence DATE;
+    start_shift INTERVAL := INTERVAL '0';
+    new_duration INTEGER;
+    updated_count INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    SELECT e.id, e.series_id, e.occurrence_date, e.starts_at, e.org_id
+    INTO target
+    FROM events e
+    WHERE e.id = p_event_id AND e.status = 'active';
+
+    IF target.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'event_not_found',
+            'message', 'Event not found'
+        );
+    END IF;
+
+    IF NOT is_officer_of(target.org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'Officer access required'
+        );
+    END IF;
+
+    IF target.series_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_a_series',
+            'message', 'This event does not repeat'
+        );
+    END IF;
+
+    SELECT * INTO s FROM event_series WHERE id = target.series_id;
+
+    -- Moving this occurrence moves every future occurrence by the same amount
+    IF p_updates ? 'starts_at' AND target.starts_at IS NOT NULL THEN
+        start_shift := (p_updates->>'starts_at')::TIMESTAMPTZ - target.starts_at;
+    END IF;
+
+    IF p_updates ? 'ends_at' AND p_updates ? 'starts_at' THEN
+        new_duration := CEIL(EXTRACT(EPOCH FROM (
+            (p_updates->>'ends_at')::TIMESTAMPTZ - (p_updates->>'starts_at')::TIMESTAMPTZ
+        )) / 60)::INTEGER;
+
+        IF new_duration <= 0 THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'invalid_input',
+                'message', 'Event end time must be after start time'
+            );
+        END IF;
+    ELSE
+        new_duration := s.duration_minutes;
+    END IF;
+
+    IF target.occurrence_date = (s.starts_at AT TIME ZONE s.timezone)::DATE THEN
+        target_series_id := s.id;
+    ELSE
+        SELECT MAX(o.occurrence_date) INTO last_occurrence FROM series_occurrences(s.id) o;
+
+        INSERT INTO event_series (
+            org_id, created_by, title, description, location, category, link, image_url,
+            starts_at, duration_minutes, timezone,
+            frequency, interval_count, until_date, occurrence_count, exception_dates
+        )
+        VALUES (
+            s.org_id, auth.uid(), s.title, s.description, s.location, s.category, s.link, s.image_url,
+            (target.occurrence_date + (s.starts_at AT TIME ZONE s.timezone)::TIME) AT TIME ZONE s.timezone,
+            s.duration_minutes, s.timezone,
+            s.frequency, s.interval_count, last_occurrence, NULL,
+            ARRAY(SELECT d FROM unnest(s.exception_dates) d WHERE d >= target.occurrence_date)
+        )
+        RETURNING id INTO target_series_id;
+
+        UPDATE event_series
+        SET until_date = target.occurrence_date - 1,
+            occurrence_count = NULL,
+            exception_dates = ARRAY(SELECT d FROM unnest(exception_dates) d WHERE d < target.occurrence_date),
+            updated_at = NOW()
+        WHERE id = s.id;
+
+        UPDATE events
+        SET series_id = target_series_id
+        WHERE series_id = s.id
+        AND occurrence_date >= target.occurrence_date;
+    END IF;
+
+    UPDATE event_series
+    SET title = COALESCE(NULLIF(TRIM(p_updates->>'title'), ''), title),
+        description = CASE WHEN p_updates ? 'description' THEN p_updates->>'description' ELSE description END,
+        location = CASE WHEN p_updates ? 'location' THEN p_updates->>'location' ELSE location END,
+        category = CASE WHEN p_updates ? 'category' THEN p_updates->>'category' ELSE category END,
+        link = CASE WHEN p_updates ? 'link' THEN p_updates->>'link' ELSE link END,
+        image_url = CASE WHEN p_updates ? 'image_url' THEN p_updates->>'image_url' ELSE image_url END,
+        starts_at = starts_at + start_shift,
+        duration_minutes = new_duration,
+        updated_at = NOW()
+    WHERE id = target_series_id
+    RETURNING * INTO s;
+
+    -- Individually edited occurrences keep their own details
+    UPDATE events e
+    SET title = s.title,
+        description = s.description,
+        location = s.location,
+        category = s.category,
+        link = s.link,
+        image_url = s.image_url,
+        starts_at = e.starts_at + start_shift,
+        ends_at = CASE WHEN s.duration_minutes IS NULL THEN NULL ELSE e.starts_at + start_shift + make_interval(mins => s.duration_minutes) END,
+        event_date = ((e.starts_at + start_shift) AT TIME ZONE s.timezone)::DATE,
+        updated_at = NOW()
+    WHERE e.series_id = target_series_id
+    AND e.status = 'active'
+    AND (e.is_series_exception = false OR e.id = p_event_id);
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'series_id', target_series_id,
+        'updated_count', updated_count
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Delete this or all future occurrences
+CREATE OR REPLACE FUNCTION delete_event_occurrences(
+    p_event_id UUID,
+    p_all_future BOOLEAN DEFAULT FALSE
+) RETURNS JSONB AS $$
+DECLARE
+    target RECORD;
+    deleted_count INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    SELECT e.id, e.series_id, e.occurrence_date, e.org_id
+    INTO target
+    FROM events e
+    WHERE e.id = p_event_id AND e.status = 'active';
+
+    IF target.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'event_not_found',
+            'message', 'Event not found'
+        );
+    END IF;
+
+    IF NOT is_officer_of(target.org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'Officer access required'
+        );
+    END IF;
+
+    IF target.series_id IS NOT NULL AND p_all_future THEN
+        UPDATE event_series
+        SET until_date = target.occurrence_date - 1,
+            occurrence_count = NULL,
+            updated_at = NOW()
+        WHERE id = target.series_id;
+    ELSIF target.series_id IS NOT NULL THEN
+        -- Record the skipped date so the occurrence is never regenerated
+        UPDATE event_series
+        SET exception_dates = array_append(exception_dates, target.occurrence_date),
+            updated_at = NOW()
+        WHERE id = target.series_id
+        AND NOT (target.occurrence_date = ANY(exception_dates));
+    END IF;
+
+    UPDATE events
+    SET status = 'deleted',
+        deleted_by = auth.uid(),
+        deleted_at = NOW(),
+        updated_at = NOW()
+    WHERE status = 'active'
+    AND (
+        id = target.id
+        OR (p_all_future AND target.series_id IS NOT NULL
+            AND series_id = target.series_id
+            AND occurrence_date >= target.occurrence_date)
+    );
+
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'deleted_count', deleted_count
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Permissions
+REVOKE EXECUTE ON FUNCTION series_occurrences(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_series_events(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_event_series(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, DATE, INTEGER, DATE[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_event_series(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_event_occurrences(UUID, BOOLEAN) TO authenticated;
+
+-- 9. Comments
+COMMENT ON TABLE event_series IS 'Recurring event definitions; each occurrence is an events row with series_id set';
+COMMENT ON COLUMN events.is_series_exception IS 'Occurrence edited on its own; later series edits leave it unchanged';
+COMMENT ON FUNCTION series_occurrences IS 'Expands a series recurrence rule into occurrence dates and start times (exception dates included)';
+COMMENT ON FUNCTION generate_series_events IS 'Creates the events rows for a series that do not exist yet (internal)';
+COMMENT ON FUNCTION create_event_series IS 'Creates a recurring event series and generates its occurrences (officers only)';
+COMMENT ON FUNCTION update_event_series IS 'Applies edits to an occurrence and all future occurrences, splitting the series when needed';
+COMMENT ON FUNCTION delete_event_occurrences IS 'Deletes one occurrence (recorded as an exception date) or all future occurrences of a series';
@@ -0,0 +1,323 @@
+-- Migration: Event RSVPs with capacity-enforced registration
+-- Members answer going/maybe/not going before an event. Once an event with a
+-- capacity is full, new "going" answers join a waitlist in arrival order, and
+-- the oldest waitlisted member is promoted when someone gives up their spot or
+-- the capacity is raised. After the event, officers compare RSVPs with
+-- attendance to find members who said they were going but never checked in.
+
+-- 1. RSVP table
+CREATE TABLE IF NOT EXISTS event_rsvps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('going', 'maybe', 'not_going', 'waitlisted')),
+  waitlisted_at TIMESTAMPTZ, -- Waitlist order; cleared when promoted or withdrawn
+  promoted_at TIMESTAMPTZ,
+  responded_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT event_rsvps_event_member_key UNIQUE (event_id, member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_event_status ON event_rsvps(event_id, status);
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_member ON event_rsvps(member_id);
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_waitlist
+  ON event_rsvps(event_id, waitlisted_at)
+  WHERE status = 'waitlisted';
+
+ALTER TABLE event_rsvps ENABLE ROW LEVEL SECURITY;
+
+-- Members can see who is going to their organization's events
+CREATE POLICY "Members view org event RSVPs" ON event_rsvps
+  FOR SELECT TO authenticated
+  USING (is_member_of(org_id));
+
+-- Writes go through set_event_rsvp so capacity is always enforced
+GRANT SELECT ON event_rsvps TO authenticated;
+
+-- RSVP changes are pushed to clients for live counts
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'event_rsvps'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE event_rsvps;
+  END IF;
+END $$;
+
+-- 2. Waitlist promotion
+CREATE OR REPLACE FUNCTION promote_event_waitlist(p_event_id UUID)
+RETURNS UUID[] AS $$
+DECLARE
+    event_capacity INTEGER;
+    going_count INTEGER;
+    promoted UUID[];
+BEGIN
+    SELECT e.capacity INTO event_capacity FROM events e WHERE e.id = p_event_id;
+
+    SELECT COUNT(*) INTO going_count
+    FROM event_rsvps r
+    WHERE r.event_id = p_event_id AND r.status = 'going';
+
+    WITH next_up AS (
+        SELECT r.id
+        FROM event_rsvps r
+        WHERE r.event_id = p_event_id AND r.status = 'waitlisted'
+        ORDER BY r.waitlisted_at, r.responded_at
+        LIMIT CASE WHEN event_capacity IS NULL THEN NULL ELSE GREATEST(event_capacity - going_count, 0) END
+        FOR UPDATE
+    ), promoted_rows AS (
+        UPDATE event_rsvps r
+        SET status = 'going',
+            waitlisted_at = NULL,
+            promoted_at = NOW(),
+            updated_at = NOW()
+        FROM next_up
+        WHERE r.id = next_up.id
+        RETURNING r.member_id
+    )
+    SELECT COALESCE(array_agg(member_id), '{}') INTO promoted FROM promoted_rows;
+
+    RETURN promoted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Set the caller's RSVP
+CREATE OR REPLACE FUNCTION set_event_rsvp(
+    p_event_id UUID,
+    p_status TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    ev RECORD;
+    previous_status TEXT;
+    new_status TEXT;
+    going_count INTEGER;
+    waitlist_position INTEGER;
+    promoted UUID[] := '{}';
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    IF p_status IS NULL OR p_status NOT IN ('going', 'maybe', 'not_going') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_status',
+            'message', 'RSVP must be going, maybe or not going'
+        );
+    END IF;
+
+    -- Lock the event so concurrent RSVPs cannot both take the last spot
+    SELECT e.id, e.org_id, e.capacity, COALESCE(e.starts_at, e.event_date::TIMESTAMPTZ) as starts_at
+    INTO ev
+    FROM events e
+    WHERE e.id = p_event_id AND e.status = 'active'
+    FOR UPDATE;
+
+    IF ev.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'event_not_found',
+            'message', 'Event not found'
+        );
+    END IF;
+
+    IF NOT is_member_of(ev.org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'You are not a member of this organization'
+        );
+    END IF;
+
+    IF ev.starts_at IS NOT NULL AND ev.starts_at <= NOW() THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'rsvp_closed',
+            'message', 'RSVPs are closed once the event starts'
+        );
+    END IF;
+
+    SELECT r.status INTO previous_status
+    FROM event_rsvps r
+    WHERE r.event_id = p_event_id AND r.member_id = auth.uid();
+
+    new_status := p_status;
+
+    IF p_status = 'going' AND previous_status = 'waitlisted' THEN
+        -- Asking again keeps the original place in line
+        new_status := 'waitlisted';
+    ELSIF p_status = 'going' AND COALESCE(previous_status, '') <> 'going' AND ev.capacity IS NOT NULL THEN
+        SELECT COUNT(*) INTO going_count
+        FROM event_rsvps r
+        WHERE r.event_id = p_event_id AND r.status = 'going';
+
+        IF going_count >= ev.capacity THEN
+            new_status := 'waitlisted';
+        END IF;
+    END IF;
+
+    INSERT INTO event_rsvps (event_id, org_id, member_id, status, waitlisted_at, responded_at, updated_at)
+    VALUES (
+        p_event_id, ev.org_id, auth.uid(), new_status,
+        CASE WHEN new_status = 'waitlisted' THEN NOW() ELSE NULL END,
+        NOW(), NOW()
+    )
+    ON CONFLICT ON CONSTRAINT event_rsvps_event_member_key DO UPDATE SET
+        status = EXCLUDED.status,
+        waitlisted_at = CASE
+            WHEN EXCLUDED.status <> 'waitlisted' THEN NULL
+            ELSE COALESCE(event_rsvps.waitlisted_at, EXCLUDED.waitlisted_at)
+        END,
+        responded_at = EXCLUDED.responded_at,
+        updated_at = EXCLUDED.updated_at;
+
+    -- Giving up a spot hands it to the next member in line
+    IF previous_status = 'going' AND new_status <> 'going' THEN
+        promoted := promote_event_waitlist(p_event_id);
+    END IF;
+
+    IF new_status = 'waitlisted' THEN
+        SELECT COUNT(*) INTO waitlist_position
+        FROM event_rsvps r
+        WHERE r.event_id = p_event_id
+        AND r.status = 'waitlisted'
+        AND r.waitlisted_at <= (
+            SELECT mine.waitlisted_at FROM event_rsvps mine
+            WHERE mine.event_id = p_event_id AND mine.member_id = auth.uid()
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'status', new_status,
+        'previous_status', previous_status,
+        'waitlist_position', waitlist_position,
+        'promoted_member_ids', to_jsonb(promoted)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Raising the capacity promotes waitlisted members
+CREATE OR REPLACE FUNCTION promote_waitlist_on_capacity_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.capacity IS NULL OR (OLD.capacity IS NOT NULL AND NEW.capacity > OLD.capacity) THEN
+        PERFORM promote_event_waitlist(NEW.id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_events_capacity_waitlist ON events;
+CREATE TRIGGER trg_events_capacity_waitlist
+  AFTER UPDATE OF capacity ON events
+  FOR EACH ROW
+  WHEN (OLD.capacity IS DISTINCT FROM NEW.capacity)
+  EXECUTE FUNCTION promote_waitlist_on_capacity_change();
+
+-- 5. RSVP counts for a list of events
+CREATE OR REPLACE FUNCTION get_event_rsvp_summaries(p_event_ids UUID[])
+RETURNS TABLE(
+    event_id UUID,
+    going_count INTEGER,
+    maybe_count INTEGER,
+    not_going_count INTEGER,
+    waitlisted_count INTEGER,
+    my_status TEXT,
+    my_waitlist_position INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        e.id,
+        COUNT(r.id) FILTER (WHERE r.status = 'going')::INTEGER,
+        COUNT(r.id) FILTER (WHERE r.status = 'maybe')::INTEGER,
+        COUNT(r.id) FILTER (WHERE r.status = 'not_going')::INTEGER,
+        COUNT(r.id) FILTER (WHERE r.status = 'waitlisted')::INTEGER,
+        MAX(r.status) FILTER (WHERE r.member_id = auth.uid()),
+        (
+            SELECT COUNT(*)::INTEGER
+            FROM event_rsvps w
+            JOIN event_rsvps mine ON mine.event_id = w.event_id
+                AND mine.member_id = auth.uid()
+                AND mine.status = 'waitlisted'
+            WHERE w.event_id = e.id
+            AND w.status = 'waitlisted'
+            AND w.waitlisted_at <= mine.waitlisted_at
+        )
+    FROM events e
+    LEFT JOIN event_rsvps r ON r.event_id = e.id
+    WHERE e.id = ANY(p_event_ids)
+    AND is_member_of(e.org_id)
+    GROUP BY e.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 6. RSVP report with no-shows
+CREATE OR REPLACE FUNCTION get_event_rsvp_report(p_event_id UUID)
+RETURNS TABLE(
+    member_id UUID,
+    member_name TEXT,
+    status TEXT,
+    waitlisted_at TIMESTAMPTZ,
+    responded_at TIMESTAMPTZ,
+    attended BOOLEAN,
+    no_show BOOLEAN
+) AS $$
+DECLARE
+    ev RECORD;
+    event_over BOOLEAN;
+BEGIN
+    SELECT e.org_id, COALESCE(e.ends_at, e.starts_at, (e.event_date + 1)::TIMESTAMPTZ) as ends_at
+    INTO ev
+    FROM events e
+    WHERE e.id = p_event_id;
+
+    IF ev.org_id IS NULL OR NOT is_officer_of(ev.org_id) THEN
+        RETURN;
+    END IF;
+
+    event_over := ev.ends_at IS NOT NULL AND ev.ends_at < NOW();
+
+    RETURN QUERY
+    SELECT
+        r.member_id,
+        COALESCE(NULLIF(TRIM(CONCAT(p.first_name, ' ', p.last_name)), ''), p.display_name, p.email, 'Unknown Member') as member_name,
+        r.status,
+        r.waitlisted_at,
+        r.responded_at,
+        a.id IS NOT NULL as attended,
+        (event_over AND r.status = 'going' AND a.id IS NULL) as no_show
+    FROM event_rsvps r
+    JOIN profiles p ON p.id = r.member_id
+    LEFT JOIN attendance a ON a.event_id = r.event_id
+        AND a.member_id = r.member_id
+        AND COALESCE(a.status, 'present') = 'present'
+    WHERE r.event_id = p_event_id
+    ORDER BY
+        CASE r.status WHEN 'going' THEN 0 WHEN 'waitlisted' THEN 1 WHEN 'maybe' THEN 2 ELSE 3 END,
+        r.waitlisted_at,
+        2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 7. Permissions
+REVOKE EXECUTE ON FUNCTION promote_event_waitlist(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_event_rsvp(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_event_rsvp_summaries(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_event_rsvp_report(UUID) TO authenticated;
+
+-- 8. Comments
+COMMENT ON TABLE event_rsvps IS 'Member RSVPs to events, including the capacity waitlist';
+COMMENT ON FUNCTION promote_event_waitlist IS 'Moves the oldest waitlisted RSVPs to going while the event has open spots (internal)';
+COMMENT ON FUNCTION set_event_rsvp IS 'Sets the caller''s RSVP, waitlisting when the event is full and promoting the waitlist when a spot opens';
+COMMENT ON FUNCTION get_event_rsvp_summaries IS 'RSVP counts per event plus the caller''s own RSVP and waitlist position';
+COMMENT ON FUNCTION get_event_rsvp_report IS 'Lists RSVPs for an event with attendance, flagging going members who did not attend once it is over (officers only)';
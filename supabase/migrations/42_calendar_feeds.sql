@@ -0,0 +1,177 @@
+-- Migration: Subscribable calendar feeds
+-- Each member can create a private calendar feed URL for an organization's
+-- events. Calendar apps fetch the feed from the calendar-feed edge function
+-- without signing in, so the URL carries a random token that the member can
+-- revoke (which also invalidates every calendar subscribed with it).
+
+-- 1. Feed tokens
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_accessed_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- One active feed per member and organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feed_tokens_active
+  ON calendar_feed_tokens(user_id, org_id)
+  WHERE revoked_at IS NULL;
+
+-- No policies: tokens are only read and written by the functions below
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- 2. Get or create the caller's feed token
+CREATE OR REPLACE FUNCTION get_calendar_feed_token(p_org_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    feed RECORD;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    IF NOT is_member_of(p_org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'You are not a member of this organization'
+        );
+    END IF;
+
+    SELECT t.token, t.created_at, t.last_accessed_at
+    INTO feed
+    FROM calendar_feed_tokens t
+    WHERE t.user_id = auth.uid()
+    AND t.org_id = p_org_id
+    AND t.revoked_at IS NULL;
+
+    IF feed.token IS NULL THEN
+        INSERT INTO calendar_feed_tokens (user_id, org_id, token)
+        VALUES (auth.uid(), p_org_id, encode(extensions.gen_random_bytes(32), 'hex'))
+        RETURNING token, created_at, last_accessed_at INTO feed;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'token', feed.token,
+        'created_at', feed.created_at,
+        'last_accessed_at', feed.last_accessed_at
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Revoke the caller's feed token
+CREATE OR REPLACE FUNCTION revoke_calendar_feed_token(p_org_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    revoked_count INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    UPDATE calendar_feed_tokens
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid()
+    AND org_id = p_org_id
+    AND revoked_at IS NULL;
+
+    GET DIAGNOSTICS revoked_count = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'revoked_count', revoked_count
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Feed contents for a token (called by the calendar-feed edge function)
+CREATE OR REPLACE FUNCTION get_calendar_feed(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    feed RECORD;
+    org_name TEXT;
+    is_active_member BOOLEAN;
+    feed_events JSONB;
+BEGIN
+    SELECT t.id, t.user_id, t.org_id
+    INTO feed
+    FROM calendar_feed_tokens t
+    WHERE t.token = p_token
+    AND t.revoked_at IS NULL;
+
+    IF feed.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_token',
+            'message', 'Calendar feed not found or revoked'
+        );
+    END IF;
+
+    SELECT o.name INTO org_name FROM organizations o WHERE o.id = feed.org_id;
+
+    is_active_member := EXISTS (
+        SELECT 1 FROM memberships m
+        WHERE m.user_id = feed.user_id
+        AND m.org_id = feed.org_id
+        AND m.is_active = true
+    );
+
+    -- Same rules as the app: active events only, no BLE attendance sessions,
+    -- and only public events once the member has left the organization
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', e.id,
+        'title', e.title,
+        'description', e.description,
+        'location', e.location,
+        'link', e.link,
+        'event_date', e.event_date,
+        'starts_at', e.starts_at,
+        'ends_at', e.ends_at,
+        'updated_at', e.updated_at,
+        'created_at', e.created_at
+    ) ORDER BY COALESCE(e.starts_at, e.event_date::TIMESTAMPTZ)), '[]'::JSONB)
+    INTO feed_events
+    FROM events e
+    WHERE e.org_id = feed.org_id
+    AND e.status = 'active'
+    AND (is_active_member OR COALESCE(e.is_public, true))
+    AND COALESCE(e.starts_at, e.event_date::TIMESTAMPTZ) >= NOW() - INTERVAL '90 days'
+    AND NOT (
+        COALESCE(e.description, '') LIKE '{%"attendance_method"%'
+        AND e.description::JSONB->>'attendance_method' = 'ble'
+    );
+
+    UPDATE calendar_feed_tokens SET last_accessed_at = NOW() WHERE id = feed.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'org_id', feed.org_id,
+        'org_name', org_name,
+        'events', feed_events
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Permissions
+GRANT EXECUTE ON FUNCTION get_calendar_feed_token(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_calendar_feed_token(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_calendar_feed(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_calendar_feed(TEXT) TO service_role;
+
+-- 6. Comments
+COMMENT ON TABLE calendar_feed_tokens IS 'Revocable per-member tokens for subscribable organization calendar feeds';
+COMMENT ON FUNCTION get_calendar_feed_token IS 'Returns the caller''s active calendar feed token for an organization, creating one if needed';
+COMMENT ON FUNCTION revoke_calendar_feed_token IS 'Revokes the caller''s calendar feed token; the next request creates a new one';
+COMMENT ON FUNCTION get_calendar_feed IS 'Events visible through a calendar feed token (service role only, used by the calendar-feed edge function)';
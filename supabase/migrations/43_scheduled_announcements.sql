@@ -0,0 +1,178 @@
+-- Migration: Scheduled and expiring announcements
+-- Officers can set publish_at to post an announcement later and expires_at to
+-- take it down automatically. Scheduled announcements stay hidden from members
+-- until process_scheduled_announcements() publishes them, which is also when
+-- the push notification goes out. Expired announcements move to 'archived'.
+
+-- 1. Columns and status
+ALTER TABLE announcements
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+UPDATE announcements SET publish_at = created_at WHERE publish_at IS NULL;
+
+ALTER TABLE announcements ALTER COLUMN publish_at SET DEFAULT NOW();
+
+ALTER TABLE announcements DROP CONSTRAINT IF EXISTS announcements_status_check;
+ALTER TABLE announcements ADD CONSTRAINT announcements_status_check
+  CHECK (status IN ('active', 'scheduled', 'deleted', 'archived'));
+
+ALTER TABLE announcements DROP CONSTRAINT IF EXISTS announcements_expires_after_publish;
+ALTER TABLE announcements ADD CONSTRAINT announcements_expires_after_publish
+  CHECK (expires_at IS NULL OR publish_at IS NULL OR expires_at > publish_at);
+
+CREATE INDEX IF NOT EXISTS idx_announcements_scheduled
+  ON announcements(publish_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_announcements_expiring
+  ON announcements(expires_at) WHERE status = 'active' AND expires_at IS NOT NULL;
+
+-- 2. Visibility: members never see scheduled or expired announcements,
+-- officers also see their organization's scheduled queue
+DROP POLICY IF EXISTS "announcements_select_policy" ON announcements;
+CREATE POLICY "announcements_select_policy" ON announcements
+  FOR SELECT USING (
+    (
+      status = 'active'
+      AND (expires_at IS NULL OR expires_at > NOW())
+      AND is_member_of(org_id)
+    )
+    OR (status = 'scheduled' AND is_officer_of(org_id))
+  );
+
+-- 3. Notify at publish time
+-- Same request as migration 32, now also sent when a scheduled announcement
+-- becomes active. The payload keeps type 'INSERT' so the
+-- send-announcement-notification function treats it as a new announcement.
+CREATE OR REPLACE FUNCTION trigger_announcement_notification()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  request_id bigint;
+  function_url text;
+  service_role_key text;
+  payload jsonb;
+BEGIN
+  IF NEW.status = 'active' AND (
+    TG_OP = 'INSERT'
+    OR (TG_OP = 'UPDATE' AND OLD.status = 'scheduled')
+  ) THEN
+
+    function_url := 'https://lncrggkgvstvlmrlykpi.supabase.co/functions/v1/send-announcement-notification';
+
+    BEGIN
+      service_role_key := current_setting('app.settings.service_role_key', true);
+    EXCEPTION WHEN OTHERS THEN
+      service_role_key := NULL;
+    END;
+
+    payload := jsonb_build_object(
+      'type', 'INSERT',
+      'table', 'announcements',
+      'record', jsonb_build_object(
+        'id', NEW.id,
+        'org_id', NEW.org_id,
+        'title', NEW.title,
+        'message', NEW.message,
+        'status', NEW.status,
+        'created_by', NEW.created_by,
+        'created_at', NEW.created_at,
+        'publish_at', NEW.publish_at
+      ),
+      'schema', 'public'
+    );
+
+    BEGIN
+      SELECT net.http_post(
+        url := function_url,
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || COALESCE(
+            service_role_key,
+            current_setting('request.jwt.claim.sub', true),
+            ''
+          )
+        ),
+        body := payload
+      ) INTO request_id;
+
+      RAISE NOTICE 'Triggered notification for announcement % (request_id: %)', NEW.id, request_id;
+
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Failed to trigger notification for announcement %: %', NEW.id, SQLERRM;
+    END;
+
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_announcement_published ON announcements;
+CREATE TRIGGER on_announcement_published
+  AFTER UPDATE OF status ON announcements
+  FOR EACH ROW
+  WHEN (OLD.status = 'scheduled' AND NEW.status = 'active')
+  EXECUTE FUNCTION trigger_announcement_notification();
+
+-- 4. Publish due announcements and archive expired ones
+CREATE OR REPLACE FUNCTION process_scheduled_announcements()
+RETURNS JSONB AS $$
+DECLARE
+    published_count INTEGER;
+    archived_count INTEGER;
+BEGIN
+    UPDATE announcements
+    SET status = 'active',
+        updated_at = NOW()
+    WHERE status = 'scheduled'
+    AND publish_at <= NOW()
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+    GET DIAGNOSTICS published_count = ROW_COUNT;
+
+    -- Includes scheduled announcements that expired before they were published
+    UPDATE announcements
+    SET status = 'archived',
+        updated_at = NOW()
+    WHERE status IN ('active', 'scheduled')
+    AND expires_at IS NOT NULL
+    AND expires_at <= NOW();
+
+    GET DIAGNOSTICS archived_count = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'published_count', published_count,
+        'archived_count', archived_count
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Run every minute when pg_cron is available; otherwise schedule
+-- SELECT process_scheduled_announcements() from an external job
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'process-scheduled-announcements',
+      '* * * * *',
+      'SELECT process_scheduled_announcements()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron not available - schedule process_scheduled_announcements() manually';
+  END IF;
+END $$;
+
+-- 5. Permissions
+REVOKE EXECUTE ON FUNCTION process_scheduled_announcements() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION process_scheduled_announcements() TO service_role;
+
+-- 6. Comments
+COMMENT ON COLUMN announcements.status IS 'Lifecycle status: scheduled, active, deleted, archived';
+COMMENT ON COLUMN announcements.publish_at IS 'When the announcement becomes visible to members and notifications are sent';
+COMMENT ON COLUMN announcements.expires_at IS 'When the announcement is hidden from members and archived';
+COMMENT ON POLICY "announcements_select_policy" ON announcements IS 'Members can view active, unexpired announcements; officers can also view scheduled ones';
+COMMENT ON FUNCTION process_scheduled_announcements IS 'Publishes scheduled announcements that are due and archives expired ones (run by pg_cron)';
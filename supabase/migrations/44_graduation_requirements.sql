@@ -0,0 +1,220 @@
+-- Migration: Graduation requirement tracking
+-- Officers define per-organization requirement rules (verified volunteer hours,
+-- organization-event hours or meetings attended within a semester or school
+-- year). Progress is computed from volunteer_hours and attendance, and members
+-- falling behind pace or close to the deadline are reported as at risk.
+
+-- 1. Requirement rules
+CREATE TABLE IF NOT EXISTS graduation_requirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  requirement_type TEXT NOT NULL CHECK (requirement_type IN ('verified_hours', 'organization_event_hours', 'meetings_attended')),
+  target_value NUMERIC(7, 1) NOT NULL CHECK (target_value > 0),
+  period TEXT NOT NULL CHECK (period IN ('semester', 'year')),
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT graduation_requirements_period_check CHECK (ends_on > starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_graduation_requirements_org
+  ON graduation_requirements(org_id, ends_on) WHERE is_active = true;
+
+ALTER TABLE graduation_requirements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "graduation_requirements_select_policy" ON graduation_requirements;
+CREATE POLICY "graduation_requirements_select_policy" ON graduation_requirements
+  FOR SELECT USING (is_member_of(org_id));
+
+DROP POLICY IF EXISTS "graduation_requirements_insert_policy" ON graduation_requirements;
+CREATE POLICY "graduation_requirements_insert_policy" ON graduation_requirements
+  FOR INSERT WITH CHECK (is_officer_of(org_id) AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "graduation_requirements_update_policy" ON graduation_requirements;
+CREATE POLICY "graduation_requirements_update_policy" ON graduation_requirements
+  FOR UPDATE USING (is_officer_of(org_id)) WITH CHECK (is_officer_of(org_id));
+
+DROP POLICY IF EXISTS "graduation_requirements_delete_policy" ON graduation_requirements;
+CREATE POLICY "graduation_requirements_delete_policy" ON graduation_requirements
+  FOR DELETE USING (is_officer_of(org_id));
+
+CREATE OR REPLACE FUNCTION update_graduation_requirements_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS graduation_requirements_updated_at_trigger ON graduation_requirements;
+CREATE TRIGGER graduation_requirements_updated_at_trigger
+    BEFORE UPDATE ON graduation_requirements
+    FOR EACH ROW
+    EXECUTE FUNCTION update_graduation_requirements_updated_at();
+
+-- 2. Progress value for one member and rule
+CREATE OR REPLACE FUNCTION calculate_requirement_value(
+    p_requirement_type TEXT,
+    p_org_id UUID,
+    p_member_id UUID,
+    p_starts_on DATE,
+    p_ends_on DATE
+)
+RETURNS NUMERIC AS $$
+DECLARE
+    result NUMERIC;
+BEGIN
+    IF p_requirement_type = 'meetings_attended' THEN
+        -- BLE sessions and events categorized as meetings
+        SELECT COUNT(DISTINCT a.event_id)
+        INTO result
+        FROM attendance a
+        JOIN events e ON e.id = a.event_id
+        WHERE a.member_id = p_member_id
+        AND e.org_id = p_org_id
+        AND COALESCE(a.status, 'present') = 'present'
+        AND (e.event_type = 'meeting' OR e.category = 'meeting')
+        AND COALESCE(e.starts_at::DATE, e.event_date, a.checkin_time::DATE) BETWEEN p_starts_on AND p_ends_on;
+    ELSE
+        SELECT COALESCE(SUM(vh.hours), 0)
+        INTO result
+        FROM volunteer_hours vh
+        WHERE vh.member_id = p_member_id
+        AND vh.org_id = p_org_id
+        AND vh.status = 'verified'
+        AND (p_requirement_type = 'verified_hours' OR vh.is_organization_event = true)
+        AND COALESCE(vh.activity_date, vh.created_at::DATE) BETWEEN p_starts_on AND p_ends_on;
+    END IF;
+
+    RETURN COALESCE(result, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 3. A member's progress toward every active rule
+CREATE OR REPLACE FUNCTION get_member_requirement_progress(p_org_id UUID, p_member_id UUID DEFAULT NULL)
+RETURNS TABLE(
+    requirement_id UUID,
+    name TEXT,
+    requirement_type TEXT,
+    period TEXT,
+    target_value NUMERIC,
+    current_value NUMERIC,
+    expected_value NUMERIC,
+    starts_on DATE,
+    ends_on DATE,
+    days_remaining INTEGER,
+    is_met BOOLEAN
+) AS $$
+DECLARE
+    target_member UUID := COALESCE(p_member_id, auth.uid());
+BEGIN
+    IF target_member IS NULL OR NOT is_member_of(p_org_id) THEN
+        RETURN;
+    END IF;
+
+    -- Members can only see their own progress
+    IF target_member <> auth.uid() AND NOT is_officer_of(p_org_id) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        progress.id,
+        progress.name,
+        progress.requirement_type,
+        progress.period,
+        progress.target_value,
+        progress.current_value,
+        -- Where the member should be if progress were spread evenly over the period
+        ROUND(progress.target_value * LEAST(GREATEST(
+            (CURRENT_DATE - progress.starts_on)::NUMERIC / NULLIF(progress.ends_on - progress.starts_on, 0),
+            0), 1), 1),
+        progress.starts_on,
+        progress.ends_on,
+        GREATEST(progress.ends_on - CURRENT_DATE, 0),
+        progress.current_value >= progress.target_value
+    FROM (
+        SELECT
+            r.id, r.name, r.requirement_type, r.period, r.target_value, r.starts_on, r.ends_on,
+            calculate_requirement_value(r.requirement_type, r.org_id, target_member, r.starts_on, r.ends_on) as current_value
+        FROM graduation_requirements r
+        WHERE r.org_id = p_org_id
+        AND r.is_active = true
+    ) progress
+    ORDER BY 9, 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 4. Members at risk of missing a requirement (officers only)
+-- A member is at risk when a current rule is not yet met and they are either
+-- behind an even pace or within p_warning_days of the deadline.
+CREATE OR REPLACE FUNCTION get_members_at_risk(p_org_id UUID, p_warning_days INTEGER DEFAULT 30)
+RETURNS TABLE(
+    member_id UUID,
+    member_name TEXT,
+    requirement_id UUID,
+    requirement_name TEXT,
+    requirement_type TEXT,
+    target_value NUMERIC,
+    current_value NUMERIC,
+    expected_value NUMERIC,
+    ends_on DATE,
+    days_remaining INTEGER
+) AS $$
+BEGIN
+    IF NOT is_officer_of(p_org_id) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT *
+    FROM (
+        SELECT
+            m.user_id,
+            COALESCE(NULLIF(TRIM(CONCAT(p.first_name, ' ', p.last_name)), ''), p.display_name, p.email, 'Unknown Member'),
+            r.id,
+            r.name,
+            r.requirement_type,
+            r.target_value,
+            calculate_requirement_value(r.requirement_type, r.org_id, m.user_id, r.starts_on, r.ends_on) as current_value,
+            ROUND(r.target_value * LEAST(GREATEST(
+                (CURRENT_DATE - r.starts_on)::NUMERIC / NULLIF(r.ends_on - r.starts_on, 0),
+                0), 1), 1) as expected_value,
+            r.ends_on,
+            (r.ends_on - CURRENT_DATE) as days_remaining
+        FROM graduation_requirements r
+        JOIN memberships m ON m.org_id = r.org_id
+            AND m.is_active = true
+            AND m.role = 'member'
+        JOIN profiles p ON p.id = m.user_id
+        WHERE r.org_id = p_org_id
+        AND r.is_active = true
+        AND r.starts_on <= CURRENT_DATE
+        AND r.ends_on >= CURRENT_DATE
+    ) progress
+    WHERE progress.current_value < progress.target_value
+    AND (
+        progress.current_value < progress.expected_value
+        OR progress.days_remaining <= p_warning_days
+    )
+    ORDER BY progress.days_remaining, progress.current_value / progress.target_value, 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 5. Permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON graduation_requirements TO authenticated;
+REVOKE EXECUTE ON FUNCTION calculate_requirement_value(TEXT, UUID, UUID, DATE, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_member_requirement_progress(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_members_at_risk(UUID, INTEGER) TO authenticated;
+
+-- 6. Comments
+COMMENT ON TABLE graduation_requirements IS 'Officer-defined requirement rules members must meet within a semester or school year';
+COMMENT ON COLUMN graduation_requirements.target_value IS 'Hours for hour requirements, number of meetings for meetings_attended';
+COMMENT ON COLUMN graduation_requirements.ends_on IS 'Deadline for meeting the requirement';
+COMMENT ON FUNCTION calculate_requirement_value IS 'Verified hours, organization-event hours or meetings attended by a member within a date range (internal)';
+COMMENT ON FUNCTION get_member_requirement_progress IS 'Progress toward each active requirement for the caller, or any member when called by an officer';
+COMMENT ON FUNCTION get_members_at_risk IS 'Members behind pace or near the deadline on an unmet requirement (officers only)';
@@ -0,0 +1,245 @@
+-- Migration: Bulk approve/reject for volunteer hours with rejection reason templates
+-- Officers can review many pending submissions at once. The batch is checked and
+-- applied in a single transaction, so either every selected entry changes or
+-- none does. Each affected member gets one combined notification through the
+-- volunteer hours batch queue, which now also carries rejections. Officers can
+-- save reusable rejection reasons per organization.
+
+-- 1. Rejection reason templates
+CREATE TABLE IF NOT EXISTS rejection_reason_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (LENGTH(TRIM(label)) BETWEEN 1 AND 40),
+  reason TEXT NOT NULL CHECK (LENGTH(TRIM(reason)) BETWEEN 1 AND 500),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT rejection_reason_templates_org_label_key UNIQUE (org_id, label)
+);
+
+ALTER TABLE rejection_reason_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rejection_reason_templates_select_policy" ON rejection_reason_templates;
+CREATE POLICY "rejection_reason_templates_select_policy" ON rejection_reason_templates
+  FOR SELECT USING (is_officer_of(org_id));
+
+DROP POLICY IF EXISTS "rejection_reason_templates_insert_policy" ON rejection_reason_templates;
+CREATE POLICY "rejection_reason_templates_insert_policy" ON rejection_reason_templates
+  FOR INSERT WITH CHECK (is_officer_of(org_id) AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "rejection_reason_templates_delete_policy" ON rejection_reason_templates;
+CREATE POLICY "rejection_reason_templates_delete_policy" ON rejection_reason_templates
+  FOR DELETE USING (is_officer_of(org_id));
+
+-- 2. Rejections in the batch queue
+ALTER TABLE volunteer_hours_batch_queue
+ADD COLUMN IF NOT EXISTS rejection_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- The result columns change, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_pending_volunteer_hours_batches();
+CREATE FUNCTION get_pending_volunteer_hours_batches()
+RETURNS TABLE (
+  batch_id UUID,
+  member_id UUID,
+  org_id UUID,
+  approval_ids UUID[],
+  rejection_ids UUID[],
+  batch_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    vhbq.id,
+    vhbq.member_id,
+    vhbq.org_id,
+    vhbq.approval_ids,
+    vhbq.rejection_ids,
+    (cardinality(vhbq.approval_ids) + cardinality(vhbq.rejection_ids)) as batch_count
+  FROM volunteer_hours_batch_queue vhbq
+  WHERE vhbq.processed = FALSE
+    AND vhbq.batch_window_start < NOW() - INTERVAL '5 minutes'
+  ORDER BY vhbq.batch_window_start ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Adds a member's reviewed entries to their batch for the current 5-minute window
+CREATE OR REPLACE FUNCTION queue_volunteer_hours_review_batch(
+  p_member_id UUID,
+  p_org_id UUID,
+  p_approval_ids UUID[],
+  p_rejection_ids UUID[]
+) RETURNS VOID AS $$
+DECLARE
+  batch_window TIMESTAMP WITH TIME ZONE;
+  existing_batch_id UUID;
+BEGIN
+  batch_window := DATE_TRUNC('minute', NOW()) -
+                  (EXTRACT(MINUTE FROM NOW())::INTEGER % 5) * INTERVAL '1 minute';
+
+  SELECT id INTO existing_batch_id
+  FROM volunteer_hours_batch_queue
+  WHERE member_id = p_member_id
+    AND org_id = p_org_id
+    AND batch_window_start = batch_window
+    AND processed = FALSE
+  FOR UPDATE;
+
+  IF existing_batch_id IS NOT NULL THEN
+    UPDATE volunteer_hours_batch_queue
+    SET approval_ids = approval_ids || p_approval_ids,
+        rejection_ids = rejection_ids || p_rejection_ids
+    WHERE id = existing_batch_id;
+  ELSE
+    INSERT INTO volunteer_hours_batch_queue (member_id, org_id, approval_ids, rejection_ids, batch_window_start)
+    VALUES (p_member_id, p_org_id, p_approval_ids, p_rejection_ids, batch_window);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Bulk review
+CREATE OR REPLACE FUNCTION bulk_review_volunteer_hours(
+    p_hour_ids UUID[],
+    p_action TEXT,
+    p_reason TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    requested_count INTEGER;
+    found_count INTEGER;
+    pending_count INTEGER;
+    org_ids UUID[];
+    trimmed_reason TEXT := NULLIF(TRIM(p_reason), '');
+    member_group RECORD;
+    member_count INTEGER := 0;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    IF p_action IS NULL OR p_action NOT IN ('approve', 'reject') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_action',
+            'message', 'Action must be approve or reject'
+        );
+    END IF;
+
+    requested_count := cardinality(ARRAY(SELECT DISTINCT unnest(p_hour_ids)));
+    IF requested_count = 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'no_entries',
+            'message', 'Select at least one submission'
+        );
+    END IF;
+
+    IF requested_count > 500 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'too_many_entries',
+            'message', 'A bulk review is limited to 500 submissions'
+        );
+    END IF;
+
+    IF p_action = 'reject' AND trimmed_reason IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'reason_required',
+            'message', 'A rejection reason is required'
+        );
+    END IF;
+
+    -- Lock the selection so a concurrent review cannot change it underneath us
+    SELECT
+        COUNT(*)::INTEGER,
+        COUNT(*) FILTER (WHERE vh.status = 'pending')::INTEGER,
+        array_agg(DISTINCT vh.org_id)
+    INTO found_count, pending_count, org_ids
+    FROM (
+        SELECT v.id, v.org_id, v.status
+        FROM volunteer_hours v
+        WHERE v.id = ANY(p_hour_ids)
+        FOR UPDATE
+    ) vh;
+
+    IF found_count < requested_count THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'Some selected submissions no longer exist'
+        );
+    END IF;
+
+    IF cardinality(org_ids) <> 1 OR NOT is_officer_of(org_ids[1]) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'Permission denied: Officer access required'
+        );
+    END IF;
+
+    IF pending_count < requested_count THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_reviewed',
+            'message', 'Some selected submissions have already been reviewed'
+        );
+    END IF;
+
+    IF p_action = 'approve' THEN
+        UPDATE volunteer_hours
+        SET approved = true,
+            status = 'verified',
+            approved_by = auth.uid(),
+            approved_at = NOW(),
+            verified_by = auth.uid(),
+            verified_at = NOW()
+        WHERE id = ANY(p_hour_ids);
+    ELSE
+        UPDATE volunteer_hours
+        SET status = 'rejected',
+            rejection_reason = trimmed_reason,
+            verified_by = auth.uid(),
+            verified_at = NOW()
+        WHERE id = ANY(p_hour_ids);
+    END IF;
+
+    -- One queued notification per member
+    FOR member_group IN
+        SELECT vh.member_id, array_agg(vh.id) as hour_ids
+        FROM volunteer_hours vh
+        WHERE vh.id = ANY(p_hour_ids)
+        GROUP BY vh.member_id
+    LOOP
+        PERFORM queue_volunteer_hours_review_batch(
+            member_group.member_id,
+            org_ids[1],
+            CASE WHEN p_action = 'approve' THEN member_group.hour_ids ELSE '{}'::UUID[] END,
+            CASE WHEN p_action = 'reject' THEN member_group.hour_ids ELSE '{}'::UUID[] END
+        );
+        member_count := member_count + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'action', p_action,
+        'updated_count', requested_count,
+        'member_count', member_count
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Permissions
+GRANT SELECT, INSERT, DELETE ON rejection_reason_templates TO authenticated;
+GRANT EXECUTE ON FUNCTION get_pending_volunteer_hours_batches() TO authenticated;
+REVOKE EXECUTE ON FUNCTION queue_volunteer_hours_review_batch(UUID, UUID, UUID[], UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION bulk_review_volunteer_hours(UUID[], TEXT, TEXT) TO authenticated;
+
+-- 5. Comments
+COMMENT ON TABLE rejection_reason_templates IS 'Saved rejection reasons officers can reuse when rejecting volunteer hours';
+COMMENT ON COLUMN volunteer_hours_batch_queue.rejection_ids IS 'Rejected volunteer hours included in the batched notification';
+COMMENT ON FUNCTION get_pending_volunteer_hours_batches() IS 'Gets volunteer hours batches ready for processing';
+COMMENT ON FUNCTION queue_volunteer_hours_review_batch IS 'Adds approved and rejected entries to a member''s notification batch (internal)';
+COMMENT ON FUNCTION bulk_review_volunteer_hours IS 'Approves or rejects a set of pending volunteer hours all-or-nothing (officers only)';
@@ -0,0 +1,406 @@
+-- Migration: Two-step approval for large or external volunteer hour submissions
+-- Organizations can require a second officer to review submissions above an
+-- hours threshold and/or any activity that is not an organization event. The
+-- first approval moves an entry to 'officer_approved'; a different officer then
+-- verifies it. Approvals go through approve_volunteer_hours and the bulk review
+-- RPC, and a trigger stops direct updates from skipping the second step.
+
+-- 1. Intermediate status
+ALTER TYPE volunteer_hours_status ADD VALUE IF NOT EXISTS 'officer_approved' AFTER 'pending';
+
+-- Compared as text so the new enum value is not used in this transaction
+ALTER TABLE volunteer_hours DROP CONSTRAINT IF EXISTS volunteer_hours_status_check;
+ALTER TABLE volunteer_hours
+ADD CONSTRAINT volunteer_hours_status_check
+CHECK (status::TEXT IN ('pending', 'officer_approved', 'verified', 'rejected'));
+
+ALTER TABLE volunteer_hours
+ADD COLUMN IF NOT EXISTS first_approved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS first_approved_at TIMESTAMPTZ;
+
+ALTER TABLE volunteer_hours DROP CONSTRAINT IF EXISTS volunteer_hours_first_approval_check;
+ALTER TABLE volunteer_hours
+ADD CONSTRAINT volunteer_hours_first_approval_check
+CHECK (status::TEXT <> 'officer_approved' OR (first_approved_by IS NOT NULL AND first_approved_at IS NOT NULL));
+
+-- 2. Per-organization approval policy
+CREATE TABLE IF NOT EXISTS approval_policies (
+  org_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  two_step_enabled BOOLEAN NOT NULL DEFAULT false,
+  hours_threshold NUMERIC(4, 1) CHECK (hours_threshold IS NULL OR (hours_threshold > 0 AND hours_threshold <= 24)),
+  include_external BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE approval_policies ENABLE ROW LEVEL SECURITY;
+
+-- Members can see why their submission needs a second review
+DROP POLICY IF EXISTS "approval_policies_select_policy" ON approval_policies;
+CREATE POLICY "approval_policies_select_policy" ON approval_policies
+  FOR SELECT USING (is_member_of(org_id));
+
+DROP POLICY IF EXISTS "approval_policies_insert_policy" ON approval_policies;
+CREATE POLICY "approval_policies_insert_policy" ON approval_policies
+  FOR INSERT WITH CHECK (is_officer_of(org_id) AND updated_by = auth.uid());
+
+DROP POLICY IF EXISTS "approval_policies_update_policy" ON approval_policies;
+CREATE POLICY "approval_policies_update_policy" ON approval_policies
+  FOR UPDATE USING (is_officer_of(org_id)) WITH CHECK (is_officer_of(org_id) AND updated_by = auth.uid());
+
+CREATE OR REPLACE FUNCTION update_approval_policies_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS approval_policies_updated_at_trigger ON approval_policies;
+CREATE TRIGGER approval_policies_updated_at_trigger
+    BEFORE UPDATE ON approval_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_approval_policies_updated_at();
+
+-- 3. Policy evaluation
+CREATE OR REPLACE FUNCTION requires_second_approval(
+    p_org_id UUID,
+    p_hours NUMERIC,
+    p_event_id UUID,
+    p_is_organization_event BOOLEAN
+) RETURNS BOOLEAN AS $$
+DECLARE
+    policy RECORD;
+BEGIN
+    SELECT ap.two_step_enabled, ap.hours_threshold, ap.include_external
+    INTO policy
+    FROM approval_policies ap
+    WHERE ap.org_id = p_org_id;
+
+    IF NOT FOUND OR NOT policy.two_step_enabled THEN
+        RETURN false;
+    END IF;
+
+    RETURN (policy.hours_threshold IS NOT NULL AND p_hours > policy.hours_threshold)
+        OR (policy.include_external AND p_event_id IS NULL AND NOT COALESCE(p_is_organization_event, false));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Next status when p_reviewer approves an entry, or an error code
+CREATE OR REPLACE FUNCTION next_approval_status(
+    p_hour volunteer_hours,
+    p_reviewer UUID
+) RETURNS TEXT AS $$
+BEGIN
+    IF p_hour.status::TEXT = 'officer_approved' THEN
+        IF p_hour.first_approved_by = p_reviewer THEN
+            RETURN 'second_reviewer_required';
+        END IF;
+        RETURN 'verified';
+    END IF;
+
+    IF p_hour.status::TEXT <> 'pending' THEN
+        RETURN 'already_reviewed';
+    END IF;
+
+    IF requires_second_approval(p_hour.org_id, p_hour.hours, p_hour.event_id, p_hour.is_organization_event) THEN
+        RETURN 'officer_approved';
+    END IF;
+
+    RETURN 'verified';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 4. Guard against skipping the second step with a direct update
+CREATE OR REPLACE FUNCTION enforce_volunteer_hours_approval_steps()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status::TEXT = 'verified' AND OLD.status::TEXT <> 'verified'
+        AND requires_second_approval(NEW.org_id, NEW.hours, NEW.event_id, NEW.is_organization_event) THEN
+        IF OLD.status::TEXT <> 'officer_approved' THEN
+            RAISE EXCEPTION 'This submission needs two officer approvals' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF NEW.verified_by IS NOT DISTINCT FROM OLD.first_approved_by THEN
+            RAISE EXCEPTION 'The second approval must come from a different officer' USING ERRCODE = 'P0001';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS volunteer_hours_approval_steps_trigger ON volunteer_hours;
+CREATE TRIGGER volunteer_hours_approval_steps_trigger
+    BEFORE UPDATE OF status ON volunteer_hours
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_volunteer_hours_approval_steps();
+
+-- 5. Single approval
+CREATE OR REPLACE FUNCTION approve_volunteer_hours(p_hour_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    hour_row volunteer_hours;
+    next_status TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    SELECT * INTO hour_row
+    FROM volunteer_hours
+    WHERE id = p_hour_id
+    FOR UPDATE;
+
+    IF hour_row.id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'Volunteer hour record not found'
+        );
+    END IF;
+
+    IF NOT is_officer_of(hour_row.org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'Permission denied: Officer access required'
+        );
+    END IF;
+
+    next_status := next_approval_status(hour_row, auth.uid());
+
+    IF next_status = 'already_reviewed' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_reviewed',
+            'message', 'This submission has already been reviewed'
+        );
+    END IF;
+
+    IF next_status = 'second_reviewer_required' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'second_reviewer_required',
+            'message', 'A different officer must give the second approval'
+        );
+    END IF;
+
+    IF next_status = 'officer_approved' THEN
+        UPDATE volunteer_hours
+        SET status = 'officer_approved',
+            first_approved_by = auth.uid(),
+            first_approved_at = NOW()
+        WHERE id = p_hour_id;
+    ELSE
+        UPDATE volunteer_hours
+        SET approved = true,
+            status = 'verified',
+            approved_by = auth.uid(),
+            approved_at = NOW(),
+            verified_by = auth.uid(),
+            verified_at = NOW()
+        WHERE id = p_hour_id;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'previous_status', hour_row.status::TEXT,
+        'status', next_status
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Bulk review follows the same steps
+CREATE OR REPLACE FUNCTION bulk_review_volunteer_hours(
+    p_hour_ids UUID[],
+    p_action TEXT,
+    p_reason TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    requested_count INTEGER;
+    found_count INTEGER;
+    reviewable_count INTEGER;
+    self_second_count INTEGER := 0;
+    first_step_count INTEGER := 0;
+    org_ids UUID[];
+    trimmed_reason TEXT := NULLIF(TRIM(p_reason), '');
+    member_group RECORD;
+    member_count INTEGER := 0;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    IF p_action IS NULL OR p_action NOT IN ('approve', 'reject') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_action',
+            'message', 'Action must be approve or reject'
+        );
+    END IF;
+
+    requested_count := cardinality(ARRAY(SELECT DISTINCT unnest(p_hour_ids)));
+    IF requested_count = 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'no_entries',
+            'message', 'Select at least one submission'
+        );
+    END IF;
+
+    IF requested_count > 500 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'too_many_entries',
+            'message', 'A bulk review is limited to 500 submissions'
+        );
+    END IF;
+
+    IF p_action = 'reject' AND trimmed_reason IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'reason_required',
+            'message', 'A rejection reason is required'
+        );
+    END IF;
+
+    -- Lock the selection so a concurrent review cannot change it underneath us
+    SELECT
+        COUNT(*)::INTEGER,
+        COUNT(*) FILTER (WHERE vh.status::TEXT IN ('pending', 'officer_approved'))::INTEGER,
+        array_agg(DISTINCT vh.org_id)
+    INTO found_count, reviewable_count, org_ids
+    FROM (
+        SELECT v.id, v.org_id, v.status
+        FROM volunteer_hours v
+        WHERE v.id = ANY(p_hour_ids)
+        FOR UPDATE
+    ) vh;
+
+    IF found_count < requested_count THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'Some selected submissions no longer exist'
+        );
+    END IF;
+
+    IF cardinality(org_ids) <> 1 OR NOT is_officer_of(org_ids[1]) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'Permission denied: Officer access required'
+        );
+    END IF;
+
+    IF reviewable_count < requested_count THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_reviewed',
+            'message', 'Some selected submissions have already been reviewed'
+        );
+    END IF;
+
+    IF p_action = 'approve' THEN
+        CREATE TEMP TABLE bulk_approval_steps ON COMMIT DROP AS
+        SELECT v.id, v.member_id, next_approval_status(v, auth.uid()) as next_status
+        FROM volunteer_hours v
+        WHERE v.id = ANY(p_hour_ids);
+
+        SELECT
+            COUNT(*) FILTER (WHERE s.next_status = 'second_reviewer_required')::INTEGER,
+            COUNT(*) FILTER (WHERE s.next_status = 'officer_approved')::INTEGER
+        INTO self_second_count, first_step_count
+        FROM bulk_approval_steps s;
+
+        IF self_second_count > 0 THEN
+            DROP TABLE bulk_approval_steps;
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'second_reviewer_required',
+                'message', 'You gave the first approval on some selected submissions; another officer must give the second'
+            );
+        END IF;
+
+        UPDATE volunteer_hours v
+        SET status = 'officer_approved',
+            first_approved_by = auth.uid(),
+            first_approved_at = NOW()
+        FROM bulk_approval_steps s
+        WHERE v.id = s.id AND s.next_status = 'officer_approved';
+
+        UPDATE volunteer_hours v
+        SET approved = true,
+            status = 'verified',
+            approved_by = auth.uid(),
+            approved_at = NOW(),
+            verified_by = auth.uid(),
+            verified_at = NOW()
+        FROM bulk_approval_steps s
+        WHERE v.id = s.id AND s.next_status = 'verified';
+
+        -- Members hear about an entry once it is fully verified
+        FOR member_group IN
+            SELECT s.member_id, array_agg(s.id) as hour_ids
+            FROM bulk_approval_steps s
+            WHERE s.next_status = 'verified'
+            GROUP BY s.member_id
+        LOOP
+            PERFORM queue_volunteer_hours_review_batch(member_group.member_id, org_ids[1], member_group.hour_ids, '{}'::UUID[]);
+            member_count := member_count + 1;
+        END LOOP;
+
+        DROP TABLE bulk_approval_steps;
+    ELSE
+        UPDATE volunteer_hours
+        SET status = 'rejected',
+            rejection_reason = trimmed_reason,
+            verified_by = auth.uid(),
+            verified_at = NOW()
+        WHERE id = ANY(p_hour_ids);
+
+        FOR member_group IN
+            SELECT vh.member_id, array_agg(vh.id) as hour_ids
+            FROM volunteer_hours vh
+            WHERE vh.id = ANY(p_hour_ids)
+            GROUP BY vh.member_id
+        LOOP
+            PERFORM queue_volunteer_hours_review_batch(member_group.member_id, org_ids[1], '{}'::UUID[], member_group.hour_ids);
+            member_count := member_count + 1;
+        END LOOP;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'action', p_action,
+        'updated_count', requested_count,
+        'awaiting_second_approval_count', first_step_count,
+        'member_count', member_count
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Permissions
+GRANT SELECT, INSERT, UPDATE ON approval_policies TO authenticated;
+REVOKE EXECUTE ON FUNCTION requires_second_approval(UUID, NUMERIC, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION next_approval_status(volunteer_hours, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION approve_volunteer_hours(UUID) TO authenticated;
+
+-- 8. Comments
+COMMENT ON TABLE approval_policies IS 'Per-organization rules for which volunteer hour submissions need two officer approvals';
+COMMENT ON COLUMN approval_policies.hours_threshold IS 'Submissions with more hours than this need a second approval';
+COMMENT ON COLUMN approval_policies.include_external IS 'Whether activities that are not organization events always need a second approval';
+COMMENT ON COLUMN volunteer_hours.first_approved_by IS 'Officer who gave the first of two approvals';
+COMMENT ON FUNCTION requires_second_approval IS 'Whether an organization''s policy requires two approvals for a submission (internal)';
+COMMENT ON FUNCTION next_approval_status IS 'Status an approval by the given officer moves an entry to, or an error code (internal)';
+COMMENT ON FUNCTION approve_volunteer_hours IS 'Approves a submission, moving it to officer_approved when a second reviewer is required';
+COMMENT ON FUNCTION bulk_review_volunteer_hours IS 'Approves or rejects a set of pending volunteer hours all-or-nothing (officers only)';
@@ -0,0 +1,130 @@
+-- Migration: Persisted audit trail for volunteer hours
+-- Every create, edit, approval step, rejection and delete of a volunteer_hours
+-- row is written to volunteer_hours_audit by a trigger, so the history survives
+-- later status changes and deletes regardless of which client or RPC made the
+-- change. Members can read the history of their own entries; officers can read
+-- their organization's full log. Audit rows cannot be changed by clients.
+
+-- 1. Audit table
+CREATE TABLE IF NOT EXISTS volunteer_hours_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key so the history outlives a deleted entry
+  volunteer_hour_id UUID NOT NULL,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('created', 'edited', 'officer_approved', 'approved', 'rejected', 'deleted')),
+  performed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  performed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  previous_status TEXT,
+  new_status TEXT,
+  rejection_reason TEXT,
+  old_values JSONB,
+  new_values JSONB,
+  metadata JSONB NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_volunteer_hours_audit_entry
+  ON volunteer_hours_audit(volunteer_hour_id, performed_at);
+CREATE INDEX IF NOT EXISTS idx_volunteer_hours_audit_org
+  ON volunteer_hours_audit(org_id, performed_at DESC);
+
+ALTER TABLE volunteer_hours_audit ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below; there are no insert, update or delete policies
+DROP POLICY IF EXISTS "volunteer_hours_audit_select_policy" ON volunteer_hours_audit;
+CREATE POLICY "volunteer_hours_audit_select_policy" ON volunteer_hours_audit
+  FOR SELECT USING (member_id = auth.uid() OR is_officer_of(org_id));
+
+-- 2. Trigger
+CREATE OR REPLACE FUNCTION record_volunteer_hours_audit()
+RETURNS TRIGGER AS $$
+DECLARE
+    audit_action TEXT;
+    changed_old JSONB;
+    changed_new JSONB;
+    audit_metadata JSONB := '{}'::JSONB;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO volunteer_hours_audit (
+            volunteer_hour_id, org_id, member_id, action, performed_by,
+            new_status, new_values
+        ) VALUES (
+            NEW.id, NEW.org_id, NEW.member_id, 'created', COALESCE(auth.uid(), NEW.member_id),
+            NEW.status::TEXT, to_jsonb(NEW)
+        );
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        -- Cascaded deletes of the organization or member take the history with them
+        IF NOT EXISTS (SELECT 1 FROM organizations WHERE id = OLD.org_id)
+            OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = OLD.member_id) THEN
+            RETURN OLD;
+        END IF;
+
+        INSERT INTO volunteer_hours_audit (
+            volunteer_hour_id, org_id, member_id, action, performed_by,
+            previous_status, old_values
+        ) VALUES (
+            OLD.id, OLD.org_id, OLD.member_id, 'deleted', auth.uid(),
+            OLD.status::TEXT, to_jsonb(OLD)
+        );
+        RETURN OLD;
+    END IF;
+
+    -- Only the columns that changed are kept for edits and reviews
+    SELECT jsonb_object_agg(n.key, o.value), jsonb_object_agg(n.key, n.value)
+    INTO changed_old, changed_new
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value;
+
+    IF changed_new IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status::TEXT = 'officer_approved' THEN
+        audit_action := 'officer_approved';
+        audit_metadata := jsonb_build_object('approval_step', 'first');
+    ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status::TEXT = 'verified' THEN
+        audit_action := 'approved';
+        audit_metadata := jsonb_build_object(
+            'approval_step', CASE WHEN OLD.status::TEXT = 'officer_approved' THEN 'second' ELSE 'single' END,
+            'first_approved_by', OLD.first_approved_by
+        );
+    ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status::TEXT = 'rejected' THEN
+        audit_action := 'rejected';
+        audit_metadata := jsonb_build_object('first_approved_by', OLD.first_approved_by);
+    ELSE
+        audit_action := 'edited';
+    END IF;
+
+    INSERT INTO volunteer_hours_audit (
+        volunteer_hour_id, org_id, member_id, action, performed_by,
+        previous_status, new_status, rejection_reason, old_values, new_values, metadata
+    ) VALUES (
+        NEW.id, NEW.org_id, NEW.member_id, audit_action, auth.uid(),
+        OLD.status::TEXT, NEW.status::TEXT,
+        CASE WHEN audit_action = 'rejected' THEN NEW.rejection_reason END,
+        changed_old, changed_new, jsonb_strip_nulls(audit_metadata)
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS volunteer_hours_audit_trigger ON volunteer_hours;
+CREATE TRIGGER volunteer_hours_audit_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON volunteer_hours
+    FOR EACH ROW EXECUTE FUNCTION record_volunteer_hours_audit();
+
+-- 3. Permissions
+GRANT SELECT ON volunteer_hours_audit TO authenticated;
+REVOKE EXECUTE ON FUNCTION record_volunteer_hours_audit() FROM PUBLIC, anon, authenticated;
+
+-- 4. Comments
+COMMENT ON TABLE volunteer_hours_audit IS 'Append-only history of every change to volunteer hour submissions';
+COMMENT ON COLUMN volunteer_hours_audit.volunteer_hour_id IS 'Audited entry; kept after the entry is deleted';
+COMMENT ON COLUMN volunteer_hours_audit.old_values IS 'Changed columns before the change (whole row for deletes)';
+COMMENT ON COLUMN volunteer_hours_audit.new_values IS 'Changed columns after the change (whole row for inserts)';
+COMMENT ON FUNCTION record_volunteer_hours_audit IS 'Writes a volunteer_hours_audit row for each insert, update and delete (internal)';
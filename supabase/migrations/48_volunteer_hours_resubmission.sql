@@ -0,0 +1,183 @@
+-- Migration: Revise and resubmit rejected volunteer hours
+-- A member can answer a rejection by submitting a revised copy of the entry.
+-- The revision is a new pending row that points back at the rejected one
+-- through previous_version_id, so the original submission and its rejection
+-- reason stay intact and reviewers can compare the two. Each rejected entry
+-- can be resubmitted once; the revision itself can be resubmitted again if it
+-- is also rejected.
+
+-- 1. Version link
+ALTER TABLE volunteer_hours
+  ADD COLUMN IF NOT EXISTS previous_version_id UUID REFERENCES volunteer_hours(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_volunteer_hours_previous_version
+  ON volunteer_hours(previous_version_id)
+  WHERE previous_version_id IS NOT NULL;
+
+-- 2. Resubmit function
+CREATE OR REPLACE FUNCTION resubmit_volunteer_hours(
+    p_hour_id UUID,
+    p_hours NUMERIC,
+    p_activity_date DATE,
+    p_description TEXT,
+    p_event_id UUID DEFAULT NULL,
+    p_image_url TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    hour_row volunteer_hours;
+    new_hour_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    SELECT * INTO hour_row
+    FROM volunteer_hours
+    WHERE id = p_hour_id
+    FOR UPDATE;
+
+    IF hour_row.id IS NULL OR hour_row.member_id <> auth.uid() THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'Volunteer hour record not found'
+        );
+    END IF;
+
+    IF hour_row.status::TEXT <> 'rejected' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_rejected',
+            'message', 'Only rejected volunteer hours can be resubmitted'
+        );
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM volunteer_hours WHERE previous_version_id = p_hour_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_resubmitted',
+            'message', 'These volunteer hours have already been resubmitted'
+        );
+    END IF;
+
+    IF p_hours IS NULL OR p_hours <= 0 OR p_hours > 24 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_hours',
+            'message', 'Hours must be greater than 0 and no more than 24'
+        );
+    END IF;
+
+    INSERT INTO volunteer_hours (
+        member_id, org_id, hours, description, activity_date, event_id,
+        image_url, status, approved, submitted_at, previous_version_id
+    ) VALUES (
+        hour_row.member_id, hour_row.org_id, p_hours, p_description,
+        COALESCE(p_activity_date, CURRENT_DATE), p_event_id,
+        COALESCE(p_image_url, hour_row.image_url), 'pending', false, NOW(), hour_row.id
+    )
+    RETURNING id INTO new_hour_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'hour_id', new_hour_id,
+        'previous_version_id', hour_row.id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Audit trail
+ALTER TABLE volunteer_hours_audit DROP CONSTRAINT IF EXISTS volunteer_hours_audit_action_check;
+ALTER TABLE volunteer_hours_audit ADD CONSTRAINT volunteer_hours_audit_action_check
+  CHECK (action IN ('created', 'resubmitted', 'edited', 'officer_approved', 'approved', 'rejected', 'deleted'));
+
+CREATE OR REPLACE FUNCTION record_volunteer_hours_audit()
+RETURNS TRIGGER AS $$
+DECLARE
+    audit_action TEXT;
+    changed_old JSONB;
+    changed_new JSONB;
+    audit_metadata JSONB := '{}'::JSONB;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO volunteer_hours_audit (
+            volunteer_hour_id, org_id, member_id, action, performed_by,
+            new_status, new_values, metadata
+        ) VALUES (
+            NEW.id, NEW.org_id, NEW.member_id,
+            CASE WHEN NEW.previous_version_id IS NULL THEN 'created' ELSE 'resubmitted' END,
+            COALESCE(auth.uid(), NEW.member_id),
+            NEW.status::TEXT, to_jsonb(NEW),
+            jsonb_strip_nulls(jsonb_build_object('previous_version_id', NEW.previous_version_id))
+        );
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        -- Cascaded deletes of the organization or member take the history with them
+        IF NOT EXISTS (SELECT 1 FROM organizations WHERE id = OLD.org_id)
+            OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = OLD.member_id) THEN
+            RETURN OLD;
+        END IF;
+
+        INSERT INTO volunteer_hours_audit (
+            volunteer_hour_id, org_id, member_id, action, performed_by,
+            previous_status, old_values
+        ) VALUES (
+            OLD.id, OLD.org_id, OLD.member_id, 'deleted', auth.uid(),
+            OLD.status::TEXT, to_jsonb(OLD)
+        );
+        RETURN OLD;
+    END IF;
+
+    -- Only the columns that changed are kept for edits and reviews
+    SELECT jsonb_object_agg(n.key, o.value), jsonb_object_agg(n.key, n.value)
+    INTO changed_old, changed_new
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value;
+
+    IF changed_new IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status::TEXT = 'officer_approved' THEN
+        audit_action := 'officer_approved';
+        audit_metadata := jsonb_build_object('approval_step', 'first');
+    ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status::TEXT = 'verified' THEN
+        audit_action := 'approved';
+        audit_metadata := jsonb_build_object(
+            'approval_step', CASE WHEN OLD.status::TEXT = 'officer_approved' THEN 'second' ELSE 'single' END,
+            'first_approved_by', OLD.first_approved_by
+        );
+    ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status::TEXT = 'rejected' THEN
+        audit_action := 'rejected';
+        audit_metadata := jsonb_build_object('first_approved_by', OLD.first_approved_by);
+    ELSE
+        audit_action := 'edited';
+    END IF;
+
+    INSERT INTO volunteer_hours_audit (
+        volunteer_hour_id, org_id, member_id, action, performed_by,
+        previous_status, new_status, rejection_reason, old_values, new_values, metadata
+    ) VALUES (
+        NEW.id, NEW.org_id, NEW.member_id, audit_action, auth.uid(),
+        OLD.status::TEXT, NEW.status::TEXT,
+        CASE WHEN audit_action = 'rejected' THEN NEW.rejection_reason END,
+        changed_old, changed_new, jsonb_strip_nulls(audit_metadata)
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Permissions
+GRANT EXECUTE ON FUNCTION resubmit_volunteer_hours(UUID, NUMERIC, DATE, TEXT, UUID, TEXT) TO authenticated;
+
+-- 5. Comments
+COMMENT ON COLUMN volunteer_hours.previous_version_id IS 'Rejected entry this submission revises, if any';
+COMMENT ON FUNCTION resubmit_volunteer_hours IS 'Creates a pending revision of the caller''s rejected volunteer hours entry, linked to the original';
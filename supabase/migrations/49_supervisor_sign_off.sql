@@ -0,0 +1,290 @@
+-- Migration: External supervisor sign-off for volunteer hours
+-- Members can name the supervisor of an external activity. The
+-- supervisor-sign-off edge function emails that supervisor a single-use link
+-- to a confirmation page; the supervisor's confirmation or denial is stored on
+-- the volunteer_hours row so officers can weigh it during review. Link tokens
+-- are stored hashed and are only issued, read and consumed by the functions
+-- below, which only the service role can call. The supervisor columns can only
+-- be changed through those functions, so members cannot confirm their own hours.
+
+-- 1. Supervisor columns
+ALTER TABLE volunteer_hours
+  ADD COLUMN IF NOT EXISTS supervisor_name TEXT,
+  ADD COLUMN IF NOT EXISTS supervisor_email TEXT,
+  ADD COLUMN IF NOT EXISTS supervisor_status TEXT CHECK (supervisor_status IN ('requested', 'confirmed', 'denied')),
+  ADD COLUMN IF NOT EXISTS supervisor_requested_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS supervisor_responded_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS supervisor_comment TEXT;
+
+-- 2. Sign-off tokens
+CREATE TABLE IF NOT EXISTS supervisor_sign_off_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  volunteer_hour_id UUID NOT NULL REFERENCES volunteer_hours(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  supervisor_email TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '14 days',
+  used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_supervisor_sign_off_tokens_hour
+  ON supervisor_sign_off_tokens(volunteer_hour_id, created_at DESC);
+
+-- No policies: tokens are only read and written by the functions below
+ALTER TABLE supervisor_sign_off_tokens ENABLE ROW LEVEL SECURITY;
+
+-- 3. Only the sign-off functions below may change the supervisor columns.
+-- They run as the function owner; members writing through the API run as
+-- anon or authenticated.
+CREATE OR REPLACE FUNCTION protect_volunteer_hours_supervisor_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.supervisor_name IS NOT NULL
+            OR NEW.supervisor_email IS NOT NULL
+            OR NEW.supervisor_status IS NOT NULL
+            OR NEW.supervisor_requested_at IS NOT NULL
+            OR NEW.supervisor_responded_at IS NOT NULL
+            OR NEW.supervisor_comment IS NOT NULL THEN
+            RAISE EXCEPTION 'Supervisor sign-off can only be requested through the sign-off link' USING ERRCODE = '42501';
+        END IF;
+    ELSIF NEW.supervisor_name IS DISTINCT FROM OLD.supervisor_name
+        OR NEW.supervisor_email IS DISTINCT FROM OLD.supervisor_email
+        OR NEW.supervisor_status IS DISTINCT FROM OLD.supervisor_status
+        OR NEW.supervisor_requested_at IS DISTINCT FROM OLD.supervisor_requested_at
+        OR NEW.supervisor_responded_at IS DISTINCT FROM OLD.supervisor_responded_at
+        OR NEW.supervisor_comment IS DISTINCT FROM OLD.supervisor_comment THEN
+        RAISE EXCEPTION 'Supervisor sign-off can only be changed through the sign-off link' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS volunteer_hours_supervisor_columns_trigger ON volunteer_hours;
+CREATE TRIGGER volunteer_hours_supervisor_columns_trigger
+    BEFORE INSERT OR UPDATE ON volunteer_hours
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_volunteer_hours_supervisor_columns();
+
+-- 4. Issue a sign-off link for a member's entry (called by the edge function
+-- with the service role after it has authenticated the member)
+CREATE OR REPLACE FUNCTION create_supervisor_sign_off_token(
+    p_member_id UUID,
+    p_hour_id UUID,
+    p_supervisor_name TEXT,
+    p_supervisor_email TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    hour_row volunteer_hours;
+    raw_token TEXT;
+    token_expires_at TIMESTAMPTZ;
+    member_name TEXT;
+    org_name TEXT;
+BEGIN
+    IF p_member_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    SELECT * INTO hour_row
+    FROM volunteer_hours
+    WHERE id = p_hour_id
+    FOR UPDATE;
+
+    IF hour_row.id IS NULL OR hour_row.member_id <> p_member_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'Volunteer hour record not found'
+        );
+    END IF;
+
+    IF hour_row.event_id IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_external',
+            'message', 'Supervisor sign-off is only available for external activities'
+        );
+    END IF;
+
+    IF hour_row.status::TEXT NOT IN ('pending', 'officer_approved') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_reviewed',
+            'message', 'These volunteer hours have already been reviewed'
+        );
+    END IF;
+
+    IF hour_row.supervisor_status IN ('confirmed', 'denied') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_responded',
+            'message', 'The supervisor has already responded'
+        );
+    END IF;
+
+    IF COALESCE(TRIM(p_supervisor_name), '') = ''
+        OR p_supervisor_email !~* '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_supervisor',
+            'message', 'Enter the supervisor''s name and a valid email address'
+        );
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM supervisor_sign_off_tokens
+        WHERE volunteer_hour_id = p_hour_id
+        AND created_at > NOW() - INTERVAL '5 minutes'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'recently_sent',
+            'message', 'A sign-off request was just sent. Please wait a few minutes before resending.'
+        );
+    END IF;
+
+    -- Only the newest link works
+    DELETE FROM supervisor_sign_off_tokens
+    WHERE volunteer_hour_id = p_hour_id
+    AND used_at IS NULL;
+
+    raw_token := encode(extensions.gen_random_bytes(32), 'hex');
+
+    INSERT INTO supervisor_sign_off_tokens (volunteer_hour_id, token_hash, supervisor_email)
+    VALUES (p_hour_id, encode(extensions.digest(raw_token, 'sha256'), 'hex'), LOWER(TRIM(p_supervisor_email)))
+    RETURNING expires_at INTO token_expires_at;
+
+    UPDATE volunteer_hours
+    SET supervisor_name = TRIM(p_supervisor_name),
+        supervisor_email = LOWER(TRIM(p_supervisor_email)),
+        supervisor_status = 'requested',
+        supervisor_requested_at = NOW()
+    WHERE id = p_hour_id;
+
+    SELECT COALESCE(NULLIF(TRIM(p.display_name), ''), TRIM(CONCAT(p.first_name, ' ', p.last_name)))
+    INTO member_name
+    FROM profiles p
+    WHERE p.id = hour_row.member_id;
+
+    SELECT o.name INTO org_name FROM organizations o WHERE o.id = hour_row.org_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'token', raw_token,
+        'expires_at', token_expires_at,
+        'supervisor_name', TRIM(p_supervisor_name),
+        'supervisor_email', LOWER(TRIM(p_supervisor_email)),
+        'member_name', member_name,
+        'org_name', org_name,
+        'hours', hour_row.hours,
+        'activity_date', hour_row.activity_date,
+        'description', hour_row.description
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Details behind a sign-off link (called by the edge function for the confirmation page)
+CREATE OR REPLACE FUNCTION get_supervisor_sign_off(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    token_row supervisor_sign_off_tokens;
+    hour_row volunteer_hours;
+    member_name TEXT;
+    org_name TEXT;
+BEGIN
+    SELECT * INTO token_row
+    FROM supervisor_sign_off_tokens
+    WHERE token_hash = encode(extensions.digest(p_token, 'sha256'), 'hex');
+
+    IF token_row.id IS NULL OR token_row.used_at IS NOT NULL OR token_row.expires_at < NOW() THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_token',
+            'message', 'This link has expired or has already been used'
+        );
+    END IF;
+
+    SELECT * INTO hour_row FROM volunteer_hours WHERE id = token_row.volunteer_hour_id;
+
+    SELECT COALESCE(NULLIF(TRIM(p.display_name), ''), TRIM(CONCAT(p.first_name, ' ', p.last_name)))
+    INTO member_name
+    FROM profiles p
+    WHERE p.id = hour_row.member_id;
+
+    SELECT o.name INTO org_name FROM organizations o WHERE o.id = hour_row.org_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'supervisor_name', hour_row.supervisor_name,
+        'member_name', member_name,
+        'org_name', org_name,
+        'hours', hour_row.hours,
+        'activity_date', hour_row.activity_date,
+        'description', hour_row.description
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Record the supervisor's answer and consume the link
+CREATE OR REPLACE FUNCTION respond_to_supervisor_sign_off(
+    p_token TEXT,
+    p_confirmed BOOLEAN,
+    p_comment TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    token_row supervisor_sign_off_tokens;
+BEGIN
+    SELECT * INTO token_row
+    FROM supervisor_sign_off_tokens
+    WHERE token_hash = encode(extensions.digest(p_token, 'sha256'), 'hex')
+    FOR UPDATE;
+
+    IF token_row.id IS NULL OR token_row.used_at IS NOT NULL OR token_row.expires_at < NOW() THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_token',
+            'message', 'This link has expired or has already been used'
+        );
+    END IF;
+
+    UPDATE supervisor_sign_off_tokens
+    SET used_at = NOW()
+    WHERE id = token_row.id;
+
+    UPDATE volunteer_hours
+    SET supervisor_status = CASE WHEN p_confirmed THEN 'confirmed' ELSE 'denied' END,
+        supervisor_responded_at = NOW(),
+        supervisor_comment = NULLIF(LEFT(TRIM(p_comment), 500), '')
+    WHERE id = token_row.volunteer_hour_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'status', CASE WHEN p_confirmed THEN 'confirmed' ELSE 'denied' END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Permissions
+-- Tokens are only issued and looked up by the edge function with the service role
+REVOKE EXECUTE ON FUNCTION create_supervisor_sign_off_token(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_supervisor_sign_off(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION respond_to_supervisor_sign_off(TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_supervisor_sign_off_token(UUID, UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION get_supervisor_sign_off(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION respond_to_supervisor_sign_off(TEXT, BOOLEAN, TEXT) TO service_role;
+
+-- 8. Comments
+COMMENT ON COLUMN volunteer_hours.supervisor_status IS 'External supervisor sign-off: requested, confirmed or denied';
+COMMENT ON TABLE supervisor_sign_off_tokens IS 'Single-use, hashed links emailed to external supervisors';
+COMMENT ON FUNCTION create_supervisor_sign_off_token IS 'Issues a new sign-off link for a member''s external volunteer hours and records the supervisor (service role only)';
+COMMENT ON FUNCTION get_supervisor_sign_off IS 'Entry details for a valid sign-off link (service role only)';
+COMMENT ON FUNCTION respond_to_supervisor_sign_off IS 'Records a supervisor''s confirmation or denial and consumes the link (service role only)';
@@ -0,0 +1,326 @@
+-- Migration: Officer-managed verification codes
+-- Officers mint signup codes for their organization from the app instead of
+-- inserting rows by hand. Each code grants a role, can be redeemed up to
+-- max_uses times, expires, and can be bound to a single email address.
+-- Every redemption is recorded so officers can see who joined with a code,
+-- and a code can be revoked at any time. The signupPublic and
+-- onboard-user-atomic edge functions check and redeem codes through the
+-- service-role functions below, so the rules live in one place.
+
+-- 1. Code columns
+ALTER TABLE verification_codes
+  ADD COLUMN IF NOT EXISTS granted_role TEXT CHECK (granted_role IN ('member', 'officer')),
+  ADD COLUMN IF NOT EXISTS max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  ADD COLUMN IF NOT EXISTS use_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS bound_email TEXT,
+  ADD COLUMN IF NOT EXISTS label TEXT,
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Existing rows keep their behaviour: member and officer codes are bound to
+-- that role, general codes accept either, and used codes count as spent
+UPDATE verification_codes
+SET granted_role = CASE code_type WHEN 'member' THEN 'member' WHEN 'officer' THEN 'officer' END,
+    use_count = CASE WHEN is_used THEN 1 ELSE 0 END,
+    max_uses = 1
+WHERE max_uses IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_verification_codes_code ON verification_codes(code);
+
+-- 2. Redemptions
+CREATE TABLE IF NOT EXISTS verification_code_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code_id UUID NOT NULL REFERENCES verification_codes(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL,
+  redeemed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_verification_code_redemptions_code
+  ON verification_code_redemptions(code_id, redeemed_at DESC);
+
+ALTER TABLE verification_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "officers_view_code_redemptions" ON verification_code_redemptions;
+CREATE POLICY "officers_view_code_redemptions" ON verification_code_redemptions
+    FOR SELECT
+    USING (public.is_officer_of(org_id));
+
+-- Members could read every code in their organization, including unused
+-- officer codes; codes are now only checked by the edge functions
+DROP POLICY IF EXISTS "members_validate_org_codes" ON verification_codes;
+
+-- 3. Shared rule check
+CREATE OR REPLACE FUNCTION verification_code_rejection(
+    code_row verification_codes,
+    p_org_id UUID,
+    p_email TEXT,
+    p_role TEXT
+) RETURNS TEXT AS $$
+BEGIN
+    IF code_row.id IS NULL OR code_row.org_id <> p_org_id THEN
+        RETURN 'Invalid verification code';
+    END IF;
+
+    IF code_row.revoked_at IS NOT NULL THEN
+        RETURN 'This verification code has been revoked';
+    END IF;
+
+    IF code_row.expires_at IS NOT NULL AND code_row.expires_at < NOW() THEN
+        RETURN 'Verification code has expired';
+    END IF;
+
+    IF code_row.max_uses IS NOT NULL AND code_row.use_count >= code_row.max_uses THEN
+        RETURN 'This verification code has already been used';
+    END IF;
+
+    IF code_row.bound_email IS NOT NULL
+        AND LOWER(code_row.bound_email) <> LOWER(TRIM(COALESCE(p_email, ''))) THEN
+        RETURN 'This verification code was issued for a different email address';
+    END IF;
+
+    IF code_row.granted_role = 'member' AND p_role <> 'member' THEN
+        RETURN 'This verification code is only valid for member accounts';
+    END IF;
+
+    IF code_row.granted_role = 'officer' AND p_role = 'member' THEN
+        RETURN 'This verification code is only valid for officer accounts';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- 4. Check a code before creating an account (service role only)
+CREATE OR REPLACE FUNCTION check_verification_code(
+    p_code TEXT,
+    p_org_id UUID,
+    p_email TEXT,
+    p_role TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    code_row verification_codes;
+    rejection TEXT;
+BEGIN
+    SELECT * INTO code_row
+    FROM verification_codes
+    WHERE code = TRIM(p_code)
+    AND org_id = p_org_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    rejection := verification_code_rejection(code_row, p_org_id, p_email, p_role);
+
+    IF rejection IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_code',
+            'message', rejection
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'code_id', code_row.id,
+        'role', COALESCE(code_row.granted_role, p_role)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Redeem a code for a newly created account (service role only)
+CREATE OR REPLACE FUNCTION redeem_verification_code(
+    p_code TEXT,
+    p_org_id UUID,
+    p_email TEXT,
+    p_role TEXT,
+    p_user_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+    code_row verification_codes;
+    rejection TEXT;
+    granted TEXT;
+BEGIN
+    -- Locking the row keeps concurrent signups from going past max_uses
+    SELECT * INTO code_row
+    FROM verification_codes
+    WHERE code = TRIM(p_code)
+    AND org_id = p_org_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    rejection := verification_code_rejection(code_row, p_org_id, p_email, p_role);
+
+    IF rejection IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_code',
+            'message', rejection
+        );
+    END IF;
+
+    granted := COALESCE(code_row.granted_role, p_role);
+
+    UPDATE verification_codes
+    SET use_count = use_count + 1,
+        is_used = max_uses IS NOT NULL AND use_count + 1 >= max_uses,
+        used_by = p_user_id,
+        used_at = NOW()
+    WHERE id = code_row.id;
+
+    INSERT INTO verification_code_redemptions (code_id, org_id, user_id, email, role)
+    VALUES (code_row.id, code_row.org_id, p_user_id, LOWER(TRIM(p_email)), granted);
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'code_id', code_row.id,
+        'role', granted
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Officers mint codes for their organization
+CREATE OR REPLACE FUNCTION create_verification_code(
+    p_org_id UUID,
+    p_granted_role TEXT,
+    p_max_uses INTEGER,
+    p_expires_at TIMESTAMPTZ,
+    p_bound_email TEXT DEFAULT NULL,
+    p_label TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    -- No 0/O or 1/I so codes can be read aloud and typed from paper
+    alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    random_bytes BYTEA;
+    new_code TEXT;
+    new_row verification_codes;
+BEGIN
+    IF NOT public.is_officer_of(p_org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'Only officers can create verification codes'
+        );
+    END IF;
+
+    IF p_granted_role NOT IN ('member', 'officer') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_role',
+            'message', 'Codes can grant the member or officer role'
+        );
+    END IF;
+
+    IF p_max_uses IS NULL OR p_max_uses < 1 OR p_max_uses > 500 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_max_uses',
+            'message', 'Max uses must be between 1 and 500'
+        );
+    END IF;
+
+    IF p_expires_at IS NULL OR p_expires_at <= NOW() OR p_expires_at > NOW() + INTERVAL '1 year' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_expiry',
+            'message', 'Expiry must be in the future and within one year'
+        );
+    END IF;
+
+    IF NULLIF(TRIM(p_bound_email), '') IS NOT NULL
+        AND p_bound_email !~* '^\s*[^\s@]+@[^\s@]+\.[^\s@]+\s*$' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_email',
+            'message', 'Enter a valid email address or leave it blank'
+        );
+    END IF;
+
+    LOOP
+        random_bytes := extensions.gen_random_bytes(8);
+        new_code := '';
+        FOR i IN 0..7 LOOP
+            new_code := new_code || substr(alphabet, 1 + (get_byte(random_bytes, i) % length(alphabet)), 1);
+        END LOOP;
+
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM verification_codes WHERE code = new_code AND org_id = p_org_id);
+    END LOOP;
+
+    INSERT INTO verification_codes (
+        org_id, code, code_type, granted_role, max_uses, expires_at,
+        bound_email, label, created_by, is_used
+    ) VALUES (
+        p_org_id, new_code, p_granted_role, p_granted_role, p_max_uses, p_expires_at,
+        LOWER(NULLIF(TRIM(p_bound_email), '')), NULLIF(LEFT(TRIM(p_label), 100), ''), auth.uid(), false
+    )
+    RETURNING * INTO new_row;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'code_id', new_row.id,
+        'code', new_row.code
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Officers revoke codes
+CREATE OR REPLACE FUNCTION revoke_verification_code(p_code_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    code_row verification_codes;
+BEGIN
+    SELECT * INTO code_row
+    FROM verification_codes
+    WHERE id = p_code_id
+    FOR UPDATE;
+
+    IF code_row.id IS NULL OR NOT public.is_officer_of(code_row.org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'Verification code not found'
+        );
+    END IF;
+
+    IF code_row.revoked_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_revoked',
+            'message', 'This verification code has already been revoked'
+        );
+    END IF;
+
+    UPDATE verification_codes
+    SET revoked_at = NOW(),
+        revoked_by = auth.uid()
+    WHERE id = p_code_id;
+
+    RETURN jsonb_build_object('success', true, 'code_id', p_code_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Permissions
+GRANT SELECT ON verification_code_redemptions TO authenticated;
+GRANT EXECUTE ON FUNCTION create_verification_code(UUID, TEXT, INTEGER, TIMESTAMPTZ, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_verification_code(UUID) TO authenticated;
+-- Checking and redeeming are only done by the signup edge functions with the service role
+REVOKE EXECUTE ON FUNCTION verification_code_rejection(verification_codes, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_verification_code(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redeem_verification_code(TEXT, UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_verification_code(TEXT, UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION redeem_verification_code(TEXT, UUID, TEXT, TEXT, UUID) TO service_role;
+
+-- 9. Comments
+COMMENT ON COLUMN verification_codes.granted_role IS 'Role an account receives when signing up with this code (NULL = requested role)';
+COMMENT ON COLUMN verification_codes.max_uses IS 'How many accounts can sign up with this code';
+COMMENT ON COLUMN verification_codes.use_count IS 'How many accounts have signed up with this code';
+COMMENT ON COLUMN verification_codes.bound_email IS 'Only this email address can redeem the code, if set';
+COMMENT ON COLUMN verification_codes.revoked_at IS 'When an officer revoked the code; revoked codes cannot be redeemed';
+COMMENT ON TABLE verification_code_redemptions IS 'Accounts created with each verification code';
+COMMENT ON FUNCTION check_verification_code IS 'Checks a code against its expiry, usage cap, bound email and role (service role only)';
+COMMENT ON FUNCTION redeem_verification_code IS 'Records a redemption and counts it against the code''s usage cap (service role only)';
+COMMENT ON FUNCTION create_verification_code IS 'Mints a random verification code for the officer''s organization';
+COMMENT ON FUNCTION revoke_verification_code IS 'Revokes a verification code so it can no longer be redeemed';
@@ -0,0 +1,282 @@
+-- Migration: Shared rate limiting for sign-in and sign-up
+-- The signin, loginPublic and signupPublic edge functions used to keep rate
+-- limit counters in isolate memory, which reset whenever an isolate recycled
+-- and were not shared between isolates. Attempts and lockouts now live in
+-- Postgres. Each attempt is checked against a sliding window per IP address
+-- and per email; repeated failures lock the email (or IP) out for a period
+-- that doubles with each lockout. Officers can lift a lockout for an email
+-- that belongs to one of their members.
+
+-- 1. Attempt log (sliding windows are counted from here)
+CREATE TABLE IF NOT EXISTS auth_rate_limit_events (
+  id BIGSERIAL PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('ip', 'email')),
+  identifier TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('signin', 'signup')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_rate_limit_events_lookup
+  ON auth_rate_limit_events(scope, identifier, action, created_at DESC);
+
+-- 2. Failure counters and lockouts
+CREATE TABLE IF NOT EXISTS auth_lockouts (
+  scope TEXT NOT NULL CHECK (scope IN ('ip', 'email')),
+  identifier TEXT NOT NULL,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  lockout_level INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  last_failure_at TIMESTAMPTZ,
+  PRIMARY KEY (scope, identifier)
+);
+
+-- No policies: both tables are only read and written by the functions below
+ALTER TABLE auth_rate_limit_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auth_lockouts ENABLE ROW LEVEL SECURITY;
+
+-- 3. Check and count an attempt (called by the edge functions before authenticating)
+CREATE OR REPLACE FUNCTION check_auth_rate_limit(
+    p_action TEXT,
+    p_ip TEXT,
+    p_email TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    email_key TEXT := NULLIF(LOWER(TRIM(p_email)), '');
+    ip_limit INTEGER;
+    ip_window INTERVAL;
+    email_limit INTEGER;
+    email_window INTERVAL;
+    lockout auth_lockouts;
+    oldest_counted TIMESTAMPTZ;
+BEGIN
+    IF p_action = 'signup' THEN
+        ip_limit := 5;
+        ip_window := INTERVAL '1 hour';
+        email_limit := 3;
+        email_window := INTERVAL '1 hour';
+    ELSE
+        ip_limit := 10;
+        ip_window := INTERVAL '1 minute';
+        email_limit := 5;
+        email_window := INTERVAL '15 minutes';
+    END IF;
+
+    -- Lockouts from repeated failures take precedence over the windows
+    SELECT * INTO lockout
+    FROM auth_lockouts
+    WHERE locked_until > NOW()
+    AND ((scope = 'ip' AND identifier = p_ip) OR (scope = 'email' AND identifier = email_key))
+    ORDER BY locked_until DESC
+    LIMIT 1;
+
+    IF lockout.scope IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'allowed', false,
+            'scope', lockout.scope,
+            'reason', 'locked',
+            'retry_after', CEIL(EXTRACT(EPOCH FROM lockout.locked_until - NOW()))::INTEGER
+        );
+    END IF;
+
+    -- The attempt that would exceed the limit waits until the oldest counted one leaves the window
+    IF p_ip IS NOT NULL THEN
+        SELECT created_at INTO oldest_counted
+        FROM auth_rate_limit_events
+        WHERE scope = 'ip' AND identifier = p_ip AND action = p_action
+        AND created_at > NOW() - ip_window
+        ORDER BY created_at DESC
+        OFFSET ip_limit - 1
+        LIMIT 1;
+
+        IF oldest_counted IS NOT NULL THEN
+            RETURN jsonb_build_object(
+                'allowed', false,
+                'scope', 'ip',
+                'reason', 'rate_limited',
+                'retry_after', GREATEST(1, CEIL(EXTRACT(EPOCH FROM oldest_counted + ip_window - NOW()))::INTEGER)
+            );
+        END IF;
+    END IF;
+
+    IF email_key IS NOT NULL THEN
+        SELECT created_at INTO oldest_counted
+        FROM auth_rate_limit_events
+        WHERE scope = 'email' AND identifier = email_key AND action = p_action
+        AND created_at > NOW() - email_window
+        ORDER BY created_at DESC
+        OFFSET email_limit - 1
+        LIMIT 1;
+
+        IF oldest_counted IS NOT NULL THEN
+            RETURN jsonb_build_object(
+                'allowed', false,
+                'scope', 'email',
+                'reason', 'rate_limited',
+                'retry_after', GREATEST(1, CEIL(EXTRACT(EPOCH FROM oldest_counted + email_window - NOW()))::INTEGER)
+            );
+        END IF;
+    END IF;
+
+    IF p_ip IS NOT NULL THEN
+        INSERT INTO auth_rate_limit_events (scope, identifier, action) VALUES ('ip', p_ip, p_action);
+    END IF;
+
+    IF email_key IS NOT NULL THEN
+        INSERT INTO auth_rate_limit_events (scope, identifier, action) VALUES ('email', email_key, p_action);
+    END IF;
+
+    -- Nothing looks back further than a day
+    DELETE FROM auth_rate_limit_events WHERE created_at < NOW() - INTERVAL '1 day';
+
+    RETURN jsonb_build_object('allowed', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Record the outcome of an attempt
+CREATE OR REPLACE FUNCTION record_auth_attempt(
+    p_ip TEXT,
+    p_email TEXT,
+    p_succeeded BOOLEAN
+) RETURNS JSONB AS $$
+DECLARE
+    email_key TEXT := NULLIF(LOWER(TRIM(p_email)), '');
+    target RECORD;
+    lockout auth_lockouts;
+    lock_minutes INTEGER;
+    locked_until_result TIMESTAMPTZ;
+BEGIN
+    IF p_succeeded THEN
+        DELETE FROM auth_lockouts
+        WHERE (scope = 'ip' AND identifier = p_ip)
+        OR (scope = 'email' AND identifier = email_key);
+
+        RETURN jsonb_build_object('success', true);
+    END IF;
+
+    -- Emails lock after 5 consecutive failures, IPs (which may be shared) after 20
+    FOR target IN
+        SELECT 'email'::TEXT AS scope, email_key AS identifier, 5 AS threshold WHERE email_key IS NOT NULL
+        UNION ALL
+        SELECT 'ip'::TEXT, p_ip, 20 WHERE p_ip IS NOT NULL
+    LOOP
+        INSERT INTO auth_lockouts (scope, identifier)
+        VALUES (target.scope, target.identifier)
+        ON CONFLICT (scope, identifier) DO NOTHING;
+
+        SELECT * INTO lockout
+        FROM auth_lockouts
+        WHERE scope = target.scope AND identifier = target.identifier
+        FOR UPDATE;
+
+        -- A day without failures starts the escalation over
+        IF lockout.last_failure_at < NOW() - INTERVAL '1 day' THEN
+            lockout.failure_count := 0;
+            lockout.lockout_level := 0;
+        END IF;
+
+        lockout.failure_count := lockout.failure_count + 1;
+
+        IF lockout.failure_count >= target.threshold THEN
+            -- 5, 10, 20, 40 ... minutes, capped at a day
+            lock_minutes := LEAST(5 * POWER(2, LEAST(lockout.lockout_level, 9))::INTEGER, 1440);
+            lockout.locked_until := NOW() + make_interval(mins => lock_minutes);
+            lockout.lockout_level := lockout.lockout_level + 1;
+            lockout.failure_count := 0;
+            locked_until_result := GREATEST(locked_until_result, lockout.locked_until);
+        END IF;
+
+        UPDATE auth_lockouts
+        SET failure_count = lockout.failure_count,
+            lockout_level = lockout.lockout_level,
+            locked_until = lockout.locked_until,
+            last_failure_at = NOW()
+        WHERE scope = target.scope AND identifier = target.identifier;
+    END LOOP;
+
+    RETURN jsonb_strip_nulls(jsonb_build_object(
+        'success', true,
+        'locked_until', locked_until_result
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Locked accounts among an organization's members (officers only)
+CREATE OR REPLACE FUNCTION get_locked_accounts(p_org_id UUID)
+RETURNS TABLE (
+    member_id UUID,
+    member_name TEXT,
+    email TEXT,
+    locked_until TIMESTAMPTZ,
+    lockout_level INTEGER
+) AS $$
+BEGIN
+    IF NOT public.is_officer_of(p_org_id) THEN
+        RAISE EXCEPTION 'Only officers can view locked accounts' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        COALESCE(NULLIF(TRIM(p.display_name), ''), TRIM(CONCAT(p.first_name, ' ', p.last_name))),
+        l.identifier,
+        l.locked_until,
+        l.lockout_level
+    FROM auth_lockouts l
+    JOIN profiles p ON LOWER(p.email) = l.identifier
+    JOIN memberships m ON m.user_id = p.id AND m.org_id = p_org_id AND m.is_active = true
+    WHERE l.scope = 'email'
+    AND l.locked_until > NOW()
+    ORDER BY l.locked_until DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- 6. Lift a member's lockout (officers only)
+CREATE OR REPLACE FUNCTION unlock_auth_account(p_org_id UUID, p_email TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    email_key TEXT := LOWER(TRIM(p_email));
+BEGIN
+    IF NOT public.is_officer_of(p_org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'Only officers can unlock accounts'
+        );
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1
+        FROM profiles p
+        JOIN memberships m ON m.user_id = p.id AND m.org_id = p_org_id AND m.is_active = true
+        WHERE LOWER(p.email) = email_key
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'No member of this organization uses that email'
+        );
+    END IF;
+
+    DELETE FROM auth_lockouts WHERE scope = 'email' AND identifier = email_key;
+    DELETE FROM auth_rate_limit_events WHERE scope = 'email' AND identifier = email_key;
+
+    RETURN jsonb_build_object('success', true, 'email', email_key);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Permissions
+GRANT EXECUTE ON FUNCTION get_locked_accounts(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION unlock_auth_account(UUID, TEXT) TO authenticated;
+-- Attempts are only checked and recorded by the auth edge functions with the service role
+REVOKE EXECUTE ON FUNCTION check_auth_rate_limit(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_auth_attempt(TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_auth_rate_limit(TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION record_auth_attempt(TEXT, TEXT, BOOLEAN) TO service_role;
+
+-- 8. Comments
+COMMENT ON TABLE auth_rate_limit_events IS 'Sign-in and sign-up attempts per IP and email, kept for a day for sliding-window limits';
+COMMENT ON TABLE auth_lockouts IS 'Consecutive failures and escalating lockouts per IP and email';
+COMMENT ON FUNCTION check_auth_rate_limit IS 'Checks lockouts and sliding-window limits for an attempt and counts it if allowed (service role only)';
+COMMENT ON FUNCTION record_auth_attempt IS 'Clears failures on success or counts a failure, locking out with doubling durations (service role only)';
+COMMENT ON FUNCTION get_locked_accounts IS 'Currently locked-out emails that belong to the organization''s members';
+COMMENT ON FUNCTION unlock_auth_account IS 'Clears the lockout and recent attempts for a member''s email';
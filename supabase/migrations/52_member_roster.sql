@@ -0,0 +1,281 @@
+-- Migration: Officer member roster
+-- Officers can list every membership in their organization, see a member's
+-- hours and attendance, promote or demote members and deactivate them.
+-- Memberships are only readable by their owner under RLS, so the roster and
+-- role changes go through officer-checked functions. A role change also
+-- updates the member's default role on their profile, and membership changes
+-- are published over realtime so the member's app picks up the new role
+-- without signing in again.
+
+-- 1. Membership changes are pushed to the affected member's client
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'memberships'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE memberships;
+  END IF;
+END $$;
+
+-- 2. Every membership in an organization, active or not (officers only)
+CREATE OR REPLACE FUNCTION get_member_roster(p_org_id UUID)
+RETURNS TABLE (
+    member_id UUID,
+    member_name TEXT,
+    email TEXT,
+    student_id TEXT,
+    grade TEXT,
+    role TEXT,
+    is_active BOOLEAN,
+    joined_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    IF NOT public.is_officer_of(p_org_id) THEN
+        RAISE EXCEPTION 'Only officers can view the member roster' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        m.user_id,
+        COALESCE(NULLIF(TRIM(CONCAT(p.first_name, ' ', p.last_name)), ''), p.display_name, p.email, 'Unknown Member'),
+        p.email,
+        p.student_id,
+        p.grade::TEXT,
+        m.role::TEXT,
+        m.is_active,
+        m.joined_at
+    FROM memberships m
+    JOIN profiles p ON p.id = m.user_id
+    WHERE m.org_id = p_org_id
+    ORDER BY m.is_active DESC, 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 3. Hours, attendance and recent activity for one member (officers only)
+CREATE OR REPLACE FUNCTION get_member_activity_summary(p_org_id UUID, p_member_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    hours_summary JSONB;
+    attendance_summary JSONB;
+    recent JSONB;
+BEGIN
+    IF NOT public.is_officer_of(p_org_id) THEN
+        RAISE EXCEPTION 'Only officers can view member activity' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM memberships WHERE org_id = p_org_id AND user_id = p_member_id) THEN
+        RAISE EXCEPTION 'Member not found in this organization' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT jsonb_build_object(
+        'verified_hours', COALESCE(SUM(hours) FILTER (WHERE status = 'verified'), 0),
+        'pending_hours', COALESCE(SUM(hours) FILTER (WHERE status IN ('pending', 'officer_approved')), 0),
+        'rejected_count', COUNT(*) FILTER (WHERE status = 'rejected'),
+        'last_submitted_at', MAX(created_at)
+    )
+    INTO hours_summary
+    FROM volunteer_hours
+    WHERE org_id = p_org_id
+    AND member_id = p_member_id;
+
+    SELECT jsonb_build_object(
+        'events_attended', COUNT(DISTINCT a.event_id),
+        'last_attended_at', MAX(a.checkin_time)
+    )
+    INTO attendance_summary
+    FROM attendance a
+    JOIN events e ON e.id = a.event_id
+    WHERE a.member_id = p_member_id
+    AND e.org_id = p_org_id
+    AND COALESCE(a.status, 'present') = 'present';
+
+    SELECT COALESCE(jsonb_agg(item ORDER BY item->>'occurred_at' DESC), '[]'::jsonb)
+    INTO recent
+    FROM (
+        SELECT item
+        FROM (
+            SELECT jsonb_build_object(
+                'type', 'volunteer_hours',
+                'title', COALESCE(vh.description, 'Volunteer hours'),
+                'detail', vh.hours || ' hours, ' || vh.status,
+                'occurred_at', vh.created_at
+            ) AS item
+            FROM volunteer_hours vh
+            WHERE vh.org_id = p_org_id
+            AND vh.member_id = p_member_id
+            UNION ALL
+            SELECT jsonb_build_object(
+                'type', 'attendance',
+                'title', COALESCE(e.title, 'Event'),
+                'detail', 'Checked in',
+                'occurred_at', a.checkin_time
+            )
+            FROM attendance a
+            JOIN events e ON e.id = a.event_id
+            WHERE a.member_id = p_member_id
+            AND e.org_id = p_org_id
+            AND COALESCE(a.status, 'present') = 'present'
+        ) activity
+        ORDER BY item->>'occurred_at' DESC
+        LIMIT 10
+    ) latest;
+
+    RETURN hours_summary || attendance_summary || jsonb_build_object('recent_activity', recent);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 4. Officers can only manage members ranked below them, so an officer
+-- cannot demote or deactivate a fellow officer, the president or an admin
+CREATE OR REPLACE FUNCTION membership_role_rank(p_role TEXT)
+RETURNS INTEGER AS $$
+    SELECT CASE p_role
+        WHEN 'admin' THEN 4
+        WHEN 'president' THEN 3
+        WHEN 'vice_president' THEN 2
+        WHEN 'officer' THEN 1
+        ELSE 0
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION outranks_member(p_org_id UUID, p_member_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE((
+        SELECT membership_role_rank(caller.role) > membership_role_rank(target.role)
+        FROM memberships caller, memberships target
+        WHERE caller.org_id = p_org_id
+        AND caller.user_id = auth.uid()
+        AND caller.is_active = true
+        AND target.org_id = p_org_id
+        AND target.user_id = p_member_id
+        AND target.is_active = true
+    ), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- 5. Promote or demote a member (officers only, never themselves or anyone at or above their rank)
+CREATE OR REPLACE FUNCTION set_member_role(p_org_id UUID, p_member_id UUID, p_role TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    updated memberships%ROWTYPE;
+BEGIN
+    IF NOT public.is_officer_of(p_org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'Only officers can change member roles'
+        );
+    END IF;
+
+    IF p_role NOT IN ('member', 'officer') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_role',
+            'message', 'Role must be member or officer'
+        );
+    END IF;
+
+    IF p_member_id = auth.uid() THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'self_change',
+            'message', 'Ask another officer to change your own role'
+        );
+    END IF;
+
+    IF NOT outranks_member(p_org_id, p_member_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'insufficient_rank',
+            'message', 'You can only change the role of members ranked below you'
+        );
+    END IF;
+
+    UPDATE memberships
+    SET role = p_role
+    WHERE org_id = p_org_id
+    AND user_id = p_member_id
+    AND is_active = true
+    RETURNING * INTO updated;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'Member is not active in this organization'
+        );
+    END IF;
+
+    -- Keep the profile's default role in step when this is the member's default organization
+    UPDATE profiles
+    SET role = p_role, updated_at = NOW()
+    WHERE id = p_member_id
+    AND (org_id = p_org_id OR org_id IS NULL);
+
+    RETURN jsonb_build_object('success', true, 'membership', to_jsonb(updated));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Deactivate a membership (officers only, never their own or anyone at or above their rank)
+CREATE OR REPLACE FUNCTION deactivate_member(p_org_id UUID, p_member_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    updated memberships%ROWTYPE;
+BEGIN
+    IF NOT public.is_officer_of(p_org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'Only officers can deactivate members'
+        );
+    END IF;
+
+    IF p_member_id = auth.uid() THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'self_change',
+            'message', 'You cannot deactivate your own membership'
+        );
+    END IF;
+
+    IF NOT outranks_member(p_org_id, p_member_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'insufficient_rank',
+            'message', 'You can only deactivate members ranked below you'
+        );
+    END IF;
+
+    UPDATE memberships
+    SET is_active = false
+    WHERE org_id = p_org_id
+    AND user_id = p_member_id
+    AND is_active = true
+    RETURNING * INTO updated;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'Member is not active in this organization'
+        );
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'membership', to_jsonb(updated));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Permissions
+REVOKE EXECUTE ON FUNCTION outranks_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_member_roster(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_member_activity_summary(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_member_role(UUID, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION deactivate_member(UUID, UUID) TO authenticated;
+
+-- 8. Comments
+COMMENT ON FUNCTION get_member_roster IS 'Every membership in an organization with profile details, active first (officers only)';
+COMMENT ON FUNCTION get_member_activity_summary IS 'Hour totals, attendance and the ten most recent activities for one member (officers only)';
+COMMENT ON FUNCTION membership_role_rank IS 'Orders membership roles from member (0) to admin (4)';
+COMMENT ON FUNCTION outranks_member IS 'Whether the caller''s role in an organization ranks above an active member''s (internal)';
+COMMENT ON FUNCTION set_member_role IS 'Promotes or demotes another active member ranked below the caller and syncs their profile default role (officers only)';
+COMMENT ON FUNCTION deactivate_member IS 'Soft-deletes the membership of another member ranked below the caller (officers only)';
@@ -0,0 +1,319 @@
+-- Migration: Self-service account deletion and data export
+-- Members can download a copy of their data and ask for their account to be
+-- deleted. Deletion is scheduled 14 days out so it can be cancelled; once due,
+-- the process-account-deletions edge function removes the member's uploaded
+-- images from R2, clears their push token, purges their rows and deletes the
+-- auth user. Requests are kept after the profile is gone as a record that the
+-- deletion ran.
+
+-- 1. Deletion requests
+CREATE TABLE IF NOT EXISTS account_deletion_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled', 'completed')),
+  cancelled_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_deletion_requests_scheduled
+  ON account_deletion_requests(user_id) WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_account_deletion_requests_due
+  ON account_deletion_requests(scheduled_for) WHERE status = 'scheduled';
+
+ALTER TABLE account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "account_deletion_requests_select_own" ON account_deletion_requests;
+CREATE POLICY "account_deletion_requests_select_own" ON account_deletion_requests
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+-- Deleting an officer's auth user used to take their announcements with it
+ALTER TABLE announcements ALTER COLUMN created_by DROP NOT NULL;
+ALTER TABLE announcements DROP CONSTRAINT IF EXISTS announcements_created_by_fkey;
+ALTER TABLE announcements
+  ADD CONSTRAINT announcements_created_by_fkey
+  FOREIGN KEY (created_by) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- 2. Schedule the caller's account for deletion
+CREATE OR REPLACE FUNCTION request_account_deletion()
+RETURNS JSONB AS $$
+DECLARE
+    existing account_deletion_requests%ROWTYPE;
+    created account_deletion_requests%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthenticated',
+            'message', 'Sign in to delete your account'
+        );
+    END IF;
+
+    SELECT * INTO existing
+    FROM account_deletion_requests
+    WHERE user_id = auth.uid()
+    AND status = 'scheduled';
+
+    IF FOUND THEN
+        RETURN jsonb_build_object('success', true, 'request', to_jsonb(existing));
+    END IF;
+
+    INSERT INTO account_deletion_requests (user_id, scheduled_for)
+    VALUES (auth.uid(), NOW() + INTERVAL '14 days')
+    RETURNING * INTO created;
+
+    RETURN jsonb_build_object('success', true, 'request', to_jsonb(created));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Cancel the caller's scheduled deletion
+CREATE OR REPLACE FUNCTION cancel_account_deletion()
+RETURNS JSONB AS $$
+BEGIN
+    UPDATE account_deletion_requests
+    SET status = 'cancelled', cancelled_at = NOW()
+    WHERE user_id = auth.uid()
+    AND status = 'scheduled';
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'Your account is not scheduled for deletion'
+        );
+    END IF;
+
+    RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Everything stored about the caller
+CREATE OR REPLACE FUNCTION export_my_data()
+RETURNS JSONB AS $$
+DECLARE
+    caller UUID := auth.uid();
+BEGIN
+    IF caller IS NULL THEN
+        RAISE EXCEPTION 'Sign in to export your data' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'generated_at', NOW(),
+        'profile', (
+            SELECT to_jsonb(p) - 'expo_push_token' - 'verification_code'
+            FROM profiles p
+            WHERE p.id = caller
+        ),
+        'memberships', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'organization', o.name,
+                'role', m.role,
+                'is_active', m.is_active,
+                'joined_at', m.joined_at
+            ) ORDER BY m.joined_at)
+            FROM memberships m
+            JOIN organizations o ON o.id = m.org_id
+            WHERE m.user_id = caller
+        ), '[]'::jsonb),
+        'attendance', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'event', e.title,
+                'organization', o.name,
+                'checkin_time', a.checkin_time,
+                'checked_out_at', a.checked_out_at,
+                'method', a.method,
+                'status', a.status
+            ) ORDER BY a.checkin_time)
+            FROM attendance a
+            JOIN events e ON e.id = a.event_id
+            LEFT JOIN organizations o ON o.id = e.org_id
+            WHERE a.member_id = caller
+        ), '[]'::jsonb),
+        'volunteer_hours', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', vh.id,
+                'organization', o.name,
+                'activity_date', vh.activity_date,
+                'hours', vh.hours,
+                'description', vh.description,
+                'status', vh.status,
+                'rejection_reason', vh.rejection_reason,
+                'image_path', vh.image_path,
+                'submitted_at', vh.created_at
+            ) ORDER BY vh.created_at)
+            FROM volunteer_hours vh
+            LEFT JOIN organizations o ON o.id = vh.org_id
+            WHERE vh.member_id = caller
+        ), '[]'::jsonb),
+        'event_rsvps', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'event', e.title,
+                'status', r.status,
+                'responded_at', r.responded_at
+            ) ORDER BY r.responded_at)
+            FROM event_rsvps r
+            JOIN events e ON e.id = r.event_id
+            WHERE r.member_id = caller
+        ), '[]'::jsonb)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 5. Deletions whose grace period has passed, with the R2 keys to remove
+CREATE OR REPLACE FUNCTION get_due_account_deletions(p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    request_id UUID,
+    user_id UUID,
+    image_paths TEXT[]
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        r.id,
+        r.user_id,
+        COALESCE((
+            SELECT array_agg(vh.image_path)
+            FROM volunteer_hours vh
+            WHERE vh.member_id = r.user_id
+            AND vh.image_path IS NOT NULL
+        ), ARRAY[]::TEXT[])
+    FROM account_deletion_requests r
+    WHERE r.status = 'scheduled'
+    AND r.scheduled_for <= NOW()
+    ORDER BY r.scheduled_for
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 6. Remove a member's rows; the auth user is deleted afterwards by the edge function.
+-- Safe to run again if deleting the auth user fails.
+CREATE OR REPLACE FUNCTION purge_account_data(p_request_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    target UUID;
+BEGIN
+    SELECT user_id INTO target
+    FROM account_deletion_requests
+    WHERE id = p_request_id
+    AND status = 'scheduled'
+    AND scheduled_for <= NOW();
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_due',
+            'message', 'Deletion request is not scheduled or not yet due'
+        );
+    END IF;
+
+    DELETE FROM volunteer_hours WHERE member_id = target;
+    DELETE FROM attendance WHERE member_id = target;
+    DELETE FROM memberships WHERE user_id = target;
+
+    -- Shared content the member created or deleted stays with the organization
+    UPDATE announcements SET created_by = NULL WHERE created_by = target;
+    UPDATE announcements SET deleted_by = NULL WHERE deleted_by = target;
+    UPDATE events SET created_by = NULL WHERE created_by = target;
+    UPDATE events SET deleted_by = NULL WHERE deleted_by = target;
+
+    -- These reference auth.users without ON DELETE, so deleting the auth user
+    -- would fail while they still point at it
+    UPDATE verification_codes SET used_by = NULL WHERE used_by = target;
+
+    -- Remaining member-owned tables cascade from the profile
+    DELETE FROM profiles WHERE id = target;
+
+    RETURN jsonb_build_object('success', true, 'user_id', target);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Outcome of processing a deletion
+CREATE OR REPLACE FUNCTION complete_account_deletion(p_request_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE account_deletion_requests
+    SET status = 'completed', completed_at = NOW(), attempts = attempts + 1, last_error = NULL
+    WHERE id = p_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION record_account_deletion_failure(p_request_id UUID, p_error TEXT)
+RETURNS VOID AS $$
+BEGIN
+    -- Stays scheduled so the next run retries it
+    UPDATE account_deletion_requests
+    SET attempts = attempts + 1, last_error = LEFT(p_error, 1000)
+    WHERE id = p_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Run the edge function daily when pg_cron and pg_net are available
+CREATE OR REPLACE FUNCTION trigger_account_deletion_processing()
+RETURNS BIGINT AS $$
+DECLARE
+    service_role_key TEXT;
+    request_id BIGINT;
+BEGIN
+    service_role_key := current_setting('app.settings.service_role_key', true);
+
+    IF service_role_key IS NULL THEN
+        RAISE WARNING 'app.settings.service_role_key is not set - account deletions were not processed';
+        RETURN NULL;
+    END IF;
+
+    SELECT net.http_post(
+        url := 'https://lncrggkgvstvlmrlykpi.supabase.co/functions/v1/process-account-deletions',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || service_role_key
+        ),
+        body := '{}'::jsonb
+    ) INTO request_id;
+
+    RETURN request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'process-account-deletions',
+      '0 3 * * *',
+      'SELECT trigger_account_deletion_processing()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron or pg_net not available - call the process-account-deletions function daily from an external job';
+  END IF;
+END $$;
+
+-- 9. Permissions
+GRANT SELECT ON account_deletion_requests TO authenticated;
+GRANT EXECUTE ON FUNCTION request_account_deletion() TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_account_deletion() TO authenticated;
+GRANT EXECUTE ON FUNCTION export_my_data() TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_due_account_deletions(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_account_data(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_account_deletion(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_account_deletion_failure(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION trigger_account_deletion_processing() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_due_account_deletions(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION purge_account_data(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_account_deletion(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION record_account_deletion_failure(UUID, TEXT) TO service_role;
+
+-- 10. Comments
+COMMENT ON TABLE account_deletion_requests IS 'Member-requested account deletions with a 14-day grace period; kept after the profile is removed';
+COMMENT ON FUNCTION request_account_deletion IS 'Schedules the caller''s account for deletion in 14 days, or returns the existing request';
+COMMENT ON FUNCTION cancel_account_deletion IS 'Cancels the caller''s scheduled account deletion';
+COMMENT ON FUNCTION export_my_data IS 'Profile, memberships, attendance, volunteer hours and RSVPs for the caller as JSON';
+COMMENT ON FUNCTION get_due_account_deletions IS 'Scheduled deletions past their grace period with the member''s R2 image keys (service role only)';
+COMMENT ON FUNCTION purge_account_data IS 'Deletes a due member''s rows and profile, keeping shared content (service role only)';
+COMMENT ON FUNCTION complete_account_deletion IS 'Marks a deletion request completed once the auth user is gone (service role only)';
+COMMENT ON FUNCTION record_account_deletion_failure IS 'Records a failed deletion attempt; the request is retried on the next run (service role only)';
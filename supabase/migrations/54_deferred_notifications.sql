@@ -0,0 +1,180 @@
+-- Migration: Server-side quiet hours with deferred delivery
+-- Quiet hours used to be checked only on the device, so the announcement and
+-- volunteer hours edge functions pushed to every opted-in token straight away.
+-- The functions now check each recipient's quiet-hours window in the
+-- recipient's own timezone (stored as notification_preferences.timezone and
+-- synced by the app) and queue the push here instead of sending it. A dispatcher runs every five minutes, claims
+-- the rows whose window has ended and delivers them, collapsing several
+-- queued pushes for the same person into one digest.
+
+-- 1. Queued notifications
+CREATE TABLE IF NOT EXISTS deferred_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  item_id TEXT,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  channel_id TEXT,
+  deliver_after TIMESTAMPTZ NOT NULL,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deferred_notifications_due
+  ON deferred_notifications(deliver_after)
+  WHERE delivered_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deferred_notifications_user
+  ON deferred_notifications(user_id)
+  WHERE delivered_at IS NULL;
+
+-- No policies: rows are written by the send functions with the service role
+-- and read only through the functions below
+ALTER TABLE deferred_notifications ENABLE ROW LEVEL SECURITY;
+
+-- 2. Claim due notifications for delivery
+-- Claims every due row for up to p_limit recipients so each recipient's queue
+-- is collapsed in a single run. Rows are marked delivered as they are claimed;
+-- the dispatcher releases them again if the push cannot be sent.
+CREATE OR REPLACE FUNCTION claim_due_deferred_notifications(
+    p_limit INTEGER DEFAULT 200
+) RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    org_id UUID,
+    notification_type TEXT,
+    item_id TEXT,
+    title TEXT,
+    body TEXT,
+    data JSONB,
+    channel_id TEXT,
+    created_at TIMESTAMPTZ,
+    expo_push_token TEXT,
+    notifications_enabled BOOLEAN
+) AS $$
+BEGIN
+    -- Delivered rows are only kept long enough to debug a run
+    DELETE FROM deferred_notifications d
+    WHERE d.delivered_at < NOW() - INTERVAL '7 days';
+
+    RETURN QUERY
+    WITH due_users AS (
+        SELECT DISTINCT d.user_id
+        FROM deferred_notifications d
+        WHERE d.delivered_at IS NULL
+          AND d.deliver_after <= NOW()
+        LIMIT p_limit
+    ),
+    claimed AS (
+        UPDATE deferred_notifications d
+        SET delivered_at = NOW()
+        WHERE d.id IN (
+            SELECT q.id
+            FROM deferred_notifications q
+            WHERE q.user_id IN (SELECT du.user_id FROM due_users du)
+              AND q.delivered_at IS NULL
+              AND q.deliver_after <= NOW()
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING d.*
+    )
+    SELECT
+        c.id,
+        c.user_id,
+        c.org_id,
+        c.notification_type,
+        c.item_id,
+        c.title,
+        c.body,
+        c.data,
+        c.channel_id,
+        c.created_at,
+        p.expo_push_token,
+        COALESCE(p.notifications_enabled, false)
+    FROM claimed c
+    JOIN profiles p ON p.id = c.user_id
+    ORDER BY c.user_id, c.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Put claimed notifications back in the queue after a failed send
+CREATE OR REPLACE FUNCTION release_deferred_notifications(
+    p_ids UUID[]
+) RETURNS INTEGER AS $$
+DECLARE
+    released INTEGER;
+BEGIN
+    UPDATE deferred_notifications
+    SET delivered_at = NULL
+    WHERE id = ANY(p_ids);
+
+    GET DIAGNOSTICS released = ROW_COUNT;
+    RETURN released;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Run the dispatcher every five minutes when pg_cron and pg_net are available
+CREATE OR REPLACE FUNCTION trigger_deferred_notification_dispatch()
+RETURNS BIGINT AS $$
+DECLARE
+    service_role_key TEXT;
+    request_id BIGINT;
+BEGIN
+    -- Skip the HTTP call when nothing is due
+    IF NOT EXISTS (
+        SELECT 1 FROM deferred_notifications
+        WHERE delivered_at IS NULL AND deliver_after <= NOW()
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    service_role_key := current_setting('app.settings.service_role_key', true);
+
+    IF service_role_key IS NULL THEN
+        RAISE WARNING 'app.settings.service_role_key is not set - deferred notifications were not dispatched';
+        RETURN NULL;
+    END IF;
+
+    SELECT net.http_post(
+        url := 'https://lncrggkgvstvlmrlykpi.supabase.co/functions/v1/dispatch-deferred-notifications',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || service_role_key
+        ),
+        body := '{}'::jsonb
+    ) INTO request_id;
+
+    RETURN request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'dispatch-deferred-notifications',
+      '*/5 * * * *',
+      'SELECT trigger_deferred_notification_dispatch()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron or pg_net not available - call the dispatch-deferred-notifications function every few minutes from an external job';
+  END IF;
+END $$;
+
+-- 5. Permissions
+REVOKE EXECUTE ON FUNCTION claim_due_deferred_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_deferred_notifications(UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION trigger_deferred_notification_dispatch() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_deferred_notifications(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION release_deferred_notifications(UUID[]) TO service_role;
+
+-- 6. Comments
+COMMENT ON TABLE deferred_notifications IS 'Pushes held back until the recipient''s quiet hours end';
+COMMENT ON COLUMN deferred_notifications.deliver_after IS 'End of the recipient''s quiet-hours window when the push was queued';
+COMMENT ON FUNCTION claim_due_deferred_notifications IS 'Marks and returns every due notification for a batch of recipients (service role only)';
+COMMENT ON FUNCTION release_deferred_notifications IS 'Returns claimed notifications to the queue after a failed send (service role only)';
+COMMENT ON FUNCTION trigger_deferred_notification_dispatch IS 'Calls the dispatch-deferred-notifications edge function when anything is due';
@@ -0,0 +1,195 @@
+-- Migration: Daily and weekly notification digests
+-- Members can set notification_preferences.delivery_mode to 'daily' or
+-- 'weekly' to get one summary push instead of a push per announcement, event
+-- and hours update. The send functions skip these members, and an hourly job
+-- sends each of them a digest at 6 PM in their own timezone (every evening
+-- for daily, Sunday evening for weekly) counting what was posted since their
+-- last digest. The device timezone is now saved at the top level of
+-- notification_preferences (timezone) and is shared with quiet hours.
+
+-- 1. When each member last got a digest
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMPTZ;
+
+-- 2. Members due a digest this hour, with their counts per type
+-- Counts announcements and events in the member's active organizations,
+-- approvals and rejections of the member's own hours, and (for officers)
+-- new hours submissions to review. Types the member has turned off are not
+-- counted. newest_item is the most recent item, so tapping the digest opens it.
+CREATE OR REPLACE FUNCTION get_due_notification_digests(
+    p_at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS TABLE (
+    user_id UUID,
+    expo_push_token TEXT,
+    delivery_mode TEXT,
+    announcements_count INTEGER,
+    events_count INTEGER,
+    volunteer_hours_count INTEGER,
+    newest_item JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH recipients AS (
+        SELECT
+            p.id,
+            p.expo_push_token,
+            p.notification_preferences AS prefs,
+            p.notification_preferences ->> 'delivery_mode' AS mode,
+            p_at AT TIME ZONE COALESCE(tz.name, 'UTC') AS local_at,
+            COALESCE(
+                p.last_digest_sent_at,
+                p_at - CASE WHEN p.notification_preferences ->> 'delivery_mode' = 'weekly'
+                            THEN INTERVAL '7 days' ELSE INTERVAL '1 day' END
+            ) AS since,
+            p.last_digest_sent_at
+        FROM profiles p
+        LEFT JOIN pg_timezone_names tz ON tz.name = p.notification_preferences ->> 'timezone'
+        WHERE p.notification_preferences ->> 'delivery_mode' IN ('daily', 'weekly')
+          AND p.notifications_enabled = true
+          AND p.expo_push_token IS NOT NULL
+          AND (p.muted_until IS NULL OR p.muted_until <= p_at)
+    ),
+    due AS (
+        SELECT r.*
+        FROM recipients r
+        WHERE EXTRACT(HOUR FROM r.local_at) = 18
+          AND (
+            (r.mode = 'daily'
+              AND (r.last_digest_sent_at IS NULL OR r.last_digest_sent_at < p_at - INTERVAL '20 hours'))
+            OR (r.mode = 'weekly'
+              AND EXTRACT(DOW FROM r.local_at) = 0
+              AND (r.last_digest_sent_at IS NULL OR r.last_digest_sent_at < p_at - INTERVAL '6 days'))
+          )
+    ),
+    items AS (
+        SELECT d.id AS recipient_id, 'announcement' AS item_type, a.id AS item_id, a.org_id, a.created_at AS item_at
+        FROM due d
+        JOIN memberships m ON m.user_id = d.id AND m.is_active = true
+        JOIN announcements a ON a.org_id = m.org_id
+        WHERE (d.prefs ->> 'announcements')::boolean IS DISTINCT FROM false
+          AND a.status = 'active'
+          AND a.created_at > d.since
+          AND a.created_by IS DISTINCT FROM d.id
+
+        UNION ALL
+
+        SELECT d.id, 'event', e.id, e.org_id, e.created_at
+        FROM due d
+        JOIN memberships m ON m.user_id = d.id AND m.is_active = true
+        JOIN events e ON e.org_id = m.org_id
+        WHERE (d.prefs ->> 'events')::boolean IS DISTINCT FROM false
+          AND e.status = 'active'
+          AND e.created_at > d.since
+          AND e.created_by IS DISTINCT FROM d.id
+
+        UNION ALL
+
+        SELECT d.id, 'volunteer_hours', va.volunteer_hour_id, va.org_id, va.performed_at
+        FROM due d
+        JOIN volunteer_hours_audit va ON va.member_id = d.id
+        WHERE (d.prefs ->> 'volunteer_hours')::boolean IS DISTINCT FROM false
+          AND va.action IN ('approved', 'rejected')
+          AND va.performed_at > d.since
+
+        UNION ALL
+
+        SELECT d.id, 'volunteer_hours', vh.id, vh.org_id, vh.submitted_at
+        FROM due d
+        JOIN memberships m ON m.user_id = d.id AND m.is_active = true
+            AND m.role IN ('officer', 'president', 'vice_president', 'admin')
+        JOIN volunteer_hours vh ON vh.org_id = m.org_id
+        WHERE (d.prefs ->> 'volunteer_hours')::boolean IS DISTINCT FROM false
+          AND vh.status = 'pending'
+          AND vh.submitted_at > d.since
+          AND vh.member_id <> d.id
+    )
+    SELECT
+        d.id,
+        d.expo_push_token,
+        d.mode,
+        COUNT(i.item_id) FILTER (WHERE i.item_type = 'announcement')::INTEGER,
+        COUNT(i.item_id) FILTER (WHERE i.item_type = 'event')::INTEGER,
+        COUNT(i.item_id) FILTER (WHERE i.item_type = 'volunteer_hours')::INTEGER,
+        (
+            SELECT jsonb_build_object('type', n.item_type, 'itemId', n.item_id, 'orgId', n.org_id)
+            FROM items n
+            WHERE n.recipient_id = d.id
+            ORDER BY n.item_at DESC
+            LIMIT 1
+        )
+    FROM due d
+    LEFT JOIN items i ON i.recipient_id = d.id
+    GROUP BY d.id, d.expo_push_token, d.mode;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 3. Start the next digest period (also for members who had nothing new)
+CREATE OR REPLACE FUNCTION mark_notification_digests_sent(
+    p_user_ids UUID[],
+    p_sent_at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS INTEGER AS $$
+DECLARE
+    updated INTEGER;
+BEGIN
+    UPDATE profiles
+    SET last_digest_sent_at = p_sent_at
+    WHERE id = ANY(p_user_ids);
+
+    GET DIAGNOSTICS updated = ROW_COUNT;
+    RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Run the digest builder hourly when pg_cron and pg_net are available
+CREATE OR REPLACE FUNCTION trigger_notification_digests()
+RETURNS BIGINT AS $$
+DECLARE
+    service_role_key TEXT;
+    request_id BIGINT;
+BEGIN
+    service_role_key := current_setting('app.settings.service_role_key', true);
+
+    IF service_role_key IS NULL THEN
+        RAISE WARNING 'app.settings.service_role_key is not set - notification digests were not sent';
+        RETURN NULL;
+    END IF;
+
+    SELECT net.http_post(
+        url := 'https://lncrggkgvstvlmrlykpi.supabase.co/functions/v1/send-notification-digests',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || service_role_key
+        ),
+        body := '{}'::jsonb
+    ) INTO request_id;
+
+    RETURN request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'send-notification-digests',
+      '0 * * * *',
+      'SELECT trigger_notification_digests()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron or pg_net not available - call the send-notification-digests function hourly from an external job';
+  END IF;
+END $$;
+
+-- 5. Permissions
+REVOKE EXECUTE ON FUNCTION get_due_notification_digests(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_notification_digests_sent(UUID[], TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION trigger_notification_digests() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_due_notification_digests(TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION mark_notification_digests_sent(UUID[], TIMESTAMPTZ) TO service_role;
+
+-- 6. Comments
+COMMENT ON COLUMN profiles.last_digest_sent_at IS 'When the member''s last daily or weekly digest period ended';
+COMMENT ON FUNCTION get_due_notification_digests IS 'Digest members whose 6 PM local send time is this hour, with item counts since their last digest (service role only)';
+COMMENT ON FUNCTION mark_notification_digests_sent IS 'Records that members were sent a digest, starting their next period (service role only)';
+COMMENT ON FUNCTION trigger_notification_digests IS 'Calls the send-notification-digests edge function';
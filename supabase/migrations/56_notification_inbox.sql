@@ -0,0 +1,145 @@
+-- Migration: In-app notification inbox
+-- Push notifications vanish once swiped away and badge counts only lived on
+-- the device. Every push sent to a member now also gets a row in their inbox
+-- with the type, the push payload (which carries the deep-link target the
+-- app navigates to) and whether it has been read. Entries are added when the
+-- push is sent, including for members whose push is held for quiet hours or
+-- rolled into a digest. The edge functions write rows with the service role;
+-- pushes sent from the app by an officer go through
+-- record_inbox_notifications. Badge counts are computed from unread rows.
+-- A member has at most one entry per item, so a push that is sent twice (an
+-- announcement is announced by both its insert trigger and the app) is only
+-- recorded once.
+
+-- 1. Inbox
+CREATE TABLE IF NOT EXISTS notification_inbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL CHECK (notification_type IN ('announcement', 'event', 'volunteer_hours', 'ble_session')),
+  item_id TEXT NOT NULL, -- What tapping the entry opens
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_inbox_item
+  ON notification_inbox(user_id, notification_type, item_id);
+
+CREATE INDEX IF NOT EXISTS idx_notification_inbox_user
+  ON notification_inbox(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notification_inbox_unread
+  ON notification_inbox(user_id, notification_type)
+  WHERE read_at IS NULL;
+
+-- 2. Row level security: members see only their own inbox and change it
+-- through the functions below
+ALTER TABLE notification_inbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own inbox" ON notification_inbox;
+CREATE POLICY "Users can view their own inbox" ON notification_inbox
+    FOR SELECT USING (user_id = auth.uid());
+
+-- 3. Record a push an officer sent from the app
+-- Recipients are resolved from the push tokens the app sent to, limited to
+-- active members of the organization in the payload.
+CREATE OR REPLACE FUNCTION record_inbox_notifications(
+    p_tokens TEXT[],
+    p_title TEXT,
+    p_body TEXT,
+    p_payload JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+    target_org UUID := NULLIF(p_payload ->> 'orgId', '')::UUID;
+    recorded INTEGER;
+BEGIN
+    IF target_org IS NULL OR NOT public.is_officer_of(target_org) THEN
+        RAISE EXCEPTION 'Only officers can record notifications for their organization'
+            USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO notification_inbox (user_id, org_id, notification_type, item_id, title, body, payload)
+    SELECT DISTINCT ON (p.id)
+        p.id,
+        target_org,
+        p_payload ->> 'type',
+        p_payload ->> 'itemId',
+        p_title,
+        p_body,
+        p_payload
+    FROM profiles p
+    JOIN memberships m ON m.user_id = p.id AND m.org_id = target_org AND m.is_active = true
+    WHERE p.expo_push_token = ANY(p_tokens)
+    ON CONFLICT (user_id, notification_type, item_id) DO NOTHING;
+
+    GET DIAGNOSTICS recorded = ROW_COUNT;
+    RETURN recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Mark entries read (all unread entries when no ids are given)
+CREATE OR REPLACE FUNCTION mark_inbox_read(
+    p_ids UUID[] DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+    updated INTEGER;
+BEGIN
+    UPDATE notification_inbox
+    SET read_at = NOW()
+    WHERE user_id = auth.uid()
+      AND read_at IS NULL
+      AND (p_ids IS NULL OR id = ANY(p_ids));
+
+    GET DIAGNOSTICS updated = ROW_COUNT;
+    RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Mark entries read by what they point at (used when the item is opened
+-- some other way than from the inbox, or a whole type is cleared)
+CREATE OR REPLACE FUNCTION mark_inbox_items_read(
+    p_notification_type TEXT,
+    p_item_ids TEXT[] DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+    updated INTEGER;
+BEGIN
+    UPDATE notification_inbox
+    SET read_at = NOW()
+    WHERE user_id = auth.uid()
+      AND read_at IS NULL
+      AND notification_type = p_notification_type
+      AND (p_item_ids IS NULL OR item_id = ANY(p_item_ids));
+
+    GET DIAGNOSTICS updated = ROW_COUNT;
+    RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Realtime so new entries update the inbox and badges while the app is open
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'notification_inbox'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notification_inbox;
+  END IF;
+END $$;
+
+-- 7. Permissions
+GRANT SELECT ON notification_inbox TO authenticated;
+GRANT EXECUTE ON FUNCTION record_inbox_notifications(TEXT[], TEXT, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_inbox_read(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_inbox_items_read(TEXT, TEXT[]) TO authenticated;
+
+-- 8. Comments
+COMMENT ON TABLE notification_inbox IS 'Every push sent to a member, with read state, for the in-app inbox and badges';
+COMMENT ON COLUMN notification_inbox.payload IS 'Push data (type, itemId, orgId, ...) passed to the app''s notification tap handler';
+COMMENT ON FUNCTION record_inbox_notifications IS 'Adds inbox entries for the members behind the push tokens an officer sent to';
+COMMENT ON FUNCTION mark_inbox_read IS 'Marks the caller''s inbox entries read, or all of them when no ids are given';
+COMMENT ON FUNCTION mark_inbox_items_read IS 'Marks the caller''s entries for a type (and optionally specific items) read';
@@ -0,0 +1,197 @@
+-- Migration: Officer-composed custom notifications
+-- Officers can send a one-off push to an audience in their organization: all
+-- members, officers only, one grade level, members behind on an hours
+-- requirement, or the attendees of an event. Members who turned off
+-- custom_notifications, disabled notifications or are muted are left out.
+-- Custom pushes have their own daily limit per officer, go through the usual
+-- one-hour duplicate check, and every send is logged to notification_history
+-- with its author, text, audience and delivery counts. The push itself goes
+-- out from the send-custom-notification edge function, which holds it for
+-- members in their quiet hours and gives every recipient an inbox entry like
+-- any other push.
+
+-- 1. Send log details on notification_history
+-- The duplicate check already adds a row per send; these columns describe it.
+ALTER TABLE notification_history
+  ADD COLUMN IF NOT EXISTS sent_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS title TEXT,
+  ADD COLUMN IF NOT EXISTS body TEXT,
+  ADD COLUMN IF NOT EXISTS audience JSONB,
+  ADD COLUMN IF NOT EXISTS delivered_count INTEGER;
+
+-- Officers other than the 'officer' role could not read their org's history
+DROP POLICY IF EXISTS "Officers can view org notification history" ON notification_history;
+CREATE POLICY "Officers can view org notification history" ON notification_history
+  FOR SELECT USING (public.is_officer_of(org_id));
+
+-- 2. Custom pushes are kept in the inbox like the other types
+ALTER TABLE notification_inbox
+  DROP CONSTRAINT IF EXISTS notification_inbox_notification_type_check;
+ALTER TABLE notification_inbox
+  ADD CONSTRAINT notification_inbox_notification_type_check
+  CHECK (notification_type IN ('announcement', 'event', 'volunteer_hours', 'ble_session', 'custom'));
+
+-- 3. Members in an audience (officers only)
+-- Returns every active member matching the audience. expo_push_token is only
+-- set for members who will actually get the push, so the same call serves
+-- the recipient preview and the send.
+CREATE OR REPLACE FUNCTION get_custom_notification_recipients(
+    p_org_id UUID,
+    p_audience TEXT,
+    p_grade TEXT DEFAULT NULL,
+    p_event_id UUID DEFAULT NULL
+) RETURNS TABLE (
+    user_id UUID,
+    expo_push_token TEXT
+) AS $$
+BEGIN
+    IF NOT public.is_officer_of(p_org_id) THEN
+        RAISE EXCEPTION 'Only officers can send custom notifications' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_audience NOT IN ('all_members', 'officers', 'grade', 'behind_on_hours', 'event_attendees') THEN
+        RAISE EXCEPTION 'Unknown audience: %', p_audience USING ERRCODE = '22023';
+    END IF;
+
+    IF p_audience = 'grade' AND NULLIF(TRIM(p_grade), '') IS NULL THEN
+        RAISE EXCEPTION 'A grade level is required' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_audience = 'event_attendees' AND NOT EXISTS (
+        SELECT 1 FROM events e WHERE e.id = p_event_id AND e.org_id = p_org_id
+    ) THEN
+        RAISE EXCEPTION 'Event not found in this organization' USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        CASE
+            WHEN p.notifications_enabled = true
+              AND (p.muted_until IS NULL OR p.muted_until <= NOW())
+              AND COALESCE((p.notification_preferences ->> 'custom_notifications')::BOOLEAN, true)
+            THEN p.expo_push_token
+        END
+    FROM memberships m
+    JOIN profiles p ON p.id = m.user_id
+    WHERE m.org_id = p_org_id
+      AND m.is_active = true
+      AND CASE p_audience
+            WHEN 'all_members' THEN true
+            WHEN 'officers' THEN m.role IN ('officer', 'president', 'vice_president', 'admin')
+            WHEN 'grade' THEN p.grade::TEXT = TRIM(p_grade)
+            WHEN 'behind_on_hours' THEN m.user_id IN (
+                SELECT r.member_id
+                FROM get_members_at_risk(p_org_id) r
+                WHERE r.requirement_type IN ('verified_hours', 'organization_event_hours')
+            )
+            WHEN 'event_attendees' THEN EXISTS (
+                SELECT 1 FROM attendance a
+                WHERE a.event_id = p_event_id
+                  AND a.member_id = m.user_id
+                  AND COALESCE(a.status, 'present') = 'present'
+            )
+          END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 4. Daily limit on custom pushes per officer (same shape as announcements)
+CREATE OR REPLACE FUNCTION check_custom_notification_rate_limit(
+    p_org_id UUID
+) RETURNS BOOLEAN AS $$
+DECLARE
+    current_count INTEGER;
+    today TIMESTAMPTZ := DATE_TRUNC('day', NOW());
+BEGIN
+    IF NOT public.is_officer_of(p_org_id) THEN
+        RAISE EXCEPTION 'Only officers can send custom notifications' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT COALESCE(SUM(count), 0) INTO current_count
+    FROM notification_rate_limits
+    WHERE org_id = p_org_id
+      AND officer_id = auth.uid()
+      AND notification_type = 'custom'
+      AND window_start >= today;
+
+    -- 10 per day, like announcements
+    IF current_count >= 10 THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO notification_rate_limits (org_id, officer_id, notification_type, window_start)
+    VALUES (p_org_id, auth.uid(), 'custom', today)
+    ON CONFLICT (org_id, officer_id, notification_type, window_start)
+    DO UPDATE SET count = notification_rate_limits.count + 1;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Fill in the send log
+-- check_duplicate_notification adds the history row for a send and refuses a
+-- second one with the same content within the hour, so the row for this org
+-- and content hash in the last hour is this send's. Returns its id, which
+-- the push carries as its itemId.
+CREATE OR REPLACE FUNCTION record_custom_notification(
+    p_org_id UUID,
+    p_content_hash TEXT,
+    p_title TEXT,
+    p_body TEXT,
+    p_audience JSONB,
+    p_recipient_count INTEGER
+) RETURNS UUID AS $$
+DECLARE
+    history_id UUID;
+BEGIN
+    IF NOT public.is_officer_of(p_org_id) THEN
+        RAISE EXCEPTION 'Only officers can send custom notifications' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE notification_history
+    SET sent_by = auth.uid(),
+        title = p_title,
+        body = p_body,
+        audience = p_audience,
+        recipient_count = p_recipient_count,
+        item_id = id
+    WHERE id = (
+        SELECT h.id
+        FROM notification_history h
+        WHERE h.org_id = p_org_id
+          AND h.notification_type = 'custom'
+          AND h.content_hash = p_content_hash
+          AND h.sent_by IS NULL
+          AND h.sent_at > NOW() - INTERVAL '1 hour'
+        ORDER BY h.sent_at DESC
+        LIMIT 1
+    )
+    RETURNING id INTO history_id;
+
+    IF history_id IS NULL THEN
+        INSERT INTO notification_history (
+            org_id, notification_type, content_hash, sent_by, title, body, audience, recipient_count
+        ) VALUES (
+            p_org_id, 'custom', p_content_hash, auth.uid(), p_title, p_body, p_audience, p_recipient_count
+        )
+        RETURNING id INTO history_id;
+
+        UPDATE notification_history SET item_id = history_id WHERE id = history_id;
+    END IF;
+
+    RETURN history_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Permissions
+GRANT EXECUTE ON FUNCTION get_custom_notification_recipients(UUID, TEXT, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_custom_notification_rate_limit(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_custom_notification(UUID, TEXT, TEXT, TEXT, JSONB, INTEGER) TO authenticated;
+
+-- 7. Comments
+COMMENT ON COLUMN notification_history.sent_by IS 'Officer who sent a custom notification';
+COMMENT ON COLUMN notification_history.audience IS 'Audience a custom notification was sent to, e.g. {"type": "grade", "grade": "11"}';
+COMMENT ON COLUMN notification_history.delivered_count IS 'Pushes Expo accepted when sent, out of recipient_count; members in quiet hours get theirs later';
+COMMENT ON FUNCTION get_custom_notification_recipients IS 'Members in a custom notification audience, with a push token only for those who will receive it (officers only)';
+COMMENT ON FUNCTION check_custom_notification_rate_limit IS 'Checks and counts the calling officer''s custom notifications for today';
+COMMENT ON FUNCTION record_custom_notification IS 'Logs a custom notification send on its notification_history row and returns the row id';
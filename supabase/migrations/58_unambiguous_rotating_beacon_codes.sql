@@ -0,0 +1,351 @@
+-- Migration: Reject rotating beacon codes shared by two sessions
+-- Rotating codes are 15 bits derived per session, so two live rotating
+-- sessions in one organization can advertise the same Minor in the same
+-- window. find_session_by_beacon picked one of them and add_attendance_secure
+-- accepted the code for either, so a member could be checked in to the
+-- session they were not at. A shared code now resolves to neither session;
+-- the next window's codes differ, so the member's scanner retries.
+
+-- 1. Detect a code shared with another live rotating session
+CREATE OR REPLACE FUNCTION beacon_code_is_ambiguous(
+    p_event_id UUID,
+    p_minor INTEGER
+) RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM ble_beacon_rotation_keys own
+        JOIN ble_beacon_rotation_keys other
+          ON other.org_id = own.org_id
+         AND other.event_id <> own.event_id
+        JOIN ble_beacon_slots s
+          ON s.event_id = other.event_id
+         AND s.released_at IS NULL
+         AND s.expires_at > NOW()
+        WHERE own.event_id = p_event_id
+          AND beacon_code_is_current(other.secret, other.interval_seconds, p_minor)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 2. find_session_by_beacon skips shared codes
+CREATE OR REPLACE FUNCTION find_session_by_beacon(
+    p_major INTEGER,
+    p_minor INTEGER,
+    p_org_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+    session_token TEXT,
+    event_id UUID,
+    event_title TEXT,
+    org_id UUID,
+    org_slug TEXT,
+    starts_at TIMESTAMPTZ,
+    ends_at TIMESTAMPTZ,
+    is_valid BOOLEAN,
+    attendee_count BIGINT,
+    beacon_minor INTEGER,
+    created_by UUID,
+    rotating BOOLEAN
+) AS $$
+BEGIN
+    IF p_major IS NULL OR p_minor IS NULL OR p_minor < 1 OR p_minor > 65535 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        s.session_token,
+        e.id,
+        e.title,
+        e.org_id,
+        o.slug,
+        e.starts_at,
+        e.ends_at,
+        (e.starts_at <= NOW() AND e.ends_at > NOW()) as is_valid,
+        (SELECT COUNT(*) FROM attendance att WHERE att.event_id = e.id) as attendee_count,
+        p_minor,
+        e.created_by,
+        (k.event_id IS NOT NULL) as rotating
+    FROM ble_beacon_slots s
+    JOIN events e ON e.id = s.event_id
+    JOIN organizations o ON o.id = s.org_id
+    LEFT JOIN ble_beacon_rotation_keys k ON k.event_id = s.event_id
+    WHERE s.released_at IS NULL
+    AND s.expires_at > NOW()
+    AND get_org_code(o.slug) = p_major
+    AND (p_org_id IS NULL OR s.org_id = p_org_id)
+    AND (
+        -- Static sessions: exact slot match. A rotating session's slot is
+        -- never advertised, so it must not match either.
+        (k.event_id IS NULL AND s.minor = p_minor)
+        OR (
+            k.event_id IS NOT NULL
+            AND beacon_code_is_current(k.secret, k.interval_seconds, p_minor)
+            AND NOT beacon_code_is_ambiguous(k.event_id, p_minor)
+        )
+    )
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. add_attendance_secure refuses shared codes
+CREATE OR REPLACE FUNCTION add_attendance_secure(
+    p_session_token TEXT,
+    p_beacon_minor INTEGER DEFAULT NULL,
+    p_evidence JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    session_info RECORD;
+    member_org_id UUID;
+    attendance_id UUID;
+    token_validation JSONB;
+    expiration_check RECORD;
+    rotation_key RECORD;
+    session_policy JSONB;
+    checkout_enabled BOOLEAN;
+    session_starts_at TIMESTAMPTZ;
+    min_dwell INTEGER;
+    min_rssi INTEGER;
+    rssi_samples INTEGER[];
+    rssi_avg NUMERIC;
+    rssi_max INTEGER;
+    first_seen TIMESTAMPTZ;
+    last_seen TIMESTAMPTZ;
+    dwell_seconds INTEGER;
+    result JSONB;
+BEGIN
+    -- Sanitize input
+    p_session_token := UPPER(TRIM(COALESCE(p_session_token, '')));
+    
+    -- Validate token security properties
+    SELECT * INTO token_validation FROM validate_token_security(p_session_token);
+    
+    IF NOT (token_validation->>'is_valid')::BOOLEAN THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_token_security',
+            'message', token_validation->>'message',
+            'details', token_validation
+        );
+    END IF;
+    
+    -- Check session expiration with detailed validation
+    SELECT * INTO expiration_check FROM validate_session_expiration(p_session_token);
+    
+    IF expiration_check.event_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_not_found',
+            'message', 'Session not found or invalid token'
+        );
+    END IF;
+    
+    IF NOT expiration_check.is_valid THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'session_expired',
+            'message', 'Session has expired',
+            'expires_at', expiration_check.expires_at,
+            'time_remaining_seconds', expiration_check.time_remaining_seconds
+        );
+    END IF;
+    
+    -- Rotating sessions only accept the code advertised in the current or
+    -- previous window, so a recorded beacon cannot be replayed later
+    SELECT k.secret, k.interval_seconds INTO rotation_key
+    FROM ble_beacon_rotation_keys k
+    WHERE k.session_token = p_session_token;
+
+    IF FOUND THEN
+        IF p_beacon_minor IS NULL THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'beacon_code_required',
+                'message', 'This session requires a live beacon code'
+            );
+        END IF;
+
+        IF NOT beacon_code_is_current(rotation_key.secret, rotation_key.interval_seconds, p_beacon_minor) THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'stale_beacon_code',
+                'message', 'Beacon code has expired. Stay near the session beacon and try again.'
+            );
+        END IF;
+
+        -- Another live session advertises the same code this window, so the
+        -- member may be next to that one instead
+        IF beacon_code_is_ambiguous(expiration_check.event_id, p_beacon_minor) THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'ambiguous_beacon_code',
+                'message', 'Another session is using the same beacon code right now. Try again in a moment.'
+            );
+        END IF;
+    END IF;
+    
+    -- Get session details
+    SELECT * INTO session_info FROM resolve_session(p_session_token);
+    
+    -- Check user authentication
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+    
+    SELECT e.description::JSONB, e.starts_at INTO session_policy, session_starts_at
+    FROM events e WHERE e.id = session_info.event_id;
+
+    -- Summarize the proximity evidence collected by the member's scanner.
+    -- Samples are clamped to the valid RSSI range and timestamps to the
+    -- session window so a client cannot claim time outside the session.
+    IF p_evidence IS NOT NULL AND jsonb_typeof(p_evidence->'rssi_samples') = 'array' THEN
+        SELECT ARRAY(
+            SELECT LEAST(GREATEST(sample::INTEGER, -127), 20)
+            FROM jsonb_array_elements_text(p_evidence->'rssi_samples') AS sample
+            WHERE sample ~ '^-?[0-9]+$'
+            LIMIT 200
+        ) INTO rssi_samples;
+
+        IF COALESCE(array_length(rssi_samples, 1), 0) > 0 THEN
+            SELECT AVG(s), MAX(s) INTO rssi_avg, rssi_max FROM unnest(rssi_samples) AS s;
+        END IF;
+
+        BEGIN
+            first_seen := GREATEST((p_evidence->>'first_seen_at')::TIMESTAMPTZ, COALESCE(session_starts_at, '-infinity'::TIMESTAMPTZ));
+            last_seen := LEAST((p_evidence->>'last_seen_at')::TIMESTAMPTZ, NOW());
+        EXCEPTION WHEN OTHERS THEN
+            first_seen := NULL;
+            last_seen := NULL;
+        END;
+
+        IF first_seen IS NOT NULL AND last_seen IS NOT NULL AND last_seen >= first_seen THEN
+            dwell_seconds := FLOOR(EXTRACT(EPOCH FROM (last_seen - first_seen)))::INTEGER;
+        END IF;
+    END IF;
+
+    -- Enforce the session's proximity policy
+    min_dwell := (session_policy->>'min_dwell_seconds')::INTEGER;
+    min_rssi := (session_policy->>'min_rssi')::INTEGER;
+    checkout_enabled := COALESCE((session_policy->>'checkout_enabled')::BOOLEAN, FALSE);
+
+    IF min_dwell IS NOT NULL AND COALESCE(dwell_seconds, 0) < min_dwell THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'insufficient_dwell',
+            'message', format('Stay near the session for at least %s seconds before checking in', min_dwell),
+            'required_dwell_seconds', min_dwell,
+            'dwell_seconds', COALESCE(dwell_seconds, 0)
+        );
+    END IF;
+
+    IF min_rssi IS NOT NULL AND (rssi_avg IS NULL OR rssi_avg < min_rssi) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'weak_signal',
+            'message', 'Move closer to the session beacon and try again',
+            'required_rssi', min_rssi,
+            'rssi_avg', ROUND(rssi_avg, 1)
+        );
+    END IF;
+    
+    -- Verify organization membership with additional security checks
+    SELECT m.org_id INTO member_org_id 
+    FROM memberships m
+    JOIN organizations o ON m.org_id = o.id
+    WHERE m.user_id = auth.uid() 
+    AND m.org_id = session_info.org_id 
+    AND m.is_active = true
+    AND o.is_active = true; -- Ensure organization is also active
+    
+    IF member_org_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'organization_mismatch',
+            'message', 'User is not an active member of this organization'
+        );
+    END IF;
+    
+    -- Insert attendance record with enhanced metadata
+    INSERT INTO attendance (event_id, member_id, method, org_id, recorded_at)
+    VALUES (
+        session_info.event_id, 
+        auth.uid(), 
+        'ble', 
+        session_info.org_id, 
+        NOW()
+    )
+    ON CONFLICT (event_id, member_id) DO UPDATE SET
+        method = EXCLUDED.method,
+        -- A member still checked in keeps their original check-in time so the
+        -- duration isn't cut short; returning after a check-out starts a new stay
+        recorded_at = CASE
+            WHEN checkout_enabled AND attendance.checked_out_at IS NULL THEN attendance.recorded_at
+            ELSE EXCLUDED.recorded_at
+        END,
+        checked_out_at = NULL,
+        checkout_method = NULL
+    RETURNING id INTO attendance_id;
+
+    -- Keep the evidence with the attendance row (latest check-in wins)
+    IF p_evidence IS NOT NULL THEN
+        INSERT INTO ble_attendance_evidence (
+            attendance_id, event_id, member_id, org_id,
+            rssi_samples, rssi_avg, rssi_max, sample_count,
+            first_seen_at, last_seen_at, dwell_seconds, beacon_minor
+        )
+        VALUES (
+            attendance_id, session_info.event_id, auth.uid(), session_info.org_id,
+            COALESCE(rssi_samples, '{}'), rssi_avg, rssi_max, COALESCE(array_length(rssi_samples, 1), 0),
+            first_seen, last_seen, dwell_seconds, p_beacon_minor
+        )
+        ON CONFLICT ON CONSTRAINT ble_attendance_evidence_pkey DO UPDATE SET
+            rssi_samples = EXCLUDED.rssi_samples,
+            rssi_avg = EXCLUDED.rssi_avg,
+            rssi_max = EXCLUDED.rssi_max,
+            sample_count = EXCLUDED.sample_count,
+            first_seen_at = EXCLUDED.first_seen_at,
+            last_seen_at = EXCLUDED.last_seen_at,
+            dwell_seconds = EXCLUDED.dwell_seconds,
+            beacon_minor = EXCLUDED.beacon_minor,
+            recorded_at = NOW();
+    END IF;
+    
+    -- Build success response with security metadata
+    result := jsonb_build_object(
+        'success', true,
+        'attendance_id', attendance_id,
+        'event_id', session_info.event_id,
+        'event_title', session_info.event_title,
+        'org_slug', session_info.org_slug,
+        'recorded_at', NOW(),
+        'session_expires_at', expiration_check.expires_at,
+        'time_remaining_seconds', expiration_check.time_remaining_seconds,
+        'token_security', token_validation,
+        'checkout_enabled', checkout_enabled,
+        'evidence', jsonb_build_object(
+            'sample_count', COALESCE(array_length(rssi_samples, 1), 0),
+            'rssi_avg', ROUND(rssi_avg, 1),
+            'dwell_seconds', dwell_seconds
+        )
+    );
+    
+    -- Log successful attendance with security context
+    RAISE NOTICE 'Secure BLE attendance recorded: user=%, event=%, token=%, entropy=% bits', 
+        auth.uid(), session_info.event_id, p_session_token, 
+        (token_validation->>'entropy_bits')::NUMERIC;
+    
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Permissions
+REVOKE EXECUTE ON FUNCTION beacon_code_is_ambiguous(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 5. Comments
+COMMENT ON FUNCTION beacon_code_is_ambiguous IS 'Checks whether another live rotating session in the organization accepts the same beacon code';
@@ -0,0 +1,269 @@
+-- Migration: Officer-only attendance sessions and no self-verified hours
+-- create_session_secure let any member start a session, and a session that
+-- credits volunteer hours verified them as its creator. A member could run a
+-- session, check in and out of it, and get verified hours approved by
+-- themselves. Sessions now need an officer of the organization, and
+-- credit_attendance_hours files hours as pending when the member is the one
+-- who ran the session.
+
+-- 1. Only officers start sessions
+CREATE OR REPLACE FUNCTION create_session_secure(
+    p_org_id UUID,
+    p_title TEXT,
+    p_starts_at TIMESTAMPTZ DEFAULT NOW(),
+    p_ttl_seconds INTEGER DEFAULT 3600,
+    p_rotating BOOLEAN DEFAULT FALSE,
+    p_rotation_interval INTEGER DEFAULT 30,
+    p_min_dwell_seconds INTEGER DEFAULT NULL,
+    p_min_rssi INTEGER DEFAULT NULL,
+    p_checkout_enabled BOOLEAN DEFAULT FALSE,
+    p_credit_volunteer_hours BOOLEAN DEFAULT FALSE
+) RETURNS JSONB AS $$
+DECLARE
+    session_token TEXT;
+    event_id UUID;
+    beacon_minor INTEGER;
+    session_expires_at TIMESTAMPTZ;
+    secure_chars TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    token_length INTEGER := 12;
+    max_retries INTEGER := 10;
+    retry_count INTEGER := 0;
+    entropy_bits NUMERIC;
+    collision_check INTEGER;
+    rotation_interval INTEGER;
+BEGIN
+    -- Validate inputs
+    IF p_org_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Organization ID cannot be null'
+        );
+    END IF;
+
+    -- Sessions can credit verified volunteer hours, so only officers run them
+    IF NOT is_officer_of(p_org_id) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'permission_denied',
+            'message', 'Only officers can start attendance sessions'
+        );
+    END IF;
+
+    IF p_title IS NULL OR LENGTH(TRIM(p_title)) = 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Session title cannot be empty'
+        );
+    END IF;
+
+    IF p_ttl_seconds <= 0 OR p_ttl_seconds > 86400 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'TTL must be between 1 and 86400 seconds (24 hours)'
+        );
+    END IF;
+
+    rotation_interval := COALESCE(p_rotation_interval, 30);
+
+    IF COALESCE(p_rotating, FALSE) AND (rotation_interval < 10 OR rotation_interval > 300) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Rotation interval must be between 10 and 300 seconds'
+        );
+    END IF;
+
+    IF p_min_dwell_seconds IS NOT NULL AND (p_min_dwell_seconds < 0 OR p_min_dwell_seconds > p_ttl_seconds) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Minimum dwell time must be between 0 seconds and the session duration'
+        );
+    END IF;
+
+    IF p_min_rssi IS NOT NULL AND (p_min_rssi < -127 OR p_min_rssi > 0) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_input',
+            'message', 'Minimum signal strength must be between -127 and 0 dBm'
+        );
+    END IF;
+
+    -- Generate cryptographically secure token with collision detection
+    LOOP
+        session_token := '';
+
+        FOR i IN 1..token_length LOOP
+            session_token := session_token || substr(secure_chars,
+                (floor(random() * length(secure_chars)) + 1)::INTEGER, 1);
+        END LOOP;
+
+        SELECT COUNT(*) INTO collision_check
+        FROM events
+        WHERE description::JSONB->>'session_token' = session_token
+        AND ends_at > NOW()
+        AND description::JSONB->>'attendance_method' = 'ble';
+
+        EXIT WHEN collision_check = 0 OR retry_count >= max_retries;
+
+        retry_count := retry_count + 1;
+    END LOOP;
+
+    IF retry_count >= max_retries THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'token_generation_failed',
+            'message', 'Failed to generate unique token after maximum retries'
+        );
+    END IF;
+
+    entropy_bits := token_length * log(2, length(secure_chars));
+    session_expires_at := p_starts_at + (p_ttl_seconds || ' seconds')::INTERVAL;
+
+    INSERT INTO events (
+        org_id,
+        title,
+        starts_at,
+        ends_at,
+        event_type,
+        created_by,
+        description
+    )
+    VALUES (
+        p_org_id,
+        TRIM(p_title),
+        p_starts_at,
+        session_expires_at,
+        'meeting',
+        auth.uid(),
+        jsonb_build_object(
+            'session_token', session_token,
+            'ttl_seconds', p_ttl_seconds,
+            'attendance_method', 'ble',
+            'created_at', NOW(),
+            'token_entropy_bits', entropy_bits,
+            'token_generation_retries', retry_count,
+            'security_version', '2.0',
+            'rotating_beacon', COALESCE(p_rotating, FALSE),
+            'min_dwell_seconds', p_min_dwell_seconds,
+            'min_rssi', p_min_rssi,
+            'checkout_enabled', COALESCE(p_checkout_enabled, FALSE),
+            'credit_volunteer_hours', COALESCE(p_checkout_enabled, FALSE) AND COALESCE(p_credit_volunteer_hours, FALSE)
+        )::TEXT
+    )
+    RETURNING id INTO event_id;
+
+    -- Reserve a unique beacon Minor for this session
+    beacon_minor := allocate_beacon_minor(p_org_id, event_id, session_token, session_expires_at);
+
+    IF beacon_minor IS NULL THEN
+        -- Every slot is taken; roll back the event we just created
+        DELETE FROM events WHERE id = event_id;
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'beacon_slots_exhausted',
+            'message', 'No free beacon slots available for this organization'
+        );
+    END IF;
+
+    UPDATE events
+    SET description = (description::JSONB || jsonb_build_object('beacon_minor', beacon_minor))::TEXT
+    WHERE id = event_id;
+
+    -- Rotating sessions get a per-session secret; the advertised Minor is
+    -- derived from it per time window instead of the static slot
+    IF COALESCE(p_rotating, FALSE) THEN
+        INSERT INTO ble_beacon_rotation_keys (event_id, org_id, session_token, secret, interval_seconds)
+        VALUES (event_id, p_org_id, session_token, encode(extensions.gen_random_bytes(32), 'hex'), rotation_interval);
+    END IF;
+
+    RAISE NOTICE 'Secure BLE session created: token=%, event_id=%, org_id=%, minor=%, entropy=% bits, retries=%',
+        session_token, event_id, p_org_id, beacon_minor, entropy_bits, retry_count;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'session_token', session_token,
+        'event_id', event_id,
+        'beacon_minor', beacon_minor,
+        'rotating', COALESCE(p_rotating, FALSE),
+        'rotation_interval_seconds', CASE WHEN COALESCE(p_rotating, FALSE) THEN rotation_interval END,
+        'min_dwell_seconds', p_min_dwell_seconds,
+        'min_rssi', p_min_rssi,
+        'checkout_enabled', COALESCE(p_checkout_enabled, FALSE),
+        'credit_volunteer_hours', COALESCE(p_checkout_enabled, FALSE) AND COALESCE(p_credit_volunteer_hours, FALSE),
+        'expires_at', session_expires_at,
+        'entropy_bits', entropy_bits,
+        'security_level', CASE
+            WHEN entropy_bits >= 80 THEN 'strong'
+            WHEN entropy_bits >= 60 THEN 'moderate'
+            ELSE 'weak'
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 2. Session creators never verify their own attendance hours
+CREATE OR REPLACE FUNCTION credit_attendance_hours(p_attendance_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    attendance_row RECORD;
+    event_row RECORD;
+    credited_hours NUMERIC;
+    verifier_id UUID;
+    hours_id UUID;
+BEGIN
+    SELECT a.id, a.member_id, a.org_id, a.event_id, a.duration_seconds
+    INTO attendance_row
+    FROM attendance a
+    WHERE a.id = p_attendance_id;
+
+    SELECT e.id, e.title, e.starts_at, e.created_by, e.description::JSONB as config
+    INTO event_row
+    FROM events e
+    WHERE e.id = attendance_row.event_id;
+
+    IF event_row.id IS NULL
+       OR NOT COALESCE((event_row.config->>'credit_volunteer_hours')::BOOLEAN, FALSE)
+       OR COALESCE(attendance_row.duration_seconds, 0) < 60 THEN
+        RETURN NULL;
+    END IF;
+
+    -- The officer who ran the session verifies the hours, but never their own;
+    -- those (and sessions with no recorded creator) wait for an officer
+    verifier_id := event_row.created_by;
+    IF verifier_id = attendance_row.member_id THEN
+        verifier_id := NULL;
+    END IF;
+
+    credited_hours := ROUND(attendance_row.duration_seconds / 3600.0, 2);
+
+    UPDATE volunteer_hours
+    SET hours = credited_hours
+    WHERE attendance_id = p_attendance_id
+    RETURNING id INTO hours_id;
+
+    IF hours_id IS NULL THEN
+        INSERT INTO volunteer_hours (
+            member_id, org_id, event_id, attendance_id, hours, description, activity_date,
+            submitted_at, approved, approved_by, approved_at, status, verified_by, verified_at
+        )
+        VALUES (
+            attendance_row.member_id, attendance_row.org_id, attendance_row.event_id, p_attendance_id,
+            credited_hours, 'Attended: ' || event_row.title, event_row.starts_at::DATE,
+            NOW(), verifier_id IS NOT NULL, verifier_id, CASE WHEN verifier_id IS NOT NULL THEN NOW() END,
+            CASE WHEN verifier_id IS NOT NULL THEN 'verified' ELSE 'pending' END,
+            verifier_id, CASE WHEN verifier_id IS NOT NULL THEN NOW() END
+        )
+        RETURNING id INTO hours_id;
+    END IF;
+
+    RETURN hours_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Comments
+COMMENT ON FUNCTION create_session_secure IS 'Creates an officer''s BLE session with a secure token, a beacon Minor slot, optional rotating codes, proximity policy and check-out settings';
+COMMENT ON FUNCTION credit_attendance_hours IS 'Creates or updates volunteer hours from an attendance duration, verified by the session''s officer unless they are the member (internal)';
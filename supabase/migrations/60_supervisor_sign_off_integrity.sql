@@ -0,0 +1,184 @@
+-- Migration: Keep supervisor sign-off tied to what the supervisor saw
+-- A member could have a supervisor confirm their hours and then change the
+-- hours, date or description, and the confirmation stayed on the entry. Such
+-- an edit now sets the sign-off back to requested so the member has to ask
+-- again. Sign-off links also can no longer be sent to the member's own email
+-- address.
+
+-- 1. Reset a supervisor's answer when the entry it covered changes. Client
+-- writes to the supervisor columns are still rejected first.
+CREATE OR REPLACE FUNCTION protect_volunteer_hours_supervisor_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') THEN
+        IF TG_OP = 'INSERT' THEN
+            IF NEW.supervisor_name IS NOT NULL
+                OR NEW.supervisor_email IS NOT NULL
+                OR NEW.supervisor_status IS NOT NULL
+                OR NEW.supervisor_requested_at IS NOT NULL
+                OR NEW.supervisor_responded_at IS NOT NULL
+                OR NEW.supervisor_comment IS NOT NULL THEN
+                RAISE EXCEPTION 'Supervisor sign-off can only be requested through the sign-off link' USING ERRCODE = '42501';
+            END IF;
+        ELSIF NEW.supervisor_name IS DISTINCT FROM OLD.supervisor_name
+            OR NEW.supervisor_email IS DISTINCT FROM OLD.supervisor_email
+            OR NEW.supervisor_status IS DISTINCT FROM OLD.supervisor_status
+            OR NEW.supervisor_requested_at IS DISTINCT FROM OLD.supervisor_requested_at
+            OR NEW.supervisor_responded_at IS DISTINCT FROM OLD.supervisor_responded_at
+            OR NEW.supervisor_comment IS DISTINCT FROM OLD.supervisor_comment THEN
+            RAISE EXCEPTION 'Supervisor sign-off can only be changed through the sign-off link' USING ERRCODE = '42501';
+        END IF;
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+        AND OLD.supervisor_status IN ('confirmed', 'denied')
+        AND (NEW.hours IS DISTINCT FROM OLD.hours
+            OR NEW.activity_date IS DISTINCT FROM OLD.activity_date
+            OR NEW.description IS DISTINCT FROM OLD.description) THEN
+        NEW.supervisor_status := 'requested';
+        NEW.supervisor_responded_at := NULL;
+        NEW.supervisor_comment := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. Refuse a sign-off link addressed to the member
+CREATE OR REPLACE FUNCTION create_supervisor_sign_off_token(
+    p_member_id UUID,
+    p_hour_id UUID,
+    p_supervisor_name TEXT,
+    p_supervisor_email TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    hour_row volunteer_hours;
+    raw_token TEXT;
+    token_expires_at TIMESTAMPTZ;
+    member_name TEXT;
+    org_name TEXT;
+BEGIN
+    IF p_member_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'unauthorized',
+            'message', 'User not authenticated'
+        );
+    END IF;
+
+    SELECT * INTO hour_row
+    FROM volunteer_hours
+    WHERE id = p_hour_id
+    FOR UPDATE;
+
+    IF hour_row.id IS NULL OR hour_row.member_id <> p_member_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_found',
+            'message', 'Volunteer hour record not found'
+        );
+    END IF;
+
+    IF hour_row.event_id IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'not_external',
+            'message', 'Supervisor sign-off is only available for external activities'
+        );
+    END IF;
+
+    IF hour_row.status::TEXT NOT IN ('pending', 'officer_approved') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_reviewed',
+            'message', 'These volunteer hours have already been reviewed'
+        );
+    END IF;
+
+    IF hour_row.supervisor_status IN ('confirmed', 'denied') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'already_responded',
+            'message', 'The supervisor has already responded'
+        );
+    END IF;
+
+    IF COALESCE(TRIM(p_supervisor_name), '') = ''
+        OR p_supervisor_email !~* '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_supervisor',
+            'message', 'Enter the supervisor''s name and a valid email address'
+        );
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM profiles p
+        WHERE p.id = hour_row.member_id
+        AND LOWER(TRIM(p.email)) = LOWER(TRIM(p_supervisor_email))
+    ) OR EXISTS (
+        SELECT 1 FROM auth.users u
+        WHERE u.id = hour_row.member_id
+        AND LOWER(TRIM(u.email)) = LOWER(TRIM(p_supervisor_email))
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_supervisor',
+            'message', 'The supervisor''s email address can''t be your own'
+        );
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM supervisor_sign_off_tokens
+        WHERE volunteer_hour_id = p_hour_id
+        AND created_at > NOW() - INTERVAL '5 minutes'
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'recently_sent',
+            'message', 'A sign-off request was just sent. Please wait a few minutes before resending.'
+        );
+    END IF;
+
+    -- Only the newest link works
+    DELETE FROM supervisor_sign_off_tokens
+    WHERE volunteer_hour_id = p_hour_id
+    AND used_at IS NULL;
+
+    raw_token := encode(extensions.gen_random_bytes(32), 'hex');
+
+    INSERT INTO supervisor_sign_off_tokens (volunteer_hour_id, token_hash, supervisor_email)
+    VALUES (p_hour_id, encode(extensions.digest(raw_token, 'sha256'), 'hex'), LOWER(TRIM(p_supervisor_email)))
+    RETURNING expires_at INTO token_expires_at;
+
+    UPDATE volunteer_hours
+    SET supervisor_name = TRIM(p_supervisor_name),
+        supervisor_email = LOWER(TRIM(p_supervisor_email)),
+        supervisor_status = 'requested',
+        supervisor_requested_at = NOW()
+    WHERE id = p_hour_id;
+
+    SELECT COALESCE(NULLIF(TRIM(p.display_name), ''), TRIM(CONCAT(p.first_name, ' ', p.last_name)))
+    INTO member_name
+    FROM profiles p
+    WHERE p.id = hour_row.member_id;
+
+    SELECT o.name INTO org_name FROM organizations o WHERE o.id = hour_row.org_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'token', raw_token,
+        'expires_at', token_expires_at,
+        'supervisor_name', TRIM(p_supervisor_name),
+        'supervisor_email', LOWER(TRIM(p_supervisor_email)),
+        'member_name', member_name,
+        'org_name', org_name,
+        'hours', hour_row.hours,
+        'activity_date', hour_row.activity_date,
+        'description', hour_row.description
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Comments
+COMMENT ON FUNCTION protect_volunteer_hours_supervisor_columns IS 'Blocks client writes to the supervisor columns and resets the supervisor''s answer when the hours, date or description change';
@@ -0,0 +1,112 @@
+-- Migration: Count scheduled announcements in the digest they were published in
+-- Digests counted announcements by created_at, so one scheduled before a
+-- member's last digest and published after it was never counted. Announcements
+-- are now placed by when they were published.
+
+-- 1. Members due a digest this hour, with their counts per type
+CREATE OR REPLACE FUNCTION get_due_notification_digests(
+    p_at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS TABLE (
+    user_id UUID,
+    expo_push_token TEXT,
+    delivery_mode TEXT,
+    announcements_count INTEGER,
+    events_count INTEGER,
+    volunteer_hours_count INTEGER,
+    newest_item JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH recipients AS (
+        SELECT
+            p.id,
+            p.expo_push_token,
+            p.notification_preferences AS prefs,
+            p.notification_preferences ->> 'delivery_mode' AS mode,
+            p_at AT TIME ZONE COALESCE(tz.name, 'UTC') AS local_at,
+            COALESCE(
+                p.last_digest_sent_at,
+                p_at - CASE WHEN p.notification_preferences ->> 'delivery_mode' = 'weekly'
+                            THEN INTERVAL '7 days' ELSE INTERVAL '1 day' END
+            ) AS since,
+            p.last_digest_sent_at
+        FROM profiles p
+        LEFT JOIN pg_timezone_names tz ON tz.name = p.notification_preferences ->> 'timezone'
+        WHERE p.notification_preferences ->> 'delivery_mode' IN ('daily', 'weekly')
+          AND p.notifications_enabled = true
+          AND p.expo_push_token IS NOT NULL
+          AND (p.muted_until IS NULL OR p.muted_until <= p_at)
+    ),
+    due AS (
+        SELECT r.*
+        FROM recipients r
+        WHERE EXTRACT(HOUR FROM r.local_at) = 18
+          AND (
+            (r.mode = 'daily'
+              AND (r.last_digest_sent_at IS NULL OR r.last_digest_sent_at < p_at - INTERVAL '20 hours'))
+            OR (r.mode = 'weekly'
+              AND EXTRACT(DOW FROM r.local_at) = 0
+              AND (r.last_digest_sent_at IS NULL OR r.last_digest_sent_at < p_at - INTERVAL '6 days'))
+          )
+    ),
+    items AS (
+        SELECT d.id AS recipient_id, 'announcement' AS item_type, a.id AS item_id, a.org_id, COALESCE(a.publish_at, a.created_at) AS item_at
+        FROM due d
+        JOIN memberships m ON m.user_id = d.id AND m.is_active = true
+        JOIN announcements a ON a.org_id = m.org_id
+        WHERE (d.prefs ->> 'announcements')::boolean IS DISTINCT FROM false
+          AND a.status = 'active'
+          AND COALESCE(a.publish_at, a.created_at) > d.since
+          AND a.created_by IS DISTINCT FROM d.id
+
+        UNION ALL
+
+        SELECT d.id, 'event', e.id, e.org_id, e.created_at
+        FROM due d
+        JOIN memberships m ON m.user_id = d.id AND m.is_active = true
+        JOIN events e ON e.org_id = m.org_id
+        WHERE (d.prefs ->> 'events')::boolean IS DISTINCT FROM false
+          AND e.status = 'active'
+          AND e.created_at > d.since
+          AND e.created_by IS DISTINCT FROM d.id
+
+        UNION ALL
+
+        SELECT d.id, 'volunteer_hours', va.volunteer_hour_id, va.org_id, va.performed_at
+        FROM due d
+        JOIN volunteer_hours_audit va ON va.member_id = d.id
+        WHERE (d.prefs ->> 'volunteer_hours')::boolean IS DISTINCT FROM false
+          AND va.action IN ('approved', 'rejected')
+          AND va.performed_at > d.since
+
+        UNION ALL
+
+        SELECT d.id, 'volunteer_hours', vh.id, vh.org_id, vh.submitted_at
+        FROM due d
+        JOIN memberships m ON m.user_id = d.id AND m.is_active = true
+            AND m.role IN ('officer', 'president', 'vice_president', 'admin')
+        JOIN volunteer_hours vh ON vh.org_id = m.org_id
+        WHERE (d.prefs ->> 'volunteer_hours')::boolean IS DISTINCT FROM false
+          AND vh.status = 'pending'
+          AND vh.submitted_at > d.since
+          AND vh.member_id <> d.id
+    )
+    SELECT
+        d.id,
+        d.expo_push_token,
+        d.mode,
+        COUNT(i.item_id) FILTER (WHERE i.item_type = 'announcement')::INTEGER,
+        COUNT(i.item_id) FILTER (WHERE i.item_type = 'event')::INTEGER,
+        COUNT(i.item_id) FILTER (WHERE i.item_type = 'volunteer_hours')::INTEGER,
+        (
+            SELECT jsonb_build_object('type', n.item_type, 'itemId', n.item_id, 'orgId', n.org_id)
+            FROM items n
+            WHERE n.recipient_id = d.id
+            ORDER BY n.item_at DESC
+            LIMIT 1
+        )
+    FROM due d
+    LEFT JOIN items i ON i.recipient_id = d.id
+    GROUP BY d.id, d.expo_push_token, d.mode;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,83 @@
+-- Migration: Keep action buttons on deferred pushes
+-- A volunteer hours review push held back by quiet hours was delivered without
+-- its notification category, so officers lost the approve and reject buttons.
+-- Deferred pushes now store the category and the dispatcher sends it again.
+
+-- 1. Category column
+ALTER TABLE deferred_notifications
+  ADD COLUMN IF NOT EXISTS category_id TEXT;
+
+-- 2. Claim due notifications with their category
+-- The result columns change, so the function is dropped and created again
+DROP FUNCTION IF EXISTS claim_due_deferred_notifications(INTEGER);
+
+CREATE FUNCTION claim_due_deferred_notifications(
+    p_limit INTEGER DEFAULT 200
+) RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    org_id UUID,
+    notification_type TEXT,
+    item_id TEXT,
+    title TEXT,
+    body TEXT,
+    data JSONB,
+    channel_id TEXT,
+    category_id TEXT,
+    created_at TIMESTAMPTZ,
+    expo_push_token TEXT,
+    notifications_enabled BOOLEAN
+) AS $$
+BEGIN
+    -- Delivered rows are only kept long enough to debug a run
+    DELETE FROM deferred_notifications d
+    WHERE d.delivered_at < NOW() - INTERVAL '7 days';
+
+    RETURN QUERY
+    WITH due_users AS (
+        SELECT DISTINCT d.user_id
+        FROM deferred_notifications d
+        WHERE d.delivered_at IS NULL
+          AND d.deliver_after <= NOW()
+        LIMIT p_limit
+    ),
+    claimed AS (
+        UPDATE deferred_notifications d
+        SET delivered_at = NOW()
+        WHERE d.id IN (
+            SELECT q.id
+            FROM deferred_notifications q
+            WHERE q.user_id IN (SELECT du.user_id FROM due_users du)
+              AND q.delivered_at IS NULL
+              AND q.deliver_after <= NOW()
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING d.*
+    )
+    SELECT
+        c.id,
+        c.user_id,
+        c.org_id,
+        c.notification_type,
+        c.item_id,
+        c.title,
+        c.body,
+        c.data,
+        c.channel_id,
+        c.category_id,
+        c.created_at,
+        p.expo_push_token,
+        COALESCE(p.notifications_enabled, false)
+    FROM claimed c
+    JOIN profiles p ON p.id = c.user_id
+    ORDER BY c.user_id, c.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Permissions
+REVOKE EXECUTE ON FUNCTION claim_due_deferred_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_deferred_notifications(INTEGER) TO service_role;
+
+-- 4. Comments
+COMMENT ON COLUMN deferred_notifications.category_id IS 'Notification category with action buttons, e.g. volunteer_hours_review';
+COMMENT ON FUNCTION claim_due_deferred_notifications IS 'Marks and returns every due notification for a batch of recipients (service role only)';